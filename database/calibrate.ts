@@ -0,0 +1,83 @@
+#!/usr/bin/env tsx
+// Item calibration job for PingToPass
+// Runs offline against a local SQLite file (or any libSQL URL)
+//
+// Usage:
+//   tsx database/calibrate.ts --db=./data/pingtopass.db [--exam=1] [--dry-run]
+
+import { drizzle } from 'drizzle-orm/libsql'
+import { createClient } from '@libsql/client'
+import * as schema from './schema'
+import type { Database } from './utils/connection'
+import { CalibrationQueries, CALIBRATION_CONFIG } from './utils/calibration'
+
+interface CalibrationOptions {
+  url: string
+  authToken?: string
+  examId?: number
+  dryRun: boolean
+}
+
+function parseArgs(argv: string[]): CalibrationOptions {
+  const value = (name: string) => argv.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=')
+
+  const target = value('db') || process.env.CALIBRATION_DATABASE_URL || './data/pingtopass.db'
+  const exam = value('exam')
+
+  return {
+    // Bare paths are treated as local SQLite files
+    url: /^[a-z]+:/.test(target) ? target : `file:${target}`,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+    examId: exam ? Number(exam) : undefined,
+    dryRun: argv.includes('--dry-run')
+  }
+}
+
+async function runCalibrationJob() {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (options.examId !== undefined && !Number.isInteger(options.examId)) {
+    console.error('❌ --exam must be a numeric exam ID')
+    process.exit(1)
+  }
+
+  const client = createClient({
+    url: options.url,
+    authToken: options.url.startsWith('file:') ? undefined : options.authToken
+  })
+  const db = drizzle(client, { schema }) as unknown as Database
+  const calibration = new CalibrationQueries(db)
+
+  try {
+    console.log(`📐 Calibrating items from ${options.url}${options.examId ? ` (exam ${options.examId})` : ''}`)
+    if (options.dryRun) console.log('   Dry run: nothing will be written')
+
+    const result = await calibration.runCalibration({ examId: options.examId, dryRun: options.dryRun })
+
+    console.log(`\n📊 ${result.items.length} items with responses`)
+    console.log(`   Calibrated: ${result.calibrated}`)
+    console.log(`   Not enough data (< ${CALIBRATION_CONFIG.minResponses} respondents): ${result.items.length - result.calibrated}`)
+    console.log(`   Flagged: ${result.flagged.length}`)
+
+    for (const item of result.flagged) {
+      const r = item.pointBiserial !== null ? item.pointBiserial.toFixed(2) : 'n/a'
+      console.log(`   ⚠️  Question ${item.questionId}: ${item.flags.join(', ')} (n=${item.responses}, p=${item.proportionCorrect.toFixed(2)}, r=${r})`)
+    }
+
+    console.log(options.dryRun ? '\n📝 Dry run complete.' : '\n✅ Calibration written to questions and item_calibrations')
+
+  } catch (error) {
+    console.error('\n💥 Calibration failed:', error)
+    process.exit(1)
+  } finally {
+    client.close()
+  }
+}
+
+// Run calibration if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCalibrationJob()
+}
+
+export { parseArgs }
+export default runCalibrationJob
@@ -0,0 +1,126 @@
+#!/usr/bin/env tsx
+// Prompt evaluation for PingToPass
+// Replays an evaluation set through two template versions; --record calls OpenRouter
+// first and saves the replies into the set so later runs are offline
+//
+// Usage:
+//   tsx database/evaluate-prompts.ts --set=database/evals/question-generation.json --baseline=v1 --candidate=v2 [--record]
+//   tsx database/evaluate-prompts.ts --list
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { listPrompts } from './utils/prompts'
+import {
+  evaluatePrompts,
+  RecordedResponseProvider,
+  RecordingProvider,
+  type EvaluationSet,
+  type PromptVersionSummary
+} from './utils/prompt-evaluation'
+import { OpenRouterProvider } from '../server/utils/ai-provider'
+
+interface EvaluationOptions {
+  set?: string
+  baseline?: string
+  candidate?: string
+  record: boolean
+  list: boolean
+}
+
+function parseArgs(argv: string[]): EvaluationOptions {
+  const value = (name: string) => argv.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=')
+
+  return {
+    set: value('set'),
+    baseline: value('baseline'),
+    candidate: value('candidate'),
+    record: argv.includes('--record'),
+    list: argv.includes('--list')
+  }
+}
+
+const percent = (rate: number | null) => rate === null ? 'n/a' : `${(rate * 100).toFixed(1)}%`
+
+function printSummary(label: string, summary: PromptVersionSummary) {
+  console.log(`\n${label}: ${summary.templateId}`)
+  console.log(`   Valid items: ${summary.validItems}/${summary.expectedItems} (${percent(summary.validityRate)})`)
+  console.log(`   Failed calls: ${summary.failedCalls}/${summary.calls}`)
+  console.log(`   Tokens: ${summary.promptTokens} prompt + ${summary.completionTokens} completion`)
+  console.log(`   Cost: ${summary.costCents === null ? 'unknown model price' : `${summary.costCents.toFixed(4)}¢`}`)
+}
+
+async function runEvaluation() {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (options.list) {
+    for (const prompt of listPrompts()) {
+      console.log(`${prompt.isDefault ? '⭐' : '  '} ${prompt.purpose.padEnd(24)} ${prompt.id.padEnd(24)} ${prompt.description}`)
+    }
+    return
+  }
+
+  if (!options.set || !options.baseline || !options.candidate) {
+    console.error('❌ --set, --baseline and --candidate are required')
+    process.exit(1)
+  }
+  if (options.record && !process.env.OPENROUTER_API_KEY) {
+    console.error('❌ OPENROUTER_API_KEY is required to record responses')
+    process.exit(1)
+  }
+
+  try {
+    const evaluationSet: EvaluationSet = JSON.parse(await readFile(options.set, 'utf8'))
+    const recorder = options.record
+      ? new RecordingProvider(
+          new OpenRouterProvider(process.env.OPENROUTER_API_KEY!, process.env.AI_MODEL_DEFAULT || 'qwen/qwen2.5-7b-instruct'),
+          evaluationSet.recordings
+        )
+      : null
+
+    console.log(`🧪 Evaluating ${evaluationSet.purpose} ${options.baseline} vs ${options.candidate} on ${evaluationSet.cases.length} cases`)
+    if (recorder) console.log(`   Recording live responses from ${recorder.model}`)
+
+    const result = await evaluatePrompts({
+      purpose: evaluationSet.purpose,
+      baseline: options.baseline,
+      candidate: options.candidate,
+      cases: evaluationSet.cases,
+      provider: recorder ?? new RecordedResponseProvider(evaluationSet.recordings)
+    })
+    if (!result.ok) {
+      console.error(`❌ No ${evaluationSet.purpose} prompt with version ${result.version}`)
+      process.exit(1)
+    }
+
+    const { report } = result
+    printSummary('📋 Baseline', report.baseline)
+    printSummary('🆕 Candidate', report.candidate)
+    if (report.answerKeyAgreement) {
+      const { compared, agreed, rate } = report.answerKeyAgreement
+      console.log(`\n🔑 Answer keys agree on ${agreed}/${compared} items (${percent(rate)})`)
+    }
+
+    for (const { caseId, baseline, candidate } of report.caseResults) {
+      for (const [label, outcome] of [['baseline', baseline], ['candidate', candidate]] as const) {
+        if (outcome.error) console.log(`   ❌ ${caseId} (${label}): ${outcome.error}`)
+        for (const item of outcome.rejected) console.log(`   ⚠️  ${caseId} (${label}) item ${item.index}: ${item.errors.join('; ')}`)
+      }
+    }
+
+    if (recorder) {
+      await writeFile(options.set, JSON.stringify({ ...evaluationSet, recordings: recorder.recordings }, null, 2) + '\n')
+      console.log(`\n💾 Saved recordings to ${options.set}`)
+    }
+
+  } catch (error) {
+    console.error('\n💥 Evaluation failed:', error)
+    process.exit(1)
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runEvaluation()
+}
+
+export { parseArgs }
+export default runEvaluation
@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+// Question bank import/export for PingToPass
+// Imports are a dry run unless --commit is given
+//
+// Usage:
+//   tsx database/interchange.ts import --exam=1 --file=questions.csv [--format=csv] [--objective=1.1] [--commit]
+//   tsx database/interchange.ts export --exam=1 --format=qti [--out=questions.zip] [--status=approved]
+//   Both accept --db=./data/pingtopass.db (or any libSQL URL)
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { drizzle } from 'drizzle-orm/libsql'
+import { createClient } from '@libsql/client'
+import * as schema from './schema'
+import type { Database } from './utils/connection'
+import type { ReviewStatus } from './schema/types'
+import { QuestionInterchangeQueries, INTERCHANGE_FORMATS, type InterchangeFormat } from './utils/question-interchange'
+
+interface InterchangeOptions {
+  command?: string
+  url: string
+  authToken?: string
+  examId: number
+  format?: InterchangeFormat
+  file?: string
+  out?: string
+  objectiveCode?: string
+  reviewStatus?: ReviewStatus[]
+  commit: boolean
+}
+
+// .zip and .xml are QTI, .gift and .gift.txt are GIFT, .csv is CSV
+function formatFromPath(path: string): InterchangeFormat | undefined {
+  if (/\.(zip|xml)$/i.test(path)) return 'qti'
+  if (/\.gift(\.txt)?$/i.test(path)) return 'gift'
+  if (/\.csv$/i.test(path)) return 'csv'
+  return undefined
+}
+
+function parseArgs(argv: string[]): InterchangeOptions {
+  const value = (name: string) => argv.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=')
+
+  const target = value('db') || process.env.DATABASE_URL || './data/pingtopass.db'
+  const file = value('file')
+  const format = value('format') ?? (file ? formatFromPath(file) : undefined)
+  const status = value('status')
+
+  return {
+    command: argv.find(arg => !arg.startsWith('--')),
+    // Bare paths are treated as local SQLite files
+    url: /^[a-z]+:/.test(target) ? target : `file:${target}`,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+    examId: Number(value('exam')),
+    format: format as InterchangeFormat | undefined,
+    file,
+    out: value('out'),
+    objectiveCode: value('objective'),
+    reviewStatus: status ? status.split(',') as ReviewStatus[] : undefined,
+    commit: argv.includes('--commit')
+  }
+}
+
+async function runInterchange() {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (options.command !== 'import' && options.command !== 'export') {
+    console.error('❌ Specify import or export')
+    process.exit(1)
+  }
+  if (!Number.isInteger(options.examId) || options.examId < 1) {
+    console.error('❌ --exam must be a numeric exam ID')
+    process.exit(1)
+  }
+  if (!options.format || !INTERCHANGE_FORMATS.includes(options.format)) {
+    console.error(`❌ --format must be one of ${INTERCHANGE_FORMATS.join(', ')}`)
+    process.exit(1)
+  }
+  if (options.command === 'import' && !options.file) {
+    console.error('❌ --file is required for import')
+    process.exit(1)
+  }
+
+  const client = createClient({
+    url: options.url,
+    authToken: options.url.startsWith('file:') ? undefined : options.authToken
+  })
+  const db = drizzle(client, { schema }) as unknown as Database
+  const interchange = new QuestionInterchangeQueries(db)
+
+  try {
+    if (options.command === 'import') {
+      console.log(`📥 Importing ${options.file} (${options.format}) into exam ${options.examId}`)
+      if (!options.commit) console.log('   Dry run: pass --commit to save the questions')
+
+      const result = await interchange.importQuestions({
+        examId: options.examId,
+        format: options.format,
+        content: new Uint8Array(await readFile(options.file!)),
+        dryRun: !options.commit,
+        defaultObjectiveCode: options.objectiveCode
+      })
+      if (!result.ok && result.reason === 'exam_not_found') {
+        console.error(`❌ Exam ${options.examId} not found`)
+        process.exit(1)
+      }
+
+      const { report } = result
+      console.log(`\n📊 ${report.total} entries: ${report.valid} valid, ${report.invalid} invalid, ${report.duplicates} duplicates`)
+      for (const item of report.items) {
+        if (item.status === 'invalid') console.log(`   ❌ ${item.ref}: ${item.errors?.join('; ')}`)
+        if (item.status === 'duplicate') console.log(`   ♻️  ${item.ref}: duplicate of ${item.duplicateOf}`)
+      }
+
+      if (!result.ok) {
+        console.error('\n❌ Nothing imported: fix the invalid entries first')
+        process.exit(1)
+      }
+      console.log(options.commit ? `\n✅ Imported ${report.imported} questions for review` : '\n📝 Dry run complete.')
+      return
+    }
+
+    const result = await interchange.exportQuestions({
+      examId: options.examId,
+      format: options.format,
+      reviewStatus: options.reviewStatus
+    })
+    if (!result.ok) {
+      console.error(`❌ Exam ${options.examId} not found`)
+      process.exit(1)
+    }
+
+    const out = options.out ?? result.file.filename
+    await writeFile(out, result.file.content)
+    for (const item of result.file.skipped) console.log(`   ⏭️  Question ${item.questionId}: ${item.reason}`)
+    console.log(`✅ Wrote ${out}${result.file.skipped.length ? ` (${result.file.skipped.length} skipped)` : ''}`)
+
+  } catch (error) {
+    console.error(`\n💥 ${options.command === 'import' ? 'Import' : 'Export'} failed:`, error)
+    process.exit(1)
+  } finally {
+    client.close()
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runInterchange()
+}
+
+export { parseArgs, formatFromPath }
+export default runInterchange
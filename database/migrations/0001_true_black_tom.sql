@@ -0,0 +1,19 @@
+CREATE TABLE `review_states` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`question_id` integer NOT NULL,
+	`ease_factor` real DEFAULT 2.5 NOT NULL,
+	`interval_days` real DEFAULT 0 NOT NULL,
+	`repetitions` integer DEFAULT 0 NOT NULL,
+	`lapses` integer DEFAULT 0 NOT NULL,
+	`due_at` integer NOT NULL,
+	`last_reviewed_at` integer,
+	`last_quality` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_review_states_user_question` ON `review_states` (`user_id`,`question_id`);--> statement-breakpoint
+CREATE INDEX `idx_review_states_user_due` ON `review_states` (`user_id`,`due_at`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `test_attempts` ADD `mode` text DEFAULT 'fixed';--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `ability_estimate` real;--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `ability_standard_error` real;--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `ability_trajectory` text;
\ No newline at end of file
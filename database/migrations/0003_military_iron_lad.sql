@@ -0,0 +1,18 @@
+CREATE TABLE `item_calibrations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`question_id` integer NOT NULL,
+	`run_at` integer NOT NULL,
+	`responses` integer NOT NULL,
+	`proportion_correct` real NOT NULL,
+	`point_biserial` real,
+	`discrimination` real,
+	`difficulty_parameter` real,
+	`previous_difficulty` integer,
+	`calibrated_difficulty` integer,
+	`flags` text DEFAULT '[]' NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_item_calibrations_question_run` ON `item_calibrations` (`question_id`,`run_at`);--> statement-breakpoint
+CREATE INDEX `idx_item_calibrations_run` ON `item_calibrations` (`run_at`);
\ No newline at end of file
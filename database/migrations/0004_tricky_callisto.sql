@@ -0,0 +1,4 @@
+ALTER TABLE `exams` ADD `score_scale` text;--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `score_scale` text;--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `scaled_score` integer;--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `domain_scores` text;
\ No newline at end of file
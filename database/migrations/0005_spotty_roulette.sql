@@ -0,0 +1 @@
+ALTER TABLE `user_answers` ADD `credit` real;
\ No newline at end of file
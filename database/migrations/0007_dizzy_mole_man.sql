@@ -0,0 +1,32 @@
+CREATE TABLE `question_fingerprints` (
+	`question_id` integer PRIMARY KEY NOT NULL,
+	`exam_id` integer NOT NULL,
+	`signature` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`exam_id`) REFERENCES `exams`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_question_fingerprints_exam` ON `question_fingerprints` (`exam_id`);--> statement-breakpoint
+CREATE TABLE `question_similarity_flags` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`exam_id` integer NOT NULL,
+	`question_id` integer NOT NULL,
+	`similar_question_id` integer NOT NULL,
+	`similarity` real NOT NULL,
+	`status` text DEFAULT 'open' NOT NULL,
+	`kept_question_id` integer,
+	`resolved_by` integer,
+	`resolved_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`exam_id`) REFERENCES `exams`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`similar_question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`kept_question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`resolved_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_question_similarity_flags_pair` ON `question_similarity_flags` (`question_id`,`similar_question_id`);--> statement-breakpoint
+CREATE INDEX `idx_question_similarity_flags_exam_status` ON `question_similarity_flags` (`exam_id`,`status`);--> statement-breakpoint
+ALTER TABLE `user_answers` ADD `merged_from_question_id` integer;
\ No newline at end of file
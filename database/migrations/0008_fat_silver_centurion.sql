@@ -0,0 +1,28 @@
+CREATE TABLE `question_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`question_id` integer NOT NULL,
+	`revision` integer NOT NULL,
+	`objective_id` integer NOT NULL,
+	`text` text NOT NULL,
+	`type` text NOT NULL,
+	`answers` text NOT NULL,
+	`explanation` text,
+	`reference` text,
+	`difficulty` integer,
+	`tags` text DEFAULT '[]' NOT NULL,
+	`image_url` text,
+	`diagram_data` text,
+	`changed_fields` text DEFAULT '[]' NOT NULL,
+	`substantive` integer DEFAULT false NOT NULL,
+	`stats_reset` integer DEFAULT false NOT NULL,
+	`created_by` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_question_revisions_question_revision` ON `question_revisions` (`question_id`,`revision`);--> statement-breakpoint
+ALTER TABLE `questions` ADD `stats_reset_at` integer;--> statement-breakpoint
+ALTER TABLE `questions` ADD `revision` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `question_revision_ids` text;--> statement-breakpoint
+ALTER TABLE `user_answers` ADD `question_revision_id` integer REFERENCES question_revisions(id);
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `question_feedback` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`question_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`question_revision_id` integer,
+	`reason` text NOT NULL,
+	`comment` text,
+	`status` text DEFAULT 'open' NOT NULL,
+	`resolved_by` integer,
+	`resolved_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`question_revision_id`) REFERENCES `question_revisions`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`resolved_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_question_feedback_learner_revision` ON `question_feedback` (`question_id`,`user_id`,`question_revision_id`);--> statement-breakpoint
+CREATE INDEX `idx_question_feedback_question_status` ON `question_feedback` (`question_id`,`status`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `test_attempts` ADD `form_seed` text;--> statement-breakpoint
+ALTER TABLE `test_attempts` ADD `form_number` integer;
\ No newline at end of file
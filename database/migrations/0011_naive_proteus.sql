@@ -0,0 +1,18 @@
+CREATE TABLE `exam_version_mappings` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`from_exam_id` integer NOT NULL,
+	`to_exam_id` integer NOT NULL,
+	`entity_type` text NOT NULL,
+	`source_id` integer NOT NULL,
+	`target_id` integer,
+	`created_by` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`from_exam_id`) REFERENCES `exams`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`to_exam_id`) REFERENCES `exams`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_exam_version_mappings_source` ON `exam_version_mappings` (`from_exam_id`,`entity_type`,`source_id`);--> statement-breakpoint
+CREATE INDEX `idx_exam_version_mappings_target` ON `exam_version_mappings` (`to_exam_id`,`entity_type`);--> statement-breakpoint
+ALTER TABLE `exams` ADD `successor_exam_id` integer REFERENCES exams(id);--> statement-breakpoint
+ALTER TABLE `user_progress` ADD `migrated_at` integer;
\ No newline at end of file
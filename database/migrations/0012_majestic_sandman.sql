@@ -0,0 +1,27 @@
+CREATE TABLE `certification_path_exams` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`path_id` integer NOT NULL,
+	`exam_id` integer NOT NULL,
+	`position` integer NOT NULL,
+	`prerequisite_rule` text DEFAULT 'previous_exam' NOT NULL,
+	FOREIGN KEY (`path_id`) REFERENCES `certification_paths`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`exam_id`) REFERENCES `exams`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_certification_path_exams_path_exam` ON `certification_path_exams` (`path_id`,`exam_id`);--> statement-breakpoint
+CREATE INDEX `idx_certification_path_exams_position` ON `certification_path_exams` (`path_id`,`position`);--> statement-breakpoint
+CREATE INDEX `idx_certification_path_exams_exam` ON `certification_path_exams` (`exam_id`);--> statement-breakpoint
+CREATE TABLE `certification_paths` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`vendor_id` text NOT NULL,
+	`code` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`sort_order` integer DEFAULT 0,
+	`is_active` integer DEFAULT true,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_certification_paths_vendor_code` ON `certification_paths` (`vendor_id`,`code`);--> statement-breakpoint
+CREATE INDEX `idx_certification_paths_active` ON `certification_paths` (`is_active`,`sort_order`);
\ No newline at end of file
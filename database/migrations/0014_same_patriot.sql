@@ -0,0 +1,29 @@
+CREATE TABLE `oauth_states` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`provider` text NOT NULL,
+	`state_hash` text NOT NULL,
+	`nonce` text NOT NULL,
+	`code_verifier` text NOT NULL,
+	`link_user_id` integer,
+	`redirect_to` text,
+	`expires_at` integer NOT NULL,
+	`consumed_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`link_user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_oauth_states_state` ON `oauth_states` (`state_hash`);--> statement-breakpoint
+CREATE INDEX `idx_oauth_states_expiry` ON `oauth_states` (`expires_at`);--> statement-breakpoint
+CREATE TABLE `user_identities` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`provider` text NOT NULL,
+	`subject` text NOT NULL,
+	`email` text,
+	`linked_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`last_used_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_user_identities_subject` ON `user_identities` (`provider`,`subject`);--> statement-breakpoint
+CREATE INDEX `idx_user_identities_user` ON `user_identities` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE `auth_attempts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`action` text NOT NULL,
+	`email` text,
+	`ip_address` text,
+	`succeeded` integer DEFAULT false NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_auth_attempts_email` ON `auth_attempts` (`action`,`email`,`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_auth_attempts_ip` ON `auth_attempts` (`action`,`ip_address`,`created_at`);--> statement-breakpoint
+CREATE TABLE `email_tokens` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`purpose` text NOT NULL,
+	`token_hash` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	`consumed_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_email_tokens_token` ON `email_tokens` (`token_hash`);--> statement-breakpoint
+CREATE INDEX `idx_email_tokens_user` ON `email_tokens` (`user_id`,`purpose`);
\ No newline at end of file
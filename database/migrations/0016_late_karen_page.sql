@@ -0,0 +1,14 @@
+CREATE TABLE `sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` integer NOT NULL,
+	`user_agent` text,
+	`device` text,
+	`ip_address` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`last_seen_at` integer NOT NULL,
+	`expires_at` integer NOT NULL,
+	`revoked_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_sessions_user` ON `sessions` (`user_id`,`revoked_at`);
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { PathPrerequisiteRule } from './types'
+
+// An ordered track of exams toward a certification, e.g. A+ → Network+ → Security+
+export const certificationPaths = sqliteTable('certification_paths', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+
+  // Identification
+  vendorId: text('vendor_id').notNull(),
+  code: text('code').notNull(), // 'comptia-infrastructure'
+  name: text('name').notNull(),
+  description: text('description'),
+
+  // Display
+  sortOrder: integer('sort_order').default(0),
+
+  // Status
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // Unique constraint on vendor + code
+  vendorCodeIdx: uniqueIndex('idx_certification_paths_vendor_code').on(table.vendorId, table.code),
+
+  // Catalog listing
+  activeIdx: index('idx_certification_paths_active').on(table.isActive, table.sortOrder)
+}))
+
+// Exams on a path, in the order they are meant to be taken
+export const certificationPathExams = sqliteTable('certification_path_exams', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  pathId: integer('path_id').notNull().references(() => certificationPaths.id, { onDelete: 'cascade' }),
+  examId: integer('exam_id').notNull().references(() => exams.id, { onDelete: 'cascade' }),
+
+  // Ordering and prerequisites
+  position: integer('position').notNull(), // 1 for the first exam
+  prerequisiteRule: text('prerequisite_rule').$type<PathPrerequisiteRule>().notNull().default('previous_exam')
+}, (table) => ({
+  // An exam appears once per path
+  pathExamIdx: uniqueIndex('idx_certification_path_exams_path_exam').on(table.pathId, table.examId),
+
+  // Ordered steps of a path, and the paths an exam belongs to
+  pathPositionIdx: index('idx_certification_path_exams_position').on(table.pathId, table.position),
+  examIdx: index('idx_certification_path_exams_exam').on(table.examId)
+}))
+
+export const certificationPathsRelations = relations(certificationPaths, ({ many }) => ({
+  exams: many(certificationPathExams)
+}))
+
+export const certificationPathExamsRelations = relations(certificationPathExams, ({ one }) => ({
+  // Parent relationships
+  path: one(certificationPaths, {
+    fields: [certificationPathExams.pathId],
+    references: [certificationPaths.id]
+  }),
+  exam: one(exams, {
+    fields: [certificationPathExams.examId],
+    references: [exams.id]
+  })
+}))
+
+// Import statements for relations
+import { exams } from './exams'
+
+export type CertificationPath = typeof certificationPaths.$inferSelect
+export type NewCertificationPath = typeof certificationPaths.$inferInsert
+export type CertificationPathExam = typeof certificationPathExams.$inferSelect
+export type NewCertificationPathExam = typeof certificationPathExams.$inferInsert
@@ -0,0 +1,50 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { EmailTokenPurpose, AuthAttemptAction } from './types'
+
+// Single-use links mailed for email verification and password reset
+export const emailTokens = sqliteTable('email_tokens', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  purpose: text('purpose').$type<EmailTokenPurpose>().notNull(),
+
+  // Only a SHA-256 of the token is kept
+  tokenHash: text('token_hash').notNull(),
+
+  // Lifecycle
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  consumedAt: integer('consumed_at', { mode: 'timestamp' }), // Used, or superseded by a newer link
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  tokenIdx: uniqueIndex('idx_email_tokens_token').on(table.tokenHash),
+  userIdx: index('idx_email_tokens_user').on(table.userId, table.purpose)
+}))
+
+// Sign-in, sign-up and mail requests, counted for rate limiting by email and IP
+export const authAttempts = sqliteTable('auth_attempts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  action: text('action').$type<AuthAttemptAction>().notNull(),
+  email: text('email'), // Lower-cased as submitted; need not belong to an account
+  ipAddress: text('ip_address'),
+  succeeded: integer('succeeded', { mode: 'boolean' }).notNull().default(false),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  emailIdx: index('idx_auth_attempts_email').on(table.action, table.email, table.createdAt),
+  ipIdx: index('idx_auth_attempts_ip').on(table.action, table.ipAddress, table.createdAt)
+}))
+
+export const emailTokensRelations = relations(emailTokens, ({ one }) => ({
+  // Parent relationships
+  user: one(users, {
+    fields: [emailTokens.userId],
+    references: [users.id]
+  })
+}))
+
+// Import statements for relations
+import { users } from './users'
+
+export type EmailToken = typeof emailTokens.$inferSelect
+export type NewEmailToken = typeof emailTokens.$inferInsert
+export type AuthAttempt = typeof authAttempts.$inferSelect
+export type NewAuthAttempt = typeof authAttempts.$inferInsert
@@ -0,0 +1,50 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { MappedEntity } from './types'
+
+// Where each objective and question of a retiring exam version lives on its successor
+export const examVersionMappings = sqliteTable('exam_version_mappings', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  fromExamId: integer('from_exam_id').notNull().references(() => exams.id, { onDelete: 'cascade' }),
+  toExamId: integer('to_exam_id').notNull().references(() => exams.id, { onDelete: 'cascade' }),
+
+  // Mapping
+  entityType: text('entity_type').$type<MappedEntity>().notNull(),
+  sourceId: integer('source_id').notNull(), // Objective or question on the old version
+  targetId: integer('target_id'), // Null when the content has no counterpart and is retired
+
+  // Authorship
+  createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // One mapping per old objective or question
+  sourceIdx: uniqueIndex('idx_exam_version_mappings_source').on(table.fromExamId, table.entityType, table.sourceId),
+
+  // Mappings into a new version
+  targetIdx: index('idx_exam_version_mappings_target').on(table.toExamId, table.entityType)
+}))
+
+export const examVersionMappingsRelations = relations(examVersionMappings, ({ one }) => ({
+  // Parent relationships
+  fromExam: one(exams, {
+    fields: [examVersionMappings.fromExamId],
+    references: [exams.id],
+    relationName: 'fromExam'
+  }),
+  toExam: one(exams, {
+    fields: [examVersionMappings.toExamId],
+    references: [exams.id],
+    relationName: 'toExam'
+  }),
+  author: one(users, {
+    fields: [examVersionMappings.createdBy],
+    references: [users.id]
+  })
+}))
+
+// Import statements for relations
+import { exams } from './exams'
+import { users } from './users'
+
+export type ExamVersionMapping = typeof examVersionMappings.$inferSelect
+export type NewExamVersionMapping = typeof examVersionMappings.$inferInsert
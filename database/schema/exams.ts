@@ -1,5 +1,6 @@
 import { sql, relations } from 'drizzle-orm'
-import { integer, text, real, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { integer, text, real, sqliteTable, index, uniqueIndex, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core'
+import type { ScoreScale } from './types'
 
 export const exams = sqliteTable('exams', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -14,12 +15,15 @@ export const exams = sqliteTable('exams', {
   passingScore: real('passing_score').default(0.65),
   questionCount: integer('question_count').default(65),
   timeLimitMinutes: integer('time_limit_minutes').default(90),
+  // Vendor scale for score reports; passingScore is the raw (0-1) cut it maps onto
+  scoreScale: text('score_scale', { mode: 'json' }).$type<ScoreScale>(),
   
   // Metadata
   version: text('version'),
   expiresAt: integer('expires_at', { mode: 'timestamp' }),
+  successorExamId: integer('successor_exam_id').references((): AnySQLiteColumn => exams.id, { onDelete: 'set null' }), // Version that replaces this one
   difficultyLevel: integer('difficulty_level').default(3),
-  prerequisites: text('prerequisites', { mode: 'json' }).$type<string[]>(),
+  prerequisites: text('prerequisites', { mode: 'json' }).$type<string[]>(), // Codes of exams to pass first
   
   // Pricing
   priceCents: integer('price_cents').default(0),
@@ -51,7 +55,8 @@ export const examsRelations = relations(exams, ({ many }) => ({
   questions: many(questions),
   studySessions: many(studySessions),
   testAttempts: many(testAttempts),
-  userProgress: many(userProgress)
+  userProgress: many(userProgress),
+  pathSteps: many(certificationPathExams)
 }))
 
 // Import statements for relations
@@ -60,6 +65,7 @@ import { questions } from './questions'
 import { studySessions } from './study-sessions'
 import { testAttempts } from './test-attempts'
 import { userProgress } from './user-progress'
+import { certificationPathExams } from './certification-paths'
 
 export type Exam = typeof exams.$inferSelect
 export type NewExam = typeof exams.$inferInsert
\ No newline at end of file
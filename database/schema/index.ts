@@ -2,6 +2,10 @@
 // Optimized for Turso (SQLite at the edge) with full TypeScript integration
 
 export * from './users'
+export * from './refresh-tokens'
+export * from './sessions'
+export * from './oauth'
+export * from './email-auth'
 export * from './exams'
 export * from './objectives'
 export * from './questions'
@@ -9,12 +13,24 @@ export * from './study-sessions'
 export * from './test-attempts'
 export * from './user-answers'
 export * from './user-progress'
+export * from './review-states'
+export * from './item-calibrations'
+export * from './question-reviews'
+export * from './question-revisions'
+export * from './question-feedback'
+export * from './question-similarity'
+export * from './exam-migrations'
+export * from './certification-paths'
 export * from './twitter'
 export * from './audit'
 export * from './types'
 
 // Re-export all relations for drizzle configuration
 import { usersRelations } from './users'
+import { refreshTokensRelations } from './refresh-tokens'
+import { sessionsRelations } from './sessions'
+import { userIdentitiesRelations } from './oauth'
+import { emailTokensRelations } from './email-auth'
 import { examsRelations } from './exams'
 import { objectivesRelations } from './objectives'
 import { questionsRelations } from './questions'
@@ -22,10 +38,22 @@ import { studySessionsRelations } from './study-sessions'
 import { testAttemptsRelations } from './test-attempts'
 import { userAnswersRelations } from './user-answers'
 import { userProgressRelations } from './user-progress'
+import { reviewStatesRelations } from './review-states'
+import { itemCalibrationsRelations } from './item-calibrations'
+import { questionReviewCommentsRelations } from './question-reviews'
+import { questionRevisionsRelations } from './question-revisions'
+import { questionFeedbackRelations } from './question-feedback'
+import { questionFingerprintsRelations, questionSimilarityFlagsRelations } from './question-similarity'
+import { examVersionMappingsRelations } from './exam-migrations'
+import { certificationPathsRelations, certificationPathExamsRelations } from './certification-paths'
 import { twitterRelations } from './twitter'
 
 export const relations = {
   usersRelations,
+  refreshTokensRelations,
+  sessionsRelations,
+  userIdentitiesRelations,
+  emailTokensRelations,
   examsRelations,
   objectivesRelations,
   questionsRelations,
@@ -33,5 +61,15 @@ export const relations = {
   testAttemptsRelations,
   userAnswersRelations,
   userProgressRelations,
+  reviewStatesRelations,
+  itemCalibrationsRelations,
+  questionReviewCommentsRelations,
+  questionRevisionsRelations,
+  questionFeedbackRelations,
+  questionFingerprintsRelations,
+  questionSimilarityFlagsRelations,
+  examVersionMappingsRelations,
+  certificationPathsRelations,
+  certificationPathExamsRelations,
   twitterRelations
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, real, sqliteTable, index } from 'drizzle-orm/sqlite-core'
+import type { CalibrationFlag } from './types'
+
+// Item statistics from each calibration run (history behind questions.difficulty)
+export const itemCalibrations = sqliteTable('item_calibrations', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  questionId: integer('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  runAt: integer('run_at', { mode: 'timestamp' }).notNull(), // Shared by every item in a run
+
+  // Classical Test Theory
+  responses: integer('responses').notNull(), // First responses per respondent
+  proportionCorrect: real('proportion_correct').notNull(), // p-value (0-1)
+  pointBiserial: real('point_biserial'), // Item vs rest-score correlation
+
+  // IRT (2PL, logistic metric)
+  discrimination: real('discrimination'), // a-parameter
+  difficultyParameter: real('difficulty_parameter'), // b-parameter
+
+  // Difficulty band before and after the run (1-5, null when not enough data)
+  previousDifficulty: integer('previous_difficulty'),
+  calibratedDifficulty: integer('calibrated_difficulty'),
+
+  // Quality flags, e.g. ["negative_discrimination"]
+  flags: text('flags', { mode: 'json' }).$type<CalibrationFlag[]>().notNull().default(sql`'[]'`),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // Latest calibration per question
+  questionRunIdx: index('idx_item_calibrations_question_run').on(table.questionId, table.runAt),
+
+  // Run reports
+  runIdx: index('idx_item_calibrations_run').on(table.runAt)
+}))
+
+export const itemCalibrationsRelations = relations(itemCalibrations, ({ one }) => ({
+  // Parent relationships
+  question: one(questions, {
+    fields: [itemCalibrations.questionId],
+    references: [questions.id]
+  })
+}))
+
+// Import statements for relations
+import { questions } from './questions'
+
+export type ItemCalibration = typeof itemCalibrations.$inferSelect
+export type NewItemCalibration = typeof itemCalibrations.$inferInsert
@@ -0,0 +1,54 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { Provider } from './types'
+
+// External identities signed in to an account; one account can hold several
+export const userIdentities = sqliteTable('user_identities', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: text('provider').$type<Provider>().notNull(),
+  subject: text('subject').notNull(), // The provider's stable user id (`sub`)
+  email: text('email'), // As the provider reported it at the last sign-in
+
+  linkedAt: integer('linked_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`),
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp' })
+}, (table) => ({
+  subjectIdx: uniqueIndex('idx_user_identities_subject').on(table.provider, table.subject),
+  userIdx: index('idx_user_identities_user').on(table.userId)
+}))
+
+// Authorization requests in flight, consumed by the callback
+export const oauthStates = sqliteTable('oauth_states', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  provider: text('provider').$type<Provider>().notNull(),
+  stateHash: text('state_hash').notNull(), // SHA-256 of the state sent to the provider
+  nonce: text('nonce').notNull(),
+  codeVerifier: text('code_verifier').notNull(), // PKCE
+
+  // Set when a signed-in user is linking the identity rather than signing in
+  linkUserId: integer('link_user_id').references(() => users.id, { onDelete: 'cascade' }),
+  redirectTo: text('redirect_to'),
+
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  consumedAt: integer('consumed_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  stateIdx: uniqueIndex('idx_oauth_states_state').on(table.stateHash),
+  expiryIdx: index('idx_oauth_states_expiry').on(table.expiresAt)
+}))
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  // Parent relationships
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id]
+  })
+}))
+
+// Import statements for relations
+import { users } from './users'
+
+export type UserIdentity = typeof userIdentities.$inferSelect
+export type NewUserIdentity = typeof userIdentities.$inferInsert
+export type OAuthState = typeof oauthStates.$inferSelect
+export type NewOAuthState = typeof oauthStates.$inferInsert
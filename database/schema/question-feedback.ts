@@ -0,0 +1,53 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { FeedbackReason, FeedbackStatus } from './types'
+
+// Learner reports of a problem with a question, e.g. a wrong answer key
+export const questionFeedback = sqliteTable('question_feedback', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  questionId: integer('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  questionRevisionId: integer('question_revision_id').references(() => questionRevisions.id, { onDelete: 'set null' }), // Revision being reported
+
+  // Report
+  reason: text('reason').$type<FeedbackReason>().notNull(),
+  comment: text('comment'),
+
+  // Moderation
+  status: text('status').$type<FeedbackStatus>().notNull().default('open'),
+  resolvedBy: integer('resolved_by').references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // One report per learner for each revision; reporting again updates it
+  learnerRevisionIdx: uniqueIndex('idx_question_feedback_learner_revision').on(table.questionId, table.userId, table.questionRevisionId),
+
+  // Open reports per question for the roll-up
+  questionStatusIdx: index('idx_question_feedback_question_status').on(table.questionId, table.status)
+}))
+
+export const questionFeedbackRelations = relations(questionFeedback, ({ one }) => ({
+  // Parent relationships
+  question: one(questions, {
+    fields: [questionFeedback.questionId],
+    references: [questions.id]
+  }),
+  reporter: one(users, {
+    fields: [questionFeedback.userId],
+    references: [users.id]
+  }),
+  revision: one(questionRevisions, {
+    fields: [questionFeedback.questionRevisionId],
+    references: [questionRevisions.id]
+  })
+}))
+
+// Import statements for relations
+import { questions } from './questions'
+import { questionRevisions } from './question-revisions'
+import { users } from './users'
+
+export type QuestionFeedback = typeof questionFeedback.$inferSelect
+export type NewQuestionFeedback = typeof questionFeedback.$inferInsert
@@ -0,0 +1,39 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index } from 'drizzle-orm/sqlite-core'
+import type { ReviewDecision } from './types'
+
+// Moderator review thread for a question; status changes themselves are in audit_log
+export const questionReviewComments = sqliteTable('question_review_comments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  questionId: integer('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+
+  // Set when the comment was left with a review decision, null for replies
+  decision: text('decision').$type<ReviewDecision>(),
+  body: text('body').notNull(),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // Thread for one question, oldest first
+  questionIdx: index('idx_question_review_comments_question').on(table.questionId, table.createdAt)
+}))
+
+export const questionReviewCommentsRelations = relations(questionReviewComments, ({ one }) => ({
+  // Parent relationships
+  question: one(questions, {
+    fields: [questionReviewComments.questionId],
+    references: [questions.id]
+  }),
+  author: one(users, {
+    fields: [questionReviewComments.userId],
+    references: [users.id]
+  })
+}))
+
+// Import statements for relations
+import { questions } from './questions'
+import { users } from './users'
+
+export type QuestionReviewComment = typeof questionReviewComments.$inferSelect
+export type NewQuestionReviewComment = typeof questionReviewComments.$inferInsert
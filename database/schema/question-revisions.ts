@@ -0,0 +1,53 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { QuestionType, QuestionAnswer, QuestionDiagram } from './types'
+
+// Immutable snapshot of a question's content; an edit adds a revision instead of changing one
+export const questionRevisions = sqliteTable('question_revisions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  questionId: integer('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  revision: integer('revision').notNull(), // 1 for the content as first saved
+
+  // Content as delivered to learners
+  objectiveId: integer('objective_id').notNull(),
+  text: text('text').notNull(),
+  type: text('type').$type<QuestionType>().notNull(),
+  answers: text('answers', { mode: 'json' }).$type<QuestionAnswer[]>().notNull(),
+  explanation: text('explanation'),
+  reference: text('reference'),
+  difficulty: integer('difficulty'),
+  tags: text('tags', { mode: 'json' }).$type<string[]>().notNull().default(sql`'[]'`),
+  imageUrl: text('image_url'),
+  diagramData: text('diagram_data', { mode: 'json' }).$type<QuestionDiagram>(),
+
+  // What changed from the previous revision
+  changedFields: text('changed_fields', { mode: 'json' }).$type<string[]>().notNull().default(sql`'[]'`),
+  substantive: integer('substantive', { mode: 'boolean' }).notNull().default(false), // Changes what is asked or which answer is right
+  statsReset: integer('stats_reset', { mode: 'boolean' }).notNull().default(false),
+
+  // Author
+  createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // One row per revision number
+  questionRevisionIdx: uniqueIndex('idx_question_revisions_question_revision').on(table.questionId, table.revision)
+}))
+
+export const questionRevisionsRelations = relations(questionRevisions, ({ one }) => ({
+  // Parent relationships
+  question: one(questions, {
+    fields: [questionRevisions.questionId],
+    references: [questions.id]
+  }),
+  author: one(users, {
+    fields: [questionRevisions.createdBy],
+    references: [users.id]
+  })
+}))
+
+// Import statements for relations
+import { questions } from './questions'
+import { users } from './users'
+
+export type QuestionRevision = typeof questionRevisions.$inferSelect
+export type NewQuestionRevision = typeof questionRevisions.$inferInsert
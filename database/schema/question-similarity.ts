@@ -0,0 +1,73 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, real, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import type { SimilarityFlagStatus } from './types'
+
+// MinHash signature of a question's text and answers, refreshed when the content changes
+export const questionFingerprints = sqliteTable('question_fingerprints', {
+  questionId: integer('question_id').primaryKey().references(() => questions.id, { onDelete: 'cascade' }),
+  examId: integer('exam_id').notNull().references(() => exams.id, { onDelete: 'cascade' }),
+
+  // Fingerprint
+  signature: text('signature', { mode: 'json' }).$type<number[]>().notNull(),
+  contentHash: text('content_hash').notNull(), // Detects edits since the signature was taken
+
+  // Timestamps
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // All fingerprints for an exam
+  examIdx: index('idx_question_fingerprints_exam').on(table.examId)
+}))
+
+// A pair of questions in the same exam that look like copies of each other
+export const questionSimilarityFlags = sqliteTable('question_similarity_flags', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  examId: integer('exam_id').notNull().references(() => exams.id, { onDelete: 'cascade' }),
+  questionId: integer('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }), // The newer question
+  similarQuestionId: integer('similar_question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  similarity: real('similarity').notNull(), // Estimated Jaccard similarity, 0-1
+
+  // Resolution
+  status: text('status').$type<SimilarityFlagStatus>().notNull().default('open'),
+  keptQuestionId: integer('kept_question_id').references(() => questions.id, { onDelete: 'set null' }),
+  resolvedBy: integer('resolved_by').references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // A pair is flagged once, whatever became of it
+  pairIdx: uniqueIndex('idx_question_similarity_flags_pair').on(table.questionId, table.similarQuestionId),
+
+  // Open flags for the reviewer list
+  examStatusIdx: index('idx_question_similarity_flags_exam_status').on(table.examId, table.status)
+}))
+
+export const questionFingerprintsRelations = relations(questionFingerprints, ({ one }) => ({
+  // Parent relationships
+  question: one(questions, {
+    fields: [questionFingerprints.questionId],
+    references: [questions.id]
+  })
+}))
+
+export const questionSimilarityFlagsRelations = relations(questionSimilarityFlags, ({ one }) => ({
+  // Parent relationships
+  question: one(questions, {
+    fields: [questionSimilarityFlags.questionId],
+    references: [questions.id]
+  }),
+  similarQuestion: one(questions, {
+    fields: [questionSimilarityFlags.similarQuestionId],
+    references: [questions.id]
+  })
+}))
+
+// Import statements for relations
+import { questions } from './questions'
+import { exams } from './exams'
+import { users } from './users'
+
+export type QuestionFingerprint = typeof questionFingerprints.$inferSelect
+export type NewQuestionFingerprint = typeof questionFingerprints.$inferInsert
+export type QuestionSimilarityFlag = typeof questionSimilarityFlags.$inferSelect
+export type NewQuestionSimilarityFlag = typeof questionSimilarityFlags.$inferInsert
@@ -1,6 +1,6 @@
 import { sql, relations } from 'drizzle-orm'
 import { integer, text, real, sqliteTable, index } from 'drizzle-orm/sqlite-core'
-import type { QuestionType, ReviewStatus, QuestionAnswer } from './types'
+import type { QuestionType, ReviewStatus, QuestionAnswer, QuestionDiagram } from './types'
 
 export const questions = sqliteTable('questions', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -40,10 +40,14 @@ export const questions = sqliteTable('questions', {
   correctAttempts: integer('correct_attempts').default(0),
   avgTimeSeconds: integer('avg_time_seconds').default(0),
   discriminationIndex: real('discrimination_index'), // Statistical quality measure
+  statsResetAt: integer('stats_reset_at', { mode: 'timestamp' }), // Answers before this are left out of the statistics
   
-  // Media Attachments (future expansion)
+  // Versioning: number of the current row in question_revisions
+  revision: integer('revision').notNull().default(1),
+  
+  // Media and interactive content (drag_drop, hotspot and simulation questions)
   imageUrl: text('image_url'),
-  diagramData: text('diagram_data', { mode: 'json' }),
+  diagramData: text('diagram_data', { mode: 'json' }).$type<QuestionDiagram>(),
   
   // Status
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
@@ -87,12 +91,24 @@ export const questionsRelations = relations(questions, ({ one, many }) => ({
   }),
   
   // User interaction relationships
-  userAnswers: many(userAnswers)
+  userAnswers: many(userAnswers),
+
+  // Moderator review thread
+  reviewComments: many(questionReviewComments),
+
+  // Content history
+  revisions: many(questionRevisions),
+
+  // Learner reports
+  feedback: many(questionFeedback)
 }))
 
 // Import statements for relations
 import { exams } from './exams'
 import { objectives } from './objectives'
+import { questionReviewComments } from './question-reviews'
+import { questionRevisions } from './question-revisions'
+import { questionFeedback } from './question-feedback'
 import { users } from './users'
 import { userAnswers } from './user-answers'
 
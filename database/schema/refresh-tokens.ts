@@ -0,0 +1,37 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+
+// Refresh tokens, rotated on every use. Tokens descending from one sign-in share a
+// family so a replayed token can revoke the whole chain.
+export const refreshTokens = sqliteTable('refresh_tokens', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  familyId: text('family_id').notNull(),
+
+  // Only a SHA-256 of the token is kept
+  tokenHash: text('token_hash').notNull(),
+
+  // Lifecycle
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  rotatedAt: integer('rotated_at', { mode: 'timestamp' }), // Set once exchanged for a new token
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  tokenIdx: uniqueIndex('idx_refresh_tokens_token').on(table.tokenHash),
+  familyIdx: index('idx_refresh_tokens_family').on(table.familyId),
+  userIdx: index('idx_refresh_tokens_user').on(table.userId, table.revokedAt)
+}))
+
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  // Parent relationships
+  user: one(users, {
+    fields: [refreshTokens.userId],
+    references: [users.id]
+  })
+}))
+
+// Import statements for relations
+import { users } from './users'
+
+export type RefreshToken = typeof refreshTokens.$inferSelect
+export type NewRefreshToken = typeof refreshTokens.$inferInsert
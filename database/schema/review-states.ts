@@ -0,0 +1,49 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, real, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+
+// Spaced-repetition state per user and question (SM-2 scheduling)
+export const reviewStates = sqliteTable('review_states', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  questionId: integer('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+
+  // SM-2 Parameters
+  easeFactor: real('ease_factor').notNull().default(2.5), // Never drops below 1.3
+  intervalDays: real('interval_days').notNull().default(0),
+  repetitions: integer('repetitions').notNull().default(0), // Consecutive successful reviews
+  lapses: integer('lapses').notNull().default(0), // Times the card was forgotten
+
+  // Scheduling
+  dueAt: integer('due_at', { mode: 'timestamp' }).notNull(),
+  lastReviewedAt: integer('last_reviewed_at', { mode: 'timestamp' }),
+  lastQuality: integer('last_quality'), // 0-5 recall quality of the latest review
+
+  // Timestamps
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  // One scheduling state per user-question pair
+  userQuestionIdx: uniqueIndex('idx_review_states_user_question').on(table.userId, table.questionId),
+
+  // Due-card lookups for review sessions
+  userDueIdx: index('idx_review_states_user_due').on(table.userId, table.dueAt)
+}))
+
+export const reviewStatesRelations = relations(reviewStates, ({ one }) => ({
+  // Parent relationships
+  user: one(users, {
+    fields: [reviewStates.userId],
+    references: [users.id]
+  }),
+  question: one(questions, {
+    fields: [reviewStates.questionId],
+    references: [questions.id]
+  })
+}))
+
+// Import statements for relations
+import { users } from './users'
+import { questions } from './questions'
+
+export type ReviewState = typeof reviewStates.$inferSelect
+export type NewReviewState = typeof reviewStates.$inferInsert
@@ -0,0 +1,36 @@
+import { sql, relations } from 'drizzle-orm'
+import { integer, text, sqliteTable, index } from 'drizzle-orm/sqlite-core'
+
+// Signed-in devices. A session's id is the family id its refresh tokens share
+// and the `sid` claim in its access tokens, so revoking it stops both at once.
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  // Device
+  userAgent: text('user_agent'),
+  device: text('device'), // Readable label, e.g. "Chrome on macOS"
+  ipAddress: text('ip_address'), // Most recent
+
+  // Lifecycle
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`),
+  lastSeenAt: integer('last_seen_at', { mode: 'timestamp' }).notNull(),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(), // When its newest refresh token runs out
+  revokedAt: integer('revoked_at', { mode: 'timestamp' })
+}, (table) => ({
+  userIdx: index('idx_sessions_user').on(table.userId, table.revokedAt)
+}))
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  // Parent relationships
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id]
+  })
+}))
+
+// Import statements for relations
+import { users } from './users'
+
+export type Session = typeof sessions.$inferSelect
+export type NewSession = typeof sessions.$inferInsert
@@ -1,6 +1,6 @@
 import { sql, relations } from 'drizzle-orm'
 import { integer, text, real, sqliteTable, index } from 'drizzle-orm/sqlite-core'
-import type { TestStatus, ObjectiveBreakdown } from './types'
+import type { TestStatus, TestMode, ObjectiveBreakdown, AbilityPoint, ScoreScale, DomainScore } from './types'
 
 export const testAttempts = sqliteTable('test_attempts', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -8,20 +8,32 @@ export const testAttempts = sqliteTable('test_attempts', {
   examId: integer('exam_id').notNull().references(() => exams.id, { onDelete: 'cascade' }),
   
   // Test Configuration
+  mode: text('mode').$type<TestMode>().default('fixed'),
   questionIds: text('question_ids', { mode: 'json' }).$type<number[]>().notNull(), // Array in test order
+  questionRevisionIds: text('question_revision_ids', { mode: 'json' }).$type<number[]>(), // Revision shown for each of questionIds
+  formSeed: text('form_seed'), // Seed and parallel form the question set was assembled from
+  formNumber: integer('form_number'),
   timeLimitMinutes: integer('time_limit_minutes'),
   passingScore: real('passing_score'),
+  scoreScale: text('score_scale', { mode: 'json' }).$type<ScoreScale>(),
   
   // Results
   score: real('score'), // Final percentage score (0-1)
+  scaledScore: integer('scaled_score'), // On the attempt's vendor scale
   passed: integer('passed', { mode: 'boolean' }),
   correctCount: integer('correct_count'),
   incorrectCount: integer('incorrect_count'),
   skippedCount: integer('skipped_count'),
   
+  // Adaptive Scoring (IRT ability on the logit scale)
+  abilityEstimate: real('ability_estimate'),
+  abilityStandardError: real('ability_standard_error'),
+  abilityTrajectory: text('ability_trajectory', { mode: 'json' }).$type<AbilityPoint[]>(),
+  
   // Detailed Scoring (JSON)
   // Format: {"1": {"correct": 8, "total": 10, "percentage": 0.8}, ...}
   objectiveBreakdown: text('objective_breakdown', { mode: 'json' }).$type<ObjectiveBreakdown>(),
+  domainScores: text('domain_scores', { mode: 'json' }).$type<DomainScore[]>(),
   
   // Time Analysis
   totalTimeSeconds: integer('total_time_seconds'),
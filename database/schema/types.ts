@@ -3,14 +3,36 @@
 
 export type Provider = 'google' | 'email'
 export type UserRole = 'user' | 'admin' | 'moderator'
+export type EmailTokenPurpose = 'verify_email' | 'reset_password'
+export type AuthAttemptAction = 'signup' | 'login' | 'verify_resend' | 'password_reset'
 export type SubscriptionStatus = 'free' | 'premium' | 'enterprise'
 
-export type QuestionType = 'multiple_choice' | 'multi_select' | 'true_false' | 'drag_drop' | 'hotspot'
+export type QuestionType = 'multiple_choice' | 'multi_select' | 'true_false' | 'drag_drop' | 'hotspot' | 'simulation'
 export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'needs_revision'
+export type ReviewDecision = 'approve' | 'reject' | 'request_revision'
+export type SimilarityFlagStatus = 'open' | 'merged' | 'retired' | 'dismissed'
+export type FeedbackReason = 'wrong_key' | 'ambiguous' | 'outdated' | 'typo'
+export type FeedbackStatus = 'open' | 'resolved' | 'dismissed'
+export type MappedEntity = 'objective' | 'question'
+// previous_exam: the exam before it on the path comes first; none: take it at any point
+export type PathPrerequisiteRule = 'previous_exam' | 'none'
 
 export type StudyMode = 'practice' | 'review' | 'speed_drill' | 'weak_areas' | 'custom'
 export type SessionStatus = 'active' | 'paused' | 'completed' | 'abandoned'
 export type TestStatus = 'in_progress' | 'completed' | 'abandoned' | 'invalidated'
+export type TestMode = 'fixed' | 'adaptive'
+
+// SM-2 recall quality: 0 = complete blackout, 5 = perfect confident recall
+export type RecallQuality = 0 | 1 | 2 | 3 | 4 | 5
+
+// Item statistics that suggest a broken or mis-keyed question
+export type CalibrationFlag =
+  | 'all_correct'
+  | 'all_incorrect'
+  | 'too_easy'
+  | 'too_hard'
+  | 'negative_discrimination'
+  | 'low_discrimination'
 
 export type OpportunityType = 'reply' | 'quote' | 'follow'
 export type OpportunityStatus = 'pending' | 'approved' | 'rejected' | 'executed'
@@ -22,6 +44,104 @@ export interface QuestionAnswer {
   explanation?: string
 }
 
+// Interactive question content, stored in questions.diagramData
+export interface DragDropItem {
+  id: string
+  text: string
+}
+
+// Put items in sequence, e.g. the steps of the TCP handshake
+export interface OrderingDiagram {
+  kind: 'ordering'
+  items: DragDropItem[]
+  correctOrder: string[] // Item IDs
+  partialCredit?: boolean
+}
+
+// Drop each item on a target, e.g. protocols onto OSI layers
+export interface MatchingDiagram {
+  kind: 'matching'
+  items: DragDropItem[]
+  targets: DragDropItem[]
+  correctMatches: Record<string, string> // Item ID -> target ID
+  partialCredit?: boolean
+}
+
+// Coordinates are pixels on the image at its natural width and height:
+// rect [x, y, width, height], circle [cx, cy, r], polygon [x1, y1, x2, y2, ...]
+export interface HotspotRegion {
+  id: string
+  shape: 'rect' | 'circle' | 'polygon'
+  coords: number[]
+  isCorrect: boolean
+  label?: string
+}
+
+// Click the correct areas of questions.imageUrl
+export interface HotspotDiagram {
+  kind: 'hotspot'
+  width: number
+  height: number
+  regions: HotspotRegion[]
+  partialCredit?: boolean
+}
+
+// Performance-based questions: configure simulated devices from a CLI
+export interface SimInterface {
+  name: string // Full name, e.g. 'GigabitEthernet0/0'
+  ipAddress?: string | null
+  subnetMask?: string | null
+  shutdown?: boolean
+  description?: string | null
+  switchportMode?: 'access' | 'trunk' | null
+  accessVlan?: number | null
+}
+
+export interface SimDevice {
+  id: string
+  hostname: string
+  kind: 'router' | 'switch' | 'host'
+  interfaces: SimInterface[]
+  vlans?: Array<{ id: number; name?: string }>
+  staticRoutes?: Array<{ prefix: string; mask: string; nextHop: string }>
+  defaultGateway?: string | null
+}
+
+// A cable between two device interfaces
+export interface SimLink {
+  a: { deviceId: string; interface: string }
+  b: { deviceId: string; interface: string }
+}
+
+// End-state grading rules, checked after replaying the learner's commands
+export type SimulationCheck = { id: string; description?: string } & (
+  | { type: 'hostname'; deviceId: string; hostname: string }
+  | { type: 'interface_address'; deviceId: string; interface: string; ipAddress: string; subnetMask: string }
+  | { type: 'interface_up'; deviceId: string; interface: string }
+  | { type: 'vlan'; deviceId: string; vlanId: number; name?: string }
+  | { type: 'access_vlan'; deviceId: string; interface: string; vlanId: number }
+  | { type: 'static_route'; deviceId: string; prefix: string; mask: string; nextHop: string }
+  | { type: 'reachable'; deviceId: string; ipAddress: string }
+)
+
+export interface SimulationDiagram {
+  kind: 'simulation'
+  devices: SimDevice[] // Starting configuration
+  links: SimLink[]
+  checks: SimulationCheck[]
+  partialCredit?: boolean
+}
+
+export type QuestionDiagram = OrderingDiagram | MatchingDiagram | HotspotDiagram | SimulationDiagram
+
+// One step of an adaptive test: the estimate after answering questionId
+export interface AbilityPoint {
+  questionId: number
+  isCorrect: boolean
+  theta: number
+  standardError: number
+}
+
 export interface TweetMetrics {
   likes: number
   retweets: number
@@ -63,6 +183,28 @@ export interface ObjectiveBreakdown {
   }
 }
 
+// Vendor score scale, e.g. CompTIA 100-900 with a 750 cut score
+export interface ScoreScale {
+  min: number
+  max: number
+  passing: number // Scaled cut score
+  step?: number // Reported scores are rounded to this increment (default 1)
+}
+
+export type DomainPerformance = 'meets_competencies' | 'needs_improvement'
+
+// One exam domain (top-level objective) on a score report
+export interface DomainScore {
+  objectiveId: number
+  code: string
+  name: string
+  weight: number // 0-1 share of the exam
+  correct: number
+  total: number
+  percentage: number // 0-1
+  performance: DomainPerformance
+}
+
 export interface DifficultyFilter {
   min: number
   max: number
@@ -1,5 +1,5 @@
 import { sql, relations } from 'drizzle-orm'
-import { integer, text, sqliteTable, index } from 'drizzle-orm/sqlite-core'
+import { integer, text, real, sqliteTable, index } from 'drizzle-orm/sqlite-core'
 
 export const userAnswers = sqliteTable('user_answers', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -13,6 +13,7 @@ export const userAnswers = sqliteTable('user_answers', {
   // Answer Details
   selectedAnswer: text('selected_answer').notNull(), // 'a' or '["a", "c"]' for multi-select
   isCorrect: integer('is_correct', { mode: 'boolean' }).notNull(),
+  credit: real('credit'), // 0-1 partial credit; null means all-or-nothing
   
   // Interaction Metrics
   timeSpentSeconds: integer('time_spent_seconds'),
@@ -23,6 +24,12 @@ export const userAnswers = sqliteTable('user_answers', {
   // Learning Analytics
   attemptNumber: integer('attempt_number').default(1), // Which attempt for this question by user
   daysSinceLastSeen: integer('days_since_last_seen'),
+
+  // Revision of the question the learner was shown (of mergedFromQuestionId when that is set)
+  questionRevisionId: integer('question_revision_id').references(() => questionRevisions.id, { onDelete: 'set null' }),
+
+  // Set when a duplicate question was merged into this one; selectedAnswer refers to that question's answers
+  mergedFromQuestionId: integer('merged_from_question_id'),
   
   // Timestamp
   answeredAt: integer('answered_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`)
@@ -63,6 +70,7 @@ export const userAnswersRelations = relations(userAnswers, ({ one }) => ({
 // Import statements for relations
 import { users } from './users'
 import { questions } from './questions'
+import { questionRevisions } from './question-revisions'
 import { studySessions } from './study-sessions'
 import { testAttempts } from './test-attempts'
 
@@ -43,6 +43,9 @@ export const userProgress = sqliteTable('user_progress', {
   bestScore: real('best_score').default(0),
   avgTestScore: real('avg_test_score').default(0),
   lastTestDate: text('last_test_date'), // DATE format
+
+  // Set once the learner has carried this progress to the exam's successor version
+  migratedAt: integer('migrated_at', { mode: 'timestamp' }),
   
   // Timestamps
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
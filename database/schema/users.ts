@@ -50,7 +50,11 @@ export const usersRelations = relations(users, ({ many }) => ({
   testAttempts: many(testAttempts),
   userAnswers: many(userAnswers),
   userProgress: many(userProgress),
-  reviewedQuestions: many(questions, { relationName: 'reviewer' })
+  reviewedQuestions: many(questions, { relationName: 'reviewer' }),
+  refreshTokens: many(refreshTokens),
+  sessions: many(sessions),
+  identities: many(userIdentities),
+  emailTokens: many(emailTokens)
 }))
 
 // Import statements need to be declared for relations
@@ -59,6 +63,10 @@ import { testAttempts } from './test-attempts'
 import { userAnswers } from './user-answers'
 import { userProgress } from './user-progress'
 import { questions } from './questions'
+import { refreshTokens } from './refresh-tokens'
+import { sessions } from './sessions'
+import { userIdentities } from './oauth'
+import { emailTokens } from './email-auth'
 
 export type User = typeof users.$inferSelect
 export type NewUser = typeof users.$inferInsert
\ No newline at end of file
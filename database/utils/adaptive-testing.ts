@@ -0,0 +1,484 @@
+// Computerized adaptive testing (CAT) for PingToPass test attempts
+// 2PL item response theory with EAP ability estimates and max-information selection
+
+import { and, eq, asc } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { AbilityPoint } from '../schema/types'
+import { scoreResponse, redactQuestion } from './grading'
+import { ScoringQueries, resolveScoreScale, toScaledScore, toDomainScores, SCORING_CONFIG } from './scoring'
+import { ReadinessQueries } from './readiness'
+import { QuestionRevisionQueries } from './question-revisions'
+import { scoreAttempt, isAttemptExpired } from './test-attempts'
+
+export const CAT_CONFIG = {
+  minItems: 10,
+  maxItems: 40,
+  // Stop once the ability estimate is this precise (logits)
+  targetStandardError: 0.3,
+  // Pick randomly among the N most informative items to limit item exposure
+  exposureTopN: 3,
+  // questions.difficulty 1-5 maps onto b = (difficulty - 3) * scale
+  difficultyScale: 1,
+  // Used when an item has no discrimination index yet (falls back to 1PL)
+  defaultDiscrimination: 1,
+  minDiscrimination: 0.2,
+  maxDiscrimination: 2.5,
+  // EAP quadrature grid with a standard normal prior
+  thetaMin: -4,
+  thetaMax: 4,
+  thetaStep: 0.1
+} as const
+
+export type StopReason = 'precision' | 'max_items' | 'pool_exhausted'
+
+export interface ItemParameters {
+  questionId: number
+  a: number // Discrimination
+  b: number // Difficulty on the ability scale
+}
+
+export interface ItemResponse extends ItemParameters {
+  isCorrect: boolean
+}
+
+export interface AbilityEstimate {
+  theta: number
+  standardError: number
+}
+
+/**
+ * Convert stored question statistics into 2PL item parameters.
+ * discriminationIndex is a point-biserial correlation, so it is mapped onto
+ * the IRT a-parameter with the usual normal-ogive approximation.
+ */
+export function toItemParameters(question: {
+  id: number
+  difficulty: number | null
+  discriminationIndex: number | null
+}): ItemParameters {
+  const b = ((question.difficulty ?? 3) - 3) * CAT_CONFIG.difficultyScale
+
+  let a: number = CAT_CONFIG.defaultDiscrimination
+  const r = question.discriminationIndex
+  if (r != null && r > 0 && r < 1) {
+    a = (1.7 * r) / Math.sqrt(1 - r * r)
+    a = Math.min(CAT_CONFIG.maxDiscrimination, Math.max(CAT_CONFIG.minDiscrimination, a))
+  }
+
+  return { questionId: question.id, a: Number(a.toFixed(4)), b }
+}
+
+/**
+ * Probability of a correct response at ability theta
+ */
+export function probabilityCorrect(theta: number, item: Pick<ItemParameters, 'a' | 'b'>): number {
+  return 1 / (1 + Math.exp(-item.a * (theta - item.b)))
+}
+
+/**
+ * Fisher information an item provides at ability theta
+ */
+export function itemInformation(theta: number, item: Pick<ItemParameters, 'a' | 'b'>): number {
+  const p = probabilityCorrect(theta, item)
+  return item.a * item.a * p * (1 - p)
+}
+
+/**
+ * Expected a posteriori ability estimate. Unlike maximum likelihood this stays
+ * finite when every response so far is correct (or incorrect).
+ */
+export function estimateAbility(responses: ItemResponse[]): AbilityEstimate {
+  let weightSum = 0
+  let thetaSum = 0
+  const grid: Array<{ theta: number; weight: number }> = []
+
+  const steps = Math.round((CAT_CONFIG.thetaMax - CAT_CONFIG.thetaMin) / CAT_CONFIG.thetaStep)
+  for (let i = 0; i <= steps; i++) {
+    const theta = CAT_CONFIG.thetaMin + i * CAT_CONFIG.thetaStep
+    let logLikelihood = -(theta * theta) / 2
+    for (const response of responses) {
+      const p = probabilityCorrect(theta, response)
+      logLikelihood += Math.log(response.isCorrect ? p : 1 - p)
+    }
+    const weight = Math.exp(logLikelihood)
+    grid.push({ theta, weight })
+    weightSum += weight
+    thetaSum += theta * weight
+  }
+
+  const theta = thetaSum / weightSum
+  const variance = grid.reduce((sum, point) => sum + (point.theta - theta) ** 2 * point.weight, 0) / weightSum
+
+  return {
+    theta: Number(theta.toFixed(4)),
+    standardError: Number(Math.sqrt(variance).toFixed(4))
+  }
+}
+
+/**
+ * Choose the next item: the most informative at the current estimate,
+ * randomized among the top few to keep the same items from always appearing
+ */
+export function selectNextItem(
+  theta: number,
+  pool: ItemParameters[],
+  administered: Set<number>,
+  rng: () => number = Math.random
+): ItemParameters | null {
+  const ranked = pool
+    .filter(item => !administered.has(item.questionId))
+    .map(item => ({ item, information: itemInformation(theta, item) }))
+    .sort((x, y) => y.information - x.information)
+
+  if (ranked.length === 0) return null
+
+  const top = ranked.slice(0, CAT_CONFIG.exposureTopN)
+  return top[Math.floor(rng() * top.length)].item
+}
+
+/**
+ * Decide whether the test is over after `administered` items
+ */
+export function checkStopRule(administered: number, standardError: number, remainingPool: number): StopReason | null {
+  if (administered >= CAT_CONFIG.maxItems) return 'max_items'
+  if (administered >= CAT_CONFIG.minItems && standardError <= CAT_CONFIG.targetStandardError) return 'precision'
+  if (remainingPool === 0) return 'pool_exhausted'
+  return null
+}
+
+/**
+ * Project an ability estimate onto the 0-1 score scale used by fixed-form
+ * attempts: the expected proportion correct across the whole item bank
+ */
+export function expectedScore(theta: number, pool: ItemParameters[]): number {
+  if (pool.length === 0) return 0
+  const total = pool.reduce((sum, item) => sum + probabilityCorrect(theta, item), 0)
+  return Number((total / pool.length).toFixed(4))
+}
+
+export type AdaptiveAnswerResult =
+  | { ok: false; reason: 'not_found' | 'not_in_progress' | 'expired' | 'unexpected_question' }
+  | {
+      ok: true
+      isCorrect: boolean
+      ability: AbilityEstimate
+      trajectory: AbilityPoint[]
+      stopReason: StopReason | null
+      attempt: schema.TestAttempt
+      nextQuestion: Awaited<ReturnType<AdaptiveTestQueries['getDeliverableQuestion']>>
+    }
+
+// Adaptive test queries - attempt lifecycle for CAT delivery
+export class AdaptiveTestQueries {
+  private scoring: ScoringQueries
+  private readiness: ReadinessQueries
+  private revisions: QuestionRevisionQueries
+
+  constructor(private db: Database) {
+    this.scoring = new ScoringQueries(db)
+    this.readiness = new ReadinessQueries(db)
+    this.revisions = new QuestionRevisionQueries(db)
+  }
+
+  /**
+   * IRT parameters for every active question in an exam
+   */
+  async getItemPool(examId: number) {
+    const questions = await this.db
+      .select({
+        id: schema.questions.id,
+        difficulty: schema.questions.difficulty,
+        discriminationIndex: schema.questions.discriminationIndex
+      })
+      .from(schema.questions)
+      .where(
+        and(
+          eq(schema.questions.examId, examId),
+          eq(schema.questions.isActive, true),
+          eq(schema.questions.reviewStatus, 'approved')
+        )
+      )
+      .orderBy(asc(schema.questions.id))
+
+    return questions.map(toItemParameters)
+  }
+
+  /**
+   * A question as shown to the learner mid-test, without the answer key;
+   * the pinned revision's content when there is one
+   */
+  async getDeliverableQuestion(questionId: number, revisionId?: number | null) {
+    const shown = await this.revisions.shownContent([questionId], [revisionId ?? null])
+    const question = shown.get(questionId)
+    if (!question) return null
+
+    // Difficulty stays server-side: it is the item's calibrated parameter
+    return redactQuestion({
+      id: question.id,
+      text: question.text,
+      type: question.type,
+      answers: question.answers,
+      imageUrl: question.imageUrl,
+      diagramData: question.diagramData,
+      objectiveId: question.objectiveId
+    })
+  }
+
+  /**
+   * Create an adaptive attempt and choose its first item at the prior mean.
+   * The exam's time limit is enforced as it is for fixed-form attempts.
+   */
+  async startAdaptiveAttempt(params: { userId: number; examId: number; rng?: () => number; now?: Date }) {
+    const { userId, examId, rng, now = new Date() } = params
+
+    const [exam] = await this.db
+      .select({
+        passingScore: schema.exams.passingScore,
+        scoreScale: schema.exams.scoreScale,
+        timeLimitMinutes: schema.exams.timeLimitMinutes
+      })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam) return null
+
+    const pool = await this.getItemPool(examId)
+    const first = selectNextItem(0, pool, new Set(), rng)
+    if (!first) return null
+    const firstRevision = await this.revisions.currentRevisionIds([first.questionId], now)
+    const timeLimitMinutes = exam.timeLimitMinutes
+
+    const [attempt] = await this.db
+      .insert(schema.testAttempts)
+      .values({
+        userId,
+        examId,
+        mode: 'adaptive',
+        questionIds: [first.questionId],
+        questionRevisionIds: [firstRevision.get(first.questionId)!],
+        timeLimitMinutes,
+        passingScore: exam.passingScore,
+        scoreScale: resolveScoreScale(exam),
+        startedAt: now,
+        expiresAt: timeLimitMinutes ? new Date(now.getTime() + timeLimitMinutes * 60 * 1000) : null,
+        abilityEstimate: 0,
+        abilityStandardError: 1,
+        abilityTrajectory: []
+      })
+      .returning()
+
+    return {
+      attempt,
+      question: await this.getDeliverableQuestion(first.questionId, attempt.questionRevisionIds?.[0])
+    }
+  }
+
+  /**
+   * Grade the current item, update the ability estimate, then either pick
+   * the next item or finish the attempt. An answer after the deadline closes
+   * the attempt on the estimate so far.
+   */
+  async submitAdaptiveAnswer(params: {
+    attemptId: number
+    userId: number
+    questionId: number
+    selectedAnswer: string
+    timeSpentSeconds: number
+    confidenceLevel?: number
+    rng?: () => number
+    now?: Date
+  }): Promise<AdaptiveAnswerResult> {
+    const { attemptId, userId, questionId, rng, now = new Date() } = params
+
+    const [attempt] = await this.db
+      .select()
+      .from(schema.testAttempts)
+      .where(
+        and(
+          eq(schema.testAttempts.id, attemptId),
+          eq(schema.testAttempts.userId, userId),
+          eq(schema.testAttempts.mode, 'adaptive')
+        )
+      )
+      .limit(1)
+
+    if (!attempt) return { ok: false, reason: 'not_found' }
+    if (attempt.status !== 'in_progress') return { ok: false, reason: 'not_in_progress' }
+    if (isAttemptExpired(attempt, now)) {
+      await this.finalizeAdaptiveAttempt(attempt, now)
+      return { ok: false, reason: 'expired' }
+    }
+
+    // Only the most recently served item can be answered
+    const administered = attempt.questionIds
+    if (administered[administered.length - 1] !== questionId) {
+      return { ok: false, reason: 'unexpected_question' }
+    }
+
+    const questionRevisionId = attempt.questionRevisionIds?.[administered.length - 1] ?? null
+    const question = await this.revisions.gradableContent(questionId, questionRevisionId)
+
+    // The IRT model is dichotomous: partial credit is kept but the ability update uses isCorrect
+    const { isCorrect, credit } = question
+      ? scoreResponse(question, params.selectedAnswer)
+      : { isCorrect: false, credit: 0 }
+
+    await this.db.insert(schema.userAnswers).values({
+      userId,
+      questionId,
+      testAttemptId: attemptId,
+      questionRevisionId: question?.revisionId ?? null,
+      selectedAnswer: params.selectedAnswer,
+      isCorrect,
+      credit,
+      timeSpentSeconds: params.timeSpentSeconds,
+      confidenceLevel: params.confidenceLevel,
+      answeredAt: now
+    })
+
+    const responses = await this.db
+      .select({ questionId: schema.userAnswers.questionId, isCorrect: schema.userAnswers.isCorrect })
+      .from(schema.userAnswers)
+      .where(eq(schema.userAnswers.testAttemptId, attemptId))
+      .orderBy(asc(schema.userAnswers.id))
+
+    const pool = await this.getItemPool(attempt.examId)
+    const itemsById = new Map(pool.map(item => [item.questionId, item]))
+
+    const scored = responses.flatMap(response => {
+      const item = itemsById.get(response.questionId)
+      return item ? [{ ...item, isCorrect: response.isCorrect }] : []
+    })
+    const ability = estimateAbility(scored)
+
+    const trajectory: AbilityPoint[] = [
+      ...(attempt.abilityTrajectory ?? []),
+      { questionId, isCorrect, ...ability }
+    ]
+
+    const seen = new Set(administered)
+    const remainingPool = pool.filter(item => !seen.has(item.questionId)).length
+    const stopReason = checkStopRule(responses.length, ability.standardError, remainingPool)
+
+    const update: Partial<schema.NewTestAttempt> = {
+      abilityEstimate: ability.theta,
+      abilityStandardError: ability.standardError,
+      abilityTrajectory: trajectory
+    }
+
+    let nextQuestionId: number | null = null
+    if (stopReason) {
+      Object.assign(update, await this.completion(attempt, ability.theta, pool, now))
+    } else {
+      const next = selectNextItem(ability.theta, pool, seen, rng)
+      nextQuestionId = next?.questionId ?? null
+      if (nextQuestionId !== null) {
+        update.questionIds = [...administered, nextQuestionId]
+        // Attempts started before revisions were pinned stay unpinned
+        if (attempt.questionRevisionIds) {
+          const nextRevision = await this.revisions.currentRevisionIds([nextQuestionId], now)
+          update.questionRevisionIds = [...attempt.questionRevisionIds, nextRevision.get(nextQuestionId)!]
+        }
+      }
+    }
+
+    const [updated] = await this.db
+      .update(schema.testAttempts)
+      .set(update)
+      .where(eq(schema.testAttempts.id, attemptId))
+      .returning()
+
+    if (stopReason) {
+      await this.readiness.recomputeReadiness(userId, attempt.examId, now)
+    }
+
+    return {
+      ok: true,
+      isCorrect,
+      ability,
+      trajectory,
+      stopReason,
+      attempt: updated,
+      nextQuestion: nextQuestionId !== null
+        ? await this.getDeliverableQuestion(nextQuestionId, updated.questionRevisionIds?.[updated.questionIds.length - 1])
+        : null
+    }
+  }
+
+  /**
+   * Close an adaptive attempt on its current ability estimate, e.g. once its
+   * time has run out. The item served but not answered counts as skipped.
+   */
+  async finalizeAdaptiveAttempt(attempt: schema.TestAttempt, now: Date): Promise<schema.TestAttempt> {
+    const pool = await this.getItemPool(attempt.examId)
+
+    const [updated] = await this.db
+      .update(schema.testAttempts)
+      .set(await this.completion(attempt, attempt.abilityEstimate ?? 0, pool, now))
+      .where(
+        and(
+          eq(schema.testAttempts.id, attempt.id),
+          eq(schema.testAttempts.status, 'in_progress')
+        )
+      )
+      .returning()
+
+    // Another request finished it first
+    if (!updated) {
+      const [current] = await this.db.select().from(schema.testAttempts).where(eq(schema.testAttempts.id, attempt.id))
+      return current
+    }
+
+    await this.readiness.recomputeReadiness(attempt.userId, attempt.examId, now)
+    return updated
+  }
+
+  /**
+   * Completed-attempt fields: the score projected from the ability estimate
+   * on the frozen scale, and the administered items broken down by the domain
+   * they were shown in, as fixed-form attempts report them
+   */
+  private async completion(
+    attempt: schema.TestAttempt,
+    theta: number,
+    pool: ItemParameters[],
+    now: Date
+  ): Promise<Partial<schema.NewTestAttempt>> {
+    const [shown, answers, objectives] = await Promise.all([
+      this.revisions.shownContent(attempt.questionIds, attempt.questionRevisionIds),
+      this.db
+        .select({
+          questionId: schema.userAnswers.questionId,
+          isCorrect: schema.userAnswers.isCorrect,
+          credit: schema.userAnswers.credit,
+          timeSpentSeconds: schema.userAnswers.timeSpentSeconds
+        })
+        .from(schema.userAnswers)
+        .where(eq(schema.userAnswers.testAttemptId, attempt.id)),
+      this.scoring.getExamObjectives(attempt.examId)
+    ])
+
+    const result = scoreAttempt(
+      attempt.questionIds,
+      new Map([...shown.values()].map(q => [q.id, q.objectiveId])),
+      answers
+    )
+    const score = expectedScore(theta, pool)
+    const rawCut = attempt.passingScore ?? SCORING_CONFIG.defaultPassingScore
+    const scale = resolveScoreScale({ scoreScale: attempt.scoreScale, passingScore: rawCut })
+    const scaledScore = toScaledScore(score, rawCut, scale)
+
+    return {
+      ...result,
+      score,
+      scaledScore,
+      passed: scaledScore >= scale.passing,
+      domainScores: toDomainScores(result.objectiveBreakdown, objectives, rawCut),
+      status: 'completed',
+      // A deadline-closed attempt completes at the deadline, not when it was noticed
+      completedAt: attempt.expiresAt && isAttemptExpired(attempt, now) ? attempt.expiresAt : now
+    }
+  }
+}
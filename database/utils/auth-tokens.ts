@@ -0,0 +1,387 @@
+// Authentication tokens for PingToPass
+// Short-lived signed access tokens (HS256 JWTs, key picked by `kid` so keys can be
+// rotated without signing everyone out) and opaque refresh tokens that are rotated
+// on every use. Each sign-in is a session: its refresh tokens share the session id
+// as their family and its access tokens carry it as `sid`, so ending the session
+// stops both. A refresh token presented twice ends the session.
+
+import { and, eq, isNull } from 'drizzle-orm'
+import jwt from '@tsndr/cloudflare-worker-jwt'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { UserRole } from '../schema/types'
+import { resolvePermissions, type Permission } from './permissions'
+import { describeDevice, endSessions } from './sessions'
+
+export const AUTH_TOKEN_CONFIG = {
+  issuer: 'pingtopass',
+  algorithm: 'HS256',
+  accessTokenTtlSeconds: 15 * 60,
+  refreshTokenTtlDays: 30,
+  refreshTokenBytes: 32,
+  // Allowance for clock drift between edge nodes
+  clockToleranceSeconds: 30,
+  // A session's last-seen time is written at most this often
+  sessionTouchSeconds: 5 * 60
+} as const
+
+export interface SigningKey {
+  kid: string
+  secret: string
+}
+
+// Every key that may have signed a live token; new tokens use the active one
+export interface AuthKeyring {
+  activeKid: string
+  keys: SigningKey[]
+}
+
+export interface AuthUser {
+  id: number
+  email: string
+  name: string
+  role: UserRole
+  permissions: Permission[] // Effective: the role's plus the user's own grants
+  emailVerified: boolean
+}
+
+// Who is calling, for sessions, rate limits and the audit log
+export interface AuthClient {
+  ipAddress?: string | null
+  userAgent?: string | null
+  sessionId?: string | null
+}
+
+export interface AccessTokenClaims {
+  userId: number
+  sessionId: string
+}
+
+export interface IssuedTokens {
+  sessionId: string
+  accessToken: string
+  accessTokenExpiresAt: Date
+  refreshToken: string
+  refreshTokenExpiresAt: Date
+}
+
+/**
+ * Build the keyring from runtime config. `jwtKeys` lists `kid:secret` pairs
+ * separated by commas, newest first unless `jwtActiveKid` says otherwise; a
+ * lone `jwtSecret` is accepted as the key `default`.
+ */
+export function createKeyring(config: { jwtKeys?: string; jwtActiveKid?: string; jwtSecret?: string }): AuthKeyring {
+  const keys: SigningKey[] = (config.jwtKeys ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':')
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`Malformed JWT key entry "${entry.slice(0, Math.max(separator, 0))}"; expected kid:secret`)
+      }
+      return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) }
+    })
+
+  if (keys.length === 0 && config.jwtSecret) {
+    keys.push({ kid: 'default', secret: config.jwtSecret })
+  }
+  if (keys.length === 0) {
+    throw new Error('JWT_KEYS or JWT_SECRET must be set')
+  }
+
+  const activeKid = config.jwtActiveKid || keys[0].kid
+  if (!keys.some(key => key.kid === activeKid)) {
+    throw new Error(`Active JWT key "${activeKid}" is not in JWT_KEYS`)
+  }
+
+  return { activeKid, keys }
+}
+
+/**
+ * Check an access token's signature, issuer and expiry and return the user and session it was issued to
+ */
+export async function verifyAccessToken(token: string, keyring: AuthKeyring, now = new Date()): Promise<AccessTokenClaims | null> {
+  try {
+    const { header, payload } = jwt.decode<{ typ?: string; sid?: string }, { kid?: string }>(token)
+    const key = keyring.keys.find(candidate => candidate.kid === header?.kid)
+    if (!key || !payload) return null
+
+    const valid = await jwt.verify(token, key.secret, {
+      algorithm: AUTH_TOKEN_CONFIG.algorithm,
+      clockTolerance: AUTH_TOKEN_CONFIG.clockToleranceSeconds
+    })
+    if (!valid) return null
+
+    const nowSeconds = Math.floor(now.getTime() / 1000)
+    if (payload.iss !== AUTH_TOKEN_CONFIG.issuer || payload.typ !== 'access') return null
+    if (!payload.exp || payload.exp + AUTH_TOKEN_CONFIG.clockToleranceSeconds <= nowSeconds) return null
+
+    const userId = Number(payload.sub)
+    if (!Number.isInteger(userId) || userId <= 0 || typeof payload.sid !== 'string') return null
+    return { userId, sessionId: payload.sid }
+  } catch {
+    // Malformed tokens make decode throw
+    return null
+  }
+}
+
+// Authentication token queries
+export class AuthTokenQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Sign a user in: a new session with an access and a refresh token
+   */
+  async issueTokens(params: { userId: number; keyring: AuthKeyring; client?: AuthClient; now?: Date }): Promise<
+    | { ok: false; reason: 'not_found' | 'inactive' }
+    | { ok: true; user: AuthUser; tokens: IssuedTokens }
+  > {
+    const { userId, keyring, client = {}, now = new Date() } = params
+
+    const found = await this.loadUser(userId)
+    if (!found.ok) return found
+
+    const sessionId = crypto.randomUUID()
+    const tokens = await this.createTokens(found.user.id, sessionId, keyring, now)
+    await this.db.insert(schema.sessions).values({
+      id: sessionId,
+      userId,
+      userAgent: client.userAgent ?? null,
+      device: describeDevice(client.userAgent),
+      ipAddress: client.ipAddress ?? null,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: tokens.refreshTokenExpiresAt
+    })
+
+    const [counts] = await this.db
+      .select({ loginCount: schema.users.loginCount })
+      .from(schema.users)
+      .where(eq(schema.users.id, userId))
+    await this.db
+      .update(schema.users)
+      .set({ lastLogin: now, loginCount: (counts?.loginCount ?? 0) + 1 })
+      .where(eq(schema.users.id, userId))
+
+    return { ok: true, user: found.user, tokens }
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. The old token stops working; if it
+   * comes back later the whole session is revoked.
+   */
+  async refreshTokens(params: { refreshToken: string; keyring: AuthKeyring; client?: AuthClient; now?: Date }): Promise<
+    | { ok: false; reason: 'invalid' | 'expired' | 'reused' | 'inactive' }
+    | { ok: true; user: AuthUser; tokens: IssuedTokens }
+  > {
+    const { refreshToken, keyring, client = {}, now = new Date() } = params
+
+    const [stored] = await this.db
+      .select()
+      .from(schema.refreshTokens)
+      .where(eq(schema.refreshTokens.tokenHash, await hashToken(refreshToken)))
+    if (!stored || stored.revokedAt) return { ok: false, reason: 'invalid' }
+
+    if (stored.rotatedAt) {
+      await this.revokeSession({ sessionId: stored.familyId, now })
+      return { ok: false, reason: 'reused' }
+    }
+    if (stored.expiresAt <= now) return { ok: false, reason: 'expired' }
+
+    const found = await this.loadUser(stored.userId)
+    if (!found.ok) {
+      await this.revokeSession({ sessionId: stored.familyId, now })
+      return { ok: false, reason: 'inactive' }
+    }
+
+    // Claim the token; a concurrent exchange of the same token finds it already rotated
+    const claimed = await this.db
+      .update(schema.refreshTokens)
+      .set({ rotatedAt: now })
+      .where(and(eq(schema.refreshTokens.id, stored.id), isNull(schema.refreshTokens.rotatedAt)))
+      .returning({ id: schema.refreshTokens.id })
+    if (claimed.length === 0) {
+      await this.revokeSession({ sessionId: stored.familyId, now })
+      return { ok: false, reason: 'reused' }
+    }
+
+    const tokens = await this.createTokens(stored.userId, stored.familyId, keyring, now)
+    // Token families from before sessions were recorded get their session on first refresh
+    await this.db
+      .insert(schema.sessions)
+      .values({
+        id: stored.familyId,
+        userId: stored.userId,
+        userAgent: client.userAgent ?? null,
+        device: describeDevice(client.userAgent),
+        ipAddress: client.ipAddress ?? null,
+        createdAt: now,
+        lastSeenAt: now,
+        expiresAt: tokens.refreshTokenExpiresAt
+      })
+      .onConflictDoUpdate({
+        target: schema.sessions.id,
+        set: {
+          lastSeenAt: now,
+          expiresAt: tokens.refreshTokenExpiresAt,
+          ...(client.ipAddress ? { ipAddress: client.ipAddress } : {})
+        }
+      })
+
+    return { ok: true, user: found.user, tokens }
+  }
+
+  /**
+   * Resolve an access token to an active user. Tokens from an ended session stop
+   * working at once, however long they have left.
+   */
+  async authenticate(params: { accessToken: string; keyring: AuthKeyring; now?: Date }): Promise<
+    | { ok: false; reason: 'invalid' | 'inactive' }
+    | { ok: true; user: AuthUser; sessionId: string }
+  > {
+    const { accessToken, keyring, now = new Date() } = params
+
+    const claims = await verifyAccessToken(accessToken, keyring, now)
+    if (!claims) return { ok: false, reason: 'invalid' }
+
+    const [session] = await this.db
+      .select({ userId: schema.sessions.userId, lastSeenAt: schema.sessions.lastSeenAt, revokedAt: schema.sessions.revokedAt })
+      .from(schema.sessions)
+      .where(eq(schema.sessions.id, claims.sessionId))
+    if (!session || session.userId !== claims.userId || session.revokedAt) return { ok: false, reason: 'invalid' }
+
+    const found = await this.loadUser(claims.userId)
+    if (!found.ok) return { ok: false, reason: found.reason === 'inactive' ? 'inactive' : 'invalid' }
+
+    if (now.getTime() - session.lastSeenAt.getTime() >= AUTH_TOKEN_CONFIG.sessionTouchSeconds * 1000) {
+      await this.db.update(schema.sessions).set({ lastSeenAt: now }).where(eq(schema.sessions.id, claims.sessionId))
+    }
+
+    return { ok: true, user: found.user, sessionId: claims.sessionId }
+  }
+
+  /**
+   * Sign out: end the session the refresh token belongs to
+   */
+  async revokeRefreshToken(params: { refreshToken: string; now?: Date }): Promise<
+    | { ok: false; reason: 'invalid' }
+    | { ok: true }
+  > {
+    const { refreshToken, now = new Date() } = params
+
+    const [stored] = await this.db
+      .select({ familyId: schema.refreshTokens.familyId })
+      .from(schema.refreshTokens)
+      .where(eq(schema.refreshTokens.tokenHash, await hashToken(refreshToken)))
+    if (!stored) return { ok: false, reason: 'invalid' }
+
+    await this.revokeSession({ sessionId: stored.familyId, now })
+    return { ok: true }
+  }
+
+  /**
+   * End a session: its refresh tokens and any access tokens it still has out
+   */
+  async revokeSession(params: { sessionId: string; now?: Date }): Promise<void> {
+    const { sessionId, now = new Date() } = params
+    await endSessions(this.db, [sessionId], now)
+  }
+
+  /**
+   * Sign a user out everywhere, e.g. after a password change
+   */
+  async revokeUserSessions(params: { userId: number; now?: Date }): Promise<void> {
+    const { userId, now = new Date() } = params
+
+    const active = await this.db
+      .select({ id: schema.sessions.id })
+      .from(schema.sessions)
+      .where(and(eq(schema.sessions.userId, userId), isNull(schema.sessions.revokedAt)))
+    await endSessions(this.db, active.map(session => session.id), now)
+
+    // Refresh tokens issued before sessions were recorded
+    await this.db
+      .update(schema.refreshTokens)
+      .set({ revokedAt: now })
+      .where(and(eq(schema.refreshTokens.userId, userId), isNull(schema.refreshTokens.revokedAt)))
+  }
+
+  private async loadUser(userId: number): Promise<
+    | { ok: false; reason: 'not_found' | 'inactive' }
+    | { ok: true; user: AuthUser }
+  > {
+    const [user] = await this.db
+      .select({
+        id: schema.users.id,
+        email: schema.users.email,
+        name: schema.users.name,
+        role: schema.users.role,
+        permissions: schema.users.permissions,
+        emailVerified: schema.users.emailVerified,
+        isActive: schema.users.isActive
+      })
+      .from(schema.users)
+      .where(eq(schema.users.id, userId))
+
+    if (!user) return { ok: false, reason: 'not_found' }
+    if (user.isActive === false) return { ok: false, reason: 'inactive' }
+
+    return {
+      ok: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role ?? 'user',
+        permissions: resolvePermissions(user.role, user.permissions),
+        emailVerified: user.emailVerified ?? false
+      }
+    }
+  }
+
+  private async createTokens(userId: number, sessionId: string, keyring: AuthKeyring, now: Date): Promise<IssuedTokens> {
+    const key = keyring.keys.find(candidate => candidate.kid === keyring.activeKid)!
+    const issuedAt = Math.floor(now.getTime() / 1000)
+    const accessTokenExpiresAt = new Date((issuedAt + AUTH_TOKEN_CONFIG.accessTokenTtlSeconds) * 1000)
+    const refreshTokenExpiresAt = new Date(now.getTime() + AUTH_TOKEN_CONFIG.refreshTokenTtlDays * 24 * 60 * 60 * 1000)
+
+    const accessToken = await jwt.sign(
+      {
+        iss: AUTH_TOKEN_CONFIG.issuer,
+        sub: String(userId),
+        sid: sessionId,
+        typ: 'access',
+        iat: issuedAt,
+        exp: Math.floor(accessTokenExpiresAt.getTime() / 1000)
+      },
+      key.secret,
+      { algorithm: AUTH_TOKEN_CONFIG.algorithm, header: { kid: key.kid, typ: 'JWT' } }
+    )
+
+    const refreshToken = randomToken(AUTH_TOKEN_CONFIG.refreshTokenBytes)
+    await this.db.insert(schema.refreshTokens).values({
+      userId,
+      familyId: sessionId,
+      tokenHash: await hashToken(refreshToken),
+      expiresAt: refreshTokenExpiresAt,
+      createdAt: now
+    })
+
+    return { sessionId, accessToken, accessTokenExpiresAt, refreshToken, refreshTokenExpiresAt }
+  }
+}
+
+// Web Crypto keeps these usable on the edge runtime as well as in Node
+export function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function randomToken(bytes: number): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(bytes)))
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,360 @@
+// Item calibration for the PingToPass question bank
+// Classical item statistics from user_answers, converted to 2PL IRT parameters
+
+import { and, eq, asc, inArray, sql, type SQL } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { CalibrationFlag, TestStatus } from '../schema/types'
+
+export const CALIBRATION_CONFIG = {
+  // Below this many respondents only the attempt counters are refreshed
+  minResponses: 30,
+  // p-value bounds for the too_easy / too_hard flags
+  easyThreshold: 0.95,
+  hardThreshold: 0.15,
+  // Point-biserial below this barely separates strong and weak learners
+  lowDiscrimination: 0.1,
+  // Keeps b finite for weakly discriminating items
+  minBiserial: 0.3,
+  maxBiserial: 0.95,
+  maxAbsDifficulty: 4,
+  // Attempts whose answers should not count towards item statistics
+  excludedAttemptStatuses: ['invalidated', 'abandoned'] as TestStatus[]
+} as const
+
+export interface CalibrationResponse {
+  respondentKey: string // Test attempt, or the user's study history for an exam
+  questionId: number
+  isCorrect: boolean
+}
+
+export interface ItemStatistics {
+  questionId: number
+  responses: number
+  proportionCorrect: number
+  pointBiserial: number | null
+  discrimination: number | null // 2PL a-parameter
+  difficultyParameter: number | null // 2PL b-parameter
+  difficultyBand: number | null // 1-5, matches questions.difficulty
+  flags: CalibrationFlag[]
+}
+
+/**
+ * Inverse standard normal CDF (Abramowitz & Stegun 26.2.23, |error| < 4.5e-4)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+  if (p > 0.5) return -normalQuantile(1 - p)
+
+  const t = Math.sqrt(-2 * Math.log(p))
+  const numerator = 2.515517 + 0.802853 * t + 0.010328 * t * t
+  const denominator = 1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t
+  return -(t - numerator / denominator)
+}
+
+function normalDensity(z: number): number {
+  return Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI)
+}
+
+/**
+ * Correlation between a 0/1 item score and a continuous criterion.
+ * Returns null when either side has no variance.
+ */
+export function pointBiserial(itemScores: boolean[], criterion: number[]): number | null {
+  const n = itemScores.length
+  if (n < 2 || criterion.length !== n) return null
+
+  const mean = criterion.reduce((sum, x) => sum + x, 0) / n
+  const sd = Math.sqrt(criterion.reduce((sum, x) => sum + (x - mean) ** 2, 0) / n)
+  const correct = criterion.filter((_, i) => itemScores[i])
+  const p = correct.length / n
+
+  if (sd === 0 || p === 0 || p === 1) return null
+
+  const meanCorrect = correct.reduce((sum, x) => sum + x, 0) / correct.length
+  const meanIncorrect = (mean * n - meanCorrect * correct.length) / (n - correct.length)
+
+  return ((meanCorrect - meanIncorrect) / sd) * Math.sqrt(p * (1 - p))
+}
+
+/**
+ * Convert classical statistics to 2PL parameters (Lord's normal-ogive
+ * approximation via the biserial correlation, rescaled to the logistic metric)
+ */
+export function estimateItemParameters(proportionCorrect: number, pointBiserialValue: number | null) {
+  // Keep z finite for items everyone (or no one) answered correctly
+  const p = Math.min(0.99, Math.max(0.01, proportionCorrect))
+  const z = normalQuantile(p)
+
+  let biserial: number | null = null
+  if (pointBiserialValue !== null) {
+    biserial = (pointBiserialValue * Math.sqrt(p * (1 - p))) / normalDensity(z)
+    biserial = Math.min(CALIBRATION_CONFIG.maxBiserial, biserial)
+  }
+
+  const effectiveBiserial = Math.max(biserial ?? CALIBRATION_CONFIG.minBiserial, CALIBRATION_CONFIG.minBiserial)
+  const b = Math.max(
+    -CALIBRATION_CONFIG.maxAbsDifficulty,
+    Math.min(CALIBRATION_CONFIG.maxAbsDifficulty, -z / effectiveBiserial)
+  )
+  const a = biserial !== null && biserial > 0
+    ? (1.7 * biserial) / Math.sqrt(1 - biserial * biserial)
+    : null
+
+  return {
+    discrimination: a !== null ? Number(a.toFixed(4)) : null,
+    difficultyParameter: Number(b.toFixed(4))
+  }
+}
+
+/**
+ * Map a b-parameter onto the 1-5 difficulty band (b = difficulty - 3)
+ */
+export function toDifficultyBand(difficultyParameter: number): number {
+  return Math.min(5, Math.max(1, Math.round(difficultyParameter + 3)))
+}
+
+/**
+ * Flag statistics that usually mean a mis-keyed, broken or trivial item
+ */
+export function flagItem(proportionCorrect: number, pointBiserialValue: number | null): CalibrationFlag[] {
+  const flags: CalibrationFlag[] = []
+
+  if (proportionCorrect === 1) flags.push('all_correct')
+  else if (proportionCorrect === 0) flags.push('all_incorrect')
+  else if (proportionCorrect >= CALIBRATION_CONFIG.easyThreshold) flags.push('too_easy')
+  else if (proportionCorrect <= CALIBRATION_CONFIG.hardThreshold) flags.push('too_hard')
+
+  if (pointBiserialValue !== null) {
+    if (pointBiserialValue < 0) flags.push('negative_discrimination')
+    else if (pointBiserialValue < CALIBRATION_CONFIG.lowDiscrimination) flags.push('low_discrimination')
+  }
+
+  return flags
+}
+
+/**
+ * Compute statistics for every item in a response set. Each respondent's
+ * criterion is their proportion correct on the other items they answered,
+ * so an item never correlates with itself.
+ */
+export function calibrateItems(responses: CalibrationResponse[]): ItemStatistics[] {
+  // Only the first response per respondent and item counts
+  const seen = new Set<string>()
+  const firstResponses = responses.filter(response => {
+    const key = `${response.respondentKey}:${response.questionId}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  const totals = new Map<string, { correct: number; answered: number }>()
+  for (const response of firstResponses) {
+    const total = totals.get(response.respondentKey) ?? { correct: 0, answered: 0 }
+    total.correct += response.isCorrect ? 1 : 0
+    total.answered += 1
+    totals.set(response.respondentKey, total)
+  }
+
+  const byQuestion = firstResponses.reduce((groups, response) => {
+    if (!groups.has(response.questionId)) groups.set(response.questionId, [])
+    groups.get(response.questionId)!.push(response)
+    return groups
+  }, new Map<number, CalibrationResponse[]>())
+
+  return [...byQuestion.entries()].map(([questionId, itemResponses]) => {
+    const n = itemResponses.length
+    const proportionCorrect = itemResponses.filter(r => r.isCorrect).length / n
+
+    // Respondents who answered nothing else carry no rest-score information
+    const scored = itemResponses.flatMap(response => {
+      const total = totals.get(response.respondentKey)!
+      if (total.answered < 2) return []
+      const rest = (total.correct - (response.isCorrect ? 1 : 0)) / (total.answered - 1)
+      return [{ isCorrect: response.isCorrect, rest }]
+    })
+
+    const stats: ItemStatistics = {
+      questionId,
+      responses: n,
+      proportionCorrect: Number(proportionCorrect.toFixed(4)),
+      pointBiserial: null,
+      discrimination: null,
+      difficultyParameter: null,
+      difficultyBand: null,
+      flags: []
+    }
+
+    if (n < CALIBRATION_CONFIG.minResponses) return stats
+
+    const r = pointBiserial(scored.map(s => s.isCorrect), scored.map(s => s.rest))
+    const parameters = estimateItemParameters(proportionCorrect, r)
+
+    return {
+      ...stats,
+      pointBiserial: r !== null ? Number(r.toFixed(4)) : null,
+      ...parameters,
+      difficultyBand: toDifficultyBand(parameters.difficultyParameter),
+      flags: flagItem(proportionCorrect, r)
+    }
+  })
+}
+
+// Answers that still count toward a question's statistics
+const sinceStatsReset = sql`(${schema.questions.statsResetAt} IS NULL OR ${schema.userAnswers.answeredAt} >= ${schema.questions.statsResetAt})`
+
+// Calibration queries - batch item statistics and write-back
+export class CalibrationQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Load responses for calibration, skipping answers from invalidated or
+   * abandoned test attempts and answers given before a question's
+   * statistics were reset
+   */
+  async loadResponses(examId?: number): Promise<CalibrationResponse[]> {
+    const conditions: SQL[] = [
+      sql`(${schema.testAttempts.id} IS NULL OR ${schema.testAttempts.status} NOT IN (${sql.join(
+        CALIBRATION_CONFIG.excludedAttemptStatuses.map(status => sql`${status}`),
+        sql`, `
+      )}))`,
+      sinceStatsReset
+    ]
+    if (examId !== undefined) {
+      conditions.push(eq(schema.questions.examId, examId))
+    }
+
+    const rows = await this.db
+      .select({
+        userId: schema.userAnswers.userId,
+        questionId: schema.userAnswers.questionId,
+        testAttemptId: schema.userAnswers.testAttemptId,
+        examId: schema.questions.examId,
+        isCorrect: schema.userAnswers.isCorrect
+      })
+      .from(schema.userAnswers)
+      .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+      .leftJoin(schema.testAttempts, eq(schema.userAnswers.testAttemptId, schema.testAttempts.id))
+      .where(and(...conditions))
+      .orderBy(asc(schema.userAnswers.answeredAt), asc(schema.userAnswers.id))
+
+    return rows.map(row => ({
+      respondentKey: row.testAttemptId !== null
+        ? `attempt:${row.testAttemptId}`
+        : `study:${row.userId}:${row.examId}`,
+      questionId: row.questionId,
+      isCorrect: row.isCorrect
+    }))
+  }
+
+  /**
+   * Recompute attempt counters and item parameters, record the run in
+   * item_calibrations and update questions. With dryRun nothing is written.
+   */
+  async runCalibration(params: { examId?: number; dryRun?: boolean; runAt?: Date } = {}) {
+    const { examId, dryRun = false, runAt = new Date() } = params
+
+    const responses = await this.loadResponses(examId)
+    const items = calibrateItems(responses)
+    if (items.length === 0) {
+      return { runAt, items, calibrated: 0, flagged: [] as ItemStatistics[] }
+    }
+
+    const questionIds = items.map(item => item.questionId)
+    const [current, counters] = await Promise.all([
+      this.db
+        .select({ id: schema.questions.id, difficulty: schema.questions.difficulty })
+        .from(schema.questions)
+        .where(inArray(schema.questions.id, questionIds)),
+      // Counters cover every answer since the last reset, including repeats and study sessions
+      this.db
+        .select({
+          questionId: schema.userAnswers.questionId,
+          total: sql<number>`COUNT(*)`,
+          correct: sql<number>`SUM(CASE WHEN ${schema.userAnswers.isCorrect} THEN 1 ELSE 0 END)`,
+          avgTime: sql<number>`AVG(${schema.userAnswers.timeSpentSeconds})`
+        })
+        .from(schema.userAnswers)
+        .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+        .where(and(inArray(schema.userAnswers.questionId, questionIds), sinceStatsReset))
+        .groupBy(schema.userAnswers.questionId)
+    ])
+
+    const previousDifficulty = new Map(current.map(q => [q.id, q.difficulty]))
+    const counterById = new Map(counters.map(c => [c.questionId, c]))
+    const calibrated = items.filter(item => item.difficultyBand !== null)
+    const flagged = items.filter(item => item.flags.length > 0)
+
+    if (!dryRun) {
+      await this.db.insert(schema.itemCalibrations).values(items.map(item => ({
+        questionId: item.questionId,
+        runAt,
+        responses: item.responses,
+        proportionCorrect: item.proportionCorrect,
+        pointBiserial: item.pointBiserial,
+        discrimination: item.discrimination,
+        difficultyParameter: item.difficultyParameter,
+        previousDifficulty: previousDifficulty.get(item.questionId) ?? null,
+        calibratedDifficulty: item.difficultyBand,
+        flags: item.flags
+      })))
+
+      for (const item of items) {
+        const counter = counterById.get(item.questionId)
+        const update: Partial<schema.NewQuestion> = {
+          totalAttempts: Number(counter?.total ?? 0),
+          correctAttempts: Number(counter?.correct ?? 0),
+          avgTimeSeconds: Math.round(Number(counter?.avgTime ?? 0)),
+          updatedAt: runAt
+        }
+        if (item.difficultyBand !== null) {
+          update.difficulty = item.difficultyBand
+          update.discriminationIndex = item.pointBiserial
+        }
+
+        await this.db
+          .update(schema.questions)
+          .set(update)
+          .where(eq(schema.questions.id, item.questionId))
+      }
+    }
+
+    return { runAt, items, calibrated: calibrated.length, flagged }
+  }
+
+  /**
+   * Items flagged by the most recent calibration run
+   */
+  async getFlaggedItems(examId?: number) {
+    const [latest] = await this.db
+      .select({ runAt: sql<number | null>`MAX(${schema.itemCalibrations.runAt})` })
+      .from(schema.itemCalibrations)
+
+    if (latest?.runAt == null) return []
+
+    const conditions: SQL[] = [
+      eq(schema.itemCalibrations.runAt, new Date(Number(latest.runAt) * 1000)),
+      sql`${schema.itemCalibrations.flags} != '[]'`
+    ]
+    if (examId !== undefined) {
+      conditions.push(eq(schema.questions.examId, examId))
+    }
+
+    return this.db
+      .select({
+        questionId: schema.itemCalibrations.questionId,
+        examId: schema.questions.examId,
+        text: schema.questions.text,
+        responses: schema.itemCalibrations.responses,
+        proportionCorrect: schema.itemCalibrations.proportionCorrect,
+        pointBiserial: schema.itemCalibrations.pointBiserial,
+        flags: schema.itemCalibrations.flags,
+        runAt: schema.itemCalibrations.runAt
+      })
+      .from(schema.itemCalibrations)
+      .innerJoin(schema.questions, eq(schema.itemCalibrations.questionId, schema.questions.id))
+      .where(and(...conditions))
+      .orderBy(asc(schema.itemCalibrations.pointBiserial))
+  }
+}
@@ -0,0 +1,276 @@
+// Certification paths for PingToPass
+// A path orders exams toward a certification. Prerequisites come from the
+// path order and from the vendor prerequisites on each exam (exam codes);
+// progress rolls user_progress up across the path's exams and points the
+// learner at the exam to work on next.
+
+import { and, asc, eq, inArray } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { PathPrerequisiteRule } from '../schema/types'
+
+export const CERTIFICATION_PATH_CONFIG = {
+  // Readiness at which an exam counts as done, together with a passed practice test
+  completionReadiness: 0.8
+} as const
+
+export type PathExamStatus = 'completed' | 'in_progress' | 'available' | 'locked'
+
+export interface PathExamSummary {
+  examId: number
+  code: string
+  name: string
+  position: number
+  prerequisiteRule: PathPrerequisiteRule
+  prerequisiteExamIds: number[] // Previous exam on the path and the exam's own prerequisites
+}
+
+export interface PathSummary {
+  id: number
+  vendorId: string
+  code: string
+  name: string
+  description: string | null
+  exams: PathExamSummary[]
+}
+
+export interface PathExamProgress extends PathExamSummary {
+  status: PathExamStatus
+  unmetPrerequisites: Array<{ examId: number; code: string }>
+  readinessScore: number
+  overallAccuracy: number
+  questionsSeen: number
+  testsPassed: number
+  bestScore: number
+  studyMinutes: number
+}
+
+export interface PathRecommendation {
+  examId: number
+  code: string
+  name: string
+  reason: 'continue' | 'start' | 'prerequisite'
+}
+
+export interface PathProgress {
+  pathId: number
+  code: string
+  name: string
+  exams: PathExamProgress[]
+  completedExams: number
+  totalExams: number
+  readinessScore: number // Mean over the path's exams, 0 for exams not started
+  questionsSeen: number
+  studyMinutes: number
+  next: PathRecommendation | null // null once every exam is done
+}
+
+type ExamProgressTotals = Pick<schema.UserProgress,
+  'readinessScore' | 'overallAccuracy' | 'totalQuestionsSeen' | 'testsPassed' | 'bestScore' | 'totalStudyMinutes'>
+
+type ExamRef = { id: number; code: string; name: string }
+
+/**
+ * An exam is done once the learner has passed a practice test and is ready for the real one
+ */
+export function isExamCompleted(progress: ExamProgressTotals | undefined): boolean {
+  return !!progress &&
+    (progress.testsPassed ?? 0) > 0 &&
+    (progress.readinessScore ?? 0) >= CERTIFICATION_PATH_CONFIG.completionReadiness
+}
+
+/**
+ * Roll per-exam progress up to the path and pick the next exam: one already
+ * under way, else the first one open to start, else the missing prerequisite
+ * of the first locked one
+ */
+export function computePathProgress(
+  path: PathSummary,
+  progressByExam: Map<number, ExamProgressTotals>,
+  examsById: Map<number, ExamRef>
+): PathProgress {
+  const exams: PathExamProgress[] = path.exams.map(step => {
+    const progress = progressByExam.get(step.examId)
+    const unmetPrerequisites = step.prerequisiteExamIds
+      .filter(examId => !isExamCompleted(progressByExam.get(examId)))
+      .map(examId => ({ examId, code: examsById.get(examId)?.code ?? '' }))
+
+    const status: PathExamStatus = isExamCompleted(progress)
+      ? 'completed'
+      : unmetPrerequisites.length > 0
+        ? 'locked'
+        : (progress?.totalQuestionsSeen ?? 0) > 0 ? 'in_progress' : 'available'
+
+    return {
+      ...step,
+      status,
+      unmetPrerequisites,
+      readinessScore: progress?.readinessScore ?? 0,
+      overallAccuracy: progress?.overallAccuracy ?? 0,
+      questionsSeen: progress?.totalQuestionsSeen ?? 0,
+      testsPassed: progress?.testsPassed ?? 0,
+      bestScore: progress?.bestScore ?? 0,
+      studyMinutes: progress?.totalStudyMinutes ?? 0
+    }
+  })
+
+  const recommend = (examId: number, reason: PathRecommendation['reason']): PathRecommendation => {
+    const exam = examsById.get(examId)
+    return { examId, code: exam?.code ?? '', name: exam?.name ?? '', reason }
+  }
+
+  const underway = exams.find(exam => exam.status === 'in_progress')
+  const open = exams.find(exam => exam.status === 'available')
+  const locked = exams.find(exam => exam.status === 'locked')
+  const next = underway
+    ? recommend(underway.examId, 'continue')
+    : open
+      ? recommend(open.examId, 'start')
+      : locked ? recommend(locked.unmetPrerequisites[0].examId, 'prerequisite') : null
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+  return {
+    pathId: path.id,
+    code: path.code,
+    name: path.name,
+    exams,
+    completedExams: exams.filter(exam => exam.status === 'completed').length,
+    totalExams: exams.length,
+    readinessScore: exams.length > 0 ? Number((sum(exams.map(exam => exam.readinessScore)) / exams.length).toFixed(4)) : 0,
+    questionsSeen: sum(exams.map(exam => exam.questionsSeen)),
+    studyMinutes: sum(exams.map(exam => exam.studyMinutes)),
+    next
+  }
+}
+
+// Certification path queries
+export class CertificationPathQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Active paths with their active exams in order
+   */
+  async listPaths(): Promise<PathSummary[]> {
+    const { paths } = await this.loadPaths()
+    return paths
+  }
+
+  /**
+   * A learner's progress along one path
+   */
+  async getPathProgress(params: { pathId: number; userId: number }): Promise<
+    | { ok: false; reason: 'not_found' }
+    | { ok: true; progress: PathProgress }
+  > {
+    const { pathId, userId } = params
+    const { paths, examsById } = await this.loadPaths([pathId])
+    const [path] = paths
+    if (!path) return { ok: false, reason: 'not_found' }
+
+    const progressByExam = await this.getProgressByExam(userId, pathExamIds([path]))
+    return { ok: true, progress: computePathProgress(path, progressByExam, examsById) }
+  }
+
+  /**
+   * Progress and next exam on each path the learner has started, furthest along first
+   */
+  async getRecommendations(userId: number): Promise<PathProgress[]> {
+    const { paths, examsById } = await this.loadPaths()
+    const progressByExam = await this.getProgressByExam(userId, pathExamIds(paths))
+
+    return paths
+      .filter(path => path.exams.some(exam => (progressByExam.get(exam.examId)?.totalQuestionsSeen ?? 0) > 0))
+      .map(path => computePathProgress(path, progressByExam, examsById))
+      .filter(progress => progress.next !== null)
+      .sort((a, b) => b.completedExams / b.totalExams - a.completedExams / a.totalExams)
+  }
+
+  /**
+   * Paths with resolved prerequisites, plus the exams they refer to. Vendor
+   * prerequisite codes that are not in the catalog are ignored.
+   */
+  private async loadPaths(pathIds?: number[]) {
+    const conditions = [eq(schema.certificationPaths.isActive, true)]
+    if (pathIds) conditions.push(inArray(schema.certificationPaths.id, pathIds))
+
+    const [paths, steps, exams] = await Promise.all([
+      this.db
+        .select()
+        .from(schema.certificationPaths)
+        .where(and(...conditions))
+        .orderBy(asc(schema.certificationPaths.sortOrder), asc(schema.certificationPaths.name)),
+      this.db
+        .select({
+          pathId: schema.certificationPathExams.pathId,
+          examId: schema.certificationPathExams.examId,
+          position: schema.certificationPathExams.position,
+          prerequisiteRule: schema.certificationPathExams.prerequisiteRule
+        })
+        .from(schema.certificationPathExams)
+        .innerJoin(schema.exams, eq(schema.certificationPathExams.examId, schema.exams.id))
+        .where(eq(schema.exams.isActive, true))
+        .orderBy(asc(schema.certificationPathExams.position)),
+      this.db
+        .select({ id: schema.exams.id, code: schema.exams.code, name: schema.exams.name, prerequisites: schema.exams.prerequisites })
+        .from(schema.exams)
+        .where(eq(schema.exams.isActive, true))
+    ])
+
+    const examsById = new Map(exams.map(exam => [exam.id, exam]))
+    const examIdByCode = new Map(exams.map(exam => [exam.code, exam.id]))
+
+    const summaries: PathSummary[] = paths.map(path => {
+      const pathSteps = steps.filter(step => step.pathId === path.id)
+      return {
+        id: path.id,
+        vendorId: path.vendorId,
+        code: path.code,
+        name: path.name,
+        description: path.description,
+        exams: pathSteps.map((step, i) => {
+          const exam = examsById.get(step.examId)!
+          const vendorPrerequisites = (exam.prerequisites ?? [])
+            .map(code => examIdByCode.get(code))
+            .filter((examId): examId is number => examId !== undefined && examId !== step.examId)
+          const previous = step.prerequisiteRule === 'previous_exam' && i > 0 ? [pathSteps[i - 1].examId] : []
+
+          return {
+            examId: step.examId,
+            code: exam.code,
+            name: exam.name,
+            position: step.position,
+            prerequisiteRule: step.prerequisiteRule,
+            prerequisiteExamIds: [...new Set([...previous, ...vendorPrerequisites])]
+          }
+        })
+      }
+    })
+
+    return { paths: summaries, examsById }
+  }
+
+  private async getProgressByExam(userId: number, examIds: number[]): Promise<Map<number, ExamProgressTotals>> {
+    if (examIds.length === 0) return new Map()
+
+    const rows = await this.db
+      .select({
+        examId: schema.userProgress.examId,
+        readinessScore: schema.userProgress.readinessScore,
+        overallAccuracy: schema.userProgress.overallAccuracy,
+        totalQuestionsSeen: schema.userProgress.totalQuestionsSeen,
+        testsPassed: schema.userProgress.testsPassed,
+        bestScore: schema.userProgress.bestScore,
+        totalStudyMinutes: schema.userProgress.totalStudyMinutes
+      })
+      .from(schema.userProgress)
+      .where(and(eq(schema.userProgress.userId, userId), inArray(schema.userProgress.examId, examIds)))
+
+    return new Map(rows.map(({ examId, ...progress }) => [examId, progress]))
+  }
+}
+
+// Exams on the paths and the prerequisites they name
+function pathExamIds(paths: PathSummary[]): number[] {
+  return [...new Set(paths.flatMap(path => path.exams.flatMap(exam => [exam.examId, ...exam.prerequisiteExamIds])))]
+}
@@ -0,0 +1,771 @@
+// CLI simulator for performance-based questions
+// A deterministic, in-process subset of the IOS command line plus end-state grading
+
+import { z } from 'zod'
+import type {
+  SimDevice,
+  SimInterface,
+  SimulationCheck,
+  SimulationDiagram
+} from '../schema/types'
+
+export const SIMULATOR_CONFIG = {
+  maxDevices: 8,
+  maxChecks: 30,
+  // A transcript longer than this is not a realistic answer
+  maxCommands: 300,
+  maxCommandLength: 200,
+  maxHops: 8
+} as const
+
+export type CliMode = 'user' | 'privileged' | 'config' | 'interface' | 'vlan'
+
+interface DeviceSession {
+  mode: CliMode
+  interfaceName?: string
+  vlanId?: number
+}
+
+export interface SimulationState {
+  devices: SimDevice[]
+  links: SimulationDiagram['links']
+  sessions: Record<string, DeviceSession>
+}
+
+export interface CommandResult {
+  output: string[]
+  prompt: string
+}
+
+export type SimulationTranscript = Array<{ deviceId: string; input: string } & CommandResult>
+
+export interface CheckResult {
+  id: string
+  description?: string
+  passed: boolean
+}
+
+const PROMPT_SUFFIX: Record<CliMode, string> = {
+  user: '>',
+  privileged: '#',
+  config: '(config)#',
+  interface: '(config-if)#',
+  vlan: '(config-vlan)#'
+}
+
+const INTERFACE_TYPES = ['GigabitEthernet', 'FastEthernet', 'Ethernet', 'Serial', 'Loopback']
+
+// ---------------------------------------------------------------------------
+// Addressing
+// ---------------------------------------------------------------------------
+
+export function parseIp(value: string): number | null {
+  const parts = value.split('.')
+  if (parts.length !== 4) return null
+
+  let address = 0
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null
+    address = address * 256 + Number(part)
+  }
+  return address
+}
+
+// Contiguous ones followed by zeros, including 0.0.0.0 for default routes
+function isValidMask(mask: number): boolean {
+  const inverted = ~mask >>> 0
+  return (inverted & (inverted + 1)) === 0
+}
+
+const networkOf = (address: number, mask: number) => (address & mask) >>> 0
+
+const prefixLength = (mask: number) => mask.toString(2).replace(/0/g, '').length
+
+function ipToString(address: number): string {
+  return [24, 16, 8, 0].map(shift => (address >>> shift) & 255).join('.')
+}
+
+function sameSubnet(a: string, b: string, mask: string): boolean {
+  const [ipA, ipB, maskValue] = [parseIp(a), parseIp(b), parseIp(mask)]
+  if (ipA === null || ipB === null || maskValue === null) return false
+  return networkOf(ipA, maskValue) === networkOf(ipB, maskValue)
+}
+
+// ---------------------------------------------------------------------------
+// Topology
+// ---------------------------------------------------------------------------
+
+/**
+ * Find an interface by full or abbreviated name ('g0/0', 'Gi0/0', 'gigabitethernet 0/0')
+ */
+export function findInterface(device: SimDevice, rawName: string): SimInterface | null {
+  const name = normalizeInterfaceName(rawName)
+  if (!name) return null
+  return device.interfaces.find(iface => iface.name.toLowerCase() === name.toLowerCase()) ?? null
+}
+
+function normalizeInterfaceName(rawName: string): string | null {
+  const match = rawName.replace(/\s+/g, '').match(/^([a-z]+)(\d[\d/.]*)$/i)
+  if (!match) return null
+
+  const [, prefix, number] = match
+  const type = INTERFACE_TYPES.find(candidate => candidate.toLowerCase().startsWith(prefix.toLowerCase()))
+  return type ? `${type}${number}` : null
+}
+
+function shortInterfaceName(name: string): string {
+  return name
+    .replace(/^GigabitEthernet/, 'Gi')
+    .replace(/^FastEthernet/, 'Fa')
+    .replace(/^Ethernet/, 'Et')
+    .replace(/^Serial/, 'Se')
+    .replace(/^Loopback/, 'Lo')
+}
+
+function deviceById(state: SimulationState, deviceId: string): SimDevice | undefined {
+  return state.devices.find(device => device.id === deviceId)
+}
+
+// The interface on the other end of the cable, if any
+function peerOf(state: SimulationState, deviceId: string, interfaceName: string) {
+  for (const link of state.links) {
+    const [near, far] = link.a.deviceId === deviceId && link.a.interface === interfaceName
+      ? [link.a, link.b]
+      : link.b.deviceId === deviceId && link.b.interface === interfaceName
+        ? [link.b, link.a]
+        : [null, null]
+    if (!near || !far) continue
+
+    const device = deviceById(state, far.deviceId)
+    const iface = device?.interfaces.find(i => i.name === far.interface)
+    if (device && iface) return { device, iface }
+  }
+  return null
+}
+
+function lineProtocolUp(state: SimulationState, device: SimDevice, iface: SimInterface): boolean {
+  if (iface.shutdown) return false
+  if (iface.name.startsWith('Loopback')) return true
+  const peer = peerOf(state, device.id, iface.name)
+  return !!peer && !peer.iface.shutdown
+}
+
+const vlanExists = (device: SimDevice, vlanId: number) =>
+  vlanId === 1 || (device.vlans ?? []).some(vlan => vlan.id === vlanId)
+
+/**
+ * Layer 3 endpoints sharing a broadcast domain with an interface. Switches
+ * forward within a VLAN; access ports on VLANs the switch lacks stay down.
+ */
+function broadcastDomain(state: SimulationState, device: SimDevice, iface: SimInterface) {
+  const endpoints: Array<{ device: SimDevice; iface: SimInterface }> = []
+  const visited = new Set<string>([`${device.id}:${iface.name}`])
+  const queue: Array<{ deviceId: string; interfaceName: string; vlan: number | null }> = [
+    { deviceId: device.id, interfaceName: iface.name, vlan: null }
+  ]
+
+  while (queue.length > 0) {
+    const hop = queue.shift()!
+    const peer = peerOf(state, hop.deviceId, hop.interfaceName)
+    if (!peer || peer.iface.shutdown) continue
+
+    const key = `${peer.device.id}:${peer.iface.name}`
+    if (visited.has(key)) continue
+    visited.add(key)
+
+    if (peer.device.kind !== 'switch') {
+      endpoints.push(peer)
+      continue
+    }
+
+    const ingressTrunk = peer.iface.switchportMode === 'trunk'
+    const vlan = ingressTrunk ? hop.vlan ?? 1 : peer.iface.accessVlan ?? 1
+    if (!ingressTrunk && hop.vlan !== null && hop.vlan !== vlan) continue
+    if (!vlanExists(peer.device, vlan)) continue
+
+    for (const egress of peer.device.interfaces) {
+      if (egress === peer.iface || egress.shutdown) continue
+      const egressTrunk = egress.switchportMode === 'trunk'
+      if (!egressTrunk && (egress.accessVlan ?? 1) !== vlan) continue
+      visited.add(`${peer.device.id}:${egress.name}`)
+      queue.push({ deviceId: peer.device.id, interfaceName: egress.name, vlan })
+    }
+  }
+
+  return endpoints
+}
+
+const addressed = (iface: SimInterface) => !!iface.ipAddress && !!iface.subnetMask && !iface.shutdown
+
+// Choose the egress interface and next hop toward a destination
+function route(device: SimDevice, destination: string): { iface: SimInterface; nextHop: string } | null {
+  const connected = device.interfaces.find(iface => addressed(iface) && sameSubnet(iface.ipAddress!, destination, iface.subnetMask!))
+  if (connected) return { iface: connected, nextHop: destination }
+
+  let nextHop: string | null = null
+  if (device.kind === 'router') {
+    const destinationIp = parseIp(destination)
+    let bestLength = -1
+    for (const staticRoute of device.staticRoutes ?? []) {
+      const [prefix, mask] = [parseIp(staticRoute.prefix), parseIp(staticRoute.mask)]
+      if (destinationIp === null || prefix === null || mask === null) continue
+      if (networkOf(destinationIp, mask) === networkOf(prefix, mask) && prefixLength(mask) > bestLength) {
+        bestLength = prefixLength(mask)
+        nextHop = staticRoute.nextHop
+      }
+    }
+  } else if (device.kind === 'host') {
+    nextHop = device.defaultGateway ?? null
+  }
+
+  if (!nextHop) return null
+  const egress = device.interfaces.find(iface => addressed(iface) && sameSubnet(iface.ipAddress!, nextHop!, iface.subnetMask!))
+  return egress ? { iface: egress, nextHop } : null
+}
+
+function forwards(state: SimulationState, device: SimDevice, destination: string, hopsLeft: number): boolean {
+  if (device.interfaces.some(iface => addressed(iface) && iface.ipAddress === destination)) return true
+  if (hopsLeft === 0) return false
+
+  const hop = route(device, destination)
+  if (!hop) return false
+
+  // Loopbacks are not cabled; anything routed out of one goes nowhere
+  const neighbour = broadcastDomain(state, device, hop.iface)
+    .find(endpoint => addressed(endpoint.iface) && endpoint.iface.ipAddress === hop.nextHop)
+  if (!neighbour) return false
+
+  // Routers forward between their own interfaces; hosts only answer for themselves
+  if (neighbour.device.kind === 'host' && hop.nextHop !== destination) return false
+  return forwards(state, neighbour.device, destination, hopsLeft - 1)
+}
+
+/**
+ * Whether a ping from a device to an address would succeed: the echo must
+ * arrive and the reply must find its way back to the sending interface.
+ */
+export function canReach(state: SimulationState, deviceId: string, ipAddress: string): boolean {
+  const source = deviceById(state, deviceId)
+  if (!source || parseIp(ipAddress) === null) return false
+  if (source.interfaces.some(iface => addressed(iface) && iface.ipAddress === ipAddress)) return true
+
+  const firstHop = route(source, ipAddress)
+  if (!firstHop || !forwards(state, source, ipAddress, SIMULATOR_CONFIG.maxHops)) return false
+
+  const target = state.devices.find(device =>
+    device.interfaces.some(iface => addressed(iface) && iface.ipAddress === ipAddress))
+  return !!target && forwards(state, target, firstHop.iface.ipAddress!, SIMULATOR_CONFIG.maxHops)
+}
+
+// ---------------------------------------------------------------------------
+// Command interpreter
+// ---------------------------------------------------------------------------
+
+interface CommandContext {
+  state: SimulationState
+  device: SimDevice
+  session: DeviceSession
+}
+
+interface CommandSpec {
+  keywords: string[]
+  modes: CliMode[]
+  kinds?: Array<SimDevice['kind']>
+  // Number of arguments after the keywords; 'rest' takes one or more
+  args?: number | 'rest'
+  run: (context: CommandContext, args: string[]) => string[] | void
+}
+
+const CONFIG_MODES: CliMode[] = ['config', 'interface', 'vlan']
+const EXEC_MODES: CliMode[] = ['user', 'privileged']
+
+const invalidInput = () => ["% Invalid input detected at '^' marker."]
+
+function currentInterface({ device, session }: CommandContext): SimInterface {
+  return device.interfaces.find(iface => iface.name === session.interfaceName)!
+}
+
+function addressError(address: string, mask: string): string[] | null {
+  const [ip, maskValue] = [parseIp(address), parseIp(mask)]
+  return ip === null || maskValue === null || !isValidMask(maskValue) ? invalidInput() : null
+}
+
+function parseVlanId(raw: string): number | null {
+  if (!/^\d+$/.test(raw)) return null
+  const id = Number(raw)
+  return id >= 1 && id <= 4094 ? id : null
+}
+
+function ensureVlan(device: SimDevice, vlanId: number): boolean {
+  if (vlanExists(device, vlanId)) return false
+  device.vlans = [...(device.vlans ?? []), { id: vlanId }].sort((a, b) => a.id - b.id)
+  return true
+}
+
+const COMMANDS: CommandSpec[] = [
+  { keywords: ['enable'], modes: ['user'], run: ({ session }) => { session.mode = 'privileged' } },
+  { keywords: ['disable'], modes: ['privileged'], run: ({ session }) => { session.mode = 'user' } },
+  { keywords: ['configure', 'terminal'], modes: ['privileged'], run: ({ session }) => {
+    session.mode = 'config'
+    return ['Enter configuration commands, one per line.  End with CNTL/Z.']
+  } },
+  { keywords: ['exit'], modes: [...EXEC_MODES, ...CONFIG_MODES], run: ({ session }) => {
+    if (session.mode === 'config') session.mode = 'privileged'
+    else if (session.mode === 'interface' || session.mode === 'vlan') session.mode = 'config'
+    session.interfaceName = undefined
+    session.vlanId = undefined
+  } },
+  { keywords: ['end'], modes: CONFIG_MODES, run: ({ session }) => {
+    session.mode = 'privileged'
+    session.interfaceName = undefined
+    session.vlanId = undefined
+  } },
+  { keywords: ['hostname'], modes: ['config'], args: 1, run: ({ device }, [name]) => {
+    if (!/^[A-Za-z][\w-]{0,62}$/.test(name)) return invalidInput()
+    device.hostname = name
+  } },
+  { keywords: ['interface'], modes: CONFIG_MODES, args: 'rest', run: (context, args) => {
+    const iface = findInterface(context.device, args.join(''))
+    if (!iface) return invalidInput()
+    context.session.mode = 'interface'
+    context.session.interfaceName = iface.name
+    context.session.vlanId = undefined
+  } },
+  { keywords: ['ip', 'address'], modes: ['interface'], kinds: ['router'], args: 2, run: (context, [address, mask]) => {
+    const error = addressError(address, mask)
+    if (error) return error
+
+    const iface = currentInterface(context)
+    const clash = context.device.interfaces.find(other =>
+      other !== iface && other.ipAddress && other.subnetMask && sameSubnet(other.ipAddress, address, mask))
+    if (clash) return [`% ${ipToString(networkOf(parseIp(address)!, parseIp(mask)!))} overlaps with ${clash.name}`]
+
+    iface.ipAddress = address
+    iface.subnetMask = mask
+  } },
+  { keywords: ['no', 'ip', 'address'], modes: ['interface'], kinds: ['router'], run: (context) => {
+    const iface = currentInterface(context)
+    iface.ipAddress = null
+    iface.subnetMask = null
+  } },
+  { keywords: ['shutdown'], modes: ['interface'], run: (context) => { currentInterface(context).shutdown = true } },
+  { keywords: ['no', 'shutdown'], modes: ['interface'], run: (context) => { currentInterface(context).shutdown = false } },
+  { keywords: ['description'], modes: ['interface'], args: 'rest', run: (context, args) => {
+    currentInterface(context).description = args.join(' ')
+  } },
+  { keywords: ['switchport', 'mode'], modes: ['interface'], kinds: ['switch'], args: 1, run: (context, [mode]) => {
+    const matched = ['access', 'trunk'].filter(candidate => candidate.startsWith(mode.toLowerCase()))
+    if (matched.length !== 1) return invalidInput()
+    currentInterface(context).switchportMode = matched[0] as 'access' | 'trunk'
+  } },
+  { keywords: ['switchport', 'access', 'vlan'], modes: ['interface'], kinds: ['switch'], args: 1, run: (context, [raw]) => {
+    const vlanId = parseVlanId(raw)
+    if (vlanId === null) return invalidInput()
+    currentInterface(context).accessVlan = vlanId
+    if (ensureVlan(context.device, vlanId)) return [`% Access VLAN does not exist. Creating vlan ${vlanId}`]
+  } },
+  { keywords: ['vlan'], modes: CONFIG_MODES, kinds: ['switch'], args: 1, run: ({ device, session }, [raw]) => {
+    const vlanId = parseVlanId(raw)
+    if (vlanId === null) return invalidInput()
+    ensureVlan(device, vlanId)
+    session.mode = 'vlan'
+    session.vlanId = vlanId
+    session.interfaceName = undefined
+  } },
+  { keywords: ['no', 'vlan'], modes: ['config'], kinds: ['switch'], args: 1, run: ({ device }, [raw]) => {
+    const vlanId = parseVlanId(raw)
+    if (vlanId === null || vlanId === 1) return ['% Default VLAN 1 may not be deleted.']
+    device.vlans = (device.vlans ?? []).filter(vlan => vlan.id !== vlanId)
+  } },
+  { keywords: ['name'], modes: ['vlan'], args: 1, run: ({ device, session }, [name]) => {
+    const vlan = (device.vlans ?? []).find(v => v.id === session.vlanId)
+    if (vlan) vlan.name = name
+  } },
+  { keywords: ['ip', 'route'], modes: ['config'], kinds: ['router'], args: 3, run: ({ device }, [prefix, mask, nextHop]) => {
+    if (addressError(prefix, mask) || parseIp(nextHop) === null) return invalidInput()
+    if (networkOf(parseIp(prefix)!, parseIp(mask)!) !== parseIp(prefix)) return ['%Inconsistent address and mask']
+
+    const routes = device.staticRoutes ?? []
+    if (!routes.some(r => r.prefix === prefix && r.mask === mask && r.nextHop === nextHop)) {
+      device.staticRoutes = [...routes, { prefix, mask, nextHop }]
+    }
+  } },
+  { keywords: ['no', 'ip', 'route'], modes: ['config'], kinds: ['router'], args: 3, run: ({ device }, [prefix, mask, nextHop]) => {
+    device.staticRoutes = (device.staticRoutes ?? [])
+      .filter(r => !(r.prefix === prefix && r.mask === mask && r.nextHop === nextHop))
+  } },
+  { keywords: ['show', 'running-config'], modes: ['privileged'], run: ({ device }) => showRunningConfig(device) },
+  { keywords: ['show', 'ip', 'interface', 'brief'], modes: EXEC_MODES, run: ({ state, device }) => showIpInterfaceBrief(state, device) },
+  { keywords: ['show', 'ip', 'route'], modes: EXEC_MODES, kinds: ['router'], run: ({ state, device }) => showIpRoute(state, device) },
+  { keywords: ['show', 'vlan', 'brief'], modes: EXEC_MODES, kinds: ['switch'], run: ({ device }) => showVlanBrief(device) },
+  { keywords: ['ping'], modes: EXEC_MODES, args: 1, run: ({ state, device }, [address]) => {
+    if (parseIp(address) === null) return ['% Unrecognized host or address.']
+    const ok = canReach(state, device.id, address)
+    return [
+      'Type escape sequence to abort.',
+      `Sending 5, 100-byte ICMP Echos to ${address}, timeout is 2 seconds:`,
+      ok ? '!!!!!' : '.....',
+      ok ? 'Success rate is 100 percent (5/5)' : 'Success rate is 0 percent (0/5)'
+    ]
+  } }
+]
+
+function argsFit(spec: CommandSpec, count: number): boolean {
+  const expected = spec.args ?? 0
+  return expected === 'rest' ? count > 0 : count === expected
+}
+
+const keywordsMatch = (spec: CommandSpec, tokens: string[]) =>
+  spec.keywords.every((keyword, i) => keyword.startsWith(tokens[i].toLowerCase()))
+
+/**
+ * Resolve typed tokens to a command, accepting unambiguous abbreviations
+ * ('conf t', 'int g0/0', 'no shut') the way IOS does.
+ */
+function matchCommand(tokens: string[], mode: CliMode, device: SimDevice):
+  | { spec: CommandSpec; args: string[] }
+  | 'ambiguous'
+  | 'incomplete'
+  | null {
+  const available = COMMANDS.filter(spec => spec.modes.includes(mode) && (!spec.kinds || spec.kinds.includes(device.kind)))
+
+  const candidates = available
+    .filter(spec => tokens.length >= spec.keywords.length && keywordsMatch(spec, tokens) &&
+      argsFit(spec, tokens.length - spec.keywords.length))
+    .map(spec => ({ spec, args: tokens.slice(spec.keywords.length) }))
+
+  if (candidates.length === 1) return candidates[0]
+  if (candidates.length > 1) {
+    const exact = candidates.filter(({ spec }) => spec.keywords.every((keyword, i) => keyword === tokens[i].toLowerCase()))
+    return exact.length === 1 ? exact[0] : 'ambiguous'
+  }
+
+  // A valid prefix of a longer command, e.g. 'configure' or 'ip address 10.0.0.1'
+  const incomplete = available.some(spec => {
+    const shared = Math.min(tokens.length, spec.keywords.length)
+    const expected = spec.args === 'rest' ? 1 : spec.args ?? 0
+    return spec.keywords.slice(0, shared).every((keyword, i) => keyword.startsWith(tokens[i].toLowerCase())) &&
+      tokens.length < spec.keywords.length + expected
+  })
+  return incomplete ? 'incomplete' : null
+}
+
+export function promptFor(state: SimulationState, deviceId: string): string {
+  const device = deviceById(state, deviceId)
+  if (!device) return ''
+  return `${device.hostname}${PROMPT_SUFFIX[state.sessions[deviceId]?.mode ?? 'user']}`
+}
+
+/**
+ * A fresh simulation from a question's starting configuration. Every CLI
+ * starts in user EXEC mode. The diagram itself is never modified.
+ */
+export function createSimulation(diagram: Pick<SimulationDiagram, 'devices' | 'links'>): SimulationState {
+  const devices = structuredClone(diagram.devices)
+  return {
+    devices,
+    links: structuredClone(diagram.links),
+    sessions: Object.fromEntries(devices.map(device => [device.id, { mode: 'user' as CliMode }]))
+  }
+}
+
+/**
+ * Run one line of input on a device, updating the simulation in place
+ */
+export function executeCommand(state: SimulationState, deviceId: string, input: string): CommandResult {
+  const device = deviceById(state, deviceId)
+  if (!device) return { output: ['% Unknown device'], prompt: '' }
+
+  const output = (lines: string[] | void): CommandResult => ({ output: lines ?? [], prompt: promptFor(state, deviceId) })
+
+  if (device.kind === 'host') return output(['% This device has no command line'])
+  if (input.length > SIMULATOR_CONFIG.maxCommandLength) return output(invalidInput())
+
+  const session = state.sessions[deviceId]
+  let tokens = input.trim().split(/\s+/).filter(Boolean)
+  if (tokens.length === 0) return output()
+
+  // 'do' runs an EXEC command from configuration mode
+  let mode = session.mode
+  if (CONFIG_MODES.includes(mode) && tokens[0].toLowerCase() === 'do' && tokens.length > 1) {
+    tokens = tokens.slice(1)
+    mode = 'privileged'
+  }
+
+  const matched = matchCommand(tokens, mode, device)
+  if (matched === 'ambiguous') return output([`% Ambiguous command:  "${input.trim()}"`])
+  if (matched === 'incomplete') return output(['% Incomplete command.'])
+  if (!matched) return output(invalidInput())
+
+  // EXEC commands run through 'do' must not change the configuration mode
+  const context = { state, device, session: mode === session.mode ? session : { ...session, mode } }
+  return output(matched.spec.run(context, matched.args))
+}
+
+/**
+ * Replay a learner's commands against a fresh copy of the starting configuration
+ */
+export function runTranscript(diagram: Pick<SimulationDiagram, 'devices' | 'links'>, commands: SimulationCommand[]) {
+  const state = createSimulation(diagram)
+  const transcript: SimulationTranscript = commands.slice(0, SIMULATOR_CONFIG.maxCommands).map(command => ({
+    ...command,
+    ...executeCommand(state, command.deviceId, command.input)
+  }))
+  return { state, transcript }
+}
+
+// ---------------------------------------------------------------------------
+// show commands
+// ---------------------------------------------------------------------------
+
+function showRunningConfig(device: SimDevice): string[] {
+  const lines = ['Building configuration...', '', `hostname ${device.hostname}`, '!']
+
+  for (const vlan of device.vlans ?? []) {
+    lines.push(`vlan ${vlan.id}`)
+    if (vlan.name) lines.push(` name ${vlan.name}`)
+    lines.push('!')
+  }
+
+  for (const iface of device.interfaces) {
+    lines.push(`interface ${iface.name}`)
+    if (iface.description) lines.push(` description ${iface.description}`)
+    if (device.kind === 'switch') {
+      if (iface.switchportMode) lines.push(` switchport mode ${iface.switchportMode}`)
+      if (iface.accessVlan && iface.accessVlan !== 1) lines.push(` switchport access vlan ${iface.accessVlan}`)
+    } else {
+      lines.push(iface.ipAddress ? ` ip address ${iface.ipAddress} ${iface.subnetMask}` : ' no ip address')
+    }
+    if (iface.shutdown) lines.push(' shutdown')
+    lines.push('!')
+  }
+
+  for (const r of device.staticRoutes ?? []) lines.push(`ip route ${r.prefix} ${r.mask} ${r.nextHop}`)
+  lines.push('!', 'end')
+  return lines
+}
+
+function showIpInterfaceBrief(state: SimulationState, device: SimDevice): string[] {
+  const row = (...cells: string[]) => [cells[0].padEnd(23), cells[1].padEnd(16), cells[2].padEnd(4), cells[3].padEnd(7), cells[4].padEnd(22), cells[5]].join('')
+
+  return [
+    row('Interface', 'IP-Address', 'OK?', 'Method', 'Status', 'Protocol'),
+    ...device.interfaces.map(iface => {
+      const protocol = lineProtocolUp(state, device, iface) ? 'up' : 'down'
+      const status = iface.shutdown ? 'administratively down' : protocol
+      return row(iface.name, iface.ipAddress ?? 'unassigned', 'YES', iface.ipAddress ? 'manual' : 'unset', status, protocol)
+    })
+  ]
+}
+
+function showIpRoute(state: SimulationState, device: SimDevice): string[] {
+  const lines = ['Codes: C - connected, S - static', '']
+
+  for (const iface of device.interfaces) {
+    if (!addressed(iface) || !lineProtocolUp(state, device, iface)) continue
+    const mask = parseIp(iface.subnetMask!)!
+    lines.push(`C    ${ipToString(networkOf(parseIp(iface.ipAddress!)!, mask))}/${prefixLength(mask)} is directly connected, ${iface.name}`)
+  }
+  for (const r of device.staticRoutes ?? []) {
+    lines.push(`S    ${r.prefix}/${prefixLength(parseIp(r.mask) ?? 0)} [1/0] via ${r.nextHop}`)
+  }
+  return lines
+}
+
+function showVlanBrief(device: SimDevice): string[] {
+  const vlans = [{ id: 1, name: 'default' }, ...(device.vlans ?? []).filter(vlan => vlan.id !== 1)]
+  const lines = ['VLAN Name                             Status    Ports', '---- -------------------------------- --------- -------------------------------']
+
+  for (const vlan of vlans) {
+    const ports = device.interfaces
+      .filter(iface => iface.switchportMode !== 'trunk' && (iface.accessVlan ?? 1) === vlan.id)
+      .map(iface => shortInterfaceName(iface.name))
+    const name = vlan.name ?? `VLAN${String(vlan.id).padStart(4, '0')}`
+    lines.push(`${String(vlan.id).padEnd(5)}${name.padEnd(33)}active    ${ports.join(', ')}`)
+  }
+  return lines
+}
+
+// ---------------------------------------------------------------------------
+// Grading
+// ---------------------------------------------------------------------------
+
+function checkPasses(state: SimulationState, check: SimulationCheck): boolean {
+  const device = deviceById(state, check.deviceId)
+  if (!device) return false
+
+  switch (check.type) {
+    case 'hostname':
+      return device.hostname === check.hostname
+    case 'interface_address': {
+      const iface = findInterface(device, check.interface)
+      return !!iface && iface.ipAddress === check.ipAddress && iface.subnetMask === check.subnetMask
+    }
+    case 'interface_up': {
+      const iface = findInterface(device, check.interface)
+      return !!iface && lineProtocolUp(state, device, iface)
+    }
+    case 'vlan': {
+      const vlan = (device.vlans ?? []).find(v => v.id === check.vlanId)
+      return !!vlan && (!check.name || vlan.name?.toLowerCase() === check.name.toLowerCase())
+    }
+    case 'access_vlan': {
+      const iface = findInterface(device, check.interface)
+      return !!iface && iface.switchportMode !== 'trunk' && (iface.accessVlan ?? 1) === check.vlanId &&
+        vlanExists(device, check.vlanId)
+    }
+    case 'static_route':
+      return (device.staticRoutes ?? []).some(r =>
+        r.prefix === check.prefix && r.mask === check.mask && r.nextHop === check.nextHop)
+    case 'reachable':
+      return canReach(state, device.id, check.ipAddress)
+  }
+}
+
+/**
+ * Grade the end state of a simulation. Checks look at configuration and
+ * behaviour, not at which commands were typed to get there.
+ */
+export function evaluateChecks(diagram: SimulationDiagram, state: SimulationState): CheckResult[] {
+  return diagram.checks.map(check => ({
+    id: check.id,
+    description: check.description,
+    passed: checkPasses(state, check)
+  }))
+}
+
+// ---------------------------------------------------------------------------
+// Authoring and learner payloads
+// ---------------------------------------------------------------------------
+
+const ipSchema = z.string().refine(value => parseIp(value) !== null, 'Invalid IPv4 address')
+const maskSchema = z.string().refine(value => {
+  const mask = parseIp(value)
+  return mask !== null && isValidMask(mask)
+}, 'Invalid subnet mask')
+
+const simInterfaceSchema = z.object({
+  name: z.string().min(1),
+  ipAddress: ipSchema.nullish(),
+  subnetMask: maskSchema.nullish(),
+  shutdown: z.boolean().optional(),
+  description: z.string().nullish(),
+  switchportMode: z.enum(['access', 'trunk']).nullish(),
+  accessVlan: z.number().int().min(1).max(4094).nullish()
+})
+
+const simDeviceSchema = z.object({
+  id: z.string().min(1),
+  hostname: z.string().min(1),
+  kind: z.enum(['router', 'switch', 'host']),
+  interfaces: z.array(simInterfaceSchema).min(1),
+  vlans: z.array(z.object({ id: z.number().int().min(1).max(4094), name: z.string().optional() })).optional(),
+  staticRoutes: z.array(z.object({ prefix: ipSchema, mask: maskSchema, nextHop: ipSchema })).optional(),
+  defaultGateway: ipSchema.nullish()
+})
+
+const linkEndSchema = z.object({ deviceId: z.string(), interface: z.string() })
+
+const checkBase = { id: z.string().min(1), description: z.string().optional(), deviceId: z.string() }
+
+const simulationCheckSchema = z.discriminatedUnion('type', [
+  z.object({ ...checkBase, type: z.literal('hostname'), hostname: z.string().min(1) }),
+  z.object({ ...checkBase, type: z.literal('interface_address'), interface: z.string(), ipAddress: ipSchema, subnetMask: maskSchema }),
+  z.object({ ...checkBase, type: z.literal('interface_up'), interface: z.string() }),
+  z.object({ ...checkBase, type: z.literal('vlan'), vlanId: z.number().int().min(1).max(4094), name: z.string().optional() }),
+  z.object({ ...checkBase, type: z.literal('access_vlan'), interface: z.string(), vlanId: z.number().int().min(1).max(4094) }),
+  z.object({ ...checkBase, type: z.literal('static_route'), prefix: ipSchema, mask: maskSchema, nextHop: ipSchema }),
+  z.object({ ...checkBase, type: z.literal('reachable'), ipAddress: ipSchema })
+])
+
+export const simulationDiagramSchema = z.object({
+  kind: z.literal('simulation'),
+  devices: z.array(simDeviceSchema).min(1).max(SIMULATOR_CONFIG.maxDevices),
+  links: z.array(z.object({ a: linkEndSchema, b: linkEndSchema })),
+  checks: z.array(simulationCheckSchema).min(1).max(SIMULATOR_CONFIG.maxChecks),
+  partialCredit: z.boolean().optional()
+})
+
+// Learner answers: every line typed, in order, on whichever device it was typed
+export const simulationResponseSchema = z.object({
+  commands: z.array(z.object({
+    deviceId: z.string(),
+    input: z.string().max(SIMULATOR_CONFIG.maxCommandLength)
+  })).max(SIMULATOR_CONFIG.maxCommands)
+})
+
+export type SimulationResponse = z.infer<typeof simulationResponseSchema>
+export type SimulationCommand = SimulationResponse['commands'][number]
+
+/**
+ * Check that a simulation's topology and grading rules fit together.
+ * Interface names in checks must be exact so authors can see what is graded.
+ */
+export function validateSimulationDiagram(diagram: SimulationDiagram): string[] {
+  const errors: string[] = []
+  const devices = new Map(diagram.devices.map(device => [device.id, device]))
+  const interfaceExists = (deviceId: string, name: string) =>
+    !!devices.get(deviceId)?.interfaces.some(iface => iface.name === name)
+
+  if (devices.size !== diagram.devices.length) errors.push('Device IDs must be unique')
+  if (!diagram.devices.some(device => device.kind !== 'host')) errors.push('At least one router or switch is required')
+
+  for (const device of diagram.devices) {
+    const names = device.interfaces.map(iface => iface.name)
+    if (new Set(names).size !== names.length) errors.push(`Device ${device.id}: interface names must be unique`)
+    for (const name of names) {
+      if (normalizeInterfaceName(name) !== name) errors.push(`Device ${device.id}: ${name} is not a full interface name`)
+    }
+  }
+
+  const cabled = new Set<string>()
+  for (const link of diagram.links) {
+    for (const end of [link.a, link.b]) {
+      const key = `${end.deviceId}:${end.interface}`
+      if (!interfaceExists(end.deviceId, end.interface)) errors.push(`Link references unknown interface ${key}`)
+      else if (cabled.has(key)) errors.push(`Interface ${key} is cabled more than once`)
+      cabled.add(key)
+    }
+  }
+
+  const checkIds = diagram.checks.map(check => check.id)
+  if (new Set(checkIds).size !== checkIds.length) errors.push('Check IDs must be unique')
+  for (const check of diagram.checks) {
+    if (!devices.has(check.deviceId)) errors.push(`Check ${check.id} references unknown device ${check.deviceId}`)
+    else if ('interface' in check && !interfaceExists(check.deviceId, check.interface)) {
+      errors.push(`Check ${check.id} references unknown interface ${check.interface}`)
+    }
+  }
+
+  if (errors.length === 0 && evaluateChecks(diagram, createSimulation(diagram)).every(result => result.passed)) {
+    errors.push('Every check already passes before the learner types anything')
+  }
+  return errors
+}
+
+/**
+ * Fraction of checks the learner's transcript satisfies
+ */
+export function scoreSimulation(diagram: SimulationDiagram, response: SimulationResponse): number {
+  const { state } = runTranscript(diagram, response.commands)
+  const results = evaluateChecks(diagram, state)
+  return results.filter(result => result.passed).length / results.length
+}
+
+/**
+ * The topology as a learner sees it: device names and cabling, without the
+ * starting configuration or grading rules. Learners inspect it with show commands.
+ */
+export function redactSimulation(diagram: SimulationDiagram) {
+  return {
+    kind: diagram.kind,
+    devices: diagram.devices.map(device => ({
+      id: device.id,
+      hostname: device.hostname,
+      kind: device.kind,
+      interfaces: device.interfaces.map(iface => iface.name)
+    })),
+    links: diagram.links,
+    tasks: diagram.checks.flatMap(check => check.description ?? [])
+  }
+}
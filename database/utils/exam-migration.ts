@@ -0,0 +1,534 @@
+// Exam version migration for PingToPass
+// Vendors retire exam versions (N10-008 → N10-009). Moderators map the old
+// version's objectives and questions onto the new one, retire whatever has no
+// counterpart, and learners carry their answers, review schedules and
+// objective mastery across before the old version expires.
+
+import { and, eq, inArray, notInArray, sql } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { MappedEntity, ObjectiveMastery } from '../schema/types'
+import type { ReviewActor } from './question-review'
+import { normalizeQuestionText } from './question-interchange'
+import { estimateMastery } from './weak-areas'
+import { ReadinessQueries } from './readiness'
+
+export const EXAM_MIGRATION_CONFIG = {
+  insertBatchSize: 100
+} as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface MappingEntry {
+  sourceId: number
+  targetId: number | null // null: retired with the old version
+}
+
+export interface MappingProposal extends MappingEntry {
+  label: string // Objective code and name, or question text
+  origin: 'saved' | 'suggested'
+}
+
+export interface VersionMapping {
+  objectives: MappingEntry[]
+  questions: MappingEntry[]
+}
+
+export interface ExamRetirement {
+  examId: number
+  retiring: boolean
+  expiresAt: Date | null
+  daysRemaining: number | null // 0 once expired
+  successor: { id: number; code: string; name: string; version: string | null } | null
+  hasProgress: boolean
+  migratedAt: Date | null
+  canMigrate: boolean
+}
+
+export interface CarriedProgress {
+  answers: number
+  reviewStates: number
+  objectives: number
+}
+
+type MappableObjective = Pick<schema.Objective, 'id' | 'code' | 'name'>
+type MappableQuestion = Pick<schema.Question, 'id' | 'text'>
+
+/**
+ * Whole days left before an exam version expires, counting a part day as one
+ */
+export function daysUntil(expiresAt: Date, now: Date): number {
+  return Math.max(0, Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS))
+}
+
+/**
+ * First-pass mapping for a moderator to correct: objectives by code, then by
+ * name; questions by normalized text. Everything else maps to nothing.
+ */
+export function suggestVersionMapping(
+  from: { objectives: MappableObjective[]; questions: MappableQuestion[] },
+  to: { objectives: MappableObjective[]; questions: MappableQuestion[] }
+): VersionMapping {
+  const byCode = new Map(to.objectives.map(objective => [objective.code.trim(), objective.id]))
+  const byName = new Map(to.objectives.map(objective => [objective.name.trim().toLowerCase(), objective.id]))
+
+  const byText = new Map<string, number[]>()
+  for (const question of to.questions) {
+    const key = normalizeQuestionText(question.text)
+    byText.set(key, [...(byText.get(key) ?? []), question.id])
+  }
+
+  return {
+    objectives: from.objectives.map(objective => ({
+      sourceId: objective.id,
+      targetId: byCode.get(objective.code.trim()) ?? byName.get(objective.name.trim().toLowerCase()) ?? null
+    })),
+    // Each new question takes at most one old one
+    questions: from.questions.map(question => ({
+      sourceId: question.id,
+      targetId: byText.get(normalizeQuestionText(question.text))?.shift() ?? null
+    }))
+  }
+}
+
+// Exam version migration queries
+export class ExamMigrationQueries {
+  private readiness: ReadinessQueries
+
+  constructor(private db: Database) {
+    this.readiness = new ReadinessQueries(db)
+  }
+
+  /**
+   * Mapping from one exam version to another: saved entries where a
+   * moderator has mapped before, suggestions for the rest
+   */
+  async getMapping(params: { fromExamId: number; toExamId: number }): Promise<
+    | { ok: false; reason: 'exam_not_found' | 'same_exam' }
+    | { ok: true; objectives: MappingProposal[]; questions: MappingProposal[] }
+  > {
+    const { fromExamId, toExamId } = params
+    if (fromExamId === toExamId) return { ok: false, reason: 'same_exam' }
+    if (!(await this.examsExist(fromExamId, toExamId))) return { ok: false, reason: 'exam_not_found' }
+
+    const [from, to, saved] = await Promise.all([
+      this.getContent(fromExamId),
+      this.getContent(toExamId),
+      this.db
+        .select()
+        .from(schema.examVersionMappings)
+        .where(and(eq(schema.examVersionMappings.fromExamId, fromExamId), eq(schema.examVersionMappings.toExamId, toExamId)))
+    ])
+
+    const suggested = suggestVersionMapping(from, to)
+    const savedTarget = (entityType: MappedEntity) =>
+      new Map(saved.filter(row => row.entityType === entityType).map(row => [row.sourceId, row.targetId]))
+
+    const propose = (entries: MappingEntry[], entityType: MappedEntity, labels: Map<number, string>): MappingProposal[] => {
+      const savedTargets = savedTarget(entityType)
+      return entries.map(entry => savedTargets.has(entry.sourceId)
+        ? { sourceId: entry.sourceId, targetId: savedTargets.get(entry.sourceId)!, label: labels.get(entry.sourceId)!, origin: 'saved' }
+        : { ...entry, label: labels.get(entry.sourceId)!, origin: 'suggested' })
+    }
+
+    return {
+      ok: true,
+      objectives: propose(suggested.objectives, 'objective', new Map(from.objectives.map(o => [o.id, `${o.code} ${o.name}`]))),
+      questions: propose(suggested.questions, 'question', new Map(from.questions.map(q => [q.id, q.text])))
+    }
+  }
+
+  /**
+   * Replace the mapping for an exam version and name its successor. Old
+   * objectives and questions left out of the mapping count as unmapped.
+   */
+  async saveMapping(params: {
+    fromExamId: number
+    toExamId: number
+    mapping: VersionMapping
+    expiresAt?: Date | null
+    actor: ReviewActor
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: 'exam_not_found' | 'same_exam' | 'invalid_mapping' }
+    | { ok: true; mapped: { objectives: number; questions: number }; unmapped: { objectives: number; questions: number } }
+  > {
+    const { fromExamId, toExamId, mapping, actor, now = new Date() } = params
+    if (fromExamId === toExamId) return { ok: false, reason: 'same_exam' }
+
+    const [exam] = await this.db
+      .select({ successorExamId: schema.exams.successorExamId, expiresAt: schema.exams.expiresAt })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, fromExamId))
+      .limit(1)
+    if (!exam || !(await this.examsExist(toExamId))) return { ok: false, reason: 'exam_not_found' }
+
+    const [from, to] = await Promise.all([this.getContent(fromExamId), this.getContent(toExamId)])
+
+    // Sources must belong to the old version, targets to the new one
+    const fits = (entries: MappingEntry[], sources: Array<{ id: number }>, targets: Array<{ id: number }>) => {
+      const sourceIds = new Set(sources.map(source => source.id))
+      const targetIds = new Set(targets.map(target => target.id))
+      return entries.every(entry => sourceIds.has(entry.sourceId) && (entry.targetId === null || targetIds.has(entry.targetId)))
+    }
+    if (!fits(mapping.objectives, from.objectives, to.objectives) || !fits(mapping.questions, from.questions, to.questions)) {
+      return { ok: false, reason: 'invalid_mapping' }
+    }
+
+    const rows: schema.NewExamVersionMapping[] = [
+      ...mapping.objectives.map(entry => ({ entityType: 'objective' as const, ...entry })),
+      ...mapping.questions.map(entry => ({ entityType: 'question' as const, ...entry }))
+    ].map(entry => ({ fromExamId, toExamId, createdBy: actor.userId, createdAt: now, ...entry }))
+
+    await this.db.delete(schema.examVersionMappings).where(eq(schema.examVersionMappings.fromExamId, fromExamId))
+    for (let i = 0; i < rows.length; i += EXAM_MIGRATION_CONFIG.insertBatchSize) {
+      await this.db
+        .insert(schema.examVersionMappings)
+        .values(rows.slice(i, i + EXAM_MIGRATION_CONFIG.insertBatchSize))
+        .onConflictDoNothing()
+    }
+
+    const expiresAt = params.expiresAt === undefined ? exam.expiresAt : params.expiresAt
+    await this.db
+      .update(schema.exams)
+      .set({ successorExamId: toExamId, expiresAt, updatedAt: now })
+      .where(eq(schema.exams.id, fromExamId))
+
+    const mapped = {
+      objectives: mapping.objectives.filter(entry => entry.targetId !== null).length,
+      questions: mapping.questions.filter(entry => entry.targetId !== null).length
+    }
+    const unmapped = {
+      objectives: from.objectives.length - mapped.objectives,
+      questions: from.questions.length - mapped.questions
+    }
+
+    await this.db.insert(schema.auditLog).values({
+      userId: actor.userId,
+      sessionId: actor.sessionId ?? null,
+      ipAddress: actor.ipAddress ?? null,
+      userAgent: actor.userAgent ?? null,
+      action: 'exam.map_version',
+      entityType: 'exam',
+      entityId: String(fromExamId),
+      oldValues: { successorExamId: exam.successorExamId, expiresAt: exam.expiresAt },
+      newValues: { successorExamId: toExamId, expiresAt },
+      metadata: { mapped, unmapped },
+      createdAt: now
+    })
+
+    return { ok: true, mapped, unmapped }
+  }
+
+  /**
+   * Deactivate the old version's objectives and questions that have no
+   * counterpart on its successor. Their history stays in place.
+   */
+  async retireUnmapped(params: { examId: number; actor: ReviewActor; now?: Date }): Promise<
+    | { ok: false; reason: 'exam_not_found' | 'no_successor' }
+    | { ok: true; retired: { objectives: number; questions: number } }
+  > {
+    const { examId, actor, now = new Date() } = params
+
+    const [exam] = await this.db
+      .select({ successorExamId: schema.exams.successorExamId })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+    if (!exam) return { ok: false, reason: 'exam_not_found' }
+    if (exam.successorExamId === null) return { ok: false, reason: 'no_successor' }
+
+    const { objectives, questions } = await this.getMappedIds(examId)
+
+    const retiredObjectives = await this.db
+      .update(schema.objectives)
+      .set({ isActive: false })
+      .where(
+        and(
+          eq(schema.objectives.examId, examId),
+          eq(schema.objectives.isActive, true),
+          ...(objectives.size > 0 ? [notInArray(schema.objectives.id, [...objectives.keys()])] : [])
+        )
+      )
+      .returning({ id: schema.objectives.id })
+
+    const retiredQuestions = await this.db
+      .update(schema.questions)
+      .set({ isActive: false, updatedAt: now })
+      .where(
+        and(
+          eq(schema.questions.examId, examId),
+          eq(schema.questions.isActive, true),
+          ...(questions.size > 0 ? [notInArray(schema.questions.id, [...questions.keys()])] : [])
+        )
+      )
+      .returning({ id: schema.questions.id })
+
+    const retired = { objectives: retiredObjectives.length, questions: retiredQuestions.length }
+
+    if (retired.objectives > 0 || retired.questions > 0) {
+      await this.db.insert(schema.auditLog).values({
+        userId: actor.userId,
+        sessionId: actor.sessionId ?? null,
+        ipAddress: actor.ipAddress ?? null,
+        userAgent: actor.userAgent ?? null,
+        action: 'exam.retire_unmapped',
+        entityType: 'exam',
+        entityId: String(examId),
+        newValues: { isActive: false },
+        metadata: {
+          successorExamId: exam.successorExamId,
+          objectiveIds: retiredObjectives.map(row => row.id),
+          questionIds: retiredQuestions.map(row => row.id)
+        },
+        createdAt: now
+      })
+    }
+
+    return { ok: true, retired }
+  }
+
+  /**
+   * Retirement countdown and migration state of an exam for one learner
+   */
+  async getRetirement(params: { examId: number; userId: number; now?: Date }): Promise<
+    | { ok: false; reason: 'exam_not_found' }
+    | { ok: true; retirement: ExamRetirement }
+  > {
+    const { examId, userId, now = new Date() } = params
+
+    const [exam] = await this.db
+      .select({ expiresAt: schema.exams.expiresAt, successorExamId: schema.exams.successorExamId })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+    if (!exam) return { ok: false, reason: 'exam_not_found' }
+
+    const [[successor], [progress], [answered]] = await Promise.all([
+      exam.successorExamId === null
+        ? Promise.resolve([])
+        : this.db
+          .select({ id: schema.exams.id, code: schema.exams.code, name: schema.exams.name, version: schema.exams.version })
+          .from(schema.exams)
+          .where(eq(schema.exams.id, exam.successorExamId))
+          .limit(1),
+      this.db
+        .select({ migratedAt: schema.userProgress.migratedAt })
+        .from(schema.userProgress)
+        .where(and(eq(schema.userProgress.userId, userId), eq(schema.userProgress.examId, examId)))
+        .limit(1),
+      this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.userAnswers)
+        .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+        .where(and(eq(schema.userAnswers.userId, userId), eq(schema.questions.examId, examId)))
+    ])
+
+    const hasProgress = Number(answered?.count ?? 0) > 0
+    const migratedAt = progress?.migratedAt ?? null
+
+    return {
+      ok: true,
+      retirement: {
+        examId,
+        retiring: exam.expiresAt !== null || successor !== undefined,
+        expiresAt: exam.expiresAt,
+        daysRemaining: exam.expiresAt ? daysUntil(exam.expiresAt, now) : null,
+        successor: successor ?? null,
+        hasProgress,
+        migratedAt,
+        canMigrate: successor !== undefined && hasProgress && migratedAt === null
+      }
+    }
+  }
+
+  /**
+   * Carry a learner's progress to the exam's successor: answers and review
+   * schedules on mapped questions, and mastery on mapped objectives, which
+   * also keeps what was learned on questions that were retired. Runs once
+   * per learner and exam.
+   */
+  async migrateProgress(params: { examId: number; userId: number; now?: Date }): Promise<
+    | { ok: false; reason: 'exam_not_found' | 'no_successor' | 'already_migrated' }
+    | { ok: true; toExamId: number; carried: CarriedProgress }
+  > {
+    const { examId, userId, now = new Date() } = params
+
+    const [exam] = await this.db
+      .select({ successorExamId: schema.exams.successorExamId })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+    if (!exam) return { ok: false, reason: 'exam_not_found' }
+    if (exam.successorExamId === null) return { ok: false, reason: 'no_successor' }
+    const toExamId = exam.successorExamId
+
+    const [progress] = await this.db
+      .select({ migratedAt: schema.userProgress.migratedAt })
+      .from(schema.userProgress)
+      .where(and(eq(schema.userProgress.userId, userId), eq(schema.userProgress.examId, examId)))
+      .limit(1)
+    if (progress?.migratedAt) return { ok: false, reason: 'already_migrated' }
+
+    const { objectives, questions } = await this.getMappedIds(examId)
+
+    const answers = await this.db
+      .select({
+        questionId: schema.userAnswers.questionId,
+        objectiveId: schema.questions.objectiveId,
+        selectedAnswer: schema.userAnswers.selectedAnswer,
+        isCorrect: schema.userAnswers.isCorrect,
+        credit: schema.userAnswers.credit,
+        timeSpentSeconds: schema.userAnswers.timeSpentSeconds,
+        confidenceLevel: schema.userAnswers.confidenceLevel,
+        flagged: schema.userAnswers.flagged,
+        changedAnswer: schema.userAnswers.changedAnswer,
+        attemptNumber: schema.userAnswers.attemptNumber,
+        daysSinceLastSeen: schema.userAnswers.daysSinceLastSeen,
+        questionRevisionId: schema.userAnswers.questionRevisionId,
+        mergedFromQuestionId: schema.userAnswers.mergedFromQuestionId,
+        answeredAt: schema.userAnswers.answeredAt
+      })
+      .from(schema.userAnswers)
+      .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+      .where(and(eq(schema.userAnswers.userId, userId), eq(schema.questions.examId, examId)))
+
+    // Copies point at the new question but remember the one whose answers selectedAnswer refers to
+    const copies: schema.NewUserAnswer[] = answers
+      .filter(answer => questions.has(answer.questionId))
+      .map(({ objectiveId, ...answer }) => ({
+        ...answer,
+        userId,
+        questionId: questions.get(answer.questionId)!,
+        mergedFromQuestionId: answer.mergedFromQuestionId ?? answer.questionId
+      }))
+    for (let i = 0; i < copies.length; i += EXAM_MIGRATION_CONFIG.insertBatchSize) {
+      await this.db.insert(schema.userAnswers).values(copies.slice(i, i + EXAM_MIGRATION_CONFIG.insertBatchSize))
+    }
+
+    // A schedule the learner already has on the new question wins
+    const states = questions.size > 0
+      ? await this.db
+        .select()
+        .from(schema.reviewStates)
+        .where(and(eq(schema.reviewStates.userId, userId), inArray(schema.reviewStates.questionId, [...questions.keys()])))
+      : []
+    let carriedStates = 0
+    for (const { id, questionId, createdAt, ...state } of states) {
+      const inserted = await this.db
+        .insert(schema.reviewStates)
+        .values({ ...state, questionId: questions.get(questionId)!, updatedAt: now })
+        .onConflictDoNothing()
+        .returning({ id: schema.reviewStates.id })
+      carriedStates += inserted.length
+    }
+
+    const carriedMastery = this.masteryByTarget(answers, objectives)
+    await this.mergeMastery(userId, toExamId, carriedMastery, now)
+
+    await this.db
+      .insert(schema.userProgress)
+      .values({ userId, examId, migratedAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [schema.userProgress.userId, schema.userProgress.examId],
+        set: { migratedAt: now, updatedAt: now }
+      })
+
+    await this.readiness.recomputeReadiness(userId, toExamId, now)
+
+    return {
+      ok: true,
+      toExamId,
+      carried: { answers: copies.length, reviewStates: carriedStates, objectives: Object.keys(carriedMastery).length }
+    }
+  }
+
+  /**
+   * Smoothed mastery per new objective from every answer on the old version,
+   * including answers on questions that were retired
+   */
+  private masteryByTarget(
+    answers: Array<{ objectiveId: number; isCorrect: boolean; answeredAt: Date | null }>,
+    objectives: Map<number, number>
+  ): ObjectiveMastery {
+    const totals = new Map<number, { correct: number; total: number; lastStudied?: Date }>()
+    for (const answer of answers) {
+      const target = objectives.get(answer.objectiveId)
+      if (target === undefined) continue
+      const current = totals.get(target) ?? { correct: 0, total: 0 }
+      const lastStudied = answer.answeredAt && (!current.lastStudied || answer.answeredAt > current.lastStudied)
+        ? answer.answeredAt
+        : current.lastStudied
+      totals.set(target, { correct: current.correct + (answer.isCorrect ? 1 : 0), total: current.total + 1, lastStudied })
+    }
+
+    return Object.fromEntries([...totals].map(([objectiveId, { correct, total, lastStudied }]) => [String(objectiveId), {
+      level: Number(estimateMastery(correct, total).toFixed(3)),
+      questionsAnswered: total,
+      lastStudied
+    }]))
+  }
+
+  /**
+   * Add carried mastery to the learner's progress on the new version without
+   * replacing mastery they have already built there
+   */
+  private async mergeMastery(userId: number, examId: number, carried: ObjectiveMastery, now: Date) {
+    const [existing] = await this.db
+      .select({ objectiveMastery: schema.userProgress.objectiveMastery })
+      .from(schema.userProgress)
+      .where(and(eq(schema.userProgress.userId, userId), eq(schema.userProgress.examId, examId)))
+      .limit(1)
+
+    const objectiveMastery = { ...carried, ...(existing?.objectiveMastery ?? {}) }
+    await this.db
+      .insert(schema.userProgress)
+      .values({ userId, examId, objectiveMastery, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [schema.userProgress.userId, schema.userProgress.examId],
+        set: { objectiveMastery, updatedAt: now }
+      })
+  }
+
+  /**
+   * Mapped objective and question IDs of an exam, old → new
+   */
+  private async getMappedIds(examId: number) {
+    const rows = await this.db
+      .select({
+        entityType: schema.examVersionMappings.entityType,
+        sourceId: schema.examVersionMappings.sourceId,
+        targetId: schema.examVersionMappings.targetId
+      })
+      .from(schema.examVersionMappings)
+      .where(eq(schema.examVersionMappings.fromExamId, examId))
+
+    const of = (entityType: MappedEntity) => new Map(rows
+      .filter(row => row.entityType === entityType && row.targetId !== null)
+      .map(row => [row.sourceId, row.targetId!]))
+
+    return { objectives: of('objective'), questions: of('question') }
+  }
+
+  private async getContent(examId: number) {
+    const [objectives, questions] = await Promise.all([
+      this.db
+        .select({ id: schema.objectives.id, code: schema.objectives.code, name: schema.objectives.name })
+        .from(schema.objectives)
+        .where(eq(schema.objectives.examId, examId)),
+      this.db
+        .select({ id: schema.questions.id, text: schema.questions.text })
+        .from(schema.questions)
+        .where(eq(schema.questions.examId, examId))
+    ])
+    return { objectives, questions }
+  }
+
+  private async examsExist(...examIds: number[]) {
+    const rows = await this.db
+      .select({ id: schema.exams.id })
+      .from(schema.exams)
+      .where(inArray(schema.exams.id, examIds))
+    return rows.length === new Set(examIds).size
+  }
+}
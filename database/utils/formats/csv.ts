@@ -0,0 +1,176 @@
+// CSV question layout
+// One question per row with a header row; see docs/QUESTION_INTERCHANGE.md
+
+import {
+  answerIdForPosition,
+  CHOICE_TYPES,
+  type ChoiceType,
+  type ParsedQuestionFile,
+  type PortableQuestion
+} from '../question-interchange'
+
+export const CSV_COLUMNS = [
+  'objective_code',
+  'type',
+  'text',
+  'choice_a',
+  'choice_b',
+  'choice_c',
+  'choice_d',
+  'choice_e',
+  'choice_f',
+  'correct',
+  'explanation',
+  'reference',
+  'difficulty',
+  'tags'
+] as const
+
+const CHOICE_COLUMNS = CSV_COLUMNS.filter(column => column.startsWith('choice_'))
+export const CSV_MAX_CHOICES = CHOICE_COLUMNS.length
+const REQUIRED_COLUMNS = ['objective_code', 'text', 'choice_a', 'choice_b', 'correct']
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, doubled quotes and line breaks). Each row keeps its starting line number.
+ */
+export function parseCsvRows(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  const source = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      fields.push(field)
+      if (fields.some(value => value !== '')) rows.push({ line: rowLine, fields })
+      fields = []
+      field = ''
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+
+  fields.push(field)
+  if (fields.some(value => value !== '')) rows.push({ line: rowLine, fields })
+  return rows
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value == null ? '' : String(value)
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function parseCsv(text: string): ParsedQuestionFile {
+  const rows = parseCsvRows(text)
+  if (rows.length === 0) return { questions: [], issues: [{ ref: 'file', errors: ['The file is empty'] }] }
+
+  const header = rows[0].fields.map(name => name.trim().toLowerCase())
+  const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column))
+  if (missing.length > 0) {
+    return { questions: [], issues: [{ ref: 'header', errors: [`Missing columns: ${missing.join(', ')}`] }] }
+  }
+
+  const questions: PortableQuestion[] = []
+  const issues: ParsedQuestionFile['issues'] = []
+
+  for (const row of rows.slice(1)) {
+    const ref = `line ${row.line}`
+    const cell = (column: string) => (row.fields[header.indexOf(column)] ?? '').trim()
+    const errors: string[] = []
+
+    const cells = CHOICE_COLUMNS.map(cell)
+    const lastChoice = cells.reduce((last, choice, index) => (choice ? index : last), -1)
+    const choices = cells.slice(0, lastChoice + 1)
+    if (choices.some(choice => !choice)) errors.push('Choices must be filled in order from choice_a, without gaps')
+    const correct = cell('correct').toLowerCase().split(/[;\s]+/).filter(Boolean)
+    const answerIds = choices.map((_, index) => answerIdForPosition(index))
+
+    const unknown = correct.filter(id => !answerIds.includes(id))
+    if (unknown.length > 0) errors.push(`correct names choices that are empty or missing: ${unknown.join(', ')}`)
+
+    const type = (cell('type') || (correct.length > 1 ? 'multi_select' : 'multiple_choice')) as ChoiceType
+    if (!CHOICE_TYPES.includes(type)) errors.push(`Unsupported type ${type}`)
+
+    const rawDifficulty = cell('difficulty')
+    const difficulty = rawDifficulty ? Number(rawDifficulty) : null
+    if (difficulty !== null && !(Number.isInteger(difficulty) && difficulty >= 1 && difficulty <= 5)) {
+      errors.push('difficulty must be a whole number from 1 to 5')
+    }
+
+    if (errors.length > 0) {
+      issues.push({ ref, errors })
+      continue
+    }
+
+    questions.push({
+      ref,
+      objectiveCode: cell('objective_code'),
+      type,
+      text: cell('text'),
+      answers: choices.map((choice, index) => ({
+        id: answerIds[index],
+        text: choice,
+        isCorrect: correct.includes(answerIds[index])
+      })),
+      explanation: cell('explanation') || null,
+      reference: cell('reference') || null,
+      difficulty,
+      tags: cell('tags').split(';').map(tag => tag.trim()).filter(Boolean)
+    })
+  }
+
+  return { questions, issues }
+}
+
+export function writeCsv(questions: PortableQuestion[]): string {
+  const lines = [CSV_COLUMNS.join(',')]
+
+  for (const question of questions) {
+    const choices = CHOICE_COLUMNS.map((_, index) => question.answers[index]?.text ?? '')
+    const correct = question.answers
+      .map((answer, index) => (answer.isCorrect ? answerIdForPosition(index) : null))
+      .filter(Boolean)
+      .join(';')
+
+    lines.push([
+      question.objectiveCode,
+      question.type,
+      question.text,
+      ...choices,
+      correct,
+      question.explanation,
+      question.reference,
+      question.difficulty,
+      question.tags.join(';')
+    ].map(csvField).join(','))
+  }
+
+  return `${lines.join('\r\n')}\r\n`
+}
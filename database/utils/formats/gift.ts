@@ -0,0 +1,255 @@
+// Moodle GIFT format
+// Supports multiple choice, multiple answer (weighted ~%n%) and true/false questions.
+// $CATEGORY lines carry objective codes; difficulty, tags and references travel in
+// comment tags such as // [difficulty:3] [tag:ospf] [reference:...]
+
+import type { QuestionAnswer } from '../../schema/types'
+import {
+  answerIdForPosition,
+  type ParsedQuestionFile,
+  type PortableQuestion
+} from '../question-interchange'
+
+const SPECIAL = /[~=#{}:\\]/g
+
+const escapeGift = (text: string) => text.replace(SPECIAL, char => `\\${char}`).replace(/\n/g, '\\n')
+
+const unescapeGift = (text: string) => text.replace(/\\(n|[~=#{}:\\])/g, (_, char: string) => (char === 'n' ? '\n' : char))
+
+// Index of the first unescaped occurrence of any of the given characters
+function findUnescaped(text: string, chars: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (chars.includes(text[i])) return i
+  }
+  return -1
+}
+
+function splitUnescaped(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i))
+      start = i + separator.length
+      i += separator.length - 1
+    }
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+interface GiftMetadata {
+  id?: string
+  difficulty?: string
+  reference?: string
+  tags: string[]
+}
+
+interface GiftBlock {
+  line: number
+  text: string
+  category: string | null
+  metadata: GiftMetadata
+}
+
+// Questions are separated by blank lines; comments and $CATEGORY lines sit between them
+function splitBlocks(source: string): GiftBlock[] {
+  const blocks: GiftBlock[] = []
+  let category: string | null = null
+  let metadata: GiftMetadata = { tags: [] }
+  let current: GiftBlock | null = null
+  let depth = 0
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim()
+
+    if (depth === 0 && line.startsWith('//')) {
+      for (const [, key, value] of line.matchAll(/\[(id|tag|difficulty|reference):([^\]]*)\]/g)) {
+        if (key === 'tag') metadata.tags.push(value.trim())
+        else metadata[key as 'id' | 'difficulty' | 'reference'] = value.trim()
+      }
+      return
+    }
+    if (depth === 0 && line.startsWith('$CATEGORY:')) {
+      // Moodle writes paths such as $course$/top/1.1; the last segment is the objective code
+      category = line.slice('$CATEGORY:'.length).trim().split('/').pop()?.trim() || null
+      return
+    }
+    if (depth === 0 && line === '') {
+      current = null
+      return
+    }
+
+    if (!current) {
+      current = { line: index + 1, text: '', category, metadata }
+      metadata = { tags: [] }
+      blocks.push(current)
+    }
+    current.text += (current.text ? '\n' : '') + rawLine
+
+    for (let i = 0; i < rawLine.length; i++) {
+      if (rawLine[i] === '\\') i++
+      else if (rawLine[i] === '{') depth++
+      else if (rawLine[i] === '}') depth = Math.max(0, depth - 1)
+    }
+  })
+
+  return blocks
+}
+
+function parseAnswers(body: string): { type: PortableQuestion['type']; answers: QuestionAnswer[] } | string {
+  const trimmed = body.trim()
+  if (trimmed === '') return 'Essay questions are not supported'
+  if (trimmed.startsWith('#')) return 'Numerical questions are not supported'
+
+  const trueFalse = trimmed.match(/^(T|TRUE|F|FALSE)\b/i)
+  if (trueFalse && findUnescaped(trimmed, '=~') === -1) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T')
+    return {
+      type: 'true_false',
+      answers: [
+        { id: 'a', text: 'True', isCorrect: isTrue },
+        { id: 'b', text: 'False', isCorrect: !isTrue }
+      ]
+    }
+  }
+
+  const starts: number[] = []
+  for (let i = findUnescaped(trimmed, '=~'); i !== -1; i = findUnescaped(trimmed, '=~', i + 1)) starts.push(i)
+  if (starts[0] !== 0) return 'Answers must start with = or ~'
+
+  let weighted = false
+  const answers = starts.map((start, index) => {
+    const raw = trimmed.slice(start + 1, starts[index + 1] ?? trimmed.length).trim()
+    const [content, ...feedback] = splitUnescaped(raw, '#')
+    const weight = content.match(/^%(-?\d+(?:\.\d+)?)%/)
+    if (weight) weighted = true
+
+    const text = unescapeGift((weight ? content.slice(weight[0].length) : content).trim())
+    const explanation = unescapeGift(feedback.join('#').trim())
+    return {
+      marker: trimmed[start],
+      text,
+      isCorrect: trimmed[start] === '=' || (!!weight && Number(weight[1]) > 0),
+      ...(explanation ? { explanation } : {})
+    }
+  })
+
+  if (answers.some(answer => answer.text.includes('->'))) return 'Matching questions are not supported'
+  if (answers.every(answer => answer.marker === '=')) return 'Short answer questions are not supported'
+
+  const correct = answers.filter(answer => answer.isCorrect).length
+  return {
+    // Weighted answers are Moodle's multiple answer type, shown with checkboxes
+    type: correct === 1 && !weighted ? 'multiple_choice' : 'multi_select',
+    answers: answers.map(({ marker: _marker, ...answer }, index) => ({ id: answerIdForPosition(index), ...answer }))
+  }
+}
+
+export function parseGift(source: string): ParsedQuestionFile {
+  const questions: PortableQuestion[] = []
+  const issues: ParsedQuestionFile['issues'] = []
+
+  for (const block of splitBlocks(source)) {
+    let text = block.text.trim()
+    let title: string | null = null
+
+    const titleMatch = text.match(/^::([\s\S]*?)::/)
+    if (titleMatch) {
+      title = unescapeGift(titleMatch[1].trim())
+      text = text.slice(titleMatch[0].length).trim()
+    }
+    const name = title ?? block.metadata.id
+    const ref = name ? `question ${name} (line ${block.line})` : `line ${block.line}`
+
+    const open = findUnescaped(text, '{')
+    const close = open === -1 ? -1 : findUnescaped(text, '}', open + 1)
+    if (open === -1 || close === -1) {
+      issues.push({ ref, errors: ['Missing {answers}'] })
+      continue
+    }
+    if (text.slice(close + 1).trim()) {
+      issues.push({ ref, errors: ['Missing word questions (text after the answers) are not supported'] })
+      continue
+    }
+
+    const [answerBody, ...generalFeedback] = splitUnescaped(text.slice(open + 1, close), '####')
+    const parsed = parseAnswers(answerBody)
+    if (typeof parsed === 'string') {
+      issues.push({ ref, errors: [parsed] })
+      continue
+    }
+
+    const difficulty = block.metadata.difficulty ? Number(block.metadata.difficulty) : null
+    if (difficulty !== null && !(Number.isInteger(difficulty) && difficulty >= 1 && difficulty <= 5)) {
+      issues.push({ ref, errors: ['difficulty must be a whole number from 1 to 5'] })
+      continue
+    }
+
+    questions.push({
+      ref,
+      objectiveCode: block.category ?? '',
+      type: parsed.type,
+      // Markup flags such as [html] or [markdown] are dropped; text is stored as written
+      text: unescapeGift(text.slice(0, open).trim().replace(/^\[(html|markdown|plain|moodle)\]/i, '').trim()),
+      answers: parsed.answers,
+      explanation: unescapeGift(generalFeedback.join('####').trim()) || null,
+      reference: block.metadata.reference || null,
+      difficulty,
+      tags: block.metadata.tags
+    })
+  }
+
+  return { questions, issues }
+}
+
+const percent = (value: number) => `%${Number(value.toFixed(5))}%`
+
+function writeAnswers(question: PortableQuestion): string[] {
+  const isTrueFalse = question.type === 'true_false' && question.answers.length === 2 &&
+    question.answers.every(answer => ['true', 'false'].includes(answer.text.trim().toLowerCase()))
+  if (isTrueFalse) {
+    const correct = question.answers.find(answer => answer.isCorrect)
+    return [correct?.text.trim().toLowerCase() === 'true' ? 'TRUE' : 'FALSE']
+  }
+
+  const correctCount = question.answers.filter(answer => answer.isCorrect).length
+  return question.answers.map(answer => {
+    const feedback = answer.explanation ? `#${escapeGift(answer.explanation)}` : ''
+    if (question.type !== 'multi_select') return `${answer.isCorrect ? '=' : '~'}${escapeGift(answer.text)}${feedback}`
+    // Correct answers share the marks; picking a wrong one cancels them
+    return `~${percent(answer.isCorrect ? 100 / correctCount : -100)}${escapeGift(answer.text)}${feedback}`
+  })
+}
+
+export function writeGift(questions: PortableQuestion[]): string {
+  const blocks: string[] = []
+  let category: string | null = null
+
+  for (const question of questions) {
+    if (question.objectiveCode !== category) {
+      category = question.objectiveCode
+      blocks.push(`$CATEGORY: ${category}`)
+    }
+
+    const metadata = [
+      question.difficulty ? `[difficulty:${question.difficulty}]` : '',
+      ...question.tags.map(tag => `[tag:${tag.replace(/\]/g, '')}]`),
+      question.reference ? `[reference:${question.reference.replace(/\]/g, '')}]` : ''
+    ].filter(Boolean)
+
+    const answers = writeAnswers(question)
+    const lines = [
+      ...(metadata.length ? [`// ${metadata.join(' ')}`] : []),
+      `::${escapeGift(question.ref)}::${escapeGift(question.text)} {`,
+      ...answers.map(answer => `\t${answer}`),
+      ...(question.explanation ? [`\t####${escapeGift(question.explanation)}`] : []),
+      '}'
+    ]
+    blocks.push(lines.join('\n'))
+  }
+
+  return `${blocks.join('\n\n')}\n`
+}
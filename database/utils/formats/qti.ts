@@ -0,0 +1,270 @@
+// IMS QTI 2.1 content packages
+// Items are choiceInteraction assessmentItems; objective codes, difficulty, tags and
+// references travel as IEEE LOM metadata on each resource in imsmanifest.xml
+
+import {
+  answerIdForPosition,
+  type ParsedQuestionFile,
+  type PortableQuestion
+} from '../question-interchange'
+import { parseXml, escapeXml, childElements, firstChild, findAll, textContent, tidyText, type XmlElement } from './xml'
+import { readZip, writeZip, isZip } from './zip'
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1'
+const ITEM_RESOURCE_TYPE = 'imsqti_item_xmlv2p1'
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct'
+
+// LOM educational difficulty vocabulary, easiest first
+const LOM_DIFFICULTY = ['very easy', 'easy', 'medium', 'difficult', 'very difficult']
+const OBJECTIVE_PURPOSE = 'educational objective'
+
+interface ItemMetadata {
+  objectiveCode: string
+  difficulty: number | null
+  reference: string | null
+  tags: string[]
+}
+
+const emptyMetadata = (): ItemMetadata => ({ objectiveCode: '', difficulty: null, reference: null, tags: [] })
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+const lomText = (element: XmlElement | undefined) => (element ? tidyText(textContent(element)) : '')
+
+function readLomMetadata(resource: XmlElement): ItemMetadata {
+  const metadata = emptyMetadata()
+  const lom = findAll(resource, 'lom')[0]
+  if (!lom) return metadata
+
+  metadata.tags = findAll(lom, 'keyword').map(lomText).filter(Boolean)
+
+  const difficulty = findAll(lom, 'difficulty')[0]
+  const level = LOM_DIFFICULTY.indexOf(lomText(difficulty && firstChild(difficulty, 'value')).toLowerCase())
+  metadata.difficulty = level === -1 ? null : level + 1
+
+  const relation = findAll(lom, 'relation')[0]
+  metadata.reference = lomText(relation && findAll(relation, 'description')[0]) || null
+
+  for (const classification of findAll(lom, 'classification')) {
+    const purpose = firstChild(classification, 'purpose')
+    if (lomText(purpose && firstChild(purpose, 'value')).toLowerCase() !== OBJECTIVE_PURPOSE) continue
+    const taxon = findAll(classification, 'taxon')[0]
+    metadata.objectiveCode = lomText(taxon && (firstChild(taxon, 'id') ?? firstChild(taxon, 'entry')))
+  }
+  return metadata
+}
+
+function readItem(item: XmlElement, metadata: ItemMetadata, fallbackRef: string): PortableQuestion | ParsedQuestionFile['issues'][number] {
+  const ref = item.attributes.identifier ? `item ${item.attributes.identifier}` : fallbackRef
+  if (item.name !== 'assessmentItem') return { ref, errors: ['Not a QTI assessmentItem'] }
+
+  const body = firstChild(item, 'itemBody')
+  const interactions = body ? findAll(body, 'choiceInteraction') : []
+  const unsupported = body
+    ? [...new Set(collectInteractionNames(body).filter(name => name !== 'choiceInteraction'))]
+    : []
+
+  if (unsupported.length > 0) return { ref, errors: [`Unsupported interaction: ${unsupported.join(', ')}`] }
+  if (interactions.length !== 1) return { ref, errors: ['Items must contain exactly one choiceInteraction'] }
+
+  const interaction = interactions[0]
+  const declaration = childElements(item, 'responseDeclaration')
+    .find(element => element.attributes.identifier === interaction.attributes.responseIdentifier)
+  if (!declaration) return { ref, errors: [`No responseDeclaration for ${interaction.attributes.responseIdentifier}`] }
+
+  const correctResponse = firstChild(declaration, 'correctResponse')
+  const correctIds = correctResponse ? childElements(correctResponse, 'value').map(value => textContent(value).trim()) : []
+
+  const choices = childElements(interaction, 'simpleChoice')
+  const answers = choices.map((choice, index) => {
+    const feedback = childElements(choice, 'feedbackInline').map(lomText).filter(Boolean).join('\n')
+    return {
+      id: answerIdForPosition(index),
+      text: tidyText(textContent(choice, ['feedbackInline'])),
+      isCorrect: correctIds.includes(choice.attributes.identifier),
+      ...(feedback ? { explanation: feedback } : {})
+    }
+  })
+
+  const prompt = firstChild(interaction, 'prompt')
+  const text = [tidyText(textContent(body!, ['choiceInteraction'])), lomText(prompt)].filter(Boolean).join('\n')
+
+  const multiple = declaration.attributes.cardinality === 'multiple' || interaction.attributes.maxChoices !== '1'
+  const trueFalse = answers.length === 2 && answers.every(answer => ['true', 'false'].includes(answer.text.toLowerCase()))
+
+  return {
+    ref,
+    ...metadata,
+    type: multiple ? 'multi_select' : trueFalse ? 'true_false' : 'multiple_choice',
+    text,
+    answers,
+    explanation: childElements(item, 'modalFeedback').map(lomText).filter(Boolean).join('\n') || null
+  }
+}
+
+function collectInteractionNames(element: XmlElement): string[] {
+  return childElements(element).flatMap(child => [
+    ...(child.name.endsWith('Interaction') ? [child.name] : []),
+    ...collectInteractionNames(child)
+  ])
+}
+
+/**
+ * Read a QTI 2.1 content package, or a single assessmentItem document
+ */
+export async function parseQti(data: Uint8Array): Promise<ParsedQuestionFile> {
+  const questions: PortableQuestion[] = []
+  const issues: ParsedQuestionFile['issues'] = []
+  const decoder = new TextDecoder()
+
+  const collect = (source: string, metadata: ItemMetadata, ref: string) => {
+    try {
+      const result = readItem(parseXml(source), metadata, ref)
+      if ('errors' in result) issues.push(result)
+      else questions.push(result)
+    } catch (error) {
+      issues.push({ ref, errors: [`Malformed XML: ${error instanceof Error ? error.message : String(error)}`] })
+    }
+  }
+
+  if (!isZip(data)) {
+    collect(decoder.decode(data), emptyMetadata(), 'file')
+    return { questions, issues }
+  }
+
+  let files: Map<string, Uint8Array>
+  try {
+    files = new Map((await readZip(data)).map(entry => [entry.name, entry.data]))
+  } catch (error) {
+    return { questions, issues: [{ ref: 'package', errors: [error instanceof Error ? error.message : String(error)] }] }
+  }
+
+  const manifestSource = files.get('imsmanifest.xml')
+  if (!manifestSource) return { questions, issues: [{ ref: 'package', errors: ['Missing imsmanifest.xml'] }] }
+
+  let manifest: XmlElement
+  try {
+    manifest = parseXml(decoder.decode(manifestSource))
+  } catch (error) {
+    return { questions, issues: [{ ref: 'imsmanifest.xml', errors: [`Malformed XML: ${error instanceof Error ? error.message : String(error)}`] }] }
+  }
+
+  for (const resource of findAll(manifest, 'resource')) {
+    if (!resource.attributes.type?.startsWith('imsqti_item_xmlv2p')) continue
+
+    const href = resource.attributes.href
+    const ref = `resource ${resource.attributes.identifier ?? href}`
+    const source = href ? files.get(href) : undefined
+    if (!source) {
+      issues.push({ ref, errors: [`Missing item file ${href ?? ''}`.trim()] })
+      continue
+    }
+    collect(decoder.decode(source), readLomMetadata(resource), ref)
+  }
+
+  if (questions.length === 0 && issues.length === 0) {
+    issues.push({ ref: 'package', errors: ['The package contains no QTI items'] })
+  }
+  return { questions, issues }
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+// QTI identifiers must be XML names
+const identifierFor = (ref: string) => (/^[A-Za-z_]/.test(ref) ? ref : `Q${ref}`).replace(/[^\w.-]/g, '_')
+
+function writeItem(question: PortableQuestion, identifier: string): string {
+  const correct = question.answers
+    .map((answer, index) => (answer.isCorrect ? answerIdForPosition(index) : null))
+    .filter((id): id is string => id !== null)
+  const multiple = question.type === 'multi_select'
+
+  const choices = question.answers.map((answer, index) => {
+    const id = answerIdForPosition(index)
+    const feedback = answer.explanation
+      ? `<feedbackInline outcomeIdentifier="FEEDBACK" identifier="${id}" showHide="show">${escapeXml(answer.explanation)}</feedbackInline>`
+      : ''
+    return `      <simpleChoice identifier="${id}">${escapeXml(answer.text)}${feedback}</simpleChoice>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${escapeXml(identifier)}" adaptive="false" timeDependent="false">`,
+    `  <responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">`,
+    '    <correctResponse>',
+    ...correct.map(id => `      <value>${id}</value>`),
+    '    </correctResponse>',
+    '  </responseDeclaration>',
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+    '  <itemBody>',
+    `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${multiple ? 0 : 1}">`,
+    `      <prompt>${escapeXml(question.text)}</prompt>`,
+    ...choices,
+    '    </choiceInteraction>',
+    '  </itemBody>',
+    `  <responseProcessing template="${MATCH_CORRECT}"/>`,
+    ...(question.explanation
+      ? [`  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(question.explanation)}</modalFeedback>`]
+      : []),
+    '</assessmentItem>',
+    ''
+  ].join('\n')
+}
+
+const lomVocabulary = (element: string, value: string) =>
+  `<imsmd:${element}><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${value}</imsmd:value></imsmd:${element}>`
+
+function writeResource(question: PortableQuestion, identifier: string, href: string): string {
+  const lom = [
+    '<imsmd:general>',
+    ...question.tags.map(tag => `<imsmd:keyword><imsmd:string>${escapeXml(tag)}</imsmd:string></imsmd:keyword>`),
+    '</imsmd:general>',
+    ...(question.difficulty
+      ? [`<imsmd:educational>${lomVocabulary('difficulty', LOM_DIFFICULTY[question.difficulty - 1])}</imsmd:educational>`]
+      : []),
+    ...(question.reference
+      ? [`<imsmd:relation>${lomVocabulary('kind', 'isbasedon')}<imsmd:resource><imsmd:description><imsmd:string>${escapeXml(question.reference)}</imsmd:string></imsmd:description></imsmd:resource></imsmd:relation>`]
+      : []),
+    `<imsmd:classification>${lomVocabulary('purpose', OBJECTIVE_PURPOSE)}<imsmd:taxonPath><imsmd:source><imsmd:string>objectives</imsmd:string></imsmd:source><imsmd:taxon><imsmd:id>${escapeXml(question.objectiveCode)}</imsmd:id></imsmd:taxon></imsmd:taxonPath></imsmd:classification>`
+  ]
+
+  return [
+    `    <resource identifier="${identifier}" type="${ITEM_RESOURCE_TYPE}" href="${href}">`,
+    `      <metadata><imsmd:lom>${lom.join('')}</imsmd:lom></metadata>`,
+    `      <file href="${href}"/>`,
+    '    </resource>'
+  ].join('\n')
+}
+
+/**
+ * Build a QTI 2.1 content package with one item file per question
+ */
+export function writeQti(questions: PortableQuestion[], packageId = 'pingtopass-export'): Uint8Array {
+  const encoder = new TextEncoder()
+  const resources: string[] = []
+  const entries = questions.map(question => {
+    const identifier = identifierFor(question.ref)
+    const href = `items/${identifier}.xml`
+    resources.push(writeResource(question, identifier, href))
+    return { name: href, data: encoder.encode(writeItem(question, identifier)) }
+  })
+
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="${identifierFor(packageId)}">`,
+    '  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+    '  <organizations/>',
+    '  <resources>',
+    ...resources,
+    '  </resources>',
+    '</manifest>',
+    ''
+  ].join('\n')
+
+  return writeZip([{ name: 'imsmanifest.xml', data: encoder.encode(manifest) }, ...entries])
+}
@@ -0,0 +1,111 @@
+// Minimal XML reader and writer for question interchange
+// Handles the well-formed documents QTI tools produce; no DTDs or external entities
+
+export interface XmlElement {
+  name: string // Local name, namespace prefix removed
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const localName = (qualified: string) => qualified.slice(qualified.indexOf(':') + 1)
+
+/**
+ * Parse a document into its root element. Throws on malformed markup.
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+  let position = 0
+
+  const appendText = (raw: string) => {
+    if (raw.includes('<')) throw new Error('Malformed markup')
+    if (raw) stack[stack.length - 1].children.push(decodeEntities(raw))
+  }
+
+  for (let match = tagPattern.exec(source); match; match = tagPattern.exec(source)) {
+    appendText(source.slice(position, match.index))
+    position = tagPattern.lastIndex
+
+    const [, cdata, closing, opening, rawAttributes, selfClosing] = match
+    if (cdata !== undefined) {
+      if (cdata) stack[stack.length - 1].children.push(cdata)
+    } else if (closing) {
+      const open = stack.pop()
+      if (!open || open === root || open.name !== localName(closing)) {
+        throw new Error(`Unexpected closing tag </${closing}>`)
+      }
+    } else if (opening) {
+      const attributes: Record<string, string> = {}
+      for (const [, name, doubleQuoted, singleQuoted] of rawAttributes.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted)
+      }
+      const element: XmlElement = { name: localName(opening), attributes, children: [] }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing) stack.push(element)
+    }
+  }
+
+  appendText(source.slice(position))
+  if (stack.length > 1) throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`)
+
+  const element = root.children.find((child): child is XmlElement => typeof child !== 'string')
+  if (!element) throw new Error('Document has no root element')
+  return element
+}
+
+export const childElements = (element: XmlElement, name?: string): XmlElement[] =>
+  element.children.filter((child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name))
+
+export const firstChild = (element: XmlElement, name: string): XmlElement | undefined =>
+  childElements(element, name)[0]
+
+/**
+ * Depth-first search for descendants with a local name
+ */
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+  return childElements(element).flatMap(child => [...(child.name === name ? [child] : []), ...findAll(child, name)])
+}
+
+/**
+ * Text content with markup removed; block elements become line breaks.
+ * Elements named in skip are left out entirely.
+ */
+export function textContent(node: XmlNode, skip: string[] = []): string {
+  if (typeof node === 'string') return node
+  if (skip.includes(node.name)) return ''
+
+  const inner = node.children.map(child => textContent(child, skip)).join('')
+  return ['p', 'div', 'br', 'li'].includes(node.name) ? `${inner}\n` : inner
+}
+
+// Collapse runs of spaces while keeping paragraph breaks
+export function tidyText(text: string): string {
+  return text
+    .split(/\n\s*\n|\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
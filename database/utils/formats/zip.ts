@@ -0,0 +1,162 @@
+// Minimal ZIP archive support for QTI content packages
+// Reads stored and deflated entries; writes stored entries. Uses web streams so
+// it runs on the edge runtime as well as in Node.
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+export const ZIP_LIMITS = {
+  maxEntries: 5000,
+  // Guards against archives that inflate far beyond their upload size
+  maxUncompressedBytes: 50 * 1024 * 1024
+} as const
+
+const SIGNATURES = {
+  localFile: 0x04034b50,
+  centralDirectory: 0x02014b50,
+  endOfCentralDirectory: 0x06054b50
+} as const
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+async function inflateRaw(data: Uint8Array, expectedSize: number): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  const inflated = new Uint8Array(await new Response(stream).arrayBuffer())
+  if (inflated.length !== expectedSize) throw new Error('Archive entry size does not match its header')
+  return inflated
+}
+
+export function isZip(data: Uint8Array): boolean {
+  return data.length >= 4 && new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === SIGNATURES.localFile
+}
+
+/**
+ * Read every file in an archive. Directories are skipped.
+ */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const decoder = new TextDecoder()
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+  let end = -1
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === SIGNATURES.endOfCentralDirectory) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) throw new Error('Not a ZIP archive')
+
+  const entryCount = view.getUint16(end + 10, true)
+  if (entryCount > ZIP_LIMITS.maxEntries) throw new Error(`Archive has more than ${ZIP_LIMITS.maxEntries} entries`)
+
+  const entries: ZipEntry[] = []
+  let totalSize = 0
+  let offset = view.getUint32(end + 16, true)
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== SIGNATURES.centralDirectory) throw new Error('Corrupt central directory')
+
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    totalSize += size
+    if (totalSize > ZIP_LIMITS.maxUncompressedBytes) throw new Error('Archive is too large once extracted')
+
+    if (view.getUint32(localOffset, true) !== SIGNATURES.localFile) throw new Error(`Corrupt entry ${name}`)
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const raw = data.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === 0) entries.push({ name, data: raw })
+    else if (method === 8) entries.push({ name, data: await inflateRaw(raw, size) })
+    else throw new Error(`Entry ${name} uses unsupported compression method ${method}`)
+  }
+
+  return entries
+}
+
+/**
+ * Build an archive of uncompressed entries
+ */
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+
+    const local = new Uint8Array(30 + name.length + entry.data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, SIGNATURES.localFile, true)
+    localView.setUint16(4, 20, true) // Version needed
+    localView.setUint16(6, 0x0800, true) // UTF-8 names
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, entry.data.length, true)
+    localView.setUint32(22, entry.data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(entry.data, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, SIGNATURES.centralDirectory, true)
+    centralView.setUint16(4, 20, true) // Version made by
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, 0x0800, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, entry.data.length, true)
+    centralView.setUint32(24, entry.data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const centralSize = centrals.reduce((sum, central) => sum + central.length, 0)
+  const endRecord = new Uint8Array(22)
+  const endView = new DataView(endRecord.buffer)
+  endView.setUint32(0, SIGNATURES.endOfCentralDirectory, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const archive = new Uint8Array(offset + centralSize + endRecord.length)
+  let position = 0
+  for (const part of [...locals, ...centrals, endRecord]) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive
+}
@@ -0,0 +1,81 @@
+// Answer grading shared by study sessions and test attempts
+// selectedAnswer is stored as 'a' or '["a", "c"]' for multi-select, and as a
+// JSON payload for drag-and-drop, hotspot and simulation questions
+
+import type { QuestionType, QuestionAnswer, QuestionDiagram } from '../schema/types'
+import { isInteractiveType, scoreInteractiveAnswer, redactDiagram } from './interactive-questions'
+
+export interface GradableQuestion {
+  type: QuestionType | null
+  answers: QuestionAnswer[]
+  diagramData?: QuestionDiagram | null
+}
+
+export interface GradeResult {
+  isCorrect: boolean
+  credit: number // 0-1
+}
+
+/**
+ * Parse a stored selectedAnswer into answer IDs
+ */
+export function parseSelectedAnswer(selectedAnswer: string): string[] {
+  const trimmed = selectedAnswer.trim()
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      return Array.isArray(parsed) ? parsed.map(String) : []
+    } catch {
+      return []
+    }
+  }
+  return trimmed ? [trimmed] : []
+}
+
+/**
+ * Grade a selected answer for the question type. Choice questions are
+ * all-or-nothing; interactive ones may award partial credit.
+ */
+export function scoreResponse(question: GradableQuestion, selectedAnswer: string): GradeResult {
+  if (isInteractiveType(question.type)) {
+    const credit = question.diagramData ? scoreInteractiveAnswer(question.diagramData, selectedAnswer) : 0
+    return { isCorrect: credit === 1, credit }
+  }
+
+  const correctAnswers = question.answers.filter(a => a.isCorrect).map(a => a.id)
+  const selected = parseSelectedAnswer(selectedAnswer)
+
+  let isCorrect = false
+  switch (question.type ?? 'multiple_choice') {
+    case 'multiple_choice':
+    case 'true_false':
+      isCorrect = selected.length === 1 && correctAnswers.includes(selected[0])
+      break
+    case 'multi_select':
+      isCorrect = selected.length === correctAnswers.length &&
+        selected.every(id => correctAnswers.includes(id))
+      break
+  }
+  return { isCorrect, credit: isCorrect ? 1 : 0 }
+}
+
+/**
+ * Determine whether a selected answer is fully correct for the question type
+ */
+export function gradeAnswer(question: GradableQuestion, selectedAnswer: string): boolean {
+  return scoreResponse(question, selectedAnswer).isCorrect
+}
+
+/**
+ * Strip answer keys and explanations before sending a question to a learner
+ */
+export function redactAnswers(answers: QuestionAnswer[]) {
+  return answers.map(({ id, text }) => ({ id, text }))
+}
+
+/**
+ * A question's learner-facing content: answers and diagram without the key
+ */
+export function redactQuestion<T extends { answers: QuestionAnswer[]; diagramData?: QuestionDiagram | null }>(question: T) {
+  return { ...question, answers: redactAnswers(question.answers), diagramData: redactDiagram(question.diagramData) }
+}
@@ -0,0 +1,25 @@
+// Small non-cryptographic hashes for fingerprints and cache keys
+// Stable across runtimes, so values can be stored and compared later
+
+// FNV-1a over UTF-16 code units
+export function fnv1a(value: string): number {
+  let result = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i)
+    result = Math.imul(result, 0x01000193)
+  }
+  return result >>> 0
+}
+
+// MurmurHash3 finalizer: spreads a 32-bit value so nearby inputs land far apart
+export function fmix32(value: number): number {
+  let h = value >>> 0
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+export const hashHex = (value: string) => fnv1a(value).toString(16).padStart(8, '0')
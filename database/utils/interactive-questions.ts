@@ -0,0 +1,318 @@
+// Drag-and-drop, hotspot and simulation questions for PingToPass
+// Authoring schemas, learner answer payloads, grading and redaction
+
+import { z } from 'zod'
+import type {
+  QuestionType,
+  QuestionAnswer,
+  QuestionDiagram,
+  OrderingDiagram,
+  MatchingDiagram,
+  HotspotDiagram,
+  HotspotRegion
+} from '../schema/types'
+import {
+  simulationDiagramSchema,
+  simulationResponseSchema,
+  validateSimulationDiagram,
+  scoreSimulation,
+  redactSimulation
+} from './cli-simulator'
+
+export const INTERACTIVE_CONFIG = {
+  minItems: 2,
+  maxItems: 12,
+  maxRegions: 20,
+  // More clicks than this is guessing, not answering
+  maxHotspotPoints: 10
+} as const
+
+export type InteractiveType = Extract<QuestionType, 'drag_drop' | 'hotspot' | 'simulation'>
+
+export function isInteractiveType(type: QuestionType | null): type is InteractiveType {
+  return type === 'drag_drop' || type === 'hotspot' || type === 'simulation'
+}
+
+const itemSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().min(1)
+})
+
+const itemsSchema = z.array(itemSchema).min(INTERACTIVE_CONFIG.minItems).max(INTERACTIVE_CONFIG.maxItems)
+
+const orderingDiagramSchema = z.object({
+  kind: z.literal('ordering'),
+  items: itemsSchema,
+  correctOrder: z.array(z.string()),
+  partialCredit: z.boolean().optional()
+})
+
+const matchingDiagramSchema = z.object({
+  kind: z.literal('matching'),
+  items: itemsSchema,
+  targets: z.array(itemSchema).min(1).max(INTERACTIVE_CONFIG.maxItems),
+  correctMatches: z.record(z.string()),
+  partialCredit: z.boolean().optional()
+})
+
+const regionSchema = z.object({
+  id: z.string().min(1),
+  shape: z.enum(['rect', 'circle', 'polygon']),
+  coords: z.array(z.number().nonnegative()),
+  isCorrect: z.boolean(),
+  label: z.string().optional()
+})
+
+const hotspotDiagramSchema = z.object({
+  kind: z.literal('hotspot'),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  regions: z.array(regionSchema).min(1).max(INTERACTIVE_CONFIG.maxRegions),
+  partialCredit: z.boolean().optional()
+})
+
+export const diagramSchema = z.discriminatedUnion('kind', [
+  orderingDiagramSchema,
+  matchingDiagramSchema,
+  hotspotDiagramSchema,
+  simulationDiagramSchema
+])
+
+// Learner answers, stored as JSON in user_answers.selectedAnswer
+export const orderingResponseSchema = z.object({ order: z.array(z.string()).max(INTERACTIVE_CONFIG.maxItems) })
+export const matchingResponseSchema = z.object({ matches: z.record(z.string()) })
+export const hotspotResponseSchema = z.object({
+  points: z.array(z.object({ x: z.number(), y: z.number() })).max(INTERACTIVE_CONFIG.maxHotspotPoints)
+})
+
+export type OrderingResponse = z.infer<typeof orderingResponseSchema>
+export type MatchingResponse = z.infer<typeof matchingResponseSchema>
+export type HotspotResponse = z.infer<typeof hotspotResponseSchema>
+
+// Which payload each diagram kind accepts
+export const responseSchemas = {
+  ordering: orderingResponseSchema,
+  matching: matchingResponseSchema,
+  hotspot: hotspotResponseSchema,
+  simulation: simulationResponseSchema
+} as const
+
+export interface QuestionContent {
+  type: QuestionType | null
+  answers: QuestionAnswer[]
+  imageUrl?: string | null
+  diagramData?: unknown
+}
+
+const hasDuplicates = (ids: string[]) => new Set(ids).size !== ids.length
+
+function regionShapeError(region: HotspotRegion): string | null {
+  const { shape, coords } = region
+  if (shape === 'rect' && coords.length !== 4) return `Region ${region.id}: a rect needs [x, y, width, height]`
+  if (shape === 'circle' && coords.length !== 3) return `Region ${region.id}: a circle needs [cx, cy, r]`
+  if (shape === 'polygon' && (coords.length < 6 || coords.length % 2 !== 0)) {
+    return `Region ${region.id}: a polygon needs at least three x, y pairs`
+  }
+  return null
+}
+
+/**
+ * Check that a question's content can be delivered and graded for its type.
+ * Returns a list of problems for the author; empty when the question is valid.
+ */
+export function validateQuestionContent(question: QuestionContent): string[] {
+  const type = question.type ?? 'multiple_choice'
+
+  if (!isInteractiveType(type)) {
+    const errors: string[] = []
+    const correct = question.answers.filter(answer => answer.isCorrect).length
+    if (question.answers.length < 2) errors.push('At least two answers are required')
+    if (hasDuplicates(question.answers.map(answer => answer.id))) errors.push('Answer IDs must be unique')
+    if (type === 'multi_select' ? correct < 1 : correct !== 1) {
+      errors.push(type === 'multi_select' ? 'At least one answer must be correct' : 'Exactly one answer must be correct')
+    }
+    if (question.diagramData != null) errors.push(`${type} questions do not take diagram data`)
+    return errors
+  }
+
+  const parsed = diagramSchema.safeParse(question.diagramData)
+  if (!parsed.success) {
+    return parsed.error.errors.map(issue => `diagramData${issue.path.length ? '.' + issue.path.join('.') : ''}: ${issue.message}`)
+  }
+
+  const diagram = parsed.data
+  if (type === 'simulation' && diagram.kind !== 'simulation') return ['Simulation questions need a simulation diagram']
+  if (type === 'drag_drop' && diagram.kind !== 'ordering' && diagram.kind !== 'matching') {
+    return ['Drag-and-drop questions need an ordering or matching diagram']
+  }
+  if (type === 'hotspot' && diagram.kind !== 'hotspot') return ['Hotspot questions need a hotspot diagram']
+
+  switch (diagram.kind) {
+    case 'ordering': {
+      const itemIds = diagram.items.map(item => item.id)
+      const errors: string[] = []
+      if (hasDuplicates(itemIds)) errors.push('Item IDs must be unique')
+      if (diagram.correctOrder.length !== itemIds.length || hasDuplicates(diagram.correctOrder) ||
+        !diagram.correctOrder.every(id => itemIds.includes(id))) {
+        errors.push('correctOrder must list every item exactly once')
+      }
+      return errors
+    }
+    case 'matching': {
+      const itemIds = diagram.items.map(item => item.id)
+      const targetIds = diagram.targets.map(target => target.id)
+      const errors: string[] = []
+      if (hasDuplicates(itemIds)) errors.push('Item IDs must be unique')
+      if (hasDuplicates(targetIds)) errors.push('Target IDs must be unique')
+      for (const itemId of itemIds) {
+        const targetId = diagram.correctMatches[itemId]
+        if (!targetId) errors.push(`Item ${itemId} has no correct target`)
+        else if (!targetIds.includes(targetId)) errors.push(`Item ${itemId} matches unknown target ${targetId}`)
+      }
+      for (const itemId of Object.keys(diagram.correctMatches)) {
+        if (!itemIds.includes(itemId)) errors.push(`correctMatches references unknown item ${itemId}`)
+      }
+      return errors
+    }
+    case 'hotspot': {
+      const errors: string[] = []
+      if (!question.imageUrl) errors.push('Hotspot questions need an imageUrl')
+      if (hasDuplicates(diagram.regions.map(region => region.id))) errors.push('Region IDs must be unique')
+      if (!diagram.regions.some(region => region.isCorrect)) errors.push('At least one region must be correct')
+      for (const region of diagram.regions) {
+        const shapeError = regionShapeError(region)
+        if (shapeError) errors.push(shapeError)
+      }
+      return errors
+    }
+    case 'simulation':
+      return validateSimulationDiagram(diagram)
+  }
+}
+
+/**
+ * Whether a point falls inside a hotspot region (edges count as inside)
+ */
+export function regionContains(region: HotspotRegion, point: { x: number; y: number }): boolean {
+  const { coords } = region
+
+  switch (region.shape) {
+    case 'rect': {
+      const [x, y, width, height] = coords
+      return point.x >= x && point.x <= x + width && point.y >= y && point.y <= y + height
+    }
+    case 'circle': {
+      const [cx, cy, r] = coords
+      return (point.x - cx) ** 2 + (point.y - cy) ** 2 <= r ** 2
+    }
+    case 'polygon': {
+      // Ray casting
+      let inside = false
+      for (let i = 0, j = coords.length - 2; i < coords.length; j = i, i += 2) {
+        const [xi, yi, xj, yj] = [coords[i], coords[i + 1], coords[j], coords[j + 1]]
+        if ((yi > point.y) !== (yj > point.y) && point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi) {
+          inside = !inside
+        }
+      }
+      return inside
+    }
+  }
+}
+
+function parseResponse<T>(schema: z.ZodType<T>, selectedAnswer: string): T | null {
+  try {
+    const parsed = schema.safeParse(JSON.parse(selectedAnswer))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+function scoreOrdering(diagram: OrderingDiagram, response: OrderingResponse): number {
+  const inPlace = diagram.correctOrder.filter((id, index) => response.order[index] === id).length
+  return inPlace / diagram.correctOrder.length
+}
+
+function scoreMatching(diagram: MatchingDiagram, response: MatchingResponse): number {
+  const itemIds = diagram.items.map(item => item.id)
+  const matched = itemIds.filter(id => response.matches[id] === diagram.correctMatches[id]).length
+  return matched / itemIds.length
+}
+
+function scoreHotspot(diagram: HotspotDiagram, response: HotspotResponse): number {
+  const correctRegions = diagram.regions.filter(region => region.isCorrect)
+  const hit = new Set<string>()
+  let misses = 0
+
+  for (const point of response.points) {
+    const region = correctRegions.find(r => regionContains(r, point))
+    if (region) hit.add(region.id)
+    else misses += 1
+  }
+
+  // Clicks outside the correct regions cancel out hits, so clicking everywhere earns nothing
+  return Math.max(0, (hit.size - misses) / correctRegions.length)
+}
+
+/**
+ * Score an interactive answer. Full marks are 1; without partial
+ * credit anything short of a perfect answer scores 0. Malformed payloads score 0.
+ */
+export function scoreInteractiveAnswer(diagram: QuestionDiagram, selectedAnswer: string): number {
+  let raw = 0
+
+  switch (diagram.kind) {
+    case 'ordering': {
+      const response = parseResponse(orderingResponseSchema, selectedAnswer)
+      raw = response ? scoreOrdering(diagram, response) : 0
+      break
+    }
+    case 'matching': {
+      const response = parseResponse(matchingResponseSchema, selectedAnswer)
+      raw = response ? scoreMatching(diagram, response) : 0
+      break
+    }
+    case 'hotspot': {
+      const response = parseResponse(hotspotResponseSchema, selectedAnswer)
+      raw = response ? scoreHotspot(diagram, response) : 0
+      break
+    }
+    case 'simulation': {
+      const response = parseResponse(simulationResponseSchema, selectedAnswer)
+      raw = response ? scoreSimulation(diagram, response) : 0
+      break
+    }
+  }
+
+  if (raw >= 1) return 1
+  return diagram.partialCredit ? Number(raw.toFixed(4)) : 0
+}
+
+/**
+ * The diagram as a learner sees it before answering: items shuffled and
+ * no answer key. Hotspot regions are dropped entirely; learners click the image.
+ */
+export function redactDiagram(diagram: QuestionDiagram | null | undefined) {
+  if (!diagram) return null
+
+  switch (diagram.kind) {
+    case 'ordering':
+      return { kind: diagram.kind, items: shuffle(diagram.items) }
+    case 'matching':
+      return { kind: diagram.kind, items: shuffle(diagram.items), targets: diagram.targets }
+    case 'hotspot':
+      return { kind: diagram.kind, width: diagram.width, height: diagram.height, maxPoints: diagram.regions.filter(r => r.isCorrect).length }
+    case 'simulation':
+      return redactSimulation(diagram)
+  }
+}
+
+// Items must not arrive in answer order
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items]
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[copy[i], copy[j]] = [copy[j], copy[i]]
+  }
+  return copy
+}
@@ -0,0 +1,85 @@
+// Outgoing account email for PingToPass
+// Messages are built here and handed to a MailTransport: Resend in production,
+// a file outbox or the console in local development, an in-memory outbox in tests.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+/**
+ * Keeps every message in `outbox`; for tests that need to follow a mailed link
+ */
+export class MemoryMailTransport implements MailTransport {
+  readonly outbox: MailMessage[] = []
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push(message)
+  }
+
+  // Most recent message to an address
+  latest(to: string): MailMessage | undefined {
+    return this.outbox.filter(message => message.to === to).at(-1)
+  }
+}
+
+/**
+ * Prints messages instead of sending them, so links can be copied from the dev server log
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.info(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+export function verificationEmail(params: { to: string; name: string; url: string; expiresInHours: number }): MailMessage {
+  return {
+    to: params.to,
+    subject: 'Confirm your PingToPass email address',
+    text: [
+      `Hi ${params.name},`,
+      '',
+      'Confirm your email address to finish setting up your PingToPass account:',
+      params.url,
+      '',
+      `The link expires in ${params.expiresInHours} hours. If you did not sign up, you can ignore this email.`
+    ].join('\n')
+  }
+}
+
+export function passwordResetEmail(params: { to: string; name: string; url: string; expiresInMinutes: number }): MailMessage {
+  return {
+    to: params.to,
+    subject: 'Reset your PingToPass password',
+    text: [
+      `Hi ${params.name},`,
+      '',
+      'Someone asked to reset the password for your PingToPass account. Choose a new one here:',
+      params.url,
+      '',
+      `The link expires in ${params.expiresInMinutes} minutes and works once. If this wasn't you, your password is unchanged.`
+    ].join('\n')
+  }
+}
+
+// Sent instead of a verification link when someone signs up with an address that already has an account
+export function accountExistsEmail(params: { to: string; name: string; resetUrl: string }): MailMessage {
+  return {
+    to: params.to,
+    subject: 'You already have a PingToPass account',
+    text: [
+      `Hi ${params.name},`,
+      '',
+      'Someone tried to create a PingToPass account with this email address, but you already have one.',
+      'Sign in as usual, or set a new password here:',
+      params.resetUrl,
+      '',
+      'If this wasn\'t you, no action is needed.'
+    ].join('\n')
+  }
+}
@@ -0,0 +1,363 @@
+// OAuth 2.0 / OpenID Connect sign-in for PingToPass
+// Authorization code flow with PKCE. The state, nonce and code verifier live in
+// oauth_states until the callback consumes them; the ID token is checked against
+// the provider's JWKS before the identity signs in, links to the account that
+// started the flow, or creates a new account on first sign-in.
+
+import { and, eq, gt, isNull, lt, sql } from 'drizzle-orm'
+import jwt from '@tsndr/cloudflare-worker-jwt'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { Provider } from '../schema/types'
+import { AuthTokenQueries, base64Url, hashToken, randomToken, type AuthClient, type AuthKeyring, type AuthUser, type IssuedTokens } from './auth-tokens'
+
+export const OAUTH_CONFIG = {
+  stateTtlMinutes: 10,
+  randomBytes: 32,
+  clockToleranceSeconds: 60
+} as const
+
+export interface IdTokenClaims {
+  sub: string
+  email: string
+  emailVerified: boolean
+  name: string | null
+  picture: string | null
+}
+
+// An OpenID Connect provider; Google over HTTP in production, LocalIdentityProvider in tests and local development
+export interface IdentityProvider {
+  readonly provider: Provider
+  readonly clientId: string
+  readonly issuers: string[]
+  authorizationUrl(params: { state: string; nonce: string; codeChallenge: string }): string
+  exchangeCode(params: { code: string; codeVerifier: string }): Promise<{ idToken: string }>
+  // The JWKS; given the key id a token was signed with, a cached set should be refreshed if it lacks that key
+  signingKeys(kid?: string): Promise<JsonWebKey[]>
+}
+
+export type OAuthFailure =
+  | 'invalid_state' // Unknown, expired or already used
+  | 'exchange_failed'
+  | 'invalid_id_token'
+  | 'email_unverified'
+  | 'link_required' // An unverified password account already holds the email
+  | 'identity_in_use' // Linked to a different account
+  | 'inactive'
+
+export async function pkceChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+  return base64Url(new Uint8Array(digest))
+}
+
+/**
+ * Check an ID token's RS256 signature against the provider's keys and its
+ * issuer, audience, expiry and nonce
+ */
+export async function verifyIdToken(
+  idToken: string,
+  expected: { keys: JsonWebKey[]; clientId: string; issuers: string[]; nonce: string; now?: Date }
+): Promise<IdTokenClaims | null> {
+  const { keys, clientId, issuers, nonce, now = new Date() } = expected
+
+  try {
+    const { header, payload } = jwt.decode<Record<string, unknown>, { kid?: string }>(idToken)
+    if (header?.alg !== 'RS256' || !payload) return null
+
+    const key = keys.find(candidate => (candidate as JsonWebKey & { kid?: string }).kid === header.kid)
+    if (!key) return null
+
+    const valid = await jwt.verify(idToken, key, { algorithm: 'RS256', clockTolerance: OAUTH_CONFIG.clockToleranceSeconds })
+    if (!valid) return null
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud]
+    const nowSeconds = Math.floor(now.getTime() / 1000)
+    if (!payload.iss || !issuers.includes(payload.iss)) return null
+    if (!audiences.includes(clientId)) return null
+    if (!payload.exp || payload.exp + OAUTH_CONFIG.clockToleranceSeconds <= nowSeconds) return null
+    if (payload.nonce !== nonce) return null
+    if (typeof payload.sub !== 'string' || typeof payload.email !== 'string') return null
+
+    return {
+      sub: payload.sub,
+      email: payload.email,
+      // Google sends a boolean, some providers the string "true"
+      emailVerified: payload.email_verified === true || payload.email_verified === 'true',
+      name: typeof payload.name === 'string' ? payload.name : null,
+      picture: typeof payload.picture === 'string' ? payload.picture : null
+    }
+  } catch {
+    // Malformed tokens make decode throw
+    return null
+  }
+}
+
+// The key id in an ID token's header; undefined when there is none or the token is malformed
+function idTokenKeyId(idToken: string): string | undefined {
+  try {
+    return jwt.decode<Record<string, unknown>, { kid?: string }>(idToken).header?.kid
+  } catch {
+    return undefined
+  }
+}
+
+export interface LocalIdentity {
+  sub: string
+  email: string
+  emailVerified?: boolean
+  name?: string
+}
+
+/**
+ * In-process identity provider for tests and local development. Authorization
+ * is granted at once for whoever was last passed to `signInAs`, codes enforce
+ * PKCE, and ID tokens are RS256-signed with a key published through
+ * `signingKeys`, so the whole verification path runs as it would against Google.
+ */
+export class LocalIdentityProvider implements IdentityProvider {
+  readonly provider = 'google' as const
+  readonly issuers = ['https://idp.pingtopass.local']
+  readonly kid = 'local-1'
+
+  private keys: Promise<{ privateKey: JsonWebKey; publicKey: JsonWebKey }>
+  private identity: LocalIdentity | null = null
+  private codes = new Map<string, { identity: LocalIdentity; nonce: string; codeChallenge: string }>()
+
+  constructor(
+    readonly clientId = 'pingtopass-local',
+    readonly redirectUri = 'http://localhost:3000/api/auth/google/callback'
+  ) {
+    this.keys = crypto.subtle
+      .generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+      )
+      .then(async pair => ({
+        privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+        publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey)
+      }))
+  }
+
+  signInAs(identity: LocalIdentity) {
+    this.identity = identity
+  }
+
+  authorizationUrl(params: { state: string; nonce: string; codeChallenge: string }): string {
+    if (!this.identity) throw new Error('LocalIdentityProvider has nobody to sign in; call signInAs first')
+
+    const code = randomToken(OAUTH_CONFIG.randomBytes)
+    this.codes.set(code, { identity: this.identity, nonce: params.nonce, codeChallenge: params.codeChallenge })
+
+    const url = new URL(this.redirectUri)
+    url.searchParams.set('code', code)
+    url.searchParams.set('state', params.state)
+    return url.toString()
+  }
+
+  async exchangeCode(params: { code: string; codeVerifier: string }): Promise<{ idToken: string }> {
+    const grant = this.codes.get(params.code)
+    this.codes.delete(params.code)
+    if (!grant) throw new Error('invalid_grant: unknown or used code')
+    if (await pkceChallenge(params.codeVerifier) !== grant.codeChallenge) throw new Error('invalid_grant: PKCE verification failed')
+
+    const { privateKey } = await this.keys
+    const issuedAt = Math.floor(Date.now() / 1000)
+    const idToken = await jwt.sign(
+      {
+        iss: this.issuers[0],
+        aud: this.clientId,
+        sub: grant.identity.sub,
+        email: grant.identity.email,
+        email_verified: grant.identity.emailVerified ?? true,
+        name: grant.identity.name,
+        nonce: grant.nonce,
+        iat: issuedAt,
+        exp: issuedAt + 300
+      },
+      privateKey,
+      { algorithm: 'RS256', header: { kid: this.kid, typ: 'JWT' } }
+    )
+    return { idToken }
+  }
+
+  async signingKeys(): Promise<JsonWebKey[]> {
+    const { publicKey } = await this.keys
+    return [{ ...publicKey, alg: 'RS256', use: 'sig', kid: this.kid } as JsonWebKey]
+  }
+}
+
+// OAuth sign-in queries
+export class OAuthQueries {
+  private tokens: AuthTokenQueries
+
+  constructor(private db: Database) {
+    this.tokens = new AuthTokenQueries(db)
+  }
+
+  /**
+   * Record a new authorization request and return where to send the browser.
+   * `linkUserId` attaches the identity to that (signed-in) account instead of signing in.
+   */
+  async startAuthorization(params: {
+    idp: IdentityProvider
+    linkUserId?: number
+    redirectTo?: string
+    now?: Date
+  }): Promise<{ authorizationUrl: string; state: string }> {
+    const { idp, linkUserId, redirectTo, now = new Date() } = params
+
+    // Abandoned requests are cleared as new ones come in
+    await this.db.delete(schema.oauthStates).where(lt(schema.oauthStates.expiresAt, now))
+
+    const state = randomToken(OAUTH_CONFIG.randomBytes)
+    const nonce = randomToken(OAUTH_CONFIG.randomBytes)
+    const codeVerifier = randomToken(OAUTH_CONFIG.randomBytes)
+
+    await this.db.insert(schema.oauthStates).values({
+      provider: idp.provider,
+      stateHash: await hashToken(state),
+      nonce,
+      codeVerifier,
+      linkUserId: linkUserId ?? null,
+      redirectTo: redirectTo ?? null,
+      expiresAt: new Date(now.getTime() + OAUTH_CONFIG.stateTtlMinutes * 60 * 1000),
+      createdAt: now
+    })
+
+    const authorizationUrl = idp.authorizationUrl({ state, nonce, codeChallenge: await pkceChallenge(codeVerifier) })
+    return { authorizationUrl, state }
+  }
+
+  /**
+   * Finish the flow started by `startAuthorization`: redeem the code, verify the
+   * ID token and resolve the identity to an account
+   */
+  async completeAuthorization(params: {
+    idp: IdentityProvider
+    state: string
+    code: string
+    keyring: AuthKeyring
+    client?: AuthClient
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: OAuthFailure; redirectTo: string | null }
+    | { ok: true; user: AuthUser; tokens: IssuedTokens; isNewUser: boolean; linked: boolean; redirectTo: string | null }
+  > {
+    const { idp, state, code, keyring, client = {}, now = new Date() } = params
+
+    // Single use: claim the state before doing anything with it
+    const [pending] = await this.db
+      .update(schema.oauthStates)
+      .set({ consumedAt: now })
+      .where(and(
+        eq(schema.oauthStates.stateHash, await hashToken(state)),
+        eq(schema.oauthStates.provider, idp.provider),
+        isNull(schema.oauthStates.consumedAt),
+        gt(schema.oauthStates.expiresAt, now)
+      ))
+      .returning()
+    if (!pending) return { ok: false, reason: 'invalid_state', redirectTo: null }
+
+    const fail = (reason: OAuthFailure) => ({ ok: false as const, reason, redirectTo: pending.redirectTo })
+
+    let idToken: string
+    try {
+      ({ idToken } = await idp.exchangeCode({ code, codeVerifier: pending.codeVerifier }))
+    } catch (error) {
+      console.error(`OAuth code exchange with ${idp.provider} failed:`, error)
+      return fail('exchange_failed')
+    }
+
+    const claims = await verifyIdToken(idToken, {
+      keys: await idp.signingKeys(idTokenKeyId(idToken)),
+      clientId: idp.clientId,
+      issuers: idp.issuers,
+      nonce: pending.nonce,
+      now
+    })
+    if (!claims) return fail('invalid_id_token')
+
+    const [identity] = await this.db
+      .select()
+      .from(schema.userIdentities)
+      .where(and(eq(schema.userIdentities.provider, idp.provider), eq(schema.userIdentities.subject, claims.sub)))
+
+    let userId: number
+    let isNewUser = false
+    let linked = false
+
+    if (pending.linkUserId !== null) {
+      // Linking from a signed-in account
+      if (identity && identity.userId !== pending.linkUserId) return fail('identity_in_use')
+      userId = pending.linkUserId
+      linked = !identity
+    } else if (identity) {
+      userId = identity.userId
+    } else {
+      if (!claims.emailVerified) return fail('email_unverified')
+
+      const [existing] = await this.db
+        .select({ id: schema.users.id, emailVerified: schema.users.emailVerified })
+        .from(schema.users)
+        .where(sql`lower(${schema.users.email}) = ${claims.email.toLowerCase()}`)
+
+      if (existing) {
+        // Only an owner who proved the address may be joined automatically;
+        // otherwise whoever registered the email first could be let in
+        if (!existing.emailVerified) return fail('link_required')
+        userId = existing.id
+        linked = true
+      } else {
+        const [created] = await this.db.insert(schema.users).values({
+          email: claims.email,
+          name: claims.name ?? claims.email.split('@')[0],
+          picture: claims.picture,
+          provider: idp.provider,
+          providerId: claims.sub,
+          emailVerified: true,
+          createdAt: now,
+          updatedAt: now
+        }).returning({ id: schema.users.id })
+        userId = created.id
+        isNewUser = true
+      }
+    }
+
+    const issued = await this.tokens.issueTokens({ userId, keyring, client, now })
+    if (!issued.ok) return fail('inactive')
+
+    if (identity) {
+      await this.db
+        .update(schema.userIdentities)
+        .set({ email: claims.email, lastUsedAt: now })
+        .where(eq(schema.userIdentities.id, identity.id))
+    } else {
+      await this.db.insert(schema.userIdentities).values({
+        userId,
+        provider: idp.provider,
+        subject: claims.sub,
+        email: claims.email,
+        linkedAt: now,
+        lastUsedAt: now
+      })
+    }
+
+    if (linked) {
+      await this.db.insert(schema.auditLog).values({
+        userId,
+        sessionId: issued.tokens.sessionId,
+        ipAddress: client.ipAddress ?? null,
+        userAgent: client.userAgent ?? null,
+        action: 'auth.link_identity',
+        entityType: 'user',
+        entityId: String(userId),
+        newValues: { provider: idp.provider, subject: claims.sub, email: claims.email },
+        metadata: { initiatedBy: pending.linkUserId !== null ? 'account' : 'sign_in' },
+        createdAt: now
+      })
+    }
+
+    return { ok: true, user: issued.user, tokens: issued.tokens, isNewUser, linked, redirectTo: pending.redirectTo }
+  }
+}
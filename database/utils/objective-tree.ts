@@ -0,0 +1,225 @@
+// Exam objective hierarchy for PingToPass
+// Objectives nest through parentId (1.0 → 1.1 → 1.1.a); this module builds
+// the tree, rolls question counts and learner mastery up to each node and
+// points out where the approved question bank is too thin.
+
+import { and, eq, sql } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import { estimateMastery } from './weak-areas'
+
+export const OBJECTIVE_TREE_CONFIG = {
+  // Approved questions a leaf objective needs before it counts as covered
+  minApprovedQuestions: 10
+} as const
+
+export interface ObjectiveNodeMastery {
+  correct: number
+  answered: number
+  level: number // 0-1 smoothed accuracy
+}
+
+export interface ObjectiveNode {
+  id: number
+  code: string
+  name: string
+  description: string | null
+  weight: number | null
+  questionPercentage: number | null
+  depth: number // 0 for exam domains
+  // Approved questions on this objective, and on it and everything below it
+  questionCount: number
+  totalQuestionCount: number
+  // Rolled up over the subtree; null without a user or without answers
+  mastery: ObjectiveNodeMastery | null
+  children: ObjectiveNode[]
+}
+
+export interface CoverageGap {
+  objectiveId: number
+  code: string
+  name: string
+  approvedQuestions: number
+  shortBy: number
+}
+
+type TreeObjective = Pick<schema.Objective, 'id' | 'code' | 'name' | 'description' | 'weight' | 'questionPercentage' | 'parentId' | 'sortOrder'>
+
+const byPosition = (a: TreeObjective, b: TreeObjective) =>
+  (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.code.localeCompare(b.code, undefined, { numeric: true })
+
+/**
+ * Children of each objective, in display order. Objectives whose parent is
+ * missing or inactive hang from the root (key null).
+ */
+function childrenByParent<T extends TreeObjective>(objectives: T[]): Map<number | null, T[]> {
+  const ids = new Set(objectives.map(objective => objective.id))
+  const children = new Map<number | null, T[]>()
+  for (const objective of [...objectives].sort(byPosition)) {
+    const parent = objective.parentId !== null && ids.has(objective.parentId) ? objective.parentId : null
+    children.set(parent, [...(children.get(parent) ?? []), objective])
+  }
+  return children
+}
+
+/**
+ * IDs of the given objectives and all of their descendants
+ */
+export function expandDescendants(objectives: Array<Pick<schema.Objective, 'id' | 'parentId'>>, rootIds: number[]): number[] {
+  const children = new Map<number, number[]>()
+  for (const objective of objectives) {
+    if (objective.parentId === null) continue
+    children.set(objective.parentId, [...(children.get(objective.parentId) ?? []), objective.id])
+  }
+
+  const expanded = new Set<number>()
+  const stack = [...rootIds]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    if (expanded.has(id)) continue
+    expanded.add(id)
+    stack.push(...(children.get(id) ?? []))
+  }
+  return [...expanded]
+}
+
+/**
+ * Nest objectives and roll counts up from the leaves. Counts are keyed by
+ * objective ID and cover that objective alone.
+ */
+export function buildObjectiveTree(
+  objectives: TreeObjective[],
+  questionCounts: Map<number, number>,
+  answerTotals?: Map<number, { correct: number; answered: number }>
+): { tree: ObjectiveNode[]; gaps: CoverageGap[] } {
+  const children = childrenByParent(objectives)
+  const gaps: CoverageGap[] = []
+  const visited = new Set<number>()
+
+  const build = (objective: TreeObjective, depth: number): ObjectiveNode => {
+    visited.add(objective.id)
+    const nodes = (children.get(objective.id) ?? [])
+      .filter(child => !visited.has(child.id))
+      .map(child => build(child, depth + 1))
+
+    const questionCount = questionCounts.get(objective.id) ?? 0
+    const own = answerTotals?.get(objective.id) ?? { correct: 0, answered: 0 }
+    const correct = own.correct + nodes.reduce((sum, node) => sum + (node.mastery?.correct ?? 0), 0)
+    const answered = own.answered + nodes.reduce((sum, node) => sum + (node.mastery?.answered ?? 0), 0)
+
+    // Questions are written against leaves, so that is where thin coverage shows
+    if (nodes.length === 0 && questionCount < OBJECTIVE_TREE_CONFIG.minApprovedQuestions) {
+      gaps.push({
+        objectiveId: objective.id,
+        code: objective.code,
+        name: objective.name,
+        approvedQuestions: questionCount,
+        shortBy: OBJECTIVE_TREE_CONFIG.minApprovedQuestions - questionCount
+      })
+    }
+
+    return {
+      id: objective.id,
+      code: objective.code,
+      name: objective.name,
+      description: objective.description,
+      weight: objective.weight,
+      questionPercentage: objective.questionPercentage,
+      depth,
+      questionCount,
+      totalQuestionCount: questionCount + nodes.reduce((sum, node) => sum + node.totalQuestionCount, 0),
+      mastery: answerTotals && answered > 0
+        ? { correct, answered, level: Number(estimateMastery(correct, answered).toFixed(3)) }
+        : null,
+      children: nodes
+    }
+  }
+
+  const tree = (children.get(null) ?? []).map(objective => build(objective, 0))
+  return { tree, gaps }
+}
+
+// Objective tree queries
+export class ObjectiveTreeQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * The exam's objective tree with approved question counts, the user's
+   * rolled-up mastery when a user is given, and coverage gaps
+   */
+  async getTree(params: { examId: number; userId?: number }): Promise<
+    | { ok: false; reason: 'exam_not_found' }
+    | { ok: true; tree: ObjectiveNode[]; gaps: CoverageGap[] }
+  > {
+    const { examId, userId } = params
+
+    const [exam] = await this.db
+      .select({ id: schema.exams.id })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam) return { ok: false, reason: 'exam_not_found' }
+
+    const [objectives, counts, answers] = await Promise.all([
+      this.getObjectives(examId),
+      this.db
+        .select({ objectiveId: schema.questions.objectiveId, count: sql<number>`count(*)` })
+        .from(schema.questions)
+        .where(
+          and(
+            eq(schema.questions.examId, examId),
+            eq(schema.questions.isActive, true),
+            eq(schema.questions.reviewStatus, 'approved')
+          )
+        )
+        .groupBy(schema.questions.objectiveId),
+      userId === undefined
+        ? Promise.resolve(null)
+        : this.db
+          .select({
+            objectiveId: schema.questions.objectiveId,
+            answered: sql<number>`count(*)`,
+            correct: sql<number>`sum(case when ${schema.userAnswers.isCorrect} then 1 else 0 end)`
+          })
+          .from(schema.userAnswers)
+          .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+          .where(and(eq(schema.userAnswers.userId, userId), eq(schema.questions.examId, examId)))
+          .groupBy(schema.questions.objectiveId)
+    ])
+
+    const { tree, gaps } = buildObjectiveTree(
+      objectives,
+      new Map(counts.map(row => [row.objectiveId, Number(row.count)])),
+      answers ? new Map(answers.map(row => [row.objectiveId, { correct: Number(row.correct ?? 0), answered: Number(row.answered) }])) : undefined
+    )
+
+    return { ok: true, tree, gaps }
+  }
+
+  /**
+   * The given objectives plus everything nested below them within the exam,
+   * so a domain such as 1.0 stands for 1.1, 1.1.a and so on. Unknown IDs are
+   * kept so a filter on them still matches nothing.
+   */
+  async expandObjectiveIds(examId: number, objectiveIds: number[]): Promise<number[]> {
+    if (objectiveIds.length === 0) return []
+    return expandDescendants(await this.getObjectives(examId), objectiveIds)
+  }
+
+  private async getObjectives(examId: number): Promise<TreeObjective[]> {
+    return this.db
+      .select({
+        id: schema.objectives.id,
+        code: schema.objectives.code,
+        name: schema.objectives.name,
+        description: schema.objectives.description,
+        weight: schema.objectives.weight,
+        questionPercentage: schema.objectives.questionPercentage,
+        parentId: schema.objectives.parentId,
+        sortOrder: schema.objectives.sortOrder
+      })
+      .from(schema.objectives)
+      .where(and(eq(schema.objectives.examId, examId), eq(schema.objectives.isActive, true)))
+  }
+}
@@ -0,0 +1,371 @@
+// Email/password accounts for PingToPass
+// Sign-up mails a verification link and password sign-in waits until it is
+// followed; forgotten passwords are reset through a mailed single-use link.
+// Responses never reveal whether an address has an account, and every entry
+// point is rate limited per email and per IP.
+
+import { and, desc, eq, gt, isNull, sql } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { AuthAttemptAction, EmailTokenPurpose } from '../schema/types'
+import { AuthTokenQueries, hashToken, randomToken, type AuthClient, type AuthKeyring, type AuthUser, type IssuedTokens } from './auth-tokens'
+import { hashPassword, passwordNeedsRehash, verifyPassword } from './passwords'
+import { accountExistsEmail, passwordResetEmail, verificationEmail, type MailTransport } from './mail'
+
+export const PASSWORD_AUTH_CONFIG = {
+  minPasswordLength: 10,
+  maxPasswordLength: 128,
+  verificationTtlHours: 24,
+  resetTtlMinutes: 60,
+  tokenBytes: 32,
+  // Attempts allowed per window; sign-in counts failures only
+  rateLimits: {
+    signup: { windowMinutes: 60, perEmail: 3, perIp: 10, failuresOnly: false },
+    login: { windowMinutes: 15, perEmail: 5, perIp: 20, failuresOnly: true },
+    verify_resend: { windowMinutes: 60, perEmail: 3, perIp: 10, failuresOnly: false },
+    password_reset: { windowMinutes: 60, perEmail: 3, perIp: 10, failuresOnly: false }
+  }
+} as const
+
+export type RateLimited = { ok: false; reason: 'rate_limited'; retryAfterSeconds: number }
+
+interface MailContext {
+  mailer: MailTransport
+  appUrl: string // Where the mailed links point
+  client?: AuthClient
+  now?: Date
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// Compared against when there is no account, so a miss takes as long as a wrong password
+let dummyHash: Promise<string> | null = null
+
+// Email/password account queries
+export class PasswordAuthQueries {
+  private tokens: AuthTokenQueries
+
+  constructor(private db: Database) {
+    this.tokens = new AuthTokenQueries(db)
+  }
+
+  /**
+   * Create an unverified account and mail its verification link. An address that
+   * already has an account gets a notice with a reset link instead; the result
+   * is the same either way.
+   */
+  async signup(params: MailContext & { email: string; password: string; name?: string }): Promise<
+    | RateLimited
+    | { ok: true; created: boolean }
+  > {
+    const { password, mailer, appUrl, client = {}, now = new Date() } = params
+    const email = normalizeEmail(params.email)
+
+    const retryAfterSeconds = await this.checkRateLimit('signup', email, client, now)
+    if (retryAfterSeconds !== null) return { ok: false, reason: 'rate_limited', retryAfterSeconds }
+    await this.recordAttempt('signup', email, client, true, now)
+
+    const existing = await this.findUser(email)
+    if (existing) {
+      // Even an unverified account is only handed over through the reset link,
+      // which proves the mailbox before anyone can sign in with a password
+      if (existing.isActive !== false) {
+        const token = await this.issueToken(existing.id, 'reset_password', now)
+        await mailer.send(accountExistsEmail({
+          to: existing.email,
+          name: existing.name,
+          resetUrl: `${appUrl}/reset-password?token=${token}`
+        }))
+      }
+      return { ok: true, created: false }
+    }
+
+    const [created] = await this.db.insert(schema.users).values({
+      email,
+      name: params.name?.trim() || email.split('@')[0],
+      provider: 'email',
+      passwordHash: await hashPassword(password),
+      emailVerified: false,
+      createdAt: now,
+      updatedAt: now
+    }).returning({ id: schema.users.id, email: schema.users.email, name: schema.users.name })
+
+    await this.sendVerification(created, { mailer, appUrl, now })
+    return { ok: true, created: true }
+  }
+
+  /**
+   * Password sign-in. Unknown addresses and wrong passwords fail alike; a correct
+   * password on an unverified account is told to verify first.
+   */
+  async login(params: { email: string; password: string; keyring: AuthKeyring; client?: AuthClient; now?: Date }): Promise<
+    | RateLimited
+    | { ok: false; reason: 'invalid_credentials' | 'email_unverified' | 'inactive' }
+    | { ok: true; user: AuthUser; tokens: IssuedTokens }
+  > {
+    const { password, keyring, client = {}, now = new Date() } = params
+    const email = normalizeEmail(params.email)
+
+    const retryAfterSeconds = await this.checkRateLimit('login', email, client, now)
+    if (retryAfterSeconds !== null) return { ok: false, reason: 'rate_limited', retryAfterSeconds }
+
+    const user = await this.findUser(email)
+    const passwordHash = user?.passwordHash ?? null
+    let valid = false
+    if (passwordHash) {
+      valid = await verifyPassword(password, passwordHash)
+    } else {
+      await verifyPassword(password, await (dummyHash ??= hashPassword('not-a-password')))
+    }
+
+    if (!user || !passwordHash || !valid) {
+      await this.recordAttempt('login', email, client, false, now)
+      return { ok: false, reason: 'invalid_credentials' }
+    }
+    if (!user.emailVerified) return { ok: false, reason: 'email_unverified' }
+
+    const issued = await this.tokens.issueTokens({ userId: user.id, keyring, client, now })
+    if (!issued.ok) return { ok: false, reason: 'inactive' }
+
+    // A successful sign-in clears the address's failure count
+    await this.db.delete(schema.authAttempts).where(and(
+      eq(schema.authAttempts.action, 'login'),
+      eq(schema.authAttempts.email, email),
+      eq(schema.authAttempts.succeeded, false)
+    ))
+    await this.recordAttempt('login', email, client, true, now)
+
+    if (passwordNeedsRehash(passwordHash)) {
+      await this.db
+        .update(schema.users)
+        .set({ passwordHash: await hashPassword(password), updatedAt: now })
+        .where(eq(schema.users.id, user.id))
+    }
+
+    return issued
+  }
+
+  /**
+   * Mark the address as verified by following the mailed link
+   */
+  async verifyEmail(params: { token: string; now?: Date }): Promise<
+    | { ok: false; reason: 'invalid' | 'expired' }
+    | { ok: true; userId: number }
+  > {
+    const { token, now = new Date() } = params
+
+    const consumed = await this.consumeToken(token, 'verify_email', now)
+    if (!consumed.ok) return consumed
+
+    await this.db
+      .update(schema.users)
+      .set({ emailVerified: true, updatedAt: now })
+      .where(eq(schema.users.id, consumed.userId))
+
+    return consumed
+  }
+
+  /**
+   * Mail a fresh verification link to an unverified password account; the
+   * previous link stops working
+   */
+  async resendVerification(params: MailContext & { email: string }): Promise<RateLimited | { ok: true }> {
+    const { mailer, appUrl, client = {}, now = new Date() } = params
+    const email = normalizeEmail(params.email)
+
+    const retryAfterSeconds = await this.checkRateLimit('verify_resend', email, client, now)
+    if (retryAfterSeconds !== null) return { ok: false, reason: 'rate_limited', retryAfterSeconds }
+    await this.recordAttempt('verify_resend', email, client, true, now)
+
+    const user = await this.findUser(email)
+    if (user && !user.emailVerified && user.passwordHash && user.isActive !== false) {
+      await this.sendVerification(user, { mailer, appUrl, now })
+    }
+
+    return { ok: true }
+  }
+
+  /**
+   * Mail a password reset link. Accounts without a password (Google sign-in)
+   * may use it to add one.
+   */
+  async requestPasswordReset(params: MailContext & { email: string }): Promise<RateLimited | { ok: true }> {
+    const { mailer, appUrl, client = {}, now = new Date() } = params
+    const email = normalizeEmail(params.email)
+
+    const retryAfterSeconds = await this.checkRateLimit('password_reset', email, client, now)
+    if (retryAfterSeconds !== null) return { ok: false, reason: 'rate_limited', retryAfterSeconds }
+    await this.recordAttempt('password_reset', email, client, true, now)
+
+    const user = await this.findUser(email)
+    if (user && user.isActive !== false) {
+      const token = await this.issueToken(user.id, 'reset_password', now)
+      await mailer.send(passwordResetEmail({
+        to: user.email,
+        name: user.name,
+        url: `${appUrl}/reset-password?token=${token}`,
+        expiresInMinutes: PASSWORD_AUTH_CONFIG.resetTtlMinutes
+      }))
+    }
+
+    return { ok: true }
+  }
+
+  /**
+   * Set a new password from a reset link. The link proves the mailbox, so the
+   * address counts as verified; every existing sign-in is revoked.
+   */
+  async resetPassword(params: { token: string; password: string; client?: AuthClient; now?: Date }): Promise<
+    | { ok: false; reason: 'invalid' | 'expired' }
+    | { ok: true; userId: number }
+  > {
+    const { token, password, client = {}, now = new Date() } = params
+
+    const consumed = await this.consumeToken(token, 'reset_password', now)
+    if (!consumed.ok) return consumed
+    const { userId } = consumed
+
+    await this.db
+      .update(schema.users)
+      .set({ passwordHash: await hashPassword(password), emailVerified: true, updatedAt: now })
+      .where(eq(schema.users.id, userId))
+    await this.tokens.revokeUserSessions({ userId, now })
+
+    await this.db.insert(schema.auditLog).values({
+      userId,
+      sessionId: client.sessionId ?? null,
+      ipAddress: client.ipAddress ?? null,
+      userAgent: client.userAgent ?? null,
+      action: 'auth.password_reset',
+      entityType: 'user',
+      entityId: String(userId),
+      createdAt: now
+    })
+
+    return consumed
+  }
+
+  private async findUser(email: string) {
+    const [user] = await this.db
+      .select({
+        id: schema.users.id,
+        email: schema.users.email,
+        name: schema.users.name,
+        passwordHash: schema.users.passwordHash,
+        emailVerified: schema.users.emailVerified,
+        isActive: schema.users.isActive
+      })
+      .from(schema.users)
+      .where(sql`lower(${schema.users.email}) = ${email}`)
+    return user ?? null
+  }
+
+  private async sendVerification(user: { id: number; email: string; name: string }, context: MailContext) {
+    const now = context.now ?? new Date()
+    const token = await this.issueToken(user.id, 'verify_email', now)
+    await context.mailer.send(verificationEmail({
+      to: user.email,
+      name: user.name,
+      url: `${context.appUrl}/verify-email?token=${token}`,
+      expiresInHours: PASSWORD_AUTH_CONFIG.verificationTtlHours
+    }))
+  }
+
+  // A new link supersedes any earlier one for the same purpose
+  private async issueToken(userId: number, purpose: EmailTokenPurpose, now: Date): Promise<string> {
+    await this.db
+      .update(schema.emailTokens)
+      .set({ consumedAt: now })
+      .where(and(
+        eq(schema.emailTokens.userId, userId),
+        eq(schema.emailTokens.purpose, purpose),
+        isNull(schema.emailTokens.consumedAt)
+      ))
+
+    const ttlMs = purpose === 'verify_email'
+      ? PASSWORD_AUTH_CONFIG.verificationTtlHours * 60 * 60 * 1000
+      : PASSWORD_AUTH_CONFIG.resetTtlMinutes * 60 * 1000
+
+    const token = randomToken(PASSWORD_AUTH_CONFIG.tokenBytes)
+    await this.db.insert(schema.emailTokens).values({
+      userId,
+      purpose,
+      tokenHash: await hashToken(token),
+      expiresAt: new Date(now.getTime() + ttlMs),
+      createdAt: now
+    })
+    return token
+  }
+
+  private async consumeToken(token: string, purpose: EmailTokenPurpose, now: Date): Promise<
+    | { ok: false; reason: 'invalid' | 'expired' }
+    | { ok: true; userId: number }
+  > {
+    const tokenHash = await hashToken(token)
+    const [stored] = await this.db
+      .select()
+      .from(schema.emailTokens)
+      .where(and(eq(schema.emailTokens.tokenHash, tokenHash), eq(schema.emailTokens.purpose, purpose)))
+    if (!stored || stored.consumedAt) return { ok: false, reason: 'invalid' }
+    if (stored.expiresAt <= now) return { ok: false, reason: 'expired' }
+
+    // Claim the token; a concurrent use of the same link finds it already consumed
+    const claimed = await this.db
+      .update(schema.emailTokens)
+      .set({ consumedAt: now })
+      .where(and(eq(schema.emailTokens.id, stored.id), isNull(schema.emailTokens.consumedAt)))
+      .returning({ id: schema.emailTokens.id })
+    if (claimed.length === 0) return { ok: false, reason: 'invalid' }
+
+    return { ok: true, userId: stored.userId }
+  }
+
+  /**
+   * Seconds until another attempt is allowed, or null when the email and IP are both under their limits
+   */
+  private async checkRateLimit(action: AuthAttemptAction, email: string, client: AuthClient, now: Date): Promise<number | null> {
+    const limit = PASSWORD_AUTH_CONFIG.rateLimits[action]
+    const windowMs = limit.windowMinutes * 60 * 1000
+    const windowStart = new Date(now.getTime() - windowMs)
+
+    const scopes = [
+      { column: schema.authAttempts.email, value: email, max: limit.perEmail },
+      { column: schema.authAttempts.ipAddress, value: client.ipAddress ?? null, max: limit.perIp }
+    ]
+
+    let retryAfterSeconds: number | null = null
+    for (const { column, value, max } of scopes) {
+      if (!value) continue
+
+      // The attempt that has to age out of the window before another is allowed
+      const [blocking] = await this.db
+        .select({ createdAt: schema.authAttempts.createdAt })
+        .from(schema.authAttempts)
+        .where(and(
+          eq(schema.authAttempts.action, action),
+          eq(column, value),
+          gt(schema.authAttempts.createdAt, windowStart),
+          limit.failuresOnly ? eq(schema.authAttempts.succeeded, false) : undefined
+        ))
+        .orderBy(desc(schema.authAttempts.createdAt))
+        .limit(1)
+        .offset(max - 1)
+
+      if (blocking) {
+        const wait = Math.max(1, Math.ceil((blocking.createdAt.getTime() + windowMs - now.getTime()) / 1000))
+        retryAfterSeconds = Math.max(retryAfterSeconds ?? 0, wait)
+      }
+    }
+    return retryAfterSeconds
+  }
+
+  private async recordAttempt(action: AuthAttemptAction, email: string, client: AuthClient, succeeded: boolean, now: Date) {
+    await this.db.insert(schema.authAttempts).values({
+      action,
+      email,
+      ipAddress: client.ipAddress ?? null,
+      succeeded,
+      createdAt: now
+    })
+  }
+}
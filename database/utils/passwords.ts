@@ -0,0 +1,71 @@
+// Password hashing for email/password accounts
+// scrypt with a per-password salt; the cost parameters are stored with each hash
+// so they can be raised later and old hashes upgraded at the next sign-in.
+// Web Crypto has no memory-hard KDF, so this one module relies on node:crypto
+// (available on Workers under the nodejs_compat flag).
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'node:crypto'
+
+export const PASSWORD_HASH_CONFIG = {
+  // OWASP's scrypt setting for a 16 MiB budget, which fits a Worker's memory limit
+  logN: 14,
+  blockSize: 8,
+  parallelization: 5,
+  saltBytes: 16,
+  keyBytes: 32
+} as const
+
+interface ScryptParams {
+  logN: number
+  blockSize: number
+  parallelization: number
+}
+
+function derive(password: string, salt: Buffer, keyBytes: number, params: ScryptParams): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: 2 ** params.logN,
+    r: params.blockSize,
+    p: params.parallelization,
+    maxmem: 256 * 2 ** params.logN * params.blockSize
+  }
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, keyBytes, options, (error, key) => error ? reject(error) : resolve(key))
+  })
+}
+
+/**
+ * Hash a password as `scrypt$ln=14,r=8,p=5$<salt>$<key>`, base64url encoded
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const { saltBytes, keyBytes, ...params } = PASSWORD_HASH_CONFIG
+  const salt = randomBytes(saltBytes)
+  const key = await derive(password, salt, keyBytes, params)
+  return `scrypt$ln=${params.logN},r=${params.blockSize},p=${params.parallelization}$${salt.toString('base64url')}$${key.toString('base64url')}`
+}
+
+function parseHash(stored: string): { params: ScryptParams; salt: Buffer; key: Buffer } | null {
+  const match = /^scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([\w-]+)\$([\w-]+)$/.exec(stored)
+  if (!match) return null
+  return {
+    params: { logN: Number(match[1]), blockSize: Number(match[2]), parallelization: Number(match[3]) },
+    salt: Buffer.from(match[4], 'base64url'),
+    key: Buffer.from(match[5], 'base64url')
+  }
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parsed = parseHash(stored)
+  if (!parsed) return false
+
+  const key = await derive(password, parsed.salt, parsed.key.length, parsed.params)
+  return timingSafeEqual(key, parsed.key)
+}
+
+// True when the hash was made with weaker settings than the current ones
+export function passwordNeedsRehash(stored: string): boolean {
+  const parsed = parseHash(stored)
+  return !parsed
+    || parsed.params.logN !== PASSWORD_HASH_CONFIG.logN
+    || parsed.params.blockSize !== PASSWORD_HASH_CONFIG.blockSize
+    || parsed.params.parallelization !== PASSWORD_HASH_CONFIG.parallelization
+}
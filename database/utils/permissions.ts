@@ -0,0 +1,51 @@
+// Permissions for PingToPass
+// Each role carries a fixed set of permissions and `users.permissions` grants
+// extra ones to individual accounts. The API resolves a user's effective set
+// here and hands it to the client, so both sides check the same list.
+
+import type { UserRole } from '../schema/types'
+
+export const PERMISSIONS = [
+  'questions:review', // Review queue, comments, decisions, revision history, learner reports
+  'questions:author', // Write and import questions
+  'questions:generate', // AI generation, which spends model credits
+  'questions:export',
+  'questions:deduplicate',
+  'exams:migrate',
+  'exams:preview_forms',
+  'monitoring:read',
+  'monitoring:manage' // Reset collected statistics
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  moderator: [
+    'questions:review',
+    'questions:author',
+    'questions:generate',
+    'questions:export',
+    'questions:deduplicate',
+    'exams:migrate',
+    'exams:preview_forms'
+  ],
+  admin: PERMISSIONS
+}
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value)
+}
+
+/**
+ * The role's permissions plus the user's own grants, in catalog order. Grants
+ * that name no known permission are ignored.
+ */
+export function resolvePermissions(role: UserRole | null | undefined, grants: readonly string[] | null | undefined): Permission[] {
+  const granted = new Set<string>([...(ROLE_PERMISSIONS[role ?? 'user'] ?? []), ...(grants ?? [])])
+  return PERMISSIONS.filter(permission => granted.has(permission))
+}
+
+export function hasPermission(user: { permissions: readonly string[] } | null | undefined, permission: Permission): boolean {
+  return user?.permissions.includes(permission) ?? false
+}
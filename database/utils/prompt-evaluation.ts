@@ -0,0 +1,231 @@
+// Prompt evaluation harness for PingToPass
+// Replays a fixed set of inputs through two template versions with recorded model
+// replies and compares how often the output is valid, what it costs and whether
+// the two versions agree on answer keys. Recordings are keyed by the rendered
+// prompt, so editing a template invalidates its recordings instead of silently
+// reusing replies to a different prompt.
+
+import {
+  getPrompt,
+  renderPrompt,
+  parsePromptOutput,
+  templateId,
+  type AnyPromptTemplate,
+  type PromptPurpose,
+  type PromptProvider,
+  type PromptRequest,
+  type PromptResponse,
+  type RejectedItem
+} from './prompts'
+import { estimateCostCents } from './question-generation'
+import { hashHex } from './hashing'
+
+export interface EvaluationCase {
+  id: string
+  variables: Record<string, unknown>
+}
+
+// Template ID -> recording key -> reply
+export type PromptRecordings = Record<string, Record<string, PromptResponse>>
+
+// The JSON file layout used by the evaluation CLI
+export interface EvaluationSet {
+  purpose: PromptPurpose
+  cases: EvaluationCase[]
+  recordings: PromptRecordings
+}
+
+export interface CaseOutcome {
+  expectedItems: number
+  validItems: number
+  rejected: RejectedItem[]
+  error: string | null
+}
+
+export interface PromptVersionSummary {
+  templateId: string
+  calls: number
+  failedCalls: number
+  expectedItems: number
+  validItems: number
+  validityRate: number
+  promptTokens: number
+  completionTokens: number
+  costCents: number | null // null when a reply came from a model without a price
+}
+
+export interface PromptEvaluationReport {
+  purpose: PromptPurpose
+  cases: number
+  baseline: PromptVersionSummary
+  candidate: PromptVersionSummary
+  // Items valid in both versions whose correct answers match; null when the purpose has no answer key
+  answerKeyAgreement: { compared: number; agreed: number; rate: number | null } | null
+  caseResults: Array<{ caseId: string; baseline: CaseOutcome; candidate: CaseOutcome }>
+}
+
+export const recordingKey = (request: Pick<PromptRequest, 'system' | 'prompt'>) =>
+  hashHex(`${request.system}\n---\n${request.prompt}`)
+
+/**
+ * Serves replies captured earlier; a prompt without a recording is an error
+ */
+export class RecordedResponseProvider implements PromptProvider {
+  readonly model = 'recorded'
+
+  constructor(private recordings: PromptRecordings) {}
+
+  async complete(request: PromptRequest): Promise<PromptResponse> {
+    const key = recordingKey(request)
+    const response = this.recordings[request.templateId]?.[key]
+    if (!response) throw new Error(`No recorded response for ${request.templateId} (${key})`)
+    return response
+  }
+}
+
+/**
+ * Passes requests to a live provider and keeps every reply for replay
+ */
+export class RecordingProvider implements PromptProvider {
+  constructor(private live: PromptProvider, readonly recordings: PromptRecordings = {}) {}
+
+  get model() {
+    return this.live.model
+  }
+
+  async complete(request: PromptRequest): Promise<PromptResponse> {
+    const response = await this.live.complete(request)
+    this.recordings[request.templateId] = { ...this.recordings[request.templateId], [recordingKey(request)]: response }
+    return response
+  }
+}
+
+async function runCase(template: AnyPromptTemplate, testCase: EvaluationCase, provider: PromptProvider) {
+  const outcome: CaseOutcome = { expectedItems: 1, validItems: 0, rejected: [], error: null }
+  const keys = new Map<number, string>()
+
+  let request: PromptRequest
+  try {
+    request = renderPrompt(template, testCase.variables)
+    outcome.expectedItems = template.expectedItems?.(template.variables.parse(testCase.variables)) ?? 1
+  } catch (error) {
+    outcome.error = `Invalid variables: ${error instanceof Error ? error.message : String(error)}`
+    return { outcome, keys, response: null }
+  }
+
+  let response: PromptResponse
+  try {
+    response = await provider.complete(request)
+  } catch (error) {
+    outcome.error = error instanceof Error ? error.message : String(error)
+    return { outcome, keys, response: null }
+  }
+
+  const parsed = parsePromptOutput(template, response.text)
+  if (!parsed) {
+    outcome.error = 'Reply is not JSON in the expected shape'
+    return { outcome, keys, response }
+  }
+
+  // Extra items beyond what was asked for do not raise the validity rate
+  outcome.validItems = Math.min(parsed.items.length, outcome.expectedItems)
+  outcome.rejected = parsed.rejected
+  if (template.answerKey) {
+    for (const { index, value } of parsed.items) keys.set(index, template.answerKey(value))
+  }
+
+  return { outcome, keys, response }
+}
+
+type CaseRun = Awaited<ReturnType<typeof runCase>>
+
+function summarize(id: string, runs: CaseRun[]): PromptVersionSummary {
+  const summary: PromptVersionSummary = {
+    templateId: id,
+    calls: runs.length,
+    failedCalls: 0,
+    expectedItems: 0,
+    validItems: 0,
+    validityRate: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costCents: 0
+  }
+
+  for (const { outcome, response } of runs) {
+    summary.expectedItems += outcome.expectedItems
+    summary.validItems += outcome.validItems
+    if (!response) {
+      summary.failedCalls++
+      continue
+    }
+    summary.promptTokens += response.promptTokens
+    summary.completionTokens += response.completionTokens
+    const cost = estimateCostCents(response.model, response.promptTokens, response.completionTokens)
+    summary.costCents = cost === null || summary.costCents === null ? null : summary.costCents + cost
+  }
+
+  summary.validityRate = summary.expectedItems > 0 ? summary.validItems / summary.expectedItems : 0
+  return summary
+}
+
+/**
+ * Run every case through a baseline and a candidate version of a purpose's
+ * template and compare the results
+ */
+export async function evaluatePrompts(params: {
+  purpose: PromptPurpose
+  baseline: string
+  candidate: string
+  cases: EvaluationCase[]
+  provider: PromptProvider
+}): Promise<
+  | { ok: false; reason: 'prompt_not_found'; version: string }
+  | { ok: true; report: PromptEvaluationReport }
+> {
+  const { purpose, cases, provider } = params
+
+  const baseline: AnyPromptTemplate | null = getPrompt(purpose, params.baseline)
+  if (!baseline) return { ok: false, reason: 'prompt_not_found', version: params.baseline }
+  const candidate: AnyPromptTemplate | null = getPrompt(purpose, params.candidate)
+  if (!candidate) return { ok: false, reason: 'prompt_not_found', version: params.candidate }
+
+  // Sequential so recorded and live runs see requests in the same order
+  const baselineRuns: CaseRun[] = []
+  const candidateRuns: CaseRun[] = []
+  for (const testCase of cases) {
+    baselineRuns.push(await runCase(baseline, testCase, provider))
+    candidateRuns.push(await runCase(candidate, testCase, provider))
+  }
+
+  let agreement: PromptEvaluationReport['answerKeyAgreement'] = null
+  if (baseline.answerKey && candidate.answerKey) {
+    let compared = 0
+    let agreed = 0
+    baselineRuns.forEach((run, i) => {
+      for (const [index, key] of run.keys) {
+        const other = candidateRuns[i].keys.get(index)
+        if (other === undefined) continue
+        compared++
+        if (other === key) agreed++
+      }
+    })
+    agreement = { compared, agreed, rate: compared > 0 ? agreed / compared : null }
+  }
+
+  return {
+    ok: true,
+    report: {
+      purpose,
+      cases: cases.length,
+      baseline: summarize(templateId(baseline), baselineRuns),
+      candidate: summarize(templateId(candidate), candidateRuns),
+      answerKeyAgreement: agreement,
+      caseResults: cases.map((testCase, i) => ({
+        caseId: testCase.id,
+        baseline: baselineRuns[i].outcome,
+        candidate: candidateRuns[i].outcome
+      }))
+    }
+  }
+}
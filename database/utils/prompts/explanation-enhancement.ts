@@ -0,0 +1,47 @@
+// Explanation enhancement prompts
+// Rewrites a question's explanation so it teaches the concept and covers each answer
+
+import { z } from 'zod'
+import { definePrompt } from './template'
+
+const variables = z.object({
+  examCode: z.string().min(1),
+  objectiveName: z.string().min(1),
+  question: z.string().min(1),
+  answers: z.array(z.object({ id: z.string(), text: z.string(), isCorrect: z.boolean() })).min(2),
+  currentExplanation: z.string().nullable().default(null)
+})
+
+const enhancedExplanation = z.object({
+  explanation: z.string().trim().min(40).max(2000),
+  // Keyed by answer ID
+  answerExplanations: z.record(z.string().trim().min(1)).default({}),
+  reference: z.string().trim().min(1).optional()
+})
+
+export type EnhancedExplanation = z.output<typeof enhancedExplanation>
+
+export const explanationEnhancementV1 = definePrompt({
+  purpose: 'explanation_enhancement',
+  name: 'explanation-enhance',
+  version: 'v1',
+  description: 'Expands an explanation and adds a reason for every answer',
+  variables,
+  output: enhancedExplanation,
+  temperature: 0.3,
+  maxTokens: () => 700,
+  render: input => ({
+    system: [
+      `You are a ${input.examCode} instructor improving the explanation of a practice question.`,
+      'Explain why the correct answer is right and why each distractor is wrong. Do not change the answer key.',
+      'Reply with JSON only: {"explanation", "answerExplanations": {"<answer id>": "..."}, "reference"}.'
+    ].join('\n'),
+    prompt: [
+      `Objective: ${input.objectiveName}`,
+      `Question: ${input.question}`,
+      ...input.answers.map(answer => `${answer.id}) ${answer.text}${answer.isCorrect ? ' [correct]' : ''}`),
+      '',
+      input.currentExplanation ? `Current explanation: ${input.currentExplanation}` : 'There is no explanation yet.'
+    ].join('\n')
+  })
+})
@@ -0,0 +1,52 @@
+// Prompt registry for PingToPass AI features
+// Every prompt sent to a model is a named, versioned template. The default
+// version per purpose is what production uses; other versions exist to be
+// evaluated against it before they are promoted.
+
+import { questionGenerationV1, questionGenerationV2 } from './question-generation'
+import { explanationEnhancementV1 } from './explanation-enhancement'
+import { twitterReplyV1 } from './twitter-reply'
+import { templateId, type AnyPromptTemplate, type PromptPurpose } from './template'
+
+export * from './template'
+export type { GenerationBrief, GeneratedQuestion } from './question-generation'
+export type { EnhancedExplanation } from './explanation-enhancement'
+export type { TwitterReply } from './twitter-reply'
+
+export const PROMPT_REGISTRY = {
+  question_generation: [questionGenerationV1, questionGenerationV2],
+  explanation_enhancement: [explanationEnhancementV1],
+  twitter_reply: [twitterReplyV1]
+} as const satisfies Record<PromptPurpose, readonly AnyPromptTemplate[]>
+
+export type RegisteredPrompt<P extends PromptPurpose> = typeof PROMPT_REGISTRY[P][number]
+
+export const DEFAULT_PROMPT_VERSIONS: Record<PromptPurpose, string> = {
+  question_generation: 'v1',
+  explanation_enhancement: 'v1',
+  twitter_reply: 'v1'
+}
+
+/**
+ * A template by purpose and version, or the purpose's default. Versions can
+ * be given bare ('v2') or as the stored template ID ('question-gen-v2').
+ */
+export function getPrompt<P extends PromptPurpose>(purpose: P, version?: string): RegisteredPrompt<P> | null {
+  const wanted = version ?? DEFAULT_PROMPT_VERSIONS[purpose]
+  const templates: readonly RegisteredPrompt<P>[] = PROMPT_REGISTRY[purpose]
+  return templates.find(template => template.version === wanted || templateId(template) === wanted) ?? null
+}
+
+// Registry summary for admin screens and the evaluation CLI
+export function listPrompts() {
+  return (Object.keys(PROMPT_REGISTRY) as PromptPurpose[]).flatMap(purpose =>
+    (PROMPT_REGISTRY[purpose] as readonly AnyPromptTemplate[]).map(template => ({
+      purpose,
+      id: templateId(template),
+      name: template.name,
+      version: template.version,
+      description: template.description,
+      isDefault: template.version === DEFAULT_PROMPT_VERSIONS[purpose]
+    }))
+  )
+}
@@ -0,0 +1,124 @@
+// Question generation prompts
+// v1 is the original prompt; v2 adds distractor guidance and per-answer explanations
+
+import { z } from 'zod'
+import { definePrompt } from './template'
+import { validateQuestionContent } from '../interactive-questions'
+import { CHOICE_TYPES, answerIdForPosition, normalizeQuestionText } from '../question-interchange'
+
+const variables = z.object({
+  examCode: z.string().min(1),
+  examName: z.string().min(1),
+  objectiveCode: z.string().min(1),
+  objectiveName: z.string().min(1),
+  objectiveDescription: z.string().nullable().default(null),
+  count: z.number().int().min(1).max(20),
+  difficulty: z.number().int().min(1).max(5),
+  existingCount: z.number().int().min(0).default(0),
+  // Recent questions on the objective the model must not repeat
+  avoid: z.array(z.string()).default([])
+})
+
+export type GenerationBrief = z.output<typeof variables>
+
+const generatedQuestion = z.object({
+  text: z.string().trim().min(10),
+  type: z.enum(CHOICE_TYPES).default('multiple_choice'),
+  difficulty: z.number().int().min(1).max(5).optional(),
+  answers: z.array(z.object({
+    id: z.string().trim().min(1).optional(),
+    text: z.string().trim().min(1),
+    isCorrect: z.boolean(),
+    explanation: z.string().trim().min(1).optional()
+  })).min(2).max(6),
+  explanation: z.string().trim().min(1),
+  reference: z.string().trim().min(1).optional(),
+  tags: z.array(z.string().trim().min(1)).max(10).default([]),
+  confidence: z.number().min(0).max(1).optional()
+}).transform(question => ({
+  ...question,
+  // Answer IDs are positional; models are not reliable about keeping them unique
+  answers: question.answers.map((answer, position) => ({
+    id: answerIdForPosition(position),
+    text: answer.text,
+    isCorrect: answer.isCorrect,
+    ...(answer.explanation ? { explanation: answer.explanation } : {})
+  }))
+}))
+
+export type GeneratedQuestion = z.output<typeof generatedQuestion>
+
+const shared = {
+  purpose: 'question_generation' as const,
+  name: 'question-gen',
+  variables,
+  output: generatedQuestion,
+  listKey: 'questions',
+  temperature: 0.7,
+  maxTokens: (brief: GenerationBrief) => 400 * brief.count,
+  expectedItems: (brief: GenerationBrief) => brief.count,
+  validate: (question: GeneratedQuestion) =>
+    validateQuestionContent({ type: question.type, answers: question.answers, diagramData: null }),
+  answerKey: (question: GeneratedQuestion) => question.answers
+    .filter(answer => answer.isCorrect)
+    .map(answer => normalizeQuestionText(answer.text))
+    .sort()
+    .join(' | ')
+}
+
+const objectiveLines = (brief: GenerationBrief) => [
+  `Objective ${brief.objectiveCode}: ${brief.objectiveName}`,
+  ...(brief.objectiveDescription ? [brief.objectiveDescription] : [])
+]
+
+const avoidLines = (brief: GenerationBrief) => brief.avoid.length > 0
+  ? ['', 'Do not repeat these existing questions:', ...brief.avoid.map(text => `- ${text}`)]
+  : []
+
+const plural = (count: number) => `${count} new question${count === 1 ? '' : 's'}`
+
+export const questionGenerationV1 = definePrompt({
+  ...shared,
+  version: 'v1',
+  description: 'Original generation prompt with the JSON contract in the system message',
+  render: brief => ({
+    system: [
+      `You write practice questions for the ${brief.examCode} ${brief.examName} certification exam.`,
+      'Questions must be technically accurate, unambiguous and answerable from the objective alone.',
+      'Reply with JSON only: {"questions": [{"text", "type", "difficulty", "answers": [{"id", "text", "isCorrect", "explanation"}], "explanation", "reference", "tags", "confidence"}]}.',
+      'type is multiple_choice (exactly one correct answer), multi_select (one or more) or true_false.',
+      'difficulty is 1 (recall) to 5 (multi-step troubleshooting); confidence is your 0-1 certainty that the key is correct.'
+    ].join('\n'),
+    prompt: [
+      ...objectiveLines(brief),
+      '',
+      `Write ${plural(brief.count)} at difficulty ${brief.difficulty} with four answers each.`,
+      ...avoidLines(brief)
+    ].join('\n')
+  })
+})
+
+export const questionGenerationV2 = definePrompt({
+  ...shared,
+  version: 'v2',
+  description: 'Adds distractor guidance, scenario stems and an explanation for every answer',
+  render: brief => ({
+    system: [
+      `You are a ${brief.examCode} ${brief.examName} item writer. Write exam-style questions a subject matter expert would sign off.`,
+      'Rules:',
+      '- One clearly best answer for multiple_choice; multi_select stems say how many to choose.',
+      '- Distractors are plausible mistakes a candidate makes, never jokes or "all of the above".',
+      '- Prefer short scenarios over definitions above difficulty 2.',
+      '- Every answer gets a one-sentence explanation of why it is right or wrong.',
+      'Reply with JSON only, no prose: {"questions": [{"text", "type", "difficulty", "answers": [{"text", "isCorrect", "explanation"}], "explanation", "reference", "tags", "confidence"}]}.',
+      'type is multiple_choice, multi_select or true_false; difficulty is 1-5; confidence is your 0-1 certainty in the key.'
+    ].join('\n'),
+    prompt: [
+      ...objectiveLines(brief),
+      '',
+      `Write ${plural(brief.count)} at difficulty ${brief.difficulty}.`,
+      'Use four answers unless the type is true_false.',
+      ...avoidLines(brief)
+    ].join('\n')
+  })
+})
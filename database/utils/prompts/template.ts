@@ -0,0 +1,126 @@
+// Prompt template definitions
+// A template pairs the messages sent to a model with typed variables and a schema for the reply
+
+import { z } from 'zod'
+
+export type PromptPurpose = 'question_generation' | 'explanation_enhancement' | 'twitter_reply'
+
+export const PROMPT_PURPOSES: PromptPurpose[] = ['question_generation', 'explanation_enhancement', 'twitter_reply']
+
+export interface PromptTemplate<V extends z.ZodTypeAny = z.ZodTypeAny, O extends z.ZodTypeAny = z.ZodTypeAny> {
+  purpose: PromptPurpose
+  name: string
+  version: string
+  description: string
+  variables: V
+  // Schema for one reply item
+  output: O
+  // When set the reply is an object holding a list of items under this key
+  listKey?: string
+  temperature: number
+  render(variables: z.output<V>): { system: string; prompt: string }
+  maxTokens(variables: z.output<V>): number
+  // Items the reply should contain; defaults to one
+  expectedItems?(variables: z.output<V>): number
+  // Rules the schema cannot express, as error messages
+  validate?(item: z.output<O>): string[]
+  // Comparable form of an item's answer key, for evaluations
+  answerKey?(item: z.output<O>): string
+}
+
+export type AnyPromptTemplate = PromptTemplate<z.ZodTypeAny, z.ZodTypeAny>
+
+export interface PromptRequest {
+  templateId: string
+  system: string
+  prompt: string
+  temperature: number
+  maxTokens: number
+}
+
+export interface PromptResponse {
+  text: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+}
+
+// Anything that can turn a rendered prompt into model output
+export interface PromptProvider {
+  readonly model: string
+  complete(request: PromptRequest): Promise<PromptResponse>
+}
+
+export interface RejectedItem {
+  index: number
+  errors: string[]
+}
+
+export function definePrompt<V extends z.ZodTypeAny, O extends z.ZodTypeAny>(template: PromptTemplate<V, O>) {
+  return template
+}
+
+// Stored in questions.aiPromptVersion and used as the recording key
+export const templateId = (template: Pick<AnyPromptTemplate, 'name' | 'version'>) => `${template.name}-${template.version}`
+
+/**
+ * Check variables and render a template into a provider request
+ */
+export function renderPrompt<V extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  template: PromptTemplate<V, O>,
+  variables: z.input<V>
+): PromptRequest {
+  const parsed = template.variables.parse(variables)
+  return {
+    templateId: templateId(template),
+    ...template.render(parsed),
+    temperature: template.temperature,
+    maxTokens: template.maxTokens(parsed)
+  }
+}
+
+/**
+ * Parse a model reply against a template's output schema. Items that fail
+ * the schema or the template's own rules are reported by position instead
+ * of failing the whole reply; null means the reply is not usable JSON.
+ */
+export function parsePromptOutput<V extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  template: PromptTemplate<V, O>,
+  output: string
+): { items: Array<{ index: number; value: z.output<O> }>; rejected: RejectedItem[] } | null {
+  // Models often wrap JSON in a markdown fence despite being asked not to
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/)
+  let payload: unknown
+  try {
+    payload = JSON.parse((fenced ? fenced[1] : output).trim())
+  } catch {
+    return null
+  }
+
+  let entries: unknown[] = [payload]
+  if (template.listKey) {
+    const list = Array.isArray(payload) ? payload : (payload as Record<string, unknown> | null)?.[template.listKey]
+    if (!Array.isArray(list)) return null
+    entries = list
+  }
+
+  const items: Array<{ index: number; value: z.output<O> }> = []
+  const rejected: RejectedItem[] = []
+
+  entries.forEach((entry, index) => {
+    const parsed = template.output.safeParse(entry)
+    if (!parsed.success) {
+      rejected.push({
+        index,
+        errors: parsed.error.errors.map(issue => `${issue.path.length ? issue.path.join('.') + ': ' : ''}${issue.message}`)
+      })
+      return
+    }
+
+    const errors = template.validate?.(parsed.data) ?? []
+    if (errors.length > 0) rejected.push({ index, errors })
+    else items.push({ index, value: parsed.data })
+  })
+
+  return { items, rejected }
+}
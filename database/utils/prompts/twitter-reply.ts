@@ -0,0 +1,53 @@
+// Twitter reply prompts
+// Drafts a reply to an engagement opportunity in the account's voice profile
+
+import { z } from 'zod'
+import { definePrompt } from './template'
+
+const TWEET_LENGTH = 280
+
+const variables = z.object({
+  tweetText: z.string().min(1),
+  authorHandle: z.string().min(1),
+  voice: z.object({
+    tone: z.string(),
+    topics: z.array(z.string()),
+    vocabulary: z.array(z.string()),
+    examples: z.array(z.string())
+  }).nullable().default(null),
+  examCode: z.string().nullable().default(null)
+})
+
+const reply = z.object({
+  reply: z.string().trim().min(1).max(TWEET_LENGTH),
+  confidence: z.number().min(0).max(1)
+})
+
+export type TwitterReply = z.output<typeof reply>
+
+export const twitterReplyV1 = definePrompt({
+  purpose: 'twitter_reply',
+  name: 'twitter-reply',
+  version: 'v1',
+  description: 'Helpful single-tweet reply, no links or hashtags',
+  variables,
+  output: reply,
+  temperature: 0.8,
+  maxTokens: () => 200,
+  validate: item => /https?:\/\/|#\w/.test(item.reply) ? ['Replies must not contain links or hashtags'] : [],
+  render: input => ({
+    system: [
+      'You reply to tweets from IT certification candidates as PingToPass.',
+      'Be genuinely helpful and specific; never sell. No links, no hashtags.',
+      ...(input.voice
+        ? [`Tone: ${input.voice.tone}.`, `Preferred vocabulary: ${input.voice.vocabulary.join(', ') || 'none'}.`, ...input.voice.examples.map(example => `Example: ${example}`)]
+        : []),
+      `Reply with JSON only: {"reply": "<at most ${TWEET_LENGTH} characters>", "confidence": <0-1, how sure you are the reply is accurate and welcome>}.`
+    ].join('\n'),
+    prompt: [
+      `@${input.authorHandle} wrote:`,
+      input.tweetText,
+      ...(input.examCode ? ['', `They appear to be studying for ${input.examCode}.`] : [])
+    ].join('\n')
+  })
+})
@@ -1,18 +1,71 @@
 // Optimized query patterns for PingToPass platform
 // All queries designed for <200ms performance on Turso edge
 
-import { and, eq, gt, gte, lt, lte, inArray, notInArray, desc, asc, sql, between, isNull, isNotNull } from 'drizzle-orm'
+import { and, eq, gt, gte, lt, lte, inArray, notInArray, desc, asc, sql, between, isNull, isNotNull, type SQL } from 'drizzle-orm'
 import type { Database } from './connection'
 import * as schema from '../schema'
 import type { StudyMode, DifficultyFilter } from '../schema/types'
+import { ReviewQueries, getAnswerHistoryContext } from './spaced-repetition'
+import { WeakAreaQueries } from './weak-areas'
+import { AdaptiveTestQueries } from './adaptive-testing'
+import { TestAttemptQueries } from './test-attempts'
+import { CalibrationQueries } from './calibration'
+import { ScoringQueries } from './scoring'
+import { ReadinessQueries } from './readiness'
+import { QuestionBankQueries } from './question-bank'
+import { QuestionInterchangeQueries } from './question-interchange'
+import { QuestionReviewQueries } from './question-review'
+import { QuestionGenerationQueries } from './question-generation'
+import { QuestionSimilarityQueries } from './question-similarity'
+import { QuestionRevisionQueries } from './question-revisions'
+import { QuestionFeedbackQueries } from './question-feedback'
+import { TestAssemblyQueries } from './test-assembly'
+import { ObjectiveTreeQueries } from './objective-tree'
+import { ExamMigrationQueries } from './exam-migration'
+import { CertificationPathQueries } from './certification-paths'
+import { AuthTokenQueries } from './auth-tokens'
+import { OAuthQueries } from './oauth'
+import { PasswordAuthQueries } from './password-auth'
+import { SessionQueries } from './sessions'
+
+// Columns served to learners when building a study set
+const studyQuestionColumns = {
+  id: schema.questions.id,
+  text: schema.questions.text,
+  type: schema.questions.type,
+  answers: schema.questions.answers,
+  imageUrl: schema.questions.imageUrl,
+  diagramData: schema.questions.diagramData,
+  difficulty: schema.questions.difficulty,
+  objectiveId: schema.questions.objectiveId,
+  explanation: schema.questions.explanation,
+  reference: schema.questions.reference,
+  tags: schema.questions.tags
+}
 
 // Study Session Queries - Critical for learning experience
 export class StudyQueries {
-  constructor(private db: Database) {}
+  private review: ReviewQueries
+  private weakAreas: WeakAreaQueries
+  private readiness: ReadinessQueries
+  private revisions: QuestionRevisionQueries
+  private objectives: ObjectiveTreeQueries
+
+  constructor(private db: Database) {
+    this.review = new ReviewQueries(db)
+    this.weakAreas = new WeakAreaQueries(db)
+    this.readiness = new ReadinessQueries(db)
+    this.revisions = new QuestionRevisionQueries(db)
+    this.objectives = new ObjectiveTreeQueries(db)
+  }
 
   /**
    * Get optimized questions for study session
-   * Excludes recently seen questions and applies difficulty filtering
+   * Only approved questions are served. Excludes recently seen questions
+   * and applies difficulty filtering.
+   * Review mode serves only cards due for spaced repetition; practice mode
+   * puts due cards ahead of the random fill. Weak areas mode delegates to
+   * getWeakAreaQuestions. A parent objective covers all of its descendants.
    */
   async getStudyQuestions(params: {
     userId: number
@@ -26,13 +79,42 @@ export class StudyQueries {
     const {
       userId,
       examId,
-      objectiveIds = [],
       difficulty = { min: 1, max: 5 },
       excludeRecentHours = 24,
       limit = 20,
       mode = 'practice'
     } = params
 
+    if (mode === 'weak_areas') {
+      const { questions } = await this.getWeakAreaQuestions(params)
+      return questions
+    }
+
+    const objectiveIds = await this.objectives.expandObjectiveIds(examId, params.objectiveIds ?? [])
+
+    // Build base query conditions
+    const conditions = [
+      eq(schema.questions.examId, examId),
+      eq(schema.questions.isActive, true),
+      eq(schema.questions.reviewStatus, 'approved'),
+      between(schema.questions.difficulty, difficulty.min, difficulty.max)
+    ]
+
+    // Add objective filtering if specified
+    if (objectiveIds.length > 0) {
+      conditions.push(inArray(schema.questions.objectiveId, objectiveIds))
+    }
+
+    // Due cards come first in review and practice modes
+    const dueQuestions = mode === 'review' || mode === 'practice'
+      ? await this.selectDueQuestions(userId, conditions, limit)
+      : []
+
+    // Review mode means "due cards only"
+    if (mode === 'review' || dueQuestions.length >= limit) {
+      return dueQuestions
+    }
+
     // Get recent question IDs to exclude
     const recentCutoff = new Date(Date.now() - excludeRecentHours * 60 * 60 * 1000)
     
@@ -46,56 +128,89 @@ export class StudyQueries {
         )
       )
 
-    const excludeIds = recentQuestions.map(r => r.questionId)
-
-    // Build base query conditions
-    const conditions = [
-      eq(schema.questions.examId, examId),
-      eq(schema.questions.isActive, true),
-      between(schema.questions.difficulty, difficulty.min, difficulty.max)
+    const excludeIds = [
+      ...recentQuestions.map(r => r.questionId),
+      ...dueQuestions.map(q => q.id)
     ]
 
-    // Add objective filtering if specified
-    if (objectiveIds.length > 0) {
-      conditions.push(inArray(schema.questions.objectiveId, objectiveIds))
-    }
-
-    // Exclude recently seen questions
+    // Exclude recently seen and already selected questions
+    const fillConditions = [...conditions]
     if (excludeIds.length > 0) {
-      conditions.push(notInArray(schema.questions.id, excludeIds))
+      fillConditions.push(notInArray(schema.questions.id, excludeIds))
     }
 
     // Adjust query based on study mode
     let orderBy = sql`RANDOM()` // Default random order
     
-    if (mode === 'weak_areas') {
-      // Prioritize questions user has gotten wrong
-      orderBy = desc(schema.questions.totalAttempts) // Questions with more attempts (likely harder)
-    } else if (mode === 'speed_drill') {
+    if (mode === 'speed_drill') {
       // Prioritize easier questions for speed
       orderBy = asc(schema.questions.difficulty)
     }
 
-    return await this.db
-      .select({
-        id: schema.questions.id,
-        text: schema.questions.text,
-        type: schema.questions.type,
-        answers: schema.questions.answers,
-        difficulty: schema.questions.difficulty,
-        objectiveId: schema.questions.objectiveId,
-        explanation: schema.questions.explanation,
-        reference: schema.questions.reference,
-        tags: schema.questions.tags
-      })
+    const fill = await this.db
+      .select(studyQuestionColumns)
       .from(schema.questions)
-      .where(and(...conditions))
+      .where(and(...fillConditions))
       .orderBy(orderBy)
+      .limit(limit - dueQuestions.length)
+
+    return [...dueQuestions, ...fill]
+  }
+
+  /**
+   * Get questions weighted toward the user's lowest-mastery objectives.
+   * Each question carries the selection reason, and the per-objective
+   * weighting is returned so the client can explain the mix.
+   */
+  async getWeakAreaQuestions(params: {
+    userId: number
+    examId: number
+    objectiveIds?: number[]
+    difficulty?: DifficultyFilter
+    excludeRecentHours?: number
+    limit?: number
+  }) {
+    const objectiveIds = await this.objectives.expandObjectiveIds(params.examId, params.objectiveIds ?? [])
+    const { picks, weighting } = await this.weakAreas.planSelection({ ...params, objectiveIds })
+    if (picks.length === 0) {
+      return { questions: [], weighting }
+    }
+
+    const rows = await this.db
+      .select(studyQuestionColumns)
+      .from(schema.questions)
+      .where(inArray(schema.questions.id, picks.map(p => p.questionId)))
+
+    const rowsById = new Map(rows.map(row => [row.id, row]))
+    const questions = picks
+      .filter(pick => rowsById.has(pick.questionId))
+      .map(pick => ({ ...rowsById.get(pick.questionId)!, selection: pick.selection }))
+
+    return { questions, weighting }
+  }
+
+  /**
+   * Select questions whose review state is due, most overdue first
+   */
+  private async selectDueQuestions(userId: number, conditions: SQL[], limit: number) {
+    return await this.db
+      .select(studyQuestionColumns)
+      .from(schema.questions)
+      .innerJoin(
+        schema.reviewStates,
+        and(
+          eq(schema.reviewStates.questionId, schema.questions.id),
+          eq(schema.reviewStates.userId, userId)
+        )
+      )
+      .where(and(...conditions, lte(schema.reviewStates.dueAt, new Date())))
+      .orderBy(asc(schema.reviewStates.dueAt))
       .limit(limit)
   }
 
   /**
-   * Record user answer and update question statistics atomically
+   * Record user answer and update question statistics atomically.
+   * Also stamps attempt history and reschedules the question for review.
    */
   async recordAnswer(params: {
     userId: number
@@ -104,20 +219,39 @@ export class StudyQueries {
     testAttemptId?: number
     selectedAnswer: string
     isCorrect: boolean
+    credit?: number
     timeSpentSeconds: number
     confidenceLevel?: number
     flagged?: boolean
   }) {
+    const revisionIds = await this.revisions.currentRevisionIds([params.questionId])
+
     return await this.db.transaction(async (tx) => {
+      const answeredAt = new Date()
+      const history = await getAnswerHistoryContext(tx, params.userId, params.questionId, answeredAt)
+
       // Insert user answer
       const [userAnswer] = await tx
         .insert(schema.userAnswers)
         .values({
           ...params,
-          answeredAt: new Date()
+          questionRevisionId: revisionIds.get(params.questionId) ?? null,
+          attemptNumber: history.attemptNumber,
+          daysSinceLastSeen: history.daysSinceLastSeen,
+          answeredAt
         })
         .returning()
 
+      // Reschedule the question for spaced repetition
+      await this.review.recordReview({
+        userId: params.userId,
+        questionId: params.questionId,
+        isCorrect: params.isCorrect,
+        confidenceLevel: params.confidenceLevel,
+        daysSinceLastSeen: history.daysSinceLastSeen,
+        reviewedAt: answeredAt
+      }, tx)
+
       // Update question performance statistics
       await tx
         .update(schema.questions)
@@ -195,6 +329,77 @@ export class StudyQueries {
       return updatedSession
     })
   }
+
+  /**
+   * Close a study session and refresh the learner's exam readiness
+   */
+  async completeSession(sessionId: number, userId: number) {
+    const [session] = await this.db
+      .select()
+      .from(schema.studySessions)
+      .where(
+        and(
+          eq(schema.studySessions.id, sessionId),
+          eq(schema.studySessions.userId, userId)
+        )
+      )
+      .limit(1)
+
+    if (!session) return null
+
+    let completed = session
+    if (session.status !== 'completed') {
+      const [timing] = await this.db
+        .select({ total: sql<number>`coalesce(sum(${schema.userAnswers.timeSpentSeconds}), 0)` })
+        .from(schema.userAnswers)
+        .where(eq(schema.userAnswers.studySessionId, sessionId))
+
+      const now = new Date()
+      const [updated] = await this.db
+        .update(schema.studySessions)
+        .set({
+          status: 'completed',
+          timeSpentSeconds: Number(timing?.total ?? 0),
+          completedAt: now,
+          lastActivity: now
+        })
+        .where(eq(schema.studySessions.id, sessionId))
+        .returning()
+      completed = updated
+    }
+
+    const readiness = await this.readiness.recomputeReadiness(userId, session.examId)
+    return { session: completed, readiness }
+  }
+}
+
+// Exam Catalog Queries - For exam listings and detail pages
+export class ExamQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Active exams for the catalog, alphabetical by code
+   */
+  async getActiveExams() {
+    return await this.db
+      .select()
+      .from(schema.exams)
+      .where(eq(schema.exams.isActive, true))
+      .orderBy(asc(schema.exams.code))
+  }
+
+  /**
+   * Single exam by id (inactive exams included, for existing attempts)
+   */
+  async getExam(examId: number) {
+    const [exam] = await this.db
+      .select()
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    return exam || null
+  }
 }
 
 // User Progress Queries - For dashboard and analytics
@@ -421,7 +626,30 @@ export class AnalyticsQueries {
 // Export query classes for use in API routes
 export function createQueries(db: Database) {
   return {
+    auth: new AuthTokenQueries(db),
+    oauth: new OAuthQueries(db),
+    passwords: new PasswordAuthQueries(db),
+    sessions: new SessionQueries(db),
+    exams: new ExamQueries(db),
+    questionBank: new QuestionBankQueries(db),
+    interchange: new QuestionInterchangeQueries(db),
+    questionReview: new QuestionReviewQueries(db),
+    generation: new QuestionGenerationQueries(db),
+    similarity: new QuestionSimilarityQueries(db),
+    revisions: new QuestionRevisionQueries(db),
+    feedback: new QuestionFeedbackQueries(db),
+    assembly: new TestAssemblyQueries(db),
+    objectives: new ObjectiveTreeQueries(db),
+    migrations: new ExamMigrationQueries(db),
+    paths: new CertificationPathQueries(db),
     study: new StudyQueries(db),
+    review: new ReviewQueries(db),
+    weakAreas: new WeakAreaQueries(db),
+    testAttempts: new TestAttemptQueries(db),
+    scoring: new ScoringQueries(db),
+    readiness: new ReadinessQueries(db),
+    adaptive: new AdaptiveTestQueries(db),
+    calibration: new CalibrationQueries(db),
     progress: new ProgressQueries(db),
     twitter: new TwitterQueries(db),
     analytics: new AnalyticsQueries(db)
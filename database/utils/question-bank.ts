@@ -0,0 +1,96 @@
+// Question bank authoring for PingToPass
+// Creates questions after checking their content can be delivered and graded
+
+import { and, eq } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { QuestionType, QuestionAnswer, QuestionDiagram } from '../schema/types'
+import { validateQuestionContent } from './interactive-questions'
+import { QuestionSimilarityQueries } from './question-similarity'
+import { runTranscript, promptFor, type SimulationCommand, type SimulationTranscript } from './cli-simulator'
+
+export type AuthoringRejection = 'objective_not_in_exam' | 'invalid_content'
+
+export interface QuestionDraft {
+  examId: number
+  objectiveId: number
+  text: string
+  type: QuestionType
+  answers: QuestionAnswer[]
+  explanation?: string
+  reference?: string
+  difficulty?: number
+  tags?: string[]
+  imageUrl?: string | null
+  diagramData?: QuestionDiagram | null
+}
+
+// Question bank queries - authoring
+export class QuestionBankQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Add a question to the bank. New questions wait for moderator review;
+   * near-copies of existing questions are flagged for the reviewer.
+   */
+  async createQuestion(draft: QuestionDraft): Promise<
+    | { ok: false; reason: 'objective_not_in_exam' }
+    | { ok: false; reason: 'invalid_content'; errors: string[] }
+    | { ok: true; question: schema.Question; nearDuplicates: schema.QuestionSimilarityFlag[] }
+  > {
+    const [objective] = await this.db
+      .select({ id: schema.objectives.id })
+      .from(schema.objectives)
+      .where(
+        and(
+          eq(schema.objectives.id, draft.objectiveId),
+          eq(schema.objectives.examId, draft.examId)
+        )
+      )
+      .limit(1)
+
+    if (!objective) return { ok: false, reason: 'objective_not_in_exam' }
+
+    const errors = validateQuestionContent(draft)
+    if (errors.length > 0) return { ok: false, reason: 'invalid_content', errors }
+
+    const [question] = await this.db
+      .insert(schema.questions)
+      .values({
+        ...draft,
+        imageUrl: draft.imageUrl ?? null,
+        diagramData: draft.diagramData ?? null,
+        reviewStatus: 'pending'
+      })
+      .returning()
+
+    const nearDuplicates = await new QuestionSimilarityQueries(this.db).flagQuestions([question.id])
+
+    return { ok: true, question, nearDuplicates }
+  }
+
+  /**
+   * Replay a learner's commands on a simulation question's devices. The
+   * client sends the whole transcript each time, so no state is kept here.
+   */
+  async runSimulation(questionId: number, commands: SimulationCommand[]): Promise<
+    | { ok: false; reason: 'not_found' | 'not_simulation' }
+    | { ok: true; transcript: SimulationTranscript; prompts: Record<string, string> }
+  > {
+    const [question] = await this.db
+      .select({ type: schema.questions.type, diagramData: schema.questions.diagramData })
+      .from(schema.questions)
+      .where(and(eq(schema.questions.id, questionId), eq(schema.questions.isActive, true)))
+      .limit(1)
+
+    if (!question) return { ok: false, reason: 'not_found' }
+    if (question.type !== 'simulation' || question.diagramData?.kind !== 'simulation') {
+      return { ok: false, reason: 'not_simulation' }
+    }
+
+    const { state, transcript } = runTranscript(question.diagramData, commands)
+    const prompts = Object.fromEntries(state.devices.map(device => [device.id, promptFor(state, device.id)]))
+
+    return { ok: true, transcript, prompts }
+  }
+}
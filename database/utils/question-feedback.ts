@@ -0,0 +1,226 @@
+// Learner feedback on questions for PingToPass
+// Learners report wrong keys, ambiguity, outdated content and typos. Reports
+// roll up per question; once enough learners report an approved question it
+// goes back to the moderator queue as needs_revision.
+
+import { and, eq, desc, sql } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { FeedbackReason, FeedbackStatus } from '../schema/types'
+import type { ReviewActor } from './question-review'
+import type { AuthClient } from './auth-tokens'
+import { QuestionRevisionQueries } from './question-revisions'
+
+export const FEEDBACK_CONFIG = {
+  // Learners with open reports on the current revision that send an approved question back for revision
+  revisionThreshold: 3,
+  maxCommentLength: 1000,
+  // Reports returned with a roll-up
+  maxListedReports: 50
+} as const
+
+export const FEEDBACK_REASONS: FeedbackReason[] = ['wrong_key', 'ambiguous', 'outdated', 'typo']
+
+const REASON_LABELS: Record<FeedbackReason, string> = {
+  wrong_key: 'wrong answer key',
+  ambiguous: 'ambiguous',
+  outdated: 'outdated',
+  typo: 'typo'
+}
+
+export interface FeedbackRollup {
+  open: number
+  byReason: Record<FeedbackReason, number>
+}
+
+export function countByReason(reports: Array<{ reason: FeedbackReason }>): Record<FeedbackReason, number> {
+  const counts = Object.fromEntries(FEEDBACK_REASONS.map(reason => [reason, 0])) as Record<FeedbackReason, number>
+  for (const report of reports) counts[report.reason] += 1
+  return counts
+}
+
+// e.g. "3 learner reports: wrong answer key (2), typo (1)"
+function describeRollup(rollup: FeedbackRollup): string {
+  const reasons = FEEDBACK_REASONS
+    .filter(reason => rollup.byReason[reason] > 0)
+    .map(reason => `${REASON_LABELS[reason]} (${rollup.byReason[reason]})`)
+  return `${rollup.open} learner reports: ${reasons.join(', ')}`
+}
+
+// Question feedback queries
+export class QuestionFeedbackQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Record a learner's report against the revision they were shown: the one
+   * pinned by the test attempt they report from, otherwise the current one. A
+   * learner has one report per revision; reporting again replaces its reason
+   * and comment. Reaching the threshold on the current revision sends an
+   * approved question back for revision, audited as the learner whose report
+   * tipped it over.
+   */
+  async submitFeedback(params: {
+    questionId: number
+    userId: number
+    reason: FeedbackReason
+    comment?: string
+    testAttemptId?: number
+    threshold?: number
+    client?: AuthClient
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: 'not_found' }
+    | { ok: true; report: schema.QuestionFeedback; rollup: FeedbackRollup; sentForRevision: boolean }
+  > {
+    const { questionId, userId, reason, threshold = FEEDBACK_CONFIG.revisionThreshold, client = {}, now = new Date() } = params
+    const comment = params.comment?.trim() || null
+
+    const [question] = await this.db
+      .select({ reviewStatus: schema.questions.reviewStatus })
+      .from(schema.questions)
+      .where(and(eq(schema.questions.id, questionId), eq(schema.questions.isActive, true)))
+      .limit(1)
+
+    if (!question) return { ok: false, reason: 'not_found' }
+
+    const revisionIds = await new QuestionRevisionQueries(this.db).currentRevisionIds([questionId], now)
+    const currentRevisionId = revisionIds.get(questionId)!
+
+    let questionRevisionId = currentRevisionId
+    if (params.testAttemptId !== undefined) {
+      const shown = await this.shownRevisionId(params.testAttemptId, userId, questionId)
+      if (shown === undefined) return { ok: false, reason: 'not_found' }
+      // Attempts from before revisions were pinned report on the current one
+      questionRevisionId = shown ?? currentRevisionId
+    }
+
+    const [report] = await this.db
+      .insert(schema.questionFeedback)
+      .values({ questionId, userId, questionRevisionId, reason, comment, createdAt: now })
+      .onConflictDoUpdate({
+        target: [schema.questionFeedback.questionId, schema.questionFeedback.userId, schema.questionFeedback.questionRevisionId],
+        set: { reason, comment }
+      })
+      .returning()
+
+    const rollup = await this.getRollup(questionId)
+    const sentForRevision = question.reviewStatus === 'approved' && await this.countOpenReporters(questionId, currentRevisionId) >= threshold
+    if (sentForRevision) await this.sendForRevision(questionId, rollup, { userId, ...client }, now)
+
+    return { ok: true, report, rollup, sentForRevision }
+  }
+
+  /**
+   * Open report counts for a question
+   */
+  async getRollup(questionId: number): Promise<FeedbackRollup> {
+    const rows = await this.db
+      .select({ reason: schema.questionFeedback.reason, count: sql<number>`count(*)` })
+      .from(schema.questionFeedback)
+      .where(and(eq(schema.questionFeedback.questionId, questionId), eq(schema.questionFeedback.status, 'open')))
+      .groupBy(schema.questionFeedback.reason)
+
+    const byReason = countByReason([])
+    for (const row of rows) byReason[row.reason] = Number(row.count)
+    return { open: rows.reduce((sum, row) => sum + Number(row.count), 0), byReason }
+  }
+
+  // Learners with an open report on a revision; reports on earlier revisions may already be fixed
+  private async countOpenReporters(questionId: number, questionRevisionId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(distinct ${schema.questionFeedback.userId})` })
+      .from(schema.questionFeedback)
+      .where(and(
+        eq(schema.questionFeedback.questionId, questionId),
+        eq(schema.questionFeedback.questionRevisionId, questionRevisionId),
+        eq(schema.questionFeedback.status, 'open')
+      ))
+
+    return Number(row.count)
+  }
+
+  // The revision a learner's attempt showed for a question: undefined when the
+  // attempt is not theirs or did not include it, null when nothing was pinned
+  private async shownRevisionId(testAttemptId: number, userId: number, questionId: number): Promise<number | null | undefined> {
+    const [attempt] = await this.db
+      .select({ questionIds: schema.testAttempts.questionIds, questionRevisionIds: schema.testAttempts.questionRevisionIds })
+      .from(schema.testAttempts)
+      .where(and(eq(schema.testAttempts.id, testAttemptId), eq(schema.testAttempts.userId, userId)))
+      .limit(1)
+
+    const index = attempt?.questionIds.indexOf(questionId) ?? -1
+    if (!attempt || index === -1) return undefined
+
+    const pinnedId = attempt.questionRevisionIds?.[index]
+    if (pinnedId == null) return null
+
+    const [revision] = await this.db
+      .select({ id: schema.questionRevisions.id })
+      .from(schema.questionRevisions)
+      .where(and(eq(schema.questionRevisions.id, pinnedId), eq(schema.questionRevisions.questionId, questionId)))
+      .limit(1)
+
+    return revision?.id ?? null
+  }
+
+  /**
+   * A question's most recent reports, open ones first
+   */
+  async listReports(questionId: number) {
+    return this.db
+      .select()
+      .from(schema.questionFeedback)
+      .where(eq(schema.questionFeedback.questionId, questionId))
+      .orderBy(sql`${schema.questionFeedback.status} = 'open' DESC`, desc(schema.questionFeedback.createdAt), desc(schema.questionFeedback.id))
+      .limit(FEEDBACK_CONFIG.maxListedReports)
+  }
+
+  /**
+   * Close every open report on a question: resolved when a moderator acted
+   * on them, dismissed when they were not valid
+   */
+  async closeReports(params: {
+    questionId: number
+    status: Exclude<FeedbackStatus, 'open'>
+    actor: ReviewActor
+    now?: Date
+  }): Promise<number> {
+    const { questionId, status, actor, now = new Date() } = params
+
+    const closed = await this.db
+      .update(schema.questionFeedback)
+      .set({ status, resolvedBy: actor.userId, resolvedAt: now })
+      .where(and(eq(schema.questionFeedback.questionId, questionId), eq(schema.questionFeedback.status, 'open')))
+      .returning({ id: schema.questionFeedback.id })
+
+    return closed.length
+  }
+
+  // Same trail a moderator's request for revision leaves; the comment speaks for
+  // every report, the audit row names the learner who triggered it
+  private async sendForRevision(questionId: number, rollup: FeedbackRollup, actor: ReviewActor, now: Date) {
+    await this.db
+      .update(schema.questions)
+      .set({ reviewStatus: 'needs_revision', updatedAt: now })
+      .where(eq(schema.questions.id, questionId))
+
+    const [comment] = await this.db
+      .insert(schema.questionReviewComments)
+      .values({ questionId, userId: null, decision: 'request_revision', body: describeRollup(rollup), createdAt: now })
+      .returning()
+
+    await this.db.insert(schema.auditLog).values({
+      userId: actor.userId,
+      sessionId: actor.sessionId ?? null,
+      ipAddress: actor.ipAddress ?? null,
+      userAgent: actor.userAgent ?? null,
+      action: 'question.request_revision',
+      entityType: 'question',
+      entityId: String(questionId),
+      oldValues: { reviewStatus: 'approved' },
+      newValues: { reviewStatus: 'needs_revision' },
+      metadata: { source: 'learner_feedback', commentId: comment.id, ...rollup },
+      createdAt: now
+    })
+  }
+}
@@ -0,0 +1,311 @@
+// AI question generation for PingToPass
+// Asks a language model for new questions on an exam objective, checks every item
+// against the authoring rules and saves the survivors as pending AI questions for
+// moderator review. Each call is logged with its token usage and cost.
+
+import { and, eq, desc } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import { normalizeQuestionText } from './question-interchange'
+import { QuestionSimilarityQueries } from './question-similarity'
+import {
+  getPrompt,
+  renderPrompt,
+  parsePromptOutput,
+  templateId,
+  type GenerationBrief,
+  type GeneratedQuestion,
+  type PromptRequest,
+  type PromptResponse,
+  type RejectedItem
+} from './prompts'
+import { fnv1a } from './hashing'
+
+export type { GenerationBrief, GeneratedQuestion, RejectedItem }
+
+// Template ID stamped on questions generated with the default prompt
+export const PROMPT_VERSION = templateId(getPrompt('question_generation')!)
+
+export const GENERATION_CONFIG = {
+  maxQuestionsPerRequest: 20,
+  defaultDifficulty: 3,
+  // Existing questions shown to the model so it does not repeat them
+  avoidListSize: 25
+} as const
+
+// US cents per million tokens; unknown models are logged without a cost
+export const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  'qwen/qwen2.5-7b-instruct': { prompt: 4, completion: 10 },
+  'qwen/qwen2.5-32b-instruct': { prompt: 18, completion: 18 },
+  'qwen/qwen-2.5-72b-instruct': { prompt: 35, completion: 40 },
+  'anthropic/claude-3-haiku': { prompt: 25, completion: 125 },
+  'offline-stub': { prompt: 0, completion: 0 }
+}
+
+// The brief travels with the rendered prompt so the offline provider can answer it
+export interface GenerationRequest extends PromptRequest {
+  brief: GenerationBrief
+}
+
+export type GenerationResponse = PromptResponse
+
+// OpenRouter in production, the offline stub in tests; any PromptProvider also fits
+export interface QuestionGenerationProvider {
+  readonly model: string
+  complete(request: GenerationRequest): Promise<GenerationResponse>
+}
+
+/**
+ * Parse model output into questions with the given generation template
+ */
+export function parseGeneratedQuestions(output: string, version?: string): {
+  questions: Array<{ index: number; question: GeneratedQuestion }>
+  rejected: RejectedItem[]
+} | null {
+  const template = getPrompt('question_generation', version)
+  const parsed = template && parsePromptOutput(template, output)
+  if (!parsed) return null
+
+  return {
+    questions: parsed.items.map(({ index, value }) => ({ index, question: value })),
+    rejected: parsed.rejected
+  }
+}
+
+/**
+ * Cost of a call in US cents, or null for models without a price
+ */
+export function estimateCostCents(model: string, promptTokens: number, completionTokens: number): number | null {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return null
+  return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000
+}
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+/**
+ * Deterministic provider for tests and local development. Questions are
+ * templated from the brief; numbering continues after the objective's
+ * existing questions so repeated runs produce new items.
+ */
+export class OfflineQuestionProvider implements QuestionGenerationProvider {
+  readonly model = 'offline-stub'
+
+  async complete(request: GenerationRequest): Promise<GenerationResponse> {
+    const { brief } = request
+    const questions = Array.from({ length: brief.count }, (_, i) => {
+      const variant = brief.existingCount + i + 1
+      const seed = fnv1a(`${brief.examCode}:${brief.objectiveCode}:${variant}`)
+      const correct = seed % 4
+
+      return {
+        text: `[${brief.objectiveCode}] Which statement about ${brief.objectiveName} is correct? (variant ${variant})`,
+        type: 'multiple_choice',
+        difficulty: brief.difficulty,
+        answers: ['A', 'B', 'C', 'D'].map((letter, position) => ({
+          text: position === correct
+            ? `Statement ${letter} accurately describes ${brief.objectiveName}`
+            : `Statement ${letter} is a common misconception`,
+          isCorrect: position === correct
+        })),
+        explanation: `Only statement ${'ABCD'[correct]} matches objective ${brief.objectiveCode}.`,
+        tags: ['offline'],
+        confidence: 0.5 + (seed % 50) / 100
+      }
+    })
+
+    const text = JSON.stringify({ questions })
+    return {
+      text,
+      model: this.model,
+      promptTokens: estimateTokens(request.system + request.prompt),
+      completionTokens: estimateTokens(text)
+    }
+  }
+}
+
+// Question generation queries
+export class QuestionGenerationQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Generate questions for an objective and save the valid ones as pending.
+   * Invalid items and copies of existing questions are returned as rejected;
+   * paraphrases that get through are flagged as near-duplicates. promptVersion picks a registered template, the default
+   * otherwise. The call is logged to ai_generation_log whether or not it
+   * succeeds.
+   */
+  async generateQuestions(params: {
+    examId: number
+    objectiveId: number
+    count: number
+    difficulty?: number
+    promptVersion?: string
+    provider: QuestionGenerationProvider
+    userId?: number | null
+    requestId?: string | null
+    ipAddress?: string | null
+    userAgent?: string | null
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: 'objective_not_found' | 'prompt_not_found' }
+    | { ok: false; reason: 'provider_error' | 'invalid_output'; message: string; logId: number }
+    | {
+        ok: true
+        questions: schema.Question[]
+        rejected: RejectedItem[]
+        nearDuplicates: schema.QuestionSimilarityFlag[]
+        usage: { model: string; promptTokens: number; completionTokens: number; costCents: number | null }
+        logId: number
+      }
+  > {
+    const { examId, objectiveId, provider, now = new Date() } = params
+    const count = Math.min(Math.max(1, params.count), GENERATION_CONFIG.maxQuestionsPerRequest)
+    const difficulty = params.difficulty ?? GENERATION_CONFIG.defaultDifficulty
+
+    const template = getPrompt('question_generation', params.promptVersion)
+    if (!template) return { ok: false, reason: 'prompt_not_found' }
+
+    const [target] = await this.db
+      .select({
+        examCode: schema.exams.code,
+        examName: schema.exams.name,
+        objectiveCode: schema.objectives.code,
+        objectiveName: schema.objectives.name,
+        objectiveDescription: schema.objectives.description
+      })
+      .from(schema.objectives)
+      .innerJoin(schema.exams, eq(schema.objectives.examId, schema.exams.id))
+      .where(and(eq(schema.objectives.id, objectiveId), eq(schema.objectives.examId, examId)))
+      .limit(1)
+
+    if (!target) return { ok: false, reason: 'objective_not_found' }
+
+    const existing = await this.db
+      .select({ id: schema.questions.id, text: schema.questions.text })
+      .from(schema.questions)
+      .where(eq(schema.questions.objectiveId, objectiveId))
+      .orderBy(desc(schema.questions.id))
+
+    const brief: GenerationBrief = {
+      ...target,
+      count,
+      difficulty,
+      existingCount: existing.length,
+      avoid: existing.slice(0, GENERATION_CONFIG.avoidListSize).map(question => question.text)
+    }
+    const request: GenerationRequest = { ...renderPrompt(template, brief), brief }
+
+    const log = {
+      purpose: 'question_generation',
+      examId,
+      objectiveId,
+      requestId: params.requestId ?? null,
+      userId: params.userId ?? null,
+      ipAddress: params.ipAddress ?? null,
+      userAgent: params.userAgent ?? null,
+      createdAt: now
+    }
+
+    const startedAt = Date.now()
+    let response: GenerationResponse
+    try {
+      response = await provider.complete(request)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const logId = await this.writeLog({
+        ...log,
+        model: provider.model,
+        success: false,
+        errorMessage: message,
+        generationTimeMs: Date.now() - startedAt
+      })
+      return { ok: false, reason: 'provider_error', message, logId }
+    }
+
+    const generationTimeMs = Date.now() - startedAt
+    const usage = {
+      model: response.model,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+      costCents: estimateCostCents(response.model, response.promptTokens, response.completionTokens)
+    }
+    const usageLog = {
+      ...log,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.promptTokens + usage.completionTokens,
+      costCents: usage.costCents,
+      generationTimeMs
+    }
+
+    const parsed = parseGeneratedQuestions(response.text, template.version)
+    if (!parsed) {
+      const message = 'Model output is not a JSON question list'
+      const logId = await this.writeLog({ ...usageLog, success: false, errorMessage: message })
+      return { ok: false, reason: 'invalid_output', message, logId }
+    }
+
+    const rejected = [...parsed.rejected]
+    const seen = new Map(existing.map(question => [normalizeQuestionText(question.text), `question ${question.id}`]))
+    const accepted: GeneratedQuestion[] = []
+
+    for (const { index, question } of parsed.questions) {
+      const key = normalizeQuestionText(question.text)
+      const duplicateOf = seen.get(key)
+      if (duplicateOf) {
+        rejected.push({ index, errors: [`Duplicate of ${duplicateOf}`] })
+        continue
+      }
+      seen.set(key, `item ${index}`)
+      accepted.push(question)
+    }
+    rejected.sort((a, b) => a.index - b.index)
+
+    const questions = accepted.length === 0 ? [] : await this.db
+      .insert(schema.questions)
+      .values(accepted.map(question => ({
+        examId,
+        objectiveId,
+        text: question.text,
+        type: question.type,
+        answers: question.answers,
+        explanation: question.explanation,
+        reference: question.reference ?? null,
+        difficulty: question.difficulty ?? difficulty,
+        tags: question.tags,
+        aiGenerated: true,
+        aiModel: response.model,
+        aiPromptVersion: request.templateId,
+        aiConfidenceScore: question.confidence ?? null,
+        reviewStatus: 'pending' as const,
+        createdAt: now,
+        updatedAt: now
+      })))
+      .returning()
+
+    const logId = await this.writeLog({
+      ...usageLog,
+      questionIds: questions.map(question => question.id),
+      success: questions.length > 0,
+      errorMessage: questions.length > 0 ? null : 'No usable questions in model output'
+    })
+
+    const nearDuplicates = await new QuestionSimilarityQueries(this.db).flagQuestions(
+      questions.map(question => question.id),
+      { now }
+    )
+
+    return { ok: true, questions, rejected, nearDuplicates, usage, logId }
+  }
+
+  private async writeLog(entry: schema.NewAIGenerationLog) {
+    const [row] = await this.db
+      .insert(schema.aiGenerationLog)
+      .values(entry)
+      .returning({ id: schema.aiGenerationLog.id })
+
+    return row.id
+  }
+}
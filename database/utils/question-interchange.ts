@@ -0,0 +1,309 @@
+// Question bank import and export for PingToPass
+// Converts between the bank and QTI 2.1, GIFT and CSV files. Imports are checked
+// as a dry run first so authors see validation errors and duplicates before
+// anything is written.
+
+import { and, eq, asc, inArray } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { QuestionAnswer, QuestionType, ReviewStatus } from '../schema/types'
+import { validateQuestionContent } from './interactive-questions'
+import { parseCsv, writeCsv, CSV_MAX_CHOICES } from './formats/csv'
+import { parseGift, writeGift } from './formats/gift'
+import { parseQti, writeQti } from './formats/qti'
+import { QuestionSimilarityQueries } from './question-similarity'
+
+export type InterchangeFormat = 'qti' | 'gift' | 'csv'
+
+export const INTERCHANGE_FORMATS: InterchangeFormat[] = ['qti', 'gift', 'csv']
+
+// Only choice questions have a faithful representation in all three formats
+export const CHOICE_TYPES = ['multiple_choice', 'multi_select', 'true_false'] as const satisfies readonly QuestionType[]
+export type ChoiceType = typeof CHOICE_TYPES[number]
+
+export const INTERCHANGE_CONFIG = {
+  maxQuestions: 2000,
+  insertBatchSize: 100,
+  defaultDifficulty: 3
+} as const
+
+/**
+ * A question as it appears in an interchange file. ref identifies it in
+ * reports: a line number, GIFT title or QTI identifier.
+ */
+export interface PortableQuestion {
+  ref: string
+  objectiveCode: string
+  type: ChoiceType
+  text: string
+  answers: QuestionAnswer[]
+  explanation?: string | null
+  reference?: string | null
+  difficulty?: number | null
+  tags: string[]
+}
+
+export interface ParsedQuestionFile {
+  questions: PortableQuestion[]
+  // Entries the parser could not turn into a question at all
+  issues: Array<{ ref: string; errors: string[] }>
+}
+
+export interface ImportItem {
+  ref: string
+  status: 'ok' | 'invalid' | 'duplicate'
+  errors?: string[]
+  duplicateOf?: string // Existing question ID or the ref of an earlier entry in the file
+}
+
+export interface ImportReport {
+  format: InterchangeFormat
+  dryRun: boolean
+  total: number
+  valid: number
+  invalid: number
+  duplicates: number
+  imported: number
+  nearDuplicates: number // Similarity flags opened for the imported questions
+  items: ImportItem[]
+}
+
+export interface ExportedFile {
+  filename: string
+  contentType: string
+  content: string | Uint8Array
+  skipped: Array<{ questionId: number; reason: string }>
+}
+
+const CONTENT_TYPES: Record<InterchangeFormat, string> = {
+  qti: 'application/zip',
+  gift: 'text/plain; charset=utf-8',
+  csv: 'text/csv; charset=utf-8'
+}
+
+const EXTENSIONS: Record<InterchangeFormat, string> = { qti: 'zip', gift: 'gift.txt', csv: 'csv' }
+
+// Answers are identified by position: a, b, c ...
+export const answerIdForPosition = (index: number) => String.fromCharCode(97 + index)
+
+/**
+ * Text used to spot duplicate questions: case, punctuation and spacing are ignored
+ */
+export function normalizeQuestionText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export async function parseQuestionFile(format: InterchangeFormat, content: string | Uint8Array): Promise<ParsedQuestionFile> {
+  if (format === 'qti') {
+    return parseQti(typeof content === 'string' ? new TextEncoder().encode(content) : content)
+  }
+  const text = typeof content === 'string' ? content : new TextDecoder().decode(content)
+  return format === 'csv' ? parseCsv(text) : parseGift(text)
+}
+
+export function serializeQuestions(format: InterchangeFormat, questions: PortableQuestion[]): string | Uint8Array {
+  if (format === 'qti') return writeQti(questions)
+  return format === 'csv' ? writeCsv(questions) : writeGift(questions)
+}
+
+// Question import/export queries
+export class QuestionInterchangeQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Check a question file against an exam and, unless dryRun is set, add the
+   * valid, non-duplicate questions as pending review. A commit is refused
+   * while any entry is invalid so a file is never half imported.
+   */
+  async importQuestions(params: {
+    examId: number
+    format: InterchangeFormat
+    content: string | Uint8Array
+    dryRun?: boolean
+    defaultObjectiveCode?: string
+  }): Promise<
+    | { ok: false; reason: 'exam_not_found' }
+    | { ok: false; reason: 'has_errors'; report: ImportReport }
+    | { ok: true; report: ImportReport }
+  > {
+    const { examId, format, content, dryRun = true, defaultObjectiveCode } = params
+
+    const [exam] = await this.db
+      .select({ id: schema.exams.id })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam) return { ok: false, reason: 'exam_not_found' }
+
+    const parsed = await parseQuestionFile(format, content)
+
+    const objectives = await this.db
+      .select({ id: schema.objectives.id, code: schema.objectives.code })
+      .from(schema.objectives)
+      .where(eq(schema.objectives.examId, examId))
+    const objectiveIds = new Map(objectives.map(objective => [objective.code, objective.id]))
+
+    const existing = await this.db
+      .select({ id: schema.questions.id, text: schema.questions.text })
+      .from(schema.questions)
+      .where(eq(schema.questions.examId, examId))
+    const seen = new Map(existing.map(question => [normalizeQuestionText(question.text), `question ${question.id}`]))
+
+    const items: ImportItem[] = parsed.issues.map(issue => ({ ref: issue.ref, status: 'invalid', errors: issue.errors }))
+    const rows: Array<typeof schema.questions.$inferInsert> = []
+
+    if (parsed.questions.length > INTERCHANGE_CONFIG.maxQuestions) {
+      items.push({ ref: 'file', status: 'invalid', errors: [`Files may hold at most ${INTERCHANGE_CONFIG.maxQuestions} questions`] })
+    } else {
+      for (const question of parsed.questions) {
+        const objectiveCode = question.objectiveCode || defaultObjectiveCode || ''
+        const objectiveId = objectiveIds.get(objectiveCode)
+        const errors = [
+          ...(!question.text ? ['Question text is required'] : []),
+          ...(!objectiveCode
+            ? ['No objective code given']
+            : objectiveId === undefined ? [`Objective ${objectiveCode} is not part of this exam`] : []),
+          ...validateQuestionContent(question)
+        ]
+
+        if (errors.length > 0) {
+          items.push({ ref: question.ref, status: 'invalid', errors })
+          continue
+        }
+
+        const key = normalizeQuestionText(question.text)
+        const duplicateOf = seen.get(key)
+        if (duplicateOf) {
+          items.push({ ref: question.ref, status: 'duplicate', duplicateOf })
+          continue
+        }
+        seen.set(key, question.ref)
+
+        items.push({ ref: question.ref, status: 'ok' })
+        rows.push({
+          examId,
+          objectiveId: objectiveId!,
+          text: question.text,
+          type: question.type,
+          answers: question.answers,
+          explanation: question.explanation ?? null,
+          reference: question.reference ?? null,
+          difficulty: question.difficulty ?? INTERCHANGE_CONFIG.defaultDifficulty,
+          tags: question.tags,
+          reviewStatus: 'pending'
+        })
+      }
+    }
+
+    const report: ImportReport = {
+      format,
+      dryRun,
+      total: items.length,
+      valid: rows.length,
+      invalid: items.filter(item => item.status === 'invalid').length,
+      duplicates: items.filter(item => item.status === 'duplicate').length,
+      imported: 0,
+      nearDuplicates: 0,
+      items
+    }
+
+    if (dryRun) return { ok: true, report }
+    if (report.invalid > 0) return { ok: false, reason: 'has_errors', report }
+
+    const importedIds: number[] = []
+    for (let i = 0; i < rows.length; i += INTERCHANGE_CONFIG.insertBatchSize) {
+      const inserted = await this.db
+        .insert(schema.questions)
+        .values(rows.slice(i, i + INTERCHANGE_CONFIG.insertBatchSize))
+        .returning({ id: schema.questions.id })
+      importedIds.push(...inserted.map(question => question.id))
+    }
+    report.imported = importedIds.length
+    report.nearDuplicates = (await new QuestionSimilarityQueries(this.db).flagQuestions(importedIds)).length
+
+    return { ok: true, report }
+  }
+
+  /**
+   * Write an exam's active questions to a file. Question types the format
+   * cannot express are listed in skipped rather than exported lossily.
+   */
+  async exportQuestions(params: {
+    examId: number
+    format: InterchangeFormat
+    reviewStatus?: ReviewStatus[]
+  }): Promise<{ ok: false; reason: 'exam_not_found' } | { ok: true; file: ExportedFile }> {
+    const { examId, format, reviewStatus } = params
+
+    const [exam] = await this.db
+      .select({ id: schema.exams.id, code: schema.exams.code })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam) return { ok: false, reason: 'exam_not_found' }
+
+    const conditions = [eq(schema.questions.examId, examId), eq(schema.questions.isActive, true)]
+    if (reviewStatus?.length) conditions.push(inArray(schema.questions.reviewStatus, reviewStatus))
+
+    const rows = await this.db
+      .select({
+        id: schema.questions.id,
+        type: schema.questions.type,
+        text: schema.questions.text,
+        answers: schema.questions.answers,
+        explanation: schema.questions.explanation,
+        reference: schema.questions.reference,
+        difficulty: schema.questions.difficulty,
+        tags: schema.questions.tags,
+        objectiveCode: schema.objectives.code
+      })
+      .from(schema.questions)
+      .innerJoin(schema.objectives, eq(schema.questions.objectiveId, schema.objectives.id))
+      .where(and(...conditions))
+      .orderBy(asc(schema.objectives.code), asc(schema.questions.id))
+
+    const skipped: ExportedFile['skipped'] = []
+    const questions: PortableQuestion[] = []
+
+    for (const row of rows) {
+      const type = row.type ?? 'multiple_choice'
+      if (!(CHOICE_TYPES as readonly QuestionType[]).includes(type)) {
+        skipped.push({ questionId: row.id, reason: `${type} questions cannot be exported` })
+        continue
+      }
+      if (format === 'csv' && row.answers.length > CSV_MAX_CHOICES) {
+        skipped.push({ questionId: row.id, reason: `CSV rows hold at most ${CSV_MAX_CHOICES} answers` })
+        continue
+      }
+
+      questions.push({
+        ref: `Q${row.id}`,
+        objectiveCode: row.objectiveCode,
+        type: type as ChoiceType,
+        text: row.text,
+        answers: row.answers,
+        explanation: row.explanation,
+        reference: row.reference,
+        difficulty: row.difficulty,
+        tags: row.tags ?? []
+      })
+    }
+
+    const slug = exam.code.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+    return {
+      ok: true,
+      file: {
+        filename: `${slug}-questions.${EXTENSIONS[format]}`,
+        contentType: CONTENT_TYPES[format],
+        content: serializeQuestions(format, questions),
+        skipped
+      }
+    }
+  }
+}
@@ -0,0 +1,360 @@
+// Moderator review workflow for the question bank
+// New and AI-generated questions wait in a queue until a moderator approves them;
+// every status change and edit is written to audit_log
+
+import { and, eq, asc, desc, inArray, sql, type SQL } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { QuestionAnswer, QuestionDiagram, ReviewDecision, ReviewStatus } from '../schema/types'
+import { validateQuestionContent } from './interactive-questions'
+import { QuestionRevisionQueries, isSubstantiveChange } from './question-revisions'
+import { QuestionFeedbackQueries, type FeedbackRollup } from './question-feedback'
+
+export const REVIEW_CONFIG = {
+  // Statuses that still need a moderator
+  queueStatuses: ['pending', 'needs_revision'] as ReviewStatus[],
+  maxPageSize: 100,
+  maxCommentLength: 4000
+} as const
+
+const DECISION_STATUS: Record<ReviewDecision, ReviewStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  request_revision: 'needs_revision'
+}
+
+// Fields a moderator can correct inline
+export interface QuestionEdit {
+  objectiveId?: number
+  text?: string
+  answers?: QuestionAnswer[]
+  explanation?: string | null
+  reference?: string | null
+  difficulty?: number
+  tags?: string[]
+  imageUrl?: string | null
+  diagramData?: QuestionDiagram | null
+}
+
+// Who made a change, for the audit trail
+export interface ReviewActor {
+  userId: number
+  sessionId?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+// Question review queries
+export class QuestionReviewQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Questions awaiting review. Least confident AI output comes first;
+   * hand-written questions (no confidence score) follow, oldest first.
+   */
+  async getQueue(params: {
+    examId?: number
+    statuses?: ReviewStatus[]
+    aiGenerated?: boolean
+    order?: 'asc' | 'desc'
+    limit?: number
+    offset?: number
+  } = {}) {
+    const {
+      examId,
+      statuses = REVIEW_CONFIG.queueStatuses,
+      aiGenerated,
+      order = 'asc',
+      limit = 20,
+      offset = 0
+    } = params
+
+    const conditions: SQL[] = [
+      inArray(schema.questions.reviewStatus, statuses),
+      eq(schema.questions.isActive, true)
+    ]
+    if (examId !== undefined) conditions.push(eq(schema.questions.examId, examId))
+    if (aiGenerated !== undefined) conditions.push(eq(schema.questions.aiGenerated, aiGenerated))
+
+    const confidence = order === 'asc' ? asc(schema.questions.aiConfidenceScore) : desc(schema.questions.aiConfidenceScore)
+
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select({
+          id: schema.questions.id,
+          examId: schema.questions.examId,
+          objectiveId: schema.questions.objectiveId,
+          objectiveCode: schema.objectives.code,
+          text: schema.questions.text,
+          type: schema.questions.type,
+          difficulty: schema.questions.difficulty,
+          reviewStatus: schema.questions.reviewStatus,
+          aiGenerated: schema.questions.aiGenerated,
+          aiModel: schema.questions.aiModel,
+          aiConfidenceScore: schema.questions.aiConfidenceScore,
+          isBeta: schema.questions.isBeta,
+          commentCount: sql<number>`(
+            SELECT count(*) FROM ${schema.questionReviewComments}
+            WHERE ${schema.questionReviewComments.questionId} = ${schema.questions.id}
+          )`,
+          reportCount: sql<number>`(
+            SELECT count(*) FROM ${schema.questionFeedback}
+            WHERE ${schema.questionFeedback.questionId} = ${schema.questions.id}
+              AND ${schema.questionFeedback.status} = 'open'
+          )`
+        })
+        .from(schema.questions)
+        .innerJoin(schema.objectives, eq(schema.questions.objectiveId, schema.objectives.id))
+        .where(and(...conditions))
+        .orderBy(sql`${schema.questions.aiConfidenceScore} IS NULL`, confidence, asc(schema.questions.id))
+        .limit(Math.min(limit, REVIEW_CONFIG.maxPageSize))
+        .offset(offset),
+      this.db
+        .select({ total: sql<number>`count(*)` })
+        .from(schema.questions)
+        .where(and(...conditions))
+    ])
+
+    return { items, total: Number(total) }
+  }
+
+  /**
+   * A question with its answer key, comment thread, review history and
+   * learner reports
+   */
+  async getReviewItem(questionId: number): Promise<
+    | { ok: false; reason: 'not_found' }
+    | {
+        ok: true
+        question: schema.Question
+        comments: schema.QuestionReviewComment[]
+        history: schema.AuditLog[]
+        feedback: FeedbackRollup & { reports: schema.QuestionFeedback[] }
+      }
+  > {
+    const [question] = await this.db
+      .select()
+      .from(schema.questions)
+      .where(eq(schema.questions.id, questionId))
+      .limit(1)
+
+    if (!question) return { ok: false, reason: 'not_found' }
+
+    const feedback = new QuestionFeedbackQueries(this.db)
+    const [comments, history, rollup, reports] = await Promise.all([
+      this.db
+        .select()
+        .from(schema.questionReviewComments)
+        .where(eq(schema.questionReviewComments.questionId, questionId))
+        .orderBy(asc(schema.questionReviewComments.createdAt), asc(schema.questionReviewComments.id)),
+      this.db
+        .select()
+        .from(schema.auditLog)
+        .where(
+          and(
+            eq(schema.auditLog.entityType, 'question'),
+            eq(schema.auditLog.entityId, String(questionId))
+          )
+        )
+        .orderBy(asc(schema.auditLog.id)),
+      feedback.getRollup(questionId),
+      feedback.listReports(questionId)
+    ])
+
+    return { ok: true, question, comments, history, feedback: { ...rollup, reports } }
+  }
+
+  /**
+   * Approve, reject or send a question back for revision. Asking for a
+   * revision needs a comment saying what to change; approving or rejecting
+   * resolves the open learner reports.
+   */
+  async decide(params: {
+    questionId: number
+    decision: ReviewDecision
+    comment?: string
+    actor: ReviewActor
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: 'not_found' | 'comment_required' | 'unchanged' }
+    | { ok: true; question: schema.Question; comment: schema.QuestionReviewComment | null }
+  > {
+    const { questionId, decision, actor, now = new Date() } = params
+    const body = params.comment?.trim()
+    if (decision === 'request_revision' && !body) return { ok: false, reason: 'comment_required' }
+
+    const [current] = await this.db
+      .select({ reviewStatus: schema.questions.reviewStatus })
+      .from(schema.questions)
+      .where(eq(schema.questions.id, questionId))
+      .limit(1)
+
+    if (!current) return { ok: false, reason: 'not_found' }
+
+    const reviewStatus = DECISION_STATUS[decision]
+    if (current.reviewStatus === reviewStatus) return { ok: false, reason: 'unchanged' }
+
+    const [question] = await this.db
+      .update(schema.questions)
+      .set({ reviewStatus, reviewedBy: actor.userId, reviewedAt: now, updatedAt: now })
+      .where(eq(schema.questions.id, questionId))
+      .returning()
+
+    const comment = body ? await this.insertComment(questionId, body, actor, now, decision) : null
+    const resolvedReports = decision === 'request_revision'
+      ? 0
+      : await new QuestionFeedbackQueries(this.db).closeReports({ questionId, status: 'resolved', actor, now })
+
+    const metadata = {
+      ...(comment && { commentId: comment.id }),
+      ...(resolvedReports > 0 && { resolvedReports })
+    }
+
+    await this.audit(actor, `question.${decision}`, questionId, {
+      oldValues: { reviewStatus: current.reviewStatus },
+      newValues: { reviewStatus },
+      metadata: Object.keys(metadata).length > 0 ? metadata : null,
+      now
+    })
+
+    return { ok: true, question, comment }
+  }
+
+  /**
+   * Reply in a question's review thread
+   */
+  async addComment(params: { questionId: number; body: string; actor: ReviewActor; now?: Date }): Promise<
+    | { ok: false; reason: 'not_found' }
+    | { ok: true; comment: schema.QuestionReviewComment }
+  > {
+    const { questionId, actor, now = new Date() } = params
+
+    const [question] = await this.db
+      .select({ id: schema.questions.id })
+      .from(schema.questions)
+      .where(eq(schema.questions.id, questionId))
+      .limit(1)
+
+    if (!question) return { ok: false, reason: 'not_found' }
+
+    return { ok: true, comment: await this.insertComment(questionId, params.body.trim(), actor, now, null) }
+  }
+
+  /**
+   * Correct a question. The content is checked as when authoring and saved
+   * as a new revision; a question sent back for revision returns to the
+   * queue as pending. With resetStats, a substantive change also clears the
+   * attempt counters and discrimination index so they describe the new
+   * wording only.
+   */
+  async editQuestion(params: {
+    questionId: number
+    changes: QuestionEdit
+    resetStats?: boolean
+    actor: ReviewActor
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: 'not_found' | 'objective_not_in_exam' }
+    | { ok: false; reason: 'invalid_content'; errors: string[] }
+    | { ok: true; question: schema.Question; revision: schema.QuestionRevision | null }
+  > {
+    const { questionId, changes, resetStats = false, actor, now = new Date() } = params
+
+    const [current] = await this.db
+      .select()
+      .from(schema.questions)
+      .where(eq(schema.questions.id, questionId))
+      .limit(1)
+
+    if (!current) return { ok: false, reason: 'not_found' }
+
+    if (changes.objectiveId !== undefined && changes.objectiveId !== current.objectiveId) {
+      const [objective] = await this.db
+        .select({ id: schema.objectives.id })
+        .from(schema.objectives)
+        .where(and(eq(schema.objectives.id, changes.objectiveId), eq(schema.objectives.examId, current.examId)))
+        .limit(1)
+
+      if (!objective) return { ok: false, reason: 'objective_not_in_exam' }
+    }
+
+    const merged = { ...current, ...changes }
+    const errors = validateQuestionContent(merged)
+    if (errors.length > 0) return { ok: false, reason: 'invalid_content', errors }
+
+    // Only record fields that actually changed
+    const changed = (Object.keys(changes) as Array<keyof QuestionEdit>).filter(
+      key => changes[key] !== undefined && JSON.stringify(changes[key]) !== JSON.stringify(current[key])
+    )
+    const update: Partial<schema.NewQuestion> = Object.fromEntries(changed.map(key => [key, changes[key]]))
+    if (current.reviewStatus === 'needs_revision') update.reviewStatus = 'pending'
+
+    if (Object.keys(update).length === 0) return { ok: true, question: current, revision: null }
+
+    const revisions = new QuestionRevisionQueries(this.db)
+    const statsReset = resetStats && isSubstantiveChange(changed)
+    if (changed.length > 0) {
+      // The content being replaced must be on record before the new revision
+      await revisions.currentRevisionIds([questionId], now)
+      update.revision = current.revision + 1
+    }
+    if (statsReset) {
+      Object.assign(update, { totalAttempts: 0, correctAttempts: 0, avgTimeSeconds: 0, discriminationIndex: null, statsResetAt: now })
+    }
+
+    const [question] = await this.db
+      .update(schema.questions)
+      .set({ ...update, updatedAt: now })
+      .where(eq(schema.questions.id, questionId))
+      .returning()
+
+    const revision = changed.length > 0
+      ? await revisions.addRevision({ question, changedFields: changed, statsReset, createdBy: actor.userId, now })
+      : null
+
+    await this.audit(actor, 'question.edit', questionId, {
+      oldValues: Object.fromEntries(Object.keys(update).map(key => [key, current[key as keyof schema.Question]])),
+      newValues: update,
+      metadata: revision ? { revision: revision.revision, substantive: revision.substantive, statsReset } : null,
+      now
+    })
+
+    return { ok: true, question, revision }
+  }
+
+  private async insertComment(
+    questionId: number,
+    body: string,
+    actor: ReviewActor,
+    now: Date,
+    decision: ReviewDecision | null
+  ) {
+    const [comment] = await this.db
+      .insert(schema.questionReviewComments)
+      .values({ questionId, userId: actor.userId, decision, body, createdAt: now })
+      .returning()
+
+    return comment
+  }
+
+  private async audit(
+    actor: ReviewActor,
+    action: string,
+    questionId: number,
+    change: { oldValues: unknown; newValues: unknown; metadata: unknown; now: Date }
+  ) {
+    await this.db.insert(schema.auditLog).values({
+      userId: actor.userId,
+      sessionId: actor.sessionId ?? null,
+      ipAddress: actor.ipAddress ?? null,
+      userAgent: actor.userAgent ?? null,
+      action,
+      entityType: 'question',
+      entityId: String(questionId),
+      oldValues: change.oldValues,
+      newValues: change.newValues,
+      metadata: change.metadata,
+      createdAt: change.now
+    })
+  }
+}
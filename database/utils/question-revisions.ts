@@ -0,0 +1,314 @@
+// Question revision history for PingToPass
+// Content is never changed in place without a trace: every edit adds an
+// immutable revision, test attempts pin the revision each question was shown
+// at, and answers record it so past results keep their meaning.
+
+import { and, eq, asc, inArray } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { QuestionAnswer } from '../schema/types'
+
+// Columns copied into every revision
+export const REVISION_FIELDS = [
+  'objectiveId',
+  'text',
+  'type',
+  'answers',
+  'explanation',
+  'reference',
+  'difficulty',
+  'tags',
+  'imageUrl',
+  'diagramData'
+] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+// Changes to these alter what is asked or which answer is right, so earlier statistics no longer describe the item
+export const SUBSTANTIVE_FIELDS: RevisionField[] = ['text', 'type', 'answers', 'imageUrl', 'diagramData']
+
+export type RevisionContent = Pick<schema.QuestionRevision, RevisionField>
+
+// Content a learner sees mid-test, before the answer key is redacted
+export type ShownContent = Pick<schema.Question, 'id' | 'text' | 'type' | 'answers' | 'imageUrl' | 'diagramData' | 'objectiveId' | 'difficulty'>
+
+export interface RevisionDiff {
+  questionId: number
+  from: number
+  to: number
+  substantive: boolean
+  fields: Array<{ field: RevisionField; before: unknown; after: unknown }>
+  // Answer-level detail, matched by answer ID; null when the answers did not change
+  answers: {
+    added: QuestionAnswer[]
+    removed: QuestionAnswer[]
+    changed: Array<{ id: string; before: QuestionAnswer; after: QuestionAnswer }>
+  } | null
+}
+
+export function revisionContent(question: schema.Question | schema.QuestionRevision): RevisionContent {
+  return {
+    objectiveId: question.objectiveId,
+    text: question.text,
+    type: question.type ?? 'multiple_choice',
+    answers: question.answers,
+    explanation: question.explanation,
+    reference: question.reference,
+    difficulty: question.difficulty,
+    tags: question.tags ?? [],
+    imageUrl: question.imageUrl,
+    diagramData: question.diagramData
+  }
+}
+
+export function isSubstantiveChange(fields: string[]): boolean {
+  return fields.some(field => SUBSTANTIVE_FIELDS.includes(field as RevisionField))
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+/**
+ * Field-by-field difference between two snapshots of the same question
+ */
+export function diffRevisionContent(before: RevisionContent, after: RevisionContent): Pick<RevisionDiff, 'substantive' | 'fields' | 'answers'> {
+  const fields = REVISION_FIELDS
+    .filter(field => !same(before[field], after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }))
+
+  let answers: RevisionDiff['answers'] = null
+  if (fields.some(change => change.field === 'answers')) {
+    const beforeById = new Map(before.answers.map(answer => [answer.id, answer]))
+    const afterById = new Map(after.answers.map(answer => [answer.id, answer]))
+    answers = {
+      added: after.answers.filter(answer => !beforeById.has(answer.id)),
+      removed: before.answers.filter(answer => !afterById.has(answer.id)),
+      changed: after.answers.flatMap(answer => {
+        const previous = beforeById.get(answer.id)
+        return previous && !same(previous, answer) ? [{ id: answer.id, before: previous, after: answer }] : []
+      })
+    }
+  }
+
+  return { substantive: isSubstantiveChange(fields.map(change => change.field)), fields, answers }
+}
+
+// Question revision queries
+export class QuestionRevisionQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Row IDs of the current revision of each question. Questions saved before
+   * they had any history get their content recorded as it stands.
+   */
+  async currentRevisionIds(questionIds: number[], now = new Date()): Promise<Map<number, number>> {
+    const result = new Map<number, number>()
+    if (questionIds.length === 0) return result
+
+    const [questions, revisions] = await Promise.all([
+      this.db
+        .select()
+        .from(schema.questions)
+        .where(inArray(schema.questions.id, questionIds)),
+      this.db
+        .select({ id: schema.questionRevisions.id, questionId: schema.questionRevisions.questionId, revision: schema.questionRevisions.revision })
+        .from(schema.questionRevisions)
+        .where(inArray(schema.questionRevisions.questionId, questionIds))
+    ])
+
+    const revisionIdByKey = new Map(revisions.map(row => [`${row.questionId}:${row.revision}`, row.id]))
+    const missing: schema.NewQuestionRevision[] = []
+    for (const question of questions) {
+      const id = revisionIdByKey.get(`${question.id}:${question.revision}`)
+      if (id !== undefined) result.set(question.id, id)
+      else missing.push({ questionId: question.id, revision: question.revision, ...revisionContent(question), createdAt: now })
+    }
+
+    if (missing.length > 0) {
+      // A concurrent caller may record the same revision first; read back whichever row won
+      await this.db
+        .insert(schema.questionRevisions)
+        .values(missing)
+        .onConflictDoNothing({ target: [schema.questionRevisions.questionId, schema.questionRevisions.revision] })
+      const recorded = await this.db
+        .select({ id: schema.questionRevisions.id, questionId: schema.questionRevisions.questionId, revision: schema.questionRevisions.revision })
+        .from(schema.questionRevisions)
+        .where(inArray(schema.questionRevisions.questionId, missing.map(row => row.questionId)))
+      const revisionByQuestion = new Map(missing.map(row => [row.questionId, row.revision]))
+      for (const row of recorded) {
+        if (revisionByQuestion.get(row.questionId) === row.revision) result.set(row.questionId, row.id)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * What the learner is shown for each question: the pinned revision's
+   * content where there is one (matched by position), otherwise the question
+   * as it stands. Keyed by question ID.
+   */
+  async shownContent(questionIds: number[], revisionIds?: Array<number | null> | null): Promise<Map<number, ShownContent>> {
+    const result = new Map<number, ShownContent>()
+    if (questionIds.length === 0) return result
+
+    const pinned = (revisionIds ?? []).filter((id): id is number => id !== null && id !== undefined)
+    const [questions, revisions] = await Promise.all([
+      this.db
+        .select({
+          id: schema.questions.id,
+          text: schema.questions.text,
+          type: schema.questions.type,
+          answers: schema.questions.answers,
+          imageUrl: schema.questions.imageUrl,
+          diagramData: schema.questions.diagramData,
+          objectiveId: schema.questions.objectiveId,
+          difficulty: schema.questions.difficulty
+        })
+        .from(schema.questions)
+        .where(inArray(schema.questions.id, questionIds)),
+      pinned.length > 0
+        ? this.db
+          .select({
+            id: schema.questionRevisions.id,
+            questionId: schema.questionRevisions.questionId,
+            text: schema.questionRevisions.text,
+            type: schema.questionRevisions.type,
+            answers: schema.questionRevisions.answers,
+            imageUrl: schema.questionRevisions.imageUrl,
+            diagramData: schema.questionRevisions.diagramData,
+            objectiveId: schema.questionRevisions.objectiveId,
+            difficulty: schema.questionRevisions.difficulty
+          })
+          .from(schema.questionRevisions)
+          .where(inArray(schema.questionRevisions.id, pinned))
+        : Promise.resolve([])
+    ])
+
+    const revisionById = new Map(revisions.map(row => [row.id, row]))
+    for (const question of questions) result.set(question.id, question)
+
+    questionIds.forEach((questionId, index) => {
+      const revisionId = revisionIds?.[index]
+      const revision = revisionId != null ? revisionById.get(revisionId) : undefined
+      if (!revision || revision.questionId !== questionId || !result.has(questionId)) return
+      result.set(questionId, {
+        id: questionId,
+        text: revision.text,
+        type: revision.type,
+        answers: revision.answers,
+        imageUrl: revision.imageUrl,
+        diagramData: revision.diagramData,
+        objectiveId: revision.objectiveId,
+        difficulty: revision.difficulty
+      })
+    })
+
+    return result
+  }
+
+  /**
+   * Record the question's content as a new revision after an edit
+   */
+  async addRevision(params: {
+    question: schema.Question
+    changedFields: string[]
+    statsReset: boolean
+    createdBy: number | null
+    now?: Date
+  }): Promise<schema.QuestionRevision> {
+    const { question, changedFields, statsReset, createdBy, now = new Date() } = params
+
+    const [revision] = await this.db
+      .insert(schema.questionRevisions)
+      .values({
+        questionId: question.id,
+        revision: question.revision,
+        ...revisionContent(question),
+        changedFields,
+        substantive: isSubstantiveChange(changedFields),
+        statsReset,
+        createdBy,
+        createdAt: now
+      })
+      .returning()
+
+    return revision
+  }
+
+  /**
+   * Content that grades an answer: the pinned revision when it belongs to the
+   * question, otherwise the question as it stands. revisionId is the revision
+   * actually used, for the answer to record.
+   */
+  async gradableContent(questionId: number, revisionId: number | null) {
+    if (revisionId !== null) {
+      const [revision] = await this.db
+        .select({ type: schema.questionRevisions.type, answers: schema.questionRevisions.answers, diagramData: schema.questionRevisions.diagramData })
+        .from(schema.questionRevisions)
+        .where(and(eq(schema.questionRevisions.id, revisionId), eq(schema.questionRevisions.questionId, questionId)))
+        .limit(1)
+      if (revision) return { ...revision, revisionId }
+    }
+
+    const [question] = await this.db
+      .select({ type: schema.questions.type, answers: schema.questions.answers, diagramData: schema.questions.diagramData })
+      .from(schema.questions)
+      .where(eq(schema.questions.id, questionId))
+      .limit(1)
+
+    return question ? { ...question, revisionId: null } : undefined
+  }
+
+  /**
+   * A question's revisions, oldest first
+   */
+  async listRevisions(questionId: number): Promise<
+    | { ok: false; reason: 'not_found' }
+    | { ok: true; currentRevision: number; revisions: schema.QuestionRevision[] }
+  > {
+    const [question] = await this.db
+      .select({ id: schema.questions.id, revision: schema.questions.revision })
+      .from(schema.questions)
+      .where(eq(schema.questions.id, questionId))
+      .limit(1)
+
+    if (!question) return { ok: false, reason: 'not_found' }
+
+    await this.currentRevisionIds([questionId])
+    const revisions = await this.db
+      .select()
+      .from(schema.questionRevisions)
+      .where(eq(schema.questionRevisions.questionId, questionId))
+      .orderBy(asc(schema.questionRevisions.revision))
+
+    return { ok: true, currentRevision: question.revision, revisions }
+  }
+
+  /**
+   * Compare any two revisions of a question, in either order
+   */
+  async diffRevisions(questionId: number, from: number, to: number): Promise<
+    | { ok: false; reason: 'revision_not_found' }
+    | { ok: true; diff: RevisionDiff }
+  > {
+    await this.currentRevisionIds([questionId])
+    const rows = await this.db
+      .select()
+      .from(schema.questionRevisions)
+      .where(
+        and(
+          eq(schema.questionRevisions.questionId, questionId),
+          inArray(schema.questionRevisions.revision, [from, to])
+        )
+      )
+
+    const before = rows.find(row => row.revision === from)
+    const after = rows.find(row => row.revision === to)
+    if (!before || !after) return { ok: false, reason: 'revision_not_found' }
+
+    return {
+      ok: true,
+      diff: { questionId, from, to, ...diffRevisionContent(revisionContent(before), revisionContent(after)) }
+    }
+  }
+}
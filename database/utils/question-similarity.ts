@@ -0,0 +1,501 @@
+// Near-duplicate question detection for PingToPass
+// Questions are fingerprinted with MinHash over word shingles of the stem and
+// answers. Locality-sensitive hashing narrows the comparison to likely pairs,
+// so new questions are checked against the whole exam when they are saved and
+// an exam can be scanned in one pass. Reviewers resolve flagged pairs by merging,
+// retiring one side or dismissing the flag.
+
+import { and, eq, or, inArray, notInArray, isNull, desc, sql, type SQL } from 'drizzle-orm'
+import { alias } from 'drizzle-orm/sqlite-core'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { SimilarityFlagStatus } from '../schema/types'
+import { normalizeQuestionText } from './question-interchange'
+import type { ReviewActor } from './question-review'
+import { fnv1a, fmix32, hashHex } from './hashing'
+
+export const SIMILARITY_CONFIG = {
+  numHashes: 128,
+  // 32 bands of 4 rows: pairs above ~0.6 similarity almost always share a band
+  bands: 32,
+  shingleSize: 2,
+  // Estimated Jaccard similarity at which a pair is flagged
+  threshold: 0.7,
+  maxPageSize: 100,
+  insertBatchSize: 100
+} as const
+
+export type SimilarityAction = 'merge' | 'retire' | 'dismiss'
+
+const ACTION_STATUS: Record<SimilarityAction, SimilarityFlagStatus> = {
+  merge: 'merged',
+  retire: 'retired',
+  dismiss: 'dismissed'
+}
+
+export interface SimilarityMatch {
+  questionId: number
+  similarity: number
+}
+
+const HASH_SEEDS = Array.from({ length: SIMILARITY_CONFIG.numHashes }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)))
+
+/**
+ * Text that is fingerprinted: the stem followed by the answers in a fixed
+ * order, so shuffled answers do not hide a copy
+ */
+export function similarityContent(text: string, answers: Array<{ text: string }>): string {
+  return [normalizeQuestionText(text), ...answers.map(answer => normalizeQuestionText(answer.text)).sort()].join(' ')
+}
+
+export function shingles(content: string): Set<string> {
+  const words = content.split(' ').filter(Boolean)
+  const size = SIMILARITY_CONFIG.shingleSize
+  if (words.length <= size) return new Set(words.length ? [words.join(' ')] : [])
+
+  const result = new Set<string>()
+  for (let i = 0; i + size <= words.length; i++) result.add(words.slice(i, i + size).join(' '))
+  return result
+}
+
+export function minhashSignature(shingleSet: Set<string>): number[] {
+  const signature = new Array<number>(SIMILARITY_CONFIG.numHashes).fill(0xffffffff)
+  for (const shingle of shingleSet) {
+    const base = fnv1a(shingle)
+    for (let i = 0; i < signature.length; i++) {
+      const value = fmix32(base ^ HASH_SEEDS[i])
+      if (value < signature[i]) signature[i] = value
+    }
+  }
+  return signature
+}
+
+// Share of matching signature slots, an unbiased estimate of Jaccard similarity
+export function estimateSimilarity(a: number[], b: number[]): number {
+  let same = 0
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++
+  return same / a.length
+}
+
+/**
+ * In-memory LSH index over one exam's signatures
+ */
+export class SimilarityIndex {
+  private signatures = new Map<number, number[]>()
+  private buckets = new Map<string, number[]>()
+
+  add(questionId: number, signature: number[]) {
+    this.signatures.set(questionId, signature)
+    for (const key of this.bandKeys(signature)) {
+      const bucket = this.buckets.get(key)
+      if (bucket) bucket.push(questionId)
+      else this.buckets.set(key, [questionId])
+    }
+  }
+
+  get size() {
+    return this.signatures.size
+  }
+
+  signature(questionId: number) {
+    return this.signatures.get(questionId)
+  }
+
+  /**
+   * Indexed questions at or above the threshold, most similar first
+   */
+  query(signature: number[], threshold: number, exclude: number[] = []): SimilarityMatch[] {
+    const candidates = new Set<number>()
+    for (const key of this.bandKeys(signature)) {
+      for (const id of this.buckets.get(key) ?? []) candidates.add(id)
+    }
+    for (const id of exclude) candidates.delete(id)
+
+    return [...candidates]
+      .map(questionId => ({ questionId, similarity: estimateSimilarity(signature, this.signatures.get(questionId)!) }))
+      .filter(match => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity || a.questionId - b.questionId)
+  }
+
+  /**
+   * Every pair at or above the threshold, newer question first in each pair
+   */
+  pairs(threshold: number): Array<{ questionId: number; similarQuestionId: number; similarity: number }> {
+    const result: Array<{ questionId: number; similarQuestionId: number; similarity: number }> = []
+    for (const [questionId, signature] of this.signatures) {
+      for (const match of this.query(signature, threshold, [questionId])) {
+        if (match.questionId < questionId) result.push({ questionId, similarQuestionId: match.questionId, similarity: match.similarity })
+      }
+    }
+    return result.sort((a, b) => b.similarity - a.similarity || a.questionId - b.questionId)
+  }
+
+  private bandKeys(signature: number[]) {
+    const rows = signature.length / SIMILARITY_CONFIG.bands
+    return Array.from({ length: SIMILARITY_CONFIG.bands }, (_, band) =>
+      `${band}:${signature.slice(band * rows, (band + 1) * rows).join(',')}`
+    )
+  }
+}
+
+// Question similarity queries
+export class QuestionSimilarityQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Active questions in the exam that look like the given content. Nothing
+   * is written; use this to warn an author before saving.
+   */
+  async findSimilar(params: {
+    examId: number
+    text: string
+    answers: Array<{ text: string }>
+    excludeQuestionIds?: number[]
+    threshold?: number
+  }): Promise<SimilarityMatch[]> {
+    const { examId, excludeQuestionIds = [], threshold = SIMILARITY_CONFIG.threshold } = params
+    const index = await this.examIndex(examId, new Date())
+    const signature = minhashSignature(shingles(similarityContent(params.text, params.answers)))
+    return index.query(signature, threshold, excludeQuestionIds)
+  }
+
+  /**
+   * Check newly saved questions against the rest of their exam and open a
+   * flag for each near-duplicate found. Called from every path that inserts
+   * questions.
+   */
+  async flagQuestions(questionIds: number[], options: { threshold?: number; now?: Date } = {}) {
+    const { threshold = SIMILARITY_CONFIG.threshold, now = new Date() } = options
+    if (questionIds.length === 0) return []
+
+    const rows = await this.db
+      .select({ id: schema.questions.id, examId: schema.questions.examId })
+      .from(schema.questions)
+      .where(inArray(schema.questions.id, questionIds))
+
+    const flags: schema.NewQuestionSimilarityFlag[] = []
+    for (const examId of new Set(rows.map(row => row.examId))) {
+      const index = await this.examIndex(examId, now)
+      for (const { id } of rows.filter(row => row.examId === examId)) {
+        const signature = index.signature(id)
+        if (!signature) continue
+        for (const match of index.query(signature, threshold, [id])) {
+          flags.push({
+            examId,
+            questionId: Math.max(id, match.questionId),
+            similarQuestionId: Math.min(id, match.questionId),
+            similarity: match.similarity,
+            createdAt: now
+          })
+        }
+      }
+    }
+
+    return this.insertFlags(flags)
+  }
+
+  /**
+   * Batch report of every near-duplicate pair in an exam. Pairs not seen
+   * before are flagged; pairs resolved earlier are reported with their
+   * status and left alone.
+   */
+  async scanExam(params: { examId: number; threshold?: number; now?: Date }): Promise<
+    | { ok: false; reason: 'exam_not_found' }
+    | {
+        ok: true
+        report: {
+          examId: number
+          threshold: number
+          scanned: number
+          newFlags: number
+          pairs: Array<{
+            questionId: number
+            similarQuestionId: number
+            similarity: number
+            flagId: number | null
+            status: SimilarityFlagStatus
+          }>
+        }
+      }
+  > {
+    const { examId, threshold = SIMILARITY_CONFIG.threshold, now = new Date() } = params
+
+    const [exam] = await this.db
+      .select({ id: schema.exams.id })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam) return { ok: false, reason: 'exam_not_found' }
+
+    const index = await this.examIndex(examId, now)
+    const pairs = index.pairs(threshold)
+    const inserted = await this.insertFlags(pairs.map(pair => ({ ...pair, examId, createdAt: now })))
+
+    const existing = await this.db
+      .select({
+        id: schema.questionSimilarityFlags.id,
+        questionId: schema.questionSimilarityFlags.questionId,
+        similarQuestionId: schema.questionSimilarityFlags.similarQuestionId,
+        status: schema.questionSimilarityFlags.status
+      })
+      .from(schema.questionSimilarityFlags)
+      .where(eq(schema.questionSimilarityFlags.examId, examId))
+    const byPair = new Map(existing.map(flag => [`${flag.questionId}:${flag.similarQuestionId}`, flag]))
+
+    return {
+      ok: true,
+      report: {
+        examId,
+        threshold,
+        scanned: index.size,
+        newFlags: inserted.length,
+        pairs: pairs.map(pair => {
+          const flag = byPair.get(`${pair.questionId}:${pair.similarQuestionId}`)
+          return { ...pair, flagId: flag?.id ?? null, status: flag?.status ?? 'open' }
+        })
+      }
+    }
+  }
+
+  /**
+   * Flags with both questions' text, most similar first
+   */
+  async listFlags(params: { examId?: number; status?: SimilarityFlagStatus; limit?: number; offset?: number } = {}) {
+    const { examId, status = 'open', limit = 20, offset = 0 } = params
+    const similar = alias(schema.questions, 'similar_question')
+
+    const conditions: SQL[] = [eq(schema.questionSimilarityFlags.status, status)]
+    if (examId !== undefined) conditions.push(eq(schema.questionSimilarityFlags.examId, examId))
+
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select({
+          id: schema.questionSimilarityFlags.id,
+          examId: schema.questionSimilarityFlags.examId,
+          similarity: schema.questionSimilarityFlags.similarity,
+          status: schema.questionSimilarityFlags.status,
+          keptQuestionId: schema.questionSimilarityFlags.keptQuestionId,
+          createdAt: schema.questionSimilarityFlags.createdAt,
+          question: {
+            id: schema.questions.id,
+            text: schema.questions.text,
+            reviewStatus: schema.questions.reviewStatus,
+            aiGenerated: schema.questions.aiGenerated
+          },
+          similarQuestion: {
+            id: similar.id,
+            text: similar.text,
+            reviewStatus: similar.reviewStatus,
+            aiGenerated: similar.aiGenerated
+          }
+        })
+        .from(schema.questionSimilarityFlags)
+        .innerJoin(schema.questions, eq(schema.questionSimilarityFlags.questionId, schema.questions.id))
+        .innerJoin(similar, eq(schema.questionSimilarityFlags.similarQuestionId, similar.id))
+        .where(and(...conditions))
+        .orderBy(desc(schema.questionSimilarityFlags.similarity), desc(schema.questionSimilarityFlags.id))
+        .limit(Math.min(limit, SIMILARITY_CONFIG.maxPageSize))
+        .offset(offset),
+      this.db
+        .select({ total: sql<number>`count(*)` })
+        .from(schema.questionSimilarityFlags)
+        .where(and(...conditions))
+    ])
+
+    return { items, total: Number(total) }
+  }
+
+  /**
+   * Resolve a flag. keepQuestionId defaults to the older question.
+   * - merge: the other question's practice answers, review schedules and
+   *   attempt counts move to the kept question, then it is deactivated;
+   *   test attempts that showed it are left alone
+   * - retire: the other question is deactivated and keeps its history
+   * - dismiss: the pair is not a duplicate and will not be flagged again
+   */
+  async resolveFlag(params: {
+    flagId: number
+    action: SimilarityAction
+    keepQuestionId?: number
+    actor: ReviewActor
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: 'not_found' | 'already_resolved' | 'invalid_keep' }
+    | { ok: true; flag: schema.QuestionSimilarityFlag; movedAnswers: number }
+  > {
+    const { flagId, action, actor, now = new Date() } = params
+
+    const [current] = await this.db
+      .select()
+      .from(schema.questionSimilarityFlags)
+      .where(eq(schema.questionSimilarityFlags.id, flagId))
+      .limit(1)
+
+    if (!current) return { ok: false, reason: 'not_found' }
+    if (current.status !== 'open') return { ok: false, reason: 'already_resolved' }
+
+    const keepId = params.keepQuestionId ?? current.similarQuestionId
+    if (keepId !== current.questionId && keepId !== current.similarQuestionId) return { ok: false, reason: 'invalid_keep' }
+    const dropId = keepId === current.questionId ? current.similarQuestionId : current.questionId
+
+    let movedAnswers = 0
+    if (action === 'merge') movedAnswers = await this.mergeInto(keepId, dropId, now)
+    if (action !== 'dismiss') {
+      await this.db
+        .update(schema.questions)
+        .set({ isActive: false, updatedAt: now })
+        .where(eq(schema.questions.id, dropId))
+    }
+
+    const [flag] = await this.db
+      .update(schema.questionSimilarityFlags)
+      .set({
+        status: ACTION_STATUS[action],
+        keptQuestionId: action === 'dismiss' ? null : keepId,
+        resolvedBy: actor.userId,
+        resolvedAt: now
+      })
+      .where(eq(schema.questionSimilarityFlags.id, flagId))
+      .returning()
+
+    if (action !== 'dismiss') {
+      // Other open flags on the deactivated question are moot now
+      await this.db
+        .update(schema.questionSimilarityFlags)
+        .set({ status: ACTION_STATUS[action], resolvedBy: actor.userId, resolvedAt: now })
+        .where(
+          and(
+            eq(schema.questionSimilarityFlags.status, 'open'),
+            or(
+              eq(schema.questionSimilarityFlags.questionId, dropId),
+              eq(schema.questionSimilarityFlags.similarQuestionId, dropId)
+            )
+          )
+        )
+
+      await this.db.insert(schema.auditLog).values({
+        userId: actor.userId,
+        sessionId: actor.sessionId ?? null,
+        ipAddress: actor.ipAddress ?? null,
+        userAgent: actor.userAgent ?? null,
+        action: `question.${action}`,
+        entityType: 'question',
+        entityId: String(dropId),
+        oldValues: { isActive: true },
+        newValues: { isActive: false },
+        metadata: { flagId, keptQuestionId: keepId, similarity: current.similarity, movedAnswers },
+        createdAt: now
+      })
+    }
+
+    return { ok: true, flag, movedAnswers }
+  }
+
+  /**
+   * Move history from a duplicate onto the question being kept. Answers keep
+   * their original selection and record where they came from. Test attempts
+   * are left as they were: each one pins the revisions it showed, and its
+   * answers stay graded and reviewed against the duplicate's content.
+   */
+  private async mergeInto(keepId: number, dropId: number, now: Date): Promise<number> {
+    const moved = await this.db
+      .update(schema.userAnswers)
+      .set({
+        questionId: keepId,
+        mergedFromQuestionId: sql`coalesce(${schema.userAnswers.mergedFromQuestionId}, ${dropId})`
+      })
+      .where(and(eq(schema.userAnswers.questionId, dropId), isNull(schema.userAnswers.testAttemptId)))
+      .returning({ isCorrect: schema.userAnswers.isCorrect })
+
+    // One review schedule per user and question: a learner who already has one for the kept question keeps it
+    const keepUsers = await this.db
+      .select({ userId: schema.reviewStates.userId })
+      .from(schema.reviewStates)
+      .where(eq(schema.reviewStates.questionId, keepId))
+    const scheduled = keepUsers.map(state => state.userId)
+
+    await this.db
+      .update(schema.reviewStates)
+      .set({ questionId: keepId, updatedAt: now })
+      .where(
+        and(
+          eq(schema.reviewStates.questionId, dropId),
+          ...(scheduled.length > 0 ? [notInArray(schema.reviewStates.userId, scheduled)] : [])
+        )
+      )
+    await this.db.delete(schema.reviewStates).where(eq(schema.reviewStates.questionId, dropId))
+
+    if (moved.length > 0) {
+      const correct = moved.filter(answer => answer.isCorrect).length
+      await this.db
+        .update(schema.questions)
+        .set({
+          totalAttempts: sql`coalesce(${schema.questions.totalAttempts}, 0) + ${moved.length}`,
+          correctAttempts: sql`coalesce(${schema.questions.correctAttempts}, 0) + ${correct}`,
+          updatedAt: now
+        })
+        .where(eq(schema.questions.id, keepId))
+      await this.db
+        .update(schema.questions)
+        .set({
+          totalAttempts: sql`max(coalesce(${schema.questions.totalAttempts}, 0) - ${moved.length}, 0)`,
+          correctAttempts: sql`max(coalesce(${schema.questions.correctAttempts}, 0) - ${correct}, 0)`
+        })
+        .where(eq(schema.questions.id, dropId))
+    }
+
+    return moved.length
+  }
+
+  /**
+   * Signatures for the exam's active questions, computing any that are
+   * missing or out of date
+   */
+  private async examIndex(examId: number, now: Date): Promise<SimilarityIndex> {
+    const [questions, fingerprints] = await Promise.all([
+      this.db
+        .select({ id: schema.questions.id, text: schema.questions.text, answers: schema.questions.answers })
+        .from(schema.questions)
+        .where(and(eq(schema.questions.examId, examId), eq(schema.questions.isActive, true))),
+      this.db
+        .select()
+        .from(schema.questionFingerprints)
+        .where(eq(schema.questionFingerprints.examId, examId))
+    ])
+    const stored = new Map(fingerprints.map(fingerprint => [fingerprint.questionId, fingerprint]))
+
+    const index = new SimilarityIndex()
+    for (const question of questions) {
+      const content = similarityContent(question.text, question.answers)
+      const contentHash = hashHex(content)
+      let signature = stored.get(question.id)?.signature
+      if (!signature || stored.get(question.id)?.contentHash !== contentHash) {
+        signature = minhashSignature(shingles(content))
+        await this.db
+          .insert(schema.questionFingerprints)
+          .values({ questionId: question.id, examId, signature, contentHash, updatedAt: now })
+          .onConflictDoUpdate({
+            target: schema.questionFingerprints.questionId,
+            set: { examId, signature, contentHash, updatedAt: now }
+          })
+      }
+      index.add(question.id, signature)
+    }
+
+    return index
+  }
+
+  // Pairs flagged before, in either state, are skipped
+  private async insertFlags(flags: schema.NewQuestionSimilarityFlag[]) {
+    const inserted: schema.QuestionSimilarityFlag[] = []
+    for (let i = 0; i < flags.length; i += SIMILARITY_CONFIG.insertBatchSize) {
+      inserted.push(...await this.db
+        .insert(schema.questionSimilarityFlags)
+        .values(flags.slice(i, i + SIMILARITY_CONFIG.insertBatchSize))
+        .onConflictDoNothing()
+        .returning())
+    }
+    return inserted
+  }
+}
@@ -0,0 +1,400 @@
+// Exam readiness for PingToPass learners
+// Blends weighted objective mastery, bank coverage and recent test scores
+
+import { and, eq, desc, sql, countDistinct } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { ObjectiveMastery, ScoreScale } from '../schema/types'
+import { ScoringQueries, domainResolver, resolveScoreScale, toScaledScore, SCORING_CONFIG, type ScoringObjective } from './scoring'
+
+export const READINESS_CONFIG = {
+  // An answer counts half as much after this many days
+  halfLifeDays: 14,
+  // Pessimistic prior: an unstudied domain counts as 0% mastered, not 50%
+  priorCorrect: 0,
+  priorTotal: 2,
+  // Share of the readiness score; renormalized when there are no tests yet
+  componentWeights: { mastery: 0.55, coverage: 0.15, tests: 0.3 },
+  // Tests considered, most recent first
+  recentTests: 5,
+  // How far test results pull the prediction away from answer mastery
+  testInfluencePerAttempt: 0.15,
+  maxTestInfluence: 0.6,
+  // Domains this far above the cut score count as strong
+  strongMargin: 0.1,
+  // Untouched for this many half-lives means a domain is due for review
+  staleHalfLives: 2,
+  maxRecommendations: 3
+} as const
+
+export type ReadinessComponent = keyof typeof READINESS_CONFIG.componentWeights
+export type DomainStatus = 'not_started' | 'weak' | 'on_track' | 'strong'
+export type RecommendationReason = 'not_started' | 'below_passing' | 'review_due'
+
+export interface DomainReadiness {
+  objectiveId: number
+  code: string
+  name: string
+  weight: number // 0-1 share of the exam
+  mastery: number // 0-1, recency weighted
+  answered: number
+  lastStudied: Date | null
+  status: DomainStatus
+}
+
+export interface ReadinessFactor {
+  component: ReadinessComponent
+  value: number // 0-1
+  weight: number // Share of the readiness score actually applied
+  contribution: number // value * weight
+  summary: string
+}
+
+export interface ReadinessRecommendation {
+  objectiveId: number
+  code: string
+  name: string
+  mastery: number
+  reason: RecommendationReason
+}
+
+export interface ReadinessReport {
+  readinessScore: number // 0-1
+  predictedExamScore: number // 0-1 raw
+  predictedScaledScore: number
+  confidenceInterval: number // Half-width of the 95% interval on predictedExamScore
+  passingScore: number
+  scale: ScoreScale
+  factors: ReadinessFactor[]
+  domains: DomainReadiness[]
+  recommendations: ReadinessRecommendation[]
+  weakTopics: string[]
+  computedAt: Date
+}
+
+export interface ReadinessInput {
+  objectives: ScoringObjective[]
+  answers: Array<{ objectiveId: number; isCorrect: boolean; answeredAt: Date | null }>
+  questionsSeen: number
+  questionBankSize: number
+  tests: Array<{ score: number; completedAt: Date | null }>
+  passingScore: number | null
+  scoreScale: ScoreScale | null
+  now?: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Weight of evidence recorded `ageDays` ago
+ */
+export function recencyWeight(ageDays: number): number {
+  return Math.pow(0.5, Math.max(0, ageDays) / READINESS_CONFIG.halfLifeDays)
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+const round4 = (value: number) => Number(value.toFixed(4))
+
+/**
+ * Compute the readiness report from a learner's history for one exam
+ */
+export function computeReadiness(input: ReadinessInput): ReadinessReport {
+  const now = input.now ?? new Date()
+  const passingScore = input.passingScore ?? SCORING_CONFIG.defaultPassingScore
+  const scale = resolveScoreScale({ scoreScale: input.scoreScale, passingScore })
+  const domainOf = domainResolver(input.objectives)
+  // Rows written with the SQL CURRENT_TIMESTAMP default read back as invalid dates
+  const validDate = (at: Date | null) => at && !Number.isNaN(at.getTime()) ? at : null
+  const ageDays = (at: Date | null) => {
+    const valid = validDate(at)
+    return valid ? (now.getTime() - valid.getTime()) / DAY_MS : 0
+  }
+
+  // Recency-weighted evidence per domain
+  const evidence = new Map<number, { correct: number; total: number; answered: number; lastStudied: Date | null }>()
+  for (const answer of input.answers) {
+    const domain = domainOf(answer.objectiveId)
+    if (!domain) continue
+
+    const weight = recencyWeight(ageDays(answer.answeredAt))
+    const entry = evidence.get(domain.id) ?? { correct: 0, total: 0, answered: 0, lastStudied: null }
+    entry.total += weight
+    entry.correct += answer.isCorrect ? weight : 0
+    entry.answered += 1
+    const answeredAt = validDate(answer.answeredAt)
+    if (answeredAt && (!entry.lastStudied || answeredAt > entry.lastStudied)) {
+      entry.lastStudied = answeredAt
+    }
+    evidence.set(domain.id, entry)
+  }
+
+  const topLevel = input.objectives.filter(objective => domainOf(objective.id)?.id === objective.id)
+  const weightSum = topLevel.reduce((sum, domain) => sum + (domain.weight ?? 0), 0)
+
+  const domains: DomainReadiness[] = topLevel
+    .map(domain => {
+      const entry = evidence.get(domain.id)
+      const mastery = entry
+        ? (entry.correct + READINESS_CONFIG.priorCorrect) / (entry.total + READINESS_CONFIG.priorTotal)
+        : 0
+
+      let status: DomainStatus = 'not_started'
+      if (entry) {
+        status = mastery >= passingScore + READINESS_CONFIG.strongMargin ? 'strong'
+          : mastery >= passingScore ? 'on_track'
+          : 'weak'
+      }
+
+      return {
+        objectiveId: domain.id,
+        code: domain.code,
+        name: domain.name,
+        weight: round4(weightSum > 0 ? (domain.weight ?? 0) / weightSum : 1 / topLevel.length),
+        mastery: round4(mastery),
+        answered: entry?.answered ?? 0,
+        lastStudied: entry?.lastStudied ?? null,
+        status
+      }
+    })
+    .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+
+  const weightedMastery = domains.reduce((sum, domain) => sum + domain.weight * domain.mastery, 0)
+  const coverage = input.questionBankSize > 0 ? Math.min(1, input.questionsSeen / input.questionBankSize) : 0
+
+  // Recent tests, newer ones counting more
+  const tests = input.tests.slice(0, READINESS_CONFIG.recentTests)
+  const testWeights = tests.map(test => recencyWeight(ageDays(test.completedAt)))
+  const testWeightSum = testWeights.reduce((sum, weight) => sum + weight, 0)
+  const testScore = testWeightSum > 0
+    ? tests.reduce((sum, test, i) => sum + test.score * testWeights[i], 0) / testWeightSum
+    : null
+
+  const components: Array<{ component: ReadinessComponent; value: number | null }> = [
+    { component: 'mastery', value: weightedMastery },
+    { component: 'coverage', value: coverage },
+    { component: 'tests', value: testScore }
+  ]
+  const applied = components.filter(c => c.value !== null) as Array<{ component: ReadinessComponent; value: number }>
+  const appliedWeight = applied.reduce((sum, c) => sum + READINESS_CONFIG.componentWeights[c.component], 0)
+
+  const factors: ReadinessFactor[] = applied.map(({ component, value }) => {
+    const weight = READINESS_CONFIG.componentWeights[component] / appliedWeight
+    const summaries: Record<ReadinessComponent, string> = {
+      mastery: `Weighted mastery across ${domains.length} exam domains is ${percent(value)}`,
+      coverage: `You have seen ${input.questionsSeen} of ${input.questionBankSize} questions (${percent(value)})`,
+      tests: `Your last ${tests.length} practice test${tests.length === 1 ? '' : 's'} averaged ${percent(value)}`
+    }
+    return {
+      component,
+      value: round4(value),
+      weight: round4(weight),
+      contribution: round4(value * weight),
+      summary: summaries[component]
+    }
+  })
+
+  const readinessScore = factors.reduce((sum, factor) => sum + factor.value * factor.weight, 0)
+
+  // Tests pull the prediction toward real exam conditions as they accumulate
+  const testInfluence = testScore === null
+    ? 0
+    : Math.min(READINESS_CONFIG.maxTestInfluence, tests.length * READINESS_CONFIG.testInfluencePerAttempt)
+  const predictedExamScore = weightedMastery * (1 - testInfluence) + (testScore ?? 0) * testInfluence
+
+  // Normal approximation on the effective number of observations
+  const effectiveObservations = [...evidence.values()].reduce((sum, entry) => sum + entry.total, 0) + testWeightSum * 10
+  const confidenceInterval = Math.min(
+    0.5,
+    1.96 * Math.sqrt((predictedExamScore * (1 - predictedExamScore) + 0.01) / (effectiveObservations + 1))
+  )
+
+  // Biggest weighted gaps to a comfortable margin first
+  const target = Math.min(1, passingScore + READINESS_CONFIG.strongMargin)
+  const staleDays = READINESS_CONFIG.halfLifeDays * READINESS_CONFIG.staleHalfLives
+  const recommendations = domains
+    .map(domain => {
+      let reason: RecommendationReason | null = null
+      if (domain.status === 'not_started') reason = 'not_started'
+      else if (domain.status === 'weak') reason = 'below_passing'
+      else if (domain.lastStudied && ageDays(domain.lastStudied) > staleDays) reason = 'review_due'
+
+      const gap = Math.max(0, target - domain.mastery) || 0.01
+      return { domain, reason, priority: domain.weight * gap }
+    })
+    .filter(entry => entry.reason !== null)
+    .sort((a, b) => b.priority - a.priority)
+    .slice(0, READINESS_CONFIG.maxRecommendations)
+    .map(({ domain, reason }) => ({
+      objectiveId: domain.objectiveId,
+      code: domain.code,
+      name: domain.name,
+      mastery: domain.mastery,
+      reason: reason!
+    }))
+
+  return {
+    readinessScore: round4(readinessScore),
+    predictedExamScore: round4(predictedExamScore),
+    predictedScaledScore: toScaledScore(predictedExamScore, passingScore, scale),
+    confidenceInterval: round4(confidenceInterval),
+    passingScore,
+    scale,
+    factors,
+    domains,
+    recommendations,
+    weakTopics: domains
+      .filter(domain => domain.status === 'weak' || domain.status === 'not_started')
+      .map(domain => domain.name),
+    computedAt: now
+  }
+}
+
+// Readiness queries - recompute and explain user_progress readiness fields
+export class ReadinessQueries {
+  private scoring: ScoringQueries
+
+  constructor(private db: Database) {
+    this.scoring = new ScoringQueries(db)
+  }
+
+  /**
+   * Build the readiness report from the learner's answers and tests
+   */
+  async explainReadiness(userId: number, examId: number, now = new Date()): Promise<ReadinessReport | null> {
+    const [exam] = await this.db
+      .select({ passingScore: schema.exams.passingScore, scoreScale: schema.exams.scoreScale })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam) return null
+
+    const [objectives, answers, [seen], [bank], tests] = await Promise.all([
+      this.scoring.getExamObjectives(examId),
+      this.db
+        .select({
+          objectiveId: schema.questions.objectiveId,
+          isCorrect: schema.userAnswers.isCorrect,
+          answeredAt: schema.userAnswers.answeredAt
+        })
+        .from(schema.userAnswers)
+        .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+        .where(
+          and(
+            eq(schema.userAnswers.userId, userId),
+            eq(schema.questions.examId, examId)
+          )
+        ),
+      this.db
+        .select({ count: countDistinct(schema.userAnswers.questionId) })
+        .from(schema.userAnswers)
+        .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+        .where(
+          and(
+            eq(schema.userAnswers.userId, userId),
+            eq(schema.questions.examId, examId)
+          )
+        ),
+      this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.questions)
+        .where(
+          and(
+            eq(schema.questions.examId, examId),
+            eq(schema.questions.isActive, true),
+            eq(schema.questions.reviewStatus, 'approved')
+          )
+        ),
+      this.getCompletedTests(userId, examId, READINESS_CONFIG.recentTests)
+    ])
+
+    return computeReadiness({
+      objectives,
+      answers,
+      questionsSeen: seen?.count ?? 0,
+      questionBankSize: Number(bank?.count ?? 0),
+      tests: tests.map(test => ({ score: test.score ?? 0, completedAt: test.completedAt })),
+      passingScore: exam.passingScore,
+      scoreScale: exam.scoreScale,
+      now
+    })
+  }
+
+  /**
+   * Recompute readiness and write it, with the test history summary, to user_progress
+   */
+  async recomputeReadiness(userId: number, examId: number, now = new Date()): Promise<ReadinessReport | null> {
+    const report = await this.explainReadiness(userId, examId, now)
+    if (!report) return null
+
+    const [tests, [stored]] = await Promise.all([
+      this.getCompletedTests(userId, examId),
+      this.db
+        .select({ objectiveMastery: schema.userProgress.objectiveMastery })
+        .from(schema.userProgress)
+        .where(and(eq(schema.userProgress.userId, userId), eq(schema.userProgress.examId, examId)))
+        .limit(1)
+    ])
+    const scores = tests.map(test => test.score ?? 0)
+    const lastTest = tests[0]?.completedAt
+
+    // Mastery carried over from a retired exam version stays until the objective is answered here
+    const objectiveMastery: ObjectiveMastery = {
+      ...(stored?.objectiveMastery ?? {}),
+      ...Object.fromEntries(
+        report.domains
+          .filter(domain => domain.answered > 0)
+          .map(domain => [String(domain.objectiveId), {
+            level: domain.mastery,
+            questionsAnswered: domain.answered,
+            lastStudied: domain.lastStudied ?? undefined
+          }])
+      )
+    }
+
+    const values = {
+      objectiveMastery,
+      readinessScore: report.readinessScore,
+      predictedExamScore: report.predictedExamScore,
+      confidenceInterval: report.confidenceInterval,
+      weakTopics: report.weakTopics,
+      recommendedObjectives: report.recommendations.map(r => r.objectiveId),
+      testsTaken: tests.length,
+      testsPassed: tests.filter(test => test.passed).length,
+      bestScore: scores.length > 0 ? Math.max(...scores) : 0,
+      avgTestScore: scores.length > 0 ? round4(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0,
+      lastTestDate: lastTest ? lastTest.toISOString().split('T')[0] : null,
+      updatedAt: now
+    }
+
+    await this.db
+      .insert(schema.userProgress)
+      .values({ userId, examId, ...values })
+      .onConflictDoUpdate({
+        target: [schema.userProgress.userId, schema.userProgress.examId],
+        set: values
+      })
+
+    return report
+  }
+
+  private async getCompletedTests(userId: number, examId: number, limit?: number) {
+    const query = this.db
+      .select({
+        score: schema.testAttempts.score,
+        passed: schema.testAttempts.passed,
+        completedAt: schema.testAttempts.completedAt
+      })
+      .from(schema.testAttempts)
+      .where(
+        and(
+          eq(schema.testAttempts.userId, userId),
+          eq(schema.testAttempts.examId, examId),
+          eq(schema.testAttempts.status, 'completed')
+        )
+      )
+      .orderBy(desc(schema.testAttempts.completedAt), desc(schema.testAttempts.id))
+
+    return limit ? await query.limit(limit) : await query
+  }
+}
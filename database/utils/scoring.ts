@@ -0,0 +1,210 @@
+// Scaled scoring for PingToPass score reports
+// Maps weighted raw results onto the vendor's reporting scale and cut score
+
+import { and, eq, asc } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { ObjectiveBreakdown, ScoreScale, DomainScore } from '../schema/types'
+
+export const SCORING_CONFIG = {
+  // Used when an exam has no vendor scale configured
+  defaultScale: { min: 100, max: 1000 },
+  defaultPassingScore: 0.65
+} as const
+
+export type ScoringObjective = Pick<schema.Objective, 'id' | 'code' | 'name' | 'weight' | 'parentId'>
+
+/**
+ * The scale an exam reports on. Exams without one get a 100-1000 scale whose
+ * cut score is the raw passing score projected linearly onto it.
+ */
+export function resolveScoreScale(exam: { scoreScale: ScoreScale | null; passingScore: number | null }): ScoreScale {
+  if (exam.scoreScale) return exam.scoreScale
+
+  const { min, max } = SCORING_CONFIG.defaultScale
+  const rawCut = exam.passingScore ?? SCORING_CONFIG.defaultPassingScore
+  return { min, max, passing: Math.round(min + rawCut * (max - min)), step: 1 }
+}
+
+/**
+ * Convert a raw 0-1 score to the scaled score. The mapping is piecewise linear
+ * through the cut score, so the raw passing score always lands exactly on the
+ * vendor's passing mark whatever the scale.
+ */
+export function toScaledScore(raw: number, rawCut: number, scale: ScoreScale): number {
+  const clampedRaw = Math.min(1, Math.max(0, raw))
+  const cut = Math.min(0.999, Math.max(0.001, rawCut))
+
+  const scaled = clampedRaw <= cut
+    ? scale.min + (clampedRaw / cut) * (scale.passing - scale.min)
+    : scale.passing + ((clampedRaw - cut) / (1 - cut)) * (scale.max - scale.passing)
+
+  const step = scale.step ?? 1
+  const rounded = Math.round(scaled / step) * step
+  return Math.min(scale.max, Math.max(scale.min, rounded))
+}
+
+/**
+ * Map every objective to its exam domain (top-level ancestor)
+ */
+export function domainResolver<T extends Pick<schema.Objective, 'id' | 'parentId'>>(objectives: T[]) {
+  const byId = new Map(objectives.map(objective => [objective.id, objective]))
+
+  return (objectiveId: number): T | undefined => {
+    let objective = byId.get(objectiveId)
+    const seen = new Set<number>()
+    while (objective?.parentId != null && byId.has(objective.parentId) && !seen.has(objective.id)) {
+      seen.add(objective.id)
+      objective = byId.get(objective.parentId)
+    }
+    return objective
+  }
+}
+
+/**
+ * Roll the per-objective breakdown up to exam domains (top-level objectives)
+ * and normalize domain weights over the domains that were actually tested
+ */
+export function toDomainScores(
+  breakdown: ObjectiveBreakdown,
+  objectives: ScoringObjective[],
+  rawCut: number
+): DomainScore[] {
+  const domainOf = domainResolver(objectives)
+
+  const totals = new Map<number, { domain: ScoringObjective; correct: number; total: number }>()
+  for (const [objectiveKey, result] of Object.entries(breakdown)) {
+    const domain = domainOf(Number(objectiveKey))
+    if (!domain) continue
+
+    const entry = totals.get(domain.id) ?? { domain, correct: 0, total: 0 }
+    entry.correct += result.correct
+    entry.total += result.total
+    totals.set(domain.id, entry)
+  }
+
+  const entries = [...totals.values()]
+  const weightSum = entries.reduce((sum, entry) => sum + (entry.domain.weight ?? 0), 0)
+
+  return entries
+    .map(({ domain, correct, total }) => {
+      const percentage = total > 0 ? Number((correct / total).toFixed(4)) : 0
+      return {
+        objectiveId: domain.id,
+        code: domain.code,
+        name: domain.name,
+        // Without configured weights every domain counts equally
+        weight: Number((weightSum > 0 ? (domain.weight ?? 0) / weightSum : 1 / entries.length).toFixed(4)),
+        correct,
+        total,
+        percentage,
+        performance: percentage >= rawCut ? 'meets_competencies' as const : 'needs_improvement' as const
+      }
+    })
+    .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+}
+
+/**
+ * Raw score with each domain counted by its exam weight rather than by how
+ * many of its questions happened to be drawn
+ */
+export function weightedRawScore(domains: DomainScore[]): number | null {
+  const tested = domains.filter(domain => domain.total > 0)
+  const weightSum = tested.reduce((sum, domain) => sum + domain.weight, 0)
+  if (weightSum === 0) return null
+
+  const weighted = tested.reduce((sum, domain) => sum + domain.weight * domain.percentage, 0)
+  return Number((weighted / weightSum).toFixed(4))
+}
+
+/**
+ * Score a finished fixed-form attempt on its frozen scale
+ */
+export function scaleAttemptScore(params: {
+  rawScore: number
+  breakdown: ObjectiveBreakdown
+  objectives: ScoringObjective[]
+  passingScore: number | null
+  scoreScale: ScoreScale | null
+}) {
+  const rawCut = params.passingScore ?? SCORING_CONFIG.defaultPassingScore
+  const scale = resolveScoreScale({ scoreScale: params.scoreScale, passingScore: rawCut })
+  const domainScores = toDomainScores(params.breakdown, params.objectives, rawCut)
+  const weightedScore = weightedRawScore(domainScores) ?? params.rawScore
+  const scaledScore = toScaledScore(weightedScore, rawCut, scale)
+
+  return {
+    weightedScore,
+    scaledScore,
+    passed: scaledScore >= scale.passing,
+    domainScores
+  }
+}
+
+// Scoring queries - objective weights and score reports
+export class ScoringQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Objectives of an exam with the fields scoring needs
+   */
+  async getExamObjectives(examId: number): Promise<ScoringObjective[]> {
+    return await this.db
+      .select({
+        id: schema.objectives.id,
+        code: schema.objectives.code,
+        name: schema.objectives.name,
+        weight: schema.objectives.weight,
+        parentId: schema.objectives.parentId
+      })
+      .from(schema.objectives)
+      .where(eq(schema.objectives.examId, examId))
+      .orderBy(asc(schema.objectives.sortOrder), asc(schema.objectives.code))
+  }
+
+  /**
+   * Vendor-style score report for a completed attempt
+   */
+  async getScoreReport(attemptId: number, userId: number) {
+    const [row] = await this.db
+      .select({
+        attempt: schema.testAttempts,
+        exam: {
+          id: schema.exams.id,
+          code: schema.exams.code,
+          name: schema.exams.name,
+          vendorId: schema.exams.vendorId
+        }
+      })
+      .from(schema.testAttempts)
+      .innerJoin(schema.exams, eq(schema.exams.id, schema.testAttempts.examId))
+      .where(
+        and(
+          eq(schema.testAttempts.id, attemptId),
+          eq(schema.testAttempts.userId, userId)
+        )
+      )
+      .limit(1)
+
+    if (!row || row.attempt.status !== 'completed') return null
+
+    const { attempt, exam } = row
+    const scale = resolveScoreScale({ scoreScale: attempt.scoreScale, passingScore: attempt.passingScore })
+
+    return {
+      attemptId: attempt.id,
+      exam: { id: exam.id, code: exam.code, name: exam.name, vendor: exam.vendorId },
+      mode: attempt.mode,
+      scaledScore: attempt.scaledScore ?? toScaledScore(attempt.score ?? 0, attempt.passingScore ?? SCORING_CONFIG.defaultPassingScore, scale),
+      scale,
+      passed: attempt.passed ?? false,
+      rawScore: attempt.score,
+      correctCount: attempt.correctCount,
+      incorrectCount: attempt.incorrectCount,
+      skippedCount: attempt.skippedCount,
+      domains: attempt.domainScores ?? [],
+      totalTimeSeconds: attempt.totalTimeSeconds,
+      completedAt: attempt.completedAt
+    }
+  }
+}
@@ -0,0 +1,153 @@
+// Signed-in sessions for PingToPass
+// Every sign-in records a session with the device it came from. Users can see
+// their active sessions and end any of them; ending one revokes its refresh
+// tokens and makes its outstanding access tokens fail on the next request.
+
+import { and, desc, eq, gt, inArray, isNull, ne } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { AuthClient } from './auth-tokens'
+
+export interface SessionSummary {
+  id: string
+  device: string | null
+  ipAddress: string | null
+  createdAt: Date
+  lastSeenAt: Date
+  current: boolean
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+]
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux']
+]
+
+/**
+ * A readable label for a user agent, e.g. "Chrome on macOS"; null when nothing is recognised
+ */
+export function describeDevice(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  if (browser && platform) return `${browser} on ${platform}`
+  return browser ?? platform ?? null
+}
+
+/**
+ * Revoke sessions together with the refresh tokens issued to them
+ */
+export async function endSessions(db: Database, sessionIds: string[], now: Date) {
+  if (sessionIds.length === 0) return
+
+  await db
+    .update(schema.sessions)
+    .set({ revokedAt: now })
+    .where(and(inArray(schema.sessions.id, sessionIds), isNull(schema.sessions.revokedAt)))
+  await db
+    .update(schema.refreshTokens)
+    .set({ revokedAt: now })
+    .where(and(inArray(schema.refreshTokens.familyId, sessionIds), isNull(schema.refreshTokens.revokedAt)))
+}
+
+// Session management queries
+export class SessionQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * A user's active sessions, most recently used first
+   */
+  async listSessions(params: { userId: number; currentSessionId?: string | null; now?: Date }): Promise<SessionSummary[]> {
+    const { userId, currentSessionId = null, now = new Date() } = params
+
+    const rows = await this.db
+      .select({
+        id: schema.sessions.id,
+        device: schema.sessions.device,
+        ipAddress: schema.sessions.ipAddress,
+        createdAt: schema.sessions.createdAt,
+        lastSeenAt: schema.sessions.lastSeenAt
+      })
+      .from(schema.sessions)
+      .where(and(
+        eq(schema.sessions.userId, userId),
+        isNull(schema.sessions.revokedAt),
+        gt(schema.sessions.expiresAt, now)
+      ))
+      .orderBy(desc(schema.sessions.lastSeenAt))
+
+    return rows.map(row => ({ ...row, current: row.id === currentSessionId }))
+  }
+
+  /**
+   * Sign one of the user's sessions out
+   */
+  async revokeSession(params: { userId: number; sessionId: string; client?: AuthClient; now?: Date }): Promise<
+    | { ok: false; reason: 'not_found' }
+    | { ok: true; current: boolean }
+  > {
+    const { userId, sessionId, client = {}, now = new Date() } = params
+
+    const [session] = await this.db
+      .select({ id: schema.sessions.id, device: schema.sessions.device })
+      .from(schema.sessions)
+      .where(and(
+        eq(schema.sessions.id, sessionId),
+        eq(schema.sessions.userId, userId),
+        isNull(schema.sessions.revokedAt)
+      ))
+    if (!session) return { ok: false, reason: 'not_found' }
+
+    await endSessions(this.db, [session.id], now)
+    await this.audit(userId, client, [session], now)
+
+    return { ok: true, current: session.id === client.sessionId }
+  }
+
+  /**
+   * Sign the user out everywhere except the session making the request
+   */
+  async revokeOtherSessions(params: { userId: number; client: AuthClient; now?: Date }): Promise<{ revoked: number }> {
+    const { userId, client, now = new Date() } = params
+
+    const others = await this.db
+      .select({ id: schema.sessions.id, device: schema.sessions.device })
+      .from(schema.sessions)
+      .where(and(
+        eq(schema.sessions.userId, userId),
+        isNull(schema.sessions.revokedAt),
+        ...(client.sessionId ? [ne(schema.sessions.id, client.sessionId)] : [])
+      ))
+
+    await endSessions(this.db, others.map(session => session.id), now)
+    if (others.length > 0) await this.audit(userId, client, others, now)
+
+    return { revoked: others.length }
+  }
+
+  private async audit(userId: number, client: AuthClient, revoked: Array<{ id: string; device: string | null }>, now: Date) {
+    await this.db.insert(schema.auditLog).values({
+      userId,
+      sessionId: client.sessionId ?? null,
+      ipAddress: client.ipAddress ?? null,
+      userAgent: client.userAgent ?? null,
+      action: 'auth.revoke_session',
+      entityType: 'user',
+      entityId: String(userId),
+      newValues: { sessions: revoked },
+      createdAt: now
+    })
+  }
+}
@@ -0,0 +1,316 @@
+// Spaced-repetition scheduling for PingToPass study sessions
+// SM-2 variant driven by the answer history stored in user_answers
+
+import { and, eq, lte, asc, sql } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { RecallQuality } from '../schema/types'
+
+type Executor = Database | Parameters<Parameters<Database['transaction']>[0]>[0]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const SM2_CONFIG = {
+  initialEaseFactor: 2.5,
+  minEaseFactor: 1.3,
+  firstIntervalDays: 1,
+  secondIntervalDays: 6,
+  lapseIntervalDays: 1,
+  maxIntervalDays: 365,
+  passingQuality: 3
+} as const
+
+export interface SchedulingState {
+  easeFactor: number
+  intervalDays: number
+  repetitions: number
+  lapses: number
+  dueAt: Date
+  lastReviewedAt: Date
+  lastQuality: RecallQuality
+}
+
+export interface ReviewInput {
+  isCorrect: boolean
+  confidenceLevel?: number | null // 1-5 self-rating from user_answers
+  reviewedAt: Date
+  daysSinceLastSeen?: number | null // Actual elapsed days since the previous review
+}
+
+/**
+ * Map an answer and the learner's confidence rating onto SM-2 recall quality.
+ * Confident mistakes score lowest because they point to a misconception.
+ */
+export function deriveRecallQuality(isCorrect: boolean, confidenceLevel?: number | null): RecallQuality {
+  const confidence = confidenceLevel ?? 3
+
+  if (isCorrect) {
+    if (confidence >= 4) return 5
+    if (confidence === 3) return 4
+    return 3 // Correct but guessed
+  }
+
+  if (confidence >= 4) return 0
+  if (confidence === 3) return 1
+  return 2 // Wrong and aware of it
+}
+
+/**
+ * Compute the next scheduling state from the previous one (null for a new card)
+ */
+export function scheduleReview(previous: Omit<SchedulingState, 'dueAt' | 'lastReviewedAt' | 'lastQuality'> | null, review: ReviewInput): SchedulingState {
+  const quality = deriveRecallQuality(review.isCorrect, review.confidenceLevel)
+  const state = previous ?? {
+    easeFactor: SM2_CONFIG.initialEaseFactor,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0
+  }
+
+  let { repetitions, intervalDays, lapses } = state
+
+  if (quality < SM2_CONFIG.passingQuality) {
+    // Forgotten: restart the learning steps
+    repetitions = 0
+    intervalDays = SM2_CONFIG.lapseIntervalDays
+    lapses = previous ? lapses + 1 : lapses
+  } else {
+    if (repetitions === 0) {
+      intervalDays = SM2_CONFIG.firstIntervalDays
+    } else if (repetitions === 1) {
+      intervalDays = SM2_CONFIG.secondIntervalDays
+    } else {
+      // Reward late-but-successful reviews with half of the overdue time
+      const elapsed = review.daysSinceLastSeen ?? intervalDays
+      const overdue = Math.max(0, elapsed - intervalDays)
+      intervalDays = Math.round((intervalDays + overdue / 2) * state.easeFactor)
+    }
+    repetitions += 1
+  }
+
+  const easeFactor = Math.max(
+    SM2_CONFIG.minEaseFactor,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  intervalDays = Math.min(intervalDays, SM2_CONFIG.maxIntervalDays)
+
+  return {
+    easeFactor: Number(easeFactor.toFixed(4)),
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(review.reviewedAt.getTime() + intervalDays * DAY_MS),
+    lastReviewedAt: review.reviewedAt,
+    lastQuality: quality
+  }
+}
+
+/**
+ * Rebuild a card's scheduling state by replaying its full answer history.
+ * An attemptNumber of 1 marks a fresh start, so history before it is ignored.
+ */
+export function replayAnswerHistory(answers: Array<{
+  isCorrect: boolean
+  confidenceLevel: number | null
+  attemptNumber: number | null
+  daysSinceLastSeen: number | null
+  answeredAt: Date | null
+}>): SchedulingState | null {
+  const ordered = answers
+    .filter(a => a.answeredAt)
+    .sort((a, b) => a.answeredAt!.getTime() - b.answeredAt!.getTime() || (a.attemptNumber ?? 1) - (b.attemptNumber ?? 1))
+
+  let state: SchedulingState | null = null
+  let previousAt: Date | null = null
+
+  for (const answer of ordered) {
+    if (answer.attemptNumber === 1) state = null
+
+    const daysSinceLastSeen = answer.daysSinceLastSeen
+      ?? (previousAt ? Math.floor((answer.answeredAt!.getTime() - previousAt.getTime()) / DAY_MS) : null)
+
+    state = scheduleReview(state, {
+      isCorrect: answer.isCorrect,
+      confidenceLevel: answer.confidenceLevel,
+      reviewedAt: answer.answeredAt!,
+      daysSinceLastSeen
+    })
+    previousAt = answer.answeredAt
+  }
+
+  return state
+}
+
+/**
+ * Attempt number and elapsed days for the next answer to a question,
+ * derived from the user's previous answers
+ */
+export async function getAnswerHistoryContext(db: Executor, userId: number, questionId: number, now = new Date()) {
+  const [history] = await db
+    .select({
+      count: sql<number>`COUNT(*)`,
+      lastAnsweredAt: sql<number | null>`MAX(${schema.userAnswers.answeredAt})`
+    })
+    .from(schema.userAnswers)
+    .where(
+      and(
+        eq(schema.userAnswers.userId, userId),
+        eq(schema.userAnswers.questionId, questionId)
+      )
+    )
+
+  const count = Number(history?.count ?? 0)
+  const lastAnsweredAt = history?.lastAnsweredAt != null ? Number(history.lastAnsweredAt) * 1000 : null
+
+  return {
+    attemptNumber: count + 1,
+    daysSinceLastSeen: lastAnsweredAt !== null
+      ? Math.max(0, Math.floor((now.getTime() - lastAnsweredAt) / DAY_MS))
+      : null
+  }
+}
+
+// Review state queries - scheduling reads and writes
+export class ReviewQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Apply a single answer to the user's review state for the question
+   */
+  async recordReview(params: {
+    userId: number
+    questionId: number
+    isCorrect: boolean
+    confidenceLevel?: number | null
+    daysSinceLastSeen?: number | null
+    reviewedAt?: Date
+  }, executor: Executor = this.db) {
+    const { userId, questionId, reviewedAt = new Date() } = params
+
+    const [existing] = await executor
+      .select()
+      .from(schema.reviewStates)
+      .where(
+        and(
+          eq(schema.reviewStates.userId, userId),
+          eq(schema.reviewStates.questionId, questionId)
+        )
+      )
+      .limit(1)
+
+    const next = scheduleReview(existing ?? null, {
+      isCorrect: params.isCorrect,
+      confidenceLevel: params.confidenceLevel,
+      reviewedAt,
+      daysSinceLastSeen: params.daysSinceLastSeen
+    })
+
+    const [state] = await executor
+      .insert(schema.reviewStates)
+      .values({ userId, questionId, ...next, updatedAt: reviewedAt })
+      .onConflictDoUpdate({
+        target: [schema.reviewStates.userId, schema.reviewStates.questionId],
+        set: { ...next, updatedAt: reviewedAt }
+      })
+      .returning()
+
+    return state
+  }
+
+  /**
+   * Get question IDs that are due for review, most overdue first
+   */
+  async getDueQuestionIds(params: { userId: number; examId: number; now?: Date; limit?: number }) {
+    const { userId, examId, now = new Date(), limit = 100 } = params
+
+    const rows = await this.db
+      .select({ questionId: schema.reviewStates.questionId })
+      .from(schema.reviewStates)
+      .innerJoin(schema.questions, eq(schema.reviewStates.questionId, schema.questions.id))
+      .where(
+        and(
+          eq(schema.reviewStates.userId, userId),
+          eq(schema.questions.examId, examId),
+          eq(schema.questions.isActive, true),
+          eq(schema.questions.reviewStatus, 'approved'),
+          lte(schema.reviewStates.dueAt, now)
+        )
+      )
+      .orderBy(asc(schema.reviewStates.dueAt))
+      .limit(limit)
+
+    return rows.map(r => r.questionId)
+  }
+
+  /**
+   * Summarize the review queue for dashboards
+   */
+  async getReviewSummary(userId: number, examId: number, now = new Date()) {
+    const tomorrow = new Date(now.getTime() + DAY_MS)
+
+    const [summary] = await this.db
+      .select({
+        tracked: sql<number>`COUNT(*)`,
+        dueNow: sql<number>`SUM(CASE WHEN ${schema.reviewStates.dueAt} <= ${Math.floor(now.getTime() / 1000)} THEN 1 ELSE 0 END)`,
+        dueWithinDay: sql<number>`SUM(CASE WHEN ${schema.reviewStates.dueAt} <= ${Math.floor(tomorrow.getTime() / 1000)} THEN 1 ELSE 0 END)`,
+        avgEaseFactor: sql<number>`AVG(${schema.reviewStates.easeFactor})`
+      })
+      .from(schema.reviewStates)
+      .innerJoin(schema.questions, eq(schema.reviewStates.questionId, schema.questions.id))
+      .where(
+        and(
+          eq(schema.reviewStates.userId, userId),
+          eq(schema.questions.examId, examId)
+        )
+      )
+
+    return {
+      tracked: Number(summary?.tracked ?? 0),
+      dueNow: Number(summary?.dueNow ?? 0),
+      dueWithinDay: Number(summary?.dueWithinDay ?? 0),
+      avgEaseFactor: summary?.avgEaseFactor ?? SM2_CONFIG.initialEaseFactor
+    }
+  }
+
+  /**
+   * Recompute all review states for a user from user_answers.
+   * Used to backfill history recorded before scheduling existed.
+   */
+  async rebuildUserReviewStates(userId: number) {
+    const answers = await this.db
+      .select({
+        questionId: schema.userAnswers.questionId,
+        isCorrect: schema.userAnswers.isCorrect,
+        confidenceLevel: schema.userAnswers.confidenceLevel,
+        attemptNumber: schema.userAnswers.attemptNumber,
+        daysSinceLastSeen: schema.userAnswers.daysSinceLastSeen,
+        answeredAt: schema.userAnswers.answeredAt
+      })
+      .from(schema.userAnswers)
+      .where(eq(schema.userAnswers.userId, userId))
+
+    const byQuestion = answers.reduce((groups, answer) => {
+      if (!groups[answer.questionId]) groups[answer.questionId] = []
+      groups[answer.questionId].push(answer)
+      return groups
+    }, {} as Record<number, typeof answers>)
+
+    let rebuilt = 0
+    for (const [questionId, history] of Object.entries(byQuestion)) {
+      const state = replayAnswerHistory(history)
+      if (!state) continue
+
+      await this.db
+        .insert(schema.reviewStates)
+        .values({ userId, questionId: Number(questionId), ...state, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: [schema.reviewStates.userId, schema.reviewStates.questionId],
+          set: { ...state, updatedAt: new Date() }
+        })
+      rebuilt++
+    }
+
+    return rebuilt
+  }
+}
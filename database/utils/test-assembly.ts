@@ -0,0 +1,376 @@
+// Blueprint-driven test assembly for PingToPass practice exams
+// Builds fixed forms whose domain proportions, difficulty spread and question
+// type mix follow the exam blueprint, steering around questions the learner
+// saw recently. A seed and form number reproduce the same form.
+
+import { and, eq, gt, inArray } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { QuestionType } from '../schema/types'
+import { domainResolver } from './scoring'
+import { fnv1a } from './hashing'
+
+export const ASSEMBLY_CONFIG = {
+  // Questions answered or served in an attempt this recently are avoided
+  recentWindowHours: 72,
+  maxForms: 10,
+  // Target share of each difficulty band
+  difficultyBands: [
+    { key: 'easy', min: 1, max: 2, share: 0.3 },
+    { key: 'medium', min: 3, max: 3, share: 0.4 },
+    { key: 'hard', min: 4, max: 5, share: 0.3 }
+  ],
+  // Target share of each group of question types; performance-based items
+  // are a small, fixed part of vendor exams
+  typeMix: [
+    { key: 'single_answer', types: ['multiple_choice', 'true_false'] as QuestionType[], share: 0.75 },
+    { key: 'multi_select', types: ['multi_select'] as QuestionType[], share: 0.15 },
+    { key: 'performance_based', types: ['drag_drop', 'hotspot', 'simulation'] as QuestionType[], share: 0.1 }
+  ]
+} as const
+
+export interface AssemblyCandidate {
+  id: number
+  objectiveId: number
+  difficulty: number | null
+  type: QuestionType | null
+}
+
+// A top-level objective with its share of the exam (0-1)
+export interface BlueprintDomain {
+  id: number
+  code: string
+  name: string
+  share: number
+}
+
+export type BlueprintConstraint = 'total' | 'objective' | 'difficulty' | 'type' | 'recency'
+
+export interface BlueprintTarget {
+  key: string
+  target: number
+  achieved: number
+}
+
+// A constraint the bank was too thin to meet
+export interface BlueprintShortfall extends BlueprintTarget {
+  constraint: BlueprintConstraint
+}
+
+export interface AssemblyReport {
+  seed: string
+  form: number
+  requested: number
+  assembled: number
+  objectives: BlueprintTarget[] // Keyed by objective code
+  difficulty: BlueprintTarget[]
+  types: BlueprintTarget[]
+  recentlySeen: number // Recently seen questions used to fill the form
+  sharedWithEarlierForms: number
+  unmet: BlueprintShortfall[]
+}
+
+export interface AssembledForm {
+  questionIds: number[]
+  report: AssemblyReport
+}
+
+// mulberry32, seeded from a string so forms can be named rather than numbered
+export function seededRandom(seed: string): () => number {
+  let state = fnv1a(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function seededShuffle<T>(items: T[], random: () => number): T[] {
+  const copy = [...items]
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[copy[i], copy[j]] = [copy[j], copy[i]]
+  }
+  return copy
+}
+
+/**
+ * Split a whole number of questions by share, largest remainder first.
+ * Shares that sum to zero split evenly.
+ */
+export function apportion(total: number, shares: number[]): number[] {
+  if (shares.length === 0) return []
+  const sum = shares.reduce((acc, share) => acc + Math.max(0, share), 0)
+  const exact = shares.map(share => (sum > 0 ? Math.max(0, share) / sum : 1 / shares.length) * total)
+  const counts = exact.map(Math.floor)
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+  let left = total - counts.reduce((acc, count) => acc + count, 0)
+  for (const { index } of byRemainder) {
+    if (left === 0) break
+    counts[index] += 1
+    left -= 1
+  }
+  return counts
+}
+
+// Questions without a difficulty count as medium, without a type as single answer
+export const difficultyBand = (difficulty: number | null) =>
+  ASSEMBLY_CONFIG.difficultyBands.find(band => (difficulty ?? 3) >= band.min && (difficulty ?? 3) <= band.max)?.key ?? 'medium'
+
+export const typeGroup = (type: QuestionType | null) =>
+  ASSEMBLY_CONFIG.typeMix.find(group => group.types.includes(type ?? 'multiple_choice'))?.key ?? 'single_answer'
+
+/**
+ * Assemble one form. Each slot goes to the domain furthest below its target,
+ * and within it to the question that best fills the difficulty and type
+ * targets. Recently seen questions and questions on earlier forms are used
+ * only when nothing else fits; the seeded order breaks ties.
+ */
+export function assembleForm(params: {
+  candidates: AssemblyCandidate[]
+  domains: BlueprintDomain[]
+  domainOf: (objectiveId: number) => number | undefined
+  questionCount: number
+  seed: string
+  form?: number
+  recentIds?: Set<number>
+  earlierFormIds?: Set<number>
+}): AssembledForm {
+  const { domains, domainOf, questionCount, seed, form = 1, recentIds = new Set(), earlierFormIds = new Set() } = params
+  const random = seededRandom(`${seed}:${form}`)
+
+  // Sorting first makes the seeded order independent of query order
+  const candidates = seededShuffle([...params.candidates].sort((a, b) => a.id - b.id), random)
+  const pools = new Map(domains.map(domain => [domain.id, [] as AssemblyCandidate[]]))
+  for (const candidate of candidates) {
+    const domainId = domainOf(candidate.objectiveId)
+    if (domainId !== undefined) pools.get(domainId)?.push(candidate)
+  }
+
+  const available = [...pools.values()].reduce((sum, pool) => sum + pool.length, 0)
+  const total = Math.min(questionCount, available)
+  const domainTargets = apportion(questionCount, domains.map(domain => domain.share))
+  const bandTargets = apportion(questionCount, ASSEMBLY_CONFIG.difficultyBands.map(band => band.share))
+  const groupTargets = apportion(questionCount, ASSEMBLY_CONFIG.typeMix.map(group => group.share))
+
+  const domainCounts = domains.map(() => 0)
+  const bandCounts = new Map<string, number>(ASSEMBLY_CONFIG.difficultyBands.map(band => [band.key, 0]))
+  const groupCounts = new Map<string, number>(ASSEMBLY_CONFIG.typeMix.map(group => [group.key, 0]))
+  const bandTarget = new Map<string, number>(ASSEMBLY_CONFIG.difficultyBands.map((band, i) => [band.key, bandTargets[i]]))
+  const groupTarget = new Map<string, number>(ASSEMBLY_CONFIG.typeMix.map((group, i) => [group.key, groupTargets[i]]))
+
+  // Share of a target still open; going over a met target costs a full point
+  const need = (count: number, target: number) => (count < target ? (target - count) / target : -1)
+
+  const fit = (candidate: AssemblyCandidate) => {
+    const band = difficultyBand(candidate.difficulty)
+    const group = typeGroup(candidate.type)
+    let score = need(bandCounts.get(band)!, bandTarget.get(band)!) + need(groupCounts.get(group)!, groupTarget.get(group)!)
+    if (earlierFormIds.has(candidate.id)) score -= 10
+    if (recentIds.has(candidate.id)) score -= 100
+    return score
+  }
+
+  const selected: AssemblyCandidate[] = []
+  while (selected.length < total) {
+    // Furthest below target first; once every target is met or out of stock, fill from whoever has questions left
+    let pick = -1
+    let bestShortage = -Infinity
+    domains.forEach((domain, i) => {
+      if (pools.get(domain.id)!.length === 0) return
+      const shortage = domainTargets[i] > 0 ? (domainTargets[i] - domainCounts[i]) / domainTargets[i] : -domainCounts[i] - 1
+      if (shortage > bestShortage) {
+        bestShortage = shortage
+        pick = i
+      }
+    })
+
+    const pool = pools.get(domains[pick].id)!
+    let bestIndex = 0
+    let bestFit = -Infinity
+    pool.forEach((candidate, index) => {
+      const score = fit(candidate)
+      if (score > bestFit) {
+        bestFit = score
+        bestIndex = index
+      }
+    })
+
+    const [chosen] = pool.splice(bestIndex, 1)
+    selected.push(chosen)
+    domainCounts[pick] += 1
+    const band = difficultyBand(chosen.difficulty)
+    const group = typeGroup(chosen.type)
+    bandCounts.set(band, bandCounts.get(band)! + 1)
+    groupCounts.set(group, groupCounts.get(group)! + 1)
+  }
+
+  const objectives = domains.map((domain, i) => ({ key: domain.code, target: domainTargets[i], achieved: domainCounts[i] }))
+  const difficulty = ASSEMBLY_CONFIG.difficultyBands.map((band, i) => ({ key: band.key, target: bandTargets[i], achieved: bandCounts.get(band.key)! }))
+  const types = ASSEMBLY_CONFIG.typeMix.map((group, i) => ({ key: group.key, target: groupTargets[i], achieved: groupCounts.get(group.key)! }))
+  const recentlySeen = selected.filter(candidate => recentIds.has(candidate.id)).length
+
+  const short = (constraint: BlueprintConstraint, targets: BlueprintTarget[]): BlueprintShortfall[] =>
+    targets.filter(target => target.achieved < target.target).map(target => ({ constraint, ...target }))
+
+  const unmet = [
+    ...short('total', [{ key: 'questions', target: questionCount, achieved: selected.length }]),
+    ...short('objective', objectives),
+    ...short('difficulty', difficulty),
+    ...short('type', types),
+    ...(recentlySeen > 0 ? [{ constraint: 'recency' as const, key: 'recently_seen', target: 0, achieved: recentlySeen }] : [])
+  ]
+
+  return {
+    // Delivery order mixes domains the way the real exam does
+    questionIds: seededShuffle(selected.map(candidate => candidate.id), random),
+    report: {
+      seed,
+      form,
+      requested: questionCount,
+      assembled: selected.length,
+      objectives,
+      difficulty,
+      types,
+      recentlySeen,
+      sharedWithEarlierForms: selected.filter(candidate => earlierFormIds.has(candidate.id)).length,
+      unmet
+    }
+  }
+}
+
+// Test assembly queries
+export class TestAssemblyQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Assemble parallel forms 1..forms for an exam. Later forms avoid the
+   * questions of earlier ones while the bank allows, so a form is only
+   * reproducible together with the forms before it: the same seed, bank and
+   * recent history always give the same forms.
+   */
+  async assembleForms(params: {
+    examId: number
+    questionCount?: number
+    seed: string
+    forms?: number
+    objectiveIds?: number[]
+    userId?: number
+    now?: Date
+  }): Promise<
+    | { ok: false; reason: 'exam_not_found' }
+    | { ok: true; forms: AssembledForm[] }
+  > {
+    const { examId, seed, forms = 1, objectiveIds = [], userId, now = new Date() } = params
+
+    const [exam] = await this.db
+      .select({ id: schema.exams.id, questionCount: schema.exams.questionCount, isActive: schema.exams.isActive })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam || !exam.isActive) return { ok: false, reason: 'exam_not_found' }
+
+    const questionCount = params.questionCount ?? exam.questionCount ?? 65
+    const [blueprint, candidates, recentIds] = await Promise.all([
+      this.getBlueprint(examId, objectiveIds),
+      this.getCandidates(examId, objectiveIds),
+      userId === undefined ? Promise.resolve(new Set<number>()) : this.getRecentQuestionIds(userId, examId, now)
+    ])
+
+    const assembled: AssembledForm[] = []
+    const earlierFormIds = new Set<number>()
+    for (let form = 1; form <= Math.min(forms, ASSEMBLY_CONFIG.maxForms); form++) {
+      const result = assembleForm({ candidates, ...blueprint, questionCount, seed, form, recentIds, earlierFormIds })
+      for (const id of result.questionIds) earlierFormIds.add(id)
+      assembled.push(result)
+    }
+
+    return { ok: true, forms: assembled }
+  }
+
+  /**
+   * Exam domains with their blueprint shares. Restricting to objectives
+   * keeps only the domains they belong to.
+   */
+  async getBlueprint(examId: number, objectiveIds: number[] = []) {
+    const objectives = await this.db
+      .select({
+        id: schema.objectives.id,
+        code: schema.objectives.code,
+        name: schema.objectives.name,
+        weight: schema.objectives.weight,
+        questionPercentage: schema.objectives.questionPercentage,
+        parentId: schema.objectives.parentId,
+        sortOrder: schema.objectives.sortOrder
+      })
+      .from(schema.objectives)
+      .where(and(eq(schema.objectives.examId, examId), eq(schema.objectives.isActive, true)))
+
+    const resolve = domainResolver(objectives)
+    const selectedDomains = new Set(objectiveIds.map(id => resolve(id)?.id))
+    const domains = objectives
+      .filter(objective => objective.parentId === null || !objectives.some(parent => parent.id === objective.parentId))
+      .filter(objective => objectiveIds.length === 0 || selectedDomains.has(objective.id))
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.code.localeCompare(b.code, undefined, { numeric: true }))
+      .map(objective => ({
+        id: objective.id,
+        code: objective.code,
+        name: objective.name,
+        // The blueprint's question percentage wins over the scoring weight when both are set
+        share: objective.questionPercentage ?? objective.weight ?? 0
+      }))
+
+    return { domains, domainOf: (objectiveId: number) => resolve(objectiveId)?.id }
+  }
+
+  private async getCandidates(examId: number, objectiveIds: number[]): Promise<AssemblyCandidate[]> {
+    const conditions = [
+      eq(schema.questions.examId, examId),
+      eq(schema.questions.isActive, true),
+      eq(schema.questions.reviewStatus, 'approved')
+    ]
+    if (objectiveIds.length > 0) {
+      conditions.push(inArray(schema.questions.objectiveId, objectiveIds))
+    }
+
+    return this.db
+      .select({
+        id: schema.questions.id,
+        objectiveId: schema.questions.objectiveId,
+        difficulty: schema.questions.difficulty,
+        type: schema.questions.type
+      })
+      .from(schema.questions)
+      .where(and(...conditions))
+  }
+
+  // Answered, or served in an attempt, within the recent window
+  private async getRecentQuestionIds(userId: number, examId: number, now: Date): Promise<Set<number>> {
+    const cutoff = new Date(now.getTime() - ASSEMBLY_CONFIG.recentWindowHours * 60 * 60 * 1000)
+
+    const [answers, attempts] = await Promise.all([
+      this.db
+        .select({ questionId: schema.userAnswers.questionId })
+        .from(schema.userAnswers)
+        .where(and(eq(schema.userAnswers.userId, userId), gt(schema.userAnswers.answeredAt, cutoff))),
+      this.db
+        .select({ questionIds: schema.testAttempts.questionIds })
+        .from(schema.testAttempts)
+        .where(
+          and(
+            eq(schema.testAttempts.userId, userId),
+            eq(schema.testAttempts.examId, examId),
+            gt(schema.testAttempts.startedAt, cutoff)
+          )
+        )
+    ])
+
+    return new Set([...answers.map(answer => answer.questionId), ...attempts.flatMap(attempt => attempt.questionIds)])
+  }
+}
@@ -0,0 +1,487 @@
+// Fixed-form test attempts for PingToPass practice exams
+// Start, answer, submit and review with server-side time enforcement
+
+import { and, eq, asc, inArray } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { ObjectiveBreakdown } from '../schema/types'
+import { scoreResponse, redactQuestion } from './grading'
+import { ScoringQueries, resolveScoreScale, scaleAttemptScore } from './scoring'
+import { ReadinessQueries } from './readiness'
+import { QuestionRevisionQueries } from './question-revisions'
+import { TestAssemblyQueries } from './test-assembly'
+import { AdaptiveTestQueries } from './adaptive-testing'
+
+export const TEST_ATTEMPT_CONFIG = {
+  // Allowance for network latency on the final answer before the deadline
+  gracePeriodSeconds: 30,
+  maxQuestionCount: 200
+} as const
+
+export type AttemptRejection = 'not_found' | 'not_in_progress' | 'expired' | 'question_not_in_attempt' | 'review_disabled'
+
+export interface AttemptScore {
+  score: number // 0-1
+  correctCount: number
+  incorrectCount: number
+  skippedCount: number
+  objectiveBreakdown: ObjectiveBreakdown
+  timePerQuestion: number[] // Seconds, in questionIds order (0 when skipped)
+  totalTimeSeconds: number
+}
+
+/**
+ * Score a submitted attempt. Questions without a saved answer count as skipped.
+ */
+export function scoreAttempt(
+  questionIds: number[],
+  objectiveByQuestion: Map<number, number>,
+  answers: Array<{ questionId: number; isCorrect: boolean; credit?: number | null; timeSpentSeconds: number | null }>
+): AttemptScore {
+  const answerByQuestion = new Map(answers.map(answer => [answer.questionId, answer]))
+  const objectiveBreakdown: ObjectiveBreakdown = {}
+  let correctCount = 0
+  let incorrectCount = 0
+  let earned = 0
+
+  const timePerQuestion = questionIds.map(questionId => {
+    const answer = answerByQuestion.get(questionId)
+    const objectiveKey = String(objectiveByQuestion.get(questionId) ?? 'unknown')
+    const objective = objectiveBreakdown[objectiveKey] ?? { correct: 0, total: 0, percentage: 0 }
+
+    objective.total += 1
+    if (answer) {
+      // Partially credited answers count toward the score but not as correct
+      const credit = answer.credit ?? (answer.isCorrect ? 1 : 0)
+      objective.correct += credit
+      earned += credit
+      if (answer.isCorrect) correctCount += 1
+      else incorrectCount += 1
+    }
+    objectiveBreakdown[objectiveKey] = objective
+
+    return answer?.timeSpentSeconds ?? 0
+  })
+
+  for (const objective of Object.values(objectiveBreakdown)) {
+    objective.correct = Number(objective.correct.toFixed(4))
+    objective.percentage = Number((objective.correct / objective.total).toFixed(4))
+  }
+
+  return {
+    score: questionIds.length > 0 ? Number((earned / questionIds.length).toFixed(4)) : 0,
+    correctCount,
+    incorrectCount,
+    skippedCount: questionIds.length - correctCount - incorrectCount,
+    objectiveBreakdown,
+    timePerQuestion,
+    totalTimeSeconds: timePerQuestion.reduce((sum, seconds) => sum + seconds, 0)
+  }
+}
+
+/**
+ * Whether an in-progress attempt is past its deadline
+ */
+export function isAttemptExpired(attempt: Pick<schema.TestAttempt, 'expiresAt'>, now = new Date()): boolean {
+  if (!attempt.expiresAt) return false
+  return now.getTime() > attempt.expiresAt.getTime() + TEST_ATTEMPT_CONFIG.gracePeriodSeconds * 1000
+}
+
+// Test attempt queries - fixed-form exam lifecycle
+export class TestAttemptQueries {
+  private scoring: ScoringQueries
+  private readiness: ReadinessQueries
+  private revisions: QuestionRevisionQueries
+  private assembly: TestAssemblyQueries
+  private adaptive: AdaptiveTestQueries
+
+  constructor(private db: Database) {
+    this.scoring = new ScoringQueries(db)
+    this.readiness = new ReadinessQueries(db)
+    this.revisions = new QuestionRevisionQueries(db)
+    this.assembly = new TestAssemblyQueries(db)
+    this.adaptive = new AdaptiveTestQueries(db)
+  }
+
+  /**
+   * Start an attempt. The question set is assembled to the exam blueprint;
+   * passing a seed and form number delivers that parallel form. The
+   * question set and the revision of each question, time limit, passing
+   * score and score scale are frozen on the attempt so later exam or
+   * question edits don't change it.
+   */
+  async startAttempt(params: {
+    userId: number
+    examId: number
+    questionCount?: number
+    objectiveIds?: number[]
+    seed?: string
+    form?: number
+    now?: Date
+  }) {
+    const { userId, examId, objectiveIds = [], form = 1, now = new Date() } = params
+    const seed = params.seed ?? Math.random().toString(36).slice(2, 10)
+
+    const [exam] = await this.db
+      .select({
+        id: schema.exams.id,
+        questionCount: schema.exams.questionCount,
+        timeLimitMinutes: schema.exams.timeLimitMinutes,
+        passingScore: schema.exams.passingScore,
+        scoreScale: schema.exams.scoreScale,
+        isActive: schema.exams.isActive
+      })
+      .from(schema.exams)
+      .where(eq(schema.exams.id, examId))
+      .limit(1)
+
+    if (!exam || !exam.isActive) return null
+
+    const questionCount = Math.min(
+      params.questionCount ?? exam.questionCount ?? 65,
+      TEST_ATTEMPT_CONFIG.maxQuestionCount
+    )
+
+    const assembled = await this.assembly.assembleForms({ examId, questionCount, seed, forms: form, objectiveIds, userId, now })
+    const selected = assembled.ok ? assembled.forms[assembled.forms.length - 1] : null
+    if (!selected || selected.questionIds.length === 0) return null
+
+    const { questionIds } = selected
+    const revisionIds = await this.revisions.currentRevisionIds(questionIds, now)
+    const timeLimitMinutes = exam.timeLimitMinutes
+
+    const [attempt] = await this.db
+      .insert(schema.testAttempts)
+      .values({
+        userId,
+        examId,
+        mode: 'fixed',
+        questionIds,
+        questionRevisionIds: questionIds.map(id => revisionIds.get(id)!),
+        formSeed: seed,
+        formNumber: selected.report.form,
+        timeLimitMinutes,
+        passingScore: exam.passingScore,
+        scoreScale: resolveScoreScale(exam),
+        startedAt: now,
+        expiresAt: timeLimitMinutes ? new Date(now.getTime() + timeLimitMinutes * 60 * 1000) : null
+      })
+      .returning()
+
+    return {
+      attempt,
+      questions: await this.getDeliverableQuestions(questionIds, attempt.questionRevisionIds),
+      blueprint: selected.report
+    }
+  }
+
+  /**
+   * Questions in attempt order, without answer keys or explanations. Pass the
+   * attempt's pinned revisions so the learner sees the content they are graded against.
+   */
+  async getDeliverableQuestions(questionIds: number[], revisionIds?: number[] | null) {
+    const shown = await this.revisions.shownContent(questionIds, revisionIds)
+    return questionIds.flatMap(id => {
+      const question = shown.get(id)
+      return question ? [redactQuestion(question)] : []
+    })
+  }
+
+  /**
+   * Load a user's attempt, finalizing it first if its time has run out
+   */
+  async getAttempt(attemptId: number, userId: number, now = new Date()): Promise<schema.TestAttempt | null> {
+    const [attempt] = await this.db
+      .select()
+      .from(schema.testAttempts)
+      .where(
+        and(
+          eq(schema.testAttempts.id, attemptId),
+          eq(schema.testAttempts.userId, userId)
+        )
+      )
+      .limit(1)
+
+    if (!attempt) return null
+
+    if (attempt.status === 'in_progress' && isAttemptExpired(attempt, now)) {
+      // Adaptive attempts are scored on their ability estimate
+      return attempt.mode === 'adaptive'
+        ? this.adaptive.finalizeAdaptiveAttempt(attempt, now)
+        : this.finalizeAttempt(attempt, now)
+    }
+    return attempt
+  }
+
+  /**
+   * Current state of an attempt for resuming: saved answers and time left
+   */
+  async getAttemptState(attemptId: number, userId: number, now = new Date()) {
+    const attempt = await this.getAttempt(attemptId, userId, now)
+    if (!attempt) return null
+
+    const answers = await this.db
+      .select({
+        questionId: schema.userAnswers.questionId,
+        selectedAnswer: schema.userAnswers.selectedAnswer,
+        flagged: schema.userAnswers.flagged,
+        timeSpentSeconds: schema.userAnswers.timeSpentSeconds
+      })
+      .from(schema.userAnswers)
+      .where(eq(schema.userAnswers.testAttemptId, attemptId))
+
+    const remainingSeconds = attempt.status === 'in_progress' && attempt.expiresAt
+      ? Math.max(0, Math.floor((attempt.expiresAt.getTime() - now.getTime()) / 1000))
+      : null
+
+    return { attempt, answers, remainingSeconds }
+  }
+
+  /**
+   * Save (or change) the answer to one question. Correctness is stored but
+   * not revealed until the attempt is submitted.
+   */
+  async saveAnswer(params: {
+    attemptId: number
+    userId: number
+    questionId: number
+    selectedAnswer: string
+    timeSpentSeconds: number
+    flagged?: boolean
+    now?: Date
+  }): Promise<{ ok: false; reason: AttemptRejection } | { ok: true; answerId: number; changedAnswer: boolean }> {
+    const { attemptId, userId, questionId, now = new Date() } = params
+
+    const attempt = await this.getAttempt(attemptId, userId, now)
+    if (!attempt || attempt.mode === 'adaptive') return { ok: false, reason: 'not_found' }
+    if (attempt.status !== 'in_progress') {
+      return { ok: false, reason: isAttemptExpired(attempt, now) ? 'expired' : 'not_in_progress' }
+    }
+    if (!attempt.questionIds.includes(questionId)) return { ok: false, reason: 'question_not_in_attempt' }
+
+    // Graded against the revision the learner was shown, even if the question was edited since
+    const questionRevisionId = attempt.questionRevisionIds?.[attempt.questionIds.indexOf(questionId)] ?? null
+    const question = await this.revisions.gradableContent(questionId, questionRevisionId)
+
+    const { isCorrect, credit } = question
+      ? scoreResponse(question, params.selectedAnswer)
+      : { isCorrect: false, credit: 0 }
+
+    const [existing] = await this.db
+      .select({
+        id: schema.userAnswers.id,
+        selectedAnswer: schema.userAnswers.selectedAnswer,
+        timeSpentSeconds: schema.userAnswers.timeSpentSeconds
+      })
+      .from(schema.userAnswers)
+      .where(
+        and(
+          eq(schema.userAnswers.testAttemptId, attemptId),
+          eq(schema.userAnswers.questionId, questionId)
+        )
+      )
+      .limit(1)
+
+    if (existing) {
+      const changedAnswer = existing.selectedAnswer !== params.selectedAnswer
+      await this.db
+        .update(schema.userAnswers)
+        .set({
+          selectedAnswer: params.selectedAnswer,
+          isCorrect,
+          credit,
+          // Revisits add to the time already spent on the question
+          timeSpentSeconds: (existing.timeSpentSeconds ?? 0) + params.timeSpentSeconds,
+          flagged: params.flagged ?? false,
+          changedAnswer: changedAnswer || undefined,
+          answeredAt: now
+        })
+        .where(eq(schema.userAnswers.id, existing.id))
+
+      return { ok: true, answerId: existing.id, changedAnswer }
+    }
+
+    const [answer] = await this.db
+      .insert(schema.userAnswers)
+      .values({
+        userId,
+        questionId,
+        testAttemptId: attemptId,
+        questionRevisionId: question?.revisionId ?? null,
+        selectedAnswer: params.selectedAnswer,
+        isCorrect,
+        credit,
+        timeSpentSeconds: params.timeSpentSeconds,
+        flagged: params.flagged ?? false,
+        answeredAt: now
+      })
+      .returning({ id: schema.userAnswers.id })
+
+    return { ok: true, answerId: answer.id, changedAnswer: false }
+  }
+
+  /**
+   * Submit an attempt for scoring. Attempts already closed by the deadline
+   * are returned as they are.
+   */
+  async submitAttempt(attemptId: number, userId: number, now = new Date()): Promise<
+    { ok: false; reason: AttemptRejection } | { ok: true; attempt: schema.TestAttempt }
+  > {
+    const attempt = await this.getAttempt(attemptId, userId, now)
+    if (!attempt || attempt.mode === 'adaptive') return { ok: false, reason: 'not_found' }
+    if (attempt.status === 'completed') return { ok: true, attempt }
+    if (attempt.status !== 'in_progress') return { ok: false, reason: 'not_in_progress' }
+
+    return { ok: true, attempt: await this.finalizeAttempt(attempt, now) }
+  }
+
+  /**
+   * Full answer review for a completed attempt
+   */
+  async getReview(attemptId: number, userId: number, now = new Date()): Promise<
+    { ok: false; reason: AttemptRejection } | { ok: true; attempt: schema.TestAttempt; questions: Awaited<ReturnType<TestAttemptQueries['loadReviewQuestions']>> }
+  > {
+    const attempt = await this.getAttempt(attemptId, userId, now)
+    if (!attempt) return { ok: false, reason: 'not_found' }
+    if (attempt.status !== 'completed') return { ok: false, reason: 'not_in_progress' }
+    if (attempt.reviewEnabled === false) return { ok: false, reason: 'review_disabled' }
+
+    return { ok: true, attempt, questions: await this.loadReviewQuestions(attempt) }
+  }
+
+  private async loadReviewQuestions(attempt: schema.TestAttempt) {
+    const revisionIds = attempt.questionRevisionIds ?? []
+    const [questions, answers, revisions] = await Promise.all([
+      this.db
+        .select({
+          id: schema.questions.id,
+          text: schema.questions.text,
+          type: schema.questions.type,
+          answers: schema.questions.answers,
+          imageUrl: schema.questions.imageUrl,
+          diagramData: schema.questions.diagramData,
+          explanation: schema.questions.explanation,
+          reference: schema.questions.reference,
+          objectiveId: schema.questions.objectiveId
+        })
+        .from(schema.questions)
+        .where(inArray(schema.questions.id, attempt.questionIds)),
+      this.db
+        .select({
+          questionId: schema.userAnswers.questionId,
+          selectedAnswer: schema.userAnswers.selectedAnswer,
+          isCorrect: schema.userAnswers.isCorrect,
+          credit: schema.userAnswers.credit,
+          flagged: schema.userAnswers.flagged,
+          timeSpentSeconds: schema.userAnswers.timeSpentSeconds
+        })
+        .from(schema.userAnswers)
+        .where(eq(schema.userAnswers.testAttemptId, attempt.id))
+        .orderBy(asc(schema.userAnswers.id)),
+      revisionIds.length > 0
+        ? this.db
+          .select()
+          .from(schema.questionRevisions)
+          .where(inArray(schema.questionRevisions.id, revisionIds))
+        : Promise.resolve([])
+    ])
+
+    const questionById = new Map(questions.map(q => [q.id, q]))
+    const answerByQuestion = new Map(answers.map(a => [a.questionId, a]))
+    const revisionById = new Map(revisions.map(r => [r.id, r]))
+
+    return attempt.questionIds.flatMap((questionId, index) => {
+      const question = questionById.get(questionId)
+      if (!question) return []
+      const answer = answerByQuestion.get(questionId)
+      // Show the question as it was during the attempt
+      const pinned = revisionById.get(revisionIds[index])
+      const revision = pinned?.questionId === questionId ? pinned : undefined
+      const shown = revision
+        ? {
+            text: revision.text,
+            type: revision.type,
+            answers: revision.answers,
+            imageUrl: revision.imageUrl,
+            diagramData: revision.diagramData,
+            explanation: revision.explanation,
+            reference: revision.reference,
+            objectiveId: revision.objectiveId
+          }
+        : {}
+
+      return [{
+        position: index + 1,
+        ...question,
+        ...shown,
+        revision: revision?.revision ?? null,
+        selectedAnswer: answer?.selectedAnswer ?? null,
+        isCorrect: answer?.isCorrect ?? false,
+        credit: answer ? answer.credit ?? (answer.isCorrect ? 1 : 0) : 0,
+        skipped: !answer,
+        flagged: answer?.flagged ?? false,
+        timeSpentSeconds: answer?.timeSpentSeconds ?? 0
+      }]
+    })
+  }
+
+  /**
+   * Score the attempt from its saved answers, close it and refresh readiness
+   */
+  private async finalizeAttempt(attempt: schema.TestAttempt, now: Date): Promise<schema.TestAttempt> {
+    const [shown, answers, objectives] = await Promise.all([
+      // Scored in the domain each question belonged to when it was shown
+      this.revisions.shownContent(attempt.questionIds, attempt.questionRevisionIds),
+      this.db
+        .select({
+          questionId: schema.userAnswers.questionId,
+          isCorrect: schema.userAnswers.isCorrect,
+          credit: schema.userAnswers.credit,
+          timeSpentSeconds: schema.userAnswers.timeSpentSeconds
+        })
+        .from(schema.userAnswers)
+        .where(eq(schema.userAnswers.testAttemptId, attempt.id)),
+      this.scoring.getExamObjectives(attempt.examId)
+    ])
+
+    const result = scoreAttempt(
+      attempt.questionIds,
+      new Map([...shown.values()].map(q => [q.id, q.objectiveId])),
+      answers
+    )
+    const scaled = scaleAttemptScore({
+      rawScore: result.score,
+      breakdown: result.objectiveBreakdown,
+      objectives,
+      passingScore: attempt.passingScore,
+      scoreScale: attempt.scoreScale
+    })
+
+    // A deadline-closed attempt completes at the deadline, not when it was noticed
+    const completedAt = attempt.expiresAt && isAttemptExpired(attempt, now) ? attempt.expiresAt : now
+
+    const [updated] = await this.db
+      .update(schema.testAttempts)
+      .set({
+        ...result,
+        scaledScore: scaled.scaledScore,
+        domainScores: scaled.domainScores,
+        passed: scaled.passed,
+        status: 'completed',
+        completedAt
+      })
+      .where(
+        and(
+          eq(schema.testAttempts.id, attempt.id),
+          eq(schema.testAttempts.status, 'in_progress')
+        )
+      )
+      .returning()
+
+    // Another request finalized it first
+    if (!updated) return (await this.getAttempt(attempt.id, attempt.userId, now))!
+
+    await this.readiness.recomputeReadiness(attempt.userId, attempt.examId, now)
+    return updated
+  }
+}
@@ -0,0 +1,321 @@
+// Weak-area targeting for PingToPass study sessions
+// Weights question selection by the learner's own per-objective mastery
+
+import { and, eq, inArray, notInArray, between, desc, sql, type SQL } from 'drizzle-orm'
+import type { Database } from './connection'
+import * as schema from '../schema'
+import type { DifficultyFilter, ObjectiveMastery } from '../schema/types'
+
+export const WEAK_AREA_CONFIG = {
+  // Beta prior so a single answer doesn't swing mastery to 0% or 100%
+  priorCorrect: 1,
+  priorTotal: 2,
+  // Every objective keeps a small share so strong areas still get reinforcement
+  minWeight: 0.05,
+  // Higher values concentrate selection on the weakest objectives
+  weaknessExponent: 2
+} as const
+
+export type MasterySource = 'answers' | 'progress' | 'prior'
+export type SelectionReason = 'previously_incorrect' | 'unseen' | 'reinforcement'
+
+export interface ObjectiveWeighting {
+  objectiveId: number
+  mastery: number // 0-1 estimated accuracy
+  answered: number
+  source: MasterySource
+  weight: number // Normalized share of the session (0-1)
+  allocated: number // Questions assigned to this objective
+}
+
+export interface QuestionSelection {
+  objectiveId: number
+  objectiveMastery: number
+  objectiveWeight: number
+  reason: SelectionReason
+}
+
+/**
+ * Smoothed accuracy estimate for an objective
+ */
+export function estimateMastery(correct: number, total: number): number {
+  return (correct + WEAK_AREA_CONFIG.priorCorrect) / (total + WEAK_AREA_CONFIG.priorTotal)
+}
+
+/**
+ * Turn per-objective mastery into normalized selection weights.
+ * Objectives without answers fall back to user_progress mastery, then the prior.
+ */
+export function computeObjectiveWeights(objectives: Array<{
+  objectiveId: number
+  correct: number
+  total: number
+  progressMastery?: number | null
+}>): ObjectiveWeighting[] {
+  const scored = objectives.map(objective => {
+    let mastery: number
+    let source: MasterySource
+
+    if (objective.total > 0) {
+      mastery = estimateMastery(objective.correct, objective.total)
+      source = 'answers'
+    } else if (objective.progressMastery != null) {
+      mastery = objective.progressMastery
+      source = 'progress'
+    } else {
+      mastery = estimateMastery(0, 0)
+      source = 'prior'
+    }
+
+    const raw = Math.max(WEAK_AREA_CONFIG.minWeight, Math.pow(1 - mastery, WEAK_AREA_CONFIG.weaknessExponent))
+    return { objectiveId: objective.objectiveId, mastery, answered: objective.total, source, raw }
+  })
+
+  const totalRaw = scored.reduce((sum, o) => sum + o.raw, 0)
+
+  return scored
+    .map(({ raw, ...objective }) => ({
+      ...objective,
+      weight: totalRaw > 0 ? raw / totalRaw : 0,
+      allocated: 0
+    }))
+    .sort((a, b) => b.weight - a.weight)
+}
+
+/**
+ * Split a session's question budget across objectives by weight
+ * (largest remainder), never exceeding what each objective can supply
+ */
+export function allocateQuestionSlots(
+  weightings: ObjectiveWeighting[],
+  limit: number,
+  capacity: Record<number, number>
+): ObjectiveWeighting[] {
+  const result = weightings.map(w => ({ ...w, allocated: 0 }))
+  let remaining = Math.min(limit, result.reduce((sum, w) => sum + (capacity[w.objectiveId] || 0), 0))
+
+  while (remaining > 0) {
+    const open = result.filter(w => w.allocated < (capacity[w.objectiveId] || 0))
+    const openWeight = open.reduce((sum, w) => sum + w.weight, 0)
+    if (open.length === 0) break
+
+    const shares = open.map(w => {
+      const exact = openWeight > 0 ? (w.weight / openWeight) * remaining : remaining / open.length
+      const room = (capacity[w.objectiveId] || 0) - w.allocated
+      return { w, whole: Math.min(Math.floor(exact), room), fraction: exact - Math.floor(exact), room }
+    })
+
+    let assigned = 0
+    for (const share of shares) {
+      share.w.allocated += share.whole
+      assigned += share.whole
+    }
+
+    // Hand out leftover seats by largest fractional remainder
+    const leftover = shares
+      .filter(s => s.room > s.whole)
+      .sort((a, b) => b.fraction - a.fraction || b.w.weight - a.w.weight)
+    for (const share of leftover) {
+      if (assigned >= remaining) break
+      share.w.allocated += 1
+      assigned += 1
+    }
+
+    if (assigned === 0) break
+    remaining -= assigned
+  }
+
+  return result
+}
+
+/**
+ * Order an objective's candidates: recent misses first, then unseen, then
+ * questions already answered correctly
+ */
+export function rankCandidates(
+  candidates: number[],
+  lastResult: Map<number, boolean>
+): Array<{ questionId: number; reason: SelectionReason }> {
+  const priority: Record<SelectionReason, number> = { previously_incorrect: 0, unseen: 1, reinforcement: 2 }
+
+  return shuffle(candidates)
+    .map(questionId => {
+      const result = lastResult.get(questionId)
+      const reason: SelectionReason = result === undefined
+        ? 'unseen'
+        : result ? 'reinforcement' : 'previously_incorrect'
+      return { questionId, reason }
+    })
+    .sort((a, b) => priority[a.reason] - priority[b.reason])
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items]
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[copy[i], copy[j]] = [copy[j], copy[i]]
+  }
+  return copy
+}
+
+// Weak area queries - mastery lookups and weighted selection plans
+export class WeakAreaQueries {
+  constructor(private db: Database) {}
+
+  /**
+   * Per-objective answer totals for a user, merged with stored progress mastery
+   */
+  async getObjectiveMastery(userId: number, examId: number, objectiveIds: number[] = []) {
+    const objectiveConditions = [
+      eq(schema.objectives.examId, examId),
+      eq(schema.objectives.isActive, true)
+    ]
+    if (objectiveIds.length > 0) {
+      objectiveConditions.push(inArray(schema.objectives.id, objectiveIds))
+    }
+
+    const [objectives, answerTotals, progress] = await Promise.all([
+      this.db
+        .select({ id: schema.objectives.id })
+        .from(schema.objectives)
+        .where(and(...objectiveConditions)),
+      this.db
+        .select({
+          objectiveId: schema.questions.objectiveId,
+          total: sql<number>`COUNT(*)`,
+          correct: sql<number>`SUM(CASE WHEN ${schema.userAnswers.isCorrect} THEN 1 ELSE 0 END)`
+        })
+        .from(schema.userAnswers)
+        .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+        .where(
+          and(
+            eq(schema.userAnswers.userId, userId),
+            eq(schema.questions.examId, examId)
+          )
+        )
+        .groupBy(schema.questions.objectiveId),
+      this.db
+        .select({ objectiveMastery: schema.userProgress.objectiveMastery })
+        .from(schema.userProgress)
+        .where(
+          and(
+            eq(schema.userProgress.userId, userId),
+            eq(schema.userProgress.examId, examId)
+          )
+        )
+        .limit(1)
+    ])
+
+    const totals = new Map(answerTotals.map(t => [t.objectiveId, t]))
+    const storedMastery = progress[0]?.objectiveMastery || {}
+
+    return computeObjectiveWeights(objectives.map(objective => {
+      // Older progress rows store a bare score instead of the mastery object
+      const stored = storedMastery[String(objective.id)] as ObjectiveMastery[string] | number | undefined
+      return {
+        objectiveId: objective.id,
+        correct: Number(totals.get(objective.id)?.correct ?? 0),
+        total: Number(totals.get(objective.id)?.total ?? 0),
+        progressMastery: typeof stored === 'number' ? stored : stored?.level ?? null
+      }
+    }))
+  }
+
+  /**
+   * Plan a weak-area session: which questions to serve and why
+   */
+  async planSelection(params: {
+    userId: number
+    examId: number
+    objectiveIds?: number[]
+    difficulty?: DifficultyFilter
+    excludeRecentHours?: number
+    limit?: number
+  }) {
+    const {
+      userId,
+      examId,
+      objectiveIds = [],
+      difficulty = { min: 1, max: 5 },
+      excludeRecentHours = 24,
+      limit = 20
+    } = params
+
+    const weightings = await this.getObjectiveMastery(userId, examId, objectiveIds)
+    if (weightings.length === 0) {
+      return { picks: [], weighting: [] as ObjectiveWeighting[] }
+    }
+
+    // Latest result per question answered by this user (newest first)
+    const history = await this.db
+      .select({
+        questionId: schema.userAnswers.questionId,
+        isCorrect: schema.userAnswers.isCorrect,
+        answeredAt: schema.userAnswers.answeredAt
+      })
+      .from(schema.userAnswers)
+      .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+      .where(
+        and(
+          eq(schema.userAnswers.userId, userId),
+          eq(schema.questions.examId, examId)
+        )
+      )
+      .orderBy(desc(schema.userAnswers.answeredAt), desc(schema.userAnswers.id))
+
+    const lastResult = new Map<number, boolean>()
+    const recentCutoff = Date.now() - excludeRecentHours * 60 * 60 * 1000
+    const recentIds = new Set<number>()
+    for (const answer of history) {
+      if (!lastResult.has(answer.questionId)) lastResult.set(answer.questionId, answer.isCorrect)
+      if (answer.answeredAt && answer.answeredAt.getTime() > recentCutoff) recentIds.add(answer.questionId)
+    }
+
+    const conditions: SQL[] = [
+      eq(schema.questions.examId, examId),
+      eq(schema.questions.isActive, true),
+      eq(schema.questions.reviewStatus, 'approved'),
+      between(schema.questions.difficulty, difficulty.min, difficulty.max),
+      inArray(schema.questions.objectiveId, weightings.map(w => w.objectiveId))
+    ]
+    if (recentIds.size > 0) {
+      conditions.push(notInArray(schema.questions.id, [...recentIds]))
+    }
+
+    const candidates = await this.db
+      .select({ id: schema.questions.id, objectiveId: schema.questions.objectiveId })
+      .from(schema.questions)
+      .where(and(...conditions))
+
+    const byObjective = candidates.reduce((groups, candidate) => {
+      if (!groups[candidate.objectiveId]) groups[candidate.objectiveId] = []
+      groups[candidate.objectiveId].push(candidate.id)
+      return groups
+    }, {} as Record<number, number[]>)
+
+    const capacity = Object.fromEntries(
+      Object.entries(byObjective).map(([objectiveId, ids]) => [objectiveId, ids.length])
+    )
+    const weighting = allocateQuestionSlots(weightings, limit, capacity)
+
+    const picks: Array<{ questionId: number; selection: QuestionSelection }> = []
+    for (const objective of weighting) {
+      if (objective.allocated === 0) continue
+
+      const ranked = rankCandidates(byObjective[objective.objectiveId] || [], lastResult)
+      for (const candidate of ranked.slice(0, objective.allocated)) {
+        picks.push({
+          questionId: candidate.questionId,
+          selection: {
+            objectiveId: objective.objectiveId,
+            objectiveMastery: Number(objective.mastery.toFixed(3)),
+            objectiveWeight: Number(objective.weight.toFixed(3)),
+            reason: candidate.reason
+          }
+        })
+      }
+    }
+
+    return { picks, weighting }
+  }
+}
@@ -17,9 +17,20 @@ export default defineNuxtConfig({
     tursoToken: process.env.TURSO_AUTH_TOKEN,
     jwtSecret: process.env.JWT_SECRET,
     jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    jwtKeys: process.env.JWT_KEYS, // kid:secret pairs, comma separated, for key rotation
+    jwtActiveKid: process.env.JWT_ACTIVE_KID,
     
     // Authentication
     googleClientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    googleRedirectUri: process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/api/auth/google/callback',
+    // OpenID endpoints, overridable to point at a mock identity provider
+    googleIssuer: process.env.GOOGLE_ISSUER || 'https://accounts.google.com',
+    googleAuthorizationEndpoint: process.env.GOOGLE_AUTHORIZATION_ENDPOINT || 'https://accounts.google.com/o/oauth2/v2/auth',
+    googleTokenEndpoint: process.env.GOOGLE_TOKEN_ENDPOINT || 'https://oauth2.googleapis.com/token',
+    googleJwksUri: process.env.GOOGLE_JWKS_URI || 'https://www.googleapis.com/oauth2/v3/certs',
+    // 'local' signs in through the in-process provider; honoured in dev and test builds only
+    oauthProvider: process.env.OAUTH_PROVIDER || 'google',
+    oauthLocalEmail: process.env.OAUTH_LOCAL_EMAIL || 'learner@pingtopass.local',
     sessionSecret: process.env.SESSION_SECRET,
     cookieSecure: process.env.COOKIE_SECURE === 'true',
     cookieHttpOnly: process.env.COOKIE_HTTP_ONLY !== 'false',
@@ -34,6 +45,9 @@ export default defineNuxtConfig({
     aiMaxTokens: parseInt(process.env.AI_MAX_TOKENS || '2000'),
     aiTemperature: parseFloat(process.env.AI_TEMPERATURE || '0.7'),
     
+    // Question Quality
+    feedbackRevisionThreshold: parseInt(process.env.FEEDBACK_REVISION_THRESHOLD || '3'),
+    
     // Payment Processing
     stripeSecretKey: process.env.STRIPE_SECRET_KEY,
     stripeWebhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
@@ -57,6 +71,7 @@ export default defineNuxtConfig({
     smtpUser: process.env.SMTP_USER,
     smtpPassword: process.env.SMTP_PASSWORD,
     fromEmail: process.env.FROM_EMAIL || 'noreply@pingtopass.com',
+    resendApiKey: process.env.RESEND_API_KEY,
     
     // Cloudflare
     cloudflareApiToken: process.env.CLOUDFLARE_API_TOKEN,
@@ -1,5 +1,6 @@
 import { computed } from 'vue';
 import { useAuthStore, type User, type LoginCredentials } from '../stores/auth';
+import type { Permission } from '../../database/utils/permissions';
 
 /**
  * Auth composable that provides reactive access to authentication state and methods
@@ -53,24 +54,22 @@ export const useAuth = () => {
     return authStore.user;
   };
 
+  // Role and permissions come from the server's resolution (see /api/auth/status),
+  // so these agree with what the API will enforce
   const hasRole = (role: string): boolean => {
     if (!authStore.isAuthenticated || !authStore.user) {
       return false;
     }
-    
-    // Check if user has roles property and includes the requested role
-    const userWithRoles = authStore.user as User & { roles?: string[] };
-    return userWithRoles.roles?.includes(role) ?? false;
+
+    return authStore.user.role === role;
   };
 
-  const hasPermission = (permission: string): boolean => {
+  const hasPermission = (permission: Permission): boolean => {
     if (!authStore.isAuthenticated || !authStore.user) {
       return false;
     }
-    
-    // Check if user has permissions property and includes the requested permission
-    const userWithPermissions = authStore.user as User & { permissions?: string[] };
-    return userWithPermissions.permissions?.includes(permission) ?? false;
+
+    return authStore.user.permissions?.includes(permission) ?? false;
   };
 
   const isAdmin = computed(() => hasRole('admin'));
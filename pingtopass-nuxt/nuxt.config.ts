@@ -43,6 +43,8 @@ export default defineNuxtConfig({
     langchainApiKey: process.env.LANGCHAIN_API_KEY || '',
     googleClientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
     jwtSecret: process.env.JWT_SECRET || '',
+    // The API that issues access tokens; the dashboard asks it who a token belongs to
+    apiBaseUrl: process.env.API_BASE_URL || 'http://localhost:3000',
     stripeSecretKey: process.env.STRIPE_SECRET_KEY || '',
     stripeWebhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
     
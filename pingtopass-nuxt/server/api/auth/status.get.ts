@@ -1,4 +1,6 @@
 // Authentication status endpoint
+import { optionalAuth } from '~/server/utils/auth'
+
 export default defineEventHandler(async (event) => {
   try {
     // Check if authorization header is present
@@ -24,13 +26,21 @@ export default defineEventHandler(async (event) => {
       }
     }
     
-    // For health check purposes, we just verify the endpoint is responding
-    // In a real implementation, you would validate the JWT token here
+    const user = await optionalAuth(event)
+    if (!user) {
+      setResponseStatus(event, 401)
+      return {
+        authenticated: false,
+        timestamp: new Date().toISOString(),
+        message: 'Invalid or expired access token'
+      }
+    }
+
     return {
-      authenticated: false, // Change to true when JWT validation is implemented
+      authenticated: true,
       timestamp: new Date().toISOString(),
-      message: 'Authentication endpoint is responding',
-      status: 'auth_not_implemented' // Remove when auth is implemented
+      // Permissions are resolved on the server; the client only reads them
+      user: { id: user.id, email: user.email, name: user.name, role: user.role, permissions: user.permissions }
     }
     
   } catch (error) {
@@ -5,8 +5,9 @@
 import { getSystemHealth } from '../../middleware/performance-monitor';
 import { getErrorSummary } from '../../middleware/error-handler';
 import { getDB, sql } from '../../utils/database';
+import { defineProtectedHandler } from '../../utils/auth';
 
-export default defineEventHandler(async (event) => {
+export default defineProtectedHandler({ permission: 'monitoring:read' }, async (event) => {
   const startTime = Date.now();
   const checks: Record<string, any> = {};
   let overallStatus = 'healthy';
@@ -2,6 +2,8 @@
  * API endpoint to retrieve recent logs (from memory buffer)
  */
 
+import { defineProtectedHandler } from '../../utils/auth';
+
 interface LogEntry {
   timestamp: string;
   level: string;
@@ -15,7 +17,7 @@ interface LogEntry {
 const logBuffer: LogEntry[] = [];
 const MAX_LOGS = 1000;
 
-export default defineEventHandler(async (event) => {
+export default defineProtectedHandler({ permission: 'monitoring:read' }, async (event) => {
   try {
     const query = getQuery(event);
     const limit = Math.min(Number(query.limit) || 100, 500);
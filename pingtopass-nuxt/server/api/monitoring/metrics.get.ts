@@ -4,8 +4,9 @@
 
 import { getPerformanceMetrics, getRequestSummary, getDatabaseSummary, getSystemHealth } from '../../middleware/performance-monitor';
 import { getErrorMetrics, getErrorSummary } from '../../middleware/error-handler';
+import { defineProtectedHandler } from '../../utils/auth';
 
-export default defineEventHandler(async (event) => {
+export default defineProtectedHandler({ permission: 'monitoring:read' }, async (event) => {
   try {
     // Get all metrics
     const [
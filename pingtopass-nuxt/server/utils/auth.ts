@@ -1,22 +1,28 @@
 /**
  * Authentication utilities for server-side handlers
- * Provides JWT verification and user extraction
+ * The API owns accounts, sessions and tokens: an access token is checked by asking the API
+ * who it belongs to, and permission policies come from the module the API itself uses
  */
 
 import type { EventHandlerRequest, H3Event } from 'h3';
 import { getCookie } from 'h3';
+import type { AuthUser } from '../../../database/utils/auth-tokens';
+import type { Permission } from '../../../database/utils/permissions';
+import type { UserRole } from '../../../database/schema/types';
+import { assertPermission, createRoutePolicies } from '../../../server/utils/route-policy';
 
 export interface AuthenticatedUser {
   id: string;
   email: string;
   name?: string;
+  role: UserRole;
+  permissions: Permission[];
   level?: number;
   googleId?: string;
 }
 
 /**
- * Extract user from authentication token
- * This is a simplified implementation - in production you'd verify JWT tokens
+ * Extract the signed-in user from the access token
  */
 export async function requireAuth(event: H3Event<EventHandlerRequest>): Promise<AuthenticatedUser> {
   // Check for auth token in cookies or headers
@@ -29,36 +35,27 @@ export async function requireAuth(event: H3Event<EventHandlerRequest>): Promise<
     });
   }
 
-  // In development, allow a mock user for testing
-  if (process.env.NODE_ENV === 'development' && authToken === 'mock-dev-token') {
-    return {
-      id: 'dev-user-123',
-      email: 'developer@pingtopass.com',
-      name: 'Development User',
-      level: 3
-    };
-  }
-
-  // TODO: Replace with proper JWT verification
-  // For now, decode the token assuming it's a simple user ID
+  let user: AuthUser;
   try {
-    // This is a placeholder - implement proper JWT verification
-    const user = await getUserFromToken(authToken);
-    
-    if (!user) {
-      throw createError({
-        statusCode: 401,
-        statusMessage: 'Invalid authentication token'
-      });
-    }
-
-    return user;
-  } catch (error) {
-    throw createError({
-      statusCode: 401,
-      statusMessage: 'Authentication failed'
+    const response = await $fetch<{ data: AuthUser }>('/api/auth/me', {
+      baseURL: useRuntimeConfig().apiBaseUrl,
+      headers: { authorization: `Bearer ${authToken}` }
     });
+    user = response.data;
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    if (statusCode === 403) throw createAuthError('Account is disabled', 403);
+    if (statusCode === 401) throw createAuthError('Invalid or expired access token');
+    throw createAuthError('Authentication service unavailable', 503);
   }
+
+  return {
+    id: String(user.id),
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    permissions: user.permissions
+  };
 }
 
 /**
@@ -73,39 +70,15 @@ export async function optionalAuth(event: H3Event<EventHandlerRequest>): Promise
 }
 
 /**
- * Check if user has specific role (placeholder implementation)
+ * Check the user's role as stored on their account
  */
-export function hasRole(user: AuthenticatedUser, role: string): boolean {
-  // Placeholder implementation - extend based on your role system
-  if (role === 'admin') {
-    return user.email?.endsWith('@pingtopass.com') || false;
-  }
-  return true; // All authenticated users have basic access
+export function hasRole(user: AuthenticatedUser, role: UserRole): boolean {
+  return user.role === role;
 }
 
-/**
- * Get user from token (placeholder implementation)
- * In production, this would verify JWT and fetch user from database
- */
-async function getUserFromToken(token: string): Promise<AuthenticatedUser | null> {
-  // This is a placeholder implementation
-  // In a real app, you would:
-  // 1. Verify JWT signature
-  // 2. Extract user ID from JWT payload
-  // 3. Fetch user from database
-  // 4. Return user object
-  
-  if (token === 'test-token-123') {
-    return {
-      id: 'user-123',
-      email: 'john@example.com',
-      name: 'John Doe',
-      level: 3
-    };
-  }
-  
-  return null;
-}
+// Same policies as the API: the user must hold the route's permission
+export const { requirePermission, defineProtectedHandler } = createRoutePolicies(requireAuth);
+export { assertPermission };
 
 /**
  * Create authentication error with proper status code
@@ -12,6 +12,7 @@ export interface User {
   name: string;
   avatar?: string | null;
   role?: string;
+  permissions?: string[]; // Effective permissions as resolved by the server
   subscription?: string;
   isAdmin?: boolean;
   exams?: string[];
@@ -23,6 +24,16 @@ export interface User {
   };
 }
 
+// A signed-in device, as listed by /api/auth/sessions
+export interface UserSession {
+  id: string;
+  device: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -34,6 +45,7 @@ export const useAuthStore = defineStore('auth', () => {
   const user = ref<User | null>(null);
   const isLoading = ref(false);
   const error = ref<string | null>(null);
+  const sessions = ref<UserSession[]>([]);
 
   // Getters
   const isAuthenticated = computed(() => user.value !== null);
@@ -204,11 +216,92 @@ export const useAuthStore = defineStore('auth', () => {
     }
   };
 
+  const fetchSessions = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      clearError();
+
+      const response = await fetch('/api/auth/sessions');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load sessions');
+      }
+
+      sessions.value = data.data;
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while loading sessions';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeSession = async (sessionId: string): Promise<void> => {
+    try {
+      setLoading(true);
+      clearError();
+
+      const response = await fetch(`/api/auth/sessions/${encodeURIComponent(sessionId)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to sign out session');
+      }
+
+      sessions.value = sessions.value.filter(session => session.id !== sessionId);
+
+      // Signing out this device ends the local sign-in too
+      if (data.data.current) {
+        setUser(null);
+        sessions.value = [];
+        await navigateTo('/login');
+      }
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while signing out the session';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeOtherSessions = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      clearError();
+
+      const response = await fetch('/api/auth/sessions/revoke-others', {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to sign out other sessions');
+      }
+
+      sessions.value = sessions.value.filter(session => session.current);
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred while signing out other sessions';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return {
     // State (make writable for dev auth)
     user,
     isLoading,
     error,
+    sessions,
     
     // Getters
     isAuthenticated,
@@ -219,6 +312,9 @@ export const useAuthStore = defineStore('auth', () => {
     logout,
     checkAuth,
     register,
+    fetchSessions,
+    revokeSession,
+    revokeOtherSessions,
     clearError,
     setUser,
     setLoading,
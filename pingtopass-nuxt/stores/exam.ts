@@ -7,9 +7,68 @@ import type {
   StudySession, 
   UserProgress, 
   UserAnswer,
-  ExamListItem 
+  ExamListItem,
+  AbilityPoint,
+  AdaptiveTestResult,
+  ScoreScale,
+  DomainScore,
+  QuestionDiagram,
+  SimulationCommand,
+  SimulationTranscriptLine,
+  QuestionReportReason,
+  BlueprintReport,
+  ExamRetirement,
+  CarriedProgress,
+  CertificationPath
 } from '~/types/exam';
 
+// Question as served mid-test by the test attempt APIs (answer key withheld)
+interface AttemptQuestionPayload {
+  id: number;
+  text: string;
+  type: 'multiple_choice' | 'multi_select' | 'true_false' | 'drag_drop' | 'hotspot' | 'simulation' | null;
+  answers: Array<{ id: string; text: string }>;
+  imageUrl?: string | null;
+  diagramData?: QuestionDiagram | null;
+  objectiveId: number;
+}
+
+const questionTypes: Record<NonNullable<AttemptQuestionPayload['type']>, Question['type']> = {
+  multiple_choice: 'single',
+  true_false: 'single',
+  multi_select: 'multiple',
+  drag_drop: 'drag-drop',
+  hotspot: 'hotspot',
+  simulation: 'simulation'
+};
+
+// Test attempt as returned by the test attempt API
+interface TestAttemptPayload {
+  id: number;
+  examId: number;
+  status: 'in_progress' | 'completed' | 'abandoned' | 'invalidated';
+  startedAt: string;
+  expiresAt: string | null;
+}
+
+// Scored attempt as returned on submission
+interface TestAttemptResultPayload {
+  attemptId: number;
+  score: number; // 0-1
+  scaledScore: number | null;
+  scale: ScoreScale | null;
+  passed: boolean;
+  passingScore: number;
+  correctCount: number;
+  incorrectCount: number;
+  skippedCount: number;
+  objectiveBreakdown: Record<string, { correct: number; total: number; percentage: number }>;
+  domains: DomainScore[];
+  timePerQuestion: number[];
+  totalTimeSeconds: number;
+  completedAt: string;
+}
+
 export const useExamStore = defineStore('exam', () => {
   // State
   const exams = ref<ExamListItem[]>([]);
@@ -22,6 +81,21 @@ export const useExamStore = defineStore('exam', () => {
   const isLoading = ref(false);
   const error = ref<string | null>(null);
 
+  // Server-side test attempt backing the current session or simulation
+  const attemptId = ref<number | null>(null);
+  // How the attempt's question set met the exam blueprint
+  const blueprint = ref<BlueprintReport | null>(null);
+
+  // Retirement of the current exam version, for the migration prompt
+  const retirement = ref<ExamRetirement | null>(null);
+
+  // Certification paths, for grouping the exam catalog
+  const paths = ref<CertificationPath[]>([]);
+
+  // Adaptive test state
+  const adaptiveAttemptId = ref<number | null>(null);
+  const abilityTrajectory = ref<AbilityPoint[]>([]);
+
   // Timer state
   const timeRemaining = ref(0); // in seconds
   const isTimerActive = ref(false);
@@ -87,28 +161,59 @@ export const useExamStore = defineStore('exam', () => {
     }
   };
 
+  // Seconds left before the server closes the attempt
+  const secondsUntil = (expiresAt: string | null): number | null =>
+    expiresAt ? Math.max(0, Math.floor((new Date(expiresAt).getTime() - Date.now()) / 1000)) : null;
+
+  // Multi-select sends the ID list; interactive answers are already a JSON payload
+  const selectedAnswerFor = (question: QuestionWithAnswers | undefined, selectedOptionIds: string[]): string =>
+    question?.type === 'multiple' ? JSON.stringify(selectedOptionIds) : selectedOptionIds[0];
+
+  const toStudySession = (attempt: TestAttemptPayload, mode: StudySession['mode']): StudySession => ({
+    id: String(attempt.id),
+    userId: '',
+    examId: String(attempt.examId),
+    mode,
+    totalQuestions: questions.value.length,
+    correctAnswers: 0,
+    createdAt: new Date(attempt.startedAt)
+  });
+
+  // Start a server-side test attempt and load its frozen question set
+  const startAttempt = async (examId: string, questionCount?: number, form: { seed?: string; form?: number } = {}) => {
+    const response = await $fetch<{
+      attempt: TestAttemptPayload,
+      questions: AttemptQuestionPayload[],
+      blueprint: BlueprintReport
+    }>('/api/test-attempts', {
+      method: 'POST',
+      body: { examId: Number(examId), questionCount, ...form }
+    });
+
+    attemptId.value = response.attempt.id;
+    blueprint.value = response.blueprint;
+    questions.value = response.questions.map(question => toQuestionWithAnswers(question, examId));
+    currentQuestionIndex.value = 0;
+    currentQuestion.value = questions.value[0] || null;
+    userAnswers.value = [];
+
+    return response.attempt;
+  };
+
   // Start a new study session
   const startSession = async (examId: string, mode: 'practice' | 'timed' | 'exam'): Promise<void> => {
     try {
       setLoading(true);
       clearError();
 
-      const response = await $fetch<{data: {session: StudySession, questions: QuestionWithAnswers[]}}>('/api/sessions', {
-        method: 'POST',
-        body: { examId, mode }
-      });
+      const attempt = await startAttempt(examId);
+      currentSession.value = toStudySession(attempt, mode);
 
-      currentSession.value = response.data.session;
-      questions.value = response.data.questions;
-      currentQuestionIndex.value = 0;
-      currentQuestion.value = questions.value[0] || null;
-      userAnswers.value = [];
-
-      // Start timer if needed
+      // The server deadline is authoritative; the timer only mirrors it
       if (mode === 'timed' || mode === 'exam') {
-        const timeLimit = currentExam.value?.timeLimit;
-        if (timeLimit) {
-          startTimer(timeLimit * 60); // Convert minutes to seconds
+        const remaining = secondsUntil(attempt.expiresAt);
+        if (remaining) {
+          startTimer(remaining);
         }
       }
 
@@ -122,22 +227,35 @@ export const useExamStore = defineStore('exam', () => {
   };
 
   // Submit an answer
-  const submitAnswer = async (selectedOptionIds: string[]): Promise<void> => {
-    if (!currentSession.value || !currentQuestion.value) {
+  const submitAnswer = async (selectedOptionIds: string[], timeSpentSeconds = 0): Promise<void> => {
+    if (!currentSession.value || !currentQuestion.value || !attemptId.value) {
       throw new Error('No active session or question');
     }
 
     try {
-      const response = await $fetch<{data: UserAnswer}>('/api/sessions/answer', {
+      const response = await $fetch<{answerId: number}>(`/api/test-attempts/${attemptId.value}/answers`, {
         method: 'POST',
         body: {
-          sessionId: currentSession.value.id,
-          questionId: currentQuestion.value.id,
-          selectedOptions: selectedOptionIds
+          questionId: Number(currentQuestion.value.id),
+          selectedAnswer: selectedAnswerFor(currentQuestion.value, selectedOptionIds),
+          timeSpentSeconds
         }
       });
 
-      userAnswers.value.push(response.data);
+      // Correctness is only revealed once the attempt is submitted
+      const answer: UserAnswer = {
+        id: String(response.answerId),
+        sessionId: currentSession.value.id,
+        questionId: currentQuestion.value.id,
+        selectedOptions: selectedOptionIds,
+        isCorrect: false,
+        timeSpent: timeSpentSeconds,
+        createdAt: new Date()
+      };
+      userAnswers.value = [
+        ...userAnswers.value.filter(existing => existing.questionId !== answer.questionId),
+        answer
+      ];
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to submit answer';
@@ -146,6 +264,299 @@ export const useExamStore = defineStore('exam', () => {
     }
   };
 
+  // Start a timed exam simulation
+  const startExamSimulation = async (
+    examId: string,
+    options: { questionCount?: number; timeLimit?: number; shuffleQuestions?: boolean; seed?: string; form?: number } = {}
+  ): Promise<{
+    sessionId: string;
+    questions: QuestionWithAnswers[];
+    timeLimit: number | null;
+    blueprint: BlueprintReport | null;
+  }> => {
+    try {
+      setLoading(true);
+      clearError();
+
+      // The server assembles the form to the exam blueprint and shuffles it
+      const attempt = await startAttempt(examId, options.questionCount, { seed: options.seed, form: options.form });
+
+      return {
+        sessionId: String(attempt.id),
+        questions: questions.value,
+        timeLimit: secondsUntil(attempt.expiresAt),
+        blueprint: blueprint.value
+      };
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start exam simulation';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Save every answer of an exam simulation, then submit it for scoring
+  const submitExam = async (submission: {
+    sessionId: string;
+    answers: Record<string, string[]>;
+    timeSpent: number;
+    metadata?: { flaggedQuestions?: string[]; questionTimeSpent?: Record<string, number> };
+  }) => {
+    if (!attemptId.value) {
+      throw new Error('No active exam simulation');
+    }
+
+    try {
+      setLoading(true);
+      stopTimer();
+
+      const flagged = new Set(submission.metadata?.flaggedQuestions ?? []);
+      const questionById = new Map(questions.value.map(question => [question.id, question]));
+
+      for (const [questionId, selectedOptionIds] of Object.entries(submission.answers)) {
+        try {
+          await $fetch(`/api/test-attempts/${attemptId.value}/answers`, {
+            method: 'POST',
+            body: {
+              questionId: Number(questionId),
+              selectedAnswer: selectedAnswerFor(questionById.get(questionId), selectedOptionIds),
+              timeSpentSeconds: submission.metadata?.questionTimeSpent?.[questionId] ?? 0,
+              flagged: flagged.has(questionId)
+            }
+          });
+        } catch (err: any) {
+          // Past the deadline the server has already scored what it had
+          if (err?.statusCode === 410) break;
+          throw err;
+        }
+      }
+
+      const { result } = await $fetch<{result: TestAttemptResultPayload}>(`/api/test-attempts/${attemptId.value}/submit`, {
+        method: 'POST'
+      });
+
+      attemptId.value = null;
+
+      return {
+        attemptId: result.attemptId,
+        score: Math.round(result.score * 100),
+        scaledScore: result.scaledScore,
+        scale: result.scale,
+        passed: result.passed,
+        passingScore: Math.round(result.passingScore * 100),
+        correctAnswers: result.correctCount,
+        incorrectAnswers: result.incorrectCount,
+        skippedAnswers: result.skippedCount,
+        totalQuestions: result.correctCount + result.incorrectCount + result.skippedCount,
+        timeSpent: submission.timeSpent,
+        timePerQuestion: result.timePerQuestion,
+        domains: result.domains,
+        // Reported by domain, the way vendor score reports group objectives
+        breakdown: Object.fromEntries(
+          result.domains.map(domain => [String(domain.objectiveId), Math.round(domain.percentage * 100)])
+        )
+      };
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit exam';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toQuestionWithAnswers = (payload: AttemptQuestionPayload, examId: string): QuestionWithAnswers => {
+    const now = new Date();
+    return {
+      id: String(payload.id),
+      examId,
+      type: questionTypes[payload.type ?? 'multiple_choice'],
+      text: payload.text,
+      difficulty: 3,
+      objectiveId: String(payload.objectiveId),
+      isActive: true,
+      aiGenerated: false,
+      createdAt: now,
+      updatedAt: now,
+      imageUrl: payload.imageUrl ?? null,
+      diagram: payload.diagramData ?? null,
+      answerOptions: payload.answers.map((answer, index) => ({
+        id: answer.id,
+        questionId: String(payload.id),
+        text: answer.text,
+        isCorrect: false, // Not revealed until the attempt is submitted
+        order: index,
+        createdAt: now
+      }))
+    };
+  };
+
+  // Start an adaptive (CAT) test attempt and load its first question
+  const startAdaptiveTest = async (examId: string): Promise<QuestionWithAnswers> => {
+    try {
+      setLoading(true);
+      clearError();
+
+      const response = await $fetch<{attempt: {id: number}, question: AttemptQuestionPayload}>('/api/test-attempts/adaptive', {
+        method: 'POST',
+        body: { examId: Number(examId) }
+      });
+
+      adaptiveAttemptId.value = response.attempt.id;
+      abilityTrajectory.value = [];
+
+      return toQuestionWithAnswers(response.question, examId);
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start adaptive test';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Answer the current adaptive question; returns the next question or the final result
+  const submitAdaptiveAnswer = async (
+    examId: string,
+    question: QuestionWithAnswers,
+    selectedOptionIds: string[],
+    timeSpentSeconds: number
+  ): Promise<{ nextQuestion: QuestionWithAnswers | null; result: AdaptiveTestResult | null }> => {
+    if (!adaptiveAttemptId.value) {
+      throw new Error('No active adaptive test');
+    }
+
+    try {
+      const response = await $fetch<{
+        ability: Omit<AbilityPoint, 'questionId' | 'isCorrect'>,
+        isCorrect: boolean,
+        question: AttemptQuestionPayload | null,
+        result: AdaptiveTestResult | null
+      }>(`/api/test-attempts/${adaptiveAttemptId.value}/next`, {
+        method: 'POST',
+        body: {
+          questionId: Number(question.id),
+          selectedAnswer: selectedAnswerFor(question, selectedOptionIds),
+          timeSpentSeconds
+        }
+      });
+
+      abilityTrajectory.value.push({
+        questionId: Number(question.id),
+        isCorrect: response.isCorrect,
+        ...response.ability
+      });
+
+      if (response.result) {
+        adaptiveAttemptId.value = null;
+      }
+
+      return {
+        nextQuestion: response.question ? toQuestionWithAnswers(response.question, examId) : null,
+        result: response.result
+      };
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit answer';
+      setError(errorMessage);
+      throw err;
+    }
+  };
+
+  // Replay a simulation question's commands on the server; the transcript is
+  // sent whole each time and graded again on submission
+  const runSimulationCommands = async (
+    questionId: string,
+    commands: SimulationCommand[]
+  ): Promise<{ transcript: SimulationTranscriptLine[]; prompts: Record<string, string> }> => {
+    try {
+      const response = await $fetch<{
+        data: { transcript: SimulationTranscriptLine[]; prompts: Record<string, string> }
+      }>(`/api/questions/${questionId}/simulate`, {
+        method: 'POST',
+        body: { commands }
+      });
+
+      return response.data;
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to run simulation commands';
+      setError(errorMessage);
+      throw err;
+    }
+  };
+
+  // Report a problem with a question to the moderators; from an attempt
+  // review, the report is about the version that attempt showed
+  const reportQuestion = async (
+    questionId: string,
+    reason: QuestionReportReason,
+    comment?: string,
+    testAttemptId?: string
+  ): Promise<void> => {
+    try {
+      await $fetch(`/api/questions/${questionId}/feedback`, {
+        method: 'POST',
+        body: {
+          reason,
+          comment: comment?.trim() || undefined,
+          testAttemptId: testAttemptId ? Number(testAttemptId) : undefined
+        }
+      });
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to report the question';
+      setError(errorMessage);
+      throw err;
+    }
+  };
+
+  // Load the retirement countdown for an exam version
+  const fetchRetirement = async (examId: string): Promise<void> => {
+    try {
+      const response = await $fetch<{data: ExamRetirement}>(`/api/exams/${examId}/migration`);
+      retirement.value = response.data;
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load exam retirement';
+      setError(errorMessage);
+    }
+  };
+
+  // Carry the learner's progress to the exam's successor version
+  const migrateProgress = async (examId: string): Promise<CarriedProgress> => {
+    try {
+      const response = await $fetch<{data: {toExamId: number, carried: CarriedProgress}}>(`/api/exams/${examId}/migration`, {
+        method: 'POST'
+      });
+      if (retirement.value) {
+        retirement.value = { ...retirement.value, migratedAt: new Date().toISOString(), canMigrate: false };
+      }
+      return response.data.carried;
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to move progress to the new exam version';
+      setError(errorMessage);
+      throw err;
+    }
+  };
+
+  // Load certification paths with their exams in order
+  const fetchPaths = async (): Promise<void> => {
+    try {
+      const response = await $fetch<{data: CertificationPath[]}>('/api/paths');
+      paths.value = response.data;
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load certification paths';
+      setError(errorMessage);
+    }
+  };
+
   // Navigate to next question
   const nextQuestion = (): boolean => {
     if (currentQuestionIndex.value < questions.value.length - 1) {
@@ -216,7 +627,7 @@ export const useExamStore = defineStore('exam', () => {
 
   // Finish current session
   const finishSession = async (): Promise<StudySession> => {
-    if (!currentSession.value) {
+    if (!currentSession.value || !attemptId.value) {
       throw new Error('No active session');
     }
 
@@ -224,13 +635,21 @@ export const useExamStore = defineStore('exam', () => {
       setLoading(true);
       stopTimer();
 
-      const response = await $fetch<{data: StudySession}>(`/api/sessions/${currentSession.value.id}/finish`, {
+      const { result } = await $fetch<{result: TestAttemptResultPayload}>(`/api/test-attempts/${attemptId.value}/submit`, {
         method: 'POST'
       });
 
-      const completedSession = response.data;
+      const completedSession: StudySession = {
+        ...currentSession.value,
+        totalQuestions: questions.value.length,
+        correctAnswers: result.correctCount,
+        timeSpent: result.totalTimeSeconds,
+        score: result.score * 100,
+        completedAt: new Date(result.completedAt)
+      };
       
       // Reset state
+      attemptId.value = null;
       currentSession.value = null;
       questions.value = [];
       currentQuestion.value = null;
@@ -258,6 +677,10 @@ export const useExamStore = defineStore('exam', () => {
     currentQuestionIndex.value = 0;
     userAnswers.value = [];
     timeRemaining.value = 0;
+    attemptId.value = null;
+    blueprint.value = null;
+    adaptiveAttemptId.value = null;
+    abilityTrajectory.value = [];
     clearError();
   };
 
@@ -274,6 +697,12 @@ export const useExamStore = defineStore('exam', () => {
     error,
     timeRemaining,
     isTimerActive,
+    attemptId,
+    blueprint,
+    retirement,
+    paths,
+    adaptiveAttemptId,
+    abilityTrajectory,
 
     // Getters
     totalQuestions,
@@ -294,6 +723,15 @@ export const useExamStore = defineStore('exam', () => {
     pauseTimer,
     resumeTimer,
     finishSession,
+    startExamSimulation,
+    submitExam,
+    startAdaptiveTest,
+    submitAdaptiveAnswer,
+    runSimulationCommands,
+    reportQuestion,
+    fetchRetirement,
+    migrateProgress,
+    fetchPaths,
     resetState,
     clearError,
   };
@@ -0,0 +1,242 @@
+import { defineStore } from 'pinia';
+import { ref, computed } from 'vue';
+import type {
+  ReviewQueueItem,
+  ReviewQuestion,
+  ReviewComment,
+  ReviewHistoryEntry,
+  ReviewFeedback,
+  ReviewDecision,
+  ReviewStatus,
+  QuestionEdit
+} from '~/types/review';
+
+export interface ReviewQueueFilters {
+  examId?: number;
+  status: ReviewStatus[];
+  aiGenerated?: boolean;
+  order: 'asc' | 'desc';
+}
+
+export const REVIEW_PAGE_SIZE = 20;
+
+export const useReviewStore = defineStore('review', () => {
+  // State
+  const queue = ref<ReviewQueueItem[]>([]);
+  const total = ref(0);
+  const offset = ref(0);
+  const filters = ref<ReviewQueueFilters>({ status: ['pending', 'needs_revision'], order: 'asc' });
+
+  const selected = ref<ReviewQuestion | null>(null);
+  const comments = ref<ReviewComment[]>([]);
+  const history = ref<ReviewHistoryEntry[]>([]);
+  const feedback = ref<ReviewFeedback | null>(null);
+
+  const isLoading = ref(false);
+  const isSaving = ref(false);
+  const error = ref<string | null>(null);
+
+  // Getters
+  const hasMore = computed(() => offset.value + queue.value.length < total.value);
+  const selectedIndex = computed(() => queue.value.findIndex(item => item.id === selected.value?.id));
+
+  const setError = (err: unknown, fallback: string) => {
+    error.value = err instanceof Error ? err.message : fallback;
+  };
+
+  const queueQuery = () => ({
+    examId: filters.value.examId,
+    status: filters.value.status.join(','),
+    aiGenerated: filters.value.aiGenerated === undefined ? undefined : String(filters.value.aiGenerated),
+    order: filters.value.order,
+    limit: REVIEW_PAGE_SIZE,
+    offset: offset.value
+  });
+
+  // Load a page of the queue; filters reset to the first page
+  const fetchQueue = async (page = 0): Promise<void> => {
+    try {
+      isLoading.value = true;
+      error.value = null;
+      offset.value = page * REVIEW_PAGE_SIZE;
+
+      const response = await $fetch<{ data: { items: ReviewQueueItem[]; total: number } }>('/api/admin/review/queue', {
+        query: queueQuery()
+      });
+      queue.value = response.data.items;
+      total.value = response.data.total;
+
+    } catch (err) {
+      setError(err, 'Failed to load the review queue');
+      throw err;
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const setFilters = async (changes: Partial<ReviewQueueFilters>): Promise<void> => {
+    filters.value = { ...filters.value, ...changes };
+    await fetchQueue(0);
+  };
+
+  const selectQuestion = async (questionId: number): Promise<void> => {
+    try {
+      isLoading.value = true;
+      error.value = null;
+
+      const response = await $fetch<{
+        data: { question: ReviewQuestion; comments: ReviewComment[]; history: ReviewHistoryEntry[]; feedback: ReviewFeedback }
+      }>(`/api/admin/review/${questionId}`);
+      selected.value = response.data.question;
+      comments.value = response.data.comments;
+      history.value = response.data.history;
+      feedback.value = response.data.feedback;
+
+    } catch (err) {
+      setError(err, 'Failed to load the question');
+      throw err;
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  // Leave the queue entry in place but reflect its new status; decided items drop out on the next fetch
+  const updateQueueItem = (question: ReviewQuestion) => {
+    queue.value = queue.value.map(item =>
+      item.id === question.id ? { ...item, reviewStatus: question.reviewStatus, text: question.text } : item
+    );
+  };
+
+  // Approving or rejecting resolves open reports and dismissing closes them
+  const clearReports = (questionId: number) => {
+    queue.value = queue.value.map(item => (item.id === questionId ? { ...item, reportCount: 0 } : item));
+    if (feedback.value) {
+      feedback.value = {
+        ...feedback.value,
+        open: 0,
+        byReason: { wrong_key: 0, ambiguous: 0, outdated: 0, typo: 0 }
+      };
+    }
+  };
+
+  const decide = async (decision: ReviewDecision, comment?: string): Promise<void> => {
+    if (!selected.value) return;
+
+    try {
+      isSaving.value = true;
+      error.value = null;
+
+      const response = await $fetch<{ data: { question: ReviewQuestion; comment: ReviewComment | null } }>(
+        `/api/admin/review/${selected.value.id}/decision`,
+        { method: 'POST', body: { decision, comment: comment?.trim() || undefined } }
+      );
+      selected.value = response.data.question;
+      if (response.data.comment) comments.value = [...comments.value, response.data.comment];
+      updateQueueItem(response.data.question);
+      if (decision !== 'request_revision') clearReports(response.data.question.id);
+
+    } catch (err) {
+      setError(err, 'Failed to save the review decision');
+      throw err;
+    } finally {
+      isSaving.value = false;
+    }
+  };
+
+  const addComment = async (body: string): Promise<void> => {
+    if (!selected.value || !body.trim()) return;
+
+    try {
+      isSaving.value = true;
+      error.value = null;
+
+      const response = await $fetch<{ data: ReviewComment }>(`/api/admin/review/${selected.value.id}/comments`, {
+        method: 'POST',
+        body: { body }
+      });
+      comments.value = [...comments.value, response.data];
+
+    } catch (err) {
+      setError(err, 'Failed to add the comment');
+      throw err;
+    } finally {
+      isSaving.value = false;
+    }
+  };
+
+  const saveEdit = async (changes: QuestionEdit): Promise<void> => {
+    if (!selected.value) return;
+
+    try {
+      isSaving.value = true;
+      error.value = null;
+
+      const response = await $fetch<{ data: ReviewQuestion }>(`/api/admin/review/${selected.value.id}`, {
+        method: 'PATCH',
+        body: changes
+      });
+      selected.value = response.data;
+      updateQueueItem(response.data);
+
+    } catch (err) {
+      setError(err, 'Failed to save the question');
+      throw err;
+    } finally {
+      isSaving.value = false;
+    }
+  };
+
+  const dismissReports = async (): Promise<void> => {
+    if (!selected.value) return;
+
+    try {
+      isSaving.value = true;
+      error.value = null;
+
+      await $fetch(`/api/admin/review/${selected.value.id}/feedback/dismiss`, { method: 'POST' });
+      clearReports(selected.value.id);
+
+    } catch (err) {
+      setError(err, 'Failed to dismiss the reports');
+      throw err;
+    } finally {
+      isSaving.value = false;
+    }
+  };
+
+  // Move to the next queue entry after a decision
+  const selectNext = async (): Promise<void> => {
+    const next = queue.value[selectedIndex.value + 1];
+    if (next) await selectQuestion(next.id);
+    else selected.value = null;
+  };
+
+  return {
+    // State
+    queue,
+    total,
+    offset,
+    filters,
+    selected,
+    comments,
+    history,
+    feedback,
+    isLoading,
+    isSaving,
+    error,
+
+    // Getters
+    hasMore,
+    selectedIndex,
+
+    // Actions
+    fetchQueue,
+    setFilters,
+    selectQuestion,
+    decide,
+    addComment,
+    saveEdit,
+    dismissReports,
+    selectNext
+  };
+});
@@ -3,7 +3,8 @@ import { ref, computed } from 'vue';
 import type { 
   QuestionWithAnswers, 
   StudySession, 
-  UserAnswer 
+  UserAnswer,
+  ReadinessReport
 } from '~/types/exam';
 
 export interface StudySessionState {
@@ -60,6 +61,9 @@ export const useStudyStore = defineStore('study', () => {
     improvementTrend: 0 // positive = improving, negative = declining
   });
 
+  // Exam readiness explanation from the server
+  const readiness = ref<ReadinessReport | null>(null);
+
   // Computed properties
   const hasActiveSession = computed(() => currentSession.value !== null);
   
@@ -379,6 +383,13 @@ export const useStudyStore = defineStore('study', () => {
     };
   };
 
+  // Fetch the readiness score and what drives it
+  const fetchReadiness = async (examId: string): Promise<ReadinessReport> => {
+    const response = await $fetch<{data: ReadinessReport}>(`/api/progress/${examId}/readiness`);
+    readiness.value = response.data;
+    return response.data;
+  };
+
   // Initialize store
   const initializeStore = () => {
     loadPreferences();
@@ -393,6 +404,7 @@ export const useStudyStore = defineStore('study', () => {
     keyboardShortcutsEnabled,
     studyPreferences,
     performanceMetrics,
+    readiness,
 
     // Computed
     hasActiveSession,
@@ -419,6 +431,7 @@ export const useStudyStore = defineStore('study', () => {
     loadSessionState,
     exportSessionData,
     clearSessionHistory,
+    fetchReadiness,
     initializeStore
   };
 });
@@ -91,36 +91,11 @@ test.describe('Health Endpoints', () => {
   })
 
   test.describe('Detailed Health Check', () => {
-    test('should provide detailed system status at /api/monitoring/health', async ({ page }) => {
+    test('should require the monitoring permission for /api/monitoring/health', async ({ page }) => {
       const response = await page.goto('/api/monitoring/health')
       
-      expect(response?.status()).toBe(200)
-      
-      const healthData = await response?.json()
-      expect(healthData).toHaveProperty('timestamp')
-      expect(healthData).toHaveProperty('status')
-      expect(healthData).toHaveProperty('responseTime')
-      expect(healthData).toHaveProperty('version')
-      expect(healthData).toHaveProperty('environment')
-      expect(healthData).toHaveProperty('checks')
-      expect(healthData).toHaveProperty('summary')
-      
-      // Verify checks include all expected categories
-      expect(healthData.checks).toHaveProperty('database')
-      expect(healthData.checks).toHaveProperty('system')
-      expect(healthData.checks).toHaveProperty('errors')
-      expect(healthData.checks).toHaveProperty('environment')
-      expect(healthData.checks).toHaveProperty('configuration')
-      
-      // Verify summary provides counts
-      expect(healthData.summary).toHaveProperty('healthy')
-      expect(healthData.summary).toHaveProperty('degraded')
-      expect(healthData.summary).toHaveProperty('critical')
-      expect(healthData.summary).toHaveProperty('total')
-      
-      // Total should be sum of all statuses
-      const { healthy, degraded, critical, total } = healthData.summary
-      expect(total).toBe(healthy + degraded + critical)
+      // Detailed status is for staff with monitoring:read; anonymous callers are turned away
+      expect(response?.status()).toBe(401)
     })
   })
 
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { mount } from '@vue/test-utils';
+import DragDropAnswer from '../../../../components/exam/DragDropAnswer.vue';
+import type { QuestionDiagram } from '../../../../types/exam';
+
+const orderingDiagram: QuestionDiagram = {
+  kind: 'ordering',
+  items: [
+    { id: 'ack', text: 'ACK' },
+    { id: 'syn', text: 'SYN' },
+    { id: 'synack', text: 'SYN-ACK' }
+  ]
+};
+
+const matchingDiagram: QuestionDiagram = {
+  kind: 'matching',
+  items: [
+    { id: 'tcp', text: 'TCP' },
+    { id: 'ip', text: 'IP' }
+  ],
+  targets: [
+    { id: 'l3', text: 'Network' },
+    { id: 'l4', text: 'Transport' }
+  ]
+};
+
+const lastPayload = (wrapper: any) => {
+  const emitted = wrapper.emitted('answer-selected');
+  return JSON.parse(emitted[emitted.length - 1][0][0]);
+};
+
+describe('DragDropAnswer.vue', () => {
+  describe('Ordering', () => {
+    it('renders items in the order served until the learner reorders them', () => {
+      const wrapper = mount(DragDropAnswer, { props: { diagram: orderingDiagram } });
+
+      const items = wrapper.findAll('[data-test="ordering-item"]');
+      expect(items.map(item => item.text())).toEqual([
+        expect.stringContaining('ACK'),
+        expect.stringContaining('SYN'),
+        expect.stringContaining('SYN-ACK')
+      ]);
+    });
+
+    it('emits the new order as a JSON payload when an item moves', async () => {
+      const wrapper = mount(DragDropAnswer, { props: { diagram: orderingDiagram } });
+
+      await wrapper.findAll('[data-test="move-down"]')[0].trigger('click');
+
+      expect(lastPayload(wrapper)).toEqual({ order: ['syn', 'ack', 'synack'] });
+    });
+
+    it('reorders by drag and drop', async () => {
+      const wrapper = mount(DragDropAnswer, { props: { diagram: orderingDiagram } });
+      const items = wrapper.findAll('[data-test="ordering-item"]');
+
+      await items[2].trigger('dragstart');
+      await items[0].trigger('drop');
+
+      expect(lastPayload(wrapper)).toEqual({ order: ['synack', 'ack', 'syn'] });
+    });
+
+    it('restores a saved order', () => {
+      const wrapper = mount(DragDropAnswer, {
+        props: {
+          diagram: orderingDiagram,
+          selectedAnswers: [JSON.stringify({ order: ['syn', 'synack', 'ack'] })]
+        }
+      });
+
+      expect(wrapper.findAll('[data-test="ordering-item"]')[0].text()).toContain('SYN');
+    });
+
+    it('does not move items when disabled', async () => {
+      const wrapper = mount(DragDropAnswer, { props: { diagram: orderingDiagram, disabled: true } });
+
+      await wrapper.findAll('[data-test="move-down"]')[0].trigger('click');
+
+      expect(wrapper.emitted('answer-selected')).toBeUndefined();
+    });
+  });
+
+  describe('Matching', () => {
+    it('emits matches when an item is dropped on a target', async () => {
+      const wrapper = mount(DragDropAnswer, { props: { diagram: matchingDiagram } });
+
+      await wrapper.findAll('[data-test="matching-item"]')[0].trigger('dragstart');
+      await wrapper.findAll('[data-test="matching-target"]')[1].trigger('drop');
+
+      expect(lastPayload(wrapper)).toEqual({ matches: { tcp: 'l4' } });
+    });
+
+    it('keeps existing matches when another is chosen from the list', async () => {
+      const wrapper = mount(DragDropAnswer, {
+        props: {
+          diagram: matchingDiagram,
+          selectedAnswers: [JSON.stringify({ matches: { tcp: 'l4' } })]
+        }
+      });
+
+      await wrapper.findAll('[data-test="match-select"]')[1].setValue('l3');
+
+      expect(lastPayload(wrapper)).toEqual({ matches: { tcp: 'l4', ip: 'l3' } });
+      expect(wrapper.findAll('[data-test="matching-target"]')[1].text()).toContain('TCP');
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { mount } from '@vue/test-utils';
+import { mount, flushPromises } from '@vue/test-utils';
 import { createTestingPinia } from '@pinia/testing';
 import ExamList from '../../../../components/exam/ExamList.vue';
 import { useExamStore } from '../../../../stores/exam';
@@ -310,6 +310,39 @@ describe('ExamList.vue', () => {
     });
   });
 
+  describe('Certification Paths', () => {
+    it('should group exams by path in path order with the rest under other exams', async () => {
+      const ccnp = { ...mockExams[1], id: '3', code: 'CCNP', name: 'Cisco CCNP Enterprise', vendor: 'Cisco' };
+      const paths = [{
+        id: 1,
+        vendorId: 'cisco',
+        code: 'cisco-enterprise',
+        name: 'Cisco Enterprise',
+        description: 'From associate to professional',
+        exams: [
+          { examId: 1, code: 'CCNA', name: mockExams[0].name, position: 1, prerequisiteRule: 'previous_exam', prerequisiteExamIds: [] },
+          { examId: 3, code: 'CCNP', name: ccnp.name, position: 2, prerequisiteRule: 'previous_exam', prerequisiteExamIds: [1] }
+        ]
+      }];
+      vi.mocked(globalThis.$fetch).mockResolvedValueOnce({ data: paths });
+
+      createWrapper({ groupByPath: true, autoLoad: false });
+      examStore.exams = [...mockExams, ccnp];
+      await flushPromises();
+
+      expect(examStore.fetchPaths).toHaveBeenCalled();
+      expect(globalThis.$fetch).toHaveBeenCalledWith('/api/paths');
+      const groups = wrapper.findAll('[data-test="exam-path-group"]');
+      expect(groups.map(group => group.find('h3').text())).toEqual(['Cisco Enterprise', 'Other exams']);
+
+      const pathList = groups[0].find('[data-test="exam-list"]');
+      expect(pathList.attributes('aria-label')).toBe('Cisco Enterprise exams');
+      expect(pathList.findAll('[data-test="exam-card"] h3').map(code => code.text())).toEqual(['CCNA', 'CCNP']);
+      expect(pathList.findAll('[data-test="path-step"]').map(step => step.text())).toEqual(['Step 1 of 2', 'Step 2 of 2']);
+      expect(groups[1].findAll('[data-test="exam-card"] h3').map(code => code.text())).toEqual(['AWS-SAA']);
+    });
+  });
+
   describe('Responsive Design', () => {
     it('should render with responsive grid classes', async () => {
       createWrapper();
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { mount } from '@vue/test-utils';
+import HotspotAnswer from '../../../../components/exam/HotspotAnswer.vue';
+import type { QuestionDiagram } from '../../../../types/exam';
+
+const diagram: QuestionDiagram = { kind: 'hotspot', width: 800, height: 600, maxPoints: 2 };
+
+const mountHotspot = (props = {}) => {
+  const wrapper = mount(HotspotAnswer, {
+    props: { diagram, imageUrl: 'https://cdn.example.com/rack.png', ...props }
+  });
+
+  // Rendered at half its natural size
+  const image = wrapper.find('[data-test="hotspot-image"]');
+  (image.element as HTMLElement).getBoundingClientRect = () =>
+    ({ left: 10, top: 20, width: 400, height: 300, right: 410, bottom: 320, x: 10, y: 20, toJSON: () => ({}) });
+
+  return wrapper;
+};
+
+const lastPayload = (wrapper: any) => {
+  const emitted = wrapper.emitted('answer-selected');
+  return JSON.parse(emitted[emitted.length - 1][0][0]);
+};
+
+describe('HotspotAnswer.vue', () => {
+  it('converts clicks to coordinates on the natural-size image', async () => {
+    const wrapper = mountHotspot();
+
+    await wrapper.find('[data-test="hotspot-image"]').trigger('click', { clientX: 110, clientY: 70 });
+
+    expect(lastPayload(wrapper)).toEqual({ points: [{ x: 200, y: 100 }] });
+  });
+
+  it('shows a marker for each saved selection', () => {
+    const wrapper = mountHotspot({
+      selectedAnswers: [JSON.stringify({ points: [{ x: 400, y: 300 }] })]
+    });
+
+    const marker = wrapper.find('[data-test="hotspot-marker"]');
+    expect(marker.attributes('style')).toContain('left: 50%');
+    expect(wrapper.find('[data-test="hotspot-count"]').text()).toBe('(1/2)');
+  });
+
+  it('ignores clicks beyond the number of areas to select', async () => {
+    const wrapper = mountHotspot({
+      selectedAnswers: [JSON.stringify({ points: [{ x: 1, y: 1 }, { x: 2, y: 2 }] })]
+    });
+
+    await wrapper.find('[data-test="hotspot-image"]').trigger('click', { clientX: 110, clientY: 70 });
+
+    expect(wrapper.emitted('answer-selected')).toBeUndefined();
+  });
+
+  it('removes a selection when its marker is clicked', async () => {
+    const wrapper = mountHotspot({
+      selectedAnswers: [JSON.stringify({ points: [{ x: 1, y: 1 }, { x: 2, y: 2 }] })]
+    });
+
+    await wrapper.findAll('[data-test="hotspot-marker"]')[0].trigger('click');
+
+    expect(lastPayload(wrapper)).toEqual({ points: [{ x: 2, y: 2 }] });
+  });
+
+  it('does not record clicks when disabled', async () => {
+    const wrapper = mountHotspot({ disabled: true });
+
+    await wrapper.find('[data-test="hotspot-image"]').trigger('click', { clientX: 110, clientY: 70 });
+
+    expect(wrapper.emitted('answer-selected')).toBeUndefined();
+  });
+});
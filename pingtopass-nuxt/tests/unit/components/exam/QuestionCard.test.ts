@@ -424,6 +424,65 @@ describe('QuestionCard.vue', () => {
       expect(wrapper.text()).toContain('Drag & Drop');
     });
 
+    it('should render the drag-and-drop answer for drag-drop questions with a diagram', () => {
+      createWrapper({
+        question: {
+          ...mockQuestion,
+          type: 'drag-drop' as const,
+          answerOptions: [],
+          diagram: {
+            kind: 'matching',
+            items: [{ id: 'tcp', text: 'TCP' }],
+            targets: [{ id: 'l4', text: 'Transport' }]
+          }
+        }
+      });
+
+      expect(wrapper.find('[data-test="drag-drop-answer"]').exists()).toBe(true);
+      expect(wrapper.find('[data-test="answer-options"]').exists()).toBe(false);
+      expect(wrapper.text()).toContain('Drag each item onto its matching target');
+    });
+
+    it('should render the hotspot answer for hotspot questions', () => {
+      createWrapper({
+        question: {
+          ...mockQuestion,
+          type: 'hotspot' as const,
+          answerOptions: [],
+          imageUrl: 'https://cdn.example.com/rack.png',
+          diagram: { kind: 'hotspot', width: 800, height: 600, maxPoints: 1 }
+        }
+      });
+
+      expect(wrapper.find('[data-test="hotspot-answer"]').exists()).toBe(true);
+      expect(wrapper.text()).toContain('Hotspot');
+    });
+
+    it('should render the simulation console for simulation questions', () => {
+      wrapper = mount(QuestionCard, {
+        props: {
+          question: {
+            ...mockQuestion,
+            type: 'simulation' as const,
+            answerOptions: [],
+            diagram: {
+              kind: 'simulation',
+              devices: [{ id: 'r1', hostname: 'R1', kind: 'router', interfaces: ['GigabitEthernet0/0'] }],
+              links: [],
+              tasks: []
+            }
+          },
+          questionNumber: 1,
+          totalQuestions: 10
+        },
+        global: { stubs: { SimulationAnswer: { template: '<div data-test="simulation-answer" />' } } }
+      });
+
+      expect(wrapper.find('[data-test="simulation-answer"]').exists()).toBe(true);
+      expect(wrapper.find('[data-test="answer-options"]').exists()).toBe(false);
+      expect(wrapper.text()).toContain('only the final configuration is graded');
+    });
+
     it('should show appropriate instructions for question type', () => {
       createWrapper({ question: mockMultipleQuestion });
       
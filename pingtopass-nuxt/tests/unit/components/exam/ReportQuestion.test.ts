@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createTestingPinia } from '@pinia/testing';
+import ReportQuestion from '../../../../components/exam/ReportQuestion.vue';
+import { useExamStore } from '../../../../stores/exam';
+
+const mountReport = (props = {}) => {
+  const pinia = createTestingPinia({ createSpy: vi.fn });
+  const examStore = useExamStore(pinia);
+
+  const wrapper = mount(ReportQuestion, {
+    props: { questionId: '42', ...props },
+    global: { plugins: [pinia] }
+  });
+  return { wrapper, examStore };
+};
+
+const openForm = async (wrapper: any) => {
+  await wrapper.find('[data-test="report-toggle"]').trigger('click');
+};
+
+describe('ReportQuestion.vue', () => {
+  it('needs a reason before a report can be sent', async () => {
+    const { wrapper } = mountReport();
+
+    expect(wrapper.find('[data-test="report-form"]').exists()).toBe(false);
+    await openForm(wrapper);
+
+    expect(wrapper.findAll('[data-test="report-reason"]')).toHaveLength(4);
+    expect(wrapper.find('[data-test="report-submit"]').attributes('disabled')).toBeDefined();
+  });
+
+  it('sends the reason and comment and thanks the learner', async () => {
+    const { wrapper, examStore } = mountReport();
+    vi.mocked(examStore.reportQuestion).mockResolvedValue();
+
+    await openForm(wrapper);
+    await wrapper.findAll('[data-test="report-reason"]')[0].setValue(true);
+    await wrapper.find('[data-test="report-comment"]').setValue('Answer b is the right mask');
+    await wrapper.find('form').trigger('submit');
+    await flushPromises();
+
+    expect(examStore.reportQuestion).toHaveBeenCalledWith('42', 'wrong_key', 'Answer b is the right mask', undefined);
+    expect(wrapper.emitted('reported')).toEqual([['wrong_key']]);
+    expect(wrapper.find('[data-test="report-sent"]').exists()).toBe(true);
+    expect(wrapper.find('[data-test="report-form"]').exists()).toBe(false);
+  });
+
+  it('reports from an attempt review against that attempt', async () => {
+    const { wrapper, examStore } = mountReport({ testAttemptId: '7' });
+    vi.mocked(examStore.reportQuestion).mockResolvedValue();
+
+    await openForm(wrapper);
+    await wrapper.findAll('[data-test="report-reason"]')[1].setValue(true);
+    await wrapper.find('form').trigger('submit');
+    await flushPromises();
+
+    expect(examStore.reportQuestion).toHaveBeenCalledWith('42', 'ambiguous', '', '7');
+  });
+
+  it('keeps the form open when the report fails', async () => {
+    const { wrapper, examStore } = mountReport();
+    vi.mocked(examStore.reportQuestion).mockRejectedValue(new Error('Network error'));
+
+    await openForm(wrapper);
+    await wrapper.findAll('[data-test="report-reason"]')[3].setValue(true);
+    await wrapper.find('form').trigger('submit');
+    await flushPromises();
+
+    expect(wrapper.find('[data-test="report-error"]').exists()).toBe(true);
+    expect(wrapper.find('[data-test="report-form"]').exists()).toBe(true);
+    expect(wrapper.emitted('reported')).toBeUndefined();
+  });
+
+  it('starts over when the question changes', async () => {
+    const { wrapper, examStore } = mountReport();
+    vi.mocked(examStore.reportQuestion).mockResolvedValue();
+
+    await openForm(wrapper);
+    await wrapper.findAll('[data-test="report-reason"]')[1].setValue(true);
+    await wrapper.find('form').trigger('submit');
+    await flushPromises();
+    await wrapper.setProps({ questionId: '43' });
+
+    expect(wrapper.find('[data-test="report-sent"]').exists()).toBe(false);
+    expect(wrapper.find('[data-test="report-toggle"]').exists()).toBe(true);
+  });
+});
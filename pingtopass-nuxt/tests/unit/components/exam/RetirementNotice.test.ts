@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createTestingPinia } from '@pinia/testing';
+import RetirementNotice from '../../../../components/exam/RetirementNotice.vue';
+import { useExamStore } from '../../../../stores/exam';
+import type { ExamRetirement } from '../../../../types/exam';
+
+const retiring: ExamRetirement = {
+  examId: 1,
+  retiring: true,
+  expiresAt: '2026-06-11T00:00:00.000Z',
+  daysRemaining: 10,
+  successor: { id: 2, code: 'N10-009', name: 'CompTIA Network+', version: '009' },
+  hasProgress: true,
+  migratedAt: null,
+  canMigrate: true
+};
+
+const mountNotice = (retirement: ExamRetirement | null = retiring) => {
+  const pinia = createTestingPinia({ createSpy: vi.fn, initialState: { exam: { retirement } } });
+  const examStore = useExamStore(pinia);
+
+  const wrapper = mount(RetirementNotice, {
+    props: { examId: '1' },
+    global: {
+      plugins: [pinia],
+      stubs: {
+        NuxtLink: {
+          template: '<a :href="to"><slot /></a>',
+          props: ['to']
+        }
+      }
+    }
+  });
+  return { wrapper, examStore };
+};
+
+describe('RetirementNotice.vue', () => {
+  it('loads the retirement for the exam and stays hidden for a current version', () => {
+    const { wrapper, examStore } = mountNotice({ ...retiring, retiring: false, expiresAt: null, daysRemaining: null, successor: null });
+
+    expect(examStore.fetchRetirement).toHaveBeenCalledWith('1');
+    expect(wrapper.find('[data-test="retirement-notice"]').exists()).toBe(false);
+  });
+
+  it('counts down and moves progress to the new version', async () => {
+    const { wrapper, examStore } = mountNotice();
+    vi.mocked(examStore.migrateProgress).mockResolvedValue({ answers: 12, reviewStates: 4, objectives: 3 });
+
+    expect(wrapper.find('[data-test="retirement-countdown"]').text()).toBe('This exam version retires in 10 days.');
+    await wrapper.find('[data-test="retirement-migrate"]').trigger('click');
+    await flushPromises();
+
+    expect(examStore.migrateProgress).toHaveBeenCalledWith('1');
+    expect(wrapper.emitted('migrated')).toEqual([[{ answers: 12, reviewStates: 4, objectives: 3 }]]);
+    const moved = wrapper.find('[data-test="retirement-moved"]');
+    expect(moved.text()).toContain('Moved 12 answers and 4 review cards to N10-009 (v009)');
+    expect(moved.find('a').attributes('href')).toBe('/study/2');
+  });
+
+  it('offers a retry when the move fails', async () => {
+    const { wrapper, examStore } = mountNotice({ ...retiring, daysRemaining: 0 });
+    vi.mocked(examStore.migrateProgress).mockRejectedValue(new Error('Network error'));
+
+    expect(wrapper.find('[data-test="retirement-countdown"]').text()).toBe('This exam version has retired.');
+    await wrapper.find('[data-test="retirement-migrate"]').trigger('click');
+    await flushPromises();
+
+    expect(wrapper.find('[data-test="retirement-error"]').exists()).toBe(true);
+    expect(wrapper.find('[data-test="retirement-migrate"]').exists()).toBe(true);
+  });
+
+  it('points learners who already moved to the new version', () => {
+    const { wrapper } = mountNotice({ ...retiring, migratedAt: '2026-06-01T12:00:00.000Z', canMigrate: false });
+
+    expect(wrapper.find('[data-test="retirement-migrate"]').exists()).toBe(false);
+    expect(wrapper.find('[data-test="retirement-migrated"] a').attributes('href')).toBe('/study/2');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mount, flushPromises } from '@vue/test-utils';
+import { createTestingPinia } from '@pinia/testing';
+import SimulationAnswer from '../../../../components/exam/SimulationAnswer.vue';
+import { useExamStore } from '../../../../stores/exam';
+import type { QuestionDiagram } from '../../../../types/exam';
+
+const diagram: QuestionDiagram = {
+  kind: 'simulation',
+  devices: [
+    { id: 'r1', hostname: 'R1', kind: 'router', interfaces: ['GigabitEthernet0/0'] },
+    { id: 'sw1', hostname: 'SW1', kind: 'switch', interfaces: ['FastEthernet0/1'] },
+    { id: 'pc1', hostname: 'PC1', kind: 'host', interfaces: ['Ethernet0'] }
+  ],
+  links: [{ a: { deviceId: 'r1', interface: 'GigabitEthernet0/0' }, b: { deviceId: 'sw1', interface: 'FastEthernet0/1' } }],
+  tasks: ['Enable the LAN interface on R1']
+};
+
+const mountSimulation = (props = {}) => {
+  const pinia = createTestingPinia({ createSpy: vi.fn });
+  const examStore = useExamStore(pinia);
+  vi.mocked(examStore.runSimulationCommands).mockImplementation(async (_questionId, commands) => ({
+    transcript: commands.map(command => ({ ...command, output: [], prompt: `${command.deviceId.toUpperCase()}#` })),
+    prompts: { r1: 'R1#', sw1: 'SW1>' }
+  }));
+
+  const wrapper = mount(SimulationAnswer, {
+    props: { questionId: '42', diagram, ...props },
+    global: { plugins: [pinia] }
+  });
+  return { wrapper, examStore };
+};
+
+const lastPayload = (wrapper: any) => {
+  const emitted = wrapper.emitted('answer-selected');
+  return JSON.parse(emitted[emitted.length - 1][0][0]);
+};
+
+describe('SimulationAnswer.vue', () => {
+  it('offers a console for routers and switches but not hosts', () => {
+    const { wrapper } = mountSimulation();
+
+    const tabs = wrapper.findAll('[data-test="device-tab"]');
+    expect(tabs.map(tab => tab.text())).toEqual(['R1', 'SW1']);
+    expect(wrapper.find('[data-test="simulation-tasks"]').text()).toContain('Enable the LAN interface on R1');
+    expect(wrapper.find('label').text()).toBe('R1>');
+  });
+
+  it('replays the whole transcript and saves it as the answer', async () => {
+    const { wrapper, examStore } = mountSimulation();
+
+    await wrapper.find('[data-test="terminal-input"]').setValue('enable');
+    await wrapper.find('form').trigger('submit');
+    await flushPromises();
+
+    expect(examStore.runSimulationCommands).toHaveBeenCalledWith('42', [{ deviceId: 'r1', input: 'enable' }]);
+    expect(lastPayload(wrapper)).toEqual({ commands: [{ deviceId: 'r1', input: 'enable' }] });
+    expect(wrapper.find('[data-test="terminal-output"]').text()).toBe('R1> enable');
+    expect(wrapper.find('label').text()).toBe('R1#');
+  });
+
+  it('sends commands to the selected device', async () => {
+    const { wrapper } = mountSimulation();
+
+    await wrapper.findAll('[data-test="device-tab"]')[1].trigger('click');
+    await wrapper.find('[data-test="terminal-input"]').setValue('show vlan brief');
+    await wrapper.find('form').trigger('submit');
+    await flushPromises();
+
+    expect(lastPayload(wrapper)).toEqual({ commands: [{ deviceId: 'sw1', input: 'show vlan brief' }] });
+  });
+
+  it('restores the terminal from a saved answer', async () => {
+    const { examStore } = mountSimulation({
+      selectedAnswers: [JSON.stringify({ commands: [{ deviceId: 'r1', input: 'enable' }] })]
+    });
+    await flushPromises();
+
+    expect(examStore.runSimulationCommands).toHaveBeenCalledWith('42', [{ deviceId: 'r1', input: 'enable' }]);
+  });
+
+  it('clears the answer when the devices are reset', async () => {
+    const { wrapper } = mountSimulation({
+      selectedAnswers: [JSON.stringify({ commands: [{ deviceId: 'r1', input: 'enable' }] })]
+    });
+    await flushPromises();
+
+    await wrapper.find('[data-test="simulation-reset"]').trigger('click');
+
+    expect(lastPayload(wrapper)).toEqual({ commands: [] });
+    expect(wrapper.find('[data-test="terminal-output"]').text()).toBe('');
+  });
+
+  it('ignores input when disabled', async () => {
+    const { wrapper, examStore } = mountSimulation({ disabled: true });
+
+    await wrapper.find('[data-test="terminal-input"]').setValue('enable');
+    await wrapper.find('form').trigger('submit');
+
+    expect(examStore.runSimulationCommands).not.toHaveBeenCalled();
+    expect(wrapper.emitted('answer-selected')).toBeUndefined();
+  });
+});
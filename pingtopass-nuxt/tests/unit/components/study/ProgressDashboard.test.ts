@@ -9,11 +9,11 @@ import type { UserProgress, StudySession } from '~/types/exam';
 
 // Mock Chart.js
 vi.mock('chart.js', () => ({
-  Chart: vi.fn(() => ({
+  Chart: Object.assign(vi.fn(() => ({
     destroy: vi.fn(),
     update: vi.fn(),
     data: { datasets: [] }
-  })),
+  })), { register: vi.fn() }),
   registerables: []
 }));
 
@@ -436,6 +436,44 @@ describe('ProgressDashboard', () => {
     });
   });
 
+  describe('Exam Readiness', () => {
+    it('explains the readiness score and what to study next', async () => {
+      // Show the loaded dashboard without waiting for the mock fetches
+      wrapper.vm.isLoading = false;
+      wrapper.vm.progressData = mockProgressData;
+      studyStore.readiness = {
+        readinessScore: 0.72,
+        predictedExamScore: 0.7,
+        predictedScaledScore: 760,
+        confidenceInterval: 0.08,
+        passingScore: 0.65,
+        scale: { min: 100, max: 900, passing: 750 },
+        factors: [
+          { component: 'mastery', value: 0.7, weight: 0.55, contribution: 0.385, summary: 'Weighted mastery 70% across 3 domains' },
+          { component: 'tests', value: 0.75, weight: 0.3, contribution: 0.225, summary: 'Average of last 2 practice tests: 75%' }
+        ],
+        domains: [],
+        recommendations: [
+          { objectiveId: 3, code: '3.0', name: 'Network Operations', mastery: 0.4, reason: 'below_passing' }
+        ],
+        weakTopics: ['Network Operations'],
+        computedAt: new Date().toISOString()
+      };
+      await nextTick();
+
+      const card = wrapper.find('[data-test="readiness-card"]');
+      expect(card.exists()).toBe(true);
+      expect(card.find('[data-test="readiness-score"]').text()).toContain('72% ready');
+      expect(card.find('[data-test="predicted-score"]').text()).toContain('760/900');
+      expect(card.findAll('[data-test="readiness-factors"] li')).toHaveLength(2);
+      expect(card.find('[data-test="readiness-recommendations"]').text()).toContain('3.0 Network Operations');
+    });
+
+    it('hides the readiness card until a report is loaded', () => {
+      expect(wrapper.find('[data-test="readiness-card"]').exists()).toBe(false);
+    });
+  });
+
   describe('Estimated Completion Time', () => {
     it('calculates and displays estimated completion time', () => {
       const estimation = wrapper.find('[data-test="completion-estimate"]');
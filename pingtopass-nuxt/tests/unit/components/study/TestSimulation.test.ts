@@ -26,11 +26,11 @@ vi.mock('jspdf', () => ({
 
 // Mock Chart.js for score breakdown charts
 vi.mock('chart.js', () => ({
-  Chart: vi.fn(() => ({
+  Chart: Object.assign(vi.fn(() => ({
     destroy: vi.fn(),
     update: vi.fn(),
     data: { datasets: [] }
-  })),
+  })), { register: vi.fn() }),
   registerables: []
 }));
 
@@ -414,6 +414,36 @@ describe('TestSimulation', () => {
     });
   });
 
+  describe('Blueprint Assembly', () => {
+    it('requests the seeded form and lists what the bank could not cover', async () => {
+      examStore.startExamSimulation = vi.fn().mockResolvedValue({
+        sessionId: 'test-session-2',
+        questions: mockQuestions,
+        timeLimit: 7200,
+        blueprint: {
+          seed: 'spring',
+          form: 2,
+          requested: 100,
+          assembled: 100,
+          recentlySeen: 0,
+          unmet: [
+            { constraint: 'objective', key: '3.0', target: 20, achieved: 14 },
+            { constraint: 'type', key: 'performance_based', target: 10, achieved: 4 }
+          ]
+        }
+      });
+      await wrapper.setProps({ formSeed: 'spring', formNumber: 2 });
+
+      await wrapper.vm.startExamSimulation();
+      await nextTick();
+
+      expect(examStore.startExamSimulation).toHaveBeenCalledWith('exam1', expect.objectContaining({ seed: 'spring', form: 2 }));
+      const notice = wrapper.find('[data-test="blueprint-notice"]');
+      expect(notice.text()).toContain('objective 3.0: 14 of 20 questions');
+      expect(notice.text()).toContain('performance-based questions: 4 of 10');
+    });
+  });
+
   describe('Answer Selection and Storage', () => {
     beforeEach(async () => {
       wrapper.vm.simulationState = 'active';
@@ -643,6 +673,34 @@ describe('TestSimulation', () => {
       const retryMessage = wrapper.find('[data-test="retry-message"]');
       expect(retryMessage.exists()).toBe(true);
     });
+
+    it('shows the scaled score and domain report when the exam has a vendor scale', async () => {
+      wrapper.vm.examResults = {
+        score: 70,
+        scaledScore: 762,
+        scale: { min: 100, max: 900, passing: 750 },
+        passed: true,
+        totalQuestions: 90,
+        correctAnswers: 63,
+        timeSpent: 5400,
+        domains: [
+          { objectiveId: 1, code: '1.0', name: 'Networking Concepts', weight: 0.23, correct: 18, total: 21, percentage: 0.857, performance: 'meets_competencies' },
+          { objectiveId: 2, code: '2.0', name: 'Network Security', weight: 0.14, correct: 6, total: 13, percentage: 0.4615, performance: 'needs_improvement' }
+        ],
+        breakdown: { 1: 86, 2: 46 }
+      };
+      await nextTick();
+
+      expect(wrapper.find('[data-test="scaled-score"]').text()).toContain('762');
+      expect(wrapper.find('[data-test="scaled-score"]').text()).toContain('100–900');
+      expect(wrapper.find('[data-test="pass-fail-status"]').text()).toContain('Required: 750');
+
+      const security = wrapper.find('[data-test="objective-2"]');
+      expect(security.text()).toContain('2.0 Network Security');
+      expect(security.text()).toContain('14% of exam');
+      expect(security.text()).toContain('Needs Improvement');
+      expect(wrapper.find('[data-test="study-recommendations"]').text()).toContain('Network Security');
+    });
   });
 
   describe('Certificate Generation', () => {
@@ -961,6 +1019,72 @@ describe('TestSimulation', () => {
     });
   });
 
+  describe('Adaptive Mode', () => {
+    beforeEach(async () => {
+      examStore.abilityTrajectory = [];
+      examStore.startAdaptiveTest = vi.fn().mockResolvedValue(mockQuestions[0]);
+      examStore.submitAdaptiveAnswer = vi.fn().mockResolvedValue({
+        nextQuestion: mockQuestions[1],
+        result: null
+      });
+
+      await wrapper.setProps({ adaptive: true });
+    });
+
+    it('starts with a single question from the adaptive endpoint', async () => {
+      await wrapper.vm.startExamSimulation();
+      await nextTick();
+
+      expect(examStore.startAdaptiveTest).toHaveBeenCalledWith('exam1');
+      expect(examStore.startExamSimulation).not.toHaveBeenCalled();
+      expect(wrapper.vm.questions).toHaveLength(1);
+
+      const progress = wrapper.find('[data-test="question-progress"]');
+      expect(progress.text()).toContain('Question 1');
+      expect(progress.text()).not.toContain('of 100');
+    });
+
+    it('submits each answer before serving the next question', async () => {
+      await wrapper.vm.startExamSimulation();
+      wrapper.vm.selectAnswer('a3');
+      await wrapper.vm.submitAdaptiveAnswer();
+      await nextTick();
+
+      expect(examStore.submitAdaptiveAnswer).toHaveBeenCalledWith('exam1', mockQuestions[0], ['a3'], expect.any(Number));
+      expect(wrapper.vm.questions).toHaveLength(2);
+      expect(wrapper.vm.currentQuestionIndex).toBe(1);
+    });
+
+    it('shows the ability trajectory when the stop rule ends the test', async () => {
+      const trajectory = [
+        { questionId: 1, isCorrect: true, theta: 0.45, standardError: 0.9 },
+        { questionId: 2, isCorrect: false, theta: 0.1, standardError: 0.7 }
+      ];
+      examStore.submitAdaptiveAnswer = vi.fn().mockResolvedValue({
+        nextQuestion: null,
+        result: {
+          score: 0.72,
+          passed: false,
+          passingScore: 0.85,
+          correctCount: 1,
+          incorrectCount: 1,
+          totalTimeSeconds: 95,
+          trajectory
+        }
+      });
+      examStore.abilityTrajectory = trajectory;
+
+      await wrapper.vm.startExamSimulation();
+      wrapper.vm.selectAnswer('a3');
+      await wrapper.vm.submitAdaptiveAnswer();
+      await nextTick();
+
+      expect(wrapper.vm.simulationState).toBe('results');
+      expect(wrapper.find('[data-test="final-score"]').text()).toContain('72%');
+      expect(wrapper.find('[data-test="ability-trajectory"]').text()).toContain('after 2 questions');
+    });
+  });
+
   describe('Performance Optimizations', () => {
     it('lazy loads question images', () => {
       const images = wrapper.findAll('img[loading="lazy"]');
@@ -142,7 +142,7 @@ describe('useAuth Composable', () => {
         email: 'admin@example.com', 
         name: 'Admin User', 
         avatar: null,
-        roles: ['admin', 'user']
+        role: 'admin'
       };
       mockAuthStore.user = mockUser;
       mockAuthStore.isAuthenticated = true;
@@ -153,6 +153,25 @@ describe('useAuth Composable', () => {
       expect(hasRole('moderator')).toBe(false);
     });
 
+    it('should check permissions against the list resolved by the server', () => {
+      const mockUser = {
+        id: '1',
+        email: 'moderator@example.com',
+        name: 'Moderator User',
+        avatar: null,
+        role: 'moderator',
+        permissions: ['questions:review', 'questions:author']
+      };
+      mockAuthStore.user = mockUser;
+      mockAuthStore.isAuthenticated = true;
+
+      const { hasPermission, hasRole } = useAuth();
+
+      expect(hasPermission('questions:review')).toBe(true);
+      expect(hasPermission('monitoring:read')).toBe(false);
+      expect(hasRole('moderator')).toBe(true);
+    });
+
     it('should return false for hasRole when user is not authenticated', () => {
       mockAuthStore.user = null;
       mockAuthStore.isAuthenticated = false;
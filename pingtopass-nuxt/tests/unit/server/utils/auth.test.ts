@@ -0,0 +1,71 @@
+/**
+ * Unit tests for server auth utilities
+ * Token checks are delegated to the API; permission policies are the API's own
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createError, defineEventHandler } from 'h3';
+
+vi.mock('h3', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('h3')>()),
+  getCookie: vi.fn(() => undefined)
+}));
+
+const mockFetch = vi.fn();
+vi.stubGlobal('$fetch', mockFetch);
+vi.stubGlobal('createError', createError);
+vi.stubGlobal('defineEventHandler', defineEventHandler);
+vi.stubGlobal('getHeader', (event: any, name: string) => event.node.req.headers[name]);
+vi.stubGlobal('useRuntimeConfig', () => ({ apiBaseUrl: 'https://api.pingtopass.test' }));
+
+const { requireAuth, optionalAuth, defineProtectedHandler } = await import('../../../../server/utils/auth');
+
+const withToken = (token: string) => createMockEvent({
+  node: { req: { method: 'GET', url: '/api/monitoring/health', headers: { authorization: `Bearer ${token}` } } }
+});
+
+const apiUser = { id: 7, email: 'mod@example.com', name: 'Moderator', role: 'moderator', permissions: ['questions:review'], emailVerified: true };
+
+describe('Server auth utilities', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should ask the API who the access token belongs to', async () => {
+    mockFetch.mockResolvedValueOnce({ success: true, data: apiUser });
+
+    const user = await requireAuth(withToken('access-token') as any);
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/me', {
+      baseURL: 'https://api.pingtopass.test',
+      headers: { authorization: 'Bearer access-token' }
+    });
+    expect(user).toEqual({ id: '7', email: 'mod@example.com', name: 'Moderator', role: 'moderator', permissions: ['questions:review'] });
+  });
+
+  it('should pass on the API\'s verdict for rejected tokens', async () => {
+    mockFetch.mockRejectedValueOnce(Object.assign(new Error('Unauthorized'), { statusCode: 401 }));
+    await expect(requireAuth(withToken('revoked') as any)).rejects.toMatchObject({ statusCode: 401 });
+
+    mockFetch.mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { statusCode: 403 }));
+    await expect(requireAuth(withToken('disabled') as any)).rejects.toMatchObject({ statusCode: 403 });
+
+    mockFetch.mockRejectedValueOnce(new Error('fetch failed'));
+    await expect(requireAuth(withToken('anything') as any)).rejects.toMatchObject({ statusCode: 503 });
+
+    await expect(requireAuth(createMockEvent() as any)).rejects.toMatchObject({ statusCode: 401 });
+    expect(await optionalAuth(createMockEvent() as any)).toBeNull();
+  });
+
+  it('should only run protected handlers for users holding the permission', async () => {
+    const handler = vi.fn(async (_event: unknown, user: { id: string }) => ({ userId: user.id }));
+    const reviewRoute = defineProtectedHandler({ permission: 'questions:review' }, handler);
+    const monitoringRoute = defineProtectedHandler({ permission: 'monitoring:read' }, handler);
+
+    mockFetch.mockResolvedValue({ success: true, data: apiUser });
+
+    expect(await reviewRoute(withToken('access-token') as any)).toEqual({ userId: '7' });
+    await expect(monitoringRoute(withToken('access-token') as any)).rejects.toMatchObject({ statusCode: 403 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
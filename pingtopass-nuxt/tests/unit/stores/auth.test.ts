@@ -162,6 +162,78 @@ describe('Auth Store', () => {
     });
   });
 
+  describe('Sessions', () => {
+    const laptop = { id: 'session-laptop', device: 'Chrome on macOS', ipAddress: '203.0.113.7', createdAt: '2026-10-01T09:00:00.000Z', lastSeenAt: '2026-10-19T08:00:00.000Z', current: true };
+    const phone = { id: 'session-phone', device: 'Safari on iOS', ipAddress: '198.51.100.20', createdAt: '2026-10-10T18:00:00.000Z', lastSeenAt: '2026-10-18T21:00:00.000Z', current: false };
+
+    it('should list sessions and sign out another device', async () => {
+      const store = useAuthStore();
+      store.setUser({ id: '1', email: 'test@example.com', name: 'Test User' });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: [laptop, phone] })
+      });
+      await store.fetchSessions();
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/auth/sessions');
+      expect(store.sessions).toEqual([laptop, phone]);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { ok: true, current: false } })
+      });
+      await store.revokeSession(phone.id);
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/auth/sessions/session-phone', { method: 'DELETE' });
+      expect(store.sessions).toEqual([laptop]);
+      expect(store.isAuthenticated).toBe(true);
+    });
+
+    it('should sign out locally when the current session is revoked', async () => {
+      const store = useAuthStore();
+      store.setUser({ id: '1', email: 'test@example.com', name: 'Test User' });
+      store.sessions = [laptop, phone];
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { ok: true, current: true } })
+      });
+      await store.revokeSession(laptop.id);
+
+      expect(store.user).toBe(null);
+      expect(store.sessions).toEqual([]);
+      expect(mockNavigateTo).toHaveBeenCalledWith('/login');
+    });
+
+    it('should keep only the current session after signing out the others', async () => {
+      const store = useAuthStore();
+      store.sessions = [laptop, phone];
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { revoked: 1 } })
+      });
+      await store.revokeOtherSessions();
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/auth/sessions/revoke-others', { method: 'POST' });
+      expect(store.sessions).toEqual([laptop]);
+    });
+
+    it('should surface errors from the sessions API', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({ message: 'Session not found' })
+      });
+
+      const store = useAuthStore();
+
+      await expect(store.revokeSession('missing')).rejects.toThrow('Session not found');
+      expect(store.error).toBe('Session not found');
+    });
+  });
+
   describe('Loading States', () => {
     it('should set loading state during login', async () => {
       mockFetch.mockImplementationOnce(() => new Promise(resolve => setTimeout(resolve, 100)));
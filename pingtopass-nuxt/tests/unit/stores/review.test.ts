@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setActivePinia, createPinia } from 'pinia';
+import { useReviewStore } from '../../../stores/review';
+
+// Mock Nuxt's $fetch for API calls
+const mockFetch = vi.fn();
+vi.stubGlobal('$fetch', mockFetch);
+
+const queueItem = (id: number, aiConfidenceScore: number | null) => ({
+  id,
+  examId: 1,
+  objectiveId: 1,
+  objectiveCode: '1.1',
+  text: `Question ${id}`,
+  type: 'multiple_choice',
+  difficulty: 3,
+  reviewStatus: 'pending',
+  aiGenerated: aiConfidenceScore !== null,
+  aiModel: null,
+  aiConfidenceScore,
+  isBeta: false,
+  commentCount: 0,
+  reportCount: 0
+});
+
+const reviewQuestion = (id: number, reviewStatus = 'pending') => ({
+  ...queueItem(id, 0.4),
+  answers: [
+    { id: 'a', text: 'Right', isCorrect: true },
+    { id: 'b', text: 'Wrong', isCorrect: false }
+  ],
+  explanation: null,
+  reference: null,
+  tags: [],
+  imageUrl: null,
+  diagramData: null,
+  reviewStatus,
+  reviewedBy: null,
+  reviewedAt: null
+});
+
+describe('Review Store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.clearAllMocks();
+  });
+
+  it('should load the queue with the current filters', async () => {
+    mockFetch.mockResolvedValueOnce({ data: { items: [queueItem(7, 0.3), queueItem(8, null)], total: 25 } });
+
+    const store = useReviewStore();
+    await store.fetchQueue();
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/admin/review/queue', {
+      query: expect.objectContaining({ status: 'pending,needs_revision', order: 'asc', limit: 20, offset: 0 })
+    });
+    expect(store.queue.map(item => item.id)).toEqual([7, 8]);
+    expect(store.hasMore).toBe(true);
+  });
+
+  it('should post a decision, append its comment and move to the next question', async () => {
+    const store = useReviewStore();
+    store.queue = [queueItem(7, 0.3), queueItem(8, 0.5)] as any;
+
+    mockFetch.mockResolvedValueOnce({ data: { question: reviewQuestion(7), comments: [], history: [] } });
+    await store.selectQuestion(7);
+
+    mockFetch.mockResolvedValueOnce({
+      data: {
+        question: reviewQuestion(7, 'needs_revision'),
+        comment: { id: 1, questionId: 7, userId: 1, decision: 'request_revision', body: 'Fix b', createdAt: '2026-03-01T09:00:00Z' }
+      }
+    });
+    await store.decide('request_revision', ' Fix b ');
+
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/admin/review/7/decision', {
+      method: 'POST',
+      body: { decision: 'request_revision', comment: 'Fix b' }
+    });
+    expect(store.comments).toHaveLength(1);
+    expect(store.queue[0].reviewStatus).toBe('needs_revision');
+
+    mockFetch.mockResolvedValueOnce({ data: { question: reviewQuestion(8), comments: [], history: [] } });
+    await store.selectNext();
+    expect(store.selected?.id).toBe(8);
+  });
+
+  it('should dismiss learner reports on the selected question', async () => {
+    const store = useReviewStore();
+    store.queue = [{ ...queueItem(7, 0.3), reportCount: 3 }] as any;
+
+    const report = { id: 1, questionId: 7, userId: 2, questionRevisionId: 4, reason: 'typo', comment: null, status: 'open', createdAt: '2026-03-01T09:00:00Z' };
+    mockFetch.mockResolvedValueOnce({
+      data: {
+        question: reviewQuestion(7, 'needs_revision'),
+        comments: [],
+        history: [],
+        feedback: { open: 3, byReason: { wrong_key: 0, ambiguous: 0, outdated: 0, typo: 3 }, reports: [report] }
+      }
+    });
+    await store.selectQuestion(7);
+    expect(store.feedback?.open).toBe(3);
+
+    mockFetch.mockResolvedValueOnce({ success: true, data: { dismissed: 3 } });
+    await store.dismissReports();
+
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/admin/review/7/feedback/dismiss', { method: 'POST' });
+    expect(store.feedback).toMatchObject({ open: 0, byReason: { typo: 0 } });
+    expect(store.queue[0].reportCount).toBe(0);
+  });
+
+  it('should keep the error message when an edit is refused', async () => {
+    const store = useReviewStore();
+    store.selected = reviewQuestion(7) as any;
+    mockFetch.mockRejectedValueOnce(new Error('Question content is invalid for its type'));
+
+    await expect(store.saveEdit({ text: 'Too short' })).rejects.toThrow();
+    expect(store.error).toBe('Question content is invalid for its type');
+    expect(store.isSaving).toBe(false);
+  });
+});
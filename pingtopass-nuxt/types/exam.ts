@@ -8,8 +8,12 @@ export interface Exam {
   description?: string;
   passingScore: number;
   timeLimit?: number; // in minutes
+  scoreScale?: ScoreScale | null;
   questionCount: number;
   isActive: boolean;
+  version?: string | null;
+  expiresAt?: string | null; // Vendor retirement date of this version
+  successorExamId?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,7 +21,7 @@ export interface Exam {
 export interface Question {
   id: string;
   examId: string;
-  type: 'single' | 'multiple' | 'drag-drop';
+  type: 'single' | 'multiple' | 'drag-drop' | 'hotspot' | 'simulation';
   text: string;
   explanation?: string;
   difficulty: 1 | 2 | 3 | 4 | 5;
@@ -27,6 +31,65 @@ export interface Question {
   createdAt: Date;
   updatedAt: Date;
   answerOptions?: AnswerOption[];
+  imageUrl?: string | null; // Hotspot image
+  diagram?: QuestionDiagram | null; // Interactive content, without the answer key
+  selection?: QuestionSelection; // Set by weak-areas study mode
+}
+
+export interface DragDropItem {
+  id: string;
+  text: string;
+}
+
+// Interactive question content as served to learners
+export type QuestionDiagram =
+  | { kind: 'ordering'; items: DragDropItem[] }
+  | { kind: 'matching'; items: DragDropItem[]; targets: DragDropItem[] }
+  | { kind: 'hotspot'; width: number; height: number; maxPoints: number }
+  | { kind: 'simulation'; devices: SimulationDevice[]; links: SimulationLink[]; tasks: string[] };
+
+// Simulated network for performance-based questions; configuration is
+// discovered with show commands rather than served up front
+export interface SimulationDevice {
+  id: string;
+  hostname: string;
+  kind: 'router' | 'switch' | 'host';
+  interfaces: string[];
+}
+
+export interface SimulationLink {
+  a: { deviceId: string; interface: string };
+  b: { deviceId: string; interface: string };
+}
+
+export interface SimulationCommand {
+  deviceId: string;
+  input: string;
+}
+
+// One replayed command with the device's response
+export interface SimulationTranscriptLine extends SimulationCommand {
+  output: string[];
+  prompt: string;
+}
+
+// Learner answers to interactive questions. They travel through the answer
+// plumbing as a single JSON-encoded entry, which the server grades as-is.
+export type InteractiveResponse =
+  | { order: string[] }
+  | { matches: Record<string, string> }
+  | { points: Array<{ x: number; y: number }> }
+  | { commands: SimulationCommand[] };
+
+// Learner report on a question (see /api/questions/:id/feedback)
+export type QuestionReportReason = 'wrong_key' | 'ambiguous' | 'outdated' | 'typo';
+
+// Why a question was picked in weak-areas mode
+export interface QuestionSelection {
+  objectiveId: number;
+  objectiveMastery: number; // 0-1
+  objectiveWeight: number; // Share of the session (0-1)
+  reason: 'previously_incorrect' | 'unseen' | 'reinforcement';
 }
 
 export interface AnswerOption {
@@ -38,6 +101,144 @@ export interface AnswerOption {
   createdAt: Date;
 }
 
+// Ability estimate after each answer in an adaptive test (logit scale)
+export interface AbilityPoint {
+  questionId: number;
+  isCorrect: boolean;
+  theta: number;
+  standardError: number;
+}
+
+// Vendor reporting scale, e.g. 100-900 with a 750 cut score
+export interface ScoreScale {
+  min: number;
+  max: number;
+  passing: number;
+  step?: number;
+}
+
+// One exam domain on a score report
+export interface DomainScore {
+  objectiveId: number;
+  code: string;
+  name: string;
+  weight: number; // 0-1 share of the exam
+  correct: number;
+  total: number;
+  percentage: number; // 0-1
+  performance: 'meets_competencies' | 'needs_improvement';
+}
+
+// A blueprint target a practice test could not meet because the question bank is too thin
+export interface BlueprintShortfall {
+  constraint: 'total' | 'objective' | 'difficulty' | 'type' | 'recency';
+  key: string; // Objective code, difficulty band or question type group
+  target: number;
+  achieved: number;
+}
+
+// How a fixed-form test was assembled (see POST /api/test-attempts)
+export interface BlueprintReport {
+  seed: string;
+  form: number;
+  requested: number;
+  assembled: number;
+  recentlySeen: number;
+  unmet: BlueprintShortfall[];
+}
+
+// Retirement countdown for a learner on an old exam version (see /api/exams/:id/migration)
+export interface ExamRetirement {
+  examId: number;
+  retiring: boolean;
+  expiresAt: string | null;
+  daysRemaining: number | null; // 0 once the version has expired
+  successor: { id: number; code: string; name: string; version: string | null } | null;
+  hasProgress: boolean;
+  migratedAt: string | null;
+  canMigrate: boolean;
+}
+
+// What moved to the new version when a learner migrated
+export interface CarriedProgress {
+  answers: number;
+  reviewStates: number;
+  objectives: number; // Objectives with carried mastery
+}
+
+// Certification path as listed by the path catalog, exams in the order to take them
+export interface CertificationPath {
+  id: number;
+  vendorId: string;
+  code: string;
+  name: string;
+  description: string | null;
+  exams: CertificationPathExam[];
+}
+
+export interface CertificationPathExam {
+  examId: number;
+  code: string;
+  name: string;
+  position: number; // 1-based
+  prerequisiteRule: 'previous_exam' | 'none';
+  prerequisiteExamIds: number[];
+}
+
+export interface AdaptiveTestResult {
+  score: number; // 0-1 expected proportion correct across the item bank
+  scaledScore: number | null;
+  scale: ScoreScale | null;
+  passed: boolean;
+  passingScore: number;
+  correctCount: number;
+  incorrectCount: number;
+  totalTimeSeconds: number;
+  trajectory: AbilityPoint[];
+}
+
+// Why a learner is at their readiness score (see /api/progress/:examId/readiness)
+export interface ReadinessFactor {
+  component: 'mastery' | 'coverage' | 'tests';
+  value: number; // 0-1
+  weight: number; // Share of the readiness score
+  contribution: number;
+  summary: string;
+}
+
+export interface DomainReadiness {
+  objectiveId: number;
+  code: string;
+  name: string;
+  weight: number;
+  mastery: number; // 0-1
+  answered: number;
+  lastStudied: string | null;
+  status: 'not_started' | 'weak' | 'on_track' | 'strong';
+}
+
+export interface ReadinessRecommendation {
+  objectiveId: number;
+  code: string;
+  name: string;
+  mastery: number;
+  reason: 'not_started' | 'below_passing' | 'review_due';
+}
+
+export interface ReadinessReport {
+  readinessScore: number; // 0-1
+  predictedExamScore: number; // 0-1
+  predictedScaledScore: number;
+  confidenceInterval: number; // +/- on predictedExamScore
+  passingScore: number;
+  scale: ScoreScale;
+  factors: ReadinessFactor[];
+  domains: DomainReadiness[];
+  recommendations: ReadinessRecommendation[];
+  weakTopics: string[];
+  computedAt: string;
+}
+
 export interface StudySession {
   id: string;
   userId: string;
@@ -0,0 +1,99 @@
+// Moderator review types, matching the /api/admin/review endpoints
+
+import type { QuestionDiagram } from './exam';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'needs_revision';
+export type ReviewDecision = 'approve' | 'reject' | 'request_revision';
+export type ReportReason = 'wrong_key' | 'ambiguous' | 'outdated' | 'typo';
+
+export interface ReviewQueueItem {
+  id: number;
+  examId: number;
+  objectiveId: number;
+  objectiveCode: string;
+  text: string;
+  type: string;
+  difficulty: number | null;
+  reviewStatus: ReviewStatus;
+  aiGenerated: boolean | null;
+  aiModel: string | null;
+  aiConfidenceScore: number | null; // 0-1, null for hand-written questions
+  isBeta: boolean | null;
+  commentCount: number;
+  reportCount: number; // Open learner reports
+}
+
+export interface ReviewAnswer {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+  explanation?: string;
+}
+
+// Full question as moderators see it, answer key included
+export interface ReviewQuestion {
+  id: number;
+  examId: number;
+  objectiveId: number;
+  text: string;
+  type: string;
+  answers: ReviewAnswer[];
+  explanation: string | null;
+  reference: string | null;
+  difficulty: number | null;
+  tags: string[] | null;
+  imageUrl: string | null;
+  diagramData: QuestionDiagram | null;
+  reviewStatus: ReviewStatus;
+  reviewedBy: number | null;
+  reviewedAt: string | null;
+  aiGenerated: boolean | null;
+  aiModel: string | null;
+  aiConfidenceScore: number | null;
+}
+
+export interface ReviewComment {
+  id: number;
+  questionId: number;
+  userId: number | null;
+  decision: ReviewDecision | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface ReviewHistoryEntry {
+  id: number;
+  userId: number | null;
+  action: string; // e.g. 'question.approve', 'question.edit'
+  oldValues: Record<string, unknown> | null;
+  newValues: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface LearnerReport {
+  id: number;
+  questionId: number;
+  userId: number;
+  questionRevisionId: number | null;
+  reason: ReportReason;
+  comment: string | null;
+  status: 'open' | 'resolved' | 'dismissed';
+  createdAt: string;
+}
+
+// Open report counts with the most recent reports
+export interface ReviewFeedback {
+  open: number;
+  byReason: Record<ReportReason, number>;
+  reports: LearnerReport[];
+}
+
+export interface QuestionEdit {
+  objectiveId?: number;
+  text?: string;
+  answers?: ReviewAnswer[];
+  explanation?: string | null;
+  reference?: string | null;
+  difficulty?: number;
+  tags?: string[];
+}
@@ -17,8 +17,9 @@ import {
 import { replicationManager } from '~/server/utils/turso-replication'
 import { cacheManager } from '~/server/utils/cache-strategy'
 import { optimizedQueries } from '~/server/utils/optimized-queries'
+import { defineProtectedHandler, assertPermission } from '~/server/utils/auth'
 
-export default defineEventHandler(async (event) => {
+export default defineProtectedHandler({ permission: 'monitoring:read' }, async (event, user) => {
   try {
     // Get query parameters
     const query = getQuery(event)
@@ -27,6 +28,7 @@ export default defineEventHandler(async (event) => {
     
     // Handle reset request
     if (reset) {
+      assertPermission(user, 'monitoring:manage')
       resetPerformanceStats()
       return { message: 'Performance statistics reset successfully' }
     }
@@ -123,6 +125,7 @@ export default defineEventHandler(async (event) => {
     }
     
   } catch (error) {
+    if (isError(error)) throw error
     console.error('Database performance monitoring failed:', error)
     
     throw createError({
@@ -0,0 +1,55 @@
+// Near-duplicate resolution API endpoint
+// Merges or retires one question of a flagged pair, or dismisses the flag
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler, requestActor } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Duplicate flag not found' },
+  already_resolved: { statusCode: 409, statusMessage: 'Duplicate flag is already resolved' },
+  invalid_keep: { statusCode: 400, statusMessage: 'The kept question must be one of the flagged pair' }
+} as const
+
+const resolveSchema = z.object({
+  action: z.enum(['merge', 'retire', 'dismiss']),
+  keepQuestionId: z.number().int().positive().optional()
+})
+
+export default defineProtectedHandler({ permission: 'questions:deduplicate' }, async (event, user) => {
+  try {
+    const flagId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { action, keepQuestionId } = resolveSchema.parse(body)
+
+    const result = await queries.similarity.resolveFlag({
+      flagId,
+      action,
+      keepQuestionId,
+      actor: requestActor(event, user)
+    })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: {
+        flag: result.flag,
+        movedAnswers: result.movedAnswers
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid resolution',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'similarity.resolveFlag')
+  }
+})
@@ -0,0 +1,38 @@
+// Near-duplicate question flags API endpoint
+// Flagged pairs with both questions' text, most similar first
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+import { SIMILARITY_CONFIG } from '~/database/utils/question-similarity'
+
+const flagsSchema = z.object({
+  examId: z.coerce.number().int().positive().optional(),
+  status: z.enum(['open', 'merged', 'retired', 'dismissed']).default('open'),
+  limit: z.coerce.number().int().min(1).max(SIMILARITY_CONFIG.maxPageSize).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+})
+
+export default defineProtectedHandler({ permission: 'questions:deduplicate' }, async (event) => {
+  try {
+    const params = flagsSchema.parse(getQuery(event))
+    const flags = await queries.similarity.listFlags(params)
+
+    return {
+      success: true,
+      data: flags
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid duplicate filters',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'similarity.listFlags')
+  }
+})
@@ -0,0 +1,43 @@
+// Near-duplicate scan API endpoint
+// Compares every active question in an exam and flags pairs that were not flagged before
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+const scanSchema = z.object({
+  examId: z.number().int().positive(),
+  threshold: z.number().min(0.3).max(1).optional()
+})
+
+export default defineProtectedHandler({ permission: 'questions:deduplicate' }, async (event) => {
+  try {
+    const body = await readBody(event)
+    const params = scanSchema.parse(body)
+
+    const result = await queries.similarity.scanExam(params)
+    if (!result.ok) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Exam not found'
+      })
+    }
+
+    return {
+      success: true,
+      data: result.report
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid scan request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'similarity.scanExam')
+  }
+})
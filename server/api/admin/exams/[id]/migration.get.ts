@@ -0,0 +1,47 @@
+// Exam version mapping API endpoint
+// Lists how the exam's objectives and questions map onto a newer version, saved or suggested
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  exam_not_found: { statusCode: 404, statusMessage: 'Exam not found' },
+  same_exam: { statusCode: 400, statusMessage: 'An exam cannot be mapped onto itself' }
+} as const
+
+const mappingQuerySchema = z.object({
+  toExamId: z.coerce.number().int().positive()
+})
+
+export default defineProtectedHandler({ permission: 'exams:migrate' }, async (event) => {
+  try {
+    const fromExamId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const { toExamId } = mappingQuerySchema.parse(getQuery(event))
+
+    const result = await queries.migrations.getMapping({ fromExamId, toExamId })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: {
+        objectives: result.objectives,
+        questions: result.questions
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid mapping request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'migrations.getMapping')
+  }
+})
@@ -0,0 +1,63 @@
+// Exam version mapping API endpoint
+// Saves where the exam's objectives and questions live on its successor and when it expires
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler, requestActor } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  exam_not_found: { statusCode: 404, statusMessage: 'Exam not found' },
+  same_exam: { statusCode: 400, statusMessage: 'An exam cannot be mapped onto itself' },
+  invalid_mapping: { statusCode: 400, statusMessage: 'Mapping entries must map content of this exam onto content of the new version' }
+} as const
+
+const entrySchema = z.object({
+  sourceId: z.number().int().positive(),
+  targetId: z.number().int().positive().nullable()
+})
+
+const mappingSchema = z.object({
+  toExamId: z.number().int().positive(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  objectives: z.array(entrySchema).default([]),
+  questions: z.array(entrySchema).default([])
+})
+
+export default defineProtectedHandler({ permission: 'exams:migrate' }, async (event, user) => {
+  try {
+    const fromExamId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { toExamId, expiresAt, objectives, questions } = mappingSchema.parse(body)
+
+    const result = await queries.migrations.saveMapping({
+      fromExamId,
+      toExamId,
+      mapping: { objectives, questions },
+      expiresAt,
+      actor: requestActor(event, user)
+    })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: {
+        mapped: result.mapped,
+        unmapped: result.unmapped
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid mapping',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'migrations.saveMapping')
+  }
+})
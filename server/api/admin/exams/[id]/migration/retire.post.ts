@@ -0,0 +1,42 @@
+// Exam retirement API endpoint
+// Deactivates the objectives and questions that were not mapped onto the exam's successor
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler, requestActor } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  exam_not_found: { statusCode: 404, statusMessage: 'Exam not found' },
+  no_successor: { statusCode: 409, statusMessage: 'Map the exam onto its new version before retiring content' }
+} as const
+
+export default defineProtectedHandler({ permission: 'exams:migrate' }, async (event, user) => {
+  try {
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.migrations.retireUnmapped({
+      examId,
+      actor: requestActor(event, user)
+    })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: result.retired
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid exam id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'migrations.retireUnmapped')
+  }
+})
@@ -0,0 +1,39 @@
+// Question review detail API endpoint
+// Returns the full question with its answer key, comment thread, audit history and learner reports
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event) => {
+  try {
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.questionReview.getReviewItem(questionId)
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Question not found' })
+    }
+
+    return {
+      success: true,
+      data: {
+        question: result.question,
+        comments: result.comments,
+        history: result.history,
+        feedback: result.feedback
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid question ID',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'questionReview.getReviewItem')
+  }
+})
@@ -0,0 +1,70 @@
+// Question inline edit API endpoint
+// Moderators correct a question during review; changes are checked, audited and saved as a new revision
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler, requestActor } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Question not found' },
+  objective_not_in_exam: { statusCode: 400, statusMessage: 'Objective does not belong to this exam' },
+  invalid_content: { statusCode: 422, statusMessage: 'Question content is invalid for its type' }
+} as const
+
+// diagramData is checked per question type by the query layer
+const editSchema = z.object({
+  objectiveId: z.number().int().positive().optional(),
+  text: z.string().min(10).optional(),
+  answers: z.array(z.object({
+    id: z.string().min(1),
+    text: z.string().min(1),
+    isCorrect: z.boolean(),
+    explanation: z.string().optional()
+  })).optional(),
+  explanation: z.string().nullish(),
+  reference: z.string().nullish(),
+  difficulty: z.number().int().min(1).max(5).optional(),
+  tags: z.array(z.string()).optional(),
+  imageUrl: z.string().url().nullish(),
+  diagramData: z.any().optional(),
+  // Clear attempt statistics when the change alters what is asked
+  resetStats: z.boolean().optional()
+}).strict()
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event, user) => {
+  try {
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { resetStats, ...changes } = editSchema.parse(body)
+
+    const result = await queries.questionReview.editQuestion({
+      questionId,
+      changes,
+      resetStats,
+      actor: requestActor(event, user)
+    })
+    if (!result.ok) {
+      throw createError({
+        ...rejectionStatus[result.reason],
+        data: result.reason === 'invalid_content' ? { errors: result.errors } : undefined
+      })
+    }
+
+    return {
+      success: true,
+      data: result.question
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid question changes',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'questionReview.editQuestion')
+  }
+})
@@ -0,0 +1,45 @@
+// Question review comment API endpoint
+// Adds a reply to the moderator thread on a question
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+import { REVIEW_CONFIG } from '~/database/utils/question-review'
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1).max(REVIEW_CONFIG.maxCommentLength)
+})
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event, user) => {
+  try {
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const comment = commentSchema.parse(body)
+
+    const result = await queries.questionReview.addComment({
+      questionId,
+      body: comment.body,
+      actor: { userId: user.id }
+    })
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Question not found' })
+    }
+
+    return {
+      success: true,
+      data: result.comment
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid comment',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'questionReview.addComment')
+  }
+})
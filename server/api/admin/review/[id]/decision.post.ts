@@ -0,0 +1,56 @@
+// Question review decision API endpoint
+// Approves, rejects or requests a revision; approved questions become available to learners
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler, requestActor } from '~/server/utils/auth'
+import { REVIEW_CONFIG } from '~/database/utils/question-review'
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Question not found' },
+  comment_required: { statusCode: 400, statusMessage: 'Say what needs revising in a comment' },
+  unchanged: { statusCode: 409, statusMessage: 'Question already has this review status' }
+} as const
+
+const decisionSchema = z.object({
+  decision: z.enum(['approve', 'reject', 'request_revision']),
+  comment: z.string().max(REVIEW_CONFIG.maxCommentLength).optional()
+})
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event, user) => {
+  try {
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { decision, comment } = decisionSchema.parse(body)
+
+    const result = await queries.questionReview.decide({
+      questionId,
+      decision,
+      comment,
+      actor: requestActor(event, user)
+    })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: {
+        question: result.question,
+        comment: result.comment
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid review decision',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'questionReview.decide')
+  }
+})
@@ -0,0 +1,37 @@
+// Question feedback dismissal API endpoint
+// Closes a question's open learner reports without changing the question
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler, requestActor } from '~/server/utils/auth'
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event, user) => {
+  try {
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const dismissed = await queries.feedback.closeReports({
+      questionId,
+      status: 'dismissed',
+      actor: requestActor(event, user)
+    })
+
+    return {
+      success: true,
+      data: {
+        dismissed
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid question ID',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'feedback.closeReports')
+  }
+})
@@ -0,0 +1,40 @@
+// Question revision diff API endpoint
+// Field-by-field comparison of two revisions, e.g. ?from=1&to=3
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+const diffSchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive()
+})
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event) => {
+  try {
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const { from, to } = diffSchema.parse(getQuery(event))
+
+    const result = await queries.revisions.diffRevisions(questionId, from, to)
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Revision not found' })
+    }
+
+    return {
+      success: true,
+      data: result.diff
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid revision range',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'revisions.diffRevisions')
+  }
+})
@@ -0,0 +1,37 @@
+// Question revision history API endpoint
+// Every saved version of a question's content, oldest first
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event) => {
+  try {
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.revisions.listRevisions(questionId)
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Question not found' })
+    }
+
+    return {
+      success: true,
+      data: {
+        currentRevision: result.currentRevision,
+        revisions: result.revisions
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid question ID',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'revisions.listRevisions')
+  }
+})
@@ -0,0 +1,45 @@
+// Question review queue API endpoint
+// Pending and needs-revision questions for moderators, least confident AI output first
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+const reviewStatus = z.enum(['pending', 'approved', 'rejected', 'needs_revision'])
+
+const queueSchema = z.object({
+  examId: z.coerce.number().int().positive().optional(),
+  // Comma-separated, e.g. pending,needs_revision
+  status: z.string()
+    .transform(value => value.split(',').map(status => status.trim()).filter(Boolean))
+    .pipe(z.array(reviewStatus).min(1))
+    .optional(),
+  aiGenerated: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+})
+
+export default defineProtectedHandler({ permission: 'questions:review' }, async (event) => {
+  try {
+    const { status, ...params } = queueSchema.parse(getQuery(event))
+    const queue = await queries.questionReview.getQueue({ ...params, statuses: status })
+
+    return {
+      success: true,
+      data: queue
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid queue filters',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'questionReview.getQueue')
+  }
+})
@@ -0,0 +1,45 @@
+// Password reset request API endpoint
+// Mails a single-use reset link; the response is the same whether or not the address has an account
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requestClient } from '~/server/utils/auth'
+import { getMailTransport } from '~/server/utils/mail-transport'
+
+const forgotSchema = z.object({
+  email: z.string().email().max(254)
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { email } = forgotSchema.parse(await readBody(event))
+
+    const result = await queries.passwords.requestPasswordReset({
+      email,
+      mailer: getMailTransport(),
+      appUrl: useRuntimeConfig().public.siteUrl,
+      client: requestClient(event)
+    })
+    if (!result.ok) {
+      setResponseHeader(event, 'Retry-After', result.retryAfterSeconds)
+      throw createError({ statusCode: 429, statusMessage: 'Too many reset requests; try again later' })
+    }
+
+    return {
+      success: true,
+      message: 'If that address has an account, a reset link is on its way'
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid password reset request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'passwords.requestPasswordReset')
+  }
+})
@@ -0,0 +1,55 @@
+// Google sign-in callback endpoint
+// Completes the authorization code flow, sets the auth cookies and sends the browser on
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { useAuthKeyring, setAuthCookies, requestClient } from '~/server/utils/auth'
+import { getGoogleProvider } from '~/server/utils/oauth-provider'
+
+const callbackSchema = z.object({
+  state: z.string().min(1),
+  code: z.string().min(1).optional(),
+  // Set instead of a code when the user declines or Google refuses
+  error: z.string().optional()
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { state, code, error: providerError } = callbackSchema.parse(getQuery(event))
+
+    const expectedState = getCookie(event, 'oauth-state')
+    deleteCookie(event, 'oauth-state', { path: '/api/auth/google' })
+    if (!expectedState || expectedState !== state) {
+      return sendRedirect(event, '/login?error=invalid_state')
+    }
+    if (providerError || !code) {
+      return sendRedirect(event, `/login?error=${encodeURIComponent(providerError ?? 'access_denied')}`)
+    }
+
+    const result = await queries.oauth.completeAuthorization({
+      idp: getGoogleProvider(),
+      state,
+      code,
+      keyring: useAuthKeyring(),
+      client: requestClient(event)
+    })
+    if (!result.ok) {
+      return sendRedirect(event, `/login?error=${result.reason}`)
+    }
+
+    setAuthCookies(event, result.tokens)
+    return sendRedirect(event, result.redirectTo ?? '/dashboard')
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid sign-in callback',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'oauth.completeAuthorization')
+  }
+})
@@ -0,0 +1,49 @@
+// Google account linking API endpoint
+// Starts the authorization code flow for the signed-in user; the callback links the Google identity to their account
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+import { getGoogleProvider } from '~/server/utils/oauth-provider'
+
+const linkSchema = z.object({
+  redirectTo: z.string().regex(/^\/(?![/\\])/).max(500).optional()
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const user = await requireAuth(event)
+    const { redirectTo } = linkSchema.parse((await readBody(event)) ?? {})
+
+    const { authorizationUrl, state } = await queries.oauth.startAuthorization({
+      idp: getGoogleProvider(),
+      linkUserId: user.id,
+      redirectTo
+    })
+
+    setCookie(event, 'oauth-state', state, {
+      path: '/api/auth/google',
+      httpOnly: true,
+      secure: useRuntimeConfig().cookieSecure,
+      sameSite: 'lax',
+      maxAge: 10 * 60
+    })
+
+    return {
+      success: true,
+      data: { authorizationUrl }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid link request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'oauth.startAuthorization')
+  }
+})
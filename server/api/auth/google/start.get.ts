@@ -0,0 +1,45 @@
+// Google sign-in API endpoint
+// Starts the authorization code flow and redirects the browser to Google
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { getGoogleProvider } from '~/server/utils/oauth-provider'
+
+const startSchema = z.object({
+  // Same-site paths only, so the callback cannot be used as an open redirect
+  redirectTo: z.string().regex(/^\/(?![/\\])/).max(500).optional()
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { redirectTo } = startSchema.parse(getQuery(event))
+
+    const { authorizationUrl, state } = await queries.oauth.startAuthorization({
+      idp: getGoogleProvider(),
+      redirectTo
+    })
+
+    // Ties the callback to the browser that started the flow
+    setCookie(event, 'oauth-state', state, {
+      path: '/api/auth/google',
+      httpOnly: true,
+      secure: useRuntimeConfig().cookieSecure,
+      sameSite: 'lax',
+      maxAge: 10 * 60
+    })
+
+    return sendRedirect(event, authorizationUrl)
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid sign-in request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'oauth.startAuthorization')
+  }
+})
@@ -0,0 +1,60 @@
+// Password sign-in API endpoint
+// Checks the email and password and issues an access and refresh token pair, also set as cookies for browsers
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { useAuthKeyring, setAuthCookies, requestClient } from '~/server/utils/auth'
+
+const loginSchema = z.object({
+  email: z.string().email().max(254),
+  // No length rules here; they only apply when a password is set
+  password: z.string().min(1).max(1024)
+})
+
+const rejectionStatus = {
+  invalid_credentials: { statusCode: 401, statusMessage: 'Incorrect email or password' },
+  email_unverified: { statusCode: 403, statusMessage: 'Confirm your email address before signing in' },
+  inactive: { statusCode: 403, statusMessage: 'Account is disabled' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { email, password } = loginSchema.parse(await readBody(event))
+
+    const result = await queries.passwords.login({
+      email,
+      password,
+      keyring: useAuthKeyring(),
+      client: requestClient(event)
+    })
+    if (!result.ok) {
+      if (result.reason === 'rate_limited') {
+        setResponseHeader(event, 'Retry-After', result.retryAfterSeconds)
+        throw createError({ statusCode: 429, statusMessage: 'Too many failed sign-in attempts; try again later' })
+      }
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    setAuthCookies(event, result.tokens)
+
+    return {
+      success: true,
+      data: {
+        user: result.user,
+        ...result.tokens
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid sign-in request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'passwords.login')
+  }
+})
@@ -0,0 +1,37 @@
+// Sign-out API endpoint
+// Ends the session the refresh token belongs to, including access tokens it has already handed out
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { clearAuthCookies } from '~/server/utils/auth'
+
+const logoutSchema = z.object({
+  refreshToken: z.string().min(1)
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const fromCookie = getCookie(event, 'refresh-token')
+    const { refreshToken } = logoutSchema.parse(fromCookie ? { refreshToken: fromCookie } : await readBody(event))
+
+    // Unknown tokens are treated as already signed out
+    await queries.auth.revokeRefreshToken({ refreshToken })
+    clearAuthCookies(event)
+
+    return {
+      success: true
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid sign-out request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'auth.revokeRefreshToken')
+  }
+})
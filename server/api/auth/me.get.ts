@@ -0,0 +1,21 @@
+// Current user API endpoint
+// Returns the user the access token belongs to
+
+import { handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const user = await requireAuth(event)
+
+    return {
+      success: true,
+      data: user
+    }
+
+  } catch (error) {
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'auth.authenticate')
+  }
+})
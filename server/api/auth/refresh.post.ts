@@ -0,0 +1,54 @@
+// Token refresh API endpoint
+// Exchanges a refresh token for a new access and refresh token pair; the old refresh token is spent
+// Browsers signed in through a redirect flow send the refresh-token cookie instead of a body
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { useAuthKeyring, setAuthCookies, requestClient } from '~/server/utils/auth'
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+})
+
+const rejectionStatus = {
+  invalid: { statusCode: 401, statusMessage: 'Invalid refresh token' },
+  expired: { statusCode: 401, statusMessage: 'Refresh token has expired' },
+  reused: { statusCode: 401, statusMessage: 'Refresh token was already used; please sign in again' },
+  inactive: { statusCode: 403, statusMessage: 'Account is disabled' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    const fromCookie = getCookie(event, 'refresh-token')
+    const { refreshToken } = refreshSchema.parse(fromCookie ? { refreshToken: fromCookie } : await readBody(event))
+
+    const result = await queries.auth.refreshTokens({ refreshToken, keyring: useAuthKeyring(), client: requestClient(event) })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    if (fromCookie) {
+      setAuthCookies(event, result.tokens)
+    }
+
+    return {
+      success: true,
+      data: {
+        user: result.user,
+        ...result.tokens
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid refresh request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'auth.refreshTokens')
+  }
+})
@@ -0,0 +1,44 @@
+// Verification email API endpoint
+// Mails a new verification link to an unconfirmed account; the response is the same for any address
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requestClient } from '~/server/utils/auth'
+import { getMailTransport } from '~/server/utils/mail-transport'
+
+const resendSchema = z.object({
+  email: z.string().email().max(254)
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { email } = resendSchema.parse(await readBody(event))
+
+    const result = await queries.passwords.resendVerification({
+      email,
+      mailer: getMailTransport(),
+      appUrl: useRuntimeConfig().public.siteUrl,
+      client: requestClient(event)
+    })
+    if (!result.ok) {
+      setResponseHeader(event, 'Retry-After', result.retryAfterSeconds)
+      throw createError({ statusCode: 429, statusMessage: 'Too many requests; try again later' })
+    }
+
+    return {
+      success: true
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid verification email request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'passwords.resendVerification')
+  }
+})
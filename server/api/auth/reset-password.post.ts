@@ -0,0 +1,46 @@
+// Password reset API endpoint
+// Sets a new password from a reset link and signs the account out everywhere
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { clearAuthCookies, requestClient } from '~/server/utils/auth'
+import { PASSWORD_AUTH_CONFIG } from '~/database/utils/password-auth'
+
+const resetSchema = z.object({
+  token: z.string().min(1).max(200),
+  password: z.string().min(PASSWORD_AUTH_CONFIG.minPasswordLength).max(PASSWORD_AUTH_CONFIG.maxPasswordLength)
+})
+
+const rejectionStatus = {
+  invalid: { statusCode: 400, statusMessage: 'This reset link is invalid or has already been used' },
+  expired: { statusCode: 410, statusMessage: 'This reset link has expired; request a new one' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { token, password } = resetSchema.parse(await readBody(event))
+
+    const result = await queries.passwords.resetPassword({ token, password, client: requestClient(event) })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    clearAuthCookies(event)
+
+    return {
+      success: true
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid password reset',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'passwords.resetPassword')
+  }
+})
@@ -0,0 +1,47 @@
+// Session revocation API endpoint
+// Signs one of the current user's sessions out; its access tokens stop working immediately
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth, requestClient, clearAuthCookies } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const user = await requireAuth(event)
+    const sessionId = z.string().uuid().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.sessions.revokeSession({
+      userId: user.id,
+      sessionId,
+      client: requestClient(event)
+    })
+    if (!result.ok) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Session not found'
+      })
+    }
+
+    // Ending the session this request came from is a sign-out
+    if (result.current) {
+      clearAuthCookies(event)
+    }
+
+    return {
+      success: true,
+      data: result
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid session ID',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'sessions.revokeSession')
+  }
+})
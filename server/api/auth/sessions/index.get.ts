@@ -0,0 +1,26 @@
+// Signed-in sessions API endpoint
+// Lists the current user's active sessions with their devices; the one making the request is marked current
+
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const user = await requireAuth(event)
+
+    const sessions = await queries.sessions.listSessions({
+      userId: user.id,
+      currentSessionId: event.context.sessionId
+    })
+
+    return {
+      success: true,
+      data: sessions
+    }
+
+  } catch (error) {
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'sessions.listSessions')
+  }
+})
@@ -0,0 +1,26 @@
+// Sign out other sessions API endpoint
+// Ends every session of the current user except the one making the request
+
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth, requestClient } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const user = await requireAuth(event)
+
+    const result = await queries.sessions.revokeOtherSessions({
+      userId: user.id,
+      client: requestClient(event)
+    })
+
+    return {
+      success: true,
+      data: result
+    }
+
+  } catch (error) {
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'sessions.revokeOtherSessions')
+  }
+})
@@ -0,0 +1,50 @@
+// Sign-up API endpoint
+// Creates an email/password account and mails a verification link; the response does not say whether the address was new
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requestClient } from '~/server/utils/auth'
+import { getMailTransport } from '~/server/utils/mail-transport'
+import { PASSWORD_AUTH_CONFIG } from '~/database/utils/password-auth'
+
+const signupSchema = z.object({
+  email: z.string().email().max(254),
+  password: z.string().min(PASSWORD_AUTH_CONFIG.minPasswordLength).max(PASSWORD_AUTH_CONFIG.maxPasswordLength),
+  name: z.string().trim().min(1).max(100).optional()
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { email, password, name } = signupSchema.parse(await readBody(event))
+
+    const result = await queries.passwords.signup({
+      email,
+      password,
+      name,
+      mailer: getMailTransport(),
+      appUrl: useRuntimeConfig().public.siteUrl,
+      client: requestClient(event)
+    })
+    if (!result.ok) {
+      setResponseHeader(event, 'Retry-After', result.retryAfterSeconds)
+      throw createError({ statusCode: 429, statusMessage: 'Too many sign-up attempts; try again later' })
+    }
+
+    return {
+      success: true,
+      message: 'Check your email to confirm your address'
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid sign-up request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'passwords.signup')
+  }
+})
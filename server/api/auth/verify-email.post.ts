@@ -0,0 +1,41 @@
+// Email verification API endpoint
+// Redeems the token from the verification email
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+
+const verifySchema = z.object({
+  token: z.string().min(1).max(200)
+})
+
+const rejectionStatus = {
+  invalid: { statusCode: 400, statusMessage: 'This verification link is invalid or has already been used' },
+  expired: { statusCode: 410, statusMessage: 'This verification link has expired; request a new one' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { token } = verifySchema.parse(await readBody(event))
+
+    const result = await queries.passwords.verifyEmail({ token })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid verification request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'passwords.verifyEmail')
+  }
+})
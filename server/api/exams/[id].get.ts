@@ -0,0 +1,37 @@
+// Exam detail API endpoint
+// Returns one exam with its delivery settings
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { toExamResponse } from '~/server/utils/exams'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const exam = await queries.exams.getExam(examId)
+    if (!exam) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Exam not found'
+      })
+    }
+
+    return {
+      success: true,
+      data: toExamResponse(exam)
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid exam id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'exams.getExam')
+  }
+})
@@ -0,0 +1,43 @@
+// Parallel test forms API endpoint
+// Previews blueprint-matched forms for a seed, with the constraints the bank could not meet
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+import { TEST_ATTEMPT_CONFIG } from '~/database/utils/test-attempts'
+import { ASSEMBLY_CONFIG } from '~/database/utils/test-assembly'
+
+const formsSchema = z.object({
+  seed: z.string().min(1).max(64),
+  forms: z.coerce.number().int().min(1).max(ASSEMBLY_CONFIG.maxForms).default(1),
+  questionCount: z.coerce.number().int().min(1).max(TEST_ATTEMPT_CONFIG.maxQuestionCount).optional()
+})
+
+export default defineProtectedHandler({ permission: 'exams:preview_forms' }, async (event) => {
+  try {
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const { seed, forms, questionCount } = formsSchema.parse(getQuery(event))
+
+    const result = await queries.assembly.assembleForms({ examId, seed, forms, questionCount })
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Exam not found' })
+    }
+
+    return {
+      success: true,
+      data: result.forms
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid form request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'assembly.assembleForms')
+  }
+})
@@ -0,0 +1,37 @@
+// Exam retirement status API endpoint
+// Returns the countdown to the exam's retirement and whether the learner can move to its successor
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.migrations.getRetirement({ examId, userId: user.id })
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Exam not found' })
+    }
+
+    return {
+      success: true,
+      data: result.retirement
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid exam id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'migrations.getRetirement')
+  }
+})
@@ -0,0 +1,46 @@
+// Exam progress migration API endpoint
+// Carries the learner's answers, review schedules and mastery to the exam's successor version
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  exam_not_found: { statusCode: 404, statusMessage: 'Exam not found' },
+  no_successor: { statusCode: 409, statusMessage: 'This exam has no newer version to move to' },
+  already_migrated: { statusCode: 409, statusMessage: 'Progress on this exam has already been moved' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.migrations.migrateProgress({ examId, userId: user.id })
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: {
+        toExamId: result.toExamId,
+        carried: result.carried
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid exam id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'migrations.migrateProgress')
+  }
+})
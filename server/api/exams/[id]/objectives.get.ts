@@ -0,0 +1,44 @@
+// Exam objective tree API endpoint
+// Returns nested objectives with question counts and bank coverage gaps, plus mastery when signed in
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { optionalAuth } from '~/server/utils/auth'
+import { OBJECTIVE_TREE_CONFIG } from '~/database/utils/objective-tree'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    // Mastery is personal, so it is only rolled up for a signed-in learner
+    const user = await optionalAuth(event)
+
+    const result = await queries.objectives.getTree({ examId, userId: user?.id })
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Exam not found' })
+    }
+
+    return {
+      success: true,
+      data: {
+        objectives: result.tree,
+        coverage: {
+          minApprovedQuestions: OBJECTIVE_TREE_CONFIG.minApprovedQuestions,
+          gaps: result.gaps
+        }
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid exam id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'objectives.getTree')
+  }
+})
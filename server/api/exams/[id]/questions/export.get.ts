@@ -0,0 +1,49 @@
+// Question bank export API endpoint
+// Returns the exam's choice questions as a QTI package (base64), GIFT or CSV file
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+const exportSchema = z.object({
+  format: z.enum(['qti', 'gift', 'csv']),
+  // Comma-separated review statuses, e.g. approved,pending
+  status: z.string()
+    .transform(value => value.split(',').map(status => status.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(['pending', 'approved', 'rejected', 'needs_revision'])))
+    .optional()
+})
+
+export default defineProtectedHandler({ permission: 'questions:export' }, async (event) => {
+  try {
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const { format, status } = exportSchema.parse(getQuery(event))
+
+    const result = await queries.interchange.exportQuestions({ examId, format, reviewStatus: status })
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Exam not found' })
+    }
+
+    const { content, ...file } = result.file
+    return {
+      success: true,
+      data: {
+        ...file,
+        encoding: typeof content === 'string' ? 'utf8' : 'base64',
+        content: typeof content === 'string' ? content : btoa(Array.from(content, byte => String.fromCharCode(byte)).join(''))
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid export parameters',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'interchange.exportQuestions')
+  }
+})
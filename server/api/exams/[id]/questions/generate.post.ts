@@ -0,0 +1,65 @@
+// AI question generation API endpoint
+// Generates questions for one objective; they are saved as pending and wait in the review queue
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+import { getQuestionProvider } from '~/server/utils/ai-provider'
+import { GENERATION_CONFIG } from '~/database/utils/question-generation'
+
+const generateSchema = z.object({
+  objectiveId: z.number().int().positive(),
+  count: z.number().int().min(1).max(GENERATION_CONFIG.maxQuestionsPerRequest).default(5),
+  difficulty: z.number().int().min(1).max(5).optional(),
+  // A registered question generation template; the default otherwise
+  promptVersion: z.string().min(1).optional(),
+  premium: z.boolean().default(false)
+})
+
+const rejectionStatus = {
+  objective_not_found: { statusCode: 404, statusMessage: 'Objective not found in this exam' },
+  prompt_not_found: { statusCode: 400, statusMessage: 'Unknown prompt version' },
+  provider_error: { statusCode: 502, statusMessage: 'The AI provider request failed' },
+  invalid_output: { statusCode: 502, statusMessage: 'The AI provider returned unusable output' }
+} as const
+
+export default defineProtectedHandler({ permission: 'questions:generate' }, async (event, user) => {
+  try {
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { premium, ...params } = generateSchema.parse(body)
+
+    const result = await queries.generation.generateQuestions({
+      ...params,
+      examId,
+      provider: getQuestionProvider({ premium }),
+      userId: user.id,
+      requestId: getHeader(event, 'x-request-id') ?? null,
+      ipAddress: getRequestIP(event, { xForwardedFor: true }) ?? null,
+      userAgent: getHeader(event, 'user-agent') ?? null
+    })
+
+    if (!result.ok) {
+      throw createError('logId' in result
+        ? { ...rejectionStatus[result.reason], data: { message: result.message, logId: result.logId } }
+        : rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: result
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid generation request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'generation.generateQuestions')
+  }
+})
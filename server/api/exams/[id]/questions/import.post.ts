@@ -0,0 +1,55 @@
+// Question bank import API endpoint
+// Checks a QTI, GIFT or CSV file against the exam; dryRun defaults to true so nothing is saved until asked
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+// QTI packages are ZIP archives and arrive base64 encoded
+const importSchema = z.object({
+  format: z.enum(['qti', 'gift', 'csv']),
+  content: z.string().min(1).max(20_000_000),
+  encoding: z.enum(['utf8', 'base64']).default('utf8'),
+  dryRun: z.boolean().default(true),
+  defaultObjectiveCode: z.string().min(1).optional()
+}).refine(
+  body => body.encoding !== 'base64' || /^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(body.content),
+  { message: 'content is not valid base64', path: ['content'] }
+)
+
+export default defineProtectedHandler({ permission: 'questions:author' }, async (event) => {
+  try {
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { content, encoding, ...params } = importSchema.parse(body)
+
+    const result = await queries.interchange.importQuestions({
+      ...params,
+      examId,
+      content: encoding === 'base64' ? Uint8Array.from(atob(content), char => char.charCodeAt(0)) : content
+    })
+
+    if (!result.ok) {
+      throw createError(result.reason === 'exam_not_found'
+        ? { statusCode: 404, statusMessage: 'Exam not found' }
+        : { statusCode: 422, statusMessage: 'Fix the invalid questions before importing', data: result.report })
+    }
+
+    return {
+      success: true,
+      data: result.report
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid import request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'interchange.importQuestions')
+  }
+})
@@ -0,0 +1,19 @@
+// Exam catalog API endpoint
+// Lists active exams for the exam picker
+
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { toExamResponse } from '~/server/utils/exams'
+
+export default defineEventHandler(async () => {
+  try {
+    const exams = await queries.exams.getActiveExams()
+
+    return {
+      success: true,
+      data: exams.map(toExamResponse)
+    }
+
+  } catch (error) {
+    handleDatabaseError(error, 'exams.getActiveExams')
+  }
+})
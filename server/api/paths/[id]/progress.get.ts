@@ -0,0 +1,37 @@
+// Certification path progress API endpoint
+// Returns the learner's status on each exam of the path and the exam to take next
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const pathId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.paths.getPathProgress({ pathId, userId: user.id })
+    if (!result.ok) {
+      throw createError({ statusCode: 404, statusMessage: 'Certification path not found' })
+    }
+
+    return {
+      success: true,
+      data: result.progress
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid path id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'paths.getPathProgress')
+  }
+})
@@ -0,0 +1,18 @@
+// Certification path catalog API endpoint
+// Lists active paths with their exams in order, for grouping the exam picker
+
+import { queries, handleDatabaseError } from '~/server/utils/database'
+
+export default defineEventHandler(async () => {
+  try {
+    const paths = await queries.paths.listPaths()
+
+    return {
+      success: true,
+      data: paths
+    }
+
+  } catch (error) {
+    handleDatabaseError(error, 'paths.listPaths')
+  }
+})
@@ -0,0 +1,24 @@
+// Certification path recommendations API endpoint
+// Returns the next exam on each path the learner has started
+
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const paths = await queries.paths.getRecommendations(user.id)
+
+    return {
+      success: true,
+      data: paths
+    }
+
+  } catch (error) {
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'paths.getRecommendations')
+  }
+})
@@ -0,0 +1,40 @@
+// Readiness explanation API endpoint
+// Why the learner is at their readiness score and what to study next
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const examId = z.coerce.number().int().positive().parse(getRouterParam(event, 'examId'))
+
+    const report = await queries.readiness.explainReadiness(user.id, examId)
+    if (!report) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Exam not found'
+      })
+    }
+
+    return {
+      success: true,
+      data: report
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid exam id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'readiness.explainReadiness')
+  }
+})
@@ -0,0 +1,61 @@
+// Question feedback API endpoint
+// Reports a problem with a question; enough open reports send it back to moderators for revision
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth, requestClient } from '~/server/utils/auth'
+import { FEEDBACK_CONFIG } from '~/database/utils/question-feedback'
+
+const feedbackSchema = z.object({
+  reason: z.enum(['wrong_key', 'ambiguous', 'outdated', 'typo']),
+  comment: z.string().max(FEEDBACK_CONFIG.maxCommentLength).optional(),
+  // Reporting from an attempt review reports the revision that attempt showed
+  testAttemptId: z.number().int().positive().optional()
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { reason, comment, testAttemptId } = feedbackSchema.parse(body)
+
+    const result = await queries.feedback.submitFeedback({
+      questionId,
+      userId: user.id,
+      reason,
+      comment,
+      testAttemptId,
+      threshold: useRuntimeConfig().feedbackRevisionThreshold,
+      client: requestClient(event)
+    })
+    if (!result.ok) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Question not found'
+      })
+    }
+
+    return {
+      success: true,
+      data: {
+        report: result.report
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid question report',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'feedback.submitFeedback')
+  }
+})
+
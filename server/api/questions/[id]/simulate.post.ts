@@ -0,0 +1,49 @@
+// Simulation question CLI endpoint
+// Replays the learner's commands so far and returns each device's output and prompt
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+import { simulationResponseSchema } from '~/database/utils/cli-simulator'
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Question not found' },
+  not_simulation: { statusCode: 400, statusMessage: 'Question is not a simulation' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const questionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const { commands } = simulationResponseSchema.parse(body)
+
+    const result = await queries.questionBank.runSimulation(questionId, commands)
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      data: {
+        transcript: result.transcript,
+        prompts: result.prompts
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid simulation commands',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'questionBank.runSimulation')
+  }
+})
+
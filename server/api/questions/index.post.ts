@@ -0,0 +1,61 @@
+// Question authoring API endpoint
+// Validates type-specific content (choices, drag-and-drop, hotspots, simulations) before saving
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { defineProtectedHandler } from '~/server/utils/auth'
+
+// Request validation schema; diagramData is checked per question type by the query layer
+const questionSchema = z.object({
+  examId: z.number().int().positive(),
+  objectiveId: z.number().int().positive(),
+  text: z.string().min(10),
+  type: z.enum(['multiple_choice', 'multi_select', 'true_false', 'drag_drop', 'hotspot', 'simulation']),
+  answers: z.array(z.object({
+    id: z.string().min(1),
+    text: z.string().min(1),
+    isCorrect: z.boolean(),
+    explanation: z.string().optional()
+  })).default([]),
+  explanation: z.string().optional(),
+  reference: z.string().optional(),
+  difficulty: z.number().int().min(1).max(5).optional(),
+  tags: z.array(z.string()).optional(),
+  imageUrl: z.string().url().nullish(),
+  diagramData: z.any().optional()
+})
+
+export default defineProtectedHandler({ permission: 'questions:author' }, async (event) => {
+  try {
+    const body = await readBody(event)
+    const draft = questionSchema.parse(body)
+
+    const created = await queries.questionBank.createQuestion(draft)
+    if (!created.ok) {
+      throw createError({
+        statusCode: created.reason === 'objective_not_in_exam' ? 400 : 422,
+        statusMessage: created.reason === 'objective_not_in_exam'
+          ? 'Objective does not belong to this exam'
+          : 'Question content is invalid for its type',
+        data: created.reason === 'invalid_content' ? { errors: created.errors } : undefined
+      })
+    }
+
+    return {
+      success: true,
+      data: created.question
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid question data',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'questionBank.createQuestion')
+  }
+})
@@ -3,6 +3,7 @@
 
 import { z } from 'zod'
 import { queries, handleDatabaseError, withTransaction } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
 import { auditLog } from '~/database/schema'
 
 // Request validation schema
@@ -20,12 +21,6 @@ export default defineEventHandler(async (event) => {
   try {
     // Verify authentication
     const user = await requireAuth(event)
-    if (!user) {
-      throw createError({
-        statusCode: 401,
-        statusMessage: 'Authentication required'
-      })
-    }
 
     // Validate request body
     const body = await readBody(event)
@@ -37,7 +32,9 @@ export default defineEventHandler(async (event) => {
     // Validate question exists and get correct answer
     const question = await db.select({
       id: schema.questions.id,
+      type: schema.questions.type,
       answers: schema.questions.answers,
+      diagramData: schema.questions.diagramData,
       examId: schema.questions.examId,
       objectiveId: schema.questions.objectiveId
     })
@@ -54,18 +51,8 @@ export default defineEventHandler(async (event) => {
 
     const questionData = question[0]
     
-    // Determine if answer is correct
-    const answers = questionData.answers as Array<{id: string, isCorrect: boolean}>
-    const correctAnswers = answers.filter(a => a.isCorrect).map(a => a.id)
-    
-    let isCorrect = false
-    if (questionData.type === 'multiple_choice' || questionData.type === 'true_false') {
-      isCorrect = correctAnswers.includes(validatedAnswer.selectedAnswer)
-    } else if (questionData.type === 'multi_select') {
-      const selected = JSON.parse(validatedAnswer.selectedAnswer) as string[]
-      isCorrect = selected.length === correctAnswers.length && 
-                  selected.every(id => correctAnswers.includes(id))
-    }
+    // Determine if answer is correct (interactive questions may earn partial credit)
+    const { isCorrect, credit } = scoreResponse(questionData, validatedAnswer.selectedAnswer)
 
     // Record answer with transaction
     const result = await withTransaction(async (tx) => {
@@ -77,6 +64,7 @@ export default defineEventHandler(async (event) => {
         testAttemptId: validatedAnswer.testAttemptId,
         selectedAnswer: validatedAnswer.selectedAnswer,
         isCorrect,
+        credit,
         timeSpentSeconds: validatedAnswer.timeSpentSeconds,
         confidenceLevel: validatedAnswer.confidenceLevel,
         flagged: validatedAnswer.flagged
@@ -99,8 +87,10 @@ export default defineEventHandler(async (event) => {
           examId: questionData.examId,
           objectiveId: questionData.objectiveId,
           isCorrect,
+          credit,
           timeSpent: validatedAnswer.timeSpentSeconds
         }),
+        sessionId: event.context.sessionId ?? null,
         ipAddress: getClientIP(event),
         userAgent: getHeader(event, 'user-agent')
       })
@@ -119,6 +109,7 @@ export default defineEventHandler(async (event) => {
       success: true,
       result: {
         isCorrect,
+        credit,
         answerId: result.userAnswer.id,
         questionId: validatedAnswer.questionId,
         session: result.updatedSession ? {
@@ -143,6 +134,8 @@ export default defineEventHandler(async (event) => {
       })
     }
 
+    if (isError(error)) throw error
+
     handleDatabaseError(error, 'study.submitAnswer')
   }
 })
@@ -169,15 +162,4 @@ function getClientIPFromHeaders(headers: Record<string, string | string[] | unde
 // Imports
 import { db, schema } from '~/server/utils/database'
 import { eq } from 'drizzle-orm'
-
-// Mock auth function (replace with real implementation)
-async function requireAuth(event: any) {
-  const authHeader = getHeader(event, 'authorization')
-  if (!authHeader) return null
-
-  return {
-    id: 1,
-    email: 'test@pingtopass.com',
-    name: 'Test User'
-  }
-}
\ No newline at end of file
+import { scoreResponse } from '~/database/utils/grading'
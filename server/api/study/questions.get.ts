@@ -3,6 +3,8 @@
 
 import { z } from 'zod'
 import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+import { redactDiagram } from '~/database/utils/interactive-questions'
 
 // Request validation schema
 const querySchema = z.object({
@@ -24,12 +26,6 @@ export default defineEventHandler(async (event) => {
   try {
     // Verify authentication
     const user = await requireAuth(event)
-    if (!user) {
-      throw createError({
-        statusCode: 401,
-        statusMessage: 'Authentication required'
-      })
-    }
 
     // Validate query parameters
     const query = getQuery(event)
@@ -38,16 +34,22 @@ export default defineEventHandler(async (event) => {
     // Performance tracking
     const startTime = Date.now()
 
-    // Get study questions using optimized query
-    const questions = await queries.study.getStudyQuestions({
+    const selectionParams = {
       userId: user.id,
       examId: validatedQuery.examId,
       objectiveIds: validatedQuery.objectiveIds,
       difficulty: validatedQuery.difficulty,
-      mode: validatedQuery.mode,
       limit: validatedQuery.limit,
       excludeRecentHours: validatedQuery.excludeRecentHours
-    })
+    }
+
+    // Weak areas mode also reports the per-objective weighting it used
+    const { questions, weighting } = validatedQuery.mode === 'weak_areas'
+      ? await queries.study.getWeakAreaQuestions(selectionParams)
+      : {
+          questions: await queries.study.getStudyQuestions({ ...selectionParams, mode: validatedQuery.mode }),
+          weighting: undefined
+        }
 
     const duration = Date.now() - startTime
 
@@ -64,6 +66,7 @@ export default defineEventHandler(async (event) => {
         ...q,
         // Remove sensitive data
         correctAnswer: undefined, // Don't expose correct answer
+        diagramData: redactDiagram(q.diagramData), // Nor the drag-and-drop or hotspot key
         explanation: undefined,   // Don't show explanation yet
         reference: undefined      // Don't show reference yet
       })),
@@ -71,7 +74,8 @@ export default defineEventHandler(async (event) => {
         count: questions.length,
         queryTime: duration,
         userId: user.id,
-        examId: validatedQuery.examId
+        examId: validatedQuery.examId,
+        weighting
       }
     }
 
@@ -84,21 +88,8 @@ export default defineEventHandler(async (event) => {
       })
     }
 
+    if (isError(error)) throw error
+
     handleDatabaseError(error, 'study.getQuestions')
   }
 })
-
-// Helper function for authentication (would be implemented elsewhere)
-async function requireAuth(event: any) {
-  // This would integrate with your authentication system
-  // For now, return a mock user for testing
-  const authHeader = getHeader(event, 'authorization')
-  if (!authHeader) return null
-
-  // Mock authentication - replace with real JWT verification
-  return {
-    id: 1,
-    email: 'test@pingtopass.com',
-    name: 'Test User'
-  }
-}
\ No newline at end of file
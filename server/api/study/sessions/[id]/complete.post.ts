@@ -0,0 +1,55 @@
+// Study session completion API endpoint
+// Closes the session and recomputes the learner's exam readiness
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const sessionId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.study.completeSession(sessionId, user.id)
+    if (!result) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Study session not found'
+      })
+    }
+
+    const { session, readiness } = result
+
+    return {
+      success: true,
+      session: {
+        id: session.id,
+        status: session.status,
+        totalQuestions: session.totalQuestions,
+        correctAnswers: session.correctAnswers,
+        accuracy: session.accuracy,
+        timeSpentSeconds: session.timeSpentSeconds,
+        completedAt: session.completedAt
+      },
+      readiness: readiness ? {
+        readinessScore: readiness.readinessScore,
+        predictedExamScore: readiness.predictedExamScore,
+        confidenceInterval: readiness.confidenceInterval
+      } : null
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid study session id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'study.completeSession')
+  }
+})
@@ -0,0 +1,60 @@
+// Test attempt state API endpoint
+// Lets the client resume an attempt: questions, saved answers and time left
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const attemptId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const state = await queries.testAttempts.getAttemptState(attemptId, user.id)
+    if (!state) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Test attempt not found'
+      })
+    }
+
+    const { attempt, answers, remainingSeconds } = state
+    const inProgress = attempt.status === 'in_progress'
+
+    return {
+      success: true,
+      attempt: {
+        id: attempt.id,
+        examId: attempt.examId,
+        mode: attempt.mode,
+        status: attempt.status,
+        questionIds: attempt.questionIds,
+        timeLimitMinutes: attempt.timeLimitMinutes,
+        passingScore: attempt.passingScore,
+        startedAt: attempt.startedAt,
+        expiresAt: attempt.expiresAt,
+        completedAt: attempt.completedAt
+      },
+      remainingSeconds,
+      // Only an open attempt needs its questions re-served
+      questions: inProgress && attempt.mode !== 'adaptive'
+        ? await queries.testAttempts.getDeliverableQuestions(attempt.questionIds, attempt.questionRevisionIds)
+        : [],
+      answers
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid test attempt id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'testAttempts.getAttemptState')
+  }
+})
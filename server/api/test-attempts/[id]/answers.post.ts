@@ -0,0 +1,61 @@
+// Test attempt answer API endpoint
+// Saves or changes one answer; correctness stays hidden until submission
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+// Request validation schema
+const answerSchema = z.object({
+  questionId: z.number().int().positive(),
+  selectedAnswer: z.string().min(1),
+  timeSpentSeconds: z.number().min(0).max(3600),
+  flagged: z.boolean().optional()
+})
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Test attempt not found' },
+  not_in_progress: { statusCode: 409, statusMessage: 'Test attempt is no longer in progress' },
+  expired: { statusCode: 410, statusMessage: 'Test attempt time limit has expired' },
+  question_not_in_attempt: { statusCode: 400, statusMessage: 'Question is not part of this attempt' },
+  review_disabled: { statusCode: 403, statusMessage: 'Review is disabled for this attempt' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const attemptId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const answer = answerSchema.parse(body)
+
+    const result = await queries.testAttempts.saveAnswer({
+      attemptId,
+      userId: user.id,
+      ...answer
+    })
+
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    return {
+      success: true,
+      answerId: result.answerId,
+      changedAnswer: result.changedAnswer
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid answer data',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'testAttempts.saveAnswer')
+  }
+})
@@ -0,0 +1,80 @@
+// Adaptive test answer API endpoint
+// Grades the current question and returns the next one (or the final result)
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+// Request validation schema
+const answerSchema = z.object({
+  questionId: z.number(),
+  selectedAnswer: z.string().min(1),
+  timeSpentSeconds: z.number().min(0).max(3600),
+  confidenceLevel: z.number().min(1).max(5).optional()
+})
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Adaptive test attempt not found' },
+  not_in_progress: { statusCode: 409, statusMessage: 'Test attempt is no longer in progress' },
+  expired: { statusCode: 410, statusMessage: 'Test attempt time limit has expired' },
+  unexpected_question: { statusCode: 409, statusMessage: 'Question is not the current item for this attempt' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const attemptId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+    const body = await readBody(event)
+    const answer = answerSchema.parse(body)
+
+    const result = await queries.adaptive.submitAdaptiveAnswer({
+      attemptId,
+      userId: user.id,
+      ...answer
+    })
+
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    const { attempt } = result
+    const finished = result.stopReason !== null
+
+    return {
+      success: true,
+      isCorrect: result.isCorrect,
+      ability: result.ability,
+      finished,
+      stopReason: result.stopReason,
+      question: result.nextQuestion,
+      progress: {
+        answered: result.trajectory.length
+      },
+      result: finished ? {
+        score: attempt.score,
+        scaledScore: attempt.scaledScore,
+        scale: attempt.scoreScale,
+        passed: attempt.passed,
+        passingScore: attempt.passingScore,
+        correctCount: attempt.correctCount,
+        incorrectCount: attempt.incorrectCount,
+        totalTimeSeconds: attempt.totalTimeSeconds,
+        trajectory: result.trajectory
+      } : null
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid answer data',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'testAttempts.submitAdaptiveAnswer')
+  }
+})
@@ -0,0 +1,43 @@
+// Score report API endpoint
+// Scaled score, vendor cut score and domain breakdown for a completed attempt
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const attemptId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    // Closes the attempt first if its time ran out
+    await queries.testAttempts.getAttempt(attemptId, user.id)
+
+    const report = await queries.scoring.getScoreReport(attemptId, user.id)
+    if (!report) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'No score report for this attempt'
+      })
+    }
+
+    return {
+      success: true,
+      data: report
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid test attempt id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'scoring.getScoreReport')
+  }
+})
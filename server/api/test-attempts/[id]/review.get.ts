@@ -0,0 +1,60 @@
+// Test attempt review API endpoint
+// Every question of a completed attempt with the learner's answer and the key
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Test attempt not found' },
+  not_in_progress: { statusCode: 409, statusMessage: 'Test attempt has not been submitted yet' },
+  expired: { statusCode: 410, statusMessage: 'Test attempt time limit has expired' },
+  question_not_in_attempt: { statusCode: 400, statusMessage: 'Question is not part of this attempt' },
+  review_disabled: { statusCode: 403, statusMessage: 'Review is disabled for this attempt' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const attemptId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const review = await queries.testAttempts.getReview(attemptId, user.id)
+    if (!review.ok) {
+      throw createError(rejectionStatus[review.reason])
+    }
+
+    const { attempt, questions } = review
+
+    return {
+      success: true,
+      attempt: {
+        id: attempt.id,
+        examId: attempt.examId,
+        score: attempt.score,
+        passed: attempt.passed,
+        passingScore: attempt.passingScore,
+        correctCount: attempt.correctCount,
+        incorrectCount: attempt.incorrectCount,
+        skippedCount: attempt.skippedCount,
+        objectiveBreakdown: attempt.objectiveBreakdown,
+        totalTimeSeconds: attempt.totalTimeSeconds,
+        completedAt: attempt.completedAt
+      },
+      questions
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid test attempt id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'testAttempts.getReview')
+  }
+})
@@ -0,0 +1,63 @@
+// Test attempt submission API endpoint
+// Scores the attempt from its saved answers, scales it and closes it
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+const rejectionStatus = {
+  not_found: { statusCode: 404, statusMessage: 'Test attempt not found' },
+  not_in_progress: { statusCode: 409, statusMessage: 'Test attempt is no longer in progress' },
+  expired: { statusCode: 410, statusMessage: 'Test attempt time limit has expired' },
+  question_not_in_attempt: { statusCode: 400, statusMessage: 'Question is not part of this attempt' },
+  review_disabled: { statusCode: 403, statusMessage: 'Review is disabled for this attempt' }
+} as const
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const attemptId = z.coerce.number().int().positive().parse(getRouterParam(event, 'id'))
+
+    const result = await queries.testAttempts.submitAttempt(attemptId, user.id)
+    if (!result.ok) {
+      throw createError(rejectionStatus[result.reason])
+    }
+
+    const { attempt } = result
+
+    return {
+      success: true,
+      result: {
+        attemptId: attempt.id,
+        score: attempt.score,
+        scaledScore: attempt.scaledScore,
+        scale: attempt.scoreScale,
+        passed: attempt.passed,
+        passingScore: attempt.passingScore,
+        correctCount: attempt.correctCount,
+        incorrectCount: attempt.incorrectCount,
+        skippedCount: attempt.skippedCount,
+        objectiveBreakdown: attempt.objectiveBreakdown,
+        domains: attempt.domainScores ?? [],
+        timePerQuestion: attempt.timePerQuestion,
+        totalTimeSeconds: attempt.totalTimeSeconds,
+        startedAt: attempt.startedAt,
+        completedAt: attempt.completedAt
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid test attempt id',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'testAttempts.submitAttempt')
+  }
+})
@@ -0,0 +1,59 @@
+// Adaptive test attempt API endpoint
+// Starts a CAT attempt and serves its first question
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+
+// Request validation schema
+const startSchema = z.object({
+  examId: z.number().int().positive()
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const body = await readBody(event)
+    const { examId } = startSchema.parse(body)
+
+    const started = await queries.adaptive.startAdaptiveAttempt({ userId: user.id, examId })
+    if (!started) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Exam not found or has no active questions'
+      })
+    }
+
+    return {
+      success: true,
+      attempt: {
+        id: started.attempt.id,
+        examId: started.attempt.examId,
+        mode: started.attempt.mode,
+        timeLimitMinutes: started.attempt.timeLimitMinutes,
+        passingScore: started.attempt.passingScore,
+        startedAt: started.attempt.startedAt,
+        expiresAt: started.attempt.expiresAt
+      },
+      question: started.question,
+      ability: {
+        theta: started.attempt.abilityEstimate,
+        standardError: started.attempt.abilityStandardError
+      }
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid test request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'testAttempts.startAdaptive')
+  }
+})
@@ -0,0 +1,69 @@
+// Test attempt API endpoint
+// Starts a fixed-form practice exam, assembled to the exam blueprint, with a server-enforced time limit
+
+import { z } from 'zod'
+import { queries, handleDatabaseError } from '~/server/utils/database'
+import { requireAuth } from '~/server/utils/auth'
+import { TEST_ATTEMPT_CONFIG } from '~/database/utils/test-attempts'
+import { ASSEMBLY_CONFIG } from '~/database/utils/test-assembly'
+
+// Request validation schema
+const startSchema = z.object({
+  examId: z.number().int().positive(),
+  questionCount: z.number().int().min(1).max(TEST_ATTEMPT_CONFIG.maxQuestionCount).optional(),
+  objectiveIds: z.array(z.number().int().positive()).optional(),
+  // The same seed and form number give the same parallel form
+  seed: z.string().min(1).max(64).optional(),
+  form: z.number().int().min(1).max(ASSEMBLY_CONFIG.maxForms).optional()
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Verify authentication
+    const user = await requireAuth(event)
+
+    const body = await readBody(event)
+    const params = startSchema.parse(body)
+
+    const started = await queries.testAttempts.startAttempt({ userId: user.id, ...params })
+    if (!started) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Exam not found or has no active questions'
+      })
+    }
+
+    const { attempt, questions, blueprint } = started
+
+    return {
+      success: true,
+      attempt: {
+        id: attempt.id,
+        examId: attempt.examId,
+        mode: attempt.mode,
+        status: attempt.status,
+        questionIds: attempt.questionIds,
+        timeLimitMinutes: attempt.timeLimitMinutes,
+        passingScore: attempt.passingScore,
+        startedAt: attempt.startedAt,
+        expiresAt: attempt.expiresAt,
+        formSeed: attempt.formSeed,
+        formNumber: attempt.formNumber
+      },
+      questions,
+      blueprint
+    }
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid test request',
+        data: error.errors
+      })
+    }
+    if (isError(error)) throw error
+
+    handleDatabaseError(error, 'testAttempts.startAttempt')
+  }
+})
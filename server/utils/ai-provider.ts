@@ -0,0 +1,52 @@
+// Model providers for server routes
+// OpenRouter (through LangChain's OpenAI client) when a key is configured, otherwise the offline stub
+
+import { ChatOpenAI } from '@langchain/openai'
+import { HumanMessage, SystemMessage } from '@langchain/core/messages'
+import { OfflineQuestionProvider, type QuestionGenerationProvider } from '~/database/utils/question-generation'
+import type { PromptProvider, PromptRequest, PromptResponse } from '~/database/utils/prompts'
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1'
+
+export class OpenRouterProvider implements PromptProvider {
+  constructor(
+    private apiKey: string,
+    readonly model: string,
+    private siteUrl?: string
+  ) {}
+
+  async complete(request: PromptRequest): Promise<PromptResponse> {
+    const chat = new ChatOpenAI({
+      modelName: this.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      openAIApiKey: this.apiKey,
+      configuration: {
+        baseURL: OPENROUTER_BASE_URL,
+        defaultHeaders: this.siteUrl ? { 'HTTP-Referer': this.siteUrl, 'X-Title': 'PingToPass' } : undefined
+      }
+    })
+
+    const result = await chat.generate([[new SystemMessage(request.system), new HumanMessage(request.prompt)]])
+    const usage = result.llmOutput?.tokenUsage ?? {}
+
+    return {
+      text: result.generations[0]?.[0]?.text ?? '',
+      model: this.model,
+      promptTokens: usage.promptTokens ?? 0,
+      completionTokens: usage.completionTokens ?? 0
+    }
+  }
+}
+
+/**
+ * Provider for a generation request. AI_PROVIDER=offline forces the stub,
+ * which is also used whenever no OpenRouter key is set.
+ */
+export function getQuestionProvider(options: { premium?: boolean } = {}): QuestionGenerationProvider {
+  const config = useRuntimeConfig()
+  if (process.env.AI_PROVIDER === 'offline' || !config.openrouterKey) return new OfflineQuestionProvider()
+
+  const model = options.premium ? config.aiModelPremium : config.aiModelDefault
+  return new OpenRouterProvider(config.openrouterKey, model, config.public.siteUrl)
+}
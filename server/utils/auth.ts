@@ -0,0 +1,124 @@
+// Request authentication and authorization shared by the API routes
+// Access tokens arrive as a Bearer header or the auth-token cookie and resolve to an active user
+// and session (kept on event.context.sessionId for the audit log); protected handlers then require
+// a permission from the user's effective set
+
+import type { H3Event } from 'h3'
+import { queries } from '~/server/utils/database'
+import { createKeyring, type AuthClient, type AuthKeyring, type AuthUser, type IssuedTokens } from '~/database/utils/auth-tokens'
+import { assertPermission, createRoutePolicies, type RoutePolicy } from '~/server/utils/route-policy'
+import type { ReviewActor } from '~/database/utils/question-review'
+
+export type { AuthUser }
+
+declare module 'h3' {
+  interface H3EventContext {
+    // Session of the access token the request was authenticated with
+    sessionId?: string
+  }
+}
+
+let keyring: AuthKeyring | null = null
+
+/**
+ * Signing keys from runtime config, built once per worker
+ */
+export function useAuthKeyring(): AuthKeyring {
+  if (!keyring) {
+    const config = useRuntimeConfig()
+    keyring = createKeyring({
+      jwtKeys: config.jwtKeys,
+      jwtActiveKid: config.jwtActiveKid,
+      jwtSecret: config.jwtSecret
+    })
+  }
+  return keyring
+}
+
+/**
+ * The signed-in user, or a 401 (403 for a disabled account)
+ */
+export async function requireAuth(event: H3Event): Promise<AuthUser> {
+  const accessToken = readAccessToken(event)
+  if (!accessToken) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Authentication required'
+    })
+  }
+
+  const result = await queries.auth.authenticate({ accessToken, keyring: useAuthKeyring() })
+  if (!result.ok) {
+    throw result.reason === 'inactive'
+      ? createError({ statusCode: 403, statusMessage: 'Account is disabled' })
+      : createError({ statusCode: 401, statusMessage: 'Invalid or expired access token' })
+  }
+
+  event.context.sessionId = result.sessionId
+  return result.user
+}
+
+/**
+ * The signed-in user on routes that also serve anonymous visitors; any token problem reads as signed out
+ */
+export async function optionalAuth(event: H3Event): Promise<AuthUser | null> {
+  const accessToken = readAccessToken(event)
+  if (!accessToken) return null
+
+  const result = await queries.auth.authenticate({ accessToken, keyring: useAuthKeyring() })
+  if (!result.ok) return null
+
+  event.context.sessionId = result.sessionId
+  return result.user
+}
+
+// Protected handlers: the user must hold the policy's permission
+export const { requirePermission, defineProtectedHandler } = createRoutePolicies(requireAuth)
+export { assertPermission, type RoutePolicy }
+
+/**
+ * Hand a browser sign-in its tokens; the refresh token cookie is only sent back to the auth routes
+ */
+export function setAuthCookies(event: H3Event, tokens: IssuedTokens) {
+  const options = cookieOptions()
+  setCookie(event, 'auth-token', tokens.accessToken, { ...options, expires: tokens.accessTokenExpiresAt })
+  setCookie(event, 'refresh-token', tokens.refreshToken, { ...options, path: '/api/auth', expires: tokens.refreshTokenExpiresAt })
+}
+
+export function clearAuthCookies(event: H3Event) {
+  const options = cookieOptions()
+  deleteCookie(event, 'auth-token', options)
+  deleteCookie(event, 'refresh-token', { ...options, path: '/api/auth' })
+}
+
+// Who is calling, for sessions, rate limits and the audit log
+export function requestClient(event: H3Event): AuthClient {
+  return {
+    ipAddress: getRequestIP(event, { xForwardedFor: true }) ?? null,
+    userAgent: getHeader(event, 'user-agent') ?? null,
+    sessionId: event.context.sessionId ?? null
+  }
+}
+
+// The signed-in user making a change, for the audit trail
+export function requestActor(event: H3Event, user: AuthUser): ReviewActor {
+  return { userId: user.id, ...requestClient(event) }
+}
+
+function cookieOptions() {
+  const config = useRuntimeConfig()
+  return {
+    path: '/',
+    secure: config.cookieSecure,
+    httpOnly: config.cookieHttpOnly,
+    sameSite: config.cookieSameSite as 'lax' | 'strict' | 'none'
+  }
+}
+
+function readAccessToken(event: H3Event): string | null {
+  const authorization = getHeader(event, 'authorization')
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null
+  }
+  return getCookie(event, 'auth-token') || null
+}
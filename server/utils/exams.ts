@@ -0,0 +1,27 @@
+// Exam response shaping shared by the exam catalog endpoints
+
+import type { Exam } from '~/database/schema'
+
+/**
+ * Public view of an exam, using the field names the client expects
+ */
+export function toExamResponse(exam: Exam) {
+  return {
+    id: exam.id,
+    code: exam.code,
+    name: exam.name,
+    vendor: exam.vendorId,
+    description: exam.description,
+    passingScore: exam.passingScore,
+    timeLimit: exam.timeLimitMinutes,
+    scoreScale: exam.scoreScale,
+    questionCount: exam.questionCount,
+    isActive: exam.isActive,
+    isBeta: exam.isBeta,
+    version: exam.version,
+    expiresAt: exam.expiresAt,
+    successorExamId: exam.successorExamId,
+    createdAt: exam.createdAt,
+    updatedAt: exam.updatedAt
+  }
+}
@@ -0,0 +1,55 @@
+// Mail transports for server routes
+// Resend when an API key is configured; otherwise messages go to the console, or
+// to files under MAIL_OUTBOX_DIR with MAIL_TRANSPORT=file
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { ConsoleMailTransport, type MailMessage, type MailTransport } from '~/database/utils/mail'
+
+const RESEND_API_URL = 'https://api.resend.com/emails'
+
+export class ResendMailTransport implements MailTransport {
+  constructor(
+    private apiKey: string,
+    private from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await $fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: { from: this.from, to: [message.to], subject: message.subject, text: message.text }
+    })
+  }
+}
+
+/**
+ * Writes each message to its own file, for local development without a mail account
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.txt`
+    await writeFile(join(this.directory, name), `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`)
+  }
+}
+
+let transport: MailTransport | null = null
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport
+
+  const config = useRuntimeConfig()
+  const kind = process.env.MAIL_TRANSPORT || (config.resendApiKey ? 'resend' : 'console')
+
+  if (kind === 'resend' && config.resendApiKey) {
+    transport = new ResendMailTransport(config.resendApiKey, config.fromEmail)
+  } else if (kind === 'file') {
+    transport = new FileMailTransport(process.env.MAIL_OUTBOX_DIR || '.data/mail')
+  } else {
+    transport = new ConsoleMailTransport()
+  }
+  return transport
+}
@@ -0,0 +1,110 @@
+// Identity providers for the OAuth sign-in routes
+// Google (or any OpenID provider at the configured endpoints) over HTTP, or the in-process provider for local development
+
+import { LocalIdentityProvider, type IdentityProvider } from '~/database/utils/oauth'
+
+const JWKS_CACHE_MS = 60 * 60 * 1000
+// Least time between fetches when a token names a key the cached set lacks
+const JWKS_REFETCH_COOLDOWN_MS = 60 * 1000
+
+export interface OpenIdEndpoints {
+  authorizationEndpoint: string
+  tokenEndpoint: string
+  jwksUri: string
+  issuers: string[]
+}
+
+export class HttpIdentityProvider implements IdentityProvider {
+  readonly provider = 'google' as const
+  readonly issuers: string[]
+
+  private jwks: { keys: JsonWebKey[]; fetchedAt: number } | null = null
+
+  constructor(
+    readonly clientId: string,
+    private clientSecret: string,
+    private redirectUri: string,
+    private endpoints: OpenIdEndpoints
+  ) {
+    this.issuers = endpoints.issuers
+  }
+
+  authorizationUrl(params: { state: string; nonce: string; codeChallenge: string }): string {
+    const url = new URL(this.endpoints.authorizationEndpoint)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', this.clientId)
+    url.searchParams.set('redirect_uri', this.redirectUri)
+    url.searchParams.set('scope', 'openid email profile')
+    url.searchParams.set('state', params.state)
+    url.searchParams.set('nonce', params.nonce)
+    url.searchParams.set('code_challenge', params.codeChallenge)
+    url.searchParams.set('code_challenge_method', 'S256')
+    return url.toString()
+  }
+
+  async exchangeCode(params: { code: string; codeVerifier: string }): Promise<{ idToken: string }> {
+    const response = await $fetch<{ id_token?: string }>(this.endpoints.tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        code_verifier: params.codeVerifier,
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        redirect_uri: this.redirectUri
+      }).toString()
+    })
+    if (!response.id_token) throw new Error('Token response did not include an id_token')
+    return { idToken: response.id_token }
+  }
+
+  /**
+   * The provider's keys, cached for an hour. A key id missing from the cache
+   * means the provider has rotated keys; fetch again, unless the set was fetched
+   * moments ago, so tokens under unknown ids cannot hammer the endpoint.
+   */
+  async signingKeys(kid?: string): Promise<JsonWebKey[]> {
+    const age = this.jwks ? Date.now() - this.jwks.fetchedAt : Infinity
+    const missingKey = kid !== undefined && !this.jwks?.keys.some(key => (key as JsonWebKey & { kid?: string }).kid === kid)
+
+    if (!this.jwks || age > JWKS_CACHE_MS || (missingKey && age > JWKS_REFETCH_COOLDOWN_MS)) {
+      const { keys } = await $fetch<{ keys: JsonWebKey[] }>(this.endpoints.jwksUri)
+      this.jwks = { keys, fetchedAt: Date.now() }
+    }
+    return this.jwks.keys
+  }
+}
+
+let provider: IdentityProvider | null = null
+
+/**
+ * Provider for Google sign-in, built once per worker. In dev and test builds
+ * runtimeConfig.oauthProvider = 'local' swaps in the in-process provider,
+ * signing in as runtimeConfig.oauthLocalEmail; other builds ignore it.
+ */
+export function getGoogleProvider(): IdentityProvider {
+  if (provider) return provider
+
+  const config = useRuntimeConfig()
+  if (config.oauthProvider === 'local') {
+    if (import.meta.dev || import.meta.test) {
+      const local = new LocalIdentityProvider(config.public.googleClientId || undefined, config.googleRedirectUri)
+      const email = config.oauthLocalEmail
+      local.signInAs({ sub: `local-${email}`, email, name: email.split('@')[0] })
+      provider = local
+      return provider
+    }
+    console.warn('Ignoring the local OAuth provider outside dev and test builds')
+  }
+
+  const issuer = config.googleIssuer
+  provider = new HttpIdentityProvider(config.public.googleClientId, config.googleClientSecret, config.googleRedirectUri, {
+    authorizationEndpoint: config.googleAuthorizationEndpoint,
+    tokenEndpoint: config.googleTokenEndpoint,
+    jwksUri: config.googleJwksUri,
+    // Google issues ID tokens under both spellings of its issuer
+    issuers: issuer === 'https://accounts.google.com' ? [issuer, 'accounts.google.com'] : [issuer]
+  })
+  return provider
+}
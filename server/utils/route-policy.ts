@@ -0,0 +1,53 @@
+// Route policies shared by the API and the dashboard
+// A policy names the permission a route needs. Both apps gate their handlers through
+// here on top of their own way of resolving the signed-in user; h3 helpers are imported
+// directly because the dashboard loads this file from outside its source tree.
+
+import { createError, defineEventHandler, type H3Event } from 'h3'
+import { hasPermission, type Permission } from '../../database/utils/permissions'
+
+export interface RoutePolicy {
+  permission: Permission
+}
+
+interface PermissionHolder {
+  permissions: readonly string[]
+}
+
+// For actions within a route that need more than the route itself
+export function assertPermission(user: PermissionHolder, permission: Permission) {
+  if (!hasPermission(user, permission)) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: `Requires the ${permission} permission`
+    })
+  }
+}
+
+/**
+ * Permission checks for an app, given how it resolves the signed-in user
+ * (401 when there is none)
+ */
+export function createRoutePolicies<U extends PermissionHolder>(requireAuth: (event: H3Event) => Promise<U>) {
+  /**
+   * The signed-in user, or a 401; a 403 unless they hold the permission
+   */
+  async function requirePermission(event: H3Event, permission: Permission): Promise<U> {
+    const user = await requireAuth(event)
+    assertPermission(user, permission)
+    return user
+  }
+
+  /**
+   * An event handler that only runs for a signed-in user holding the policy's
+   * permission; the handler receives that user
+   */
+  function defineProtectedHandler<T>(policy: RoutePolicy, handler: (event: H3Event, user: U) => T | Promise<T>) {
+    return defineEventHandler(async (event) => {
+      const user = await requirePermission(event, policy.permission)
+      return handler(event, user)
+    })
+  }
+
+  return { requirePermission, defineProtectedHandler }
+}
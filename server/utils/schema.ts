@@ -139,7 +139,7 @@ export const questions = sqliteTable('questions', {
   // Question Content
   text: text('text').notNull(),
   type: text('type', { 
-    enum: ['multiple_choice', 'multi_select', 'true_false', 'drag_drop', 'hotspot'] 
+    enum: ['multiple_choice', 'multi_select', 'true_false', 'drag_drop', 'hotspot', 'simulation'] 
   }).default('multiple_choice'),
   
   // Answers (JSON format)
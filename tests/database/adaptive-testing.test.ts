@@ -0,0 +1,261 @@
+// Adaptive testing (CAT) test suite
+// Covers IRT item parameters, ability estimation, item selection and attempt lifecycle
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import {
+  toItemParameters,
+  estimateAbility,
+  selectNextItem,
+  checkStopRule,
+  itemInformation,
+  CAT_CONFIG
+} from '~/database/utils/adaptive-testing'
+import { TEST_ATTEMPT_CONFIG } from '~/database/utils/test-attempts'
+import * as schema from '~/database/schema'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+// Always take the single most informative item
+const firstChoice = () => 0
+
+describe('Adaptive Testing', () => {
+  describe('toItemParameters', () => {
+    it('should center difficulty 3 on the ability scale', () => {
+      expect(toItemParameters({ id: 1, difficulty: 3, discriminationIndex: null }).b).toBe(0)
+      expect(toItemParameters({ id: 2, difficulty: 5, discriminationIndex: null }).b).toBe(2)
+    })
+
+    it('should fall back to 1PL without a discrimination index', () => {
+      expect(toItemParameters({ id: 1, difficulty: 3, discriminationIndex: null }).a).toBe(CAT_CONFIG.defaultDiscrimination)
+    })
+
+    it('should map higher discrimination onto a steeper item', () => {
+      const weak = toItemParameters({ id: 1, difficulty: 3, discriminationIndex: 0.2 })
+      const strong = toItemParameters({ id: 2, difficulty: 3, discriminationIndex: 0.6 })
+      expect(strong.a).toBeGreaterThan(weak.a)
+      expect(strong.a).toBeLessThanOrEqual(CAT_CONFIG.maxDiscrimination)
+    })
+  })
+
+  describe('estimateAbility', () => {
+    const item = { questionId: 1, a: 1, b: 0 }
+
+    it('should start at the prior mean', () => {
+      const estimate = estimateAbility([])
+      expect(estimate.theta).toBeCloseTo(0, 3)
+      expect(estimate.standardError).toBeCloseTo(1, 1)
+    })
+
+    it('should move toward the responses and stay finite on all-correct runs', () => {
+      const allCorrect = estimateAbility([1, 2, 3, 4].map(id => ({ ...item, questionId: id, isCorrect: true })))
+      const allWrong = estimateAbility([1, 2, 3, 4].map(id => ({ ...item, questionId: id, isCorrect: false })))
+
+      expect(allCorrect.theta).toBeGreaterThan(0)
+      expect(allWrong.theta).toBeLessThan(0)
+      expect(Number.isFinite(allCorrect.theta)).toBe(true)
+      expect(allCorrect.standardError).toBeLessThan(1)
+    })
+  })
+
+  describe('selectNextItem', () => {
+    it('should prefer items whose difficulty matches the current estimate', () => {
+      const pool = [
+        { questionId: 1, a: 1, b: -2 },
+        { questionId: 2, a: 1, b: 0 },
+        { questionId: 3, a: 1, b: 2 }
+      ]
+
+      expect(selectNextItem(2, pool, new Set(), firstChoice)?.questionId).toBe(3)
+      expect(selectNextItem(-2, pool, new Set(), firstChoice)?.questionId).toBe(1)
+      expect(selectNextItem(2, pool, new Set([3]), firstChoice)?.questionId).toBe(2)
+    })
+
+    it('should favor more discriminating items at the same difficulty', () => {
+      const flat = { questionId: 1, a: 0.5, b: 0 }
+      const steep = { questionId: 2, a: 2, b: 0 }
+      expect(itemInformation(0, steep)).toBeGreaterThan(itemInformation(0, flat))
+      expect(selectNextItem(0, [flat, steep], new Set(), firstChoice)?.questionId).toBe(2)
+    })
+  })
+
+  describe('checkStopRule', () => {
+    it('should not stop on precision before the minimum length', () => {
+      expect(checkStopRule(CAT_CONFIG.minItems - 1, 0.1, 20)).toBeNull()
+      expect(checkStopRule(CAT_CONFIG.minItems, 0.1, 20)).toBe('precision')
+    })
+
+    it('should stop at the maximum length or an empty pool', () => {
+      expect(checkStopRule(CAT_CONFIG.maxItems, 0.9, 20)).toBe('max_items')
+      expect(checkStopRule(3, 0.9, 0)).toBe('pool_exhausted')
+    })
+  })
+
+  describe('adaptive attempts', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should start an adaptive attempt without revealing the answer key', async () => {
+      const started = await queries.adaptive.startAdaptiveAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        rng: firstChoice
+      })
+
+      expect(started?.attempt.mode).toBe('adaptive')
+      expect(started?.attempt.questionIds).toEqual([started?.question?.id])
+      expect(started?.question?.answers[0]).not.toHaveProperty('isCorrect')
+    })
+
+    it('should serve harder items after correct answers and record the trajectory', async () => {
+      const started = await queries.adaptive.startAdaptiveAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        rng: firstChoice
+      })
+      const difficultyOf = (id: number) => testData.questions.find(q => q.id === id)!.difficulty!
+      const firstDifficulty = difficultyOf(started!.question!.id)
+
+      let questionId = started!.question!.id
+      let result
+      for (let i = 0; i < 3; i++) {
+        result = await queries.adaptive.submitAdaptiveAnswer({
+          attemptId: started!.attempt.id,
+          userId: testData.user.id,
+          questionId,
+          selectedAnswer: 'a', // Seeded questions mark 'a' correct
+          timeSpentSeconds: 30,
+          rng: firstChoice
+        })
+        if (!result.ok) break
+        questionId = result.nextQuestion!.id
+      }
+
+      expect(result?.ok).toBe(true)
+      if (!result?.ok) return
+
+      const thetas = result.trajectory.map(point => point.theta)
+      expect(thetas).toEqual([...thetas].sort((a, b) => a - b))
+      expect(result.trajectory.every(point => point.isCorrect)).toBe(true)
+      expect(difficultyOf(result.nextQuestion!.id)).toBeGreaterThan(firstDifficulty)
+      expect(result.attempt.questionIds).toHaveLength(4)
+      expect(result.attempt.abilityTrajectory).toHaveLength(3)
+    })
+
+    it('should reject answers to anything but the current item', async () => {
+      const started = await queries.adaptive.startAdaptiveAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id
+      })
+      const otherQuestion = testData.questions.find(q => q.id !== started!.question!.id)!
+
+      const result = await queries.adaptive.submitAdaptiveAnswer({
+        attemptId: started!.attempt.id,
+        userId: testData.user.id,
+        questionId: otherQuestion.id,
+        selectedAnswer: 'a',
+        timeSpentSeconds: 10
+      })
+
+      expect(result).toEqual({ ok: false, reason: 'unexpected_question' })
+    })
+
+    it('should finish with a score once the maximum length is reached', async () => {
+      const now = new Date('2026-06-01T10:00:00Z')
+      const current = await queries.adaptive.startAdaptiveAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        now
+      })
+      let questionId = current!.question!.id
+      let result
+
+      for (let i = 0; i < CAT_CONFIG.maxItems; i++) {
+        result = await queries.adaptive.submitAdaptiveAnswer({
+          attemptId: current!.attempt.id,
+          userId: testData.user.id,
+          questionId,
+          selectedAnswer: i % 2 === 0 ? 'a' : 'b',
+          timeSpentSeconds: 20,
+          now
+        })
+        if (!result.ok || result.stopReason) break
+        questionId = result.nextQuestion!.id
+      }
+
+      expect(result?.ok).toBe(true)
+      if (!result?.ok) return
+
+      expect(result.stopReason).not.toBeNull()
+      expect(result.nextQuestion).toBeNull()
+      expect(result.attempt.status).toBe('completed')
+      expect(result.attempt.score).toBeGreaterThan(0)
+      expect(result.attempt.score).toBeLessThan(1)
+      expect(result.attempt.correctCount! + result.attempt.incorrectCount!).toBe(result.trajectory.length)
+      expect(result.attempt.completedAt).toEqual(now)
+
+      // Reported by domain like a fixed-form attempt
+      const breakdown = Object.values(result.attempt.objectiveBreakdown ?? {})
+      expect(breakdown.reduce((sum, objective) => sum + objective.total, 0)).toBe(result.trajectory.length)
+      const report = await queries.scoring.getScoreReport(current!.attempt.id, testData.user.id)
+      expect(report?.domains.length).toBeGreaterThan(0)
+      expect(report?.domains.reduce((sum, domain) => sum + domain.total, 0)).toBe(result.trajectory.length)
+
+      const answers = await dbWrapper.db
+        .select()
+        .from(schema.userAnswers)
+        .where(eq(schema.userAnswers.testAttemptId, current!.attempt.id))
+      expect(answers).toHaveLength(result.trajectory.length)
+    })
+
+    it('should close an attempt on its estimate once the time limit has passed', async () => {
+      const startedAt = new Date('2026-06-01T10:00:00Z')
+      const started = await queries.adaptive.startAdaptiveAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        rng: firstChoice,
+        now: startedAt
+      })
+      const { attempt } = started!
+      expect(attempt.expiresAt).toEqual(new Date(startedAt.getTime() + attempt.timeLimitMinutes! * 60 * 1000))
+
+      const first = await queries.adaptive.submitAdaptiveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: started!.question!.id,
+        selectedAnswer: 'a',
+        timeSpentSeconds: 30,
+        rng: firstChoice,
+        now: new Date(startedAt.getTime() + 60 * 1000)
+      })
+      expect(first.ok).toBe(true)
+      if (!first.ok) return
+
+      // Past the deadline and its grace period
+      const late = new Date(attempt.expiresAt!.getTime() + (TEST_ATTEMPT_CONFIG.gracePeriodSeconds + 1) * 1000)
+      expect(await queries.adaptive.submitAdaptiveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: first.nextQuestion!.id,
+        selectedAnswer: 'a',
+        timeSpentSeconds: 30,
+        now: late
+      })).toEqual({ ok: false, reason: 'expired' })
+
+      const [closed] = await dbWrapper.db.select().from(schema.testAttempts).where(eq(schema.testAttempts.id, attempt.id))
+      expect(closed).toMatchObject({ status: 'completed', completedAt: attempt.expiresAt, correctCount: 1, skippedCount: 1 })
+      expect(closed.domainScores?.length).toBeGreaterThan(0)
+
+      // Reading an expired attempt closes it the same way
+      const other = await queries.adaptive.startAdaptiveAttempt({ userId: testData.user.id, examId: testData.exam.id, now: startedAt })
+      const loaded = await queries.testAttempts.getAttempt(other!.attempt.id, testData.user.id, late)
+      expect(loaded).toMatchObject({ status: 'completed', completedAt: other!.attempt.expiresAt, skippedCount: 1 })
+    })
+  })
+})
@@ -0,0 +1,119 @@
+// Authentication token test suite
+// Covers keyring config, access token verification across key rotation, and refresh token rotation with reuse detection
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { createKeyring, verifyAccessToken } from '~/database/utils/auth-tokens'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const oldKeys = createKeyring({ jwtKeys: '2026-09:old-secret-old-secret-old-secret' })
+const rotatedKeys = createKeyring({ jwtKeys: '2026-10:new-secret-new-secret-new-secret,2026-09:old-secret-old-secret-old-secret' })
+const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000)
+
+describe('Auth Tokens', () => {
+  describe('createKeyring', () => {
+    it('should read kid:secret pairs and fall back to the single secret', () => {
+      expect(createKeyring({ jwtKeys: 'a:one, b:two:with:colons', jwtActiveKid: 'b' })).toEqual({
+        activeKid: 'b',
+        keys: [{ kid: 'a', secret: 'one' }, { kid: 'b', secret: 'two:with:colons' }]
+      })
+      expect(createKeyring({ jwtKeys: '', jwtSecret: 'legacy' })).toEqual({
+        activeKid: 'default',
+        keys: [{ kid: 'default', secret: 'legacy' }]
+      })
+
+      expect(() => createKeyring({})).toThrow('JWT_KEYS or JWT_SECRET must be set')
+      expect(() => createKeyring({ jwtKeys: 'a:one', jwtActiveKid: 'b' })).toThrow('Active JWT key "b"')
+      expect(() => createKeyring({ jwtKeys: 'no-secret' })).toThrow('expected kid:secret')
+    })
+  })
+
+  describe('queries', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should issue access tokens that survive key rotation until the old key is dropped', async () => {
+      const userId = testData.user.id
+
+      const issued = await queries.auth.issueTokens({ userId, keyring: oldKeys })
+      expect(issued.ok).toBe(true)
+      if (!issued.ok) return
+      const { accessToken } = issued.tokens
+
+      const [user] = await dbWrapper.db.select().from(schema.users).where(eq(schema.users.id, userId))
+      expect(user.loginCount).toBe(1)
+
+      // Signed with the old key, still accepted once a newer key is active
+      const authenticated = await queries.auth.authenticate({ accessToken, keyring: rotatedKeys })
+      expect(authenticated).toEqual({
+        ok: true,
+        user: { id: userId, email: user.email, name: user.name, role: 'user', permissions: [], emailVerified: true },
+        sessionId: issued.tokens.sessionId
+      })
+
+      const droppedOldKey = createKeyring({ jwtKeys: '2026-10:new-secret-new-secret-new-secret' })
+      expect(await queries.auth.authenticate({ accessToken, keyring: droppedOldKey })).toEqual({ ok: false, reason: 'invalid' })
+
+      // Same kid, different secret: a forged token
+      const forged = createKeyring({ jwtKeys: '2026-09:attacker-secret' })
+      const [header, payload] = accessToken.split('.')
+      const tampered = `${header}.${payload.replace(/.$/, payload.endsWith('A') ? 'B' : 'A')}.${accessToken.split('.')[2]}`
+      expect(await verifyAccessToken(accessToken, forged)).toBeNull()
+      expect(await verifyAccessToken(tampered, oldKeys)).toBeNull()
+      expect(await verifyAccessToken('not-a-token', oldKeys)).toBeNull()
+
+      // Fifteen-minute access tokens are long gone an hour later
+      expect(await verifyAccessToken(accessToken, oldKeys, inAnHour())).toBeNull()
+
+      await dbWrapper.db.update(schema.users).set({ isActive: false }).where(eq(schema.users.id, userId))
+      expect(await queries.auth.authenticate({ accessToken, keyring: oldKeys })).toEqual({ ok: false, reason: 'inactive' })
+      expect(await queries.auth.issueTokens({ userId, keyring: oldKeys })).toEqual({ ok: false, reason: 'inactive' })
+      expect(await queries.auth.issueTokens({ userId: 9999, keyring: oldKeys })).toEqual({ ok: false, reason: 'not_found' })
+    })
+
+    it('should rotate refresh tokens and revoke the sign-in when one is replayed', async () => {
+      const userId = testData.user.id
+      const issued = await queries.auth.issueTokens({ userId, keyring: rotatedKeys })
+      if (!issued.ok) throw new Error('tokens were not issued')
+      const first = issued.tokens.refreshToken
+
+      const rotated = await queries.auth.refreshTokens({ refreshToken: first, keyring: rotatedKeys })
+      expect(rotated.ok).toBe(true)
+      if (!rotated.ok) return
+      const second = rotated.tokens.refreshToken
+      expect(second).not.toBe(first)
+      expect(await verifyAccessToken(rotated.tokens.accessToken, rotatedKeys)).toEqual({ userId, sessionId: issued.tokens.sessionId })
+
+      // Only hashes are stored
+      const stored = await dbWrapper.db.select().from(schema.refreshTokens).where(eq(schema.refreshTokens.userId, userId))
+      expect(stored).toHaveLength(2)
+      expect(stored.map(row => row.tokenHash)).not.toContain(first)
+      expect(new Set(stored.map(row => row.familyId)).size).toBe(1)
+
+      // Replaying the spent token takes the live one down with it
+      expect(await queries.auth.refreshTokens({ refreshToken: first, keyring: rotatedKeys })).toEqual({ ok: false, reason: 'reused' })
+      expect(await queries.auth.refreshTokens({ refreshToken: second, keyring: rotatedKeys })).toEqual({ ok: false, reason: 'invalid' })
+      expect(await queries.auth.refreshTokens({ refreshToken: 'unknown', keyring: rotatedKeys })).toEqual({ ok: false, reason: 'invalid' })
+
+      // A fresh sign-in is unaffected until it signs out or outlives the refresh window
+      const again = await queries.auth.issueTokens({ userId, keyring: rotatedKeys })
+      if (!again.ok) throw new Error('tokens were not issued')
+      const later = new Date(again.tokens.refreshTokenExpiresAt.getTime() + 1000)
+      expect(await queries.auth.refreshTokens({ refreshToken: again.tokens.refreshToken, keyring: rotatedKeys, now: later }))
+        .toEqual({ ok: false, reason: 'expired' })
+
+      expect(await queries.auth.revokeRefreshToken({ refreshToken: again.tokens.refreshToken })).toEqual({ ok: true })
+      expect(await queries.auth.refreshTokens({ refreshToken: again.tokens.refreshToken, keyring: rotatedKeys }))
+        .toEqual({ ok: false, reason: 'invalid' })
+      expect(await queries.auth.revokeRefreshToken({ refreshToken: 'unknown' })).toEqual({ ok: false, reason: 'invalid' })
+    })
+  })
+})
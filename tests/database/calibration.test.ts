@@ -0,0 +1,209 @@
+// Item calibration test suite
+// Covers classical item statistics, IRT conversion, flagging and question write-back
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq, inArray } from 'drizzle-orm'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import {
+  normalQuantile,
+  pointBiserial,
+  estimateItemParameters,
+  toDifficultyBand,
+  flagItem,
+  calibrateItems,
+  CALIBRATION_CONFIG
+} from '~/database/utils/calibration'
+import * as schema from '~/database/schema'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+describe('Item Calibration', () => {
+  describe('normalQuantile', () => {
+    it('should match standard normal quantiles', () => {
+      expect(normalQuantile(0.5)).toBeCloseTo(0, 3)
+      expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2)
+      expect(normalQuantile(0.025)).toBeCloseTo(-1.96, 2)
+    })
+  })
+
+  describe('pointBiserial', () => {
+    it('should be positive when stronger respondents get the item right', () => {
+      expect(pointBiserial([false, false, true, true], [0.2, 0.3, 0.8, 0.9])).toBeGreaterThan(0.8)
+      expect(pointBiserial([true, true, false, false], [0.2, 0.3, 0.8, 0.9])).toBeLessThan(-0.8)
+    })
+
+    it('should be undefined without variance', () => {
+      expect(pointBiserial([true, true, true], [0.2, 0.5, 0.9])).toBeNull()
+      expect(pointBiserial([true, false, true], [0.5, 0.5, 0.5])).toBeNull()
+    })
+  })
+
+  describe('estimateItemParameters', () => {
+    it('should give easy items negative difficulty and hard items positive', () => {
+      const easy = estimateItemParameters(0.85, 0.4)
+      const hard = estimateItemParameters(0.25, 0.4)
+
+      expect(easy.difficultyParameter).toBeLessThan(0)
+      expect(hard.difficultyParameter).toBeGreaterThan(0)
+      expect(toDifficultyBand(easy.difficultyParameter)).toBeLessThan(3)
+      expect(toDifficultyBand(hard.difficultyParameter)).toBeGreaterThan(3)
+    })
+
+    it('should not report discrimination for non-discriminating items', () => {
+      expect(estimateItemParameters(0.5, -0.2).discrimination).toBeNull()
+      expect(estimateItemParameters(0.5, 0.5).discrimination).toBeGreaterThan(1)
+    })
+  })
+
+  describe('flagItem', () => {
+    it('should flag items that look broken', () => {
+      expect(flagItem(1, null)).toEqual(['all_correct'])
+      expect(flagItem(0, null)).toEqual(['all_incorrect'])
+      expect(flagItem(0.6, -0.3)).toEqual(['negative_discrimination'])
+      expect(flagItem(0.97, 0.05)).toEqual(['too_easy', 'low_discrimination'])
+      expect(flagItem(0.6, 0.4)).toEqual([])
+    })
+  })
+
+  describe('calibrateItems', () => {
+    it('should leave items below the minimum sample uncalibrated', () => {
+      const [item] = calibrateItems([
+        { respondentKey: 'attempt:1', questionId: 1, isCorrect: true },
+        { respondentKey: 'attempt:2', questionId: 1, isCorrect: false }
+      ])
+
+      expect(item.responses).toBe(2)
+      expect(item.proportionCorrect).toBe(0.5)
+      expect(item.difficultyBand).toBeNull()
+      expect(item.flags).toEqual([])
+    })
+
+    it('should count only the first response per respondent', () => {
+      const [item] = calibrateItems([
+        { respondentKey: 'study:1:1', questionId: 1, isCorrect: false },
+        { respondentKey: 'study:1:1', questionId: 1, isCorrect: true }
+      ])
+
+      expect(item.responses).toBe(1)
+      expect(item.proportionCorrect).toBe(0)
+    })
+  })
+
+  describe('runCalibration', () => {
+    const respondents = CALIBRATION_CONFIG.minResponses + 10
+
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    /**
+     * Respondent k has ability rank k. The good item rewards ability, the
+     * reversed item punishes it, and everyone gets the trivial item right.
+     */
+    async function seedResponses() {
+      const [good, reversed, trivial, anchorA, anchorB, sparse] = testData.questions
+
+      const attempts = await dbWrapper.db.insert(schema.testAttempts).values(
+        Array.from({ length: respondents }, () => ({
+          userId: testData.user.id,
+          examId: testData.exam.id,
+          questionIds: [good.id, reversed.id, trivial.id, anchorA.id, anchorB.id],
+          status: 'completed' as const
+        }))
+      ).returning()
+
+      const answers = attempts.flatMap((attempt, k) => {
+        const strong = k >= respondents / 2
+        return [
+          { question: good, isCorrect: k >= respondents / 3 },
+          { question: reversed, isCorrect: k < respondents / 3 },
+          { question: trivial, isCorrect: true },
+          { question: anchorA, isCorrect: strong },
+          { question: anchorB, isCorrect: strong || k % 4 === 0 }
+        ].map(({ question, isCorrect }) => ({
+          userId: testData.user.id,
+          questionId: question.id,
+          testAttemptId: attempt.id,
+          selectedAnswer: isCorrect ? 'a' : 'b',
+          isCorrect,
+          timeSpentSeconds: 40
+        }))
+      })
+
+      answers.push({
+        userId: testData.user.id,
+        questionId: sparse.id,
+        testAttemptId: attempts[0].id,
+        selectedAnswer: 'a',
+        isCorrect: true,
+        timeSpentSeconds: 40
+      })
+
+      await dbWrapper.db.insert(schema.userAnswers).values(answers)
+      return { good, reversed, trivial, sparse, attempts }
+    }
+
+    it('should write parameters back and flag broken items', async () => {
+      const { good, reversed, trivial, sparse } = await seedResponses()
+
+      const result = await queries.calibration.runCalibration()
+      const byId = new Map(result.items.map(item => [item.questionId, item]))
+
+      expect(byId.get(good.id)?.pointBiserial).toBeGreaterThan(CALIBRATION_CONFIG.lowDiscrimination)
+      expect(byId.get(reversed.id)?.flags).toContain('negative_discrimination')
+      expect(byId.get(trivial.id)?.flags).toContain('all_correct')
+      expect(byId.get(sparse.id)?.difficultyBand).toBeNull()
+
+      const [updatedGood] = await dbWrapper.db
+        .select()
+        .from(schema.questions)
+        .where(eq(schema.questions.id, good.id))
+      expect(updatedGood.totalAttempts).toBe(respondents)
+      expect(updatedGood.discriminationIndex).toBe(byId.get(good.id)?.pointBiserial)
+      expect(updatedGood.difficulty).toBe(byId.get(good.id)?.difficultyBand)
+
+      const [updatedSparse] = await dbWrapper.db
+        .select()
+        .from(schema.questions)
+        .where(eq(schema.questions.id, sparse.id))
+      expect(updatedSparse.totalAttempts).toBe(1)
+      expect(updatedSparse.difficulty).toBe(sparse.difficulty)
+
+      const flagged = await queries.calibration.getFlaggedItems(testData.exam.id)
+      expect(flagged.map(item => item.questionId).sort()).toEqual([reversed.id, trivial.id].sort())
+    })
+
+    it('should not write anything on a dry run', async () => {
+      const { good } = await seedResponses()
+
+      const result = await queries.calibration.runCalibration({ dryRun: true })
+      expect(result.calibrated).toBeGreaterThan(0)
+
+      const runs = await dbWrapper.db.select().from(schema.itemCalibrations)
+      const [question] = await dbWrapper.db
+        .select()
+        .from(schema.questions)
+        .where(eq(schema.questions.id, good.id))
+
+      expect(runs).toHaveLength(0)
+      expect(question.totalAttempts).toBe(0)
+      expect(question.discriminationIndex).toBeNull()
+    })
+
+    it('should ignore answers from invalidated attempts', async () => {
+      const { good, attempts } = await seedResponses()
+
+      await dbWrapper.db
+        .update(schema.testAttempts)
+        .set({ status: 'invalidated' })
+        .where(inArray(schema.testAttempts.id, attempts.slice(0, 20).map(a => a.id)))
+
+      const responses = await queries.calibration.loadResponses(testData.exam.id)
+      expect(responses.filter(r => r.questionId === good.id)).toHaveLength(respondents - 20)
+    })
+  })
+})
@@ -0,0 +1,136 @@
+// Certification path test suite
+// Covers prerequisite resolution, path progress across exams and next-exam recommendations
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData, createTestExam } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { computePathProgress, type PathSummary } from '~/database/utils/certification-paths'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+// CompTIA core path: A+ (passed), then the seeded Network+ (under way), then Security+,
+// which also names Network+ as a vendor prerequisite; a second path nobody has started
+async function createPaths() {
+  const userId = testData.user.id
+  const [aPlus, securityPlus, cloudPlus] = await dbWrapper.db.insert(schema.exams).values([
+    createTestExam({ code: '220-1101', name: 'CompTIA A+ Core 1' }),
+    createTestExam({ code: 'SY0-701', name: 'CompTIA Security+', prerequisites: ['N10-008', 'XK0-005'] }),
+    createTestExam({ code: 'CV0-004', name: 'CompTIA Cloud+' })
+  ]).returning()
+
+  await dbWrapper.db.insert(schema.userProgress).values({
+    userId,
+    examId: aPlus.id,
+    totalQuestionsSeen: 300,
+    overallAccuracy: 0.86,
+    readinessScore: 0.85,
+    testsPassed: 2,
+    bestScore: 0.88,
+    totalStudyMinutes: 540
+  })
+  await dbWrapper.db
+    .update(schema.userProgress)
+    .set({ readinessScore: 0.55, totalStudyMinutes: 120 })
+    .where(eq(schema.userProgress.examId, testData.exam.id))
+
+  const [core, cloud] = await dbWrapper.db.insert(schema.certificationPaths).values([
+    { vendorId: 'comptia', code: 'core', name: 'CompTIA Core', sortOrder: 1 },
+    { vendorId: 'comptia', code: 'cloud', name: 'CompTIA Cloud', sortOrder: 2 }
+  ]).returning()
+  await dbWrapper.db.insert(schema.certificationPathExams).values([
+    { pathId: core.id, examId: aPlus.id, position: 1 },
+    { pathId: core.id, examId: testData.exam.id, position: 2 },
+    { pathId: core.id, examId: securityPlus.id, position: 3, prerequisiteRule: 'none' },
+    { pathId: cloud.id, examId: cloudPlus.id, position: 1 }
+  ])
+
+  return { core, cloud, aPlus, securityPlus, cloudPlus }
+}
+
+describe('Certification Paths', () => {
+  describe('computePathProgress', () => {
+    it('should point at the missing prerequisite when every remaining exam is locked', () => {
+      const path: PathSummary = {
+        id: 1,
+        vendorId: 'cisco',
+        code: 'ccnp',
+        name: 'CCNP Enterprise',
+        description: null,
+        exams: [{ examId: 2, code: 'ENCOR', name: 'Enterprise Core', position: 1, prerequisiteRule: 'none', prerequisiteExamIds: [1] }]
+      }
+      const examsById = new Map([
+        [1, { id: 1, code: 'CCNA', name: 'Cisco Certified Network Associate' }],
+        [2, { id: 2, code: 'ENCOR', name: 'Enterprise Core' }]
+      ])
+
+      const progress = computePathProgress(path, new Map(), examsById)
+
+      expect(progress.exams[0]).toMatchObject({ status: 'locked', unmetPrerequisites: [{ examId: 1, code: 'CCNA' }] })
+      expect(progress.next).toEqual({ examId: 1, code: 'CCNA', name: 'Cisco Certified Network Associate', reason: 'prerequisite' })
+    })
+  })
+
+  describe('queries', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should list paths in order with resolved prerequisites', async () => {
+      const { aPlus, cloudPlus } = await createPaths()
+
+      const paths = await queries.paths.listPaths()
+
+      expect(paths.map(path => path.code)).toEqual(['core', 'cloud'])
+      expect(paths[0].exams.map(exam => [exam.code, exam.position, exam.prerequisiteExamIds])).toEqual([
+        ['220-1101', 1, []],
+        ['N10-008', 2, [aPlus.id]],
+        // Only the vendor prerequisite, and the unknown XK0-005 is dropped
+        ['SY0-701', 3, [testData.exam.id]]
+      ])
+      expect(paths[1].exams.map(exam => exam.examId)).toEqual([cloudPlus.id])
+    })
+
+    it('should roll progress up across the path and recommend the exam under way', async () => {
+      const userId = testData.user.id
+      const { core, cloud, securityPlus } = await createPaths()
+
+      expect(await queries.paths.getPathProgress({ pathId: 9999, userId })).toEqual({ ok: false, reason: 'not_found' })
+
+      const result = await queries.paths.getPathProgress({ pathId: core.id, userId })
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      const { progress } = result
+
+      expect(progress.exams.map(exam => [exam.code, exam.status])).toEqual([
+        ['220-1101', 'completed'],
+        ['N10-008', 'in_progress'],
+        ['SY0-701', 'locked']
+      ])
+      expect(progress.exams[2].unmetPrerequisites).toEqual([{ examId: testData.exam.id, code: 'N10-008' }])
+      expect(progress).toMatchObject({
+        completedExams: 1,
+        totalExams: 3,
+        readinessScore: 0.4667,
+        questionsSeen: 325,
+        studyMinutes: 660,
+        next: { examId: testData.exam.id, code: 'N10-008', reason: 'continue' }
+      })
+
+      // Passing Network+ unlocks Security+
+      await dbWrapper.db
+        .update(schema.userProgress)
+        .set({ readinessScore: 0.82, testsPassed: 1 })
+        .where(eq(schema.userProgress.examId, testData.exam.id))
+
+      const recommendations = await queries.paths.getRecommendations(userId)
+      expect(recommendations.map(path => path.pathId)).toEqual([core.id])
+      expect(recommendations[0].next).toEqual({ examId: securityPlus.id, code: 'SY0-701', name: 'CompTIA Security+', reason: 'start' })
+      expect(recommendations.some(path => path.pathId === cloud.id)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,272 @@
+// CLI simulator test suite
+// Covers the command interpreter, reachability, end-state grading and simulation questions
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { scoreResponse } from '~/database/utils/grading'
+import { redactDiagram, validateQuestionContent } from '~/database/utils/interactive-questions'
+import {
+  createSimulation,
+  executeCommand,
+  runTranscript,
+  evaluateChecks,
+  canReach,
+  validateSimulationDiagram,
+  type SimulationState
+} from '~/database/utils/cli-simulator'
+import type { SimulationDiagram } from '~/database/schema/types'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+// PC1 - SW1 - R1 - R2 - PC2, with R1's LAN side still unconfigured
+const branchOffice: SimulationDiagram = {
+  kind: 'simulation',
+  devices: [
+    {
+      id: 'r1',
+      hostname: 'R1',
+      kind: 'router',
+      interfaces: [
+        { name: 'GigabitEthernet0/0', shutdown: true },
+        { name: 'GigabitEthernet0/1', ipAddress: '10.0.12.1', subnetMask: '255.255.255.252' }
+      ]
+    },
+    {
+      id: 'r2',
+      hostname: 'R2',
+      kind: 'router',
+      interfaces: [
+        { name: 'GigabitEthernet0/0', ipAddress: '192.168.2.1', subnetMask: '255.255.255.0' },
+        { name: 'GigabitEthernet0/1', ipAddress: '10.0.12.2', subnetMask: '255.255.255.252' }
+      ],
+      staticRoutes: [{ prefix: '192.168.1.0', mask: '255.255.255.0', nextHop: '10.0.12.1' }]
+    },
+    {
+      id: 'sw1',
+      hostname: 'SW1',
+      kind: 'switch',
+      interfaces: [{ name: 'FastEthernet0/1' }, { name: 'FastEthernet0/2' }]
+    },
+    {
+      id: 'pc1',
+      hostname: 'PC1',
+      kind: 'host',
+      interfaces: [{ name: 'Ethernet0', ipAddress: '192.168.1.10', subnetMask: '255.255.255.0' }],
+      defaultGateway: '192.168.1.1'
+    },
+    {
+      id: 'pc2',
+      hostname: 'PC2',
+      kind: 'host',
+      interfaces: [{ name: 'Ethernet0', ipAddress: '192.168.2.10', subnetMask: '255.255.255.0' }],
+      defaultGateway: '192.168.2.1'
+    }
+  ],
+  links: [
+    { a: { deviceId: 'pc1', interface: 'Ethernet0' }, b: { deviceId: 'sw1', interface: 'FastEthernet0/2' } },
+    { a: { deviceId: 'sw1', interface: 'FastEthernet0/1' }, b: { deviceId: 'r1', interface: 'GigabitEthernet0/0' } },
+    { a: { deviceId: 'r1', interface: 'GigabitEthernet0/1' }, b: { deviceId: 'r2', interface: 'GigabitEthernet0/1' } },
+    { a: { deviceId: 'r2', interface: 'GigabitEthernet0/0' }, b: { deviceId: 'pc2', interface: 'Ethernet0' } }
+  ],
+  checks: [
+    { id: 'name', type: 'hostname', deviceId: 'r1', hostname: 'HQ', description: 'Rename R1 to HQ' },
+    { id: 'lan-ip', type: 'interface_address', deviceId: 'r1', interface: 'GigabitEthernet0/0', ipAddress: '192.168.1.1', subnetMask: '255.255.255.0' },
+    { id: 'lan-up', type: 'interface_up', deviceId: 'r1', interface: 'GigabitEthernet0/0' },
+    { id: 'route', type: 'static_route', deviceId: 'r1', prefix: '192.168.2.0', mask: '255.255.255.0', nextHop: '10.0.12.2' },
+    { id: 'vlan', type: 'vlan', deviceId: 'sw1', vlanId: 10, name: 'Sales' },
+    { id: 'pc-port', type: 'access_vlan', deviceId: 'sw1', interface: 'FastEthernet0/2', vlanId: 10 },
+    { id: 'ping', type: 'reachable', deviceId: 'pc1', ipAddress: '192.168.2.10' }
+  ],
+  partialCredit: true
+}
+
+const routerCommands = [
+  'enable',
+  'conf t',
+  'hostname HQ',
+  'int g0/0',
+  'ip add 192.168.1.1 255.255.255.0',
+  'no shut',
+  'exit',
+  'ip route 192.168.2.0 255.255.255.0 10.0.12.2',
+  'end'
+].map(input => ({ deviceId: 'r1', input }))
+
+const switchCommands = (ports: string[]) => [
+  'en',
+  'configure terminal',
+  'vlan 10',
+  'name Sales',
+  ...ports.flatMap(port => [`interface ${port}`, 'switchport mode access', 'sw acc vlan 10']),
+  'end'
+].map(input => ({ deviceId: 'sw1', input }))
+
+function type(state: SimulationState, deviceId: string, ...inputs: string[]) {
+  return inputs.map(input => executeCommand(state, deviceId, input)).pop()!
+}
+
+describe('CLI Simulator', () => {
+  describe('executeCommand', () => {
+    it('should move between modes and show them in the prompt', () => {
+      const state = createSimulation(branchOffice)
+
+      expect(type(state, 'r1', '')).toEqual({ output: [], prompt: 'R1>' })
+      expect(type(state, 'r1', 'enable').prompt).toBe('R1#')
+      expect(type(state, 'r1', 'conf t').prompt).toBe('R1(config)#')
+      expect(type(state, 'r1', 'interface GigabitEthernet 0/1').prompt).toBe('R1(config-if)#')
+      expect(type(state, 'r1', 'exit').prompt).toBe('R1(config)#')
+      expect(type(state, 'r1', 'hostname HQ', 'end').prompt).toBe('HQ#')
+      expect(type(state, 'sw1', 'en', 'conf t', 'vlan 20').prompt).toBe('SW1(config-vlan)#')
+    })
+
+    it('should reject ambiguous, incomplete and invalid input', () => {
+      const state = createSimulation(branchOffice)
+      type(state, 'r1', 'enable', 'conf t')
+
+      expect(type(state, 'r1', 'e').output[0]).toMatch(/^% Ambiguous command/)
+      expect(type(state, 'r1', 'ip route 10.0.0.0').output).toEqual(['% Incomplete command.'])
+      expect(type(state, 'r1', 'switchport mode access').output[0]).toMatch(/^% Invalid input/)
+      expect(type(state, 'r1', 'int g0/0', 'ip address 300.1.1.1 255.255.255.0').output[0]).toMatch(/^% Invalid input/)
+      expect(type(state, 'r1', 'ip address 10.0.12.2 255.255.255.252').output).toEqual(['% 10.0.12.0 overlaps with GigabitEthernet0/1'])
+      expect(type(state, 'pc1', 'enable').output).toEqual(['% This device has no command line'])
+    })
+
+    it('should run EXEC commands from configuration mode with do', () => {
+      const state = createSimulation(branchOffice)
+      const result = type(state, 'r1', 'enable', 'conf t', 'int g0/0', 'do sh ip int br')
+
+      expect(result.prompt).toBe('R1(config-if)#')
+      expect(result.output[1]).toMatch(/^GigabitEthernet0\/0\s+unassigned\s+YES unset\s+administratively down\s+down$/)
+      expect(result.output[2]).toMatch(/^GigabitEthernet0\/1\s+10\.0\.12\.1\s+YES manual\s+up\s+up$/)
+    })
+
+    it('should create missing VLANs when a port is assigned to one', () => {
+      const state = createSimulation(branchOffice)
+      const result = type(state, 'sw1', 'en', 'conf t', 'int fa0/2', 'switchport access vlan 30')
+
+      expect(result.output).toEqual(['% Access VLAN does not exist. Creating vlan 30'])
+      expect(type(state, 'sw1', 'end', 'show vlan brief').output[3]).toMatch(/^30\s+VLAN0030\s+active\s+Fa0\/2$/)
+    })
+
+    it('should leave the question diagram untouched', () => {
+      const before = structuredClone(branchOffice)
+      runTranscript(branchOffice, routerCommands)
+
+      expect(branchOffice).toEqual(before)
+    })
+  })
+
+  describe('reachability', () => {
+    it('should need a route both ways', () => {
+      const { state } = runTranscript(branchOffice, routerCommands)
+      expect(canReach(state, 'pc1', '192.168.2.10')).toBe(true)
+      expect(type(state, 'r1', 'ping 192.168.2.10').output).toContain('!!!!!')
+
+      type(state, 'r1', 'conf t', 'no ip route 192.168.2.0 255.255.255.0 10.0.12.2')
+      expect(canReach(state, 'pc1', '192.168.2.10')).toBe(false)
+      // The echo from PC2 still reaches PC1, but the reply has no route back
+      expect(canReach(state, 'pc2', '192.168.1.10')).toBe(false)
+      expect(canReach(state, 'r1', '10.0.12.2')).toBe(true)
+    })
+
+    it('should keep switch ports in different VLANs apart', () => {
+      const { state } = runTranscript(branchOffice, [...routerCommands, ...switchCommands(['fa0/2'])])
+      expect(canReach(state, 'pc1', '192.168.1.1')).toBe(false)
+
+      type(state, 'sw1', 'conf t', 'int fa0/1', 'sw acc vlan 10')
+      expect(canReach(state, 'pc1', '192.168.1.1')).toBe(true)
+    })
+  })
+
+  describe('grading', () => {
+    it('should pass every check for a complete configuration', () => {
+      const { state } = runTranscript(branchOffice, [...routerCommands, ...switchCommands(['fa0/1', 'fa0/2'])])
+
+      expect(evaluateChecks(branchOffice, state).every(result => result.passed)).toBe(true)
+    })
+
+    it('should grade the end state, with partial credit per check', () => {
+      const answer = (commands: unknown) => JSON.stringify({ commands })
+      const question = { type: 'simulation' as const, answers: [], diagramData: branchOffice }
+
+      // PC1's port moved to VLAN 10 but the router's port was not, so the ping fails
+      expect(scoreResponse(question, answer([...routerCommands, ...switchCommands(['fa0/2'])])))
+        .toEqual({ isCorrect: false, credit: 0.8571 })
+      expect(scoreResponse({ ...question, diagramData: { ...branchOffice, partialCredit: false } }, answer(routerCommands)))
+        .toEqual({ isCorrect: false, credit: 0 })
+      expect(scoreResponse(question, 'a')).toEqual({ isCorrect: false, credit: 0 })
+    })
+  })
+
+  describe('authoring', () => {
+    it('should check that grading rules match the topology', () => {
+      expect(validateQuestionContent({ type: 'simulation', answers: [], diagramData: branchOffice })).toEqual([])
+
+      const errors = validateSimulationDiagram({
+        ...branchOffice,
+        links: [...branchOffice.links, { a: { deviceId: 'r2', interface: 'Serial0/0' }, b: { deviceId: 'r1', interface: 'GigabitEthernet0/1' } }],
+        checks: [{ id: 'up', type: 'interface_up', deviceId: 'r1', interface: 'g0/0' }]
+      })
+      expect(errors).toEqual([
+        'Link references unknown interface r2:Serial0/0',
+        'Interface r1:GigabitEthernet0/1 is cabled more than once',
+        'Check up references unknown interface g0/0'
+      ])
+    })
+
+    it('should reject checks that pass before any commands are typed', () => {
+      expect(validateSimulationDiagram({
+        ...branchOffice,
+        checks: [{ id: 'name', type: 'hostname', deviceId: 'r1', hostname: 'R1' }]
+      })).toEqual(['Every check already passes before the learner types anything'])
+    })
+
+    it('should hide the starting configuration and checks from learners', () => {
+      const view = redactDiagram(branchOffice)
+
+      expect(view).not.toHaveProperty('checks')
+      expect(view).toMatchObject({
+        kind: 'simulation',
+        devices: expect.arrayContaining([
+          { id: 'r1', hostname: 'R1', kind: 'router', interfaces: ['GigabitEthernet0/0', 'GigabitEthernet0/1'] }
+        ]),
+        tasks: ['Rename R1 to HQ']
+      })
+    })
+  })
+
+  describe('simulation questions', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should replay commands for a saved simulation question', async () => {
+      const created = await queries.questionBank.createQuestion({
+        examId: testData.exam.id,
+        objectiveId: testData.questions[0].objectiveId,
+        text: 'Connect the branch office LAN to the head office',
+        type: 'simulation',
+        answers: [],
+        diagramData: branchOffice
+      })
+      if (!created.ok) throw new Error(created.reason)
+
+      const result = await queries.questionBank.runSimulation(created.question.id, routerCommands.slice(0, 4))
+      if (!result.ok) throw new Error(result.reason)
+
+      expect(result.transcript.map(line => line.prompt)).toEqual(['R1#', 'R1(config)#', 'HQ(config)#', 'HQ(config-if)#'])
+      expect(result.prompts).toMatchObject({ r1: 'HQ(config-if)#', sw1: 'SW1>' })
+    })
+
+    it('should refuse to simulate other question types', async () => {
+      expect(await queries.questionBank.runSimulation(testData.questions[0].id, []))
+        .toEqual({ ok: false, reason: 'not_simulation' })
+      expect(await queries.questionBank.runSimulation(999999, []))
+        .toEqual({ ok: false, reason: 'not_found' })
+    })
+  })
+})
@@ -0,0 +1,228 @@
+// Exam version migration test suite
+// Covers mapping suggestions, saving and retiring, the retirement countdown and carrying learner progress
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { and, eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData, createTestExam, createTestObjective, createTestQuestion } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { daysUntil, suggestVersionMapping } from '~/database/utils/exam-migration'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const moderator = () => ({ userId: testData.user.id, ipAddress: '203.0.113.7', userAgent: 'vitest' })
+const now = new Date('2026-06-01T12:00:00Z')
+
+// Seeded questions cycle through domains 1.0, 2.0 and 3.0
+// N10-009 keeps domains 1.0 and 2.0, replaces 3.0 with 4.0 and rewords nothing in the first six questions
+async function createSuccessor() {
+  const [exam] = await dbWrapper.db.insert(schema.exams).values(createTestExam({ code: 'N10-009', version: '009' })).returning()
+  await dbWrapper.db.insert(schema.objectives).values([
+    createTestObjective(exam.id, { code: '1.0', name: 'Networking Concepts' }),
+    createTestObjective(exam.id, { code: '2.0', name: 'Network Implementation' }),
+    createTestObjective(exam.id, { code: '4.0', name: 'Network Troubleshooting' })
+  ])
+  const objectives = await dbWrapper.db.select().from(schema.objectives).where(eq(schema.objectives.examId, exam.id))
+  const byCode = new Map(objectives.map(objective => [objective.code, objective]))
+  const domains = ['1.0', '2.0', '4.0'].map(code => byCode.get(code)!)
+
+  const questions = await dbWrapper.db.insert(schema.questions).values(
+    testData.questions.slice(0, 6).map((question, i) =>
+      createTestQuestion(exam.id, domains[i % 3].id, { text: `${question.text}.`, reviewStatus: 'approved' })
+    )
+  ).returning()
+
+  return { exam, byCode, questions }
+}
+
+describe('Exam Migration', () => {
+  describe('suggestVersionMapping', () => {
+    it('should match objectives by code or name and questions by text', () => {
+      const mapping = suggestVersionMapping(
+        {
+          objectives: [{ id: 1, code: '1.0', name: 'Concepts' }, { id: 2, code: '2.0', name: 'Security' }, { id: 3, code: '3.0', name: 'Cabling' }],
+          questions: [{ id: 10, text: 'What is a VLAN?' }, { id: 11, text: 'What is a  vlan' }, { id: 12, text: 'Define QoS' }]
+        },
+        {
+          objectives: [{ id: 21, code: '1.0', name: 'Networking concepts' }, { id: 24, code: '4.0', name: 'security ' }],
+          questions: [{ id: 30, text: 'what is a VLAN' }]
+        }
+      )
+
+      expect(mapping.objectives).toEqual([
+        { sourceId: 1, targetId: 21 },
+        { sourceId: 2, targetId: 24 },
+        { sourceId: 3, targetId: null }
+      ])
+      expect(mapping.questions).toEqual([
+        { sourceId: 10, targetId: 30 },
+        { sourceId: 11, targetId: null },
+        { sourceId: 12, targetId: null }
+      ])
+    })
+
+    it('should count part days toward the countdown', () => {
+      expect(daysUntil(new Date('2026-06-11T00:00:00Z'), now)).toBe(10)
+      expect(daysUntil(new Date('2026-06-01T12:00:01Z'), now)).toBe(1)
+      expect(daysUntil(new Date('2026-05-01T00:00:00Z'), now)).toBe(0)
+    })
+  })
+
+  describe('mapping and retiring', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should save a corrected mapping, name the successor and retire what is left over', async () => {
+      const fromExamId = testData.exam.id
+      const { exam: successor, byCode } = await createSuccessor()
+
+      const proposal = await queries.migrations.getMapping({ fromExamId, toExamId: successor.id })
+      expect(proposal.ok).toBe(true)
+      if (!proposal.ok) return
+      expect(proposal.objectives.map(entry => [entry.label, entry.targetId])).toEqual([
+        ['1.0 Networking Fundamentals', byCode.get('1.0')!.id],
+        ['2.0 Network Operations', byCode.get('2.0')!.id],
+        ['3.0 Network Security', null]
+      ])
+      expect(proposal.questions.filter(entry => entry.targetId !== null)).toHaveLength(6)
+
+      expect(await queries.migrations.retireUnmapped({ examId: fromExamId, actor: moderator(), now }))
+        .toEqual({ ok: false, reason: 'no_successor' })
+      expect(await queries.migrations.saveMapping({
+        fromExamId,
+        toExamId: successor.id,
+        mapping: { objectives: [{ sourceId: testData.questions[0].objectiveId, targetId: testData.questions[1].objectiveId }], questions: [] },
+        actor: moderator()
+      })).toEqual({ ok: false, reason: 'invalid_mapping' })
+
+      const objectives = proposal.objectives.map(({ sourceId, targetId }) => ({
+        sourceId,
+        targetId: targetId ?? byCode.get('4.0')!.id
+      }))
+      const saved = await queries.migrations.saveMapping({
+        fromExamId,
+        toExamId: successor.id,
+        mapping: { objectives, questions: proposal.questions.map(({ sourceId, targetId }) => ({ sourceId, targetId })) },
+        expiresAt: new Date('2026-07-01T00:00:00Z'),
+        actor: moderator(),
+        now
+      })
+      expect(saved).toEqual({ ok: true, mapped: { objectives: 3, questions: 6 }, unmapped: { objectives: 0, questions: 44 } })
+
+      const [retiring] = await dbWrapper.db.select().from(schema.exams).where(eq(schema.exams.id, fromExamId))
+      expect(retiring).toMatchObject({ successorExamId: successor.id, expiresAt: new Date('2026-07-01T00:00:00Z') })
+
+      const reloaded = await queries.migrations.getMapping({ fromExamId, toExamId: successor.id })
+      expect(reloaded.ok && reloaded.objectives[2]).toMatchObject({ targetId: byCode.get('4.0')!.id, origin: 'saved' })
+
+      const retired = await queries.migrations.retireUnmapped({ examId: fromExamId, actor: moderator(), now })
+      expect(retired).toEqual({ ok: true, retired: { objectives: 0, questions: 44 } })
+
+      const active = await dbWrapper.db
+        .select({ id: schema.questions.id })
+        .from(schema.questions)
+        .where(and(eq(schema.questions.examId, fromExamId), eq(schema.questions.isActive, true)))
+      expect(active.map(row => row.id).sort()).toEqual(testData.questions.slice(0, 6).map(question => question.id).sort())
+
+      const audit = await dbWrapper.db.select().from(schema.auditLog).where(eq(schema.auditLog.entityId, String(fromExamId)))
+      expect(audit.map(entry => entry.action)).toEqual(['exam.map_version', 'exam.retire_unmapped'])
+    })
+  })
+
+  describe('learner migration', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should show the countdown and carry answers, schedules and mastery once', async () => {
+      const userId = testData.user.id
+      const examId = testData.exam.id
+      const { exam: successor, byCode, questions } = await createSuccessor()
+      const [q0, q1, q2, q3] = testData.questions
+
+      // q9 has no counterpart; q2's domain moves to 4.0 but the question itself is dropped
+      await dbWrapper.db.insert(schema.userAnswers).values([
+        { userId, questionId: q0.id, selectedAnswer: 'a', isCorrect: true, answeredAt: new Date('2026-05-20T10:00:00Z') },
+        { userId, questionId: q3.id, selectedAnswer: 'a', isCorrect: true, answeredAt: new Date('2026-05-21T10:00:00Z') },
+        { userId, questionId: testData.questions[9].id, selectedAnswer: 'b', isCorrect: false, answeredAt: new Date('2026-05-22T10:00:00Z') },
+        { userId, questionId: q1.id, selectedAnswer: 'a', isCorrect: true, answeredAt: new Date('2026-05-22T10:00:00Z') },
+        { userId, questionId: q2.id, selectedAnswer: 'a', isCorrect: true, answeredAt: new Date('2026-05-23T10:00:00Z') }
+      ])
+      await dbWrapper.db.insert(schema.reviewStates).values({
+        userId,
+        questionId: q0.id,
+        easeFactor: 2.6,
+        intervalDays: 6,
+        repetitions: 2,
+        dueAt: new Date('2026-06-03T10:00:00Z')
+      })
+
+      const before = await queries.migrations.getRetirement({ examId, userId, now })
+      expect(before.ok && before.retirement).toMatchObject({ retiring: false, successor: null, hasProgress: true, canMigrate: false })
+      expect(await queries.migrations.migrateProgress({ examId, userId, now })).toEqual({ ok: false, reason: 'no_successor' })
+
+      const target = (i: number) => questions[i].id
+      await queries.migrations.saveMapping({
+        fromExamId: examId,
+        toExamId: successor.id,
+        mapping: {
+          objectives: [
+            { sourceId: q0.objectiveId, targetId: byCode.get('1.0')!.id },
+            { sourceId: q1.objectiveId, targetId: byCode.get('2.0')!.id },
+            { sourceId: q2.objectiveId, targetId: byCode.get('4.0')!.id }
+          ],
+          questions: [
+            { sourceId: q0.id, targetId: target(0) },
+            { sourceId: q1.id, targetId: target(1) },
+            { sourceId: q2.id, targetId: null },
+            { sourceId: q3.id, targetId: target(3) }
+          ]
+        },
+        expiresAt: new Date('2026-06-11T00:00:00Z'),
+        actor: moderator(),
+        now
+      })
+
+      const status = await queries.migrations.getRetirement({ examId, userId, now })
+      expect(status.ok && status.retirement).toMatchObject({
+        retiring: true,
+        daysRemaining: 10,
+        successor: { id: successor.id, code: 'N10-009', version: '009' },
+        migratedAt: null,
+        canMigrate: true
+      })
+
+      const migrated = await queries.migrations.migrateProgress({ examId, userId, now })
+      expect(migrated).toEqual({ ok: true, toExamId: successor.id, carried: { answers: 3, reviewStates: 1, objectives: 3 } })
+
+      const copies = await dbWrapper.db
+        .select()
+        .from(schema.userAnswers)
+        .innerJoin(schema.questions, eq(schema.userAnswers.questionId, schema.questions.id))
+        .where(eq(schema.questions.examId, successor.id))
+      expect(copies.map(row => [row.user_answers.questionId, row.user_answers.mergedFromQuestionId]).sort()).toEqual(
+        [[target(0), q0.id], [target(1), q1.id], [target(3), q3.id]].sort()
+      )
+
+      const [schedule] = await dbWrapper.db.select().from(schema.reviewStates).where(eq(schema.reviewStates.questionId, target(0)))
+      expect(schedule).toMatchObject({ userId, easeFactor: 2.6, repetitions: 2 })
+
+      // 4.0 has no answers on the new version, so its mastery is the carried estimate from q2
+      const [progress] = await dbWrapper.db
+        .select()
+        .from(schema.userProgress)
+        .where(and(eq(schema.userProgress.userId, userId), eq(schema.userProgress.examId, successor.id)))
+      expect(progress.objectiveMastery?.[String(byCode.get('4.0')!.id)]).toMatchObject({ level: 0.667, questionsAnswered: 1 })
+      expect(Object.keys(progress.objectiveMastery ?? {})).toHaveLength(3)
+
+      const after = await queries.migrations.getRetirement({ examId, userId, now })
+      expect(after.ok && after.retirement).toMatchObject({ migratedAt: now, canMigrate: false })
+      expect(await queries.migrations.migrateProgress({ examId, userId, now })).toEqual({ ok: false, reason: 'already_migrated' })
+    })
+  })
+})
@@ -0,0 +1,257 @@
+// Interactive question test suite
+// Covers drag-and-drop and hotspot authoring validation, grading, partial credit and redaction
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { scoreResponse } from '~/database/utils/grading'
+import {
+  validateQuestionContent,
+  regionContains,
+  redactDiagram,
+  scoreInteractiveAnswer
+} from '~/database/utils/interactive-questions'
+import type { OrderingDiagram, MatchingDiagram, HotspotDiagram } from '~/database/schema/types'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const handshake: OrderingDiagram = {
+  kind: 'ordering',
+  items: [
+    { id: 'syn', text: 'SYN' },
+    { id: 'synack', text: 'SYN-ACK' },
+    { id: 'ack', text: 'ACK' }
+  ],
+  correctOrder: ['syn', 'synack', 'ack'],
+  partialCredit: true
+}
+
+const osiLayers: MatchingDiagram = {
+  kind: 'matching',
+  items: [
+    { id: 'tcp', text: 'TCP' },
+    { id: 'ip', text: 'IP' },
+    { id: 'http', text: 'HTTP' },
+    { id: 'eth', text: 'Ethernet' }
+  ],
+  targets: [
+    { id: 'l2', text: 'Data Link' },
+    { id: 'l3', text: 'Network' },
+    { id: 'l4', text: 'Transport' },
+    { id: 'l7', text: 'Application' }
+  ],
+  correctMatches: { tcp: 'l4', ip: 'l3', http: 'l7', eth: 'l2' }
+}
+
+const rackDiagram: HotspotDiagram = {
+  kind: 'hotspot',
+  width: 800,
+  height: 600,
+  regions: [
+    { id: 'firewall', shape: 'rect', coords: [100, 100, 200, 50], isCorrect: true },
+    { id: 'switch', shape: 'circle', coords: [500, 300, 40], isCorrect: true },
+    { id: 'server', shape: 'polygon', coords: [600, 400, 700, 400, 650, 500], isCorrect: false }
+  ],
+  partialCredit: true
+}
+
+const ordering = (order: string[]) => JSON.stringify({ order })
+const points = (...pts: Array<[number, number]>) => JSON.stringify({ points: pts.map(([x, y]) => ({ x, y })) })
+
+describe('Interactive Questions', () => {
+  describe('validateQuestionContent', () => {
+    it('should accept well-formed drag-and-drop and hotspot questions', () => {
+      expect(validateQuestionContent({ type: 'drag_drop', answers: [], diagramData: handshake })).toEqual([])
+      expect(validateQuestionContent({ type: 'drag_drop', answers: [], diagramData: osiLayers })).toEqual([])
+      expect(validateQuestionContent({
+        type: 'hotspot',
+        answers: [],
+        imageUrl: 'https://cdn.example.com/rack.png',
+        diagramData: rackDiagram
+      })).toEqual([])
+    })
+
+    it('should report an incomplete answer key', () => {
+      const errors = validateQuestionContent({
+        type: 'drag_drop',
+        answers: [],
+        diagramData: {
+          ...osiLayers,
+          correctMatches: { tcp: 'l4', ip: 'l9', http: 'l7' }
+        }
+      })
+
+      expect(errors).toContain('Item ip matches unknown target l9')
+      expect(errors).toContain('Item eth has no correct target')
+      expect(validateQuestionContent({
+        type: 'drag_drop',
+        answers: [],
+        diagramData: { ...handshake, correctOrder: ['syn', 'syn', 'ack'] }
+      })).toEqual(['correctOrder must list every item exactly once'])
+    })
+
+    it('should require an image, a correct region and well-formed shapes for hotspots', () => {
+      const errors = validateQuestionContent({
+        type: 'hotspot',
+        answers: [],
+        diagramData: {
+          ...rackDiagram,
+          regions: [{ id: 'bad', shape: 'circle', coords: [1, 2], isCorrect: false }]
+        }
+      })
+
+      expect(errors).toEqual([
+        'Hotspot questions need an imageUrl',
+        'At least one region must be correct',
+        'Region bad: a circle needs [cx, cy, r]'
+      ])
+    })
+
+    it('should reject a diagram that does not fit the question type', () => {
+      expect(validateQuestionContent({ type: 'hotspot', answers: [], imageUrl: 'x', diagramData: handshake }))
+        .toEqual(['Hotspot questions need a hotspot diagram'])
+      expect(validateQuestionContent({ type: 'drag_drop', answers: [], diagramData: null })[0]).toMatch(/^diagramData/)
+    })
+
+    it('should check the answer key of choice questions', () => {
+      expect(validateQuestionContent({
+        type: 'multiple_choice',
+        answers: [{ id: 'a', text: 'A', isCorrect: true }, { id: 'b', text: 'B', isCorrect: true }]
+      })).toEqual(['Exactly one answer must be correct'])
+    })
+  })
+
+  describe('regionContains', () => {
+    it('should hit-test rectangles, circles and polygons', () => {
+      const [rect, circle, triangle] = rackDiagram.regions
+
+      expect(regionContains(rect, { x: 300, y: 150 })).toBe(true)
+      expect(regionContains(rect, { x: 301, y: 150 })).toBe(false)
+      expect(regionContains(circle, { x: 520, y: 330 })).toBe(true)
+      expect(regionContains(circle, { x: 540, y: 340 })).toBe(false)
+      expect(regionContains(triangle, { x: 650, y: 450 })).toBe(true)
+      expect(regionContains(triangle, { x: 610, y: 490 })).toBe(false)
+    })
+  })
+
+  describe('grading', () => {
+    it('should give partial credit for items in the right place', () => {
+      const question = { type: 'drag_drop' as const, answers: [], diagramData: handshake }
+
+      expect(scoreResponse(question, ordering(['syn', 'synack', 'ack']))).toEqual({ isCorrect: true, credit: 1 })
+      expect(scoreResponse(question, ordering(['syn', 'ack', 'synack']))).toEqual({ isCorrect: false, credit: 0.3333 })
+    })
+
+    it('should be all-or-nothing without partial credit', () => {
+      const matches = JSON.stringify({ matches: { tcp: 'l4', ip: 'l3', http: 'l7', eth: 'l3' } })
+      expect(scoreInteractiveAnswer(osiLayers, matches)).toBe(0)
+      expect(scoreInteractiveAnswer({ ...osiLayers, partialCredit: true }, matches)).toBe(0.75)
+    })
+
+    it('should cancel hotspot hits with clicks outside the correct regions', () => {
+      expect(scoreInteractiveAnswer(rackDiagram, points([150, 120], [500, 300]))).toBe(1)
+      expect(scoreInteractiveAnswer(rackDiagram, points([150, 120]))).toBe(0.5)
+      expect(scoreInteractiveAnswer(rackDiagram, points([150, 120], [650, 450]))).toBe(0)
+      // Clicking the same region twice only counts once
+      expect(scoreInteractiveAnswer(rackDiagram, points([150, 120], [160, 130]))).toBe(0.5)
+    })
+
+    it('should score malformed payloads as wrong', () => {
+      const question = { type: 'hotspot' as const, answers: [], diagramData: rackDiagram }
+
+      expect(scoreResponse(question, 'a')).toEqual({ isCorrect: false, credit: 0 })
+      expect(scoreResponse(question, ordering(['syn']))).toEqual({ isCorrect: false, credit: 0 })
+      expect(scoreResponse({ type: 'hotspot', answers: [] }, points([150, 120]))).toEqual({ isCorrect: false, credit: 0 })
+    })
+  })
+
+  describe('redactDiagram', () => {
+    it('should strip the answer key before delivery', () => {
+      const orderingView = redactDiagram(handshake)
+      expect(orderingView).not.toHaveProperty('correctOrder')
+      expect(orderingView).toMatchObject({ kind: 'ordering' })
+
+      expect(redactDiagram(osiLayers)).not.toHaveProperty('correctMatches')
+      expect(redactDiagram(rackDiagram)).toEqual({ kind: 'hotspot', width: 800, height: 600, maxPoints: 2 })
+      expect(redactDiagram(null)).toBeNull()
+    })
+  })
+
+  describe('authoring and attempts', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    async function createOrderingQuestion() {
+      const created = await queries.questionBank.createQuestion({
+        examId: testData.exam.id,
+        objectiveId: testData.questions[0].objectiveId,
+        text: 'Put the TCP three-way handshake in order',
+        type: 'drag_drop',
+        answers: [],
+        diagramData: handshake
+      })
+      if (!created.ok) throw new Error(created.reason)
+      return created.question
+    }
+
+    it('should refuse to save invalid content', async () => {
+      const created = await queries.questionBank.createQuestion({
+        examId: testData.exam.id,
+        objectiveId: testData.questions[0].objectiveId,
+        text: 'Click the firewall in the rack diagram',
+        type: 'hotspot',
+        answers: [],
+        diagramData: rackDiagram
+      })
+
+      expect(created).toEqual({ ok: false, reason: 'invalid_content', errors: ['Hotspot questions need an imageUrl'] })
+    })
+
+    it('should save new questions as pending review', async () => {
+      const question = await createOrderingQuestion()
+
+      expect(question.reviewStatus).toBe('pending')
+      expect(question.diagramData).toEqual(handshake)
+    })
+
+    it('should deliver redacted diagrams and score partial credit in a test', async () => {
+      const question = await createOrderingQuestion()
+      // New questions are only served once a moderator approves them
+      await queries.questionReview.decide({ questionId: question.id, decision: 'approve', actor: { userId: testData.user.id } })
+      const started = await queries.testAttempts.startAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        questionCount: 100
+      })
+      const attempt = started!.attempt
+      const delivered = started!.questions.find(q => q.id === question.id)!
+
+      expect(delivered.diagramData).not.toHaveProperty('correctOrder')
+
+      await queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: question.id,
+        selectedAnswer: ordering(['syn', 'ack', 'synack']),
+        timeSpentSeconds: 40
+      })
+      const submitted = await queries.testAttempts.submitAttempt(attempt.id, testData.user.id)
+      if (!submitted.ok) throw new Error(submitted.reason)
+
+      // One third of one question out of the whole bank
+      expect(submitted.attempt.correctCount).toBe(0)
+      expect(submitted.attempt.incorrectCount).toBe(1)
+      expect(submitted.attempt.score).toBe(Number((0.3333 / attempt.questionIds.length).toFixed(4)))
+
+      const review = await queries.testAttempts.getReview(attempt.id, testData.user.id)
+      if (!review.ok) throw new Error(review.reason)
+      const reviewed = review.questions.find(q => q.id === question.id)!
+      expect(reviewed.credit).toBe(0.3333)
+      expect(reviewed.diagramData).toEqual(handshake)
+    })
+  })
+})
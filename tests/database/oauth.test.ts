@@ -0,0 +1,199 @@
+// OAuth sign-in test suite
+// Runs the authorization code flow against the in-process identity provider: first sign-in, state and ID token checks, and account linking,
+// plus the HTTP provider's JWKS cache
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { eq, isNull } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { createKeyring } from '~/database/utils/auth-tokens'
+import { LocalIdentityProvider, verifyIdToken, type IdentityProvider } from '~/database/utils/oauth'
+import { HttpIdentityProvider } from '~/server/utils/oauth-provider'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const keyring = createKeyring({ jwtKeys: 'test:test-secret-test-secret-test-secret' })
+const idp = new LocalIdentityProvider()
+
+// Follow the provider's redirect back to the callback the way a browser would
+async function signIn(provider: IdentityProvider, options: { linkUserId?: number; redirectTo?: string } = {}) {
+  const { authorizationUrl, state } = await queries.oauth.startAuthorization({ idp: provider, ...options })
+  const callback = new URL(authorizationUrl)
+  expect(callback.searchParams.get('state')).toBe(state)
+
+  return queries.oauth.completeAuthorization({
+    idp: provider,
+    state,
+    code: callback.searchParams.get('code')!,
+    keyring
+  })
+}
+
+describe('OAuth Sign-in', () => {
+  beforeEach(async () => {
+    testData = await seedTestData(dbWrapper.db)
+    queries = createQueries(dbWrapper.db)
+  })
+
+  it('should create an account on first sign-in and find it again on the next', async () => {
+    idp.signInAs({ sub: 'google-1', email: 'New.Learner@example.com', name: 'New Learner' })
+
+    const first = await signIn(idp, { redirectTo: '/exams' })
+    expect(first.ok).toBe(true)
+    if (!first.ok) return
+    expect(first).toMatchObject({ isNewUser: true, linked: false, redirectTo: '/exams' })
+    expect(first.user).toMatchObject({ email: 'New.Learner@example.com', name: 'New Learner', emailVerified: true })
+
+    const second = await signIn(idp)
+    expect(second).toMatchObject({ ok: true, isNewUser: false, linked: false, redirectTo: null })
+    if (!second.ok) return
+    expect(second.user.id).toBe(first.user.id)
+
+    const identities = await dbWrapper.db.select().from(schema.userIdentities)
+      .where(eq(schema.userIdentities.userId, first.user.id))
+    expect(identities).toHaveLength(1)
+    expect(identities[0]).toMatchObject({ provider: 'google', subject: 'google-1' })
+
+    // Unverified addresses never create accounts
+    idp.signInAs({ sub: 'google-2', email: 'unverified@example.com', emailVerified: false })
+    expect(await signIn(idp)).toEqual({ ok: false, reason: 'email_unverified', redirectTo: null })
+  })
+
+  it('should accept each state once and only before it expires', async () => {
+    idp.signInAs({ sub: 'google-1', email: 'learner@example.com' })
+
+    const { authorizationUrl, state } = await queries.oauth.startAuthorization({ idp })
+    const code = new URL(authorizationUrl).searchParams.get('code')!
+
+    // The state is stored hashed
+    const [stored] = await dbWrapper.db.select().from(schema.oauthStates)
+    expect(stored.stateHash).not.toBe(state)
+
+    const late = new Date(Date.now() + 11 * 60 * 1000)
+    expect(await queries.oauth.completeAuthorization({ idp, state, code, keyring, now: late }))
+      .toEqual({ ok: false, reason: 'invalid_state', redirectTo: null })
+
+    expect((await queries.oauth.completeAuthorization({ idp, state, code, keyring })).ok).toBe(true)
+    expect(await queries.oauth.completeAuthorization({ idp, state, code, keyring }))
+      .toEqual({ ok: false, reason: 'invalid_state', redirectTo: null })
+    expect(await queries.oauth.completeAuthorization({ idp, state: 'forged', code, keyring }))
+      .toEqual({ ok: false, reason: 'invalid_state', redirectTo: null })
+
+    // A code already redeemed is refused by the provider
+    const retry = await queries.oauth.startAuthorization({ idp })
+    expect(await queries.oauth.completeAuthorization({ idp, state: retry.state, code, keyring }))
+      .toEqual({ ok: false, reason: 'exchange_failed', redirectTo: null })
+  })
+
+  it('should reject ID tokens signed by another key, for another client or with another nonce', async () => {
+    idp.signInAs({ sub: 'google-1', email: 'learner@example.com' })
+
+    // An impostor provider returning tokens under the real provider's key id
+    const impostor = new LocalIdentityProvider()
+    impostor.signInAs({ sub: 'google-1', email: 'learner@example.com' })
+    const trustsRealKeys: IdentityProvider = {
+      provider: 'google',
+      clientId: impostor.clientId,
+      issuers: impostor.issuers,
+      authorizationUrl: params => impostor.authorizationUrl(params),
+      exchangeCode: params => impostor.exchangeCode(params),
+      signingKeys: () => idp.signingKeys()
+    }
+    expect(await signIn(trustsRealKeys)).toMatchObject({ ok: false, reason: 'invalid_id_token' })
+
+    // Check a genuine token field by field
+    const { authorizationUrl } = await queries.oauth.startAuthorization({ idp })
+    const [pending] = await dbWrapper.db.select().from(schema.oauthStates).where(isNull(schema.oauthStates.consumedAt))
+    const { idToken } = await idp.exchangeCode({
+      code: new URL(authorizationUrl).searchParams.get('code')!,
+      codeVerifier: pending.codeVerifier
+    })
+    const nonce = pending.nonce
+    const expected = { keys: await idp.signingKeys(), clientId: idp.clientId, issuers: idp.issuers, nonce }
+
+    expect(await verifyIdToken(idToken, expected)).toMatchObject({ sub: 'google-1', emailVerified: true })
+    expect(await verifyIdToken(idToken, { ...expected, nonce: 'replayed' })).toBeNull()
+    expect(await verifyIdToken(idToken, { ...expected, clientId: 'another-app' })).toBeNull()
+    expect(await verifyIdToken(idToken, { ...expected, issuers: ['https://accounts.google.com'] })).toBeNull()
+    expect(await verifyIdToken(idToken, { ...expected, now: new Date(Date.now() + 10 * 60 * 1000) })).toBeNull()
+  })
+
+  it('should link Google to an existing account and keep one identity per account', async () => {
+    const userId = testData.user.id
+
+    // Linking from the signed-in account, even under a different Google address
+    idp.signInAs({ sub: 'google-owner', email: 'owner.personal@gmail.com' })
+    const linked = await signIn(idp, { linkUserId: userId, redirectTo: '/settings' })
+    expect(linked).toMatchObject({ ok: true, isNewUser: false, linked: true, redirectTo: '/settings' })
+    if (!linked.ok) return
+    expect(linked.user.id).toBe(userId)
+
+    const audit = await dbWrapper.db.select().from(schema.auditLog).where(eq(schema.auditLog.action, 'auth.link_identity'))
+    expect(audit).toHaveLength(1)
+    expect(audit[0]).toMatchObject({ userId, metadata: { initiatedBy: 'account' } })
+
+    // That Google identity now signs in to the same account
+    expect(await signIn(idp)).toMatchObject({ ok: true, linked: false, user: { id: userId } })
+
+    // ...and cannot be attached to anyone else
+    const [other] = await dbWrapper.db.insert(schema.users).values({
+      email: 'other@example.com',
+      name: 'Other Learner',
+      emailVerified: true
+    }).returning({ id: schema.users.id })
+    expect(await signIn(idp, { linkUserId: other.id })).toMatchObject({ ok: false, reason: 'identity_in_use' })
+
+    // A verified account with the same email is joined on first Google sign-in
+    idp.signInAs({ sub: 'google-other', email: 'OTHER@example.com' })
+    expect(await signIn(idp)).toMatchObject({ ok: true, isNewUser: false, linked: true, user: { id: other.id } })
+
+    // An unverified one must sign in with its password and link from there
+    await dbWrapper.db.insert(schema.users).values({ email: 'pending@example.com', name: 'Pending', emailVerified: false })
+    idp.signInAs({ sub: 'google-pending', email: 'pending@example.com' })
+    expect(await signIn(idp)).toMatchObject({ ok: false, reason: 'link_required' })
+  })
+})
+
+describe('HttpIdentityProvider', () => {
+  const jwks = vi.fn()
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-06-01T10:00:00Z') })
+    vi.stubGlobal('$fetch', jwks)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('should refetch the JWKS for an unknown key id, at most once a minute', async () => {
+    const provider = new HttpIdentityProvider('client', 'secret', 'https://app.test/callback', {
+      authorizationEndpoint: 'https://idp.test/authorize',
+      tokenEndpoint: 'https://idp.test/token',
+      jwksUri: 'https://idp.test/jwks',
+      issuers: ['https://idp.test']
+    })
+    jwks
+      .mockResolvedValueOnce({ keys: [{ kid: 'old' }] })
+      .mockResolvedValueOnce({ keys: [{ kid: 'old' }, { kid: 'rotated' }] })
+
+    expect(await provider.signingKeys('old')).toEqual([{ kid: 'old' }])
+
+    // Fetched moments ago: an unknown id is not worth another request yet
+    expect(await provider.signingKeys('rotated')).toEqual([{ kid: 'old' }])
+    expect(jwks).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(2 * 60 * 1000)
+    expect(await provider.signingKeys('old')).toEqual([{ kid: 'old' }])
+    expect(jwks).toHaveBeenCalledTimes(1)
+
+    expect(await provider.signingKeys('rotated')).toEqual([{ kid: 'old' }, { kid: 'rotated' }])
+    expect(await provider.signingKeys('unknown')).toHaveLength(2)
+    expect(jwks).toHaveBeenCalledTimes(2)
+    expect(jwks).toHaveBeenCalledWith('https://idp.test/jwks')
+  })
+})
@@ -0,0 +1,140 @@
+// Objective tree test suite
+// Covers nesting and ordering, rolled-up counts and mastery, coverage gaps and descendant expansion in study queries
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq, inArray } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData, createTestObjective } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { buildObjectiveTree, expandDescendants } from '~/database/utils/objective-tree'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const objective = (id: number, code: string, parentId: number | null, sortOrder: number | null = null) => ({
+  id,
+  code,
+  name: `Objective ${code}`,
+  description: null,
+  weight: null,
+  questionPercentage: null,
+  parentId,
+  sortOrder
+})
+
+// 1.0 → 1.1 → 1.1.a and 1.2, so the seeded 1.0 questions can be spread over the subtree
+async function nestUnderFirstDomain() {
+  const examId = testData.exam.id
+  const byCode = async () => new Map(
+    (await dbWrapper.db.select().from(schema.objectives).where(eq(schema.objectives.examId, examId))).map(row => [row.code, row])
+  )
+
+  const domain = (await byCode()).get('1.0')!
+  await dbWrapper.db.insert(schema.objectives).values([
+    createTestObjective(examId, { code: '1.1', name: 'OSI model', parentId: domain.id, sortOrder: 1 }),
+    createTestObjective(examId, { code: '1.2', name: 'Network topologies', parentId: domain.id, sortOrder: 2 })
+  ])
+  const sub1 = (await byCode()).get('1.1')!
+  await dbWrapper.db.insert(schema.objectives).values([
+    createTestObjective(examId, { code: '1.1.a', name: 'Encapsulation', parentId: sub1.id })
+  ])
+  const nested = await byCode()
+  const sub2 = nested.get('1.2')!
+  const leaf = nested.get('1.1.a')!
+
+  // Seeded questions cycle through the three domains, so 0, 3 and 6 all sit on 1.0
+  const [q0, q3, q6] = [0, 3, 6].map(i => testData.questions[i])
+  await dbWrapper.db.update(schema.questions).set({ objectiveId: leaf.id }).where(inArray(schema.questions.id, [q0.id, q3.id]))
+  await dbWrapper.db.update(schema.questions).set({ objectiveId: sub2.id }).where(inArray(schema.questions.id, [q6.id]))
+
+  return { domain, sub1, sub2, leaf, onLeaf: [q0, q3], onSub2: q6 }
+}
+
+describe('Objective Tree', () => {
+  describe('buildObjectiveTree', () => {
+    it('should nest in sort order and roll question counts up to the root', () => {
+      const objectives = [
+        objective(4, '1.10', 1),
+        objective(2, '1.2', 1),
+        objective(1, '1.0', null),
+        objective(3, '1.1', 1, 0),
+        objective(5, '1.1.a', 3),
+        objective(6, '9.9', 99) // parent inactive or gone
+      ]
+      const { tree, gaps } = buildObjectiveTree(objectives, new Map([[1, 3], [2, 12], [4, 10], [5, 4]]))
+
+      expect(tree.map(node => node.code)).toEqual(['1.0', '9.9'])
+      expect(tree[0].children.map(node => [node.code, node.depth])).toEqual([['1.1', 1], ['1.2', 1], ['1.10', 1]])
+      expect(tree[0].children[0].children[0]).toMatchObject({ code: '1.1.a', depth: 2, questionCount: 4, totalQuestionCount: 4 })
+      expect(tree[0]).toMatchObject({ questionCount: 3, totalQuestionCount: 29, mastery: null })
+      expect(gaps).toEqual([
+        { objectiveId: 5, code: '1.1.a', name: 'Objective 1.1.a', approvedQuestions: 4, shortBy: 6 },
+        { objectiveId: 6, code: '9.9', name: 'Objective 9.9', approvedQuestions: 0, shortBy: 10 }
+      ])
+    })
+
+    it('should expand parents to every descendant', () => {
+      const objectives = [objective(1, '1.0', null), objective(2, '1.1', 1), objective(3, '1.1.a', 2), objective(4, '2.0', null)]
+      expect(expandDescendants(objectives, [1]).sort()).toEqual([1, 2, 3])
+      expect(expandDescendants(objectives, [2, 4]).sort()).toEqual([2, 3, 4])
+      expect(expandDescendants(objectives, [42])).toEqual([42])
+    })
+  })
+
+  describe('getTree', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should report counts, rolled-up mastery and thin leaves', async () => {
+      const { leaf, sub2, onLeaf, onSub2 } = await nestUnderFirstDomain()
+      const userId = testData.user.id
+      await dbWrapper.db.insert(schema.userAnswers).values([
+        ...onLeaf.map(question => ({ userId, questionId: question.id, selectedAnswer: 'a', isCorrect: true })),
+        { userId, questionId: onSub2.id, selectedAnswer: 'b', isCorrect: false }
+      ])
+
+      const result = await queries.objectives.getTree({ examId: testData.exam.id, userId })
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+
+      const [domain] = result.tree
+      expect(result.tree.map(node => node.code)).toEqual(['1.0', '2.0', '3.0'])
+      expect(domain).toMatchObject({ questionCount: 14, totalQuestionCount: 17, mastery: { correct: 2, answered: 3, level: 0.6 } })
+      expect(domain.children[0]).toMatchObject({ code: '1.1', questionCount: 0, totalQuestionCount: 2, mastery: { level: 0.75 } })
+      expect(domain.children[1]).toMatchObject({ code: '1.2', questionCount: 1, mastery: { correct: 0, answered: 1 } })
+      expect(result.tree[1].mastery).toBeNull()
+
+      expect(result.gaps).toEqual([
+        expect.objectContaining({ objectiveId: leaf.id, approvedQuestions: 2, shortBy: 8 }),
+        expect.objectContaining({ objectiveId: sub2.id, approvedQuestions: 1, shortBy: 9 })
+      ])
+
+      const anonymous = await queries.objectives.getTree({ examId: testData.exam.id })
+      expect(anonymous.ok && anonymous.tree[0].mastery).toBeNull()
+      expect(await queries.objectives.getTree({ examId: 9999 })).toEqual({ ok: false, reason: 'exam_not_found' })
+    })
+
+    it('should serve a parent objective as all of its descendants in study sessions', async () => {
+      const { sub1, domain, onLeaf } = await nestUnderFirstDomain()
+
+      const fromSub = await queries.study.getStudyQuestions({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        objectiveIds: [sub1.id],
+        limit: 10
+      })
+      expect(fromSub.map(question => question.id).sort()).toEqual(onLeaf.map(question => question.id).sort())
+
+      const fromDomain = await queries.study.getStudyQuestions({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        objectiveIds: [domain.id],
+        limit: 50
+      })
+      expect(fromDomain).toHaveLength(17)
+    })
+  })
+})
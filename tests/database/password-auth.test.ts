@@ -0,0 +1,173 @@
+// Email/password account test suite
+// Covers password hashing, sign-up with email verification, password reset and rate limiting
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { createKeyring } from '~/database/utils/auth-tokens'
+import { hashPassword, verifyPassword, passwordNeedsRehash } from '~/database/utils/passwords'
+import { MemoryMailTransport, type MailMessage } from '~/database/utils/mail'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+let mailer: MemoryMailTransport
+
+const keyring = createKeyring({ jwtKeys: 'test:test-secret-test-secret-test-secret' })
+const appUrl = 'https://pingtopass.test'
+const client = { ipAddress: '203.0.113.7', userAgent: 'vitest' }
+
+const linkToken = (message: MailMessage | undefined) => /token=([\w-]+)/.exec(message?.text ?? '')?.[1] ?? ''
+
+describe('Password Auth', () => {
+  describe('password hashing', () => {
+    it('should hash with scrypt, a fresh salt each time, and recognise outdated settings', async () => {
+      const first = await hashPassword('correct horse battery')
+      const second = await hashPassword('correct horse battery')
+
+      expect(first).toMatch(/^scrypt\$ln=14,r=8,p=5\$[\w-]+\$[\w-]+$/)
+      expect(first).not.toBe(second)
+      expect(await verifyPassword('correct horse battery', first)).toBe(true)
+      expect(await verifyPassword('correct horse battery!', first)).toBe(false)
+      expect(await verifyPassword('correct horse battery', 'not-a-hash')).toBe(false)
+
+      expect(passwordNeedsRehash(first)).toBe(false)
+      expect(passwordNeedsRehash(first.replace('ln=14', 'ln=12'))).toBe(true)
+    })
+  })
+
+  describe('queries', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+      mailer = new MemoryMailTransport()
+    })
+
+    it('should sign up, hold sign-in until the address is verified, then sign in', async () => {
+      const signup = await queries.passwords.signup({
+        email: ' New.Learner@Example.com ',
+        password: 'correct horse battery',
+        name: 'New Learner',
+        mailer,
+        appUrl,
+        client
+      })
+      expect(signup).toEqual({ ok: true, created: true })
+
+      const [user] = await dbWrapper.db.select().from(schema.users).where(eq(schema.users.email, 'new.learner@example.com'))
+      expect(user).toMatchObject({ provider: 'email', emailVerified: false })
+      expect(user.passwordHash).toMatch(/^scrypt\$/)
+
+      const mail = mailer.latest('new.learner@example.com')
+      expect(mail?.text).toContain(`${appUrl}/verify-email?token=`)
+
+      const credentials = { email: 'new.learner@example.com', password: 'correct horse battery', keyring, client }
+      expect(await queries.passwords.login(credentials)).toEqual({ ok: false, reason: 'email_unverified' })
+
+      expect(await queries.passwords.verifyEmail({ token: linkToken(mail) })).toEqual({ ok: true, userId: user.id })
+      expect(await queries.passwords.verifyEmail({ token: linkToken(mail) })).toEqual({ ok: false, reason: 'invalid' })
+
+      const login = await queries.passwords.login({ ...credentials, email: 'NEW.learner@example.com' })
+      expect(login).toMatchObject({ ok: true, user: { id: user.id, emailVerified: true } })
+
+      // Signing up again with the address mails its owner instead of revealing anything
+      expect(await queries.passwords.signup({ email: 'new.learner@example.com', password: 'another password', mailer, appUrl }))
+        .toEqual({ ok: true, created: false })
+      expect(mailer.latest('new.learner@example.com')?.subject).toBe('You already have a PingToPass account')
+      expect(await dbWrapper.db.select().from(schema.users).where(eq(schema.users.email, 'new.learner@example.com'))).toHaveLength(1)
+    })
+
+    it('should expire verification links and supersede them when a new one is sent', async () => {
+      await queries.passwords.signup({ email: 'slow@example.com', password: 'correct horse battery', mailer, appUrl })
+      const first = linkToken(mailer.latest('slow@example.com'))
+
+      const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+      expect(await queries.passwords.verifyEmail({ token: first, now: nextWeek })).toEqual({ ok: false, reason: 'expired' })
+
+      expect(await queries.passwords.resendVerification({ email: 'slow@example.com', mailer, appUrl })).toEqual({ ok: true })
+      const second = linkToken(mailer.latest('slow@example.com'))
+      expect(second).not.toBe(first)
+      expect(await queries.passwords.verifyEmail({ token: first })).toEqual({ ok: false, reason: 'invalid' })
+      expect(await queries.passwords.verifyEmail({ token: second })).toMatchObject({ ok: true })
+
+      // Nothing is sent for verified or unknown addresses
+      const sent = mailer.outbox.length
+      await queries.passwords.resendVerification({ email: 'slow@example.com', mailer, appUrl })
+      await queries.passwords.resendVerification({ email: 'nobody@example.com', mailer, appUrl })
+      expect(mailer.outbox).toHaveLength(sent)
+    })
+
+    it('should reset the password once per link and sign the account out everywhere', async () => {
+      const userId = testData.user.id
+      const [user] = await dbWrapper.db.select().from(schema.users).where(eq(schema.users.id, userId))
+      const session = await queries.auth.issueTokens({ userId, keyring })
+      if (!session.ok) throw new Error('tokens were not issued')
+
+      expect(await queries.passwords.requestPasswordReset({ email: 'nobody@example.com', mailer, appUrl })).toEqual({ ok: true })
+      expect(mailer.outbox).toHaveLength(0)
+
+      expect(await queries.passwords.requestPasswordReset({ email: user.email, mailer, appUrl, client })).toEqual({ ok: true })
+      const token = linkToken(mailer.latest(user.email))
+      expect(mailer.latest(user.email)?.text).toContain(`${appUrl}/reset-password?token=`)
+
+      expect(await queries.passwords.resetPassword({ token, password: 'a brand new password', client })).toEqual({ ok: true, userId })
+      expect(await queries.passwords.resetPassword({ token, password: 'attacker password!!' })).toEqual({ ok: false, reason: 'invalid' })
+
+      expect(await queries.auth.refreshTokens({ refreshToken: session.tokens.refreshToken, keyring }))
+        .toEqual({ ok: false, reason: 'invalid' })
+      expect(await queries.passwords.login({ email: user.email, password: 'a brand new password', keyring }))
+        .toMatchObject({ ok: true, user: { id: userId } })
+
+      const audit = await dbWrapper.db.select().from(schema.auditLog).where(eq(schema.auditLog.action, 'auth.password_reset'))
+      expect(audit).toHaveLength(1)
+      expect(audit[0]).toMatchObject({ userId, ipAddress: client.ipAddress })
+
+      // Reset links last an hour
+      await queries.passwords.requestPasswordReset({ email: user.email, mailer, appUrl })
+      const later = new Date(Date.now() + 2 * 60 * 60 * 1000)
+      expect(await queries.passwords.resetPassword({ token: linkToken(mailer.latest(user.email)), password: 'too late password', now: later }))
+        .toEqual({ ok: false, reason: 'expired' })
+    })
+
+    it('should rate limit failed sign-ins per email and per IP', async () => {
+      const [user] = await dbWrapper.db.select().from(schema.users).where(eq(schema.users.id, testData.user.id))
+      await queries.passwords.requestPasswordReset({ email: user.email, mailer, appUrl })
+      await queries.passwords.resetPassword({ token: linkToken(mailer.latest(user.email)), password: 'the right password' })
+
+      const now = new Date()
+      for (let attempt = 0; attempt < 5; attempt++) {
+        expect(await queries.passwords.login({ email: user.email, password: 'wrong password', keyring, client, now }))
+          .toEqual({ ok: false, reason: 'invalid_credentials' })
+      }
+
+      // Locked even with the right password until the window passes
+      const locked = await queries.passwords.login({ email: user.email, password: 'the right password', keyring, client, now })
+      expect(locked).toEqual({ ok: false, reason: 'rate_limited', retryAfterSeconds: 15 * 60 })
+
+      const afterWindow = new Date(now.getTime() + 16 * 60 * 1000)
+      expect(await queries.passwords.login({ email: user.email, password: 'the right password', keyring, client, now: afterWindow }))
+        .toMatchObject({ ok: true })
+
+      // Spraying many addresses from one IP hits the IP limit
+      const sprayer = { ipAddress: '198.51.100.9' }
+      await dbWrapper.db.insert(schema.authAttempts).values(Array.from({ length: 20 }, (_, attempt) => ({
+        action: 'login' as const,
+        email: `target${attempt}@example.com`,
+        ipAddress: sprayer.ipAddress,
+        succeeded: false,
+        createdAt: now
+      })))
+      expect(await queries.passwords.login({ email: 'fresh@example.com', password: 'guess', keyring, client: sprayer, now }))
+        .toMatchObject({ ok: false, reason: 'rate_limited' })
+
+      // Mail-sending endpoints are limited per address whether or not it has an account
+      for (let attempt = 0; attempt < 3; attempt++) {
+        expect(await queries.passwords.requestPasswordReset({ email: 'nobody@example.com', mailer, appUrl, now })).toEqual({ ok: true })
+      }
+      expect(await queries.passwords.requestPasswordReset({ email: 'nobody@example.com', mailer, appUrl, now }))
+        .toMatchObject({ ok: false, reason: 'rate_limited' })
+    })
+  })
+})
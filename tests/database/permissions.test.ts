@@ -0,0 +1,83 @@
+// Permission resolution test suite
+// Covers role permission sets, per-user grants, the permissions carried by an authenticated user,
+// and that every admin and monitoring route declares a policy
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { createKeyring } from '~/database/utils/auth-tokens'
+import { PERMISSIONS, hasPermission, resolvePermissions } from '~/database/utils/permissions'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const keyring = createKeyring({ jwtKeys: 'test:test-secret-test-secret-test-secret' })
+
+const routeFiles = (directory: string): string[] => readdirSync(directory, { withFileTypes: true })
+  .flatMap(entry => entry.isDirectory() ? routeFiles(join(directory, entry.name)) : [join(directory, entry.name)])
+
+describe('Permissions', () => {
+  describe('resolvePermissions', () => {
+    it('should combine the role set with known per-user grants', () => {
+      expect(resolvePermissions('user', [])).toEqual([])
+      expect(resolvePermissions('admin', [])).toEqual([...PERMISSIONS])
+      expect(resolvePermissions('moderator', [])).toContain('questions:review')
+      expect(resolvePermissions('moderator', [])).not.toContain('monitoring:read')
+
+      // Grants add to the role, unknown names are dropped, and order follows the catalog
+      expect(resolvePermissions('user', ['monitoring:read', 'questions:export', 'billing:refund']))
+        .toEqual(['questions:export', 'monitoring:read'])
+      expect(resolvePermissions(null, null)).toEqual([])
+
+      expect(hasPermission({ permissions: ['questions:review'] }, 'questions:review')).toBe(true)
+      expect(hasPermission({ permissions: ['questions:review'] }, 'exams:migrate')).toBe(false)
+      expect(hasPermission(null, 'questions:review')).toBe(false)
+    })
+  })
+
+  describe('authenticated users', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should carry effective permissions, picking up role and grant changes on the next request', async () => {
+      const userId = testData.user.id
+      const issued = await queries.auth.issueTokens({ userId, keyring })
+      if (!issued.ok) throw new Error('tokens were not issued')
+      const { accessToken } = issued.tokens
+      expect(issued.user.permissions).toEqual([])
+
+      await dbWrapper.db.update(schema.users)
+        .set({ role: 'moderator', permissions: ['monitoring:read'] })
+        .where(eq(schema.users.id, userId))
+
+      const authenticated = await queries.auth.authenticate({ accessToken, keyring })
+      if (!authenticated.ok) throw new Error('not authenticated')
+      expect(authenticated.user.role).toBe('moderator')
+      expect(authenticated.user.permissions).toEqual(resolvePermissions('moderator', ['monitoring:read']))
+      expect(authenticated.user.permissions).toContain('monitoring:read')
+    })
+  })
+
+  describe('route policies', () => {
+    it('should protect every admin and monitoring route with a permission', () => {
+      const root = join(__dirname, '../..')
+      const protectedRoutes = [
+        ...routeFiles(join(root, 'server/api/admin')),
+        ...routeFiles(join(root, 'pingtopass-nuxt/server/api/monitoring'))
+      ]
+      expect(protectedRoutes.length).toBeGreaterThan(0)
+
+      const unprotected = protectedRoutes
+        .filter(file => !/export default defineProtectedHandler\(\{ permission: '[a-z_]+:[a-z_]+' \}/.test(readFileSync(file, 'utf8')))
+        .map(file => relative(root, file))
+      expect(unprotected).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,154 @@
+// Prompt registry and evaluation harness test suite
+// Covers template lookup, variable checks, output parsing and recorded-response replays
+
+import { describe, it, expect } from 'vitest'
+import { ZodError } from 'zod'
+import {
+  getPrompt,
+  listPrompts,
+  renderPrompt,
+  parsePromptOutput,
+  PROMPT_REGISTRY,
+  type PromptProvider,
+  type PromptRequest
+} from '~/database/utils/prompts'
+import {
+  evaluatePrompts,
+  RecordedResponseProvider,
+  RecordingProvider,
+  recordingKey,
+  type EvaluationCase
+} from '~/database/utils/prompt-evaluation'
+
+const brief = {
+  examCode: 'N10-008',
+  examName: 'CompTIA Network+',
+  objectiveCode: '1.1',
+  objectiveName: 'OSI model layers',
+  count: 2,
+  difficulty: 2
+}
+
+const question = (text: string, correct: string) => ({
+  text,
+  answers: ['Layer 2', 'Layer 3', 'Layer 4', 'Layer 7'].map(answer => ({ text: answer, isCorrect: answer === correct })),
+  explanation: `${correct} is right.`
+})
+
+// Stands in for a live model: answers per template version
+function scriptedProvider(replies: Record<string, string>): PromptProvider {
+  return {
+    model: 'qwen/qwen2.5-7b-instruct',
+    async complete(request: PromptRequest) {
+      return { text: replies[request.templateId], model: this.model, promptTokens: 500, completionTokens: 1500 }
+    }
+  }
+}
+
+describe('Prompt Registry', () => {
+  it('should resolve defaults, bare versions and template IDs', () => {
+    expect(getPrompt('question_generation')?.version).toBe('v1')
+    expect(getPrompt('question_generation', 'v2')?.version).toBe('v2')
+    expect(getPrompt('question_generation', 'question-gen-v2')?.version).toBe('v2')
+    expect(getPrompt('twitter_reply', 'v9')).toBeNull()
+
+    const prompts = listPrompts()
+    expect(prompts.filter(prompt => prompt.isDefault).map(prompt => prompt.purpose).sort())
+      .toEqual(['explanation_enhancement', 'question_generation', 'twitter_reply'])
+    expect(new Set(prompts.map(prompt => prompt.id)).size).toBe(prompts.length)
+  })
+
+  it('should check variables and render every template', () => {
+    const request = renderPrompt(PROMPT_REGISTRY.question_generation[1], { ...brief, avoid: ['Which layer do routers use?'] })
+    expect(request).toMatchObject({ templateId: 'question-gen-v2', temperature: 0.7, maxTokens: 800 })
+    expect(request.prompt).toContain('Which layer do routers use?')
+
+    expect(() => renderPrompt(PROMPT_REGISTRY.question_generation[0], { ...brief, count: 0 })).toThrow(ZodError)
+
+    const explanation = renderPrompt(PROMPT_REGISTRY.explanation_enhancement[0], {
+      examCode: 'N10-008',
+      objectiveName: 'OSI model layers',
+      question: 'Which layer do routers operate at?',
+      answers: [{ id: 'a', text: 'Layer 2', isCorrect: false }, { id: 'b', text: 'Layer 3', isCorrect: true }]
+    })
+    expect(explanation.prompt).toContain('b) Layer 3 [correct]')
+  })
+
+  it('should parse single replies and enforce template rules', () => {
+    const template = PROMPT_REGISTRY.twitter_reply[0]
+
+    expect(parsePromptOutput(template, '{"reply": "Practice subnetting daily - it pays off.", "confidence": 0.9}'))
+      .toEqual({ items: [{ index: 0, value: { reply: 'Practice subnetting daily - it pays off.', confidence: 0.9 } }], rejected: [] })
+    expect(parsePromptOutput(template, '{"reply": "Try https://example.com #NetPlus", "confidence": 0.9}')?.rejected)
+      .toEqual([{ index: 0, errors: ['Replies must not contain links or hashtags'] }])
+    expect(parsePromptOutput(PROMPT_REGISTRY.question_generation[0], '{"items": []}')).toBeNull()
+  })
+})
+
+describe('Prompt Evaluation', () => {
+  const cases: EvaluationCase[] = [{ id: 'osi', variables: brief }]
+
+  const replies = {
+    'question-gen-v1': JSON.stringify({
+      questions: [question('Which OSI layer do routers operate at?', 'Layer 3'), question('Layer?', 'Layer 2')]
+    }),
+    'question-gen-v2': JSON.stringify({
+      questions: [
+        question('A router forwards packets between subnets. Which OSI layer is this?', 'Layer 3'),
+        question('A switch learns MAC addresses. Which OSI layer does it work at?', 'Layer 2')
+      ]
+    })
+  }
+
+  it('should compare validity, cost and answer-key agreement between versions', async () => {
+    const result = await evaluatePrompts({
+      purpose: 'question_generation',
+      baseline: 'v1',
+      candidate: 'v2',
+      cases,
+      provider: scriptedProvider(replies)
+    })
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const { report } = result
+    expect(report.baseline).toMatchObject({ templateId: 'question-gen-v1', expectedItems: 2, validItems: 1, validityRate: 0.5 })
+    expect(report.candidate).toMatchObject({ templateId: 'question-gen-v2', validItems: 2, validityRate: 1, failedCalls: 0 })
+    // 500 prompt tokens at 4¢/M plus 1500 completion tokens at 10¢/M
+    expect(report.candidate.costCents).toBeCloseTo(0.017)
+    expect(report.answerKeyAgreement).toEqual({ compared: 1, agreed: 1, rate: 1 })
+    expect(report.caseResults[0].baseline.rejected).toEqual([{ index: 1, errors: [expect.stringContaining('text:')] }])
+  })
+
+  it('should replay recordings offline and refuse prompts that were never recorded', async () => {
+    const recorder = new RecordingProvider(scriptedProvider(replies))
+    const live = await evaluatePrompts({ purpose: 'question_generation', baseline: 'v1', candidate: 'v2', cases, provider: recorder })
+
+    const replayed = await evaluatePrompts({
+      purpose: 'question_generation',
+      baseline: 'v1',
+      candidate: 'v2',
+      cases,
+      provider: new RecordedResponseProvider(recorder.recordings)
+    })
+    expect(replayed).toEqual(live)
+
+    // A changed input renders a different prompt, which has no recording
+    const changed = await evaluatePrompts({
+      purpose: 'question_generation',
+      baseline: 'v1',
+      candidate: 'v2',
+      cases: [{ id: 'osi', variables: { ...brief, difficulty: 3 } }],
+      provider: new RecordedResponseProvider(recorder.recordings)
+    })
+    expect(changed.ok && changed.report.baseline).toMatchObject({ failedCalls: 1, validItems: 0 })
+    expect(changed.ok && changed.report.caseResults[0].baseline.error).toMatch(/^No recorded response for question-gen-v1/)
+    expect(changed.ok && changed.report.answerKeyAgreement).toEqual({ compared: 0, agreed: 0, rate: null })
+
+    const key = recordingKey(renderPrompt(PROMPT_REGISTRY.question_generation[0], brief))
+    expect(Object.keys(recorder.recordings['question-gen-v1'])).toEqual([key])
+
+    expect(await evaluatePrompts({ purpose: 'twitter_reply', baseline: 'v1', candidate: 'v2', cases, provider: recorder }))
+      .toEqual({ ok: false, reason: 'prompt_not_found', version: 'v2' })
+  })
+})
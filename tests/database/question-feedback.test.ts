@@ -0,0 +1,189 @@
+// Learner question feedback test suite
+// Covers reports per revision, reports from attempt reviews, the revision threshold, roll-ups in the review queue and closing reports
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData, createTestUser } from './setup'
+import { createQueries } from '~/database/utils/queries'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const moderator = () => ({ userId: testData.user.id, ipAddress: '203.0.113.7', userAgent: 'vitest' })
+
+async function addLearners(count: number) {
+  const learners: schema.User[] = []
+  for (let i = 0; i < count; i++) {
+    const [learner] = await dbWrapper.db
+      .insert(schema.users)
+      .values(createTestUser({ email: `learner${i}@example.com` }))
+      .returning()
+    learners.push(learner)
+  }
+  return learners
+}
+
+describe('Question Feedback', () => {
+  beforeEach(async () => {
+    testData = await seedTestData(dbWrapper.db)
+    queries = createQueries(dbWrapper.db)
+  })
+
+  describe('submitFeedback', () => {
+    it('should keep one report per learner and revision', async () => {
+      const question = testData.questions[0]
+
+      const first = await queries.feedback.submitFeedback({ questionId: question.id, userId: testData.user.id, reason: 'typo' })
+      const again = await queries.feedback.submitFeedback({
+        questionId: question.id,
+        userId: testData.user.id,
+        reason: 'wrong_key',
+        comment: '  The mask in a is for a /24  '
+      })
+
+      expect(first.ok && again.ok).toBe(true)
+      if (!first.ok || !again.ok) return
+      expect(again.report).toMatchObject({ id: first.report.id, reason: 'wrong_key', comment: 'The mask in a is for a /24', status: 'open' })
+      expect(again.rollup).toEqual({ open: 1, byReason: { wrong_key: 1, ambiguous: 0, outdated: 0, typo: 0 } })
+
+      // A new revision is a new question to report on
+      await queries.questionReview.editQuestion({ questionId: question.id, changes: { text: 'Which mask does a /24 network use?' }, actor: moderator() })
+      const revised = await queries.feedback.submitFeedback({ questionId: question.id, userId: testData.user.id, reason: 'typo' })
+      expect(revised.ok && revised.report.id).not.toBe(first.report.id)
+      expect(revised.ok && revised.report.questionRevisionId).not.toBe(first.report.questionRevisionId)
+
+      expect(await queries.feedback.submitFeedback({ questionId: 99999, userId: testData.user.id, reason: 'typo' }))
+        .toEqual({ ok: false, reason: 'not_found' })
+    })
+
+    it('should send an approved question back for revision at the threshold', async () => {
+      const question = testData.questions[0]
+      const learners = await addLearners(3)
+      const now = new Date('2026-06-01T10:00:00Z')
+
+      const reasons = ['wrong_key', 'wrong_key', 'ambiguous'] as const
+      const results = []
+      for (const [i, learner] of learners.entries()) {
+        results.push(await queries.feedback.submitFeedback({
+          questionId: question.id,
+          userId: learner.id,
+          reason: reasons[i],
+          threshold: 3,
+          client: { sessionId: `session-${i}`, ipAddress: '198.51.100.20', userAgent: 'vitest' },
+          now
+        }))
+      }
+
+      expect(results.map(result => result.ok && result.sentForRevision)).toEqual([false, false, true])
+
+      const [updated] = await dbWrapper.db.select().from(schema.questions).where(eq(schema.questions.id, question.id))
+      expect(updated.reviewStatus).toBe('needs_revision')
+
+      const item = await queries.questionReview.getReviewItem(question.id)
+      expect(item.ok).toBe(true)
+      if (!item.ok) return
+      expect(item.comments).toEqual([
+        expect.objectContaining({ userId: null, decision: 'request_revision', body: '3 learner reports: wrong answer key (2), ambiguous (1)' })
+      ])
+      // Audited as the learner whose report reached the threshold
+      expect(item.history[0]).toMatchObject({
+        userId: learners[2].id,
+        sessionId: 'session-2',
+        ipAddress: '198.51.100.20',
+        action: 'question.request_revision',
+        newValues: { reviewStatus: 'needs_revision' },
+        metadata: { source: 'learner_feedback', open: 3 }
+      })
+      expect(item.feedback.reports).toHaveLength(3)
+
+      const queue = await queries.questionReview.getQueue({ statuses: ['needs_revision'] })
+      expect(queue.items).toEqual([expect.objectContaining({ id: question.id, reportCount: 3 })])
+    })
+
+    it('should count a learner reporting several revisions once towards the threshold', async () => {
+      const question = testData.questions[0]
+      const [learner, other] = await addLearners(2)
+
+      await queries.feedback.submitFeedback({ questionId: question.id, userId: learner.id, reason: 'typo', threshold: 2 })
+      await queries.questionReview.editQuestion({ questionId: question.id, changes: { text: 'Which mask does a /24 network use?' }, actor: moderator() })
+      const again = await queries.feedback.submitFeedback({ questionId: question.id, userId: learner.id, reason: 'typo', threshold: 2 })
+
+      // Two open reports, one learner
+      expect(again.ok && again.rollup.open).toBe(2)
+      expect(again.ok && again.sentForRevision).toBe(false)
+
+      const second = await queries.feedback.submitFeedback({ questionId: question.id, userId: other.id, reason: 'ambiguous', threshold: 2 })
+      expect(second.ok && second.sentForRevision).toBe(true)
+    })
+  })
+
+  describe('reports from test attempts', () => {
+    it('should report the revision the attempt showed and keep it out of the current threshold', async () => {
+      const started = await queries.testAttempts.startAttempt({ userId: testData.user.id, examId: testData.exam.id, questionCount: 3 })
+      expect(started).not.toBeNull()
+      if (!started) return
+      const { attempt } = started
+      const questionId = attempt.questionIds[0]
+
+      // Fixed after the attempt, before the learner reviews it
+      await queries.questionReview.editQuestion({ questionId, changes: { text: 'Which mask does a /24 network use?' }, actor: moderator() })
+
+      const fromReview = await queries.feedback.submitFeedback({
+        questionId,
+        userId: testData.user.id,
+        reason: 'typo',
+        testAttemptId: attempt.id,
+        threshold: 1
+      })
+      expect(fromReview.ok && fromReview.report.questionRevisionId).toBe(attempt.questionRevisionIds![0])
+      expect(fromReview.ok && fromReview.sentForRevision).toBe(false)
+
+      const [learner] = await addLearners(1)
+      const current = await queries.feedback.submitFeedback({ questionId, userId: learner.id, reason: 'typo', threshold: 1 })
+      expect(current.ok && current.report.questionRevisionId).not.toBe(attempt.questionRevisionIds![0])
+      expect(current.ok && current.sentForRevision).toBe(true)
+
+      // Someone else's attempt, or a question it did not show
+      expect(await queries.feedback.submitFeedback({ questionId, userId: learner.id, reason: 'typo', testAttemptId: attempt.id }))
+        .toEqual({ ok: false, reason: 'not_found' })
+      const unshown = testData.questions.find(question => !attempt.questionIds.includes(question.id))!
+      expect(await queries.feedback.submitFeedback({ questionId: unshown.id, userId: testData.user.id, reason: 'typo', testAttemptId: attempt.id }))
+        .toEqual({ ok: false, reason: 'not_found' })
+    })
+  })
+
+  describe('closing reports', () => {
+    it('should resolve reports on approval and keep them open on a revision request', async () => {
+      const question = testData.questions[0]
+      const [learner] = await addLearners(1)
+      await queries.feedback.submitFeedback({ questionId: question.id, userId: learner.id, reason: 'outdated' })
+      await dbWrapper.db.update(schema.questions).set({ reviewStatus: 'pending' }).where(eq(schema.questions.id, question.id))
+
+      await queries.questionReview.decide({ questionId: question.id, decision: 'request_revision', comment: 'Update for the new objectives', actor: moderator() })
+      expect((await queries.feedback.getRollup(question.id)).open).toBe(1)
+
+      const approved = await queries.questionReview.decide({ questionId: question.id, decision: 'approve', actor: moderator() })
+      expect(approved.ok).toBe(true)
+
+      const [report] = await dbWrapper.db.select().from(schema.questionFeedback).where(eq(schema.questionFeedback.questionId, question.id))
+      expect(report).toMatchObject({ status: 'resolved', resolvedBy: testData.user.id })
+      expect((await queries.feedback.getRollup(question.id)).open).toBe(0)
+    })
+
+    it('should dismiss open reports without changing the question', async () => {
+      const question = testData.questions[1]
+      const learners = await addLearners(2)
+      for (const learner of learners) {
+        await queries.feedback.submitFeedback({ questionId: question.id, userId: learner.id, reason: 'ambiguous' })
+      }
+
+      expect(await queries.feedback.closeReports({ questionId: question.id, status: 'dismissed', actor: moderator() })).toBe(2)
+      expect(await queries.feedback.closeReports({ questionId: question.id, status: 'dismissed', actor: moderator() })).toBe(0)
+
+      const [unchanged] = await dbWrapper.db.select().from(schema.questions).where(eq(schema.questions.id, question.id))
+      expect(unchanged.reviewStatus).toBe('approved')
+    })
+  })
+})
@@ -0,0 +1,214 @@
+// AI question generation test suite
+// Covers output parsing, the offline provider, pending inserts and the generation log
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import {
+  OfflineQuestionProvider,
+  PROMPT_VERSION,
+  parseGeneratedQuestions,
+  estimateCostCents,
+  type GenerationResponse,
+  type QuestionGenerationProvider
+} from '~/database/utils/question-generation'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+// Replays a canned model reply
+function cannedProvider(reply: Partial<GenerationResponse> | Error): QuestionGenerationProvider {
+  return {
+    model: 'qwen/qwen2.5-7b-instruct',
+    async complete() {
+      if (reply instanceof Error) throw reply
+      return { text: '', model: 'qwen/qwen2.5-7b-instruct', promptTokens: 1000, completionTokens: 2000, ...reply }
+    }
+  }
+}
+
+const answers = (correct: number) => ['IPsec', 'GRE', 'L2TP', 'PPTP'].map((text, position) => ({
+  id: 'x',
+  text,
+  isCorrect: position === correct
+}))
+
+async function logEntries() {
+  return dbWrapper.db.select().from(schema.aiGenerationLog)
+}
+
+describe('Question Generation', () => {
+  beforeEach(async () => {
+    testData = await seedTestData(dbWrapper.db)
+    queries = createQueries(dbWrapper.db)
+  })
+
+  describe('parseGeneratedQuestions', () => {
+    it('should accept fenced JSON, renumber answers and report invalid items by position', () => {
+      const output = '```json\n' + JSON.stringify({
+        questions: [
+          { text: 'Which VPN protocol provides encryption natively?', answers: answers(0), explanation: 'IPsec encrypts.' },
+          { text: 'Which tunnelling protocol lacks encryption?', answers: answers(-1), explanation: 'None marked.' },
+          { text: 'Too short', answers: answers(1), explanation: 'x' },
+          { text: 'Which tunnel uses protocol number 47?', answers: [{ text: 'GRE', is_correct: true }, { text: 'ESP', is_correct: false }], explanation: 'GRE' }
+        ]
+      }) + '\n```'
+
+      const parsed = parseGeneratedQuestions(output)
+
+      expect(parsed?.questions.map(item => item.index)).toEqual([0])
+      expect(parsed?.questions[0].question).toMatchObject({ type: 'multiple_choice', tags: [] })
+      expect(parsed?.questions[0].question.answers.map(answer => answer.id)).toEqual(['a', 'b', 'c', 'd'])
+      expect(parsed?.rejected).toEqual([
+        { index: 1, errors: ['Exactly one answer must be correct'] },
+        { index: 2, errors: [expect.stringContaining('text:')] },
+        { index: 3, errors: expect.arrayContaining([expect.stringContaining('answers.0.isCorrect')]) }
+      ])
+      expect(parseGeneratedQuestions('I cannot help with that')).toBeNull()
+    })
+
+    it('should price known models per million tokens', () => {
+      expect(estimateCostCents('qwen/qwen2.5-7b-instruct', 1_000_000, 500_000)).toBe(9)
+      expect(estimateCostCents('unknown/model', 10, 10)).toBeNull()
+    })
+  })
+
+  describe('generateQuestions', () => {
+    it('should save offline questions as pending AI items and log the usage', async () => {
+      const objectiveId = testData.questions[0].objectiveId
+      const now = new Date('2026-04-01T08:00:00Z')
+
+      const result = await queries.generation.generateQuestions({
+        examId: testData.exam.id,
+        objectiveId,
+        count: 3,
+        difficulty: 2,
+        provider: new OfflineQuestionProvider(),
+        userId: testData.user.id,
+        now
+      })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.questions).toHaveLength(3)
+      expect(result.rejected).toEqual([])
+      for (const question of result.questions) {
+        expect(question).toMatchObject({
+          objectiveId,
+          difficulty: 2,
+          aiGenerated: true,
+          aiModel: 'offline-stub',
+          aiPromptVersion: PROMPT_VERSION,
+          reviewStatus: 'pending'
+        })
+        expect(question.answers.filter(answer => answer.isCorrect)).toHaveLength(1)
+      }
+
+      const [entry] = await logEntries()
+      expect(entry).toMatchObject({
+        id: result.logId,
+        purpose: 'question_generation',
+        model: 'offline-stub',
+        examId: testData.exam.id,
+        objectiveId,
+        questionIds: result.questions.map(question => question.id),
+        success: true,
+        costCents: 0,
+        userId: testData.user.id,
+        createdAt: now
+      })
+      expect(entry.totalTokens).toBe(result.usage.promptTokens + result.usage.completionTokens)
+      expect(entry.promptTokens).toBeGreaterThan(0)
+
+      // Pending questions stay out of study sessions until reviewed
+      const study = await queries.study.getStudyQuestions({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        mode: 'custom',
+        limit: 100
+      })
+      expect(study.map(question => question.id)).not.toContain(result.questions[0].id)
+    })
+
+    it('should be deterministic and continue numbering on repeated runs', async () => {
+      const params = {
+        examId: testData.exam.id,
+        objectiveId: testData.questions[0].objectiveId,
+        count: 2,
+        provider: new OfflineQuestionProvider()
+      }
+
+      const first = await queries.generation.generateQuestions(params)
+      const second = await queries.generation.generateQuestions(params)
+
+      expect(first.ok && second.ok).toBe(true)
+      if (!first.ok || !second.ok) return
+      expect(second.rejected).toEqual([])
+      const texts = [...first.questions, ...second.questions].map(question => question.text)
+      expect(new Set(texts).size).toBe(4)
+
+      const request = {
+        templateId: PROMPT_VERSION,
+        brief: {
+          examCode: 'N10-008', examName: 'Network+', objectiveCode: '1.0', objectiveName: 'Networking',
+          objectiveDescription: null, count: 2, difficulty: 3, existingCount: 0, avoid: []
+        },
+        system: '',
+        prompt: '',
+        temperature: 0,
+        maxTokens: 800
+      }
+      expect(await new OfflineQuestionProvider().complete(request)).toEqual(await new OfflineQuestionProvider().complete(request))
+    })
+
+    it('should reject duplicates of existing questions and price the call', async () => {
+      const objectiveId = testData.questions[0].objectiveId
+      const provider = cannedProvider({
+        text: JSON.stringify({
+          questions: [
+            { text: `  ${testData.questions[0].text.toUpperCase()} `, answers: answers(0), explanation: 'Already in the bank' },
+            { text: 'Which protocol builds site-to-site VPNs with encryption?', answers: answers(0), explanation: 'IPsec', confidence: 0.8 }
+          ]
+        })
+      })
+
+      const result = await queries.generation.generateQuestions({ examId: testData.exam.id, objectiveId, count: 2, provider })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.rejected).toEqual([{ index: 0, errors: [`Duplicate of question ${testData.questions[0].id}`] }])
+      expect(result.questions).toHaveLength(1)
+      expect(result.questions[0]).toMatchObject({ aiConfidenceScore: 0.8, aiModel: 'qwen/qwen2.5-7b-instruct' })
+      expect(result.usage.costCents).toBeCloseTo(0.024)
+    })
+
+    it('should log failed provider calls and unusable output', async () => {
+      const params = { examId: testData.exam.id, objectiveId: testData.questions[0].objectiveId, count: 1 }
+
+      const failed = await queries.generation.generateQuestions({ ...params, provider: cannedProvider(new Error('429 Too Many Requests')) })
+      expect(failed).toMatchObject({ ok: false, reason: 'provider_error', message: '429 Too Many Requests' })
+
+      const garbled = await queries.generation.generateQuestions({ ...params, provider: cannedProvider({ text: 'Sure! Here are your questions:' }) })
+      expect(garbled).toMatchObject({ ok: false, reason: 'invalid_output' })
+
+      const entries = await logEntries()
+      expect(entries.map(entry => [entry.success, entry.errorMessage])).toEqual([
+        [false, '429 Too Many Requests'],
+        [false, 'Model output is not a JSON question list']
+      ])
+      expect(entries[1].totalTokens).toBe(3000)
+
+      const generated = await dbWrapper.db
+        .select()
+        .from(schema.questions)
+        .where(eq(schema.questions.aiGenerated, true))
+      expect(generated).toEqual([])
+
+      expect(await queries.generation.generateQuestions({ ...params, objectiveId: 99999, provider: new OfflineQuestionProvider() }))
+        .toEqual({ ok: false, reason: 'objective_not_found' })
+    })
+  })
+})
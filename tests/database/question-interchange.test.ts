@@ -0,0 +1,351 @@
+// Question interchange test suite
+// Covers CSV, GIFT and QTI parsing and writing, dry-run import reports, commits and export
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { normalizeQuestionText, type PortableQuestion } from '~/database/utils/question-interchange'
+import { parseCsv, parseCsvRows, writeCsv } from '~/database/utils/formats/csv'
+import { parseGift, writeGift } from '~/database/utils/formats/gift'
+import { parseQti, writeQti } from '~/database/utils/formats/qti'
+import { readZip } from '~/database/utils/formats/zip'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const sample: PortableQuestion[] = [
+  {
+    ref: 'Q1',
+    objectiveCode: '1.0',
+    type: 'multiple_choice',
+    text: 'Which port does HTTPS use by default?',
+    answers: [
+      { id: 'a', text: '443', isCorrect: true, explanation: 'TLS over TCP 443' },
+      { id: 'b', text: '80', isCorrect: false },
+      { id: 'c', text: '8080 {alt}', isCorrect: false }
+    ],
+    explanation: 'HTTPS listens on "443" by default; HTTP uses 80.',
+    reference: 'RFC 2818, section 2.3',
+    difficulty: 2,
+    tags: ['ports', 'tls']
+  },
+  {
+    ref: 'Q2',
+    objectiveCode: '2.0',
+    type: 'multi_select',
+    text: 'Which protocols are link-state?\nChoose two.',
+    answers: [
+      { id: 'a', text: 'OSPF', isCorrect: true },
+      { id: 'b', text: 'RIP', isCorrect: false },
+      { id: 'c', text: 'IS-IS', isCorrect: true },
+      { id: 'd', text: 'EIGRP <hybrid>', isCorrect: false }
+    ],
+    explanation: null,
+    reference: null,
+    difficulty: 4,
+    tags: []
+  },
+  {
+    ref: 'Q3',
+    objectiveCode: '3.0',
+    type: 'true_false',
+    text: 'WPA3 replaces the PSK handshake with SAE.',
+    answers: [
+      { id: 'a', text: 'True', isCorrect: true },
+      { id: 'b', text: 'False', isCorrect: false }
+    ],
+    explanation: 'Simultaneous Authentication of Equals',
+    reference: null,
+    difficulty: null,
+    tags: ['wireless']
+  }
+]
+
+// Refs describe where an entry came from, so they differ per format
+const withoutRefs = (questions: PortableQuestion[]) => questions.map(({ ref: _ref, ...question }) => question)
+
+describe('Question Interchange', () => {
+  describe('formats', () => {
+    it('should round-trip questions through CSV', () => {
+      const csv = writeCsv(sample)
+      const parsed = parseCsv(csv)
+
+      expect(parsed.issues).toEqual([])
+      // CSV has no column for per-answer explanations
+      expect(withoutRefs(parsed.questions)).toEqual(withoutRefs(sample).map(question => ({
+        ...question,
+        answers: question.answers.map(({ explanation: _explanation, ...answer }) => answer)
+      })))
+      expect(parsed.questions.map(question => question.ref)).toEqual(['line 2', 'line 3', 'line 5'])
+    })
+
+    it('should report CSV rows that cannot become questions', () => {
+      const csv = [
+        'objective_code,text,choice_a,choice_b,choice_c,correct,difficulty',
+        '1.0,Gap question,Yes,,Maybe,a,',
+        '1.0,Bad key,Yes,No,,c,',
+        '1.0,Too hard,Yes,No,,a,9',
+        '1.0,"Fine, quoted",Yes,No,,a;b,'
+      ].join('\n')
+      const parsed = parseCsv(csv)
+
+      expect(parsed.issues).toEqual([
+        { ref: 'line 2', errors: ['Choices must be filled in order from choice_a, without gaps'] },
+        { ref: 'line 3', errors: ['correct names choices that are empty or missing: c'] },
+        { ref: 'line 4', errors: ['difficulty must be a whole number from 1 to 5'] }
+      ])
+      expect(parsed.questions).toHaveLength(1)
+      expect(parsed.questions[0]).toMatchObject({ text: 'Fine, quoted', type: 'multi_select' })
+      expect(parseCsv('text,correct\nx,a').issues[0].errors[0]).toBe('Missing columns: objective_code, choice_a, choice_b')
+    })
+
+    it('should split quoted CSV fields across lines', () => {
+      expect(parseCsvRows('﻿a,b\r\n"x\n""y""",z\n')).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 2, fields: ['x\n"y"', 'z'] }
+      ])
+    })
+
+    it('should round-trip questions through GIFT', () => {
+      const parsed = parseGift(writeGift(sample))
+
+      expect(parsed.issues).toEqual([])
+      expect(withoutRefs(parsed.questions)).toEqual(withoutRefs(sample))
+      expect(parsed.questions[0].ref).toBe('question Q1 (line 4)')
+    })
+
+    it('should read Moodle GIFT and reject unsupported question types', () => {
+      const gift = [
+        '$CATEGORY: $course$/top/2.0',
+        '',
+        '// [tag:routing] [difficulty:3]',
+        '::OSPF cost::[html]OSPF cost is based on {',
+        '  =bandwidth#Reference bandwidth divided by interface bandwidth',
+        '  ~hop count',
+        '  ~delay',
+        '}',
+        '',
+        'Name a routing protocol {=OSPF =RIP}',
+        '',
+        '2 + 2 = {#4}',
+        '',
+        'Match these {=OSPF -> link-state =RIP -> distance vector}'
+      ].join('\n')
+      const parsed = parseGift(gift)
+
+      expect(parsed.questions).toEqual([{
+        ref: 'question OSPF cost (line 4)',
+        objectiveCode: '2.0',
+        type: 'multiple_choice',
+        text: 'OSPF cost is based on',
+        answers: [
+          { id: 'a', text: 'bandwidth', isCorrect: true, explanation: 'Reference bandwidth divided by interface bandwidth' },
+          { id: 'b', text: 'hop count', isCorrect: false },
+          { id: 'c', text: 'delay', isCorrect: false }
+        ],
+        explanation: null,
+        reference: null,
+        difficulty: 3,
+        tags: ['routing']
+      }])
+      expect(parsed.issues.map(issue => issue.errors[0])).toEqual([
+        'Short answer questions are not supported',
+        'Numerical questions are not supported',
+        'Matching questions are not supported'
+      ])
+    })
+
+    it('should round-trip questions through a QTI package', async () => {
+      const pkg = writeQti(sample)
+      const files = (await readZip(pkg)).map(entry => entry.name)
+      const parsed = await parseQti(pkg)
+
+      expect(files).toEqual(['imsmanifest.xml', 'items/Q1.xml', 'items/Q2.xml', 'items/Q3.xml'])
+      expect(parsed.issues).toEqual([])
+      expect(withoutRefs(parsed.questions)).toEqual(withoutRefs(sample))
+      expect(parsed.questions[0].ref).toBe('item Q1')
+    })
+
+    it('should read a single QTI item and reject other interactions', async () => {
+      const encode = (xml: string) => new TextEncoder().encode(xml)
+      const item = `<?xml version="1.0"?>
+        <qti:assessmentItem xmlns:qti="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="dns-1">
+          <qti:responseDeclaration identifier="R" cardinality="single" baseType="identifier">
+            <qti:correctResponse><qti:value>B</qti:value></qti:correctResponse>
+          </qti:responseDeclaration>
+          <qti:itemBody>
+            <qti:p>DNS &amp; name resolution</qti:p>
+            <qti:choiceInteraction responseIdentifier="R" maxChoices="1">
+              <qti:prompt>Which record maps a name to an IPv6 address?</qti:prompt>
+              <qti:simpleChoice identifier="A">A</qti:simpleChoice>
+              <qti:simpleChoice identifier="B"><![CDATA[AAAA]]></qti:simpleChoice>
+            </qti:choiceInteraction>
+          </qti:itemBody>
+        </qti:assessmentItem>`
+
+      const parsed = await parseQti(encode(item))
+      expect(parsed.issues).toEqual([])
+      expect(parsed.questions[0]).toMatchObject({
+        ref: 'item dns-1',
+        objectiveCode: '',
+        type: 'multiple_choice',
+        text: 'DNS & name resolution\nWhich record maps a name to an IPv6 address?',
+        answers: [
+          { id: 'a', text: 'A', isCorrect: false },
+          { id: 'b', text: 'AAAA', isCorrect: true }
+        ]
+      })
+
+      const textEntry = await parseQti(encode(
+        '<assessmentItem identifier="x"><itemBody><textEntryInteraction responseIdentifier="R"/></itemBody></assessmentItem>'
+      ))
+      expect(textEntry.issues).toEqual([{ ref: 'item x', errors: ['Unsupported interaction: textEntryInteraction'] }])
+      expect((await parseQti(encode('<assessmentItem><itemBody>'))).issues[0].errors[0]).toMatch(/^Malformed XML/)
+    })
+
+    it('should ignore case, punctuation and spacing when comparing question text', () => {
+      expect(normalizeQuestionText('  What is   OSPF\'s AD?')).toBe(normalizeQuestionText('what is ospf s ad'))
+    })
+  })
+
+  describe('importQuestions', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    const csvWithProblems = () => [
+      'objective_code,text,choice_a,choice_b,correct,tags',
+      '1.0,Which port does SSH use?,22,23,a,ports;ssh',
+      '9.9,Unknown objective question,Yes,No,a,',
+      '2.0,Test question 1!,Yes,No,a,',
+      '2.0,which PORT does ssh use,22,23,a,',
+      ',No objective given,Yes,No,b,'
+    ].join('\n')
+
+    it('should report errors and duplicates without saving on a dry run', async () => {
+      const result = await queries.interchange.importQuestions({
+        examId: testData.exam.id,
+        format: 'csv',
+        content: csvWithProblems()
+      })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      const seeded = testData.questions.find(question => question.text === 'Test question 1')!
+
+      expect(result.report).toMatchObject({ format: 'csv', dryRun: true, total: 5, valid: 1, invalid: 2, duplicates: 2, imported: 0 })
+      expect(result.report.items).toEqual([
+        { ref: 'line 2', status: 'ok' },
+        { ref: 'line 3', status: 'invalid', errors: ['Objective 9.9 is not part of this exam'] },
+        { ref: 'line 4', status: 'duplicate', duplicateOf: `question ${seeded.id}` },
+        { ref: 'line 5', status: 'duplicate', duplicateOf: 'line 2' },
+        { ref: 'line 6', status: 'invalid', errors: ['No objective code given'] }
+      ])
+
+      const questions = await dbWrapper.db.select().from(schema.questions).where(eq(schema.questions.examId, testData.exam.id))
+      expect(questions).toHaveLength(testData.questions.length)
+    })
+
+    it('should refuse to commit a file with invalid entries', async () => {
+      const result = await queries.interchange.importQuestions({
+        examId: testData.exam.id,
+        format: 'csv',
+        content: csvWithProblems(),
+        dryRun: false
+      })
+
+      expect(result).toMatchObject({ ok: false, reason: 'has_errors', report: { invalid: 2, imported: 0 } })
+    })
+
+    it('should save valid questions for review and skip duplicates', async () => {
+      const result = await queries.interchange.importQuestions({
+        examId: testData.exam.id,
+        format: 'gift',
+        content: writeGift([sample[0], { ...sample[1], objectiveCode: '' }, { ...sample[0], ref: 'again' }]),
+        dryRun: false,
+        defaultObjectiveCode: '3.0'
+      })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.report).toMatchObject({ valid: 2, duplicates: 1, imported: 2 })
+
+      const imported = await dbWrapper.db
+        .select()
+        .from(schema.questions)
+        .where(eq(schema.questions.text, sample[1].text))
+      const [objective] = await dbWrapper.db
+        .select()
+        .from(schema.objectives)
+        .where(eq(schema.objectives.code, '3.0'))
+
+      expect(imported).toHaveLength(1)
+      expect(imported[0]).toMatchObject({
+        objectiveId: objective.id,
+        type: 'multi_select',
+        difficulty: 4,
+        reviewStatus: 'pending'
+      })
+    })
+
+    it('should report an unknown exam', async () => {
+      expect(await queries.interchange.importQuestions({ examId: 9999, format: 'csv', content: '' }))
+        .toEqual({ ok: false, reason: 'exam_not_found' })
+    })
+  })
+
+  describe('exportQuestions', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should export choice questions and list the rest as skipped', async () => {
+      const [ordering] = await dbWrapper.db.insert(schema.questions).values({
+        examId: testData.exam.id,
+        objectiveId: testData.questions[0].objectiveId,
+        text: 'Order the TCP handshake',
+        type: 'drag_drop',
+        answers: [],
+        diagramData: {
+          kind: 'ordering',
+          items: [{ id: 'syn', text: 'SYN' }, { id: 'ack', text: 'ACK' }],
+          correctOrder: ['syn', 'ack']
+        }
+      }).returning()
+
+      const result = await queries.interchange.exportQuestions({ examId: testData.exam.id, format: 'csv' })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.file).toMatchObject({
+        filename: 'n10-008-questions.csv',
+        contentType: 'text/csv; charset=utf-8',
+        skipped: [{ questionId: ordering.id, reason: 'drag_drop questions cannot be exported' }]
+      })
+
+      const parsed = parseCsv(result.file.content as string)
+      expect(parsed.questions).toHaveLength(testData.questions.length)
+      expect(parsed.questions.every(question => ['1.0', '2.0', '3.0'].includes(question.objectiveCode))).toBe(true)
+    })
+
+    it('should import its own QTI export into another exam without loss', async () => {
+      const exported = await queries.interchange.exportQuestions({ examId: testData.exam.id, format: 'qti' })
+      expect(exported.ok).toBe(true)
+      if (!exported.ok) return
+
+      const dryRun = await queries.interchange.importQuestions({
+        examId: testData.exam.id,
+        format: 'qti',
+        content: exported.file.content
+      })
+
+      // Re-importing into the same exam finds every question already present
+      expect(dryRun.ok && dryRun.report).toMatchObject({ total: testData.questions.length, duplicates: testData.questions.length })
+    })
+  })
+})
@@ -0,0 +1,215 @@
+// Question review workflow test suite
+// Covers the moderator queue, review decisions, comment threads, inline edits and audit entries
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData, createTestExam, createTestObjective, createTestQuestion } from './setup'
+import { createQueries } from '~/database/utils/queries'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const moderator = () => ({ userId: testData.user.id, ipAddress: '203.0.113.7', userAgent: 'vitest' })
+
+async function addPending(text: string, aiConfidenceScore: number | null, overrides: Partial<schema.NewQuestion> = {}) {
+  const [question] = await dbWrapper.db.insert(schema.questions).values(createTestQuestion(
+    testData.exam.id,
+    testData.questions[0].objectiveId,
+    { text, reviewStatus: 'pending', aiGenerated: aiConfidenceScore !== null, aiConfidenceScore, ...overrides }
+  )).returning()
+  return question
+}
+
+async function auditEntries(questionId: number) {
+  return dbWrapper.db
+    .select()
+    .from(schema.auditLog)
+    .where(eq(schema.auditLog.entityId, String(questionId)))
+}
+
+describe('Question Review', () => {
+  beforeEach(async () => {
+    testData = await seedTestData(dbWrapper.db)
+    queries = createQueries(dbWrapper.db)
+  })
+
+  describe('getQueue', () => {
+    it('should list pending questions with the least confident AI output first', async () => {
+      const confident = await addPending('Confident AI question', 0.92)
+      const handWritten = await addPending('Hand-written question', null)
+      const doubtful = await addPending('Doubtful AI question', 0.41)
+      const revising = await addPending('Question under revision', 0.7, { reviewStatus: 'needs_revision' })
+
+      const queue = await queries.questionReview.getQueue({ examId: testData.exam.id })
+
+      expect(queue.total).toBe(4)
+      expect(queue.items.map(item => item.id)).toEqual([doubtful.id, revising.id, confident.id, handWritten.id])
+      expect(queue.items[0]).toMatchObject({ objectiveCode: '1.0', commentCount: 0, reviewStatus: 'pending' })
+
+      const descending = await queries.questionReview.getQueue({ order: 'desc', aiGenerated: true, statuses: ['pending'] })
+      expect(descending.items.map(item => item.id)).toEqual([confident.id, doubtful.id])
+    })
+  })
+
+  describe('decide', () => {
+    it('should approve a question, record the reviewer and audit the transition', async () => {
+      const question = await addPending('Which layer does a router operate at?', 0.8)
+      const now = new Date('2026-03-02T10:00:00Z')
+
+      const result = await queries.questionReview.decide({
+        questionId: question.id,
+        decision: 'approve',
+        actor: moderator(),
+        now
+      })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.question).toMatchObject({ reviewStatus: 'approved', reviewedBy: testData.user.id, reviewedAt: now })
+      expect(result.comment).toBeNull()
+
+      const [entry] = await auditEntries(question.id)
+      expect(entry).toMatchObject({
+        userId: testData.user.id,
+        action: 'question.approve',
+        entityType: 'question',
+        oldValues: { reviewStatus: 'pending' },
+        newValues: { reviewStatus: 'approved' },
+        ipAddress: '203.0.113.7',
+        userAgent: 'vitest'
+      })
+    })
+
+    it('should require a comment when asking for a revision', async () => {
+      const question = await addPending('Which port does DNS use?', 0.5)
+
+      expect(await queries.questionReview.decide({ questionId: question.id, decision: 'request_revision', comment: '  ', actor: moderator() }))
+        .toEqual({ ok: false, reason: 'comment_required' })
+
+      const result = await queries.questionReview.decide({
+        questionId: question.id,
+        decision: 'request_revision',
+        comment: 'Mention that zone transfers use TCP',
+        actor: moderator()
+      })
+      expect(result.ok && result.comment).toMatchObject({ decision: 'request_revision', body: 'Mention that zone transfers use TCP' })
+      expect(result.ok && result.question.reviewStatus).toBe('needs_revision')
+
+      expect(await queries.questionReview.decide({ questionId: question.id, decision: 'request_revision', comment: 'Again', actor: moderator() }))
+        .toEqual({ ok: false, reason: 'unchanged' })
+      expect(await queries.questionReview.decide({ questionId: 99999, decision: 'approve', actor: moderator() }))
+        .toEqual({ ok: false, reason: 'not_found' })
+    })
+
+    it('should keep unapproved questions out of study and test selection until approved', async () => {
+      const question = await addPending('A question nobody has reviewed yet', 0.6)
+      const servedIds = async () => {
+        const study = await queries.study.getStudyQuestions({
+          userId: testData.user.id,
+          examId: testData.exam.id,
+          mode: 'custom',
+          limit: 100
+        })
+        return study.map(q => q.id)
+      }
+
+      expect(await servedIds()).not.toContain(question.id)
+
+      const attempt = await queries.testAttempts.startAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        questionCount: 100
+      })
+      expect(attempt?.attempt.questionIds).toHaveLength(testData.questions.length)
+      expect(attempt?.attempt.questionIds).not.toContain(question.id)
+
+      await queries.questionReview.decide({ questionId: question.id, decision: 'approve', actor: moderator() })
+      expect(await servedIds()).toContain(question.id)
+    })
+  })
+
+  describe('editQuestion', () => {
+    it('should audit the changed fields and return a revised question to the queue', async () => {
+      const question = await addPending('What does OSPF stand for', 0.3, { reviewStatus: 'needs_revision' })
+
+      const result = await queries.questionReview.editQuestion({
+        questionId: question.id,
+        changes: { text: 'What does OSPF stand for?', difficulty: question.difficulty!, tags: ['ospf'] },
+        actor: moderator()
+      })
+
+      expect(result.ok && result.question).toMatchObject({
+        text: 'What does OSPF stand for?',
+        tags: ['ospf'],
+        reviewStatus: 'pending'
+      })
+
+      const [entry] = await auditEntries(question.id)
+      expect(entry).toMatchObject({
+        action: 'question.edit',
+        oldValues: { text: 'What does OSPF stand for', tags: [], reviewStatus: 'needs_revision' },
+        newValues: { text: 'What does OSPF stand for?', tags: ['ospf'], reviewStatus: 'pending' }
+      })
+    })
+
+    it('should reject invalid content and objectives from another exam', async () => {
+      const question = await addPending('Which cable category supports 10GBASE-T at 100 m?', 0.9)
+
+      const invalid = await queries.questionReview.editQuestion({
+        questionId: question.id,
+        changes: { answers: [{ id: 'a', text: 'Cat6a', isCorrect: false }, { id: 'b', text: 'Cat5e', isCorrect: false }] },
+        actor: moderator()
+      })
+      expect(invalid).toEqual({ ok: false, reason: 'invalid_content', errors: ['Exactly one answer must be correct'] })
+
+      const [otherExam] = await dbWrapper.db.insert(schema.exams).values(createTestExam({ code: 'SY0-701' })).returning()
+      await dbWrapper.db.insert(schema.objectives).values(createTestObjective(otherExam.id, { name: 'General Security Concepts' }))
+      const [foreignObjective] = await dbWrapper.db
+        .select()
+        .from(schema.objectives)
+        .where(eq(schema.objectives.examId, otherExam.id))
+
+      expect(await queries.questionReview.editQuestion({
+        questionId: question.id,
+        changes: { objectiveId: foreignObjective.id },
+        actor: moderator()
+      })).toEqual({ ok: false, reason: 'objective_not_in_exam' })
+      expect(await auditEntries(question.id)).toEqual([])
+    })
+  })
+
+  describe('getReviewItem', () => {
+    it('should return the comment thread and history in order', async () => {
+      const question = await addPending('Which protocol resolves IPv4 addresses to MAC addresses?', 0.55)
+
+      await queries.questionReview.decide({
+        questionId: question.id,
+        decision: 'request_revision',
+        comment: 'Distractors are too obvious',
+        actor: moderator(),
+        now: new Date('2026-03-01T09:00:00Z')
+      })
+      await queries.questionReview.addComment({
+        questionId: question.id,
+        body: 'Added RARP and NDP as distractors',
+        actor: moderator(),
+        now: new Date('2026-03-01T10:00:00Z')
+      })
+      await queries.questionReview.decide({ questionId: question.id, decision: 'approve', actor: moderator() })
+
+      const item = await queries.questionReview.getReviewItem(question.id)
+
+      expect(item.ok).toBe(true)
+      if (!item.ok) return
+      expect(item.question.reviewStatus).toBe('approved')
+      expect(item.comments.map(comment => [comment.decision, comment.body])).toEqual([
+        ['request_revision', 'Distractors are too obvious'],
+        [null, 'Added RARP and NDP as distractors']
+      ])
+      expect(item.history.map(entry => entry.action)).toEqual(['question.request_revision', 'question.approve'])
+      expect(await queries.questionReview.getReviewItem(99999)).toEqual({ ok: false, reason: 'not_found' })
+    })
+  })
+})
@@ -0,0 +1,233 @@
+// Question revision history test suite
+// Covers revisions on edit, diffs, statistics resets and revisions pinned by test attempts
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const moderator = () => ({ userId: testData.user.id, ipAddress: '203.0.113.7', userAgent: 'vitest' })
+
+// Same options as the seed questions, with the answer key moved to b
+const rekeyed = [
+  { id: 'a', text: '255.255.255.0', isCorrect: false },
+  { id: 'b', text: '255.255.0.0', isCorrect: true },
+  { id: 'c', text: '255.0.0.0', isCorrect: false },
+  { id: 'd', text: '255.255.255.255', isCorrect: false }
+]
+
+async function loadQuestion(questionId: number) {
+  const [question] = await dbWrapper.db.select().from(schema.questions).where(eq(schema.questions.id, questionId))
+  return question
+}
+
+describe('Question Revisions', () => {
+  beforeEach(async () => {
+    testData = await seedTestData(dbWrapper.db)
+    queries = createQueries(dbWrapper.db)
+  })
+
+  describe('editQuestion', () => {
+    it('should keep the original content and add a revision per edit', async () => {
+      const question = testData.questions[0]
+      const now = new Date('2026-05-04T08:00:00Z')
+
+      const tagged = await queries.questionReview.editQuestion({
+        questionId: question.id,
+        changes: { tags: ['subnetting'] },
+        actor: moderator(),
+        now
+      })
+      expect(tagged.ok && tagged.revision).toMatchObject({ revision: 2, changedFields: ['tags'], substantive: false, createdBy: testData.user.id })
+
+      const reworded = await queries.questionReview.editQuestion({
+        questionId: question.id,
+        changes: { text: 'Which subnet mask does a Class C network use by default?', answers: rekeyed },
+        actor: moderator()
+      })
+      expect(reworded.ok && reworded.question.revision).toBe(3)
+
+      const history = await queries.revisions.listRevisions(question.id)
+      expect(history.ok && history.currentRevision).toBe(3)
+      expect(history.ok && history.revisions.map(revision => [revision.revision, revision.text, revision.substantive])).toEqual([
+        [1, 'Test question 1', false],
+        [2, 'Test question 1', false],
+        [3, 'Which subnet mask does a Class C network use by default?', true]
+      ])
+
+      const [entry] = (await dbWrapper.db.select().from(schema.auditLog).where(eq(schema.auditLog.entityId, String(question.id))))
+        .filter(row => row.createdAt?.getTime() === now.getTime())
+      expect(entry).toMatchObject({ oldValues: { tags: [], revision: 1 }, newValues: { tags: ['subnetting'], revision: 2 }, metadata: { revision: 2 } })
+    })
+
+    it('should reset statistics only for substantive changes when asked', async () => {
+      const question = testData.questions[0]
+      await dbWrapper.db
+        .update(schema.questions)
+        .set({ totalAttempts: 40, correctAttempts: 30, discriminationIndex: 0.35 })
+        .where(eq(schema.questions.id, question.id))
+
+      await queries.questionReview.editQuestion({
+        questionId: question.id,
+        changes: { explanation: 'A /24 mask leaves 8 host bits.' },
+        resetStats: true,
+        actor: moderator()
+      })
+      expect(await loadQuestion(question.id)).toMatchObject({ totalAttempts: 40, discriminationIndex: 0.35, statsResetAt: null })
+
+      const resetAt = new Date('2026-05-04T09:00:00Z')
+      const result = await queries.questionReview.editQuestion({
+        questionId: question.id,
+        changes: { answers: rekeyed },
+        resetStats: true,
+        actor: moderator(),
+        now: resetAt
+      })
+      expect(result.ok && result.revision).toMatchObject({ substantive: true, statsReset: true })
+      expect(await loadQuestion(question.id)).toMatchObject({ totalAttempts: 0, correctAttempts: 0, discriminationIndex: null, statsResetAt: resetAt })
+
+      // Calibration leaves out answers to the old wording
+      await dbWrapper.db.insert(schema.userAnswers).values([
+        { userId: testData.user.id, questionId: question.id, selectedAnswer: 'a', isCorrect: true, answeredAt: new Date('2026-05-01T00:00:00Z') },
+        { userId: testData.user.id, questionId: question.id, selectedAnswer: 'b', isCorrect: true, answeredAt: new Date('2026-05-05T00:00:00Z') }
+      ])
+      const responses = await queries.calibration.loadResponses(testData.exam.id)
+      expect(responses.filter(response => response.questionId === question.id)).toHaveLength(1)
+    })
+  })
+
+  describe('diffRevisions', () => {
+    it('should compare any two revisions down to individual answers', async () => {
+      const question = testData.questions[0]
+      await queries.questionReview.editQuestion({ questionId: question.id, changes: { difficulty: 4 }, actor: moderator() })
+      await queries.questionReview.editQuestion({ questionId: question.id, changes: { answers: rekeyed.slice(0, 3) }, actor: moderator() })
+
+      const result = await queries.revisions.diffRevisions(question.id, 1, 3)
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.diff.substantive).toBe(true)
+      expect(result.diff.fields.map(change => change.field)).toEqual(['answers', 'difficulty'])
+      expect(result.diff.answers).toEqual({
+        added: [],
+        removed: [{ id: 'd', text: '255.255.255.255', isCorrect: false }],
+        changed: [
+          { id: 'a', before: { id: 'a', text: '255.255.255.0', isCorrect: true }, after: rekeyed[0] },
+          { id: 'b', before: { id: 'b', text: '255.255.0.0', isCorrect: false }, after: rekeyed[1] }
+        ]
+      })
+
+      const reverse = await queries.revisions.diffRevisions(question.id, 3, 2)
+      expect(reverse.ok && reverse.diff.fields.map(change => change.field)).toEqual(['answers'])
+
+      expect(await queries.revisions.diffRevisions(question.id, 1, 9)).toEqual({ ok: false, reason: 'revision_not_found' })
+      expect(await queries.revisions.listRevisions(99999)).toEqual({ ok: false, reason: 'not_found' })
+    })
+  })
+
+  describe('test attempts', () => {
+    it('should grade and review answers against the revision that was shown', async () => {
+      const started = await queries.testAttempts.startAttempt({ userId: testData.user.id, examId: testData.exam.id, questionCount: 3 })
+      expect(started).not.toBeNull()
+      if (!started) return
+      const { attempt } = started
+      const questionId = attempt.questionIds[0]
+      const original = await loadQuestion(questionId)
+      expect(attempt.questionRevisionIds).toHaveLength(3)
+
+      const objectives = await dbWrapper.db.select().from(schema.objectives).where(eq(schema.objectives.examId, testData.exam.id))
+      const otherObjective = objectives.find(objective => objective.id !== original.objectiveId)!
+      const totalsAsShown = new Map<string, number>()
+      for (const id of attempt.questionIds) {
+        const key = String((await loadQuestion(id)).objectiveId)
+        totalsAsShown.set(key, (totalsAsShown.get(key) ?? 0) + 1)
+      }
+
+      // The answer key and domain change while the attempt is in progress
+      await queries.questionReview.editQuestion({
+        questionId,
+        changes: { text: 'Which mask is the default for Class B?', answers: rekeyed, objectiveId: otherObjective.id },
+        actor: moderator()
+      })
+
+      // Resuming serves the content the answer will be graded against
+      const [resumed] = await queries.testAttempts.getDeliverableQuestions(attempt.questionIds, attempt.questionRevisionIds)
+      expect(resumed).toMatchObject({ id: questionId, text: original.text, objectiveId: original.objectiveId })
+      expect(resumed.answers.map(answer => answer.text)).toEqual(original.answers.map(answer => answer.text))
+
+      const saved = await queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId,
+        selectedAnswer: 'a',
+        timeSpentSeconds: 30
+      })
+      expect(saved.ok).toBe(true)
+
+      const [answer] = await dbWrapper.db.select().from(schema.userAnswers).where(eq(schema.userAnswers.testAttemptId, attempt.id))
+      expect(answer).toMatchObject({ isCorrect: true, questionRevisionId: attempt.questionRevisionIds![0] })
+
+      const submitted = await queries.testAttempts.submitAttempt(attempt.id, testData.user.id)
+      // Scored in the domain the question had when it was shown
+      const breakdown = submitted.ok ? submitted.attempt.objectiveBreakdown ?? {} : {}
+      expect(Object.fromEntries(Object.entries(breakdown).map(([key, objective]) => [key, objective.total])))
+        .toEqual(Object.fromEntries(totalsAsShown))
+      expect(breakdown[String(original.objectiveId)].correct).toBeGreaterThanOrEqual(1)
+
+      const review = await queries.testAttempts.getReview(attempt.id, testData.user.id)
+      expect(review.ok && review.questions[0]).toMatchObject({
+        id: questionId,
+        text: original.text,
+        answers: original.answers,
+        revision: 1,
+        isCorrect: true
+      })
+    })
+
+    it('should not grade an answer against another question\'s revision', async () => {
+      const [question, other] = testData.questions
+      await queries.questionReview.editQuestion({ questionId: other.id, changes: { answers: rekeyed }, actor: moderator() })
+      const otherRevision = (await queries.revisions.currentRevisionIds([other.id])).get(other.id)!
+
+      // Pinned revisions out of step with the question ids
+      const [attempt] = await dbWrapper.db.insert(schema.testAttempts).values({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        questionIds: [question.id],
+        questionRevisionIds: [otherRevision]
+      }).returning()
+
+      const saved = await queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: question.id,
+        selectedAnswer: 'a',
+        timeSpentSeconds: 10
+      })
+      expect(saved.ok).toBe(true)
+
+      // Graded against the question itself and not linked to the foreign revision
+      const [answer] = await dbWrapper.db.select().from(schema.userAnswers).where(eq(schema.userAnswers.testAttemptId, attempt.id))
+      expect(answer).toMatchObject({ questionId: question.id, isCorrect: true, questionRevisionId: null })
+    })
+
+    it('should record a missing revision once when callers race', async () => {
+      const questionId = testData.questions[0].id
+
+      const [first, second] = await Promise.all([
+        queries.revisions.currentRevisionIds([questionId]),
+        queries.revisions.currentRevisionIds([questionId])
+      ])
+
+      expect(first.get(questionId)).toBeDefined()
+      expect(second.get(questionId)).toBe(first.get(questionId))
+      const rows = await dbWrapper.db.select().from(schema.questionRevisions).where(eq(schema.questionRevisions.questionId, questionId))
+      expect(rows).toHaveLength(1)
+    })
+  })
+})
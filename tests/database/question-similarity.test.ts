@@ -0,0 +1,281 @@
+// Near-duplicate question detection test suite
+// Covers fingerprinting, insert-time flags, exam scans and merge, retire and dismiss resolutions
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData, createTestExam, createTestObjective, createTestQuestion } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { estimateSimilarity, minhashSignature, shingles, similarityContent } from '~/database/utils/question-similarity'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+let exam: schema.Exam
+let objective: schema.Objective
+
+const moderator = () => ({ userId: testData.user.id, ipAddress: '203.0.113.7', userAgent: 'vitest' })
+
+const routing = {
+  text: 'Which OSI layer is responsible for routing packets between different networks?',
+  answers: [
+    { id: 'a', text: 'Network layer', isCorrect: true },
+    { id: 'b', text: 'Data link layer', isCorrect: false },
+    { id: 'c', text: 'Transport layer', isCorrect: false },
+    { id: 'd', text: 'Application layer', isCorrect: false }
+  ]
+}
+
+// Same question with one word changed and the answers shuffled
+const paraphrase = {
+  text: 'Which OSI layer is responsible for routing packets between separate networks?',
+  answers: [
+    { id: 'a', text: 'Transport layer', isCorrect: false },
+    { id: 'b', text: 'Application layer', isCorrect: false },
+    { id: 'c', text: 'Network layer', isCorrect: true },
+    { id: 'd', text: 'Data link layer', isCorrect: false }
+  ]
+}
+
+const https = {
+  text: 'Which port does HTTPS use by default?',
+  answers: [
+    { id: 'a', text: '443', isCorrect: true },
+    { id: 'b', text: '80', isCorrect: false },
+    { id: 'c', text: '22', isCorrect: false },
+    { id: 'd', text: '25', isCorrect: false }
+  ]
+}
+
+async function addQuestion(content: { text: string; answers: schema.Question['answers'] }) {
+  const [question] = await dbWrapper.db
+    .insert(schema.questions)
+    .values(createTestQuestion(exam.id, objective.id, content))
+    .returning()
+  return question
+}
+
+async function flagPair() {
+  const original = await addQuestion(routing)
+  const copy = await addQuestion(paraphrase)
+  const [flag] = await queries.similarity.flagQuestions([copy.id])
+  return { original, copy, flag }
+}
+
+describe('Question Similarity', () => {
+  beforeEach(async () => {
+    testData = await seedTestData(dbWrapper.db)
+    queries = createQueries(dbWrapper.db)
+    // A separate exam keeps the near-identical seed questions out of the way
+    const [created] = await dbWrapper.db.insert(schema.exams).values(createTestExam({ code: 'SY0-701', name: 'CompTIA Security+' })).returning()
+    await dbWrapper.db.insert(schema.objectives).values(createTestObjective(created.id, { name: 'General Security Concepts' }))
+    const [createdObjective] = await dbWrapper.db.select().from(schema.objectives).where(eq(schema.objectives.examId, created.id))
+    exam = created
+    objective = createdObjective
+  })
+
+  describe('fingerprints', () => {
+    it('should ignore answer order and separate unrelated questions', () => {
+      const signature = (content: typeof routing) => minhashSignature(shingles(similarityContent(content.text, content.answers)))
+
+      expect(estimateSimilarity(signature(routing), signature({ ...routing, answers: [...routing.answers].reverse() }))).toBe(1)
+      expect(estimateSimilarity(signature(routing), signature(paraphrase))).toBeGreaterThan(0.7)
+      expect(estimateSimilarity(signature(routing), signature(https))).toBeLessThan(0.2)
+    })
+  })
+
+  describe('flagging', () => {
+    it('should flag a near-duplicate when an author saves it', async () => {
+      const original = await addQuestion(routing)
+      await addQuestion(https)
+
+      const created = await queries.questionBank.createQuestion({
+        examId: exam.id,
+        objectiveId: objective.id,
+        type: 'multiple_choice',
+        ...paraphrase
+      })
+
+      expect(created.ok).toBe(true)
+      if (!created.ok) return
+      expect(created.nearDuplicates).toEqual([
+        expect.objectContaining({ questionId: created.question.id, similarQuestionId: original.id, status: 'open' })
+      ])
+
+      const similar = await queries.similarity.findSimilar({ examId: exam.id, ...routing, excludeQuestionIds: [original.id] })
+      expect(similar.map(match => match.questionId)).toEqual([created.question.id])
+    })
+
+    it('should report every pair in an exam scan without flagging it twice', async () => {
+      const { original, copy, flag } = await flagPair()
+      await addQuestion(https)
+
+      const result = await queries.similarity.scanExam({ examId: exam.id })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.report).toMatchObject({ examId: exam.id, scanned: 3, newFlags: 0 })
+      expect(result.report.pairs).toEqual([
+        expect.objectContaining({ questionId: copy.id, similarQuestionId: original.id, flagId: flag.id, status: 'open' })
+      ])
+
+      expect(await queries.similarity.scanExam({ examId: 9999 })).toEqual({ ok: false, reason: 'exam_not_found' })
+    })
+  })
+
+  describe('resolveFlag', () => {
+    it('should merge practice history and review schedules into the kept question', async () => {
+      const { original, copy, flag } = await flagPair()
+      const now = new Date('2026-04-01T09:00:00Z')
+      const userId = testData.user.id
+
+      const [attempt] = await dbWrapper.db.insert(schema.testAttempts).values({
+        userId,
+        examId: exam.id,
+        questionIds: [copy.id, testData.questions[0].id],
+        status: 'completed'
+      }).returning()
+      await dbWrapper.db.insert(schema.userAnswers).values([
+        { userId, questionId: copy.id, testAttemptId: attempt.id, selectedAnswer: 'c', isCorrect: true },
+        { userId, questionId: copy.id, selectedAnswer: 'a', isCorrect: false },
+        { userId, questionId: copy.id, selectedAnswer: 'c', isCorrect: true }
+      ])
+      await dbWrapper.db.insert(schema.reviewStates).values({ userId, questionId: copy.id, dueAt: now })
+      await dbWrapper.db.update(schema.questions).set({ totalAttempts: 2, correctAttempts: 1 }).where(eq(schema.questions.id, copy.id))
+
+      const result = await queries.similarity.resolveFlag({ flagId: flag.id, action: 'merge', actor: moderator(), now })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.movedAnswers).toBe(2)
+      expect(result.flag).toMatchObject({ status: 'merged', keptQuestionId: original.id, resolvedBy: userId, resolvedAt: now })
+
+      const answers = await dbWrapper.db.select().from(schema.userAnswers).where(eq(schema.userAnswers.userId, userId))
+      expect(answers.map(answer => [answer.testAttemptId, answer.questionId, answer.mergedFromQuestionId])).toEqual([
+        [attempt.id, copy.id, null],
+        [null, original.id, copy.id],
+        [null, original.id, copy.id]
+      ])
+
+      const [state] = await dbWrapper.db.select().from(schema.reviewStates).where(eq(schema.reviewStates.userId, userId))
+      expect(state.questionId).toBe(original.id)
+
+      // The attempt still reviews against the question it showed
+      const [unchanged] = await dbWrapper.db.select().from(schema.testAttempts).where(eq(schema.testAttempts.id, attempt.id))
+      expect(unchanged.questionIds).toEqual([copy.id, testData.questions[0].id])
+
+      const [kept] = await dbWrapper.db.select().from(schema.questions).where(eq(schema.questions.id, original.id))
+      const [dropped] = await dbWrapper.db.select().from(schema.questions).where(eq(schema.questions.id, copy.id))
+      expect(kept).toMatchObject({ isActive: true, totalAttempts: 2, correctAttempts: 1 })
+      expect(dropped).toMatchObject({ isActive: false, totalAttempts: 0, correctAttempts: 0 })
+
+      const [entry] = await dbWrapper.db.select().from(schema.auditLog).where(eq(schema.auditLog.entityId, String(copy.id)))
+      expect(entry).toMatchObject({
+        action: 'question.merge',
+        newValues: { isActive: false },
+        metadata: { flagId: flag.id, keptQuestionId: original.id, movedAnswers: 2 }
+      })
+    })
+
+    it('should keep grading an open attempt against the merged question it showed', async () => {
+      const { original, copy, flag } = await flagPair()
+      const userId = testData.user.id
+
+      const revisionIds = await queries.revisions.currentRevisionIds([copy.id])
+      const [attempt] = await dbWrapper.db.insert(schema.testAttempts).values({
+        userId,
+        examId: exam.id,
+        questionIds: [copy.id],
+        questionRevisionIds: [revisionIds.get(copy.id)!]
+      }).returning()
+
+      const result = await queries.similarity.resolveFlag({ flagId: flag.id, action: 'merge', keepQuestionId: original.id, actor: moderator() })
+      expect(result.ok && result.movedAnswers).toBe(0)
+
+      const [open] = await dbWrapper.db.select().from(schema.testAttempts).where(eq(schema.testAttempts.id, attempt.id))
+      expect(open).toMatchObject({ questionIds: [copy.id], questionRevisionIds: [revisionIds.get(copy.id)] })
+
+      const [shown] = await queries.testAttempts.getDeliverableQuestions(open.questionIds, open.questionRevisionIds)
+      expect(shown).toMatchObject({ id: copy.id, text: paraphrase.text })
+
+      // 'c' is the network layer in the paraphrase the learner sees
+      const saved = await queries.testAttempts.saveAnswer({ attemptId: attempt.id, userId, questionId: copy.id, selectedAnswer: 'c', timeSpentSeconds: 20 })
+      expect(saved.ok).toBe(true)
+      const [answer] = await dbWrapper.db.select().from(schema.userAnswers).where(eq(schema.userAnswers.testAttemptId, attempt.id))
+      expect(answer).toMatchObject({ questionId: copy.id, isCorrect: true, questionRevisionId: revisionIds.get(copy.id) })
+
+      const submitted = await queries.testAttempts.submitAttempt(attempt.id, userId)
+      expect(submitted.ok && submitted.attempt.correctCount).toBe(1)
+    })
+
+    it('should leave answers in place for attempts that showed both questions', async () => {
+      const { original, copy, flag } = await flagPair()
+      const userId = testData.user.id
+
+      const [attempt] = await dbWrapper.db.insert(schema.testAttempts).values({
+        userId,
+        examId: exam.id,
+        questionIds: [original.id, copy.id]
+      }).returning()
+      await dbWrapper.db.insert(schema.userAnswers).values([
+        { userId, questionId: original.id, testAttemptId: attempt.id, selectedAnswer: 'a', isCorrect: true },
+        { userId, questionId: copy.id, testAttemptId: attempt.id, selectedAnswer: 'c', isCorrect: true }
+      ])
+      await dbWrapper.db.insert(schema.reviewStates).values([
+        { userId, questionId: original.id, dueAt: new Date('2026-04-02T00:00:00Z') },
+        { userId, questionId: copy.id, dueAt: new Date('2026-04-03T00:00:00Z') }
+      ])
+
+      const result = await queries.similarity.resolveFlag({ flagId: flag.id, action: 'merge', actor: moderator() })
+
+      expect(result.ok && result.movedAnswers).toBe(0)
+      const [unchanged] = await dbWrapper.db.select().from(schema.testAttempts).where(eq(schema.testAttempts.id, attempt.id))
+      expect(unchanged.questionIds).toEqual([original.id, copy.id])
+
+      const states = await dbWrapper.db.select().from(schema.reviewStates).where(eq(schema.reviewStates.userId, userId))
+      expect(states.map(state => state.questionId)).toEqual([original.id])
+    })
+
+    it('should retire the chosen question or dismiss the flag', async () => {
+      const { original, copy, flag } = await flagPair()
+      await dbWrapper.db.insert(schema.userAnswers).values({
+        userId: testData.user.id,
+        questionId: original.id,
+        selectedAnswer: 'a',
+        isCorrect: true
+      })
+
+      expect(await queries.similarity.resolveFlag({ flagId: flag.id, action: 'retire', keepQuestionId: 9999, actor: moderator() }))
+        .toEqual({ ok: false, reason: 'invalid_keep' })
+
+      const retired = await queries.similarity.resolveFlag({ flagId: flag.id, action: 'retire', keepQuestionId: copy.id, actor: moderator() })
+      expect(retired.ok && retired.flag).toMatchObject({ status: 'retired', keptQuestionId: copy.id })
+
+      // Retiring keeps the history on the retired question
+      const [answer] = await dbWrapper.db.select().from(schema.userAnswers).where(eq(schema.userAnswers.userId, testData.user.id))
+      expect(answer).toMatchObject({ questionId: original.id, mergedFromQuestionId: null })
+      const [retiredQuestion] = await dbWrapper.db.select().from(schema.questions).where(eq(schema.questions.id, original.id))
+      expect(retiredQuestion.isActive).toBe(false)
+
+      expect(await queries.similarity.resolveFlag({ flagId: flag.id, action: 'dismiss', actor: moderator() }))
+        .toEqual({ ok: false, reason: 'already_resolved' })
+      expect(await queries.similarity.resolveFlag({ flagId: 9999, action: 'dismiss', actor: moderator() }))
+        .toEqual({ ok: false, reason: 'not_found' })
+    })
+
+    it('should not flag a dismissed pair again', async () => {
+      const { flag } = await flagPair()
+
+      const dismissed = await queries.similarity.resolveFlag({ flagId: flag.id, action: 'dismiss', actor: moderator() })
+      expect(dismissed.ok && dismissed.flag).toMatchObject({ status: 'dismissed', keptQuestionId: null })
+
+      const scan = await queries.similarity.scanExam({ examId: exam.id })
+      expect(scan.ok && scan.report).toMatchObject({ newFlags: 0, pairs: [expect.objectContaining({ flagId: flag.id, status: 'dismissed' })] })
+
+      const open = await queries.similarity.listFlags({ examId: exam.id })
+      expect(open).toEqual({ items: [], total: 0 })
+      const listed = await queries.similarity.listFlags({ examId: exam.id, status: 'dismissed' })
+      expect(listed.items[0]).toMatchObject({ id: flag.id, question: { text: paraphrase.text }, similarQuestion: { text: routing.text } })
+    })
+  })
+})
@@ -0,0 +1,190 @@
+// Readiness test suite
+// Covers recency decay, weighted mastery, test influence, recommendations and user_progress updates
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { recencyWeight, computeReadiness, READINESS_CONFIG, type ReadinessInput } from '~/database/utils/readiness'
+import * as schema from '~/database/schema'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const now = new Date('2025-03-01T12:00:00Z')
+const daysAgo = (n: number) => new Date(now.getTime() - n * 24 * 60 * 60 * 1000)
+
+const objectives = [
+  { id: 1, code: '1.0', name: 'Networking Concepts', weight: 0.6, parentId: null },
+  { id: 2, code: '2.0', name: 'Network Security', weight: 0.4, parentId: null },
+  { id: 3, code: '2.1', name: 'Firewalls', weight: 0.1, parentId: 2 }
+]
+
+function answers(objectiveId: number, correct: number, total: number, answeredAt = now) {
+  return Array.from({ length: total }, (_, i) => ({ objectiveId, isCorrect: i < correct, answeredAt }))
+}
+
+function input(overrides: Partial<ReadinessInput> = {}): ReadinessInput {
+  return {
+    objectives,
+    answers: [],
+    questionsSeen: 0,
+    questionBankSize: 100,
+    tests: [],
+    passingScore: 0.65,
+    scoreScale: null,
+    now,
+    ...overrides
+  }
+}
+
+describe('Readiness', () => {
+  describe('recencyWeight', () => {
+    it('should halve the weight of evidence every half-life', () => {
+      expect(recencyWeight(0)).toBe(1)
+      expect(recencyWeight(READINESS_CONFIG.halfLifeDays)).toBeCloseTo(0.5)
+      expect(recencyWeight(-3)).toBe(1)
+    })
+  })
+
+  describe('computeReadiness', () => {
+    it('should weight domain mastery by exam weight and roll up sub-objectives', () => {
+      const report = computeReadiness(input({
+        answers: [...answers(1, 18, 18), ...answers(3, 0, 18)],
+        questionsSeen: 36
+      }))
+
+      const [networking, security] = report.domains
+      expect(report.domains).toHaveLength(2)
+      expect(networking.mastery).toBe(0.9)
+      expect(security).toMatchObject({ code: '2.0', answered: 18, mastery: 0, status: 'weak' })
+      expect(report.predictedExamScore).toBeCloseTo(0.6 * 0.9)
+    })
+
+    it('should count an unstudied domain as not started rather than half known', () => {
+      const report = computeReadiness(input({ answers: answers(1, 10, 10), questionsSeen: 10 }))
+
+      expect(report.domains[1]).toMatchObject({ status: 'not_started', mastery: 0, answered: 0 })
+      expect(report.weakTopics).toContain('Network Security')
+      expect(report.recommendations[0]).toMatchObject({ code: '2.0', reason: 'not_started' })
+    })
+
+    it('should let old answers count for less than recent ones', () => {
+      const recentWrong = computeReadiness(input({
+        answers: [...answers(1, 10, 10, daysAgo(60)), ...answers(1, 0, 10, now)]
+      }))
+      const recentRight = computeReadiness(input({
+        answers: [...answers(1, 0, 10, daysAgo(60)), ...answers(1, 10, 10, now)]
+      }))
+
+      expect(recentRight.domains[0].mastery).toBeGreaterThan(0.75)
+      expect(recentWrong.domains[0].mastery).toBeLessThan(0.25)
+    })
+
+    it('should pull the prediction toward recent test scores and narrow the interval', () => {
+      const studied = input({ answers: [...answers(1, 6, 10), ...answers(2, 6, 10)], questionsSeen: 20 })
+      const withoutTests = computeReadiness(studied)
+      const withTests = computeReadiness({
+        ...studied,
+        tests: [{ score: 0.9, completedAt: daysAgo(1) }, { score: 0.85, completedAt: daysAgo(3) }]
+      })
+
+      expect(withoutTests.factors.map(f => f.component)).toEqual(['mastery', 'coverage'])
+      expect(withTests.factors.map(f => f.component)).toEqual(['mastery', 'coverage', 'tests'])
+      expect(withTests.predictedExamScore).toBeGreaterThan(withoutTests.predictedExamScore)
+      expect(withTests.confidenceInterval).toBeLessThan(withoutTests.confidenceInterval)
+      expect(withTests.factors.reduce((sum, f) => sum + f.weight, 0)).toBeCloseTo(1)
+    })
+
+    it('should recommend review for a strong domain left untouched too long', () => {
+      const report = computeReadiness(input({
+        answers: [...answers(1, 100, 100, daysAgo(30)), ...answers(2, 20, 20, now)]
+      }))
+
+      expect(report.recommendations).toEqual([
+        expect.objectContaining({ code: '1.0', reason: 'review_due' })
+      ])
+    })
+  })
+
+  describe('readiness updates', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    async function getProgress() {
+      const [progress] = await dbWrapper.db
+        .select()
+        .from(schema.userProgress)
+        .where(eq(schema.userProgress.userId, testData.user.id))
+      return progress
+    }
+
+    it('should write readiness and the test summary to user_progress on submit', async () => {
+      const started = await queries.testAttempts.startAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        questionCount: 6
+      })
+      const attempt = started!.attempt
+
+      for (const questionId of attempt.questionIds) {
+        await queries.testAttempts.saveAnswer({
+          attemptId: attempt.id,
+          userId: testData.user.id,
+          questionId,
+          selectedAnswer: 'a',
+          timeSpentSeconds: 20
+        })
+      }
+      await queries.testAttempts.submitAttempt(attempt.id, testData.user.id)
+
+      const progress = await getProgress()
+      expect(progress.testsTaken).toBe(1)
+      expect(progress.testsPassed).toBe(1)
+      expect(progress.bestScore).toBe(1)
+      expect(progress.readinessScore).toBeGreaterThan(0)
+      expect(progress.predictedExamScore).toBeGreaterThan(0)
+      const tested = new Set(testData.questions.filter(q => attempt.questionIds.includes(q.id)).map(q => String(q.objectiveId)))
+      expect(Object.keys(progress.objectiveMastery ?? {}).sort()).toEqual([...tested].sort())
+    })
+
+    it('should recompute readiness when a study session completes', async () => {
+      const [session] = await dbWrapper.db
+        .insert(schema.studySessions)
+        .values({ userId: testData.user.id, examId: testData.exam.id })
+        .returning()
+
+      const studied = testData.questions.filter(q => q.objectiveId === testData.questions[0].objectiveId).slice(0, 4)
+      await dbWrapper.db.insert(schema.userAnswers).values(studied.map(question => ({
+        userId: testData.user.id,
+        questionId: question.id,
+        studySessionId: session.id,
+        selectedAnswer: 'a',
+        isCorrect: true,
+        timeSpentSeconds: 15
+      })))
+
+      const result = await queries.study.completeSession(session.id, testData.user.id)
+      expect(result?.session.status).toBe('completed')
+      expect(result?.session.timeSpentSeconds).toBe(60)
+      expect(result?.readiness?.recommendations.map(r => r.reason)).toContain('not_started')
+
+      const progress = await getProgress()
+      expect(progress.readinessScore).toBe(result?.readiness?.readinessScore)
+      expect(progress.recommendedObjectives).toEqual(result?.readiness?.recommendations.map(r => r.objectiveId))
+      expect(progress.testsTaken).toBe(0)
+
+      // Recomputing updates the same row
+      await queries.readiness.recomputeReadiness(testData.user.id, testData.exam.id)
+      const rows = await dbWrapper.db.select().from(schema.userProgress)
+      expect(rows).toHaveLength(1)
+    })
+
+    it('should not explain readiness for an unknown exam', async () => {
+      expect(await queries.readiness.explainReadiness(testData.user.id, testData.exam.id + 99)).toBeNull()
+    })
+  })
+})
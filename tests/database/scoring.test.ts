@@ -0,0 +1,155 @@
+// Scaled scoring test suite
+// Covers scale resolution, cut-score anchoring, domain weighting and score reports
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import {
+  resolveScoreScale,
+  toScaledScore,
+  toDomainScores,
+  weightedRawScore,
+  scaleAttemptScore
+} from '~/database/utils/scoring'
+import * as schema from '~/database/schema'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const comptia = { min: 100, max: 900, passing: 750 }
+
+const objectives = [
+  { id: 1, code: '1.0', name: 'Networking Concepts', weight: 0.6, parentId: null },
+  { id: 2, code: '2.0', name: 'Network Security', weight: 0.4, parentId: null },
+  { id: 3, code: '2.1', name: 'Firewalls', weight: 0.1, parentId: 2 }
+]
+
+describe('Scaled Scoring', () => {
+  describe('toScaledScore', () => {
+    it('should land the raw cut score exactly on the vendor cut score', () => {
+      expect(toScaledScore(0.65, 0.65, comptia)).toBe(750)
+      expect(toScaledScore(0, 0.65, comptia)).toBe(100)
+      expect(toScaledScore(1, 0.65, comptia)).toBe(900)
+    })
+
+    it('should be monotonic and respect the rounding step', () => {
+      const scale = { ...comptia, step: 10 }
+      const scores = [0.2, 0.5, 0.64, 0.66, 0.9].map(raw => toScaledScore(raw, 0.65, scale))
+
+      expect(scores).toEqual([...scores].sort((a, b) => a - b))
+      expect(scores.every(score => score % 10 === 0)).toBe(true)
+      expect(toScaledScore(0.64, 0.65, comptia)).toBeLessThan(750)
+    })
+  })
+
+  describe('resolveScoreScale', () => {
+    it('should project the raw passing score onto a default scale', () => {
+      expect(resolveScoreScale({ scoreScale: null, passingScore: 0.7 })).toMatchObject({ min: 100, max: 1000, passing: 730 })
+      expect(resolveScoreScale({ scoreScale: comptia, passingScore: 0.7 })).toBe(comptia)
+    })
+  })
+
+  describe('toDomainScores', () => {
+    it('should roll sub-objectives up into their domain', () => {
+      const domains = toDomainScores({
+        1: { correct: 6, total: 10, percentage: 0.6 },
+        2: { correct: 2, total: 4, percentage: 0.5 },
+        3: { correct: 4, total: 4, percentage: 1 }
+      }, objectives, 0.65)
+
+      expect(domains.map(d => d.code)).toEqual(['1.0', '2.0'])
+      expect(domains[1]).toMatchObject({ correct: 6, total: 8, percentage: 0.75, weight: 0.4, performance: 'meets_competencies' })
+      expect(domains[0].performance).toBe('needs_improvement')
+    })
+  })
+
+  describe('weightedRawScore', () => {
+    it('should weight domains by exam weight, not question count', () => {
+      // 1.0 is heavily over-sampled but weighted 60/40
+      const domains = toDomainScores({
+        1: { correct: 20, total: 20, percentage: 1 },
+        2: { correct: 0, total: 2, percentage: 0 }
+      }, objectives, 0.65)
+
+      expect(weightedRawScore(domains)).toBe(0.6)
+      expect(weightedRawScore([])).toBeNull()
+    })
+
+    it('should decide pass/fail on the scaled score', () => {
+      const result = scaleAttemptScore({
+        rawScore: 20 / 22,
+        breakdown: {
+          1: { correct: 20, total: 20, percentage: 1 },
+          2: { correct: 0, total: 2, percentage: 0 }
+        },
+        objectives,
+        passingScore: 0.65,
+        scoreScale: comptia
+      })
+
+      expect(result.weightedScore).toBe(0.6)
+      expect(result.scaledScore).toBeLessThan(750)
+      expect(result.passed).toBe(false)
+    })
+  })
+
+  describe('score reports', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should report a submitted attempt on the frozen vendor scale', async () => {
+      await dbWrapper.db
+        .update(schema.exams)
+        .set({ scoreScale: comptia })
+        .where(eq(schema.exams.id, testData.exam.id))
+
+      const started = await queries.testAttempts.startAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        questionCount: 6
+      })
+      const attempt = started!.attempt
+      expect(attempt.scoreScale).toEqual(comptia)
+
+      for (const questionId of attempt.questionIds) {
+        await queries.testAttempts.saveAnswer({
+          attemptId: attempt.id,
+          userId: testData.user.id,
+          questionId,
+          selectedAnswer: 'a',
+          timeSpentSeconds: 20
+        })
+      }
+
+      // Changing the scale afterwards must not affect this attempt
+      await dbWrapper.db
+        .update(schema.exams)
+        .set({ scoreScale: { min: 0, max: 100, passing: 70 } })
+        .where(eq(schema.exams.id, testData.exam.id))
+
+      await queries.testAttempts.submitAttempt(attempt.id, testData.user.id)
+      const report = await queries.scoring.getScoreReport(attempt.id, testData.user.id)
+
+      expect(report?.scaledScore).toBe(900)
+      expect(report?.scale).toEqual(comptia)
+      expect(report?.passed).toBe(true)
+      expect(report?.exam.code).toBe(testData.exam.code)
+      expect(report?.domains.reduce((sum, d) => sum + d.total, 0)).toBe(6)
+      expect(report?.domains.every(d => d.performance === 'meets_competencies')).toBe(true)
+    })
+
+    it('should not report an attempt that is still in progress', async () => {
+      const started = await queries.testAttempts.startAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        questionCount: 3
+      })
+
+      expect(await queries.scoring.getScoreReport(started!.attempt.id, testData.user.id)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,143 @@
+// Session management test suite
+// Covers device labels, listing a user's sessions, revoking one or all others,
+// access tokens failing as soon as their session ends, and session ids in the audit log
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { createKeyring } from '~/database/utils/auth-tokens'
+import { describeDevice } from '~/database/utils/sessions'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const keyring = createKeyring({ jwtKeys: 'test:test-secret-test-secret-test-secret' })
+
+const laptop = {
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36'
+}
+const phone = {
+  ipAddress: '198.51.100.20',
+  userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1'
+}
+
+describe('Sessions', () => {
+  describe('describeDevice', () => {
+    it('should name the browser and platform', () => {
+      expect(describeDevice(laptop.userAgent)).toBe('Chrome on macOS')
+      expect(describeDevice(phone.userAgent)).toBe('Safari on iOS')
+      expect(describeDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Gecko/20100101 Firefox/131.0')).toBe('Firefox on Windows')
+      expect(describeDevice('Mozilla/5.0 (Windows NT 10.0) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0')).toBe('Edge on Windows')
+      expect(describeDevice('curl/8.5.0')).toBeNull()
+      expect(describeDevice(null)).toBeNull()
+    })
+  })
+
+  describe('queries', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    const signIn = async (client: typeof laptop, now = new Date()) => {
+      const issued = await queries.auth.issueTokens({ userId: testData.user.id, keyring, client, now })
+      if (!issued.ok) throw new Error('tokens were not issued')
+      return issued.tokens
+    }
+
+    it('should list active sessions with their devices, most recently used first', async () => {
+      const userId = testData.user.id
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000)
+      const onLaptop = await signIn(laptop, yesterday)
+      const onPhone = await signIn(phone)
+
+      const sessions = await queries.sessions.listSessions({ userId, currentSessionId: onLaptop.sessionId })
+      expect(sessions.map(session => session.id)).toEqual([onPhone.sessionId, onLaptop.sessionId])
+      expect(sessions[0]).toMatchObject({ device: 'Safari on iOS', ipAddress: phone.ipAddress, current: false })
+      expect(sessions[1]).toMatchObject({ device: 'Chrome on macOS', ipAddress: laptop.ipAddress, current: true })
+
+      // Using the laptop again moves it to the top and records the new address
+      const refreshed = await queries.auth.refreshTokens({
+        refreshToken: onLaptop.refreshToken,
+        keyring,
+        client: { ...laptop, ipAddress: '203.0.113.99' },
+        now: new Date(Date.now() + 60 * 1000)
+      })
+      expect(refreshed.ok).toBe(true)
+      const [latest] = await queries.sessions.listSessions({ userId })
+      expect(latest).toMatchObject({ id: onLaptop.sessionId, ipAddress: '203.0.113.99', current: false })
+
+      // Sessions whose refresh window has passed drop off the list
+      const nextMonth = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000)
+      expect(await queries.sessions.listSessions({ userId, now: nextMonth })).toEqual([])
+    })
+
+    it('should reject a revoked session\'s access token at once and audit the revocation', async () => {
+      const userId = testData.user.id
+      const onLaptop = await signIn(laptop)
+      const onPhone = await signIn(phone)
+
+      expect(await queries.auth.authenticate({ accessToken: onPhone.accessToken, keyring })).toMatchObject({ ok: true, sessionId: onPhone.sessionId })
+
+      const result = await queries.sessions.revokeSession({
+        userId,
+        sessionId: onPhone.sessionId,
+        client: { ...laptop, sessionId: onLaptop.sessionId }
+      })
+      expect(result).toEqual({ ok: true, current: false })
+
+      // The phone's access token has not expired, but its session has ended
+      expect(await queries.auth.authenticate({ accessToken: onPhone.accessToken, keyring })).toEqual({ ok: false, reason: 'invalid' })
+      expect(await queries.auth.refreshTokens({ refreshToken: onPhone.refreshToken, keyring })).toEqual({ ok: false, reason: 'invalid' })
+      expect(await queries.auth.authenticate({ accessToken: onLaptop.accessToken, keyring })).toMatchObject({ ok: true })
+
+      // Already revoked, or someone else's
+      expect(await queries.sessions.revokeSession({ userId, sessionId: onPhone.sessionId })).toEqual({ ok: false, reason: 'not_found' })
+      expect(await queries.sessions.revokeSession({ userId: userId + 1, sessionId: onLaptop.sessionId }))
+        .toEqual({ ok: false, reason: 'not_found' })
+
+      const audit = await dbWrapper.db.select().from(schema.auditLog).where(eq(schema.auditLog.action, 'auth.revoke_session'))
+      expect(audit).toHaveLength(1)
+      expect(audit[0]).toMatchObject({
+        userId,
+        sessionId: onLaptop.sessionId,
+        ipAddress: laptop.ipAddress,
+        newValues: { sessions: [{ id: onPhone.sessionId, device: 'Safari on iOS' }] }
+      })
+    })
+
+    it('should sign out every other session and keep the current one', async () => {
+      const userId = testData.user.id
+      const current = await signIn(laptop)
+      const others = [await signIn(phone), await signIn(phone)]
+
+      const result = await queries.sessions.revokeOtherSessions({ userId, client: { ...laptop, sessionId: current.sessionId } })
+      expect(result).toEqual({ revoked: 2 })
+
+      for (const other of others) {
+        expect(await queries.auth.authenticate({ accessToken: other.accessToken, keyring })).toEqual({ ok: false, reason: 'invalid' })
+      }
+      expect(await queries.sessions.listSessions({ userId, currentSessionId: current.sessionId }))
+        .toEqual([expect.objectContaining({ id: current.sessionId, current: true })])
+
+      expect(await queries.sessions.revokeOtherSessions({ userId, client: { sessionId: current.sessionId } })).toEqual({ revoked: 0 })
+    })
+
+    it('should end every session when the account signs out everywhere', async () => {
+      const userId = testData.user.id
+      const onLaptop = await signIn(laptop)
+      await signIn(phone)
+
+      await queries.auth.revokeUserSessions({ userId })
+
+      expect(await queries.auth.authenticate({ accessToken: onLaptop.accessToken, keyring })).toEqual({ ok: false, reason: 'invalid' })
+      expect(await queries.sessions.listSessions({ userId })).toEqual([])
+      const [session] = await dbWrapper.db.select().from(schema.sessions).where(eq(schema.sessions.id, onLaptop.sessionId))
+      expect(session.revokedAt).toBeInstanceOf(Date)
+    })
+  })
+})
@@ -75,8 +75,10 @@ async function createBasicTables(db: Database) {
       passing_score REAL DEFAULT 0.65,
       question_count INTEGER DEFAULT 65,
       time_limit_minutes INTEGER DEFAULT 90,
+      score_scale TEXT,
       version TEXT,
       expires_at INTEGER,
+      successor_exam_id INTEGER,
       difficulty_level INTEGER DEFAULT 3,
       prerequisites TEXT,
       price_cents INTEGER DEFAULT 0,
@@ -130,6 +132,8 @@ async function createBasicTables(db: Database) {
       correct_attempts INTEGER DEFAULT 0,
       avg_time_seconds INTEGER DEFAULT 0,
       discrimination_index REAL,
+      stats_reset_at INTEGER,
+      revision INTEGER NOT NULL DEFAULT 1,
       image_url TEXT,
       diagram_data TEXT,
       is_active INTEGER DEFAULT 1,
@@ -170,6 +174,42 @@ async function createBasicTables(db: Database) {
       FOREIGN KEY (current_question_id) REFERENCES questions(id)
     )`,
     
+    // Test attempts table - must match test-attempts.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS test_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      exam_id INTEGER NOT NULL,
+      mode TEXT DEFAULT 'fixed',
+      question_ids TEXT NOT NULL,
+      question_revision_ids TEXT,
+      form_seed TEXT,
+      form_number INTEGER,
+      time_limit_minutes INTEGER,
+      passing_score REAL,
+      score_scale TEXT,
+      score REAL,
+      scaled_score INTEGER,
+      passed INTEGER,
+      correct_count INTEGER,
+      incorrect_count INTEGER,
+      skipped_count INTEGER,
+      ability_estimate REAL,
+      ability_standard_error REAL,
+      ability_trajectory TEXT,
+      objective_breakdown TEXT,
+      domain_scores TEXT,
+      total_time_seconds INTEGER,
+      time_per_question TEXT,
+      review_enabled INTEGER DEFAULT 1,
+      certificate_issued INTEGER DEFAULT 0,
+      status TEXT DEFAULT 'in_progress',
+      started_at INTEGER DEFAULT (strftime('%s', 'now')),
+      completed_at INTEGER,
+      expires_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (exam_id) REFERENCES exams(id)
+    )`,
+
     // User answers table - must match user-answers.ts schema exactly  
     `CREATE TABLE IF NOT EXISTS user_answers (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -179,17 +219,21 @@ async function createBasicTables(db: Database) {
       test_attempt_id INTEGER,
       selected_answer TEXT NOT NULL,
       is_correct INTEGER NOT NULL,
+      credit REAL,
       time_spent_seconds INTEGER,
       confidence_level INTEGER,
       flagged INTEGER DEFAULT 0,
       changed_answer INTEGER DEFAULT 0,
       attempt_number INTEGER DEFAULT 1,
       days_since_last_seen INTEGER,
+      question_revision_id INTEGER,
+      merged_from_question_id INTEGER,
       answered_at INTEGER DEFAULT (strftime('%s', 'now')),
       FOREIGN KEY (user_id) REFERENCES users(id),
       FOREIGN KEY (question_id) REFERENCES questions(id),
       FOREIGN KEY (study_session_id) REFERENCES study_sessions(id),
-      FOREIGN KEY (test_attempt_id) REFERENCES test_attempts(id)
+      FOREIGN KEY (test_attempt_id) REFERENCES test_attempts(id),
+      FOREIGN KEY (question_revision_id) REFERENCES question_revisions(id)
     )`,
     
     // User progress table - must match user-progress.ts schema exactly
@@ -219,10 +263,301 @@ async function createBasicTables(db: Database) {
       best_score REAL DEFAULT 0,
       avg_test_score REAL DEFAULT 0,
       last_test_date TEXT,
+      migrated_at INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+      UNIQUE (user_id, exam_id),
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (exam_id) REFERENCES exams(id)
+    )`,
+
+    // Review states table - must match review-states.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS review_states (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      question_id INTEGER NOT NULL,
+      ease_factor REAL NOT NULL DEFAULT 2.5,
+      interval_days REAL NOT NULL DEFAULT 0,
+      repetitions INTEGER NOT NULL DEFAULT 0,
+      lapses INTEGER NOT NULL DEFAULT 0,
+      due_at INTEGER NOT NULL,
+      last_reviewed_at INTEGER,
+      last_quality INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+      UNIQUE (user_id, question_id),
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (question_id) REFERENCES questions(id)
+    )`,
+
+    // Item calibrations table - must match item-calibrations.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS item_calibrations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      question_id INTEGER NOT NULL,
+      run_at INTEGER NOT NULL,
+      responses INTEGER NOT NULL,
+      proportion_correct REAL NOT NULL,
+      point_biserial REAL,
+      discrimination REAL,
+      difficulty_parameter REAL,
+      previous_difficulty INTEGER,
+      calibrated_difficulty INTEGER,
+      flags TEXT NOT NULL DEFAULT '[]',
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (question_id) REFERENCES questions(id)
+    )`,
+
+    // Question review comments table - must match question-reviews.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS question_review_comments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      question_id INTEGER NOT NULL,
+      user_id INTEGER,
+      decision TEXT,
+      body TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (question_id) REFERENCES questions(id),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )`,
+
+    // Question revisions table - must match question-revisions.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS question_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      question_id INTEGER NOT NULL,
+      revision INTEGER NOT NULL,
+      objective_id INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      type TEXT NOT NULL,
+      answers TEXT NOT NULL,
+      explanation TEXT,
+      reference TEXT,
+      difficulty INTEGER,
+      tags TEXT NOT NULL DEFAULT '[]',
+      image_url TEXT,
+      diagram_data TEXT,
+      changed_fields TEXT NOT NULL DEFAULT '[]',
+      substantive INTEGER NOT NULL DEFAULT 0,
+      stats_reset INTEGER NOT NULL DEFAULT 0,
+      created_by INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      UNIQUE (question_id, revision),
+      FOREIGN KEY (question_id) REFERENCES questions(id),
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    )`,
+
+    // Question feedback table - must match question-feedback.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS question_feedback (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      question_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      question_revision_id INTEGER,
+      reason TEXT NOT NULL,
+      comment TEXT,
+      status TEXT NOT NULL DEFAULT 'open',
+      resolved_by INTEGER,
+      resolved_at INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      UNIQUE (question_id, user_id, question_revision_id),
+      FOREIGN KEY (question_id) REFERENCES questions(id),
       FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (question_revision_id) REFERENCES question_revisions(id)
+    )`,
+
+    // Exam version mappings table - must match exam-migrations.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS exam_version_mappings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      from_exam_id INTEGER NOT NULL,
+      to_exam_id INTEGER NOT NULL,
+      entity_type TEXT NOT NULL,
+      source_id INTEGER NOT NULL,
+      target_id INTEGER,
+      created_by INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      UNIQUE (from_exam_id, entity_type, source_id),
+      FOREIGN KEY (from_exam_id) REFERENCES exams(id),
+      FOREIGN KEY (to_exam_id) REFERENCES exams(id),
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    )`,
+
+    // Certification paths table - must match certification-paths.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS certification_paths (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      vendor_id TEXT NOT NULL,
+      code TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      sort_order INTEGER DEFAULT 0,
+      is_active INTEGER DEFAULT 1,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+      UNIQUE (vendor_id, code)
+    )`,
+
+    // Certification path exams table - must match certification-paths.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS certification_path_exams (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      path_id INTEGER NOT NULL,
+      exam_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      prerequisite_rule TEXT NOT NULL DEFAULT 'previous_exam',
+      UNIQUE (path_id, exam_id),
+      FOREIGN KEY (path_id) REFERENCES certification_paths(id),
+      FOREIGN KEY (exam_id) REFERENCES exams(id)
+    )`,
+
+    // Refresh tokens table - must match refresh-tokens.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      family_id TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at INTEGER NOT NULL,
+      rotated_at INTEGER,
+      revoked_at INTEGER,
+      created_at INTEGER NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )`,
+
+    // Sessions table - must match sessions.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      user_agent TEXT,
+      device TEXT,
+      ip_address TEXT,
+      created_at INTEGER NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )`,
+
+    // User identities table - must match oauth.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS user_identities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      provider TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      email TEXT,
+      linked_at INTEGER NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      last_used_at INTEGER,
+      UNIQUE (provider, subject),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )`,
+
+    // OAuth states table - must match oauth.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS oauth_states (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      provider TEXT NOT NULL,
+      state_hash TEXT NOT NULL UNIQUE,
+      nonce TEXT NOT NULL,
+      code_verifier TEXT NOT NULL,
+      link_user_id INTEGER,
+      redirect_to TEXT,
+      expires_at INTEGER NOT NULL,
+      consumed_at INTEGER,
+      created_at INTEGER NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (link_user_id) REFERENCES users(id)
+    )`,
+
+    // Email tokens table - must match email-auth.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS email_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      purpose TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at INTEGER NOT NULL,
+      consumed_at INTEGER,
+      created_at INTEGER NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )`,
+
+    // Auth attempts table - must match email-auth.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS auth_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL,
+      email TEXT,
+      ip_address TEXT,
+      succeeded INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    // Audit log table - must match audit.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      ip_address TEXT,
+      user_agent TEXT,
+      session_id TEXT,
+      action TEXT NOT NULL,
+      entity_type TEXT,
+      entity_id TEXT,
+      old_values TEXT,
+      new_values TEXT,
+      metadata TEXT,
+      request_id TEXT,
+      method TEXT,
+      path TEXT,
+      success INTEGER DEFAULT 1,
+      error_code TEXT,
+      error_message TEXT,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )`,
+
+    // Question fingerprints table - must match question-similarity.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS question_fingerprints (
+      question_id INTEGER PRIMARY KEY,
+      exam_id INTEGER NOT NULL,
+      signature TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (question_id) REFERENCES questions(id),
       FOREIGN KEY (exam_id) REFERENCES exams(id)
+    )`,
+
+    // Question similarity flags table - must match question-similarity.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS question_similarity_flags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      exam_id INTEGER NOT NULL,
+      question_id INTEGER NOT NULL,
+      similar_question_id INTEGER NOT NULL,
+      similarity REAL NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      kept_question_id INTEGER,
+      resolved_by INTEGER,
+      resolved_at INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      UNIQUE (question_id, similar_question_id),
+      FOREIGN KEY (exam_id) REFERENCES exams(id),
+      FOREIGN KEY (question_id) REFERENCES questions(id),
+      FOREIGN KEY (similar_question_id) REFERENCES questions(id)
+    )`,
+
+    // AI generation log table - must match audit.ts schema exactly
+    `CREATE TABLE IF NOT EXISTS ai_generation_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      purpose TEXT NOT NULL,
+      model TEXT NOT NULL,
+      prompt_tokens INTEGER,
+      completion_tokens INTEGER,
+      total_tokens INTEGER,
+      cost_cents REAL,
+      exam_id INTEGER,
+      objective_id INTEGER,
+      question_ids TEXT,
+      tweet_id TEXT,
+      opportunity_id TEXT,
+      success INTEGER DEFAULT 1,
+      error_message TEXT,
+      generation_time_ms INTEGER,
+      request_id TEXT,
+      user_id INTEGER,
+      ip_address TEXT,
+      user_agent TEXT,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (exam_id) REFERENCES exams(id),
+      FOREIGN KEY (objective_id) REFERENCES objectives(id),
+      FOREIGN KEY (user_id) REFERENCES users(id)
     )`
   ]
   
@@ -392,8 +727,8 @@ export function setupTestDatabase() {
     const tables = [
       'audit_log', 'ai_generation_log', 'growth_metrics', 'voice_profiles',
       'engagement_opportunities', 'tweets', 'twitter_accounts',
-      'user_progress', 'user_answers', 'test_attempts', 'study_sessions',
-      'questions', 'objectives', 'exams', 'users'
+      'auth_attempts', 'email_tokens', 'oauth_states', 'user_identities', 'refresh_tokens', 'sessions', 'certification_path_exams', 'certification_paths', 'exam_version_mappings', 'question_feedback', 'question_similarity_flags', 'question_fingerprints', 'question_review_comments', 'item_calibrations', 'review_states', 'user_progress', 'user_answers', 'test_attempts', 'study_sessions',
+      'question_revisions', 'questions', 'objectives', 'exams', 'users'
     ]
     
     const client = testDb.session.client
@@ -0,0 +1,171 @@
+// Spaced-repetition scheduler test suite
+// Covers SM-2 scheduling rules and due-card selection in study queries
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import {
+  deriveRecallQuality,
+  scheduleReview,
+  replayAnswerHistory,
+  SM2_CONFIG
+} from '~/database/utils/spaced-repetition'
+import * as schema from '~/database/schema'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+describe('Spaced Repetition', () => {
+  describe('deriveRecallQuality', () => {
+    it('should rank confident correct answers highest', () => {
+      expect(deriveRecallQuality(true, 5)).toBe(5)
+      expect(deriveRecallQuality(true, 3)).toBe(4)
+      expect(deriveRecallQuality(true, 1)).toBe(3)
+    })
+
+    it('should rank confident mistakes lowest', () => {
+      expect(deriveRecallQuality(false, 5)).toBe(0)
+      expect(deriveRecallQuality(false, 3)).toBe(1)
+      expect(deriveRecallQuality(false, 1)).toBe(2)
+    })
+
+    it('should treat a missing confidence rating as neutral', () => {
+      expect(deriveRecallQuality(true, null)).toBe(4)
+      expect(deriveRecallQuality(false, undefined)).toBe(1)
+    })
+  })
+
+  describe('scheduleReview', () => {
+    const reviewedAt = new Date('2024-03-01T12:00:00Z')
+
+    it('should follow the SM-2 learning steps for successful reviews', () => {
+      const first = scheduleReview(null, { isCorrect: true, confidenceLevel: 4, reviewedAt })
+      expect(first.repetitions).toBe(1)
+      expect(first.intervalDays).toBe(SM2_CONFIG.firstIntervalDays)
+      expect(first.dueAt.getTime()).toBe(reviewedAt.getTime() + DAY_MS)
+
+      const second = scheduleReview(first, { isCorrect: true, confidenceLevel: 4, reviewedAt })
+      expect(second.intervalDays).toBe(SM2_CONFIG.secondIntervalDays)
+
+      const third = scheduleReview(second, { isCorrect: true, confidenceLevel: 4, reviewedAt })
+      expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor))
+    })
+
+    it('should reset the card and count a lapse when forgotten', () => {
+      const learned = { easeFactor: 2.5, intervalDays: 15, repetitions: 3, lapses: 0 }
+      const next = scheduleReview(learned, { isCorrect: false, confidenceLevel: 5, reviewedAt })
+
+      expect(next.repetitions).toBe(0)
+      expect(next.intervalDays).toBe(SM2_CONFIG.lapseIntervalDays)
+      expect(next.lapses).toBe(1)
+      expect(next.easeFactor).toBeLessThan(2.5)
+    })
+
+    it('should never let the ease factor drop below the minimum', () => {
+      let state = scheduleReview(null, { isCorrect: false, confidenceLevel: 5, reviewedAt })
+      for (let i = 0; i < 10; i++) {
+        state = scheduleReview(state, { isCorrect: false, confidenceLevel: 5, reviewedAt })
+      }
+      expect(state.easeFactor).toBe(SM2_CONFIG.minEaseFactor)
+    })
+
+    it('should extend intervals for late but successful reviews', () => {
+      const learned = { easeFactor: 2.5, intervalDays: 10, repetitions: 3, lapses: 0 }
+      const onTime = scheduleReview(learned, { isCorrect: true, confidenceLevel: 4, reviewedAt, daysSinceLastSeen: 10 })
+      const late = scheduleReview(learned, { isCorrect: true, confidenceLevel: 4, reviewedAt, daysSinceLastSeen: 20 })
+
+      expect(late.intervalDays).toBeGreaterThan(onTime.intervalDays)
+    })
+  })
+
+  describe('replayAnswerHistory', () => {
+    it('should rebuild state from answers in chronological order', () => {
+      const start = new Date('2024-01-01T00:00:00Z').getTime()
+      const state = replayAnswerHistory([
+        { isCorrect: true, confidenceLevel: 4, attemptNumber: 2, daysSinceLastSeen: 1, answeredAt: new Date(start + DAY_MS) },
+        { isCorrect: true, confidenceLevel: 4, attemptNumber: 1, daysSinceLastSeen: null, answeredAt: new Date(start) }
+      ])
+
+      expect(state?.repetitions).toBe(2)
+      expect(state?.intervalDays).toBe(SM2_CONFIG.secondIntervalDays)
+    })
+
+    it('should return null without any answers', () => {
+      expect(replayAnswerHistory([])).toBeNull()
+    })
+  })
+
+  describe('review mode selection', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should only return due cards, most overdue first', async () => {
+      const [mostOverdue, overdue, notDue] = testData.questions
+      const now = Date.now()
+
+      await dbWrapper.db.insert(schema.reviewStates).values([
+        { userId: testData.user.id, questionId: overdue.id, dueAt: new Date(now - DAY_MS) },
+        { userId: testData.user.id, questionId: mostOverdue.id, dueAt: new Date(now - 5 * DAY_MS) },
+        { userId: testData.user.id, questionId: notDue.id, dueAt: new Date(now + 3 * DAY_MS) }
+      ])
+
+      const questions = await queries.study.getStudyQuestions({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        mode: 'review'
+      })
+
+      expect(questions.map(q => q.id)).toEqual([mostOverdue.id, overdue.id])
+    })
+
+    it('should create and advance review state from answers', async () => {
+      const question = testData.questions[0]
+      const reviewedAt = new Date()
+
+      const first = await queries.review.recordReview({
+        userId: testData.user.id,
+        questionId: question.id,
+        isCorrect: true,
+        confidenceLevel: 5,
+        reviewedAt
+      })
+      expect(first.repetitions).toBe(1)
+
+      const second = await queries.review.recordReview({
+        userId: testData.user.id,
+        questionId: question.id,
+        isCorrect: false,
+        confidenceLevel: 4,
+        reviewedAt
+      })
+      expect(second.id).toBe(first.id)
+      expect(second.repetitions).toBe(0)
+      expect(second.lapses).toBe(1)
+    })
+
+    it('should put due cards ahead of new questions in practice mode', async () => {
+      const dueQuestion = testData.questions[10]
+
+      await dbWrapper.db.insert(schema.reviewStates).values({
+        userId: testData.user.id,
+        questionId: dueQuestion.id,
+        dueAt: new Date(Date.now() - DAY_MS)
+      })
+
+      const questions = await queries.study.getStudyQuestions({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        mode: 'practice',
+        limit: 5
+      })
+
+      expect(questions[0].id).toBe(dueQuestion.id)
+      expect(questions).toHaveLength(5)
+      expect(new Set(questions.map(q => q.id)).size).toBe(5)
+    })
+  })
+})
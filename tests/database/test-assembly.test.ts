@@ -0,0 +1,155 @@
+// Blueprint test assembly test suite
+// Covers apportioning, blueprint-matched forms, shortfall reports, seeded parallel forms and recency
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import * as schema from '~/database/schema'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { apportion, assembleForm, difficultyBand, typeGroup, type AssemblyCandidate, type BlueprintDomain } from '~/database/utils/test-assembly'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const domains: BlueprintDomain[] = [
+  { id: 1, code: '1.0', name: 'Networking Concepts', share: 0.5 },
+  { id: 2, code: '2.0', name: 'Network Implementation', share: 0.3 },
+  { id: 3, code: '3.0', name: 'Network Security', share: 0.2 }
+]
+
+// Sub-objectives 11, 21 and 31 sit under domains 1, 2 and 3
+const domainOf = (objectiveId: number) => (objectiveId > 10 ? Math.floor(objectiveId / 10) : objectiveId)
+
+// Per domain: every difficulty, mostly single answer with some multi-select and performance-based items
+function bank(perDomain: number, options: { performanceBased?: boolean } = {}): AssemblyCandidate[] {
+  const { performanceBased = true } = options
+  const candidates: AssemblyCandidate[] = []
+  for (const domain of domains) {
+    for (let i = 0; i < perDomain; i++) {
+      const type = i % 10 === 0 && performanceBased ? 'drag_drop' : i % 5 === 0 ? 'multi_select' : 'multiple_choice'
+      const difficulty = ((i + Math.floor(i / 10)) % 5) + 1
+      candidates.push({ id: domain.id * 1000 + i, objectiveId: i % 2 ? domain.id * 10 + 1 : domain.id, difficulty, type })
+    }
+  }
+  return candidates
+}
+
+const count = <T>(items: T[], key: (item: T) => string) =>
+  items.reduce<Record<string, number>>((acc, item) => ({ ...acc, [key(item)]: (acc[key(item)] ?? 0) + 1 }), {})
+
+describe('Test Assembly', () => {
+  describe('apportion', () => {
+    it('should split by largest remainder and evenly without shares', () => {
+      expect(apportion(10, [0.5, 0.3, 0.2])).toEqual([5, 3, 2])
+      expect(apportion(7, [0.5, 0.3, 0.2])).toEqual([4, 2, 1])
+      expect(apportion(5, [0, 0, 0])).toEqual([2, 2, 1])
+      expect(apportion(3, [])).toEqual([])
+    })
+  })
+
+  describe('assembleForm', () => {
+    it('should match the blueprint when the bank is deep enough', () => {
+      const candidates = bank(60)
+      const { questionIds, report } = assembleForm({ candidates, domains, domainOf, questionCount: 40, seed: 'spring' })
+
+      const byId = new Map(candidates.map(candidate => [candidate.id, candidate]))
+      const chosen = questionIds.map(id => byId.get(id)!)
+      expect(new Set(questionIds).size).toBe(40)
+      expect(count(chosen, candidate => String(domainOf(candidate.objectiveId)))).toEqual({ 1: 20, 2: 12, 3: 8 })
+      expect(count(chosen, candidate => difficultyBand(candidate.difficulty))).toEqual({ easy: 12, medium: 16, hard: 12 })
+      expect(count(chosen, candidate => typeGroup(candidate.type))).toEqual({ single_answer: 30, multi_select: 6, performance_based: 4 })
+      expect(report).toMatchObject({ seed: 'spring', form: 1, requested: 40, assembled: 40, recentlySeen: 0, unmet: [] })
+    })
+
+    it('should report the constraints a thin bank cannot meet', () => {
+      const candidates = bank(8, { performanceBased: false }).filter(candidate => domainOf(candidate.objectiveId) !== 3)
+
+      const { questionIds, report } = assembleForm({ candidates, domains, domainOf, questionCount: 20, seed: 'thin' })
+
+      expect(questionIds).toHaveLength(16)
+      expect(report.unmet).toEqual(expect.arrayContaining([
+        { constraint: 'total', key: 'questions', target: 20, achieved: 16 },
+        { constraint: 'objective', key: '3.0', target: 4, achieved: 0 },
+        { constraint: 'type', key: 'performance_based', target: 2, achieved: 0 }
+      ]))
+    })
+
+    it('should reproduce a form from its seed and keep parallel forms apart', () => {
+      const candidates = bank(30)
+      const first = assembleForm({ candidates, domains, domainOf, questionCount: 30, seed: 'fall', form: 1 })
+      const again = assembleForm({ candidates: [...candidates].reverse(), domains, domainOf, questionCount: 30, seed: 'fall', form: 1 })
+      expect(again.questionIds).toEqual(first.questionIds)
+
+      const second = assembleForm({
+        candidates,
+        domains,
+        domainOf,
+        questionCount: 30,
+        seed: 'fall',
+        form: 2,
+        earlierFormIds: new Set(first.questionIds)
+      })
+      expect(second.questionIds).not.toEqual(first.questionIds)
+      expect(second.report.sharedWithEarlierForms).toBe(second.questionIds.filter(id => first.questionIds.includes(id)).length)
+      expect(second.report.sharedWithEarlierForms).toBeLessThan(10)
+    })
+
+    it('should use recently seen questions only to fill what is left', () => {
+      const candidates = bank(10)
+      const recentIds = new Set(candidates.filter(candidate => candidate.id % 2 === 0).map(candidate => candidate.id))
+
+      const light = assembleForm({ candidates, domains, domainOf, questionCount: 10, seed: 'recent', recentIds })
+      expect(light.questionIds.some(id => recentIds.has(id))).toBe(false)
+
+      const full = assembleForm({ candidates, domains, domainOf, questionCount: 25, seed: 'recent', recentIds })
+      expect(full.report.recentlySeen).toBe(10)
+      expect(full.report.unmet).toContainEqual({ constraint: 'recency', key: 'recently_seen', target: 0, achieved: 10 })
+    })
+  })
+
+  describe('startAttempt', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should deliver the same form for the same seed and record it on the attempt', async () => {
+      const userId = testData.user.id
+      const examId = testData.exam.id
+      const now = new Date('2026-07-01T09:00:00Z')
+
+      const started = await queries.testAttempts.startAttempt({ userId, examId, questionCount: 12, seed: 'july', form: 2, now })
+      expect(started).not.toBeNull()
+      if (!started) return
+      expect(started.attempt).toMatchObject({ formSeed: 'july', formNumber: 2 })
+      expect(started.blueprint.objectives.map(objective => objective.achieved)).toEqual([4, 4, 4])
+
+      const preview = await queries.assembly.assembleForms({ examId, questionCount: 12, seed: 'july', forms: 2 })
+      expect(preview.ok && preview.forms[1].questionIds).toEqual(started.attempt.questionIds)
+      expect(await queries.assembly.assembleForms({ examId: 9999, seed: 'july' })).toEqual({ ok: false, reason: 'exam_not_found' })
+    })
+
+    it('should steer around questions the learner answered recently', async () => {
+      const userId = testData.user.id
+      const now = new Date('2026-07-01T09:00:00Z')
+      const seen = testData.questions.slice(0, 30)
+      await dbWrapper.db.insert(schema.userAnswers).values(seen.map(question => ({
+        userId,
+        questionId: question.id,
+        selectedAnswer: 'a',
+        isCorrect: true,
+        answeredAt: new Date('2026-06-30T09:00:00Z')
+      })))
+
+      const started = await queries.testAttempts.startAttempt({ userId, examId: testData.exam.id, questionCount: 15, now })
+
+      expect(started?.blueprint.recentlySeen).toBe(0)
+      const seenIds = new Set(seen.map(question => question.id))
+      expect(started?.attempt.questionIds.some(id => seenIds.has(id))).toBe(false)
+
+      const [stored] = await dbWrapper.db.select().from(schema.testAttempts).where(eq(schema.testAttempts.userId, userId))
+      expect(stored.formSeed).toEqual(expect.any(String))
+    })
+  })
+})
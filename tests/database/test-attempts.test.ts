@@ -0,0 +1,239 @@
+// Test attempt lifecycle test suite
+// Covers scoring, frozen attempt settings, answer saving, deadlines and review
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { eq } from 'drizzle-orm'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import { scoreAttempt, isAttemptExpired, TEST_ATTEMPT_CONFIG } from '~/database/utils/test-attempts'
+import * as schema from '~/database/schema'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+const minutes = (n: number) => n * 60 * 1000
+
+describe('Test Attempts', () => {
+  describe('scoreAttempt', () => {
+    it('should count unanswered questions as skipped', () => {
+      const result = scoreAttempt(
+        [1, 2, 3, 4],
+        new Map([[1, 10], [2, 10], [3, 20], [4, 20]]),
+        [
+          { questionId: 1, isCorrect: true, timeSpentSeconds: 30 },
+          { questionId: 2, isCorrect: false, timeSpentSeconds: 45 },
+          { questionId: 3, isCorrect: true, timeSpentSeconds: null }
+        ]
+      )
+
+      expect(result.score).toBe(0.5)
+      expect(result.correctCount).toBe(2)
+      expect(result.incorrectCount).toBe(1)
+      expect(result.skippedCount).toBe(1)
+      expect(result.timePerQuestion).toEqual([30, 45, 0, 0])
+      expect(result.totalTimeSeconds).toBe(75)
+      expect(result.objectiveBreakdown).toEqual({
+        10: { correct: 1, total: 2, percentage: 0.5 },
+        20: { correct: 1, total: 2, percentage: 0.5 }
+      })
+    })
+  })
+
+  describe('isAttemptExpired', () => {
+    it('should allow the grace period after the deadline', () => {
+      const expiresAt = new Date('2025-01-01T10:00:00Z')
+      const grace = TEST_ATTEMPT_CONFIG.gracePeriodSeconds * 1000
+
+      expect(isAttemptExpired({ expiresAt }, new Date(expiresAt.getTime() + grace))).toBe(false)
+      expect(isAttemptExpired({ expiresAt }, new Date(expiresAt.getTime() + grace + 1))).toBe(true)
+      expect(isAttemptExpired({ expiresAt: null })).toBe(false)
+    })
+  })
+
+  describe('attempt lifecycle', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    async function start(questionCount = 5, now = new Date()) {
+      const started = await queries.testAttempts.startAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        questionCount,
+        now
+      })
+      return started!
+    }
+
+    it('should freeze the question set, time limit and passing score', async () => {
+      const now = new Date('2025-01-01T10:00:00Z')
+      const { attempt, questions } = await start(5, now)
+
+      expect(attempt.status).toBe('in_progress')
+      expect(attempt.questionIds).toHaveLength(5)
+      expect(attempt.timeLimitMinutes).toBe(testData.exam.timeLimitMinutes)
+      expect(attempt.passingScore).toBe(testData.exam.passingScore)
+      expect(attempt.expiresAt?.getTime()).toBe(now.getTime() + minutes(testData.exam.timeLimitMinutes!))
+      expect(questions.map(q => q.id)).toEqual(attempt.questionIds)
+      expect(questions[0].answers[0]).not.toHaveProperty('isCorrect')
+
+      // Later exam edits must not change an attempt in flight
+      await dbWrapper.db
+        .update(schema.exams)
+        .set({ passingScore: 0.9, timeLimitMinutes: 10 })
+        .where(eq(schema.exams.id, testData.exam.id))
+
+      const reloaded = await queries.testAttempts.getAttempt(attempt.id, testData.user.id, now)
+      expect(reloaded?.passingScore).toBe(testData.exam.passingScore)
+      expect(reloaded?.timeLimitMinutes).toBe(testData.exam.timeLimitMinutes)
+    })
+
+    it('should not start an attempt for an inactive exam', async () => {
+      await dbWrapper.db
+        .update(schema.exams)
+        .set({ isActive: false })
+        .where(eq(schema.exams.id, testData.exam.id))
+
+      const started = await queries.testAttempts.startAttempt({
+        userId: testData.user.id,
+        examId: testData.exam.id
+      })
+      expect(started).toBeNull()
+    })
+
+    it('should update a changed answer in place and accumulate time', async () => {
+      const { attempt } = await start()
+      const questionId = attempt.questionIds[0]
+      const save = (selectedAnswer: string, timeSpentSeconds: number) => queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId,
+        selectedAnswer,
+        timeSpentSeconds
+      })
+
+      const first = await save('b', 20)
+      const second = await save('a', 15)
+
+      expect(first).toMatchObject({ ok: true, changedAnswer: false })
+      expect(second).toMatchObject({ ok: true, changedAnswer: true })
+
+      const answers = await dbWrapper.db
+        .select()
+        .from(schema.userAnswers)
+        .where(eq(schema.userAnswers.testAttemptId, attempt.id))
+      expect(answers).toHaveLength(1)
+      expect(answers[0].selectedAnswer).toBe('a')
+      expect(answers[0].isCorrect).toBe(true)
+      expect(answers[0].timeSpentSeconds).toBe(35)
+      expect(answers[0].changedAnswer).toBe(true)
+    })
+
+    it('should reject answers to questions outside the attempt', async () => {
+      const { attempt } = await start()
+      const outsider = testData.questions.find(q => !attempt.questionIds.includes(q.id))!
+
+      const result = await queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: outsider.id,
+        selectedAnswer: 'a',
+        timeSpentSeconds: 10
+      })
+
+      expect(result).toEqual({ ok: false, reason: 'question_not_in_attempt' })
+    })
+
+    it('should score a submitted attempt', async () => {
+      const { attempt } = await start(4)
+      const [q1, q2, q3] = attempt.questionIds
+
+      for (const [questionId, selectedAnswer] of [[q1, 'a'], [q2, 'a'], [q3, 'b']] as const) {
+        await queries.testAttempts.saveAnswer({
+          attemptId: attempt.id,
+          userId: testData.user.id,
+          questionId,
+          selectedAnswer,
+          timeSpentSeconds: 30
+        })
+      }
+
+      const submitted = await queries.testAttempts.submitAttempt(attempt.id, testData.user.id)
+      expect(submitted.ok).toBe(true)
+      if (!submitted.ok) return
+
+      const scored = submitted.attempt
+      expect(scored.status).toBe('completed')
+      expect(scored.score).toBe(0.5)
+      // Pass/fail follows the domain-weighted scaled score, not the raw fraction
+      expect(scored.passed).toBe(scored.scaledScore! >= scored.scoreScale!.passing)
+      expect(scored.correctCount).toBe(2)
+      expect(scored.incorrectCount).toBe(1)
+      expect(scored.skippedCount).toBe(1)
+      expect(scored.timePerQuestion).toEqual([30, 30, 30, 0])
+      expect(Object.values(scored.objectiveBreakdown!).reduce((sum, o) => sum + o.total, 0)).toBe(4)
+
+      const late = await queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: q1,
+        selectedAnswer: 'b',
+        timeSpentSeconds: 5
+      })
+      expect(late).toEqual({ ok: false, reason: 'not_in_progress' })
+    })
+
+    it('should close an attempt at its deadline and refuse further answers', async () => {
+      const startedAt = new Date('2025-01-01T10:00:00Z')
+      const { attempt } = await start(3, startedAt)
+      const afterDeadline = new Date(attempt.expiresAt!.getTime() + minutes(5))
+
+      const result = await queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: attempt.questionIds[0],
+        selectedAnswer: 'a',
+        timeSpentSeconds: 10,
+        now: afterDeadline
+      })
+      expect(result).toEqual({ ok: false, reason: 'expired' })
+
+      const closed = await queries.testAttempts.getAttempt(attempt.id, testData.user.id, afterDeadline)
+      expect(closed?.status).toBe('completed')
+      expect(closed?.completedAt?.getTime()).toBe(attempt.expiresAt!.getTime())
+      expect(closed?.skippedCount).toBe(3)
+    })
+
+    it('should only review completed attempts, with the answer key', async () => {
+      const { attempt } = await start(2)
+      await queries.testAttempts.saveAnswer({
+        attemptId: attempt.id,
+        userId: testData.user.id,
+        questionId: attempt.questionIds[0],
+        selectedAnswer: 'b',
+        timeSpentSeconds: 12,
+        flagged: true
+      })
+
+      expect(await queries.testAttempts.getReview(attempt.id, testData.user.id))
+        .toEqual({ ok: false, reason: 'not_in_progress' })
+
+      await queries.testAttempts.submitAttempt(attempt.id, testData.user.id)
+      const review = await queries.testAttempts.getReview(attempt.id, testData.user.id)
+      expect(review.ok).toBe(true)
+      if (!review.ok) return
+
+      const [answered, skipped] = review.questions
+      expect(answered).toMatchObject({ position: 1, selectedAnswer: 'b', isCorrect: false, flagged: true, skipped: false })
+      expect(answered.answers.some(answer => answer.isCorrect)).toBe(true)
+      expect(skipped).toMatchObject({ position: 2, selectedAnswer: null, skipped: true })
+    })
+
+    it('should not expose another user\'s attempt', async () => {
+      const { attempt } = await start()
+      expect(await queries.testAttempts.getAttempt(attempt.id, testData.user.id + 1)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,124 @@
+// Weak-area study mode test suite
+// Covers mastery weighting, slot allocation and per-user question selection
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setupTestDatabase, seedTestData } from './setup'
+import { createQueries } from '~/database/utils/queries'
+import {
+  estimateMastery,
+  computeObjectiveWeights,
+  allocateQuestionSlots,
+  rankCandidates
+} from '~/database/utils/weak-areas'
+import * as schema from '~/database/schema'
+
+const dbWrapper = setupTestDatabase()
+let testData: Awaited<ReturnType<typeof seedTestData>>
+let queries: ReturnType<typeof createQueries>
+
+describe('Weak Areas', () => {
+  describe('computeObjectiveWeights', () => {
+    it('should weight low-mastery objectives more heavily', () => {
+      const weights = computeObjectiveWeights([
+        { objectiveId: 1, correct: 9, total: 10 },
+        { objectiveId: 2, correct: 2, total: 10 }
+      ])
+
+      expect(weights[0].objectiveId).toBe(2)
+      expect(weights[0].weight).toBeGreaterThan(weights[1].weight)
+      expect(weights.reduce((sum, w) => sum + w.weight, 0)).toBeCloseTo(1)
+    })
+
+    it('should fall back to stored progress mastery, then the prior', () => {
+      const weights = computeObjectiveWeights([
+        { objectiveId: 1, correct: 0, total: 0, progressMastery: 0.9 },
+        { objectiveId: 2, correct: 0, total: 0 }
+      ])
+
+      const byId = Object.fromEntries(weights.map(w => [w.objectiveId, w]))
+      expect(byId[1].source).toBe('progress')
+      expect(byId[1].mastery).toBe(0.9)
+      expect(byId[2].source).toBe('prior')
+      expect(byId[2].mastery).toBe(estimateMastery(0, 0))
+    })
+  })
+
+  describe('allocateQuestionSlots', () => {
+    it('should allocate exactly the limit when capacity allows', () => {
+      const weights = computeObjectiveWeights([
+        { objectiveId: 1, correct: 1, total: 10 },
+        { objectiveId: 2, correct: 5, total: 10 },
+        { objectiveId: 3, correct: 9, total: 10 }
+      ])
+
+      const allocated = allocateQuestionSlots(weights, 20, { 1: 50, 2: 50, 3: 50 })
+      const byId = Object.fromEntries(allocated.map(w => [w.objectiveId, w.allocated]))
+
+      expect(byId[1] + byId[2] + byId[3]).toBe(20)
+      expect(byId[1]).toBeGreaterThan(byId[2])
+      expect(byId[2]).toBeGreaterThanOrEqual(byId[3])
+    })
+
+    it('should redistribute slots when an objective runs out of questions', () => {
+      const weights = computeObjectiveWeights([
+        { objectiveId: 1, correct: 0, total: 10 },
+        { objectiveId: 2, correct: 10, total: 10 }
+      ])
+
+      const allocated = allocateQuestionSlots(weights, 10, { 1: 3, 2: 20 })
+      const byId = Object.fromEntries(allocated.map(w => [w.objectiveId, w.allocated]))
+
+      expect(byId[1]).toBe(3)
+      expect(byId[2]).toBe(7)
+    })
+  })
+
+  describe('rankCandidates', () => {
+    it('should order misses before unseen before reinforcement', () => {
+      const lastResult = new Map([[1, true], [2, false]])
+      const ranked = rankCandidates([1, 2, 3], lastResult)
+
+      expect(ranked.map(r => r.reason)).toEqual(['previously_incorrect', 'unseen', 'reinforcement'])
+      expect(ranked[0].questionId).toBe(2)
+    })
+  })
+
+  describe('getWeakAreaQuestions', () => {
+    beforeEach(async () => {
+      testData = await seedTestData(dbWrapper.db)
+      queries = createQueries(dbWrapper.db)
+    })
+
+    it('should favor the objective the user keeps getting wrong', async () => {
+      // Seeded questions rotate through the three objectives
+      const strongObjectiveId = testData.questions[0].objectiveId
+      const weakObjectiveId = testData.questions[1].objectiveId
+      const answeredAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
+
+      const answers = testData.questions.slice(0, 12).map(question => ({
+        userId: testData.user.id,
+        questionId: question.id,
+        selectedAnswer: 'a',
+        isCorrect: question.objectiveId !== weakObjectiveId,
+        answeredAt
+      }))
+      await dbWrapper.db.insert(schema.userAnswers).values(answers)
+
+      const { questions, weighting } = await queries.study.getWeakAreaQuestions({
+        userId: testData.user.id,
+        examId: testData.exam.id,
+        limit: 12
+      })
+
+      const weakCount = questions.filter(q => q.objectiveId === weakObjectiveId).length
+      const strongCount = questions.filter(q => q.objectiveId === strongObjectiveId).length
+
+      expect(questions).toHaveLength(12)
+      expect(weighting[0].objectiveId).toBe(weakObjectiveId)
+      expect(weakCount).toBeGreaterThan(strongCount)
+
+      const firstWeak = questions.find(q => q.objectiveId === weakObjectiveId)
+      expect(firstWeak?.selection?.reason).toBe('previously_incorrect')
+    })
+  })
+})